@@ -0,0 +1,183 @@
+import type { NextRequest } from 'next/server';
+
+import { ReviewDecisionError } from '@heripo/pdf-parser';
+import { NextResponse } from 'next/server';
+
+import {
+  getTaskByIdForSession,
+  updateTaskStatus,
+} from '~/lib/db/repositories/task-repository';
+import {
+  applyReviewDecisions,
+  readReviewReport,
+  readReviewWorkspace,
+} from '~/lib/processing/review-workspace';
+import { TaskQueueManager } from '~/lib/queue/task-queue-manager';
+import { runTaskWorker } from '~/lib/queue/task-worker';
+import { getOrCreateSessionId } from '~/lib/session';
+import {
+  createValidationErrorResponse,
+  parseRouteParams,
+  reviewDecisionsSchema,
+  taskRouteParamsSchema,
+} from '~/lib/validations';
+
+// Tasks whose review decisions are being applied
+const reviewsInProgress = new Set<string>();
+
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ taskId: string }> },
+) {
+  try {
+    const sessionId = await getOrCreateSessionId();
+    const rawParams = await params;
+
+    const validation = parseRouteParams(rawParams, taskRouteParamsSchema);
+    if (!validation.success) {
+      return createValidationErrorResponse(validation.error);
+    }
+
+    const { taskId } = validation.data;
+    const task = getTaskByIdForSession(taskId, sessionId);
+
+    if (!task) {
+      return NextResponse.json({ error: 'Task not found' }, { status: 404 });
+    }
+
+    if (task.status !== 'completed' || !task.artifactDir) {
+      return NextResponse.json(
+        { error: 'Task is not completed yet', status: task.status },
+        { status: 400 },
+      );
+    }
+
+    const workspace = readReviewWorkspace(task.artifactDir);
+    if (!workspace) {
+      return NextResponse.json(
+        { error: 'Review assistance report not found' },
+        { status: 404 },
+      );
+    }
+
+    return NextResponse.json(workspace);
+  } catch (error) {
+    console.error('Error getting review workspace:', error);
+    return NextResponse.json(
+      { error: 'Failed to get review workspace' },
+      { status: 500 },
+    );
+  }
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ taskId: string }> },
+) {
+  try {
+    const sessionId = await getOrCreateSessionId();
+    const rawParams = await params;
+
+    const paramsValidation = parseRouteParams(rawParams, taskRouteParamsSchema);
+    if (!paramsValidation.success) {
+      return createValidationErrorResponse(paramsValidation.error);
+    }
+
+    const body = await request.json();
+    const validation = reviewDecisionsSchema.safeParse(body);
+    if (!validation.success) {
+      return createValidationErrorResponse(validation.error);
+    }
+
+    const { taskId } = paramsValidation.data;
+    const task = getTaskByIdForSession(taskId, sessionId);
+
+    if (!task) {
+      return NextResponse.json({ error: 'Task not found' }, { status: 404 });
+    }
+
+    if (task.isSample) {
+      return NextResponse.json(
+        { error: 'Sample tasks cannot be reviewed' },
+        { status: 403 },
+      );
+    }
+
+    if (task.status !== 'completed' || !task.artifactDir) {
+      return NextResponse.json(
+        { error: 'Task is not completed yet', status: task.status },
+        { status: 400 },
+      );
+    }
+
+    const report = readReviewReport(task.artifactDir);
+    if (!report) {
+      return NextResponse.json(
+        { error: 'Review assistance report not found' },
+        { status: 404 },
+      );
+    }
+
+    if (reviewsInProgress.has(taskId)) {
+      return NextResponse.json(
+        { error: 'Review decisions are already being applied' },
+        { status: 409 },
+      );
+    }
+
+    reviewsInProgress.add(taskId);
+    try {
+      let result: Awaited<ReturnType<typeof applyReviewDecisions>>;
+      try {
+        result = await applyReviewDecisions(
+          task.artifactDir,
+          report,
+          validation.data,
+          console,
+        );
+      } catch (error) {
+        // Unknown, non-proposal or non-editable decisions; IO failures
+        // fall through to a 500
+        if (error instanceof ReviewDecisionError) {
+          return NextResponse.json({ error: error.message }, { status: 400 });
+        }
+        throw error;
+      }
+
+      if (!result.entry.decisions.some((d) => d.status === 'applied')) {
+        return NextResponse.json({ entry: result.entry });
+      }
+
+      // Reprocess through the task queue; progress and failures are
+      // reported on the task stream like a regular run
+      updateTaskStatus(taskId, 'queued', { progressPercent: 0 });
+      const queueManager = TaskQueueManager.getInstance();
+      queueManager.setWorkerFactory(runTaskWorker);
+      await queueManager.enqueue({
+        taskId,
+        job: 'reprocess',
+        options: task.options,
+        filePath: task.filePath,
+        addedAt: new Date(),
+        sessionId: task.sessionId,
+        clientIP: task.clientIp ?? 'unknown',
+        userAgent: task.userAgent ?? 'unknown',
+        filename: task.originalFilename,
+        isOtpBypass: task.isOtpBypass,
+      });
+
+      return NextResponse.json(
+        { entry: result.entry, streamUrl: `/api/tasks/${taskId}/stream` },
+        { status: 202 },
+      );
+    } finally {
+      reviewsInProgress.delete(taskId);
+    }
+  } catch (error) {
+    console.error('Error applying review decisions:', error);
+    return NextResponse.json(
+      { error: 'Failed to apply review decisions' },
+      { status: 500 },
+    );
+  }
+}
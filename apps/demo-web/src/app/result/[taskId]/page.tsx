@@ -23,6 +23,7 @@ import {
   ResultHeader,
   ResultLoading,
   ResultSummaryCards,
+  ReviewWorkspaceCard,
   SampleDataBanner,
   TokenUsageChart,
   useDownloadAll,
@@ -131,6 +132,7 @@ function ResultContent({ taskId }: { taskId: string }) {
               />
             </div>
           </div>
+          <ReviewWorkspaceCard taskId={taskId} isSample={task.isSample} />
           <TokenUsageChart
             tokenUsage={task.tokenUsage}
             tokenCostUSD={task.tokenCostUSD}
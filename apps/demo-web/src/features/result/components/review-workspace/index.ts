@@ -0,0 +1 @@
+export { ReviewWorkspaceCard } from './review-workspace-card';
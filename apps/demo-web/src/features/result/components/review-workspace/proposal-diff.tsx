@@ -0,0 +1,48 @@
+interface ProposalDiffProps {
+  before: string | null;
+  after: string | null;
+  editable: boolean;
+  editedValue?: string;
+  onEdit?: (value: string) => void;
+}
+
+/**
+ * Side-by-side current and proposed values. Editable proposals render the
+ * proposed value as a textarea so the reviewer can correct it before
+ * accepting.
+ */
+export function ProposalDiff({
+  before,
+  after,
+  editable,
+  editedValue,
+  onEdit,
+}: ProposalDiffProps) {
+  return (
+    <div className="grid gap-3 md:grid-cols-2">
+      <div className="space-y-1">
+        <p className="text-muted-foreground text-xs font-medium">Current</p>
+        <pre className="min-h-16 rounded-md bg-red-500/10 p-3 text-sm whitespace-pre-wrap">
+          {before ?? '—'}
+        </pre>
+      </div>
+      <div className="space-y-1">
+        <p className="text-muted-foreground text-xs font-medium">
+          {editable && onEdit ? 'Proposed (editable)' : 'Proposed'}
+        </p>
+        {editable && onEdit ? (
+          <textarea
+            value={editedValue ?? after ?? ''}
+            onChange={(event) => onEdit(event.target.value)}
+            rows={4}
+            className="border-input focus-visible:ring-ring w-full rounded-md border bg-green-500/10 p-3 text-sm focus-visible:ring-2 focus-visible:outline-none"
+          />
+        ) : (
+          <pre className="min-h-16 rounded-md bg-green-500/10 p-3 text-sm whitespace-pre-wrap">
+            {after ?? '—'}
+          </pre>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,38 @@
+// eslint-disable @next/next/no-img-element
+import type { ReviewProposalHighlight } from '~/lib/api/review';
+
+interface ProposalPagePreviewProps {
+  taskId: string;
+  pageNo: number;
+  highlight: ReviewProposalHighlight | null;
+}
+
+/**
+ * Rendered page image with the proposal's target region outlined.
+ */
+export function ProposalPagePreview({
+  taskId,
+  pageNo,
+  highlight,
+}: ProposalPagePreviewProps) {
+  return (
+    <div className="bg-muted relative overflow-hidden rounded-md border">
+      <img
+        src={`/api/tasks/${taskId}/pages/${pageNo - 1}`}
+        alt={`Page ${pageNo}`}
+        className="block h-auto w-full"
+      />
+      {highlight && (
+        <div
+          className="pointer-events-none absolute border-2 border-yellow-500 bg-yellow-400/20"
+          style={{
+            left: `${highlight.left * 100}%`,
+            top: `${highlight.top * 100}%`,
+            width: `${highlight.width * 100}%`,
+            height: `${highlight.height * 100}%`,
+          }}
+        />
+      )}
+    </div>
+  );
+}
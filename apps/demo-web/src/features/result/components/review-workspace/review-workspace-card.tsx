@@ -0,0 +1,264 @@
+'use client';
+
+import { Check, Loader2, X } from 'lucide-react';
+import { useMemo, useState } from 'react';
+
+import type {
+  ReviewProposalItem,
+  ReviewProposalStatus,
+} from '~/lib/api/review';
+import { cn } from '~/lib/utils';
+
+import { Badge } from '~/components/ui/badge';
+import { Button } from '~/components/ui/button';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '~/components/ui/card';
+import { Input } from '~/components/ui/input';
+import { useReviewWorkspace } from '~/features/result/hooks/use-review-workspace';
+import { useSubmitReviewDecisions } from '~/features/result/hooks/use-submit-review-decisions';
+
+import { ProposalDiff } from './proposal-diff';
+import { ProposalPagePreview } from './proposal-page-preview';
+
+type ReviewChoice = 'accept' | 'reject';
+
+const STATUS_BADGE_VARIANT: Record<
+  ReviewProposalStatus,
+  'secondary' | 'success' | 'warning' | 'destructive'
+> = {
+  pending: 'secondary',
+  applied: 'success',
+  skipped: 'warning',
+  rejected: 'destructive',
+};
+
+interface ReviewWorkspaceCardProps {
+  taskId: string;
+  isSample?: boolean;
+}
+
+/**
+ * Lets a reviewer accept, reject or edit review-assistance proposals.
+ * Accepted proposals are patched into the Docling result and the document
+ * is reprocessed on the server.
+ */
+export function ReviewWorkspaceCard({
+  taskId,
+  isSample = false,
+}: ReviewWorkspaceCardProps) {
+  const { data } = useReviewWorkspace(taskId);
+  const submit = useSubmitReviewDecisions(taskId);
+
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [choices, setChoices] = useState<Record<string, ReviewChoice>>({});
+  const [edits, setEdits] = useState<Record<string, string>>({});
+  const [reviewer, setReviewer] = useState('');
+  const [note, setNote] = useState('');
+
+  const proposals = useMemo(() => data?.proposals ?? [], [data]);
+  const selected =
+    proposals.find((proposal) => proposal.decisionId === selectedId) ??
+    proposals[0];
+  const pendingCount = proposals.filter(
+    (proposal) => proposal.status === 'pending',
+  ).length;
+  const choiceCount = Object.keys(choices).length;
+
+  // Hide the workspace entirely when the task ran without review assistance
+  if (!data || proposals.length === 0) return null;
+
+  const choose = (decisionId: string, choice: ReviewChoice) => {
+    setChoices((prev) => ({ ...prev, [decisionId]: choice }));
+  };
+
+  const editProposal = (proposal: ReviewProposalItem, value: string) => {
+    setEdits((prev) => ({ ...prev, [proposal.decisionId]: value }));
+    choose(proposal.decisionId, 'accept');
+  };
+
+  const handleSubmit = () => {
+    const accepted = Object.keys(choices).filter(
+      (id) => choices[id] === 'accept',
+    );
+    submit.mutate(
+      {
+        reviewer: reviewer.trim(),
+        note: note.trim() || undefined,
+        acceptedDecisionIds: accepted,
+        rejectedDecisionIds: Object.keys(choices).filter(
+          (id) => choices[id] === 'reject',
+        ),
+        edits: Object.fromEntries(
+          Object.entries(edits).filter(([id]) => accepted.includes(id)),
+        ),
+      },
+      {
+        onSuccess: () => {
+          setChoices({});
+          setEdits({});
+        },
+      },
+    );
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          Review Proposals
+          <Badge variant="secondary">{pendingCount} pending</Badge>
+        </CardTitle>
+        <CardDescription>
+          Corrections below the auto-apply threshold. Accepted proposals are
+          applied to the Docling result and the document is reprocessed.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid gap-6 lg:grid-cols-3">
+          <ul className="max-h-[32rem] space-y-1 overflow-y-auto lg:col-span-1">
+            {proposals.map((proposal) => (
+              <li key={proposal.decisionId}>
+                <button
+                  type="button"
+                  onClick={() => setSelectedId(proposal.decisionId)}
+                  className={cn(
+                    'hover:bg-accent flex w-full items-center justify-between gap-2 rounded-md px-3 py-2 text-left text-sm',
+                    proposal.decisionId === selected?.decisionId && 'bg-accent',
+                  )}
+                >
+                  <span className="truncate">
+                    p.{proposal.pageNo} · {proposal.op}
+                  </span>
+                  {proposal.status === 'pending' ? (
+                    choices[proposal.decisionId] && (
+                      <Badge
+                        variant={
+                          choices[proposal.decisionId] === 'accept'
+                            ? 'success'
+                            : 'destructive'
+                        }
+                      >
+                        {choices[proposal.decisionId]}
+                      </Badge>
+                    )
+                  ) : (
+                    <Badge variant={STATUS_BADGE_VARIANT[proposal.status]}>
+                      {proposal.status}
+                    </Badge>
+                  )}
+                </button>
+              </li>
+            ))}
+          </ul>
+          {selected && (
+            <div className="space-y-4 lg:col-span-2">
+              <div className="flex flex-wrap items-center gap-2 text-sm">
+                <Badge variant="outline">{selected.op}</Badge>
+                <span className="text-muted-foreground">
+                  Page {selected.pageNo} · confidence{' '}
+                  {selected.confidence.toFixed(2)}
+                </span>
+                {selected.statusReason && (
+                  <span className="text-muted-foreground">
+                    ({selected.statusReason})
+                  </span>
+                )}
+              </div>
+              <ProposalPagePreview
+                taskId={taskId}
+                pageNo={selected.pageNo}
+                highlight={selected.highlight}
+              />
+              {selected.before === null && selected.after === null ? (
+                <pre className="bg-muted/30 overflow-x-auto rounded-md p-3 text-xs">
+                  {JSON.stringify(selected.command, null, 2)}
+                </pre>
+              ) : (
+                <ProposalDiff
+                  before={selected.before}
+                  after={selected.after}
+                  editable={selected.editable && selected.status === 'pending'}
+                  editedValue={edits[selected.decisionId]}
+                  onEdit={(value) => editProposal(selected, value)}
+                />
+              )}
+              {selected.reasons.length > 0 && (
+                <p className="text-muted-foreground text-xs">
+                  {selected.reasons.join(', ')}
+                </p>
+              )}
+              {selected.status === 'pending' && (
+                <div className="flex gap-2">
+                  <Button
+                    size="sm"
+                    variant={
+                      choices[selected.decisionId] === 'accept'
+                        ? 'default'
+                        : 'outline'
+                    }
+                    onClick={() => choose(selected.decisionId, 'accept')}
+                  >
+                    <Check />
+                    Accept
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant={
+                      choices[selected.decisionId] === 'reject'
+                        ? 'destructive'
+                        : 'outline'
+                    }
+                    onClick={() => choose(selected.decisionId, 'reject')}
+                  >
+                    <X />
+                    Reject
+                  </Button>
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+        <div className="flex flex-col gap-2 border-t pt-4 md:flex-row md:items-center">
+          <Input
+            value={reviewer}
+            onChange={(event) => setReviewer(event.target.value)}
+            placeholder="Reviewer name"
+            className="md:max-w-48"
+          />
+          <Input
+            value={note}
+            onChange={(event) => setNote(event.target.value)}
+            placeholder="Note (optional)"
+          />
+          <Button
+            onClick={handleSubmit}
+            disabled={
+              isSample ||
+              choiceCount === 0 ||
+              reviewer.trim() === '' ||
+              submit.isPending
+            }
+          >
+            {submit.isPending && <Loader2 className="animate-spin" />}
+            {submit.isPending
+              ? 'Applying & reprocessing...'
+              : `Apply ${choiceCount} decision${choiceCount === 1 ? '' : 's'}`}
+          </Button>
+        </div>
+        {isSample && (
+          <p className="text-muted-foreground text-sm">
+            Sample results cannot be reviewed.
+          </p>
+        )}
+        {submit.error && (
+          <p className="text-destructive text-sm">{submit.error.message}</p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
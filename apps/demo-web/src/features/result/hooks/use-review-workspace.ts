@@ -0,0 +1,17 @@
+import { useQuery } from '@tanstack/react-query';
+
+import { fetchReviewWorkspace } from '~/lib/api/review';
+import { ApiResponseError } from '~/lib/api/tasks';
+import { taskKeys } from '~/lib/query-keys';
+
+export function useReviewWorkspace(taskId: string | null) {
+  return useQuery({
+    queryKey: taskKeys.review(taskId ?? ''),
+    queryFn: () => fetchReviewWorkspace(taskId!),
+    enabled: !!taskId,
+    // 404 means the task ran without review assistance
+    retry: (failureCount, error) =>
+      !(error instanceof ApiResponseError && error.statusCode === 404) &&
+      failureCount < 1,
+  });
+}
@@ -0,0 +1,23 @@
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+
+import {
+  type SubmitReviewDecisionsInput,
+  submitReviewDecisions,
+} from '~/lib/api/review';
+import { taskKeys } from '~/lib/query-keys';
+
+export function useSubmitReviewDecisions(taskId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (input: SubmitReviewDecisionsInput) =>
+      submitReviewDecisions(taskId, input),
+    onSuccess: () => {
+      // Applied proposals queue reprocessing, so the task status and result
+      // change too
+      queryClient.invalidateQueries({ queryKey: taskKeys.review(taskId) });
+      queryClient.invalidateQueries({ queryKey: taskKeys.result(taskId) });
+      queryClient.invalidateQueries({ queryKey: taskKeys.detail(taskId) });
+    },
+  });
+}
@@ -8,6 +8,7 @@ export { ResultError } from './components/result-error';
 export { ResultHeader } from './components/result-header';
 export { ResultLoading } from './components/result-loading';
 export { ResultSummaryCards } from './components/result-summary-cards';
+export { ReviewWorkspaceCard } from './components/review-workspace';
 export { SampleDataBanner } from './components/sample-data-banner';
 export { TokenUsageChart } from './components/token-usage-chart';
 
@@ -21,5 +22,7 @@ export {
 export { useDownloadAll } from './hooks/use-download-all';
 export { useExportJson } from './hooks/use-export-json';
 export { usePageNavigation } from './hooks/use-page-navigation';
+export { useReviewWorkspace } from './hooks/use-review-workspace';
 export { useSelectedChapter } from './hooks/use-selected-chapter';
+export { useSubmitReviewDecisions } from './hooks/use-submit-review-decisions';
 export { useTaskResult } from './hooks/use-task-result';
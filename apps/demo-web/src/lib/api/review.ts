@@ -0,0 +1,95 @@
+import type { ReviewAssistanceCommand } from '@heripo/model';
+import type { ReviewProposalAuditEntry } from '@heripo/pdf-parser';
+
+import { ApiResponseError } from './tasks';
+
+export type ReviewProposalStatus =
+  'pending' | 'applied' | 'skipped' | 'rejected';
+
+/**
+ * Target region of a proposal as fractions (0-1) of the page size,
+ * measured from the top-left corner of the rendered page image.
+ */
+export interface ReviewProposalHighlight {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+export interface ReviewProposalItem {
+  decisionId: string;
+  pageNo: number;
+  op: ReviewAssistanceCommand['op'];
+  command: ReviewAssistanceCommand;
+  confidence: number;
+  reasons: string[];
+  highlight: ReviewProposalHighlight | null;
+  /** Current value in `result.json` (text, table cell, caption or table). */
+  before: string | null;
+  /** Value the proposal would write. */
+  after: string | null;
+  /** Whether the reviewer can edit `after` before accepting. */
+  editable: boolean;
+  status: ReviewProposalStatus;
+  statusReason?: string;
+}
+
+export interface ReviewWorkspaceResponse {
+  reportId: string;
+  proposals: ReviewProposalItem[];
+  auditEntries: ReviewProposalAuditEntry[];
+}
+
+export interface SubmitReviewDecisionsInput {
+  reviewer: string;
+  note?: string;
+  acceptedDecisionIds: string[];
+  rejectedDecisionIds: string[];
+  /** Replacement `after` values for accepted, editable proposals. */
+  edits: Record<string, string>;
+}
+
+export interface SubmitReviewDecisionsResponse {
+  entry: ReviewProposalAuditEntry;
+  /** Task stream of the queued reprocessing, set when a decision was applied */
+  streamUrl?: string;
+}
+
+interface ApiError {
+  error: string;
+  code?: string;
+}
+
+async function handleResponse<T>(response: Response): Promise<T> {
+  if (!response.ok) {
+    const error: ApiError = await response.json();
+    throw new ApiResponseError(
+      error.error || 'Request failed',
+      response.status,
+      error,
+    );
+  }
+  return response.json();
+}
+
+export async function fetchReviewWorkspace(
+  taskId: string,
+): Promise<ReviewWorkspaceResponse> {
+  const response = await fetch(`/api/tasks/${taskId}/review`);
+  return handleResponse<ReviewWorkspaceResponse>(response);
+}
+
+export async function submitReviewDecisions(
+  taskId: string,
+  input: SubmitReviewDecisionsInput,
+): Promise<SubmitReviewDecisionsResponse> {
+  const response = await fetch(`/api/tasks/${taskId}/review`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(input),
+  });
+  return handleResponse<SubmitReviewDecisionsResponse>(response);
+}
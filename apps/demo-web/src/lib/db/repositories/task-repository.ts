@@ -269,6 +269,37 @@ export function updateTaskResult(
   writeDatabase(db);
 }
 
+/**
+ * Update the counts of a task after its result was reprocessed from a
+ * reviewed Docling document and mark it completed again. Unlike
+ * `updateTaskResult`, this does not record another success session.
+ */
+export function updateTaskReprocessedResult(
+  id: string,
+  result: {
+    totalPages: number;
+    chaptersCount: number;
+    imagesCount: number;
+    tablesCount: number;
+    tokenUsage: unknown;
+  },
+): void {
+  const db = readDatabase();
+  const record = db.tasks.find((t) => t.id === id);
+  if (!record) return;
+
+  record.total_pages = result.totalPages;
+  record.chapters_count = result.chaptersCount;
+  record.images_count = result.imagesCount;
+  record.tables_count = result.tablesCount;
+  record.token_usage_json = JSON.stringify(result.tokenUsage);
+  record.status = 'completed';
+  record.completed_at = new Date().toISOString();
+  record.progress_percent = 100;
+
+  writeDatabase(db);
+}
+
 export function deleteTask(id: string): { success: boolean; error?: string } {
   const db = readDatabase();
   const record = db.tasks.find((t) => t.id === id);
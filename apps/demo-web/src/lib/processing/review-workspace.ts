@@ -0,0 +1,397 @@
+import type { LoggerMethods } from '@heripo/logger';
+import type {
+  DoclingBBox,
+  DoclingDocument,
+  ReviewAssistanceCommand,
+  ReviewAssistanceDecision,
+  ReviewAssistanceReport,
+} from '@heripo/model';
+import type { ReviewProposalAuditLog } from '@heripo/pdf-parser';
+
+import { ReviewDecisionError, ReviewProposalApplier } from '@heripo/pdf-parser';
+import { existsSync, readFileSync } from 'fs';
+import { join } from 'path';
+
+import type {
+  ReviewProposalHighlight,
+  ReviewProposalItem,
+  ReviewWorkspaceResponse,
+  SubmitReviewDecisionsInput,
+} from '~/lib/api/review';
+
+const REVIEW_REPORT_FILENAME = 'review_assistance.json';
+const AUDIT_LOG_FILENAME = 'review_proposal_audit.json';
+
+interface ProposalValues {
+  targetRef?: string;
+  bbox?: DoclingBBox;
+  before: string | null;
+  after: string | null;
+  editable: boolean;
+}
+
+function readJson<T>(path: string): T {
+  return JSON.parse(readFileSync(path, 'utf8')) as T;
+}
+
+export function readReviewReport(
+  artifactDir: string,
+): ReviewAssistanceReport | null {
+  const reportPath = join(artifactDir, REVIEW_REPORT_FILENAME);
+  return existsSync(reportPath)
+    ? readJson<ReviewAssistanceReport>(reportPath)
+    : null;
+}
+
+/**
+ * Resolve a Docling JSON pointer such as `#/texts/3`.
+ */
+function resolveRef(
+  doc: DoclingDocument,
+  ref: string,
+):
+  | DoclingDocument['texts'][number]
+  | DoclingDocument['tables'][number]
+  | DoclingDocument['pictures'][number]
+  | undefined {
+  const match = /^#\/(texts|tables|pictures)\/(\d+)$/.exec(ref);
+  if (!match) return undefined;
+  const index = Number(match[2]);
+  switch (match[1]) {
+    case 'texts':
+      return doc.texts[index];
+    case 'tables':
+      return doc.tables[index];
+    default:
+      return doc.pictures[index];
+  }
+}
+
+function getText(doc: DoclingDocument, ref: string): string | null {
+  const item = resolveRef(doc, ref);
+  return item && 'text' in item ? item.text : null;
+}
+
+function getTableCells(doc: DoclingDocument, ref: string) {
+  const item = resolveRef(doc, ref);
+  return item && 'data' in item ? item.data.grid : null;
+}
+
+function formatGrid(rows: Array<Array<{ text: string }>>): string {
+  return rows.map((row) => row.map((cell) => cell.text).join(' | ')).join('\n');
+}
+
+function getCaption(doc: DoclingDocument, pictureRef: string): string | null {
+  const item = resolveRef(doc, pictureRef);
+  if (!item || !('captions' in item)) return null;
+  const captions = item.captions
+    .map((caption) => getText(doc, caption.$ref))
+    .filter((text): text is string => text !== null);
+  return captions.length > 0 ? captions.join(' ') : null;
+}
+
+function getProposalValues(
+  doc: DoclingDocument,
+  command: ReviewAssistanceCommand,
+): ProposalValues {
+  switch (command.op) {
+    case 'replaceText':
+      return {
+        targetRef: command.textRef,
+        before: getText(doc, command.textRef),
+        after: command.text,
+        editable: true,
+      };
+    case 'addText':
+      return {
+        bbox: command.bbox,
+        before: null,
+        after: command.text,
+        editable: true,
+      };
+    case 'updateTextRole':
+      return {
+        targetRef: command.textRef,
+        before: getText(doc, command.textRef),
+        after: `[${command.label}]`,
+        editable: false,
+      };
+    case 'removeText':
+      return {
+        targetRef: command.textRef,
+        before: getText(doc, command.textRef),
+        after: null,
+        editable: false,
+      };
+    case 'mergeTexts':
+      return {
+        targetRef: command.keepRef,
+        before: command.textRefs
+          .map((ref) => getText(doc, ref) ?? '')
+          .join('\n'),
+        after: command.text,
+        editable: true,
+      };
+    case 'splitText':
+      return {
+        targetRef: command.textRef,
+        before: getText(doc, command.textRef),
+        after: command.parts.map((part) => part.text).join('\n'),
+        editable: false,
+      };
+    case 'updateTableCell': {
+      const cell = getTableCells(doc, command.tableRef)?.[command.row]?.[
+        command.col
+      ];
+      return {
+        targetRef: command.tableRef,
+        bbox: cell?.bbox,
+        before: cell?.text ?? null,
+        after: command.text,
+        editable: true,
+      };
+    }
+    case 'replaceTable': {
+      const grid = getTableCells(doc, command.tableRef);
+      return {
+        targetRef: command.tableRef,
+        before: grid ? formatGrid(grid) : null,
+        after: formatGrid(command.grid),
+        editable: false,
+      };
+    }
+    case 'updatePictureCaption':
+      return {
+        targetRef: command.pictureRef,
+        before: getCaption(doc, command.pictureRef),
+        after: command.caption,
+        editable: true,
+      };
+    case 'addPicture':
+      return {
+        bbox: command.bbox,
+        before: null,
+        after: command.caption ?? null,
+        editable: false,
+      };
+    case 'linkContinuedTable':
+      return {
+        targetRef: command.sourceTableRef,
+        before: null,
+        after: null,
+        editable: false,
+      };
+    case 'splitPicture':
+    case 'hidePicture':
+      return {
+        targetRef: command.pictureRef,
+        before: null,
+        after: null,
+        editable: false,
+      };
+    case 'updateBbox':
+      return {
+        bbox: command.bbox,
+        before: null,
+        after: null,
+        editable: false,
+      };
+    case 'linkFootnote':
+      return {
+        targetRef: command.markerTextRef,
+        before: getText(doc, command.markerTextRef),
+        after: getText(doc, command.footnoteTextRef),
+        editable: false,
+      };
+    case 'moveNode':
+      return {
+        targetRef: command.sourceRef,
+        before: null,
+        after: null,
+        editable: false,
+      };
+  }
+}
+
+function toHighlight(
+  doc: DoclingDocument,
+  pageNo: number,
+  bbox: DoclingBBox | undefined,
+): ReviewProposalHighlight | null {
+  const size = doc.pages[String(pageNo)]?.size;
+  if (!bbox || !size || size.width <= 0 || size.height <= 0) return null;
+
+  const top =
+    bbox.coord_origin === 'BOTTOMLEFT' ? size.height - bbox.t : bbox.t;
+  const bottom =
+    bbox.coord_origin === 'BOTTOMLEFT' ? size.height - bbox.b : bbox.b;
+
+  return {
+    left: bbox.l / size.width,
+    top: Math.min(top, bottom) / size.height,
+    width: Math.abs(bbox.r - bbox.l) / size.width,
+    height: Math.abs(bottom - top) / size.height,
+  };
+}
+
+type ProposalDecision = ReviewAssistanceDecision & {
+  command: ReviewAssistanceCommand;
+};
+
+/**
+ * Latest audit record for a decision, preferring the entry that applied it
+ * over later `already_applied` skips.
+ */
+function findAuditRecord(auditLog: ReviewProposalAuditLog | null, id: string) {
+  const records = (auditLog?.entries ?? []).flatMap((entry) =>
+    entry.decisions
+      .filter((decision) => decision.decisionId === id)
+      .map((decision) => ({ ...decision, snapshot: entry.snapshot })),
+  );
+  return (
+    records.find((record) => record.status === 'applied') ?? records.at(-1)
+  );
+}
+
+function toProposalItem(
+  doc: DoclingDocument,
+  decision: ProposalDecision,
+  auditLog: ReviewProposalAuditLog | null,
+  readSnapshot: (snapshot: string) => DoclingDocument,
+): ReviewProposalItem {
+  const audited = findAuditRecord(auditLog, decision.id);
+  // Applied proposals are compared against the document they were applied to
+  const sourceDoc =
+    audited?.status === 'applied' ? readSnapshot(audited.snapshot) : doc;
+  const values = getProposalValues(
+    sourceDoc,
+    audited?.editedCommand ?? decision.command,
+  );
+  const targetBbox =
+    values.bbox ??
+    (values.targetRef
+      ? resolveRef(sourceDoc, values.targetRef)?.prov?.[0]?.bbox
+      : undefined);
+
+  return {
+    decisionId: decision.id,
+    pageNo: decision.pageNo,
+    op: decision.command.op,
+    command: decision.command,
+    confidence: decision.confidence,
+    reasons: decision.reasons,
+    highlight: toHighlight(sourceDoc, decision.pageNo, targetBbox),
+    before: values.before,
+    after: values.after,
+    editable: values.editable,
+    status: audited?.status ?? 'pending',
+    statusReason: audited?.reason,
+  };
+}
+
+/**
+ * Build the review workspace for a task: every `proposal` decision of the
+ * review assistance report, with the current and proposed values read from
+ * `result.json` and the reviewer decisions recorded in the audit log.
+ *
+ * Returns null when the task has no review assistance report.
+ */
+export function readReviewWorkspace(
+  artifactDir: string,
+): ReviewWorkspaceResponse | null {
+  const report = readReviewReport(artifactDir);
+  if (!report) return null;
+
+  const doc = readJson<DoclingDocument>(join(artifactDir, 'result.json'));
+  const auditLogPath = join(artifactDir, AUDIT_LOG_FILENAME);
+  const auditLog = existsSync(auditLogPath)
+    ? readJson<ReviewProposalAuditLog>(auditLogPath)
+    : null;
+
+  const snapshots = new Map<string, DoclingDocument>();
+  const readSnapshot = (snapshot: string) => {
+    if (!snapshots.has(snapshot)) {
+      snapshots.set(
+        snapshot,
+        readJson<DoclingDocument>(join(artifactDir, snapshot)),
+      );
+    }
+    return snapshots.get(snapshot)!;
+  };
+
+  const proposals = report.pages.flatMap((page) =>
+    page.decisions
+      .filter(
+        (decision): decision is ProposalDecision =>
+          decision.disposition === 'proposal' && !!decision.command,
+      )
+      .map((decision) => toProposalItem(doc, decision, auditLog, readSnapshot)),
+  );
+
+  return {
+    reportId: report.reportId,
+    proposals,
+    auditEntries: auditLog?.entries ?? [],
+  };
+}
+
+/**
+ * Replace the proposed value of an editable command with the reviewer's edit.
+ */
+function withEditedValue(
+  command: ReviewAssistanceCommand,
+  value: string,
+): ReviewAssistanceCommand {
+  switch (command.op) {
+    case 'replaceText':
+    case 'addText':
+    case 'mergeTexts':
+    case 'updateTableCell':
+      return { ...command, text: value };
+    case 'updatePictureCaption':
+      return { ...command, caption: value };
+    default:
+      throw new ReviewDecisionError(
+        `Proposal op ${command.op} cannot be edited`,
+      );
+  }
+}
+
+/**
+ * Apply reviewer decisions to `result.json` via `ReviewProposalApplier`.
+ *
+ * Edited values are turned into edited commands so the audit log keeps both
+ * the original proposal and what the reviewer actually applied.
+ *
+ * @throws {ReviewDecisionError} When decisions are unknown, conflicting or
+ * not editable; other errors are IO or artifact failures
+ */
+export async function applyReviewDecisions(
+  artifactDir: string,
+  report: ReviewAssistanceReport,
+  input: SubmitReviewDecisionsInput,
+  logger: LoggerMethods,
+) {
+  const commands = new Map(
+    report.pages.flatMap((page) =>
+      page.decisions.map((decision) => [decision.id, decision.command]),
+    ),
+  );
+  const editedCommands: Record<string, ReviewAssistanceCommand> = {};
+  for (const [decisionId, value] of Object.entries(input.edits)) {
+    const command = commands.get(decisionId);
+    if (!command) {
+      throw new ReviewDecisionError(`Unknown proposal ${decisionId}`);
+    }
+    editedCommands[decisionId] = withEditedValue(command, value);
+  }
+
+  const applier = new ReviewProposalApplier(logger);
+  return applier.apply(artifactDir, report, {
+    acceptedDecisionIds: input.acceptedDecisionIds,
+    rejectedDecisionIds: input.rejectedDecisionIds,
+    editedCommands,
+    reviewer: input.reviewer,
+    note: input.note,
+  });
+}
@@ -7,6 +7,8 @@ export const taskKeys = {
   detail: (taskId: string) => [...taskKeys.details(), taskId] as const,
   results: () => [...taskKeys.all, 'result'] as const,
   result: (taskId: string) => [...taskKeys.results(), taskId] as const,
+  reviews: () => [...taskKeys.all, 'review'] as const,
+  review: (taskId: string) => [...taskKeys.reviews(), taskId] as const,
 };
 
 export const rateLimitKeys = {
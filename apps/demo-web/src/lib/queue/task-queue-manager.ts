@@ -14,6 +14,12 @@ import { createTaskCancelledPayload, sendWebhookAsync } from '../webhook';
 
 export interface QueuedTask {
   taskId: string;
+  /**
+   * `process` parses and processes the uploaded PDF; `reprocess` reruns
+   * document processing of a completed task after review decisions were
+   * applied (default: `process`)
+   */
+  job?: 'process' | 'reprocess';
   options: ProcessingOptions;
   filePath: string;
   addedAt: Date;
@@ -115,6 +121,8 @@ class TaskQueueManager {
     for (const task of queuedTasks) {
       this.queue.push({
         taskId: task.id,
+        // Only review reprocessing queues a task that already has a result
+        job: task.processedResultPath ? 'reprocess' : 'process',
         options: task.options,
         filePath: task.filePath,
         addedAt: new Date(task.createdAt),
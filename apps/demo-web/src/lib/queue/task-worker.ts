@@ -1,5 +1,6 @@
 import type {
   DoclingDocument,
+  ProcessedDocument,
   ProcessedDocumentSource,
   TokenUsageReport,
 } from '@heripo/model';
@@ -10,6 +11,7 @@ import type { QueuedTask, SSEEvent } from './task-queue-manager';
 
 import { DocumentProcessor } from '@heripo/document-processor';
 import { InvalidDocumentTypeError } from '@heripo/pdf-parser';
+import { createModel } from '@heripo/shared';
 import { createHash } from 'crypto';
 import { readFileSync, writeFileSync } from 'fs';
 import { relative, sep } from 'path';
@@ -19,13 +21,11 @@ import { createLog } from '../db/repositories/log-repository';
 import {
   getTaskById,
   updateTaskProgress,
+  updateTaskReprocessedResult,
   updateTaskResult,
   updateTaskStatus,
 } from '../db/repositories/task-repository';
-import {
-  createModel,
-  createProcessorOptions,
-} from '../processing/model-factory';
+import { createProcessorOptions } from '../processing/model-factory';
 import {
   createDocumentValidationFailedPayload,
   createTaskCompletedPayload,
@@ -287,10 +287,10 @@ function buildPDFCorrectionOptions(
     reviewAssistanceEnabled:
       options.correction.reviewAssistanceEnabled ?? false,
     tableCorrectionEnabled: options.correction.tableCorrectionEnabled ?? true,
-    // Only relevant when review assistance is enabled: demo runs have no human
-    // reviewer, so every valid command would auto-apply instead of routing to a
-    // proposal queue. Kept for when review assistance is re-enabled.
-    forceAutoApply: true,
+    // Only relevant when review assistance is enabled: low-confidence commands
+    // route to proposals, which reviewers accept or reject in the result
+    // page's review workspace.
+    forceAutoApply: false,
   };
   return correction;
 }
@@ -408,6 +408,10 @@ export async function runTaskWorker(
   emitter: EventEmitter,
   abortSignal?: AbortSignal,
 ): Promise<void> {
+  if (task.job === 'reprocess') {
+    return reprocessReviewedTask(task, emitter, abortSignal);
+  }
+
   const { taskId, filePath, options } = task;
 
   const emitProgress = (step: string, percent: number) => {
@@ -655,3 +659,119 @@ export async function runTaskWorker(
     throw error;
   }
 }
+
+/**
+ * Rerun document processing for a completed task from its (reviewed)
+ * `result.json`, replacing `result-processed.json` and the task counts.
+ *
+ * Runs as a queued `reprocess` job once review decisions are applied. The
+ * page range map of the previous result is reused, so only TOC extraction,
+ * caption parsing and chapter conversion are repeated. Logs, progress and
+ * failures are reported like a regular run.
+ */
+export async function reprocessReviewedTask(
+  task: QueuedTask,
+  emitter: EventEmitter,
+  abortSignal?: AbortSignal,
+): Promise<void> {
+  const { taskId, options } = task;
+
+  const emitProgress = (step: string, percent: number) => {
+    updateTaskProgress(taskId, step, percent);
+    const event: SSEEvent = {
+      type: 'progress',
+      data: { step, percent },
+    };
+    emitter.emit(`task:${taskId}`, event);
+  };
+
+  const { logger } = createTaskLogger(taskId, emitter, emitProgress);
+
+  try {
+    const record = getTaskById(taskId);
+    if (!record?.artifactDir || !record.processedResultPath) {
+      throw new Error(`Task ${taskId} has no processed result to reprocess`);
+    }
+
+    logger.info('Reprocessing reviewed Docling document...');
+
+    const previous = JSON.parse(
+      readFileSync(record.processedResultPath, 'utf8'),
+    ) as ProcessedDocument;
+    const doclingDocument = JSON.parse(
+      readFileSync(`${record.artifactDir}/result.json`, 'utf8'),
+    ) as DoclingDocument;
+
+    const processor = new DocumentProcessor(
+      createProcessorOptions(options, logger, abortSignal),
+    );
+    const sourceArtifactContext = createSourceArtifactContext(
+      taskId,
+      record.artifactDir,
+    );
+    const result = await processor.process(
+      doclingDocument,
+      taskId,
+      record.artifactDir,
+      {
+        source: sourceArtifactContext.source,
+        validateSourceRefs: true,
+        pageRangeMap: previous.pageRangeMap,
+      },
+    );
+
+    writeFileSync(
+      sourceArtifactContext.processedResultPath,
+      JSON.stringify(result.document, null, 2),
+    );
+    writeSourceHandoffManifest(sourceArtifactContext);
+
+    updateTaskReprocessedResult(taskId, {
+      totalPages: Object.keys(result.document.pageRangeMap).length,
+      chaptersCount: result.document.chapters.length,
+      imagesCount: result.document.images.length,
+      tablesCount: result.document.tables.length,
+      tokenUsage: combineTokenReports(
+        record.tokenUsage as TokenUsageReport | null,
+        result.usage,
+      ),
+    });
+
+    logger.info('Reprocessing completed', {
+      chapters: result.document.chapters.length,
+      images: result.document.images.length,
+      tables: result.document.tables.length,
+    });
+
+    const completeEvent: SSEEvent = {
+      type: 'complete',
+      data: { resultUrl: `/api/tasks/${taskId}/result` },
+    };
+    emitter.emit(`task:${taskId}`, completeEvent);
+  } catch (error) {
+    if (abortSignal?.aborted) {
+      logger.info('Reprocessing was cancelled');
+      throw error;
+    }
+
+    // result.json already holds the applied decisions, so the processed
+    // result is stale until a rerun succeeds
+    const errorMessage =
+      error instanceof Error ? error.message : 'Unknown error';
+    logger.error('Reprocessing failed:', errorMessage);
+
+    updateTaskStatus(taskId, 'failed', {
+      errorCode: 'REPROCESSING_ERROR',
+      errorMessage,
+      completedAt: new Date().toISOString(),
+    });
+
+    const errorEvent: SSEEvent = {
+      type: 'error',
+      data: { code: 'REPROCESSING_ERROR', message: errorMessage },
+    };
+    emitter.emit(`task:${taskId}`, errorEvent);
+
+    throw error;
+  }
+}
@@ -181,3 +181,22 @@ export const pageRouteParamsSchema = z.object({
 });
 
 export type PageRouteParams = z.infer<typeof pageRouteParamsSchema>;
+
+/**
+ * POST /api/tasks/[taskId]/review request body schema.
+ */
+export const reviewDecisionsSchema = z
+  .object({
+    reviewer: z.string().trim().min(1).max(100),
+    note: z.string().trim().max(1000).optional(),
+    acceptedDecisionIds: z.array(z.string().min(1)).default([]),
+    rejectedDecisionIds: z.array(z.string().min(1)).default([]),
+    edits: z.record(z.string(), z.string()).default({}),
+  })
+  .refine(
+    (value) =>
+      value.acceptedDecisionIds.length + value.rejectedDecisionIds.length > 0,
+    { message: 'At least one decision is required' },
+  );
+
+export type ReviewDecisionsInput = z.infer<typeof reviewDecisionsSchema>;
@@ -0,0 +1,26 @@
+import { describe, expect, test } from 'vitest';
+
+import { CliError } from './cli-error';
+import { EXIT_CODES } from './exit-codes';
+
+describe('CliError', () => {
+  test('creates usage error by default', () => {
+    const error = new CliError('test message');
+
+    expect(error).toBeInstanceOf(Error);
+    expect(error).toBeInstanceOf(CliError);
+    expect(error.message).toBe('test message');
+    expect(error.name).toBe('CliError');
+    expect(error.exitCode).toBe(EXIT_CODES.USAGE);
+  });
+
+  test('creates error with exit code and cause option', () => {
+    const cause = new Error('original error');
+    const error = new CliError('wrapped message', EXIT_CODES.CONFIG, {
+      cause,
+    });
+
+    expect(error.exitCode).toBe(EXIT_CODES.CONFIG);
+    expect(error.cause).toBe(cause);
+  });
+});
@@ -0,0 +1,18 @@
+import { EXIT_CODES } from './exit-codes';
+
+/**
+ * CliError
+ *
+ * Error thrown for problems the user can fix (arguments, config, input
+ * files). Carries the exit code the process should end with.
+ */
+export class CliError extends Error {
+  constructor(
+    message: string,
+    public readonly exitCode: number = EXIT_CODES.USAGE,
+    options?: ErrorOptions,
+  ) {
+    super(message, options);
+    this.name = 'CliError';
+  }
+}
@@ -0,0 +1,131 @@
+import type { Mock } from 'vitest';
+
+import type { CliIo } from './types';
+
+import { UnknownModelProviderError } from '@heripo/shared';
+import { afterEach, beforeEach, describe, expect, test, vi } from 'vitest';
+
+import { HERIPO_USAGE, runCli } from './cli';
+import { CliError } from './cli-error';
+import { runExportCommand } from './commands/export-command';
+import { runParseCommand } from './commands/parse-command';
+import { runProcessCommand } from './commands/process-command';
+import { runReviewCommand } from './commands/review-command';
+import { EXIT_CODES } from './exit-codes';
+
+vi.mock('./commands/parse-command', () => ({ runParseCommand: vi.fn() }));
+vi.mock('./commands/process-command', () => ({ runProcessCommand: vi.fn() }));
+vi.mock('./commands/review-command', () => ({ runReviewCommand: vi.fn() }));
+vi.mock('./commands/export-command', () => ({ runExportCommand: vi.fn() }));
+
+describe('runCli', () => {
+  let io: {
+    stdout: Mock<CliIo['stdout']>;
+    stderr: Mock<CliIo['stderr']>;
+    interactive: boolean;
+  };
+
+  beforeEach(() => {
+    io = { stdout: vi.fn(), stderr: vi.fn(), interactive: false };
+  });
+
+  afterEach(() => {
+    vi.clearAllMocks();
+    vi.restoreAllMocks();
+  });
+
+  test('prints usage without a command or with --help', async () => {
+    await expect(runCli([], io)).resolves.toBe(EXIT_CODES.USAGE);
+    await expect(runCli(['--help'], io)).resolves.toBe(EXIT_CODES.SUCCESS);
+    await expect(runCli(['-h'], io)).resolves.toBe(EXIT_CODES.SUCCESS);
+    expect(io.stdout).toHaveBeenCalledTimes(3);
+    expect(io.stdout).toHaveBeenCalledWith(HERIPO_USAGE);
+  });
+
+  test('rejects unknown commands', async () => {
+    await expect(runCli(['convert'], io)).resolves.toBe(EXIT_CODES.USAGE);
+    expect(io.stderr).toHaveBeenCalledWith(
+      `heripo: unknown command "convert"\n\n${HERIPO_USAGE}`,
+    );
+  });
+
+  test('dispatches subcommands with their arguments', async () => {
+    vi.mocked(runParseCommand).mockResolvedValue(EXIT_CODES.SUCCESS);
+    vi.mocked(runProcessCommand).mockResolvedValue(EXIT_CODES.SUCCESS);
+    vi.mocked(runReviewCommand).mockResolvedValue(EXIT_CODES.REVIEW_PENDING);
+    vi.mocked(runExportCommand).mockResolvedValue(EXIT_CODES.SUCCESS);
+
+    await expect(runCli(['parse', 'a.pdf'], io)).resolves.toBe(0);
+    await expect(runCli(['process', 'result.json'], io)).resolves.toBe(0);
+    await expect(runCli(['review', 'output'], io)).resolves.toBe(4);
+    await expect(runCli(['export', 'doc.json'], io)).resolves.toBe(0);
+
+    expect(runParseCommand).toHaveBeenCalledWith(['a.pdf'], {
+      io,
+      abortSignal: expect.any(AbortSignal),
+    });
+    expect(runExportCommand).toHaveBeenCalledWith(
+      ['doc.json'],
+      expect.anything(),
+    );
+  });
+
+  test('maps errors to exit codes', async () => {
+    vi.mocked(runParseCommand).mockRejectedValueOnce(
+      new CliError('Invalid config', EXIT_CODES.CONFIG),
+    );
+    vi.mocked(runParseCommand).mockRejectedValueOnce(
+      new UnknownModelProviderError('mistral', 'mistral/large'),
+    );
+    vi.mocked(runParseCommand).mockRejectedValueOnce(
+      new Error('Docling failed'),
+    );
+    vi.mocked(runParseCommand).mockRejectedValueOnce('boom');
+
+    await expect(runCli(['parse'], io)).resolves.toBe(EXIT_CODES.CONFIG);
+    await expect(runCli(['parse'], io)).resolves.toBe(EXIT_CODES.CONFIG);
+    await expect(runCli(['parse'], io)).resolves.toBe(EXIT_CODES.FAILURE);
+    await expect(runCli(['parse'], io)).resolves.toBe(EXIT_CODES.FAILURE);
+    expect(io.stderr.mock.calls).toEqual([
+      ['heripo parse: Invalid config\n'],
+      ['heripo parse: Unknown model provider "mistral" in "mistral/large"\n'],
+      ['heripo parse: Docling failed\n'],
+      ['heripo parse: boom\n'],
+    ]);
+  });
+
+  test('aborts the running command on SIGINT', async () => {
+    vi.mocked(runProcessCommand).mockImplementationOnce(
+      async (_args, { abortSignal }) => {
+        process.emit('SIGINT');
+        expect(abortSignal.aborted).toBe(true);
+        throw new Error('Processing aborted');
+      },
+    );
+    const listeners = process.listenerCount('SIGINT');
+
+    await expect(runCli(['process'], io)).resolves.toBe(EXIT_CODES.ABORTED);
+    expect(io.stderr.mock.calls).toEqual([
+      ['\nAborting...\n'],
+      ['heripo process: aborted\n'],
+    ]);
+    expect(process.listenerCount('SIGINT')).toBe(listeners);
+  });
+
+  test('writes to the process streams by default', async () => {
+    const stdout = vi
+      .spyOn(process.stdout, 'write')
+      .mockImplementation(() => true);
+    const stderr = vi
+      .spyOn(process.stderr, 'write')
+      .mockImplementation(() => true);
+
+    await runCli(['--help']);
+    await runCli(['convert']);
+
+    expect(stdout).toHaveBeenCalledWith(HERIPO_USAGE);
+    expect(stderr).toHaveBeenCalledWith(
+      expect.stringContaining('unknown command'),
+    );
+  });
+});
@@ -0,0 +1,101 @@
+import type { CliIo, CommandRunner } from './types';
+
+import { UnknownModelProviderError } from '@heripo/shared';
+
+import { CliError } from './cli-error';
+import { runExportCommand } from './commands/export-command';
+import { runParseCommand } from './commands/parse-command';
+import { runProcessCommand } from './commands/process-command';
+import { runReviewCommand } from './commands/review-command';
+import { EXIT_CODES } from './exit-codes';
+
+export const HERIPO_USAGE = `Usage: heripo <command> [options]
+
+Commands:
+  parse <file.pdf>            Convert a PDF into result.json (PDFParser)
+  process <result.json>       Build a ProcessedDocument (DocumentProcessor)
+  review <output-dir>         Show the review assistance report
+  export <processed.json>     Render Markdown, HTML or JSONL
+
+Run "heripo <command> --help" for command options.
+
+Exit codes:
+  ${EXIT_CODES.SUCCESS}    success
+  ${EXIT_CODES.FAILURE}    parsing, processing or export failed
+  ${EXIT_CODES.USAGE}    invalid arguments or input files
+  ${EXIT_CODES.CONFIG}    missing or invalid config file
+  ${EXIT_CODES.REVIEW_PENDING}    review proposals are pending
+  ${EXIT_CODES.ABORTED}  interrupted
+`;
+
+const COMMANDS: Record<string, CommandRunner> = {
+  parse: runParseCommand,
+  process: runProcessCommand,
+  review: runReviewCommand,
+  export: runExportCommand,
+};
+
+const nodeIo: CliIo = {
+  stdout: (text) => process.stdout.write(text),
+  stderr: (text) => process.stderr.write(text),
+  interactive: Boolean(process.stderr.isTTY),
+};
+
+/**
+ * Run the `heripo` command
+ *
+ * Ctrl+C aborts the running command; library errors end with FAILURE and
+ * CliError with its own exit code.
+ *
+ * @param args - Command line arguments without the node and script paths
+ * @returns Process exit code
+ */
+export async function runCli(
+  args: string[],
+  io: CliIo = nodeIo,
+): Promise<number> {
+  const [command, ...commandArgs] = args;
+  if (command === undefined || command === '-h' || command === '--help') {
+    io.stdout(HERIPO_USAGE);
+    return command === undefined ? EXIT_CODES.USAGE : EXIT_CODES.SUCCESS;
+  }
+
+  const runCommand = COMMANDS[command];
+  if (!runCommand) {
+    io.stderr(`heripo: unknown command "${command}"\n\n${HERIPO_USAGE}`);
+    return EXIT_CODES.USAGE;
+  }
+
+  const abortController = new AbortController();
+  const onSigint = () => {
+    io.stderr('\nAborting...\n');
+    abortController.abort();
+  };
+  process.once('SIGINT', onSigint);
+
+  try {
+    return await runCommand(commandArgs, {
+      io,
+      abortSignal: abortController.signal,
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    if (abortController.signal.aborted) {
+      io.stderr(`heripo ${command}: aborted\n`);
+      return EXIT_CODES.ABORTED;
+    }
+    if (error instanceof CliError) {
+      io.stderr(`heripo ${command}: ${message}\n`);
+      return error.exitCode;
+    }
+    if (error instanceof UnknownModelProviderError) {
+      // Model IDs come from the config file
+      io.stderr(`heripo ${command}: ${message}\n`);
+      return EXIT_CODES.CONFIG;
+    }
+    io.stderr(`heripo ${command}: ${message}\n`);
+    return EXIT_CODES.FAILURE;
+  } finally {
+    process.removeListener('SIGINT', onSigint);
+  }
+}
@@ -0,0 +1,45 @@
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { describe, expect, test } from 'vitest';
+
+import { CliError } from '../cli-error';
+import { EXIT_CODES } from '../exit-codes';
+import { parseCommandArgs, readJsonFile } from './command-args';
+
+describe('parseCommandArgs', () => {
+  test('parses options and positionals', () => {
+    const { values, positionals } = parseCommandArgs(
+      ['input.pdf', '--output', 'out'],
+      { output: { type: 'string' } },
+    );
+
+    expect(values.output).toBe('out');
+    expect(positionals).toEqual(['input.pdf']);
+  });
+
+  test('throws usage errors for unknown options', () => {
+    expect(() => parseCommandArgs(['--unknown'], {})).toThrow(CliError);
+    expect(() => parseCommandArgs(['--unknown'], {})).toThrow(
+      expect.objectContaining({ exitCode: EXIT_CODES.USAGE }),
+    );
+  });
+});
+
+describe('readJsonFile', () => {
+  test('reads JSON files and reports unreadable ones', () => {
+    const dir = mkdtempSync(join(tmpdir(), 'heripo-cli-'));
+    try {
+      writeFileSync(join(dir, 'valid.json'), '{"ok":true}');
+      writeFileSync(join(dir, 'invalid.json'), '{');
+
+      expect(readJsonFile(join(dir, 'valid.json'))).toEqual({ ok: true });
+      expect(() => readJsonFile(join(dir, 'invalid.json'))).toThrow(
+        `Cannot read ${join(dir, 'invalid.json')}`,
+      );
+      expect(() => readJsonFile(join(dir, 'missing.json'))).toThrow(CliError);
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
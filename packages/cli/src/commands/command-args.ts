@@ -0,0 +1,35 @@
+import type { ParseArgsConfig } from 'node:util';
+
+import { readFileSync } from 'node:fs';
+import { parseArgs } from 'node:util';
+
+import { CliError } from '../cli-error';
+
+/**
+ * Parse subcommand arguments, turning parser errors into usage errors
+ */
+export function parseCommandArgs<TOptions extends ParseArgsConfig['options']>(
+  args: string[],
+  options: TOptions,
+) {
+  try {
+    return parseArgs({ args, options, allowPositionals: true, strict: true });
+  } catch (error) {
+    throw new CliError((error as Error).message, undefined, { cause: error });
+  }
+}
+
+/**
+ * Read a JSON input file, failing with a usage error when it is unreadable
+ */
+export function readJsonFile<T>(filePath: string): T {
+  try {
+    return JSON.parse(readFileSync(filePath, 'utf-8')) as T;
+  } catch (error) {
+    throw new CliError(
+      `Cannot read ${filePath}: ${(error as Error).message}`,
+      undefined,
+      { cause: error },
+    );
+  }
+}
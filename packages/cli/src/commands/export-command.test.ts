@@ -0,0 +1,96 @@
+import type { Mock } from 'vitest';
+
+import type { CliIo } from '../types';
+
+import { DocumentExporter } from '@heripo/document-processor';
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, test, vi } from 'vitest';
+
+import { EXIT_CODES } from '../exit-codes';
+import { EXPORT_USAGE, runExportCommand } from './export-command';
+
+vi.mock('@heripo/document-processor', () => ({ DocumentExporter: vi.fn() }));
+
+describe('runExportCommand', () => {
+  let dir: string;
+  let documentPath: string;
+  let io: {
+    stdout: Mock<CliIo['stdout']>;
+    stderr: Mock<CliIo['stderr']>;
+    interactive: boolean;
+  };
+  let exportDocument: ReturnType<typeof vi.fn>;
+
+  const run = (args: string[]) =>
+    runExportCommand(args, { io, abortSignal: new AbortController().signal });
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'heripo-cli-export-'));
+    documentPath = join(dir, 'result-processed.json');
+    writeFileSync(documentPath, JSON.stringify({ reportId: 'report-a' }));
+    io = { stdout: vi.fn(), stderr: vi.fn(), interactive: false };
+    exportDocument = vi.fn((_document, format: string) => `${format} output`);
+    vi.mocked(DocumentExporter).mockImplementation(function () {
+      return { export: exportDocument };
+    } as unknown as typeof DocumentExporter);
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+    vi.clearAllMocks();
+  });
+
+  test('prints usage with --help', async () => {
+    await expect(run(['--help'])).resolves.toBe(EXIT_CODES.SUCCESS);
+    expect(io.stdout).toHaveBeenCalledWith(EXPORT_USAGE);
+  });
+
+  test('rejects missing files and unknown formats', async () => {
+    await expect(run([])).rejects.toThrow(
+      'Expected exactly one processed document file',
+    );
+    await expect(run([documentPath, '--format', 'pdf'])).rejects.toThrow(
+      'Unknown format "pdf"; expected markdown, html, jsonl',
+    );
+    await expect(run([documentPath, '--exclude', 'logos'])).rejects.toThrow(
+      'Unknown exclusion "logos"; expected duplicates, decorative',
+    );
+  });
+
+  test('writes Markdown to stdout by default', async () => {
+    await expect(run([documentPath])).resolves.toBe(EXIT_CODES.SUCCESS);
+
+    expect(DocumentExporter).toHaveBeenCalledWith({ excludeImages: [] });
+    expect(exportDocument).toHaveBeenCalledWith(
+      { reportId: 'report-a' },
+      'markdown',
+    );
+    expect(io.stdout).toHaveBeenCalledWith('markdown output');
+  });
+
+  test('writes the chosen format to --output', async () => {
+    const outputPath = join(dir, 'report.html');
+
+    await run([documentPath, '--format', 'html', '--output', outputPath]);
+
+    expect(readFileSync(outputPath, 'utf-8')).toBe('html output');
+    expect(io.stdout).not.toHaveBeenCalled();
+    expect(io.stderr).toHaveBeenCalledWith(`Wrote ${outputPath}\n`);
+  });
+
+  test('passes --exclude kinds to the exporter', async () => {
+    await run([
+      documentPath,
+      '--exclude',
+      'duplicates',
+      '--exclude',
+      'decorative',
+    ]);
+
+    expect(DocumentExporter).toHaveBeenCalledWith({
+      excludeImages: ['duplicates', 'decorative'],
+    });
+  });
+});
@@ -0,0 +1,84 @@
+import type { ExportFormat, ImageExclusion } from '@heripo/document-processor';
+import type { ProcessedDocument } from '@heripo/model';
+
+import type { CommandContext } from '../types';
+
+import { DocumentExporter } from '@heripo/document-processor';
+import { writeFileSync } from 'node:fs';
+import { resolve } from 'node:path';
+
+import { CliError } from '../cli-error';
+import { EXIT_CODES } from '../exit-codes';
+import { parseCommandArgs, readJsonFile } from './command-args';
+
+const EXPORT_FORMATS: ExportFormat[] = ['markdown', 'html', 'jsonl'];
+const IMAGE_EXCLUSIONS: ImageExclusion[] = ['duplicates', 'decorative'];
+
+export const EXPORT_USAGE = `Usage: heripo export <result-processed.json> [options]
+
+Render a ProcessedDocument as Markdown, HTML or JSONL chunks.
+
+Options:
+  --format <format>  ${EXPORT_FORMATS.join(' | ')} (default: markdown)
+  --output <file>    Write to a file instead of stdout
+  --exclude <kind>   Leave out ${IMAGE_EXCLUSIONS.join(' | ')} images (repeatable)
+  -h, --help         Show this help
+`;
+
+function isExportFormat(value: string): value is ExportFormat {
+  return (EXPORT_FORMATS as string[]).includes(value);
+}
+
+function isImageExclusion(value: string): value is ImageExclusion {
+  return (IMAGE_EXCLUSIONS as string[]).includes(value);
+}
+
+/**
+ * `heripo export` - Render a ProcessedDocument with DocumentExporter
+ */
+export async function runExportCommand(
+  args: string[],
+  { io }: CommandContext,
+): Promise<number> {
+  const { values, positionals } = parseCommandArgs(args, {
+    format: { type: 'string', default: 'markdown' },
+    output: { type: 'string' },
+    exclude: { type: 'string', multiple: true, default: [] },
+    help: { type: 'boolean', short: 'h' },
+  });
+  if (values.help) {
+    io.stdout(EXPORT_USAGE);
+    return EXIT_CODES.SUCCESS;
+  }
+  if (positionals.length !== 1) {
+    throw new CliError('Expected exactly one processed document file');
+  }
+  if (!isExportFormat(values.format)) {
+    throw new CliError(
+      `Unknown format "${values.format}"; expected ${EXPORT_FORMATS.join(', ')}`,
+    );
+  }
+  const unknownExclusion = values.exclude.find(
+    (value) => !isImageExclusion(value),
+  );
+  if (unknownExclusion !== undefined) {
+    throw new CliError(
+      `Unknown exclusion "${unknownExclusion}"; expected ${IMAGE_EXCLUSIONS.join(', ')}`,
+    );
+  }
+
+  const document = readJsonFile<ProcessedDocument>(resolve(positionals[0]));
+  const exporter = new DocumentExporter({
+    excludeImages: values.exclude.filter(isImageExclusion),
+  });
+  const content = exporter.export(document, values.format);
+
+  if (values.output === undefined) {
+    io.stdout(content);
+  } else {
+    const outputPath = resolve(values.output);
+    writeFileSync(outputPath, content);
+    io.stderr(`Wrote ${outputPath}\n`);
+  }
+  return EXIT_CODES.SUCCESS;
+}
@@ -0,0 +1,292 @@
+import type { ReviewAssistanceProgressEvent } from '@heripo/model';
+import type { PDFConvertOptions } from '@heripo/pdf-parser';
+import type { Mock } from 'vitest';
+
+import type * as CliConfigModule from '../config/cli-config';
+import type { CliIo } from '../types';
+
+import { PDFParser } from '@heripo/pdf-parser';
+import {
+  existsSync,
+  mkdirSync,
+  mkdtempSync,
+  rmSync,
+  writeFileSync,
+} from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, test, vi } from 'vitest';
+
+import { DEFAULT_CONFIG_FILE, loadCliConfig } from '../config/cli-config';
+import { EXIT_CODES } from '../exit-codes';
+import { PARSE_USAGE, runParseCommand } from './parse-command';
+
+vi.mock('@heripo/pdf-parser', () => ({ PDFParser: vi.fn() }));
+vi.mock('../config/cli-config', async (importOriginal) => {
+  const actual = await importOriginal<typeof CliConfigModule>();
+  return { ...actual, loadCliConfig: vi.fn(actual.loadCliConfig) };
+});
+vi.mock('@heripo/shared', () => ({
+  createModel: vi.fn((modelId: string) => ({ modelId })),
+}));
+vi.mock('../config/model-factory', () => ({
+  createOptionalModel: vi.fn((modelId?: string) =>
+    modelId === undefined ? undefined : { modelId },
+  ),
+}));
+
+describe('runParseCommand', () => {
+  let dir: string;
+  let pdfPath: string;
+  let configPath: string;
+  let io: {
+    stdout: Mock<CliIo['stdout']>;
+    stderr: Mock<CliIo['stderr']>;
+    interactive: boolean;
+  };
+  let parser: {
+    init: ReturnType<typeof vi.fn>;
+    parse: ReturnType<typeof vi.fn>;
+    dispose: ReturnType<typeof vi.fn>;
+  };
+  const abortSignal = new AbortController().signal;
+
+  const writeConfig = (config: unknown) =>
+    writeFileSync(configPath, JSON.stringify(config));
+
+  const run = (args: string[]) => runParseCommand(args, { io, abortSignal });
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'heripo-cli-parse-'));
+    pdfPath = join(dir, 'report-a.pdf');
+    configPath = join(dir, 'heripo.config.json');
+    writeFileSync(pdfPath, '%PDF-1.7');
+    writeConfig({
+      parse: {
+        models: {
+          textCorrection: 'openai/gpt-5-mini',
+          pageGate: 'openai/gpt-5-mini',
+          reviewAssistance: 'anthropic/claude-opus-4.6',
+        },
+      },
+    });
+
+    io = { stdout: vi.fn(), stderr: vi.fn(), interactive: false };
+    parser = {
+      init: vi.fn().mockResolvedValue(undefined),
+      parse: vi.fn(async (_url, reportId: string, onComplete) => {
+        const outputDir = join(dir, 'output', reportId);
+        mkdirSync(outputDir, { recursive: true });
+        writeFileSync(join(outputDir, 'result.json'), '{}');
+        await onComplete(outputDir);
+        return { total: { totalTokens: 1234 } };
+      }),
+      dispose: vi.fn().mockResolvedValue(undefined),
+    };
+    vi.mocked(PDFParser).mockImplementation(function () {
+      return parser;
+    } as unknown as typeof PDFParser);
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+    vi.clearAllMocks();
+  });
+
+  test('prints usage with --help', async () => {
+    await expect(run(['--help'])).resolves.toBe(EXIT_CODES.SUCCESS);
+    expect(io.stdout).toHaveBeenCalledWith(PARSE_USAGE);
+  });
+
+  test('rejects missing or extra PDF arguments', async () => {
+    await expect(run([])).rejects.toThrow('Expected exactly one PDF file');
+    await expect(run(['a.pdf', 'b.pdf'])).rejects.toThrow(
+      'Expected exactly one PDF file',
+    );
+    await expect(run([join(dir, 'missing.pdf')])).rejects.toThrow(
+      'PDF file not found',
+    );
+  });
+
+  test('requires a parse section in the config file', async () => {
+    writeConfig({});
+
+    await expect(run([pdfPath, '--config', configPath])).rejects.toThrow(
+      expect.objectContaining({ exitCode: EXIT_CODES.CONFIG }),
+    );
+  });
+
+  test('parses the PDF with models and options from the config file', async () => {
+    writeConfig({
+      parser: { port: 5002, timeout: 60000 },
+      parse: {
+        models: {
+          textCorrection: 'openai/gpt-5-mini',
+          pageGate: 'openai/gpt-5-mini',
+          pageGateFallback: 'openai/gpt-5.2',
+          reviewAssistance: 'anthropic/claude-opus-4.6',
+          reviewAssistanceTasks: { tables: 'google/gemini-3-flash-preview' },
+          documentValidation: 'openai/gpt-5.2',
+        },
+        ocrEngine: 'tesseract',
+        numThreads: 4,
+        chunkedConversion: true,
+        chunkServers: [5003, 'http://127.0.0.1:5004'],
+        correction: { autoApplyThreshold: 0.9, modelConcurrency: 2 },
+      },
+    });
+
+    const exitCode = await run([pdfPath, '--config', configPath]);
+
+    expect(exitCode).toBe(EXIT_CODES.SUCCESS);
+    expect(PDFParser).toHaveBeenCalledWith({
+      logger: expect.any(Object),
+      timeout: 60000,
+      port: 5002,
+    });
+    const [url, reportId, , cleanup, options, signal] =
+      parser.parse.mock.calls[0];
+    expect(url).toBe(`file://${pdfPath}`);
+    expect(reportId).toBe('report-a');
+    expect(cleanup).toBe(false);
+    expect(signal).toBe(abortSignal);
+    expect(options).toMatchObject({
+      ocrEngine: 'tesseract',
+      num_threads: 4,
+      chunkedConversion: true,
+      chunkServers: [5003, 'http://127.0.0.1:5004'],
+      documentValidationModel: { modelId: 'openai/gpt-5.2' },
+      correction: {
+        autoApplyThreshold: 0.9,
+        modelConcurrency: 2,
+        models: {
+          textCorrection: { modelId: 'openai/gpt-5-mini' },
+          pageGateFallback: { modelId: 'openai/gpt-5.2' },
+          reviewAssistance: { modelId: 'anthropic/claude-opus-4.6' },
+          reviewAssistanceTasks: {
+            tables: { modelId: 'google/gemini-3-flash-preview' },
+          },
+          reviewAssistanceTasksFallback: undefined,
+        },
+      },
+    });
+    expect(parser.dispose).toHaveBeenCalledTimes(1);
+    expect(io.stderr).toHaveBeenCalledWith('LLM tokens: 1234\n');
+    expect(io.stdout).toHaveBeenCalledWith(
+      `${join(dir, 'output', 'report-a')}\n`,
+    );
+  });
+
+  test('copies the output to --output and uses a remote server', async () => {
+    writeConfig({
+      parser: { baseUrl: 'http://docling:5001' },
+      parse: {
+        models: {
+          textCorrection: 'openai/gpt-5-mini',
+          pageGate: 'openai/gpt-5-mini',
+          reviewAssistance: 'anthropic/claude-opus-4.6',
+        },
+      },
+    });
+    parser.parse.mockImplementationOnce(async (_url, reportId, onComplete) => {
+      const outputDir = join(dir, 'output', reportId);
+      mkdirSync(outputDir, { recursive: true });
+      writeFileSync(join(outputDir, 'result.json'), '{}');
+      await onComplete(outputDir);
+      return null;
+    });
+    const targetDir = join(dir, 'copied');
+
+    await run([
+      pdfPath,
+      '--config',
+      configPath,
+      '--report-id',
+      'custom-id',
+      '--output',
+      targetDir,
+    ]);
+
+    expect(PDFParser).toHaveBeenCalledWith({
+      logger: expect.any(Object),
+      baseUrl: 'http://docling:5001',
+    });
+    expect(parser.parse.mock.calls[0][1]).toBe('custom-id');
+    expect(parser.parse.mock.calls[0][3]).toBe(true);
+    expect(existsSync(join(targetDir, 'result.json'))).toBe(true);
+    expect(io.stdout).toHaveBeenCalledWith(`${targetDir}\n`);
+    expect(io.stderr).not.toHaveBeenCalledWith(
+      expect.stringContaining('LLM tokens'),
+    );
+  });
+
+  test('drives the progress bar from review assistance events', async () => {
+    parser.parse.mockImplementationOnce(
+      async (
+        _url,
+        _reportId,
+        onComplete,
+        _cleanup,
+        options: PDFConvertOptions,
+      ) => {
+        const emit = (event: Partial<ReviewAssistanceProgressEvent>) =>
+          options.onReviewAssistanceProgress?.({
+            reportId: 'report-a',
+            ...event,
+          } as ReviewAssistanceProgressEvent);
+        emit({ substage: 'review-assistance:prepare', status: 'started' });
+        emit({ substage: 'review-assistance:prepare', status: 'completed' });
+        emit({
+          substage: 'review-assistance:page',
+          status: 'progress',
+          pageCount: 2,
+          completedPages: 1,
+        });
+        emit({
+          substage: 'review-assistance:page',
+          status: 'completed',
+          pageCount: 2,
+          completedPages: 2,
+        });
+        await onComplete(dir);
+        return null;
+      },
+    );
+
+    await run([pdfPath, '--config', configPath]);
+
+    expect(io.stderr.mock.calls.map(([text]) => text)).toEqual(
+      expect.arrayContaining([
+        expect.stringMatching(/0\/1 Preparing review assistance\n$/),
+        expect.stringMatching(/1\/1 Preparing review assistance\n$/),
+        expect.stringMatching(/1\/2 Reviewing pages\n$/),
+        expect.stringMatching(/2\/2 Reviewing pages\n$/),
+      ]),
+    );
+  });
+
+  test('reads heripo.config.json from the working directory', async () => {
+    vi.mocked(loadCliConfig).mockReturnValueOnce({
+      parser: {},
+      parse: {
+        models: {
+          textCorrection: 'openai/gpt-5-mini',
+          pageGate: 'openai/gpt-5-mini',
+          reviewAssistance: 'anthropic/claude-opus-4.6',
+        },
+      },
+    });
+
+    await expect(run([pdfPath])).resolves.toBe(EXIT_CODES.SUCCESS);
+    expect(loadCliConfig).toHaveBeenCalledWith(DEFAULT_CONFIG_FILE);
+  });
+
+  test('disposes the parser when parsing fails', async () => {
+    parser.parse.mockRejectedValueOnce(new Error('Docling failed'));
+
+    await expect(run([pdfPath, '--config', configPath])).rejects.toThrow(
+      'Docling failed',
+    );
+    expect(parser.dispose).toHaveBeenCalledTimes(1);
+  });
+});
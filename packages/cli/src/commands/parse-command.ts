@@ -0,0 +1,196 @@
+import type { LoggerMethods } from '@heripo/logger';
+import type {
+  ReviewAssistanceProgressEvent,
+  ReviewAssistanceProgressSubstage,
+  TokenUsageReport,
+} from '@heripo/model';
+import type { PDFConvertOptions } from '@heripo/pdf-parser';
+
+import type { CliConfig, ParseConfig } from '../config/cli-config';
+import type { CommandContext } from '../types';
+
+import { PDFParser } from '@heripo/pdf-parser';
+import { createModel } from '@heripo/shared';
+import { cpSync, existsSync } from 'node:fs';
+import { basename, extname, resolve } from 'node:path';
+
+import { CliError } from '../cli-error';
+import {
+  DEFAULT_CONFIG_FILE,
+  loadCliConfig,
+  requireConfigSection,
+} from '../config/cli-config';
+import { createOptionalModel } from '../config/model-factory';
+import { EXIT_CODES } from '../exit-codes';
+import { createCliLogger } from '../progress/cli-logger';
+import { ProgressBar } from '../progress/progress-bar';
+import { parseCommandArgs } from './command-args';
+
+export const PARSE_USAGE = `Usage: heripo parse <file.pdf> [options]
+
+Convert a PDF into a corrected DoclingDocument (result.json) with PDFParser.
+Prints the output directory on stdout.
+
+Options:
+  --report-id <id>  Report ID (default: PDF file name without extension)
+  --output <dir>    Copy the parser output to this directory
+                    (default: keep it in ./output/<report-id>)
+  --config <path>   Config file (default: ${DEFAULT_CONFIG_FILE})
+  --verbose         Print library logs
+  -h, --help        Show this help
+`;
+
+const REVIEW_SUBSTAGE_LABELS: Record<ReviewAssistanceProgressSubstage, string> =
+  {
+    'review-assistance:prepare': 'Preparing review assistance',
+    'review-assistance:page': 'Reviewing pages',
+    'review-assistance:patch': 'Applying review fixes',
+    'review-assistance:write-report': 'Writing review report',
+  };
+
+function buildTaskModels(
+  taskModelIds: Partial<Record<string, string>> | undefined,
+) {
+  if (!taskModelIds) return undefined;
+  return Object.fromEntries(
+    Object.entries(taskModelIds).map(([taskId, modelId]) => [
+      taskId,
+      createModel(modelId!),
+    ]),
+  );
+}
+
+function buildPDFConvertOptions(
+  config: ParseConfig,
+  onReviewAssistanceProgress: (event: ReviewAssistanceProgressEvent) => void,
+): PDFConvertOptions {
+  const { models } = config;
+
+  return {
+    correction: {
+      ...config.correction,
+      models: {
+        textCorrection: createModel(models.textCorrection),
+        textCorrectionFallback: createOptionalModel(
+          models.textCorrectionFallback,
+        ),
+        pageGate: createModel(models.pageGate),
+        pageGateFallback: createOptionalModel(models.pageGateFallback),
+        reviewAssistance: createModel(models.reviewAssistance),
+        reviewAssistanceFallback: createOptionalModel(
+          models.reviewAssistanceFallback,
+        ),
+        reviewAssistanceTasks: buildTaskModels(models.reviewAssistanceTasks),
+        reviewAssistanceTasksFallback: buildTaskModels(
+          models.reviewAssistanceTasksFallback,
+        ),
+        tableCorrection: createOptionalModel(models.tableCorrection),
+        tableCorrectionFallback: createOptionalModel(
+          models.tableCorrectionFallback,
+        ),
+      },
+    },
+    ocrEngine: config.ocrEngine,
+    num_threads: config.numThreads,
+    chunkedConversion: config.chunkedConversion,
+    chunkServers: config.chunkServers,
+    forceImagePdf: config.forceImagePdf,
+    languageDetectionModel: createOptionalModel(models.languageDetection),
+    languageDetectionFallbackModel: createOptionalModel(
+      models.languageDetectionFallback,
+    ),
+    documentValidationModel: createOptionalModel(models.documentValidation),
+    onReviewAssistanceProgress,
+  };
+}
+
+function createParser(
+  config: CliConfig['parser'],
+  logger: LoggerMethods,
+): PDFParser {
+  const { baseUrl, port, ...rest } = config;
+  return baseUrl !== undefined
+    ? new PDFParser({ logger, ...rest, baseUrl })
+    : new PDFParser({ logger, ...rest, port });
+}
+
+/**
+ * `heripo parse` - Run PDFParser.parse with the correction options of the config file
+ */
+export async function runParseCommand(
+  args: string[],
+  { io, abortSignal }: CommandContext,
+): Promise<number> {
+  const { values, positionals } = parseCommandArgs(args, {
+    'report-id': { type: 'string' },
+    output: { type: 'string' },
+    config: { type: 'string' },
+    verbose: { type: 'boolean' },
+    help: { type: 'boolean', short: 'h' },
+  });
+  if (values.help) {
+    io.stdout(PARSE_USAGE);
+    return EXIT_CODES.SUCCESS;
+  }
+  if (positionals.length !== 1) {
+    throw new CliError('Expected exactly one PDF file');
+  }
+
+  const pdfPath = resolve(positionals[0]);
+  if (!existsSync(pdfPath)) {
+    throw new CliError(`PDF file not found: ${pdfPath}`);
+  }
+  const configPath = values.config ?? DEFAULT_CONFIG_FILE;
+  const config = loadCliConfig(configPath);
+  const parseConfig = requireConfigSection(config, 'parse', configPath);
+  const reportId = values['report-id'] ?? basename(pdfPath, extname(pdfPath));
+  const targetDir =
+    values.output === undefined ? undefined : resolve(values.output);
+
+  const progressBar = new ProgressBar(io);
+  const logger = createCliLogger(io, {
+    verbose: values.verbose,
+    progressBar,
+  });
+  const convertOptions = buildPDFConvertOptions(parseConfig, (event) => {
+    const total = event.pageCount ?? 1;
+    const completed =
+      event.completedPages ?? (event.status === 'completed' ? total : 0);
+    progressBar.update(
+      REVIEW_SUBSTAGE_LABELS[event.substage],
+      completed,
+      total,
+    );
+  });
+
+  const parser = createParser(config.parser, logger);
+  let outputDir: string | undefined;
+  let usage: TokenUsageReport | null;
+  try {
+    io.stderr('Starting Docling server...\n');
+    await parser.init();
+    io.stderr(`Parsing ${pdfPath}...\n`);
+    usage = await parser.parse(
+      `file://${pdfPath}`,
+      reportId,
+      (parserOutputDir) => {
+        if (targetDir !== undefined) {
+          cpSync(parserOutputDir, targetDir, { recursive: true });
+        }
+        outputDir = targetDir ?? parserOutputDir;
+      },
+      targetDir !== undefined,
+      convertOptions,
+      abortSignal,
+    );
+  } finally {
+    progressBar.done();
+    await parser.dispose();
+  }
+
+  if (usage) {
+    io.stderr(`LLM tokens: ${usage.total.totalTokens}\n`);
+  }
+  io.stdout(`${outputDir}\n`);
+  return EXIT_CODES.SUCCESS;
+}
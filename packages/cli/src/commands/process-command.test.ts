@@ -0,0 +1,272 @@
+import type { DocumentProcessorOptions } from '@heripo/document-processor';
+import type { Mock } from 'vitest';
+
+import type * as CliConfigModule from '../config/cli-config';
+import type { CliIo } from '../types';
+
+import { DocumentProcessor } from '@heripo/document-processor';
+import { PdfOutlineReader } from '@heripo/pdf-parser';
+import {
+  mkdirSync,
+  mkdtempSync,
+  readFileSync,
+  rmSync,
+  writeFileSync,
+} from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, test, vi } from 'vitest';
+
+import { DEFAULT_CONFIG_FILE, loadCliConfig } from '../config/cli-config';
+import { EXIT_CODES } from '../exit-codes';
+import { PROCESS_USAGE, runProcessCommand } from './process-command';
+
+vi.mock('@heripo/document-processor', () => ({
+  DOCUMENT_PROCESSOR_STAGES: [
+    'page-range',
+    'toc',
+    'resources',
+    'chapters',
+    'assembly',
+  ],
+  DocumentProcessor: vi.fn(),
+}));
+vi.mock('@heripo/pdf-parser', () => ({
+  PdfOutlineReader: { tryRead: vi.fn() },
+}));
+vi.mock('../config/cli-config', async (importOriginal) => {
+  const actual = await importOriginal<typeof CliConfigModule>();
+  return { ...actual, loadCliConfig: vi.fn(actual.loadCliConfig) };
+});
+vi.mock('@heripo/shared', () => ({
+  createModel: vi.fn((modelId: string) => ({ modelId })),
+}));
+vi.mock('../config/model-factory', () => ({
+  createOptionalModel: vi.fn((modelId?: string) =>
+    modelId === undefined ? undefined : { modelId },
+  ),
+}));
+
+describe('runProcessCommand', () => {
+  let dir: string;
+  let outputDir: string;
+  let resultPath: string;
+  let configPath: string;
+  let io: {
+    stdout: Mock<CliIo['stdout']>;
+    stderr: Mock<CliIo['stderr']>;
+    interactive: boolean;
+  };
+  let processDocument: ReturnType<typeof vi.fn>;
+  const abortSignal = new AbortController().signal;
+
+  const run = (args: string[]) => runProcessCommand(args, { io, abortSignal });
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'heripo-cli-process-'));
+    outputDir = join(dir, 'report-a');
+    mkdirSync(outputDir);
+    resultPath = join(outputDir, 'result.json');
+    configPath = join(dir, 'heripo.config.json');
+    writeFileSync(resultPath, JSON.stringify({ name: 'report-a' }));
+    writeFileSync(
+      configPath,
+      JSON.stringify({
+        process: {
+          models: {
+            fallback: 'anthropic/claude-opus-4.6',
+            tocExtractor: 'openai/gpt-5-mini',
+          },
+          idStrategy: 'content-hash',
+        },
+      }),
+    );
+
+    io = { stdout: vi.fn(), stderr: vi.fn(), interactive: false };
+    processDocument = vi.fn().mockResolvedValue({
+      document: { reportId: 'report-a' },
+      usage: { total: { totalTokens: 42 } },
+    });
+    vi.mocked(DocumentProcessor).mockImplementation(function () {
+      return { process: processDocument };
+    } as unknown as typeof DocumentProcessor);
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+    vi.clearAllMocks();
+  });
+
+  test('prints usage with --help', async () => {
+    await expect(run(['-h'])).resolves.toBe(EXIT_CODES.SUCCESS);
+    expect(io.stdout).toHaveBeenCalledWith(PROCESS_USAGE);
+  });
+
+  test('rejects missing input files', async () => {
+    await expect(run([])).rejects.toThrow(
+      'Expected exactly one result.json file',
+    );
+    await expect(run([join(dir, 'missing.json')])).rejects.toThrow(
+      'File not found',
+    );
+  });
+
+  test('processes result.json with the configured models', async () => {
+    const exitCode = await run([resultPath, '--config', configPath]);
+
+    expect(exitCode).toBe(EXIT_CODES.SUCCESS);
+    expect(DocumentProcessor).toHaveBeenCalledWith({
+      logger: expect.any(Object),
+      fallbackModel: { modelId: 'anthropic/claude-opus-4.6' },
+      pageRangeParserModel: undefined,
+      tocExtractorModel: { modelId: 'openai/gpt-5-mini' },
+      validatorModel: undefined,
+      visionTocExtractorModel: undefined,
+      captionParserModel: undefined,
+      textCleanerBatchSize: 20,
+      captionParserBatchSize: 10,
+      captionValidatorBatchSize: 10,
+      maxRetries: undefined,
+      enableFallbackRetry: undefined,
+      idStrategy: 'content-hash',
+      abortSignal,
+    });
+    expect(processDocument).toHaveBeenCalledWith(
+      { name: 'report-a' },
+      'report-a',
+      outputDir,
+      { checkpointDir: undefined, pdfOutline: undefined },
+    );
+    expect(PdfOutlineReader.tryRead).toHaveBeenCalledWith(
+      expect.any(Object),
+      undefined,
+    );
+    const outputPath = join(outputDir, 'result-processed.json');
+    expect(JSON.parse(readFileSync(outputPath, 'utf-8'))).toEqual({
+      reportId: 'report-a',
+    });
+    expect(io.stderr).toHaveBeenCalledWith('LLM tokens: 42\n');
+    expect(io.stdout).toHaveBeenCalledWith(`${outputPath}\n`);
+  });
+
+  test('passes report ID, output and checkpoint options', async () => {
+    const outputPath = join(dir, 'processed.json');
+
+    await run([
+      resultPath,
+      '--config',
+      configPath,
+      '--report-id',
+      'custom-id',
+      '--output',
+      outputPath,
+      '--checkpoint-dir',
+      join(dir, 'checkpoints'),
+    ]);
+
+    expect(processDocument).toHaveBeenCalledWith(
+      expect.anything(),
+      'custom-id',
+      outputDir,
+      { checkpointDir: join(dir, 'checkpoints') },
+    );
+    expect(io.stdout).toHaveBeenCalledWith(`${outputPath}\n`);
+  });
+
+  test('reads the PDF outline with --pdf', async () => {
+    const pdfPath = join(dir, 'report.pdf');
+    writeFileSync(pdfPath, '%PDF-1.7');
+    const pdfOutline = [
+      { title: 'Ⅰ. 조사 개요', level: 1, pageNo: 3, children: [] },
+    ];
+    vi.mocked(PdfOutlineReader.tryRead).mockResolvedValueOnce(pdfOutline);
+
+    await run([resultPath, '--config', configPath, '--pdf', pdfPath]);
+
+    expect(PdfOutlineReader.tryRead).toHaveBeenCalledWith(
+      expect.any(Object),
+      pdfPath,
+    );
+    expect(processDocument).toHaveBeenCalledWith(
+      expect.anything(),
+      'report-a',
+      outputDir,
+      { checkpointDir: undefined, pdfOutline },
+    );
+  });
+
+  test('rejects a missing --pdf file', async () => {
+    await expect(
+      run([resultPath, '--config', configPath, '--pdf', join(dir, 'no.pdf')]),
+    ).rejects.toThrow(`File not found: ${join(dir, 'no.pdf')}`);
+    expect(processDocument).not.toHaveBeenCalled();
+  });
+
+  test('advances the progress bar on DocumentProcessor stage events', async () => {
+    vi.mocked(DocumentProcessor).mockImplementation(function (
+      options: DocumentProcessorOptions,
+    ) {
+      return {
+        process: vi.fn(async () => {
+          for (const stage of [
+            'page-range',
+            'toc',
+            'resources',
+            'chapters',
+            'assembly',
+          ] as const) {
+            options.onStageProgress!({ stage, status: 'started' });
+            options.onStageProgress!({
+              stage,
+              status: 'completed',
+              durationMs: 10,
+            });
+          }
+          return {
+            document: { reportId: 'report-a' },
+            usage: { total: { totalTokens: 0 } },
+          };
+        }),
+      };
+    } as unknown as typeof DocumentProcessor);
+
+    await run([resultPath, '--config', configPath]);
+
+    expect(
+      io.stderr.mock.calls
+        .map(([text]) => text)
+        .filter((text) => text.startsWith('[')),
+    ).toEqual([
+      expect.stringMatching(/0\/5 Resolving page ranges\n$/),
+      expect.stringMatching(/1\/5 Extracting TOC\n$/),
+      expect.stringMatching(/2\/5 Converting images and tables\n$/),
+      expect.stringMatching(/3\/5 Converting chapters\n$/),
+      expect.stringMatching(/4\/5 Assembling document\n$/),
+      expect.stringMatching(/5\/5 Assembling document\n$/),
+    ]);
+  });
+
+  test('reads heripo.config.json from the working directory', async () => {
+    vi.mocked(loadCliConfig).mockReturnValueOnce({
+      parser: {},
+      process: {
+        models: { fallback: 'anthropic/claude-opus-4.6' },
+        textCleanerBatchSize: 20,
+        captionParserBatchSize: 10,
+        captionValidatorBatchSize: 10,
+      },
+    });
+
+    await expect(run([resultPath])).resolves.toBe(EXIT_CODES.SUCCESS);
+    expect(loadCliConfig).toHaveBeenCalledWith(DEFAULT_CONFIG_FILE);
+  });
+
+  test('does not write output when processing fails', async () => {
+    processDocument.mockRejectedValueOnce(new Error('TOC not found'));
+
+    await expect(run([resultPath, '--config', configPath])).rejects.toThrow(
+      'TOC not found',
+    );
+    expect(io.stdout).not.toHaveBeenCalled();
+  });
+});
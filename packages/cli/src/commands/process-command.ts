@@ -0,0 +1,169 @@
+import type {
+  DocumentProcessorOptions,
+  DocumentProcessorStage,
+} from '@heripo/document-processor';
+import type { LoggerMethods } from '@heripo/logger';
+import type { DoclingDocument } from '@heripo/model';
+
+import type { ProcessConfig } from '../config/cli-config';
+import type { CommandContext } from '../types';
+
+import {
+  DOCUMENT_PROCESSOR_STAGES,
+  DocumentProcessor,
+} from '@heripo/document-processor';
+import { PdfOutlineReader } from '@heripo/pdf-parser';
+import { createModel } from '@heripo/shared';
+import { existsSync, writeFileSync } from 'node:fs';
+import { basename, dirname, join, resolve } from 'node:path';
+
+import { CliError } from '../cli-error';
+import {
+  DEFAULT_CONFIG_FILE,
+  loadCliConfig,
+  requireConfigSection,
+} from '../config/cli-config';
+import { createOptionalModel } from '../config/model-factory';
+import { EXIT_CODES } from '../exit-codes';
+import { createCliLogger } from '../progress/cli-logger';
+import { ProgressBar } from '../progress/progress-bar';
+import { parseCommandArgs, readJsonFile } from './command-args';
+
+export const PROCESS_USAGE = `Usage: heripo process <result.json> [options]
+
+Convert a DoclingDocument into a ProcessedDocument with DocumentProcessor.
+Images referenced by result.json are resolved from its directory.
+
+Options:
+  --report-id <id>        Report ID (default: name of the result.json directory)
+  --output <file>         Output file (default: result-processed.json next to
+                          the input)
+  --checkpoint-dir <dir>  Save per-stage checkpoints and resume from them
+  --pdf <file>            Source PDF; its outline (bookmarks) is used as a TOC
+                          source before any LLM call
+  --config <path>         Config file (default: ${DEFAULT_CONFIG_FILE})
+  --verbose               Print library logs
+  -h, --help              Show this help
+`;
+
+/**
+ * Progress bar labels of the DocumentProcessor stages
+ */
+const STAGE_LABELS: Record<DocumentProcessorStage, string> = {
+  'page-range': 'Resolving page ranges',
+  toc: 'Extracting TOC',
+  resources: 'Converting images and tables',
+  chapters: 'Converting chapters',
+  assembly: 'Assembling document',
+};
+
+function createProcessor(
+  config: ProcessConfig,
+  logger: LoggerMethods,
+  abortSignal: AbortSignal | undefined,
+  onStageProgress: DocumentProcessorOptions['onStageProgress'],
+): DocumentProcessor {
+  const { models } = config;
+
+  return new DocumentProcessor({
+    logger,
+    fallbackModel: createModel(models.fallback),
+    pageRangeParserModel: createOptionalModel(models.pageRangeParser),
+    tocExtractorModel: createOptionalModel(models.tocExtractor),
+    validatorModel: createOptionalModel(models.validator),
+    visionTocExtractorModel: createOptionalModel(models.visionTocExtractor),
+    captionParserModel: createOptionalModel(models.captionParser),
+    textCleanerBatchSize: config.textCleanerBatchSize,
+    captionParserBatchSize: config.captionParserBatchSize,
+    captionValidatorBatchSize: config.captionValidatorBatchSize,
+    maxRetries: config.maxRetries,
+    enableFallbackRetry: config.enableFallbackRetry,
+    idStrategy: config.idStrategy,
+    abortSignal,
+    onStageProgress,
+  });
+}
+
+/**
+ * `heripo process` - Run DocumentProcessor on a parser result.json
+ */
+export async function runProcessCommand(
+  args: string[],
+  { io, abortSignal }: CommandContext,
+): Promise<number> {
+  const { values, positionals } = parseCommandArgs(args, {
+    'report-id': { type: 'string' },
+    output: { type: 'string' },
+    'checkpoint-dir': { type: 'string' },
+    pdf: { type: 'string' },
+    config: { type: 'string' },
+    verbose: { type: 'boolean' },
+    help: { type: 'boolean', short: 'h' },
+  });
+  if (values.help) {
+    io.stdout(PROCESS_USAGE);
+    return EXIT_CODES.SUCCESS;
+  }
+  if (positionals.length !== 1) {
+    throw new CliError('Expected exactly one result.json file');
+  }
+
+  const resultPath = resolve(positionals[0]);
+  if (!existsSync(resultPath)) {
+    throw new CliError(`File not found: ${resultPath}`);
+  }
+  const pdfPath = values.pdf === undefined ? undefined : resolve(values.pdf);
+  if (pdfPath !== undefined && !existsSync(pdfPath)) {
+    throw new CliError(`File not found: ${pdfPath}`);
+  }
+  const configPath = values.config ?? DEFAULT_CONFIG_FILE;
+  const processConfig = requireConfigSection(
+    loadCliConfig(configPath),
+    'process',
+    configPath,
+  );
+  const artifactDir = dirname(resultPath);
+  const reportId = values['report-id'] ?? basename(artifactDir);
+  const outputPath = resolve(
+    values.output ?? join(artifactDir, 'result-processed.json'),
+  );
+  const doclingDoc = readJsonFile<DoclingDocument>(resultPath);
+
+  const progressBar = new ProgressBar(io);
+  const logger = createCliLogger(io, {
+    verbose: values.verbose,
+    progressBar,
+  });
+  const processor = createProcessor(
+    processConfig,
+    logger,
+    abortSignal,
+    ({ stage, status }) => {
+      const index = DOCUMENT_PROCESSOR_STAGES.indexOf(stage);
+      progressBar.update(
+        STAGE_LABELS[stage],
+        status === 'completed' ? index + 1 : index,
+        DOCUMENT_PROCESSOR_STAGES.length,
+      );
+    },
+  );
+  const pdfOutline = await PdfOutlineReader.tryRead(logger, pdfPath);
+
+  let result: Awaited<ReturnType<DocumentProcessor['process']>>;
+  try {
+    result = await processor.process(doclingDoc, reportId, artifactDir, {
+      checkpointDir:
+        values['checkpoint-dir'] === undefined
+          ? undefined
+          : resolve(values['checkpoint-dir']),
+      pdfOutline,
+    });
+  } finally {
+    progressBar.done();
+  }
+
+  writeFileSync(outputPath, JSON.stringify(result.document, null, 2));
+  io.stderr(`LLM tokens: ${result.usage.total.totalTokens}\n`);
+  io.stdout(`${outputPath}\n`);
+  return EXIT_CODES.SUCCESS;
+}
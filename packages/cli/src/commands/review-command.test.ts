@@ -0,0 +1,216 @@
+import type {
+  ReviewAssistanceDecision,
+  ReviewAssistanceReport,
+} from '@heripo/model';
+import type { Mock } from 'vitest';
+
+import type { CliIo } from '../types';
+
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, test, vi } from 'vitest';
+
+import { EXIT_CODES } from '../exit-codes';
+import { REVIEW_USAGE, runReviewCommand } from './review-command';
+
+describe('runReviewCommand', () => {
+  let dir: string;
+  let io: {
+    stdout: Mock<CliIo['stdout']>;
+    stderr: Mock<CliIo['stderr']>;
+    interactive: boolean;
+  };
+
+  const run = (args: string[]) =>
+    runReviewCommand(args, { io, abortSignal: new AbortController().signal });
+
+  const output = () => io.stdout.mock.calls.map(([text]) => text).join('');
+
+  const createDecision = (
+    id: string,
+    overrides: Partial<ReviewAssistanceDecision> = {},
+  ): ReviewAssistanceDecision => ({
+    id,
+    pageNo: 1,
+    command: { op: 'hidePicture', pictureRef: '#/pictures/0', reason: 'logo' },
+    confidence: 0.7,
+    disposition: 'proposal',
+    reasons: ['Decorative logo'],
+    ...overrides,
+  });
+
+  const createReport = (
+    overrides: Partial<ReviewAssistanceReport> = {},
+  ): ReviewAssistanceReport =>
+    ({
+      reportId: 'report-a',
+      summary: {
+        pageCount: 2,
+        pagesSucceeded: 1,
+        pagesFailed: 1,
+        autoAppliedCount: 1,
+        proposalCount: 3,
+        skippedCount: 0,
+        issueCount: 1,
+      },
+      pages: [
+        {
+          pageNo: 1,
+          status: 'succeeded',
+          decisions: [
+            createDecision('d-auto', { disposition: 'auto_applied' }),
+            createDecision('d-1'),
+            createDecision('d-2', {
+              command: undefined,
+              invalidOp: 'mergeText',
+              reasons: [],
+            }),
+            createDecision('d-3', { command: undefined }),
+          ],
+          issues: [
+            {
+              id: 'i-1',
+              pageNo: 1,
+              category: 'text',
+              type: 'hanja_ocr',
+              severity: 'warning',
+              description: 'Hanja may be misread',
+            },
+          ],
+        },
+        {
+          pageNo: 2,
+          status: 'failed',
+          decisions: [],
+          issues: [],
+          error: { message: 'Model timeout' },
+        },
+        { pageNo: 3, status: 'failed', decisions: [], issues: [] },
+      ],
+      ...overrides,
+    }) as ReviewAssistanceReport;
+
+  const writeReport = (report: ReviewAssistanceReport) =>
+    writeFileSync(join(dir, 'review_assistance.json'), JSON.stringify(report));
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'heripo-cli-review-'));
+    io = { stdout: vi.fn(), stderr: vi.fn(), interactive: false };
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  test('prints usage with --help', async () => {
+    await expect(run(['--help'])).resolves.toBe(EXIT_CODES.SUCCESS);
+    expect(io.stdout).toHaveBeenCalledWith(REVIEW_USAGE);
+  });
+
+  test('rejects missing directories and reports', async () => {
+    await expect(run([])).rejects.toThrow(
+      'Expected an output directory or report file',
+    );
+    await expect(run([join(dir, 'missing')])).rejects.toThrow('File not found');
+    await expect(run([dir])).rejects.toThrow(
+      `No review_assistance.json in ${dir}; was review assistance enabled?`,
+    );
+  });
+
+  test('lists pending proposals, issues and failed pages', async () => {
+    writeReport(createReport());
+
+    await expect(run([dir])).resolves.toBe(EXIT_CODES.REVIEW_PENDING);
+
+    expect(output()).toBe(
+      [
+        'Report report-a',
+        'Pages: 1/2 succeeded, 1 failed',
+        'Decisions: 1 auto-applied, 3 proposals (3 pending), 0 skipped',
+        '',
+        'Pending proposals:',
+        '  p.1 d-1 hidePicture (0.70) - Decorative logo',
+        '  p.1 d-2 mergeText (0.70)',
+        '  p.1 d-3 unknown (0.70) - Decorative logo',
+        '',
+        'Issues:',
+        '  p.1 [warning] hanja_ocr: Hanja may be misread',
+        '',
+        'Failed pages:',
+        '  p.2 Model timeout',
+        '  p.3 ',
+        '',
+      ].join('\n'),
+    );
+  });
+
+  test('skips proposals decided in the audit log', async () => {
+    const reportPath = join(dir, 'review_assistance.json');
+    writeReport(
+      createReport({
+        pages: [
+          {
+            pageNo: 1,
+            status: 'succeeded',
+            decisions: [
+              createDecision('d-1'),
+              createDecision('d-2'),
+              createDecision('d-3'),
+            ],
+            issues: [],
+          },
+        ],
+      }),
+    );
+    writeFileSync(
+      join(dir, 'review_proposal_audit.json'),
+      JSON.stringify({
+        schemaVersion: 1,
+        reportId: 'report-a',
+        entries: [
+          {
+            decisions: [
+              { decisionId: 'd-1', status: 'applied' },
+              { decisionId: 'd-2', status: 'rejected' },
+              { decisionId: 'd-3', status: 'skipped' },
+            ],
+          },
+        ],
+      }),
+    );
+
+    await expect(run([reportPath])).resolves.toBe(EXIT_CODES.REVIEW_PENDING);
+    expect(output()).toContain('(1 pending)');
+    expect(output()).toContain('p.1 d-3 hidePicture');
+    expect(output()).not.toContain('d-1');
+  });
+
+  test('exits successfully when nothing is pending', async () => {
+    writeReport(
+      createReport({
+        pages: [{ pageNo: 1, status: 'succeeded', decisions: [], issues: [] }],
+      }),
+    );
+
+    await expect(run([dir])).resolves.toBe(EXIT_CODES.SUCCESS);
+    expect(output()).not.toContain('Pending proposals');
+  });
+
+  test('prints machine-readable JSON with --json', async () => {
+    writeReport(createReport());
+
+    await run([dir, '--json']);
+
+    const json = JSON.parse(output());
+    expect(json.reportId).toBe('report-a');
+    expect(
+      json.pendingProposals.map((d: ReviewAssistanceDecision) => d.id),
+    ).toEqual(['d-1', 'd-2', 'd-3']);
+    expect(json.issues).toHaveLength(1);
+    expect(json.failedPages).toEqual([
+      { pageNo: 2, error: { message: 'Model timeout' } },
+      { pageNo: 3 },
+    ]);
+  });
+});
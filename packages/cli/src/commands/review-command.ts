@@ -0,0 +1,147 @@
+import type {
+  ReviewAssistanceDecision,
+  ReviewAssistanceIssue,
+  ReviewAssistanceReport,
+} from '@heripo/model';
+import type { ReviewProposalAuditLog } from '@heripo/pdf-parser';
+
+import type { CommandContext } from '../types';
+
+import { existsSync, statSync } from 'node:fs';
+import { dirname, join, resolve } from 'node:path';
+
+import { CliError } from '../cli-error';
+import { EXIT_CODES } from '../exit-codes';
+import { parseCommandArgs, readJsonFile } from './command-args';
+
+const REPORT_FILE = 'review_assistance.json';
+const AUDIT_LOG_FILE = 'review_proposal_audit.json';
+
+export const REVIEW_USAGE = `Usage: heripo review <output-dir | ${REPORT_FILE}> [options]
+
+Show the review assistance report written by "heripo parse".
+Proposals already applied or rejected in ${AUDIT_LOG_FILE} are not listed.
+Exits with code ${EXIT_CODES.REVIEW_PENDING} while proposals are pending.
+
+Options:
+  --json      Print the summary, pending proposals and issues as JSON
+  -h, --help  Show this help
+`;
+
+/**
+ * Proposals that were neither applied nor rejected by a reviewer yet
+ */
+function collectPendingProposals(
+  report: ReviewAssistanceReport,
+  auditLog: ReviewProposalAuditLog | undefined,
+): ReviewAssistanceDecision[] {
+  const decided = new Set(
+    auditLog?.entries.flatMap((entry) =>
+      entry.decisions
+        .filter((decision) => decision.status !== 'skipped')
+        .map((decision) => decision.decisionId),
+    ),
+  );
+  return report.pages.flatMap((page) =>
+    page.decisions.filter(
+      (decision) =>
+        decision.disposition === 'proposal' && !decided.has(decision.id),
+    ),
+  );
+}
+
+function formatProposal(decision: ReviewAssistanceDecision): string {
+  const op = decision.command?.op ?? decision.invalidOp ?? 'unknown';
+  const reason = decision.reasons[0] ? ` - ${decision.reasons[0]}` : '';
+  return `  p.${decision.pageNo} ${decision.id} ${op} (${decision.confidence.toFixed(2)})${reason}\n`;
+}
+
+function formatIssue(issue: ReviewAssistanceIssue): string {
+  return `  p.${issue.pageNo} [${issue.severity}] ${issue.type}: ${issue.description}\n`;
+}
+
+/**
+ * `heripo review` - Summarize a ReviewAssistanceReport for a reviewer
+ */
+export async function runReviewCommand(
+  args: string[],
+  { io }: CommandContext,
+): Promise<number> {
+  const { values, positionals } = parseCommandArgs(args, {
+    json: { type: 'boolean' },
+    help: { type: 'boolean', short: 'h' },
+  });
+  if (values.help) {
+    io.stdout(REVIEW_USAGE);
+    return EXIT_CODES.SUCCESS;
+  }
+  if (positionals.length !== 1) {
+    throw new CliError('Expected an output directory or report file');
+  }
+
+  const target = resolve(positionals[0]);
+  if (!existsSync(target)) {
+    throw new CliError(`File not found: ${target}`);
+  }
+  const reportPath = statSync(target).isDirectory()
+    ? join(target, REPORT_FILE)
+    : target;
+  if (!existsSync(reportPath)) {
+    throw new CliError(
+      `No ${REPORT_FILE} in ${target}; was review assistance enabled?`,
+    );
+  }
+  const report = readJsonFile<ReviewAssistanceReport>(reportPath);
+  const auditLogPath = join(dirname(reportPath), AUDIT_LOG_FILE);
+  const auditLog = existsSync(auditLogPath)
+    ? readJsonFile<ReviewProposalAuditLog>(auditLogPath)
+    : undefined;
+
+  const pending = collectPendingProposals(report, auditLog);
+  const issues = report.pages.flatMap((page) => page.issues);
+  const failedPages = report.pages.filter((page) => page.status === 'failed');
+
+  if (values.json) {
+    io.stdout(
+      `${JSON.stringify(
+        {
+          reportId: report.reportId,
+          summary: report.summary,
+          pendingProposals: pending,
+          issues,
+          failedPages: failedPages.map(({ pageNo, error }) => ({
+            pageNo,
+            error,
+          })),
+        },
+        null,
+        2,
+      )}\n`,
+    );
+  } else {
+    const { summary } = report;
+    io.stdout(`Report ${report.reportId}\n`);
+    io.stdout(
+      `Pages: ${summary.pagesSucceeded}/${summary.pageCount} succeeded, ${summary.pagesFailed} failed\n`,
+    );
+    io.stdout(
+      `Decisions: ${summary.autoAppliedCount} auto-applied, ${summary.proposalCount} proposals (${pending.length} pending), ${summary.skippedCount} skipped\n`,
+    );
+    if (pending.length > 0) {
+      io.stdout('\nPending proposals:\n');
+      pending.forEach((decision) => io.stdout(formatProposal(decision)));
+    }
+    if (issues.length > 0) {
+      io.stdout('\nIssues:\n');
+      issues.forEach((issue) => io.stdout(formatIssue(issue)));
+    }
+    if (failedPages.length > 0) {
+      io.stdout('\nFailed pages:\n');
+      failedPages.forEach((page) =>
+        io.stdout(`  p.${page.pageNo} ${page.error?.message ?? ''}\n`),
+      );
+    }
+  }
+
+  return pending.length > 0 ? EXIT_CODES.REVIEW_PENDING : EXIT_CODES.SUCCESS;
+}
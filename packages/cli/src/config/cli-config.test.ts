@@ -0,0 +1,114 @@
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, test } from 'vitest';
+
+import { EXIT_CODES } from '../exit-codes';
+import { loadCliConfig, requireConfigSection } from './cli-config';
+
+describe('loadCliConfig', () => {
+  let dir: string;
+
+  const writeConfig = (config: unknown) => {
+    const filePath = join(dir, 'heripo.config.json');
+    writeFileSync(filePath, JSON.stringify(config));
+    return filePath;
+  };
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'heripo-cli-config-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  test('loads parse and process sections with defaults', () => {
+    const config = loadCliConfig(
+      writeConfig({
+        parse: {
+          models: {
+            textCorrection: 'openai/gpt-5-mini',
+            pageGate: 'openai/gpt-5-mini',
+            reviewAssistance: 'anthropic/claude-opus-4.6',
+            reviewAssistanceTasks: { tables: 'google/gemini-3-flash-preview' },
+          },
+          correction: { autoApplyThreshold: 0.9 },
+        },
+        process: {
+          models: { fallback: 'together/Qwen/Qwen3-235B-A22B-Instruct-2507' },
+        },
+      }),
+    );
+
+    expect(config.parser).toEqual({});
+    expect(config.parse?.models.reviewAssistanceTasks).toEqual({
+      tables: 'google/gemini-3-flash-preview',
+    });
+    expect(config.process).toEqual({
+      models: { fallback: 'together/Qwen/Qwen3-235B-A22B-Instruct-2507' },
+      textCleanerBatchSize: 20,
+      captionParserBatchSize: 10,
+      captionValidatorBatchSize: 10,
+    });
+  });
+
+  test('lists every validation issue with its path', () => {
+    const filePath = writeConfig({
+      parser: { port: -1 },
+      process: { models: { fallback: 'gpt-5' } },
+      extra: true,
+    });
+
+    expect(() => loadCliConfig(filePath)).toThrow(
+      expect.objectContaining({
+        exitCode: EXIT_CODES.CONFIG,
+        message: [
+          `Invalid config file ${filePath}:`,
+          '  parser.port: Too small: expected number to be >0',
+          '  process.models.fallback: Expected a "provider/model" ID',
+          '  (root): Unrecognized key: "extra"',
+        ].join('\n'),
+      }),
+    );
+  });
+
+  test('fails with a config error for missing or malformed files', () => {
+    const malformed = join(dir, 'malformed.json');
+    writeFileSync(malformed, '{');
+
+    expect(() => loadCliConfig(join(dir, 'missing.json'))).toThrow(
+      expect.objectContaining({
+        exitCode: EXIT_CODES.CONFIG,
+        message: expect.stringContaining('Cannot read config file'),
+      }),
+    );
+    expect(() => loadCliConfig(malformed)).toThrow(
+      expect.objectContaining({ exitCode: EXIT_CODES.CONFIG }),
+    );
+  });
+});
+
+describe('requireConfigSection', () => {
+  test('returns the section or names the missing one', () => {
+    const process = {
+      models: { fallback: 'openai/gpt-5.2' },
+      textCleanerBatchSize: 20,
+      captionParserBatchSize: 10,
+      captionValidatorBatchSize: 10,
+    };
+    const config = { parser: {}, process };
+
+    expect(requireConfigSection(config, 'process', 'heripo.config.json')).toBe(
+      process,
+    );
+    expect(() =>
+      requireConfigSection(config, 'parse', 'heripo.config.json'),
+    ).toThrow(
+      expect.objectContaining({
+        exitCode: EXIT_CODES.CONFIG,
+        message: 'Config file heripo.config.json has no "parse" section',
+      }),
+    );
+  });
+});
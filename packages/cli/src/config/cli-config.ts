@@ -0,0 +1,175 @@
+import { readFileSync } from 'node:fs';
+import { z } from 'zod';
+
+import { CliError } from '../cli-error';
+import { EXIT_CODES } from '../exit-codes';
+
+/**
+ * Default config file looked up in the working directory
+ */
+export const DEFAULT_CONFIG_FILE = 'heripo.config.json';
+
+const modelIdSchema = z
+  .string()
+  .regex(/^[^/]+\/.+$/, 'Expected a "provider/model" ID');
+
+const reviewAssistanceTaskIdSchema = z.enum([
+  'text_ocr_hanja',
+  'text_integrity',
+  'text_role_footnote',
+  'tables',
+  'pictures_captions',
+  'layout_bbox_order',
+]);
+
+const positiveIntSchema = z.number().int().positive();
+const thresholdSchema = z.number().min(0).max(1);
+
+const parseConfigSchema = z.strictObject({
+  models: z.strictObject({
+    textCorrection: modelIdSchema,
+    textCorrectionFallback: modelIdSchema.optional(),
+    pageGate: modelIdSchema,
+    pageGateFallback: modelIdSchema.optional(),
+    reviewAssistance: modelIdSchema,
+    reviewAssistanceFallback: modelIdSchema.optional(),
+    reviewAssistanceTasks: z
+      .partialRecord(reviewAssistanceTaskIdSchema, modelIdSchema)
+      .optional(),
+    reviewAssistanceTasksFallback: z
+      .partialRecord(reviewAssistanceTaskIdSchema, modelIdSchema)
+      .optional(),
+    tableCorrection: modelIdSchema.optional(),
+    tableCorrectionFallback: modelIdSchema.optional(),
+    languageDetection: modelIdSchema.optional(),
+    languageDetectionFallback: modelIdSchema.optional(),
+    documentValidation: modelIdSchema.optional(),
+  }),
+  ocrEngine: z.enum(['ocrmac', 'tesseract', 'easyocr']).optional(),
+  numThreads: positiveIntSchema.optional(),
+  chunkedConversion: z.boolean().optional(),
+  chunkServers: z.array(z.union([positiveIntSchema, z.url()])).optional(),
+  forceImagePdf: z.boolean().optional(),
+  correction: z
+    .strictObject({
+      outputLanguage: z.string().optional(),
+      autoApplyThreshold: thresholdSchema.optional(),
+      proposalThreshold: thresholdSchema.optional(),
+      reviewAssistanceEnabled: z.boolean().optional(),
+      tableCorrectionEnabled: z.boolean().optional(),
+      temperature: z.number().min(0).max(2).optional(),
+      modelConcurrency: positiveIntSchema.optional(),
+      workItemTimeoutMs: positiveIntSchema.optional(),
+      concurrency: z
+        .strictObject({
+          pages: positiveIntSchema.optional(),
+          reviewTasks: positiveIntSchema.optional(),
+          tables: positiveIntSchema.optional(),
+        })
+        .optional(),
+      maxRetries: z
+        .strictObject({
+          textCorrection: z.number().int().min(0).optional(),
+          pageGate: z.number().int().min(0).optional(),
+          reviewAssistance: z.number().int().min(0).optional(),
+          tableCorrection: z.number().int().min(0).optional(),
+        })
+        .optional(),
+    })
+    .optional(),
+});
+
+const processConfigSchema = z.strictObject({
+  models: z.strictObject({
+    fallback: modelIdSchema,
+    pageRangeParser: modelIdSchema.optional(),
+    tocExtractor: modelIdSchema.optional(),
+    validator: modelIdSchema.optional(),
+    visionTocExtractor: modelIdSchema.optional(),
+    captionParser: modelIdSchema.optional(),
+  }),
+  textCleanerBatchSize: positiveIntSchema.default(20),
+  captionParserBatchSize: positiveIntSchema.default(10),
+  captionValidatorBatchSize: positiveIntSchema.default(10),
+  maxRetries: z.number().int().min(0).optional(),
+  enableFallbackRetry: z.boolean().optional(),
+  idStrategy: z.enum(['sequential', 'content-hash']).optional(),
+});
+
+const cliConfigSchema = z.strictObject({
+  parser: z
+    .strictObject({
+      port: positiveIntSchema.optional(),
+      baseUrl: z.url().optional(),
+      venvPath: z.string().optional(),
+      timeout: positiveIntSchema.optional(),
+      enableImagePdfFallback: z.boolean().optional(),
+    })
+    .default({}),
+  parse: parseConfigSchema.optional(),
+  process: processConfigSchema.optional(),
+});
+
+/**
+ * Contents of `heripo.config.json`
+ */
+export type CliConfig = z.infer<typeof cliConfigSchema>;
+
+/**
+ * `parse` section of the config file
+ */
+export type ParseConfig = z.infer<typeof parseConfigSchema>;
+
+/**
+ * `process` section of the config file
+ */
+export type ProcessConfig = z.infer<typeof processConfigSchema>;
+
+/**
+ * Load and validate a CLI config file
+ *
+ * @param filePath - Path to the JSON config file
+ * @throws CliError with the CONFIG exit code when the file is missing or invalid
+ */
+export function loadCliConfig(filePath: string): CliConfig {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(readFileSync(filePath, 'utf-8'));
+  } catch (error) {
+    throw new CliError(
+      `Cannot read config file ${filePath}: ${(error as Error).message}`,
+      EXIT_CODES.CONFIG,
+      { cause: error },
+    );
+  }
+
+  const result = cliConfigSchema.safeParse(raw);
+  if (!result.success) {
+    const issues = result.error.issues.map(
+      (issue) => `  ${issue.path.join('.') || '(root)'}: ${issue.message}`,
+    );
+    throw new CliError(
+      `Invalid config file ${filePath}:\n${issues.join('\n')}`,
+      EXIT_CODES.CONFIG,
+    );
+  }
+  return result.data;
+}
+
+/**
+ * Return a config section or fail with a CONFIG error naming it
+ */
+export function requireConfigSection<TKey extends 'parse' | 'process'>(
+  config: CliConfig,
+  section: TKey,
+  filePath: string,
+): NonNullable<CliConfig[TKey]> {
+  const value = config[section];
+  if (!value) {
+    throw new CliError(
+      `Config file ${filePath} has no "${section}" section`,
+      EXIT_CODES.CONFIG,
+    );
+  }
+  return value as NonNullable<CliConfig[TKey]>;
+}
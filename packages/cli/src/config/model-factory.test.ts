@@ -0,0 +1,16 @@
+import { describe, expect, test, vi } from 'vitest';
+
+import { createOptionalModel } from './model-factory';
+
+vi.mock('@heripo/shared', () => ({
+  createModel: vi.fn((modelId: string) => ({ modelId })),
+}));
+
+describe('createOptionalModel', () => {
+  test('skips undefined model IDs', () => {
+    expect(createOptionalModel(undefined)).toBeUndefined();
+    expect(createOptionalModel('openai/gpt-5-mini')).toEqual({
+      modelId: 'openai/gpt-5-mini',
+    });
+  });
+});
@@ -0,0 +1,12 @@
+import type { LanguageModel } from 'ai';
+
+import { createModel } from '@heripo/shared';
+
+/**
+ * createModel for optional config entries
+ */
+export function createOptionalModel(
+  modelId: string | undefined,
+): LanguageModel | undefined {
+  return modelId === undefined ? undefined : createModel(modelId);
+}
@@ -0,0 +1,17 @@
+/**
+ * Process exit codes of the `heripo` command
+ */
+export const EXIT_CODES = {
+  /** Command completed */
+  SUCCESS: 0,
+  /** Parsing, processing or export failed */
+  FAILURE: 1,
+  /** Invalid arguments or options */
+  USAGE: 2,
+  /** Missing or invalid config file */
+  CONFIG: 3,
+  /** `review` found proposals that still need a reviewer decision */
+  REVIEW_PENDING: 4,
+  /** Interrupted with Ctrl+C */
+  ABORTED: 130,
+} as const;
@@ -0,0 +1,32 @@
+/**
+ * @heripo/cli
+ *
+ * `heripo` command-line tool for the heripo engine pipeline.
+ *
+ * ## Key Features
+ *
+ * - `parse`: PDF to corrected DoclingDocument (PDFParser)
+ * - `process`: DoclingDocument to ProcessedDocument (DocumentProcessor)
+ * - `review`: Review assistance report summary with pending proposals
+ * - `export`: Markdown, HTML and JSONL output
+ * - Models configured in `heripo.config.json` with `provider/model` IDs
+ * - Progress bars and meaningful exit codes
+ *
+ * @packageDocumentation
+ */
+
+export { runCli, HERIPO_USAGE } from './cli';
+export { CliError } from './cli-error';
+export { EXIT_CODES } from './exit-codes';
+export {
+  DEFAULT_CONFIG_FILE,
+  loadCliConfig,
+  requireConfigSection,
+} from './config/cli-config';
+export type {
+  CliConfig,
+  ParseConfig,
+  ProcessConfig,
+} from './config/cli-config';
+export { createModel, createOptionalModel } from './config/model-factory';
+export type { CliIo, CommandContext, CommandRunner } from './types';
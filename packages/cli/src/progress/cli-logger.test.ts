@@ -0,0 +1,58 @@
+import type { CliIo } from '../types';
+
+import { describe, expect, test, vi } from 'vitest';
+
+import { createCliLogger } from './cli-logger';
+import { ProgressBar } from './progress-bar';
+
+describe('createCliLogger', () => {
+  const createIo = () =>
+    ({
+      stdout: vi.fn(),
+      stderr: vi.fn(),
+      interactive: false,
+    }) satisfies CliIo;
+
+  test('prints only warnings and errors by default', () => {
+    const io = createIo();
+    const logger = createCliLogger(io);
+
+    logger.debug('debug message');
+    logger.info('info message');
+    logger.warn('warn message');
+    logger.error('error message', new Error('boom').message);
+
+    expect(io.stderr.mock.calls).toEqual([
+      ['warn: warn message\n'],
+      ['error: error message boom\n'],
+    ]);
+  });
+
+  test('prints every level when verbose', () => {
+    const io = createIo();
+    const logger = createCliLogger(io, { verbose: true });
+
+    logger.debug('debug message');
+    logger.info('[DocumentProcessor] Report ID:', 'report-1');
+
+    expect(io.stderr.mock.calls).toEqual([
+      ['debug: debug message\n'],
+      ['[DocumentProcessor] Report ID: report-1\n'],
+    ]);
+  });
+
+  test('formats arguments and clears the bar before printing', () => {
+    const io = createIo();
+    const progressBar = new ProgressBar(io);
+    const clear = vi.spyOn(progressBar, 'clear');
+    const logger = createCliLogger(io, { progressBar });
+
+    logger.info('stats', { pages: 3 }, null);
+    logger.warn('careful', { pages: 3 }, null);
+
+    expect(io.stderr.mock.calls).toEqual([
+      ['warn: careful {"pages":3} null\n'],
+    ]);
+    expect(clear).toHaveBeenCalledTimes(1);
+  });
+});
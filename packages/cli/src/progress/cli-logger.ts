@@ -0,0 +1,52 @@
+import type { LoggerMethods } from '@heripo/logger';
+
+import type { CliIo } from '../types';
+import type { ProgressBar } from './progress-bar';
+
+/**
+ * Options for createCliLogger
+ */
+export interface CliLoggerOptions {
+  /**
+   * Also print debug and info messages (default: false)
+   */
+  verbose?: boolean;
+
+  /**
+   * Bar to erase before a message is printed
+   */
+  progressBar?: ProgressBar;
+}
+
+/**
+ * Create a LoggerMethods adapter that writes library logs to stderr
+ *
+ * Warnings and errors are always printed; debug and info only with `verbose`.
+ */
+export function createCliLogger(
+  io: CliIo,
+  options: CliLoggerOptions = {},
+): LoggerMethods {
+  const log =
+    (level: 'debug' | 'info' | 'warn' | 'error') =>
+    (...args: unknown[]) => {
+      const message = args
+        .map((arg) =>
+          typeof arg === 'object' && arg !== null
+            ? JSON.stringify(arg)
+            : String(arg),
+        )
+        .join(' ');
+
+      if (!options.verbose && (level === 'debug' || level === 'info')) return;
+      options.progressBar?.clear();
+      io.stderr(`${level === 'info' ? '' : `${level}: `}${message}\n`);
+    };
+
+  return {
+    debug: log('debug'),
+    info: log('info'),
+    warn: log('warn'),
+    error: log('error'),
+  };
+}
@@ -0,0 +1,66 @@
+import type { CliIo } from '../types';
+
+import { describe, expect, test, vi } from 'vitest';
+
+import { ProgressBar } from './progress-bar';
+
+describe('ProgressBar', () => {
+  const createIo = (interactive: boolean) =>
+    ({
+      stdout: vi.fn(),
+      stderr: vi.fn(),
+      interactive,
+    }) satisfies CliIo;
+
+  test('redraws in place on interactive terminals', () => {
+    const io = createIo(true);
+    const bar = new ProgressBar(io);
+
+    bar.update('Reviewing pages', 1, 4);
+    bar.update('Reviewing pages', 2, 4);
+    bar.clear();
+    bar.clear();
+    bar.update('Reviewing pages', 4, 4);
+    bar.done();
+
+    expect(io.stderr.mock.calls.map(([text]) => text)).toEqual([
+      `\r\x1b[2K[${'#'.repeat(6)}${'-'.repeat(18)}] 1/4 Reviewing pages`,
+      `\r\x1b[2K[${'#'.repeat(12)}${'-'.repeat(12)}] 2/4 Reviewing pages`,
+      '\r\x1b[2K',
+      `\r\x1b[2K[${'#'.repeat(24)}] 4/4 Reviewing pages`,
+      '\n',
+    ]);
+  });
+
+  test('writes lines only for new labels and completion otherwise', () => {
+    const io = createIo(false);
+    const bar = new ProgressBar(io);
+
+    bar.update('Reviewing pages', 0, 2);
+    bar.update('Reviewing pages', 1, 2);
+    bar.update('Reviewing pages', 2, 2);
+    bar.update('Reviewing pages', 2, 2);
+    bar.clear();
+    bar.done();
+    bar.update('Reviewing pages', 2, 2);
+
+    expect(io.stderr.mock.calls.map(([text]) => text)).toEqual([
+      `[${'-'.repeat(24)}] 0/2 Reviewing pages\n`,
+      `[${'#'.repeat(24)}] 2/2 Reviewing pages\n`,
+      `[${'#'.repeat(24)}] 2/2 Reviewing pages\n`,
+    ]);
+  });
+
+  test('clamps the ratio and handles empty totals', () => {
+    const io = createIo(false);
+    const bar = new ProgressBar(io);
+
+    bar.update('Overflow', 5, 2);
+    bar.update('Empty', 0, 0);
+
+    expect(io.stderr.mock.calls.map(([text]) => text)).toEqual([
+      `[${'#'.repeat(24)}] 5/2 Overflow\n`,
+      `[${'-'.repeat(24)}] 0/0 Empty\n`,
+    ]);
+  });
+});
@@ -0,0 +1,61 @@
+import type { CliIo } from '../types';
+
+const BAR_WIDTH = 24;
+
+/**
+ * ProgressBar
+ *
+ * Renders `[#####-----] 3/10 Label` on stderr. Interactive terminals redraw
+ * the bar in place; otherwise (CI logs, redirected output) a line is written
+ * only when the label changes or the bar completes.
+ */
+export class ProgressBar {
+  private lastLabel?: string;
+  private lastLine?: string;
+  private active = false;
+
+  constructor(private readonly io: CliIo) {}
+
+  /**
+   * Draw the bar for `completed` of `total` steps
+   */
+  update(label: string, completed: number, total: number): void {
+    const ratio = total > 0 ? Math.min(1, Math.max(0, completed / total)) : 0;
+    const filled = Math.round(ratio * BAR_WIDTH);
+    const line = `[${'#'.repeat(filled)}${'-'.repeat(BAR_WIDTH - filled)}] ${completed}/${total} ${label}`;
+
+    if (this.io.interactive) {
+      this.io.stderr(`\r\x1b[2K${line}`);
+      this.active = true;
+    } else if (
+      line !== this.lastLine &&
+      (label !== this.lastLabel || completed >= total)
+    ) {
+      this.io.stderr(`${line}\n`);
+    }
+    this.lastLabel = label;
+    this.lastLine = line;
+  }
+
+  /**
+   * Erase the bar so a log line can be written; the next update redraws it
+   */
+  clear(): void {
+    if (this.active) {
+      this.io.stderr('\r\x1b[2K');
+      this.active = false;
+    }
+  }
+
+  /**
+   * Move past the bar so following output starts on a new line
+   */
+  done(): void {
+    if (this.active) {
+      this.io.stderr('\n');
+      this.active = false;
+    }
+    this.lastLabel = undefined;
+    this.lastLine = undefined;
+  }
+}
@@ -0,0 +1,35 @@
+/**
+ * Console access used by the CLI commands
+ */
+export interface CliIo {
+  stdout(text: string): void;
+  stderr(text: string): void;
+
+  /**
+   * Whether stderr is a terminal (progress bars redraw in place)
+   */
+  interactive: boolean;
+}
+
+/**
+ * Context shared by every subcommand
+ */
+export interface CommandContext {
+  io: CliIo;
+
+  /**
+   * Aborted on SIGINT so long-running commands stop at the next checkpoint
+   */
+  abortSignal: AbortSignal;
+}
+
+/**
+ * Subcommand entry point
+ *
+ * @param args - Arguments after the subcommand name
+ * @returns Process exit code
+ */
+export type CommandRunner = (
+  args: string[],
+  context: CommandContext,
+) => Promise<number>;
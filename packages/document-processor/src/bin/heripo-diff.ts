@@ -0,0 +1,4 @@
+#!/usr/bin/env node
+import { runDiffCli } from '../cli';
+
+process.exitCode = runDiffCli(process.argv.slice(2));
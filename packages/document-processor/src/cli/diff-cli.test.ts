@@ -0,0 +1,187 @@
+import type { ProcessedDocument } from '@heripo/model';
+
+import type { DiffCliIo } from './diff-cli';
+
+import { readFileSync, writeFileSync } from 'node:fs';
+import { describe, expect, test, vi } from 'vitest';
+
+import { DIFF_CLI_USAGE, runDiffCli } from './diff-cli';
+
+vi.mock('node:fs', () => ({
+  readFileSync: vi.fn(),
+  writeFileSync: vi.fn(),
+}));
+
+describe('runDiffCli', () => {
+  const createDocument = (text: string): ProcessedDocument => ({
+    reportId: 'report-1',
+    pageRangeMap: {},
+    chapters: [
+      {
+        id: 'ch-001',
+        originTitle: 'Ⅰ. 조사개요',
+        title: 'Ⅰ. 조사개요',
+        pageNo: 1,
+        level: 1,
+        textBlocks: [{ sourceRef: '#/texts/1', text, pdfPageNo: 1 }],
+        imageIds: [],
+        tableIds: [],
+        footnoteIds: [],
+      },
+    ],
+    images: [],
+    tables: [],
+    footnotes: [],
+  });
+
+  const createIo = (files: Record<string, ProcessedDocument>) => {
+    const written: Record<string, string> = {};
+    const io: DiffCliIo = {
+      readFile: vi.fn((path: string) => {
+        if (!(path in files)) throw new Error(`ENOENT: ${path}`);
+        return JSON.stringify(files[path]);
+      }),
+      writeFile: vi.fn((path: string, content: string) => {
+        written[path] = content;
+      }),
+      stdout: vi.fn(),
+      stderr: vi.fn(),
+    };
+    return { io, written };
+  };
+
+  test('prints the JSON diff and exits with 1 when documents differ', () => {
+    const { io } = createIo({
+      'a.json': createDocument('2020년 조사'),
+      'b.json': createDocument('2021년 조사'),
+    });
+
+    const exitCode = runDiffCli(['a.json', 'b.json'], io);
+
+    expect(exitCode).toBe(1);
+    const diff = JSON.parse(vi.mocked(io.stdout).mock.calls[0][0]);
+    expect(diff.nodes).toEqual([
+      expect.objectContaining({ kind: 'textBlock', status: 'modified' }),
+    ]);
+    expect(io.writeFile).not.toHaveBeenCalled();
+  });
+
+  test('exits with 0 when documents are identical', () => {
+    const { io } = createIo({
+      'a.json': createDocument('본문'),
+      'b.json': createDocument('본문'),
+    });
+
+    expect(runDiffCli(['a.json', 'b.json'], io)).toBe(0);
+  });
+
+  test('writes JSON and HTML reports to files', () => {
+    const { io, written } = createIo({
+      'a.json': createDocument('2020년 조사'),
+      'b.json': createDocument('2021년 조사'),
+    });
+
+    runDiffCli(
+      ['a.json', 'b.json', '--json', 'diff.json', '--html', 'diff.html'],
+      io,
+    );
+
+    expect(io.stdout).not.toHaveBeenCalled();
+    expect(JSON.parse(written['diff.json']).afterReportId).toBe('report-1');
+    expect(written['diff.html']).toContain('<!DOCTYPE html>');
+  });
+
+  test('passes matching options to the differ', () => {
+    const { io } = createIo({
+      'a.json': createDocument('토기 저부편'),
+      'b.json': {
+        ...createDocument('토기 저부편'),
+        chapters: [
+          {
+            ...createDocument('').chapters[0],
+            textBlocks: [{ text: '토기 저부편', pdfPageNo: 3 }],
+          },
+        ],
+      },
+    });
+
+    runDiffCli(
+      ['a.json', 'b.json', '--page-window', '2', '--threshold', '1'],
+      io,
+    );
+
+    const diff = JSON.parse(vi.mocked(io.stdout).mock.calls[0][0]);
+    expect(diff.nodes).toEqual([
+      expect.objectContaining({ status: 'modified', matchedBy: 'text' }),
+    ]);
+  });
+
+  test('prints usage for --help', () => {
+    const { io } = createIo({});
+
+    expect(runDiffCli(['--help'], io)).toBe(0);
+    expect(io.stdout).toHaveBeenCalledWith(DIFF_CLI_USAGE);
+  });
+
+  test.each([
+    [[], 'Expected exactly two ProcessedDocument JSON files'],
+    [
+      ['a.json', 'b.json', '--threshold', 'high'],
+      '--threshold must be a non-negative number: high',
+    ],
+    [
+      ['a.json', 'b.json', '--page-window', ''],
+      '--page-window must be a non-negative number: ',
+    ],
+    [['a.json', 'missing.json'], 'ENOENT: missing.json'],
+    [['a.json', 'b.json', '--unknown'], "Unknown option '--unknown'"],
+  ])('reports errors for %j and exits with 2', (args, message) => {
+    const { io } = createIo({
+      'a.json': createDocument('본문'),
+      'b.json': createDocument('본문'),
+    });
+
+    expect(runDiffCli(args, io)).toBe(2);
+    expect(io.stderr).toHaveBeenCalledWith(
+      expect.stringContaining(`heripo-diff: ${message}`),
+    );
+    expect(io.stderr).toHaveBeenCalledWith(
+      expect.stringContaining(DIFF_CLI_USAGE),
+    );
+  });
+
+  test('reports non-Error failures', () => {
+    const { io } = createIo({});
+    vi.mocked(io.readFile).mockImplementation(() => {
+      throw 'disk unavailable';
+    });
+
+    expect(runDiffCli(['a.json', 'b.json'], io)).toBe(2);
+    expect(io.stderr).toHaveBeenCalledWith(
+      expect.stringContaining('heripo-diff: disk unavailable'),
+    );
+  });
+
+  test('uses the file system and process streams by default', () => {
+    vi.mocked(readFileSync).mockReturnValue(
+      JSON.stringify(createDocument('본문')),
+    );
+    const stdoutSpy = vi.spyOn(process.stdout, 'write').mockReturnValue(true);
+    const stderrSpy = vi.spyOn(process.stderr, 'write').mockReturnValue(true);
+
+    expect(runDiffCli(['a.json', 'b.json', '--html', 'diff.html'])).toBe(0);
+    expect(runDiffCli(['a.json'])).toBe(2);
+
+    expect(readFileSync).toHaveBeenCalledWith('a.json', 'utf-8');
+    expect(writeFileSync).toHaveBeenCalledWith(
+      'diff.html',
+      expect.stringContaining('<!DOCTYPE html>'),
+    );
+    expect(stdoutSpy).toHaveBeenCalledWith(expect.stringContaining('"nodes"'));
+    expect(stderrSpy).toHaveBeenCalledWith(
+      expect.stringContaining('heripo-diff:'),
+    );
+    stdoutSpy.mockRestore();
+    stderrSpy.mockRestore();
+  });
+});
@@ -0,0 +1,104 @@
+import type { ProcessedDocument } from '@heripo/model';
+
+import { readFileSync, writeFileSync } from 'node:fs';
+import { parseArgs } from 'node:util';
+
+import { DiffHtmlReporter, diffProcessedDocuments } from '../diff';
+
+/**
+ * File and console access used by runDiffCli
+ */
+export interface DiffCliIo {
+  readFile(path: string): string;
+  writeFile(path: string, content: string): void;
+  stdout(text: string): void;
+  stderr(text: string): void;
+}
+
+export const DIFF_CLI_USAGE = `Usage: heripo-diff <before.json> <after.json> [options]
+
+Compare two ProcessedDocument JSON files.
+
+Options:
+  --json <path>           Write the JSON diff to a file instead of stdout
+  --html <path>           Write an HTML report
+  --threshold <number>    Minimum text similarity for fuzzy matches (default: 0.8)
+  --page-window <number>  Maximum page distance for fuzzy matches (default: 1)
+  -h, --help              Show this help
+
+Exit codes: 0 no differences, 1 differences found, 2 usage or input error
+`;
+
+const nodeIo: DiffCliIo = {
+  readFile: (path) => readFileSync(path, 'utf-8'),
+  writeFile: (path, content) => writeFileSync(path, content),
+  stdout: (text) => process.stdout.write(text),
+  stderr: (text) => process.stderr.write(text),
+};
+
+function parseNumberOption(
+  name: string,
+  value: string | undefined,
+): number | undefined {
+  if (value === undefined) return undefined;
+  const parsed = Number(value);
+  if (value.trim() === '' || !Number.isFinite(parsed) || parsed < 0) {
+    throw new Error(`--${name} must be a non-negative number: ${value}`);
+  }
+  return parsed;
+}
+
+/**
+ * Run the `heripo-diff` command
+ *
+ * @param args - Command line arguments without the node and script paths
+ * @returns Process exit code
+ */
+export function runDiffCli(args: string[], io: DiffCliIo = nodeIo): number {
+  try {
+    const { values, positionals } = parseArgs({
+      args,
+      allowPositionals: true,
+      options: {
+        json: { type: 'string' },
+        html: { type: 'string' },
+        threshold: { type: 'string' },
+        'page-window': { type: 'string' },
+        help: { type: 'boolean', short: 'h' },
+      },
+    });
+
+    if (values.help) {
+      io.stdout(DIFF_CLI_USAGE);
+      return 0;
+    }
+    if (positionals.length !== 2) {
+      throw new Error('Expected exactly two ProcessedDocument JSON files');
+    }
+
+    const [before, after] = positionals.map(
+      (path) => JSON.parse(io.readFile(path)) as ProcessedDocument,
+    );
+    const diff = diffProcessedDocuments(before, after, {
+      similarityThreshold: parseNumberOption('threshold', values.threshold),
+      pageWindow: parseNumberOption('page-window', values['page-window']),
+    });
+
+    const json = `${JSON.stringify(diff, null, 2)}\n`;
+    if (values.json !== undefined) {
+      io.writeFile(values.json, json);
+    } else {
+      io.stdout(json);
+    }
+    if (values.html !== undefined) {
+      io.writeFile(values.html, new DiffHtmlReporter().render(diff));
+    }
+
+    return diff.nodes.length > 0 ? 1 : 0;
+  } catch (error) {
+    io.stderr(
+      `heripo-diff: ${error instanceof Error ? error.message : String(error)}\n\n${DIFF_CLI_USAGE}`,
+    );
+    return 2;
+  }
+}
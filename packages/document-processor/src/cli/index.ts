@@ -0,0 +1,2 @@
+export { DIFF_CLI_USAGE, runDiffCli } from './diff-cli';
+export type { DiffCliIo } from './diff-cli';
@@ -1,6 +1,9 @@
 import type { LoggerMethods } from '@heripo/logger';
 import type {
+  Chapter,
+  DoclingDocument,
   DoclingTextItem,
+  LabeledPageRange,
   PageRange,
   ProcessedFootnote,
   ProcessedImage,
@@ -608,6 +611,27 @@ describe('ChapterConverter', () => {
       expect(chapters[2].textBlocks).toHaveLength(0);
     });
 
+    test('should use a custom Front Matter ID', () => {
+      const tocEntries: TocEntry[] = [
+        { title: 'Chapter 1', level: 1, pageNo: 10 },
+      ];
+      const textItems: DoclingTextItem[] = [createTextItem('Early text', 5)];
+
+      const chapters = converter.convert(
+        tocEntries,
+        textItems,
+        {},
+        [],
+        [],
+        [],
+        'part-001-ch-000',
+      );
+
+      expect(chapters[0].id).toBe('part-001-ch-000');
+      expect(chapters[0].textBlocks).toHaveLength(1);
+      expect(chapters[1].textBlocks).toHaveLength(0);
+    });
+
     test('should handle text items without prov', () => {
       const tocEntries: TocEntry[] = [
         { title: 'Chapter 1', level: 1, pageNo: 1 },
@@ -1038,6 +1062,358 @@ describe('ChapterConverter', () => {
     });
   });
 
+  describe('heading anchors', () => {
+    const createItem = (
+      selfRef: string,
+      text: string,
+      pageNo: number,
+      label?: string,
+      parentRef?: string,
+    ): DoclingTextItem => ({
+      ...createTextItem(text, pageNo, label, parentRef),
+      self_ref: selfRef,
+    });
+
+    const texts = (chapter: Chapter) =>
+      chapter.textBlocks.map((block) => block.text);
+
+    test('should split a shared page at section headings', () => {
+      const tocEntries: TocEntry[] = [
+        {
+          title: 'Ⅱ. 조사 내용',
+          level: 1,
+          pageNo: 5,
+          children: [
+            { title: '1. 유구', level: 2, pageNo: 6 },
+            { title: '2. 유물', level: 2, pageNo: 6 },
+          ],
+        },
+        { title: 'Ⅲ. 고찰', level: 1, pageNo: 8 },
+      ];
+      const textItems = [
+        createItem('#/texts/0', 'Ⅱ. 조사 내용', 5, 'section_header'),
+        createItem('#/texts/1', 'Chapter II body', 5),
+        createItem('#/texts/2', 'Chapter II tail', 6),
+        createItem('#/texts/3', '1.유구', 6, 'section_header'),
+        createItem('#/texts/4', 'Feature text', 6),
+        createItem('#/texts/5', '2. 유물', 6, 'section_header'),
+        createItem('#/texts/6', 'Artifact text', 6),
+        createItem('#/texts/7', 'Artifact text continued', 7),
+      ];
+      const readingOrder = [
+        '#/texts/0',
+        '#/texts/1',
+        '#/texts/2',
+        '#/texts/8',
+        '#/texts/3',
+        '#/pictures/0',
+        '#/texts/4',
+        '#/texts/5',
+        '#/tables/0',
+        '#/texts/6',
+        '#/texts/7',
+      ];
+      const images: ProcessedImage[] = [
+        {
+          id: 'img-001',
+          sourceRef: '#/pictures/0',
+          pdfPageNo: 6,
+          path: '/a.png',
+        },
+        // Without a source reference the page decides
+        { id: 'img-002', pdfPageNo: 6, path: '/b.png' },
+      ];
+      const tables = [
+        { ...createTable('tbl-001', 6), sourceRef: '#/tables/0' },
+      ];
+      const footnotes: ProcessedFootnote[] = [
+        { id: 'ftn-001', sourceRef: '#/texts/8', text: 'Note', pdfPageNo: 6 },
+      ];
+
+      const chapters = converter.convert(
+        tocEntries,
+        textItems,
+        {},
+        images,
+        tables,
+        footnotes,
+        undefined,
+        readingOrder,
+      );
+
+      const [features, artifacts] = chapters[1].children!;
+      expect(texts(chapters[1])).toEqual([
+        'Ⅱ. 조사 내용',
+        'Chapter II body',
+        'Chapter II tail',
+      ]);
+      expect(chapters[1].footnoteIds).toEqual(['ftn-001']);
+      expect(texts(features)).toEqual(['1.유구', 'Feature text']);
+      expect(features.imageIds).toEqual(['img-001']);
+      expect(texts(artifacts)).toEqual([
+        '2. 유물',
+        'Artifact text',
+        'Artifact text continued',
+      ]);
+      expect(artifacts.imageIds).toEqual(['img-002']);
+      expect(artifacts.tableIds).toEqual(['tbl-001']);
+      expect(mockLogger.info).toHaveBeenCalledWith(
+        '[ChapterConverter] Anchored 3 of 4 chapters to headings',
+      );
+    });
+
+    test('should keep text above the first heading in Front Matter', () => {
+      const textItems = [
+        createItem('#/texts/0', 'End of preface', 3),
+        createItem('#/texts/1', 'CHAPTER 1', 3, 'section_header'),
+        createItem('#/texts/2', 'Chapter body', 3),
+      ];
+      const images: ProcessedImage[] = [
+        {
+          id: 'img-001',
+          sourceRef: '#/pictures/0',
+          pdfPageNo: 3,
+          path: '/a.png',
+        },
+      ];
+
+      // Without a reading order, texts keep their order and resources
+      // are placed by page
+      const chapters = converter.convert(
+        [{ title: 'Chapter 1', level: 1, pageNo: 3 }],
+        textItems,
+        {},
+        images,
+        [],
+        [],
+      );
+
+      expect(texts(chapters[0])).toEqual(['End of preface']);
+      expect(texts(chapters[1])).toEqual(['CHAPTER 1', 'Chapter body']);
+      expect(chapters[1].imageIds).toEqual(['img-001']);
+    });
+
+    test('should prefer source references over title matches', () => {
+      const tocEntries: TocEntry[] = [
+        {
+          title: 'Summary',
+          level: 1,
+          pageNo: 2,
+          sourceRefs: ['#/texts/2'],
+        },
+        { title: 'Summary', level: 1, pageNo: 2 },
+      ];
+      const textItems = [
+        createItem('#/texts/0', 'Summary', 2, 'section_header'),
+        createItem('#/texts/1', 'First summary', 2),
+        createItem('#/texts/2', 'Summary', 2, 'section_header'),
+        createItem('#/texts/3', 'Second summary', 2),
+      ];
+
+      const chapters = converter.convert(tocEntries, textItems, {}, [], [], []);
+
+      expect(texts(chapters[1])).toEqual(['Summary', 'Second summary']);
+      expect(texts(chapters[2])).toEqual(['Summary', 'First summary']);
+    });
+
+    test('should fall back to page granularity without a matching heading', () => {
+      const tocEntries: TocEntry[] = [
+        { title: 'Chapter A', level: 1, pageNo: 5 },
+        { title: 'Chapter B', level: 1, pageNo: 5 },
+      ];
+      const textItems = [
+        createItem('#/texts/0', 'Chapter B', 4, 'section_header'),
+        createItem('#/texts/1', 'Other heading', 5, 'section_header'),
+        createItem('#/texts/2', 'Chapter A', 5, 'text'),
+        createItem(
+          '#/texts/3',
+          'Chapter B',
+          5,
+          'section_header',
+          '#/pictures/0',
+        ),
+        createItem('#/texts/4', 'Body', 5),
+        {
+          ...createItem('#/texts/5', 'Chapter A', 5, 'section_header'),
+          prov: [],
+        },
+      ];
+
+      const chapters = converter.convert(tocEntries, textItems, {}, [], [], []);
+
+      expect(texts(chapters[0])).toEqual(['Chapter B', 'Chapter A']);
+      expect(texts(chapters[1])).toEqual([]);
+      expect(texts(chapters[2])).toEqual([
+        'Other heading',
+        'Chapter A',
+        'Body',
+      ]);
+      expect(mockLogger.info).toHaveBeenCalledWith(
+        '[ChapterConverter] Anchored 0 of 2 chapters to headings',
+      );
+    });
+
+    test('should use page ranges when no chapter starts before an item', () => {
+      const textItems = [
+        createItem('#/texts/0', 'Before heading', 50),
+        createItem('#/texts/1', 'Chapter 0', 50, 'section_header'),
+      ];
+
+      const chapters = converter.convert(
+        [{ title: 'Chapter 0', level: 1, pageNo: 0 }],
+        textItems,
+        { 50: { startPageNo: 0, endPageNo: 0 } },
+        [],
+        [],
+        [],
+      );
+
+      expect(texts(chapters[1])).toEqual(['Before heading', 'Chapter 0']);
+    });
+
+    test('should keep Roman numbered front matter out of Arabic chapters', () => {
+      const romanLabels = [
+        'i',
+        'ii',
+        'iii',
+        'iv',
+        'v',
+        'vi',
+        'vii',
+        'viii',
+        'ix',
+        'x',
+        'xi',
+        'xii',
+      ];
+      const pageRangeMap: Record<number, PageRange> = {};
+      romanLabels.forEach((label, index) => {
+        const range: LabeledPageRange = {
+          startPageNo: index + 1,
+          endPageNo: index + 1,
+          numeralSystem: 'roman',
+          startLabel: label,
+          endLabel: label,
+        };
+        pageRangeMap[index + 1] = range;
+      });
+      for (let pdfPageNo = 13; pdfPageNo <= 16; pdfPageNo++) {
+        pageRangeMap[pdfPageNo] = {
+          startPageNo: pdfPageNo - 12,
+          endPageNo: pdfPageNo - 12,
+        };
+      }
+      const textItems = [
+        createItem('#/texts/0', 'Chapter 1', 1, 'section_header'),
+        createItem('#/texts/1', 'Preface text', 3),
+        createItem('#/texts/2', 'Chapter 1', 13, 'section_header'),
+        createItem('#/texts/3', 'Chapter 1 body', 13),
+        createItem('#/texts/4', 'Chapter 2 body', 15),
+      ];
+      const images: ProcessedImage[] = [
+        { id: 'img-001', pdfPageNo: 3, path: '/preface.png' },
+      ];
+
+      const chapters = converter.convert(
+        [
+          { title: 'Chapter 1', level: 1, pageNo: 1 },
+          { title: 'Chapter 2', level: 1, pageNo: 3 },
+        ],
+        textItems,
+        pageRangeMap,
+        images,
+        [],
+        [],
+        undefined,
+        textItems.map((item) => item.self_ref),
+      );
+
+      expect(texts(chapters[0])).toEqual(['Chapter 1', 'Preface text']);
+      expect(chapters[0].imageIds).toEqual(['img-001']);
+      expect(texts(chapters[1])).toEqual(['Chapter 1', 'Chapter 1 body']);
+      expect(texts(chapters[2])).toEqual(['Chapter 2 body']);
+    });
+  });
+
+  describe('collectReadingOrder', () => {
+    test('should walk the body tree depth-first', () => {
+      const node = (selfRef: string, children: string[] = []) => ({
+        self_ref: selfRef,
+        children: children.map(($ref) => ({ $ref })),
+      });
+      const doc = {
+        body: node('#/body', [
+          '#/texts/0',
+          '#/groups/0',
+          '#/pictures/0',
+          '#/tables/0',
+          '#/texts/0',
+          '#/texts/99',
+        ]),
+        texts: [
+          node('#/texts/0'),
+          node('#/texts/1'),
+          node('#/texts/2'),
+          node('#/texts/3'),
+        ],
+        pictures: [node('#/pictures/0', ['#/texts/3'])],
+        tables: [node('#/tables/0')],
+        groups: [node('#/groups/0', ['#/texts/1', '#/texts/2'])],
+      } as unknown as DoclingDocument;
+
+      expect(ChapterConverter.collectReadingOrder(doc)).toEqual([
+        '#/texts/0',
+        '#/groups/0',
+        '#/texts/1',
+        '#/texts/2',
+        '#/pictures/0',
+        '#/texts/3',
+        '#/tables/0',
+        '#/texts/99',
+      ]);
+    });
+  });
+
+  describe('content-hash IDs', () => {
+    test('should keep chapter and text block IDs across runs', () => {
+      const tocEntries: TocEntry[] = [
+        { title: 'Chapter 1', level: 1, pageNo: 1 },
+        {
+          title: 'Chapter 2',
+          level: 1,
+          pageNo: 5,
+          children: [{ title: 'Section 2.1', level: 2, pageNo: 6 }],
+        },
+      ];
+      const textItems = [
+        createTextItem('Text on page 1', 1),
+        createTextItem('Text on page 6', 6),
+      ];
+      const convert = (entries: TocEntry[]) =>
+        new ChapterConverter(
+          mockLogger,
+          new IdGenerator('content-hash'),
+        ).convert(entries, textItems, {}, [], [], []);
+
+      const first = convert(tocEntries);
+      // A new chapter before the others must not shift existing IDs
+      const second = convert([
+        { title: 'Preface', level: 1, pageNo: 1 },
+        ...tocEntries,
+      ]);
+
+      expect(first[0].id).toBe('ch-000');
+      expect(first[1].id).toMatch(/^ch-[0-9a-f]{12}$/);
+      expect(second.slice(2).map((chapter) => chapter.id)).toEqual(
+        first.slice(1).map((chapter) => chapter.id),
+      );
+      expect(second[3].children?.[0].id).toBe(first[2].children?.[0].id);
+      expect(first[1].textBlocks[0].id).toMatch(/^txt-[0-9a-f]{12}$/);
+      expect(second[1].textBlocks).toHaveLength(0);
+      expect(second[2].textBlocks[0].id).toBe(first[1].textBlocks[0].id);
+    });
+  });
+
   describe('footnote handling', () => {
     test('should link footnotes to chapters by page range', () => {
       const tocEntries: TocEntry[] = [
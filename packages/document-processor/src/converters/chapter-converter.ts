@@ -1,6 +1,8 @@
 import type { LoggerMethods } from '@heripo/logger';
 import type {
   Chapter,
+  DoclingDocument,
+  DoclingReference,
   DoclingTextItem,
   PageRange,
   ProcessedFootnote,
@@ -12,7 +14,7 @@ import type {
 import type { TocEntry } from '../types';
 import type { IdGenerator } from '../utils';
 
-import { TextCleaner } from '../utils';
+import { TextCleaner, isLabeledPageRange } from '../utils';
 
 /**
  * Flattened chapter with TOC page number for range calculation
@@ -30,6 +32,24 @@ interface ChapterRange {
   endPage: number;
 }
 
+/**
+ * Chapter start for splitting shared pages at heading positions
+ */
+interface ChapterStart {
+  chapterId: string;
+  page: number;
+  /** Reading-order position of the heading, or -Infinity when not anchored */
+  position: number;
+}
+
+/**
+ * Find the chapter of an item from its PDF page and source reference
+ */
+type ChapterLocator = (
+  pdfPageNo: number,
+  sourceRef: string | undefined,
+) => string | null;
+
 /**
  * ChapterConverter
  *
@@ -40,14 +60,24 @@ interface ChapterRange {
  * 1. Create Front Matter chapter (ch-000) for pre-TOC content
  * 2. Build chapter tree from TocEntry[] (recursive)
  * 3. Calculate page ranges for each chapter
- * 4. Assign text blocks to chapters based on page ranges
- * 5. Link images/tables to chapters based on page ranges
+ * 4. Anchor chapter starts to their section headings
+ * 5. Assign text blocks to chapters based on page ranges and anchors
+ * 6. Link images/tables to chapters based on page ranges and anchors
  *
  * ## Page Assignment Strategy
  *
  * Uses "start page first" strategy: resources are assigned to the chapter
  * whose startPage is the largest value that is still <= the resource's page.
  *
+ * ## Heading Anchors
+ *
+ * A chapter is anchored to the `section_header` item on its start page that
+ * is one of its source references or carries the same title. On pages with
+ * anchors, items are split at the heading's reading-order position, so two
+ * subsections starting on one page each get their own text, and text above
+ * a heading stays with the previous chapter. Chapters without a matching
+ * heading and items without a known position fall back to page granularity.
+ *
  * ## Front Matter
  *
  * A special chapter (ch-000) is always created to hold content that appears
@@ -74,6 +104,8 @@ export class ChapterConverter {
    * @param images - Converted images
    * @param tables - Converted tables
    * @param footnotes - Converted footnotes
+   * @param frontMatterId - Front Matter chapter ID, unique per chapter tree (default: ch-000)
+   * @param readingOrder - Docling self references in reading order (see collectReadingOrder); without it, positions follow textItems and resources are placed by page only
    * @returns Converted chapters with text blocks and resource references
    */
   convert(
@@ -83,11 +115,13 @@ export class ChapterConverter {
     images: ProcessedImage[],
     tables: ProcessedTable[],
     footnotes: ProcessedFootnote[],
+    frontMatterId: string = ChapterConverter.FRONT_MATTER_ID,
+    readingOrder?: string[],
   ): Chapter[] {
     this.logger.info('[ChapterConverter] Starting chapter conversion...');
 
     // Step 1: Create Front Matter chapter
-    const frontMatter = this.createFrontMatterChapter();
+    const frontMatter = this.createFrontMatterChapter(frontMatterId);
 
     // Step 2: Build chapter tree from TOC
     const tocChapters = this.buildChapterTree(tocEntries);
@@ -100,27 +134,48 @@ export class ChapterConverter {
 
     // Step 4: Calculate page ranges
     const flatChapters = this.flattenChapters(allChapters);
-    const chapterRanges = this.calculatePageRanges(flatChapters, tocEntries);
+    const chapterRanges = this.calculatePageRanges(
+      flatChapters,
+      tocEntries,
+      frontMatterId,
+    );
     this.logger.info(
       `[ChapterConverter] Calculated ranges for ${chapterRanges.size} chapters`,
     );
 
-    // Step 5: Convert and assign text blocks
+    // Step 5: Anchor chapter starts to section headings
+    const positions = new Map(
+      (readingOrder ?? textItems.map((item) => item.self_ref)).map(
+        (ref, index) => [ref, index],
+      ),
+    );
+    const chapterStarts = this.anchorChapterStarts(
+      flatChapters,
+      textItems,
+      pageRangeMap,
+      positions,
+      frontMatterId,
+    );
+    const locate: ChapterLocator = (pdfPageNo, sourceRef) =>
+      this.isLabeledPage(pdfPageNo, pageRangeMap)
+        ? frontMatterId
+        : this.findChapter(
+            this.pdfPageToActualPage(pdfPageNo, pageRangeMap),
+            (sourceRef !== undefined ? positions.get(sourceRef) : undefined) ??
+              Number.POSITIVE_INFINITY,
+            chapterRanges,
+            chapterStarts,
+          );
+
+    // Step 6: Convert and assign text blocks
     const textBlocks = this.convertTextBlocks(textItems, pageRangeMap);
-    this.assignTextBlocks(allChapters, textBlocks, chapterRanges, pageRangeMap);
+    this.assignTextBlocks(allChapters, textBlocks, locate);
     this.logger.info(
       `[ChapterConverter] Assigned ${textBlocks.length} text blocks`,
     );
 
-    // Step 6: Link resources
-    this.linkResources(
-      allChapters,
-      images,
-      tables,
-      footnotes,
-      chapterRanges,
-      pageRangeMap,
-    );
+    // Step 7: Link resources
+    this.linkResources(allChapters, images, tables, footnotes, locate);
     this.logger.info(
       `[ChapterConverter] Linked ${images.length} images, ${tables.length} tables, and ${footnotes.length} footnotes`,
     );
@@ -131,9 +186,9 @@ export class ChapterConverter {
   /**
    * Create Front Matter chapter for pre-TOC content
    */
-  private createFrontMatterChapter(): Chapter {
+  private createFrontMatterChapter(frontMatterId: string): Chapter {
     return {
-      id: ChapterConverter.FRONT_MATTER_ID,
+      id: frontMatterId,
       originTitle: ChapterConverter.FRONT_MATTER_TITLE,
       title: ChapterConverter.FRONT_MATTER_TITLE,
       pageNo: 1,
@@ -152,7 +207,11 @@ export class ChapterConverter {
    */
   private buildChapterTree(entries: TocEntry[]): Chapter[] {
     return entries.map((entry) => {
-      const chapterId = this.idGenerator.generateChapterId();
+      const chapterId = this.idGenerator.generateChapterId({
+        sourceRef: entry.sourceRefs?.[0],
+        pageNo: entry.pageNo,
+        content: TextCleaner.normalize(entry.title),
+      });
 
       const chapter: Chapter = {
         id: chapterId,
@@ -210,6 +269,7 @@ export class ChapterConverter {
   private calculatePageRanges(
     flatChapters: FlatChapter[],
     tocEntries: TocEntry[],
+    frontMatterId: string,
   ): Map<string, ChapterRange> {
     const ranges = new Map<string, ChapterRange>();
 
@@ -225,14 +285,14 @@ export class ChapterConverter {
 
     // Filter out Front Matter for sorting (it's handled separately)
     const tocChapters = flatChapters.filter(
-      (fc) => fc.chapter.id !== ChapterConverter.FRONT_MATTER_ID,
+      (fc) => fc.chapter.id !== frontMatterId,
     );
 
     // Sort by TOC page number
     const sorted = [...tocChapters].sort((a, b) => a.tocPageNo - b.tocPageNo);
 
     // Set Front Matter range (always page 1 to firstTocPage - 1)
-    ranges.set(ChapterConverter.FRONT_MATTER_ID, {
+    ranges.set(frontMatterId, {
       startPage: 1,
       endPage: firstTocPage - 1,
     });
@@ -250,6 +310,154 @@ export class ChapterConverter {
     return ranges;
   }
 
+  /**
+   * Collect Docling self references in reading order
+   *
+   * Walks the body tree depth-first, so pictures and tables are positioned
+   * among the texts around them.
+   */
+  static collectReadingOrder(doc: DoclingDocument): string[] {
+    const nodes = new Map<string, { children?: DoclingReference[] }>(
+      [...doc.texts, ...doc.pictures, ...doc.tables, ...doc.groups].map(
+        (node) => [node.self_ref, node],
+      ),
+    );
+    const order: string[] = [];
+    const visited = new Set<string>();
+
+    const visit = (children: DoclingReference[] | undefined): void => {
+      children?.forEach(({ $ref }) => {
+        if (visited.has($ref)) {
+          return;
+        }
+        visited.add($ref);
+        order.push($ref);
+        visit(nodes.get($ref)?.children);
+      });
+    };
+
+    visit(doc.body.children);
+    return order;
+  }
+
+  /**
+   * Anchor each TOC chapter to its section heading and order the starts
+   *
+   * A heading matches when it is on the chapter's start page and is one of
+   * the chapter's source references or has the same title (compared without
+   * whitespace, punctuation and case). Each heading anchors one chapter.
+   * Headings on Roman or CJK numbered pages belong to front matter and never
+   * anchor a chapter.
+   */
+  private anchorChapterStarts(
+    flatChapters: FlatChapter[],
+    textItems: DoclingTextItem[],
+    pageRangeMap: Record<number, PageRange>,
+    positions: Map<string, number>,
+    frontMatterId: string,
+  ): ChapterStart[] {
+    const headings = textItems.filter(
+      (item) =>
+        item.label === 'section_header' &&
+        !ChapterConverter.hasPictureParent(item) &&
+        positions.has(item.self_ref) &&
+        TextCleaner.isValidText(item.text) &&
+        !this.isLabeledPage(item.prov?.[0]?.page_no ?? 1, pageRangeMap),
+    );
+    const usedHeadings = new Set<DoclingTextItem>();
+
+    const starts = flatChapters
+      .filter(({ chapter }) => chapter.id !== frontMatterId)
+      .map(({ chapter, tocPageNo }): ChapterStart => {
+        const pageHeadings = headings.filter(
+          (item) =>
+            !usedHeadings.has(item) &&
+            this.pdfPageToActualPage(
+              item.prov?.[0]?.page_no ?? 1,
+              pageRangeMap,
+            ) === tocPageNo,
+        );
+        const titleKey = ChapterConverter.headingKey(chapter.title);
+        const heading =
+          pageHeadings.find((item) =>
+            chapter.sourceRefs?.includes(item.self_ref),
+          ) ??
+          pageHeadings.find(
+            (item) => ChapterConverter.headingKey(item.text) === titleKey,
+          );
+
+        if (!heading) {
+          return {
+            chapterId: chapter.id,
+            page: tocPageNo,
+            position: Number.NEGATIVE_INFINITY,
+          };
+        }
+        usedHeadings.add(heading);
+        return {
+          chapterId: chapter.id,
+          page: tocPageNo,
+          position: positions.get(heading.self_ref)!,
+        };
+      });
+
+    this.logger.info(
+      `[ChapterConverter] Anchored ${usedHeadings.size} of ${starts.length} chapters to headings`,
+    );
+
+    const frontMatter: ChapterStart = {
+      chapterId: frontMatterId,
+      page: 1,
+      position: Number.NEGATIVE_INFINITY,
+    };
+    return [frontMatter, ...starts].sort(
+      (a, b) => a.page - b.page || a.position - b.position,
+    );
+  }
+
+  /**
+   * Heading comparison key: normalized text without whitespace, punctuation
+   * and symbols, lowercased
+   */
+  private static headingKey(text: string): string {
+    return TextCleaner.normalize(text)
+      .replace(/[\s\p{P}\p{S}]/gu, '')
+      .toLowerCase();
+  }
+
+  /**
+   * Find chapter ID for an item at a page and reading-order position
+   *
+   * On pages with anchored chapters, an item with a known position belongs to
+   * the last chapter starting before it: an earlier page, the top of this
+   * page, or a heading at or before its position. Otherwise the page ranges
+   * decide.
+   */
+  private findChapter(
+    actualPageNo: number,
+    position: number,
+    chapterRanges: Map<string, ChapterRange>,
+    chapterStarts: ChapterStart[],
+  ): string | null {
+    const anchored = chapterStarts.some(
+      (start) =>
+        start.page === actualPageNo &&
+        start.position !== Number.NEGATIVE_INFINITY,
+    );
+    if (!anchored || position === Number.POSITIVE_INFINITY) {
+      return this.findChapterForPage(actualPageNo, chapterRanges);
+    }
+
+    const previous = chapterStarts.filter(
+      (start) =>
+        start.page < actualPageNo ||
+        (start.page === actualPageNo && start.position <= position),
+    );
+    return previous.length > 0
+      ? previous[previous.length - 1].chapterId
+      : this.findChapterForPage(actualPageNo, chapterRanges);
+  }
+
   /**
    * Valid labels for text blocks
    * Only these labels are included in chapter text blocks
@@ -287,18 +495,37 @@ export class ChapterConverter {
       )
       .map((item) => {
         const pdfPageNo = item.prov?.[0]?.page_no ?? 1;
+        const text = TextCleaner.normalize(item.text);
         return {
-          id: this.idGenerator.generateTextBlockId(),
+          id: this.idGenerator.generateTextBlockId({
+            sourceRef: item.self_ref,
+            pageNo: pdfPageNo,
+            content: text,
+          }),
           sourceRef: item.self_ref,
-          text: TextCleaner.normalize(item.text),
+          text,
           pdfPageNo,
         };
       });
   }
 
+  /**
+   * Whether a PDF page is numbered with Roman or CJK numerals
+   *
+   * Such pages are front matter; their ordinals restart at 1 and are never
+   * compared with the Arabic TOC page numbers.
+   */
+  private isLabeledPage(
+    pdfPageNo: number,
+    pageRangeMap: Record<number, PageRange>,
+  ): boolean {
+    return isLabeledPageRange(pageRangeMap[pdfPageNo]);
+  }
+
   /**
    * Convert PDF page number to actual document page number
-   * Falls back to pdfPageNo if mapping is missing
+   * Falls back to pdfPageNo if mapping is missing. Only meaningful for
+   * Arabic pages; see isLabeledPage.
    */
   private pdfPageToActualPage(
     pdfPageNo: number,
@@ -339,23 +566,18 @@ export class ChapterConverter {
   }
 
   /**
-   * Assign text blocks to chapters based on page ranges
+   * Assign text blocks to chapters based on page ranges and anchors
    */
   private assignTextBlocks(
     chapters: Chapter[],
     textBlocks: TextBlock[],
-    chapterRanges: Map<string, ChapterRange>,
-    pageRangeMap: Record<number, PageRange>,
+    locate: ChapterLocator,
   ): void {
     // Build chapter map for O(1) lookup
     const chapterMap = this.buildChapterMap(chapters);
 
     textBlocks.forEach((textBlock) => {
-      const actualPageNo = this.pdfPageToActualPage(
-        textBlock.pdfPageNo,
-        pageRangeMap,
-      );
-      const chapterId = this.findChapterForPage(actualPageNo, chapterRanges);
+      const chapterId = locate(textBlock.pdfPageNo, textBlock.sourceRef);
 
       if (chapterId && chapterMap.has(chapterId)) {
         chapterMap.get(chapterId)!.textBlocks.push(textBlock);
@@ -364,26 +586,22 @@ export class ChapterConverter {
   }
 
   /**
-   * Link images, tables, and footnotes to chapters based on page ranges
+   * Link images, tables, and footnotes to chapters based on page ranges and
+   * anchors
    */
   private linkResources(
     chapters: Chapter[],
     images: ProcessedImage[],
     tables: ProcessedTable[],
     footnotes: ProcessedFootnote[],
-    chapterRanges: Map<string, ChapterRange>,
-    pageRangeMap: Record<number, PageRange>,
+    locate: ChapterLocator,
   ): void {
     // Build chapter map for O(1) lookup
     const chapterMap = this.buildChapterMap(chapters);
 
     // Link images
     images.forEach((image) => {
-      const actualPageNo = this.pdfPageToActualPage(
-        image.pdfPageNo,
-        pageRangeMap,
-      );
-      const chapterId = this.findChapterForPage(actualPageNo, chapterRanges);
+      const chapterId = locate(image.pdfPageNo, image.sourceRef);
 
       if (chapterId && chapterMap.has(chapterId)) {
         chapterMap.get(chapterId)!.imageIds.push(image.id);
@@ -392,11 +610,7 @@ export class ChapterConverter {
 
     // Link tables
     tables.forEach((table) => {
-      const actualPageNo = this.pdfPageToActualPage(
-        table.pdfPageNo,
-        pageRangeMap,
-      );
-      const chapterId = this.findChapterForPage(actualPageNo, chapterRanges);
+      const chapterId = locate(table.pdfPageNo, table.sourceRef);
 
       if (chapterId && chapterMap.has(chapterId)) {
         chapterMap.get(chapterId)!.tableIds.push(table.id);
@@ -405,11 +619,7 @@ export class ChapterConverter {
 
     // Link footnotes
     footnotes.forEach((footnote) => {
-      const actualPageNo = this.pdfPageToActualPage(
-        footnote.pdfPageNo,
-        pageRangeMap,
-      );
-      const chapterId = this.findChapterForPage(actualPageNo, chapterRanges);
+      const chapterId = locate(footnote.pdfPageNo, footnote.sourceRef);
 
       if (chapterId && chapterMap.has(chapterId)) {
         chapterMap.get(chapterId)!.footnoteIds.push(footnote.id);
@@ -0,0 +1,322 @@
+import type { LoggerMethods } from '@heripo/logger';
+import type {
+  Chapter,
+  ProcessedImage,
+  ProcessedTable,
+  TextBlock,
+} from '@heripo/model';
+
+import { beforeEach, describe, expect, test, vi } from 'vitest';
+
+import { CrossReferenceResolver } from './cross-reference-resolver';
+
+describe('CrossReferenceResolver', () => {
+  let mockLogger: LoggerMethods;
+  let resolver: CrossReferenceResolver;
+
+  beforeEach(() => {
+    mockLogger = {
+      info: vi.fn(),
+      warn: vi.fn(),
+      error: vi.fn(),
+      debug: vi.fn(),
+    };
+    resolver = new CrossReferenceResolver(mockLogger);
+  });
+
+  const createImage = (id: string, num?: string): ProcessedImage => ({
+    id,
+    pdfPageNo: 1,
+    path: `/images/${id}.png`,
+    ...(num !== undefined ? { caption: { num, fullText: `${num} 전경` } } : {}),
+  });
+
+  const createTable = (id: string, num?: string): ProcessedTable => ({
+    id,
+    pdfPageNo: 1,
+    numRows: 0,
+    numCols: 0,
+    grid: [],
+    ...(num !== undefined ? { caption: { num, fullText: `${num} 목록` } } : {}),
+  });
+
+  const createChapter = (texts: string[], children?: Chapter[]): Chapter => ({
+    id: 'ch-001',
+    originTitle: 'Chapter',
+    title: 'Chapter',
+    pageNo: 1,
+    level: 1,
+    textBlocks: texts.map((text, i) => ({
+      id: `txt-00${i + 1}`,
+      text,
+      pdfPageNo: 5,
+    })),
+    imageIds: [],
+    tableIds: [],
+    footnoteIds: [],
+    ...(children ? { children } : {}),
+  });
+
+  /** Linked IDs of each mention in a text block */
+  const linkedIds = (block: TextBlock) =>
+    block.references?.map(({ text, imageIds, tableIds }) => ({
+      text,
+      ids: [...imageIds, ...tableIds],
+    }));
+
+  const images = [
+    createImage('img-001', '도면 12'),
+    createImage('img-002', '사진 3'),
+    createImage('img-003', '사진 4'),
+    createImage('img-004', '사진 5'),
+  ];
+  const tables = [createTable('tbl-001', '표 4')];
+
+  test('links Korean mentions with spans', () => {
+    const chapter = createChapter([
+      '유구 평면(도면 12)은 사진 3~5와 표 4 참조.',
+    ]);
+
+    const report = resolver.resolve([chapter], images, tables);
+
+    expect(chapter.textBlocks[0].references).toEqual([
+      {
+        start: 6,
+        end: 11,
+        text: '도면 12',
+        imageIds: ['img-001'],
+        tableIds: [],
+      },
+      {
+        start: 14,
+        end: 20,
+        text: '사진 3~5',
+        imageIds: ['img-002', 'img-003', 'img-004'],
+        tableIds: [],
+      },
+      { start: 22, end: 25, text: '표 4', imageIds: [], tableIds: ['tbl-001'] },
+    ]);
+    expect(report).toEqual({
+      linkedCount: 3,
+      danglingReferences: [],
+      uncitedImageIds: [],
+      uncitedTableIds: [],
+    });
+    expect(mockLogger.info).toHaveBeenCalledWith(
+      '[CrossReferenceResolver] Linked 3 mentions, 0 dangling, 0 uncited images, 0 uncited tables',
+    );
+    expect(mockLogger.warn).not.toHaveBeenCalled();
+  });
+
+  test('expands lists and hyphenated ranges', () => {
+    const chapter = createChapter([
+      '사진 3, 5 및 4',
+      '사진 3·4',
+      '사진 3-5',
+      '사진 3 - 4',
+      '사진 03',
+    ]);
+
+    resolver.resolve([chapter], images, []);
+
+    expect(chapter.textBlocks.map(linkedIds)).toEqual([
+      [{ text: '사진 3, 5 및 4', ids: ['img-002', 'img-004', 'img-003'] }],
+      [{ text: '사진 3·4', ids: ['img-002', 'img-003'] }],
+      [{ text: '사진 3-5', ids: ['img-002', 'img-003', 'img-004'] }],
+      [{ text: '사진 3 - 4', ids: ['img-002', 'img-003'] }],
+      [{ text: '사진 03', ids: ['img-002'] }],
+    ]);
+  });
+
+  test('keeps hyphenated numbers when captions use them', () => {
+    const hierarchical = [
+      createImage('img-001', '도면 3-1'),
+      createImage('img-002', '도면 3-2'),
+      createImage('img-003', '도면 3-3'),
+      createImage('img-004', '도면 4'),
+    ];
+    const chapter = createChapter([
+      '도면 3-2',
+      '도면 3-1~3',
+      '도면 3-2~3-3',
+      '도면 3-1~4-2',
+    ]);
+
+    const report = resolver.resolve([chapter], hierarchical, []);
+
+    expect(chapter.textBlocks.map(linkedIds)).toEqual([
+      [{ text: '도면 3-2', ids: ['img-002'] }],
+      [{ text: '도면 3-1~3', ids: ['img-001', 'img-002', 'img-003'] }],
+      [{ text: '도면 3-2~3-3', ids: ['img-002', 'img-003'] }],
+      [{ text: '도면 3-1~4-2', ids: ['img-001'] }],
+    ]);
+    expect(report.danglingReferences.map(({ num }) => num)).toEqual([
+      '도면 4-2',
+    ]);
+    expect(report.uncitedImageIds).toEqual(['img-004']);
+  });
+
+  test('keeps endpoints of ranges that cannot be expanded', () => {
+    const chapter = createChapter(['사진 5~3', '사진 3~300']);
+
+    const report = resolver.resolve([chapter], images, []);
+
+    expect(chapter.textBlocks.map(linkedIds)).toEqual([
+      [{ text: '사진 5~3', ids: ['img-004', 'img-002'] }],
+      [{ text: '사진 3~300', ids: ['img-002'] }],
+    ]);
+    expect(report.danglingReferences).toHaveLength(1);
+  });
+
+  test('links English abbreviations, plurals and lists', () => {
+    const chapter = createChapter([
+      'As shown in Fig. 2 and Figs. 2 and 3, see also Tables 1–2.',
+      'The figure 2 and TABLE 1.',
+    ]);
+
+    const report = resolver.resolve(
+      [chapter],
+      [createImage('img-001', 'Figure 2'), createImage('img-002', 'Fig.4')],
+      [createTable('tbl-001', 'Table 1'), createTable('tbl-002', 'Tab. 2')],
+    );
+
+    expect(chapter.textBlocks.map(linkedIds)).toEqual([
+      [
+        { text: 'Fig. 2', ids: ['img-001'] },
+        { text: 'Figs. 2 and 3', ids: ['img-001'] },
+        { text: 'Tables 1–2', ids: ['tbl-001', 'tbl-002'] },
+      ],
+      [
+        { text: 'figure 2', ids: ['img-001'] },
+        { text: 'TABLE 1', ids: ['tbl-001'] },
+      ],
+    ]);
+    expect(report.danglingReferences).toEqual([
+      {
+        chapterId: 'ch-001',
+        textBlockId: 'txt-001',
+        pdfPageNo: 5,
+        text: 'Figs. 2 and 3',
+        num: 'Figs. 3',
+      },
+    ]);
+    expect(report.uncitedImageIds).toEqual(['img-002']);
+  });
+
+  test('links Japanese and Chinese prefixes', () => {
+    const chapter = createChapter(['圖 3 과 写真 1', '表 2']);
+
+    resolver.resolve(
+      [chapter],
+      [createImage('img-001', '図 3'), createImage('img-002', '写真 1')],
+      [createTable('tbl-001', '表 2')],
+    );
+
+    expect(chapter.textBlocks.map(linkedIds)).toEqual([
+      [
+        { text: '圖 3', ids: ['img-001'] },
+        { text: '写真 1', ids: ['img-002'] },
+      ],
+      [{ text: '表 2', ids: ['tbl-001'] }],
+    ]);
+  });
+
+  test('reports dangling mentions and uncited resources', () => {
+    const child = createChapter(['삽도 1 참조']);
+    child.id = 'ch-002';
+    delete child.textBlocks[0].id;
+    const chapter = createChapter(['도면 12~13', '표 9'], [child]);
+
+    const report = resolver.resolve([chapter], images, tables);
+
+    expect(chapter.textBlocks[0].references).toEqual([
+      {
+        start: 0,
+        end: 8,
+        text: '도면 12~13',
+        imageIds: ['img-001'],
+        tableIds: [],
+      },
+    ]);
+    expect(chapter.textBlocks[1].references).toBeUndefined();
+    expect(report).toEqual({
+      linkedCount: 1,
+      danglingReferences: [
+        {
+          chapterId: 'ch-001',
+          textBlockId: 'txt-001',
+          pdfPageNo: 5,
+          text: '도면 12~13',
+          num: '도면 13',
+        },
+        {
+          chapterId: 'ch-001',
+          textBlockId: 'txt-002',
+          pdfPageNo: 5,
+          text: '표 9',
+          num: '표 9',
+        },
+        { chapterId: 'ch-002', pdfPageNo: 5, text: '삽도 1', num: '삽도 1' },
+      ],
+      uncitedImageIds: ['img-002', 'img-003', 'img-004'],
+      uncitedTableIds: ['tbl-001'],
+    });
+    expect(mockLogger.warn).toHaveBeenCalledWith(
+      '[CrossReferenceResolver] Mentions without a matching caption: 도면 13 (PDF 5), 표 9 (PDF 5), 삽도 1 (PDF 5)',
+    );
+  });
+
+  test('ignores words ending in a prefix and years in lists', () => {
+    const chapter = createChapter(['지표 4에서 출토', '사진 3, 2005년 촬영']);
+
+    resolver.resolve([chapter], images, tables);
+
+    expect(chapter.textBlocks.map(linkedIds)).toEqual([
+      undefined,
+      [{ text: '사진 3', ids: ['img-002'] }],
+    ]);
+  });
+
+  test('links every resource sharing a caption number once', () => {
+    const chapter = createChapter(['사진 1, 1']);
+
+    resolver.resolve(
+      [chapter],
+      [createImage('img-001', '사진 1'), createImage('img-002', '사진 1')],
+      [],
+    );
+
+    expect(linkedIds(chapter.textBlocks[0])).toEqual([
+      { text: '사진 1, 1', ids: ['img-001', 'img-002'] },
+    ]);
+  });
+
+  test('skips captions without a prefixed number', () => {
+    const chapter = createChapter(['사진 1']);
+
+    const report = resolver.resolve(
+      [chapter],
+      [
+        createImage('img-001'),
+        createImage('img-002', '12'),
+        createImage('img-003', '유적 전경'),
+      ],
+      [],
+    );
+
+    expect(report).toEqual({
+      linkedCount: 0,
+      danglingReferences: [
+        {
+          chapterId: 'ch-001',
+          textBlockId: 'txt-001',
+          pdfPageNo: 5,
+          text: '사진 1',
+          num: '사진 1',
+        },
+      ],
+      uncitedImageIds: [],
+      uncitedTableIds: [],
+    });
+  });
+});
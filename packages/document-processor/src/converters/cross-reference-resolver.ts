@@ -0,0 +1,291 @@
+import type { LoggerMethods } from '@heripo/logger';
+import type {
+  Caption,
+  Chapter,
+  CrossReferenceReport,
+  DanglingReference,
+  ProcessedImage,
+  ProcessedTable,
+  TextBlock,
+  TextBlockReference,
+} from '@heripo/model';
+
+import type { CaptionTargetType } from '../utils';
+
+import {
+  CAPTION_PREFIXES,
+  CAPTION_PREFIX_ALIASES,
+  canonicalCaptionPrefix,
+  captionPrefixAlternation,
+  normalizeCaptionNum,
+  parseCaptionNum,
+} from '../utils';
+
+/**
+ * Numbers in mentions are at most three digits so that years ("도면 3, 2005년")
+ * never join a list
+ */
+const MENTION_NUM = '\\d{1,3}(?:[-.]\\d{1,3})*(?![\\d])';
+const RANGE_SEPARATOR = '[~∼～〜–—]';
+const LIST_SEPARATOR = '[,、·ㆍ・&]|및|과|와|또는|and|or';
+const RANGE_SPLIT = new RegExp(`\\s*${RANGE_SEPARATOR}\\s*`);
+const LIST_SPLIT = new RegExp(`\\s*(?:${LIST_SEPARATOR})\\s*`, 'i');
+
+/**
+ * Longest range expanded into individual numbers ("사진 1~300" is kept as
+ * its two endpoints)
+ */
+const MAX_RANGE_LENGTH = 100;
+
+interface ResourceEntry {
+  type: CaptionTargetType;
+  id: string;
+}
+
+/**
+ * CrossReferenceResolver
+ *
+ * Links in-text figure and table mentions such as "(도면 12)", "사진 3~5" or
+ * "표 4 참조" to the images and tables whose caption carries the same prefix
+ * and number. Rule-based: no LLM calls.
+ *
+ * ## Mentions
+ *
+ * - Prefixes come from the parsed caption numbers (`Caption.num`) and a
+ *   default set in Korean, English, Japanese and Chinese. Abbreviations and
+ *   plurals ("Fig.", "Figs.", "Tab.") map to their full prefix
+ * - Ranges ("3~5", "3-2~5") and lists ("3, 5", "3·5", "3 및 5") are expanded.
+ *   "3-5" is a range only when no caption with that prefix uses hyphenated
+ *   numbers
+ * - Each mention becomes one `TextBlockReference` spanning the printed text
+ *
+ * ## Report
+ *
+ * Numbers without a matching caption are reported as dangling references,
+ * and numbered images and tables that are never mentioned as uncited.
+ */
+export class CrossReferenceResolver {
+  private readonly logger: LoggerMethods;
+
+  constructor(logger: LoggerMethods) {
+    this.logger = logger;
+  }
+
+  /**
+   * Link mentions in the text blocks of the chapters and their children
+   *
+   * Text blocks are updated in place: `references` is set on blocks with at
+   * least one linked mention.
+   */
+  resolve(
+    chapters: Chapter[],
+    images: ProcessedImage[],
+    tables: ProcessedTable[],
+  ): CrossReferenceReport {
+    this.logger.info('[CrossReferenceResolver] Resolving cross-references...');
+
+    // Prefixes as they may be printed in the text
+    const surfaces = new Set<string>([
+      ...CAPTION_PREFIXES.image,
+      ...CAPTION_PREFIXES.table,
+      ...Object.keys(CAPTION_PREFIX_ALIASES),
+    ]);
+
+    const resources = new Map<string, ResourceEntry[]>();
+    const hierarchicalPrefixes = new Set<string>();
+    const numberedIds: Record<CaptionTargetType, string[]> = {
+      image: [],
+      table: [],
+    };
+    const addResource = (
+      type: CaptionTargetType,
+      id: string,
+      caption: Caption | undefined,
+    ): void => {
+      const parsed = parseCaptionNum(caption?.num);
+      if (!parsed) {
+        return;
+      }
+      const prefix = canonicalCaptionPrefix(parsed.prefix);
+      surfaces.add(parsed.prefix.replace(/\.$/, ''));
+      if (parsed.num.includes('-')) {
+        hierarchicalPrefixes.add(prefix);
+      }
+      const key = `${prefix}|${parsed.num}`;
+      resources.set(key, [...(resources.get(key) ?? []), { type, id }]);
+      numberedIds[type].push(id);
+    };
+    images.forEach((image) => addResource('image', image.id, image.caption));
+    tables.forEach((table) => addResource('table', table.id, table.caption));
+    const mentionPattern = CrossReferenceResolver.buildMentionPattern([
+      ...surfaces,
+    ]);
+
+    const citedIds = new Set<string>();
+    const danglingReferences: DanglingReference[] = [];
+    let linkedCount = 0;
+
+    const visit = (chapter: Chapter): void => {
+      for (const block of chapter.textBlocks) {
+        const references: TextBlockReference[] = [];
+
+        for (const match of block.text.matchAll(mentionPattern)) {
+          const [text, surface, numbers] = match;
+          const prefix = canonicalCaptionPrefix(surface);
+          const reference: TextBlockReference = {
+            start: match.index,
+            end: match.index + text.length,
+            text,
+            imageIds: [],
+            tableIds: [],
+          };
+
+          for (const num of this.expandNumbers(
+            numbers,
+            prefix,
+            hierarchicalPrefixes,
+            resources,
+          )) {
+            const entries = resources.get(`${prefix}|${num}`);
+            if (!entries) {
+              danglingReferences.push(
+                this.createDanglingReference(
+                  chapter,
+                  block,
+                  text,
+                  surface,
+                  num,
+                ),
+              );
+              continue;
+            }
+            for (const entry of entries) {
+              const ids =
+                entry.type === 'image'
+                  ? reference.imageIds
+                  : reference.tableIds;
+              if (!ids.includes(entry.id)) {
+                ids.push(entry.id);
+              }
+              citedIds.add(entry.id);
+            }
+          }
+
+          if (reference.imageIds.length + reference.tableIds.length > 0) {
+            references.push(reference);
+          }
+        }
+
+        if (references.length > 0) {
+          block.references = references;
+          linkedCount += references.length;
+        }
+      }
+      chapter.children?.forEach(visit);
+    };
+    chapters.forEach(visit);
+
+    const report: CrossReferenceReport = {
+      linkedCount,
+      danglingReferences,
+      uncitedImageIds: numberedIds.image.filter((id) => !citedIds.has(id)),
+      uncitedTableIds: numberedIds.table.filter((id) => !citedIds.has(id)),
+    };
+
+    this.logger.info(
+      `[CrossReferenceResolver] Linked ${linkedCount} mentions, ${danglingReferences.length} dangling, ${report.uncitedImageIds.length} uncited images, ${report.uncitedTableIds.length} uncited tables`,
+    );
+    if (danglingReferences.length > 0) {
+      this.logger.warn(
+        `[CrossReferenceResolver] Mentions without a matching caption: ${danglingReferences.map((ref) => `${ref.num} (PDF ${ref.pdfPageNo})`).join(', ')}`,
+      );
+    }
+
+    return report;
+  }
+
+  /**
+   * Expand the number list of a mention into individual caption numbers
+   */
+  private expandNumbers(
+    numbers: string,
+    prefix: string,
+    hierarchicalPrefixes: Set<string>,
+    resources: Map<string, ResourceEntry[]>,
+  ): string[] {
+    return numbers.split(LIST_SPLIT).flatMap((part) => {
+      const bounds = part.split(RANGE_SPLIT);
+      if (bounds.length === 2) {
+        return CrossReferenceResolver.expandRange(
+          normalizeCaptionNum(bounds[0]),
+          normalizeCaptionNum(bounds[1]),
+        );
+      }
+
+      const num = normalizeCaptionNum(part);
+      const hyphenated = num.match(/^(\d+)-(\d+)$/);
+      if (
+        hyphenated &&
+        !hierarchicalPrefixes.has(prefix) &&
+        !resources.has(`${prefix}|${num}`)
+      ) {
+        return CrossReferenceResolver.expandRange(hyphenated[1], hyphenated[2]);
+      }
+      return [num];
+    });
+  }
+
+  private createDanglingReference(
+    chapter: Chapter,
+    block: TextBlock,
+    text: string,
+    surface: string,
+    num: string,
+  ): DanglingReference {
+    return {
+      chapterId: chapter.id,
+      ...(block.id !== undefined ? { textBlockId: block.id } : {}),
+      pdfPageNo: block.pdfPageNo,
+      text,
+      num: `${surface} ${num}`,
+    };
+  }
+
+  /**
+   * Expand "3~5" into 3, 4, 5 and "3-2~5" into 3-2, 3-3, 3-4, 3-5
+   *
+   * Ranges that cannot be expanded (different heads, descending, too long)
+   * keep their two endpoints.
+   */
+  private static expandRange(start: string, end: string): string[] {
+    const startParts = start.split('-');
+    const endParts = end.split('-');
+    const head = startParts.slice(0, -1);
+    const sameHead =
+      endParts.length === 1 ||
+      endParts.slice(0, -1).join('-') === head.join('-');
+    const first = Number(startParts[startParts.length - 1]);
+    const last = Number(endParts[endParts.length - 1]);
+
+    if (!sameHead || last <= first || last - first >= MAX_RANGE_LENGTH) {
+      return [start, end];
+    }
+
+    return Array.from({ length: last - first + 1 }, (_, i) =>
+      [...head, String(first + i)].join('-'),
+    );
+  }
+
+  /**
+   * Build the pattern matching a prefix followed by numbers, ranges and
+   * lists. Group 1 is the prefix as printed, group 2 the numbers.
+   */
+  private static buildMentionPattern(surfaces: string[]): RegExp {
+    const separator = `(?:${RANGE_SEPARATOR}|-|${LIST_SEPARATOR})`;
+
+    return new RegExp(
+      `(?<![\\p{L}\\p{N}])(${captionPrefixAlternation(surfaces)})\\s*(${MENTION_NUM}(?:\\s*${separator}\\s*${MENTION_NUM})*)`,
+      'giu',
+    );
+  }
+}
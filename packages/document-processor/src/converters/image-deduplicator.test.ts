@@ -0,0 +1,221 @@
+import type { LoggerMethods } from '@heripo/logger';
+import type { Caption, ProcessedImage } from '@heripo/model';
+
+import { spawnAsync } from '@heripo/shared';
+import * as path from 'node:path';
+import { beforeEach, describe, expect, test, vi } from 'vitest';
+
+import { ImageDeduplicator } from './image-deduplicator';
+
+vi.mock('@heripo/shared', () => ({
+  spawnAsync: vi.fn(),
+}));
+
+const mockSpawnAsync = vi.mocked(spawnAsync);
+
+/**
+ * Plain PGM of a 9x8 sample whose difference hash is `hash`: each set bit
+ * steps down to the right, each clear bit steps up
+ */
+function pgmForHash(hash: string): string {
+  const bits = [...hash].flatMap((digit) =>
+    parseInt(digit, 16).toString(2).padStart(4, '0').split('').map(Number),
+  );
+  const values: number[] = [];
+  for (let y = 0; y < 8; y++) {
+    let value = 128;
+    values.push(value);
+    for (let x = 0; x < 8; x++) {
+      value += bits[y * 8 + x] ? -10 : 10;
+      values.push(value);
+    }
+  }
+  return `P2\n9 8\n255\n${values.join(' ')}\n`;
+}
+
+const LOGO = 'ffff0000ffff0000';
+const MAP = '0f0f0f0f0f0f0f0f';
+// Two bits away from MAP
+const MAP_RESCALED = '0f0f0f0f0f0f0f0c';
+const PHOTO = 'a5a5a5a55a5a5a5a';
+const SCALE_BAR = '00000000ffffffff';
+
+describe('ImageDeduplicator', () => {
+  let mockLogger: LoggerMethods;
+  let deduplicator: ImageDeduplicator;
+
+  /** Answer each image path with a sample of the given hash */
+  const mockHashes = (hashes: Record<string, string>) => {
+    mockSpawnAsync.mockImplementation(async (_command, args) => {
+      const hash = hashes[args[0]];
+      return hash
+        ? { stdout: pgmForHash(hash), stderr: '', code: 0 }
+        : { stdout: '', stderr: 'unable to open image', code: 1 };
+    });
+  };
+
+  const createImage = (
+    id: string,
+    pdfPageNo: number,
+    caption?: Caption,
+  ): ProcessedImage => ({
+    id,
+    pdfPageNo,
+    path: `/images/${id}.png`,
+    ...(caption ? { caption } : {}),
+  });
+
+  beforeEach(() => {
+    mockSpawnAsync.mockReset();
+    mockLogger = {
+      info: vi.fn(),
+      warn: vi.fn(),
+      error: vi.fn(),
+      debug: vi.fn(),
+    };
+    deduplicator = new ImageDeduplicator(mockLogger);
+  });
+
+  test('marks canonical images, repeats and decorative clusters', async () => {
+    mockHashes({
+      '/images/img-001.png': LOGO,
+      '/images/img-002.png': MAP,
+      '/images/img-003.png': PHOTO,
+      '/images/img-004.png': LOGO,
+      '/images/img-005.png': MAP_RESCALED,
+      '/images/img-006.png': LOGO,
+      '/images/img-007.png': SCALE_BAR,
+      '/images/img-008.png': SCALE_BAR,
+    });
+    const images = [
+      createImage('img-001', 1),
+      createImage('img-002', 2),
+      createImage('img-003', 2, { num: '사진 1', fullText: '사진 1 전경' }),
+      createImage('img-004', 3),
+      createImage('img-005', 4, { num: '도면 2', fullText: '도면 2 위치도' }),
+      createImage('img-006', 5),
+      createImage('img-007', 6),
+      createImage('img-008', 7),
+    ];
+
+    await deduplicator.deduplicate(images);
+
+    expect(mockSpawnAsync).toHaveBeenCalledWith('magick', [
+      '/images/img-001.png',
+      '-resize',
+      '9x8!',
+      '-colorspace',
+      'Gray',
+      '-depth',
+      '8',
+      '-compress',
+      'none',
+      'pgm:-',
+    ]);
+    const [logo, map, photo, logo2, map2, logo3, bar, bar2] = images;
+    // Logo on three pages without a caption
+    expect(logo).toEqual({
+      ...createImage('img-001', 1),
+      perceptualHash: LOGO,
+      duplicateIds: ['img-004', 'img-006'],
+      isDecorative: true,
+    });
+    expect(logo2).toMatchObject({ duplicateOf: 'img-001', isDecorative: true });
+    expect(logo3).toMatchObject({ duplicateOf: 'img-001', isDecorative: true });
+    // The captioned copy of the location map is canonical
+    expect(map2).toMatchObject({
+      perceptualHash: MAP_RESCALED,
+      duplicateIds: ['img-002'],
+    });
+    expect(map).toMatchObject({ duplicateOf: 'img-005' });
+    expect(map).not.toHaveProperty('isDecorative');
+    expect(photo).toEqual({
+      ...createImage('img-003', 2, { num: '사진 1', fullText: '사진 1 전경' }),
+      perceptualHash: PHOTO,
+    });
+    // Repeated on two pages only
+    expect(bar).toMatchObject({ duplicateIds: ['img-008'] });
+    expect(bar2).toMatchObject({ duplicateOf: 'img-007' });
+    expect(bar2).not.toHaveProperty('isDecorative');
+    expect(mockLogger.info).toHaveBeenCalledWith(
+      '[ImageDeduplicator] Hashed 8 of 8 images: 4 repeats, 3 decorative',
+    );
+  });
+
+  test('keeps chained line drawings that drift apart in separate clusters', async () => {
+    // Each section drawing is 4 bits from the previous one
+    mockHashes({
+      '/images/img-001.png': '0000000000000000',
+      '/images/img-002.png': '000000000000000f',
+      '/images/img-003.png': '00000000000000ff',
+      '/images/img-004.png': '0000000000000fff',
+      '/images/img-005.png': '000000000000ffff',
+    });
+    const images = [
+      createImage('img-001', 1, { num: '도면 1', fullText: '도면 1 단면도' }),
+      createImage('img-002', 2),
+      createImage('img-003', 3),
+      createImage('img-004', 4),
+      createImage('img-005', 5),
+    ];
+
+    await new ImageDeduplicator(mockLogger, { maxDistance: 4 }).deduplicate(
+      images,
+    );
+
+    // img-003 is near img-002 but 8 bits from img-001
+    expect(images[0].duplicateIds).toEqual(['img-002']);
+    expect(images[1].duplicateOf).toBe('img-001');
+    expect(images[2].duplicateIds).toEqual(['img-004']);
+    expect(images[3].duplicateOf).toBe('img-003');
+    expect(images[4]).not.toHaveProperty('duplicateOf');
+    expect(images[4]).not.toHaveProperty('duplicateIds');
+  });
+
+  test('applies the distance and page thresholds', async () => {
+    mockHashes({
+      '/images/img-001.png': MAP,
+      '/images/img-002.png': MAP_RESCALED,
+      '/images/img-003.png': SCALE_BAR,
+      '/images/img-004.png': SCALE_BAR,
+    });
+    const images = [
+      createImage('img-001', 1),
+      createImage('img-002', 2),
+      createImage('img-003', 3),
+      createImage('img-004', 4),
+    ];
+
+    await new ImageDeduplicator(mockLogger, {
+      maxDistance: 1,
+      minDecorativePages: 2,
+    }).deduplicate(images);
+
+    expect(images[0]).not.toHaveProperty('duplicateIds');
+    expect(images[1]).not.toHaveProperty('duplicateOf');
+    expect(images[2]).toMatchObject({ isDecorative: true });
+    expect(images[3]).toMatchObject({
+      duplicateOf: 'img-003',
+      isDecorative: true,
+    });
+  });
+
+  test('skips images that cannot be read', async () => {
+    mockHashes({ [path.resolve('images/img-002.png')]: LOGO });
+    const images = [
+      createImage('img-001', 1),
+      { ...createImage('img-002', 2), path: 'images/img-002.png' },
+    ];
+
+    await deduplicator.deduplicate(images);
+
+    expect(images[0]).not.toHaveProperty('perceptualHash');
+    expect(images[1]).toMatchObject({ perceptualHash: LOGO });
+    expect(mockLogger.warn).toHaveBeenCalledWith(
+      '[ImageDeduplicator] Failed to hash /images/img-001.png: unable to open image',
+    );
+    expect(mockLogger.info).toHaveBeenCalledWith(
+      '[ImageDeduplicator] Hashed 1 of 2 images: 0 repeats, 0 decorative',
+    );
+  });
+});
@@ -0,0 +1,148 @@
+import type { LoggerMethods } from '@heripo/logger';
+import type { ProcessedImage } from '@heripo/model';
+
+import {
+  DIFFERENCE_HASH_SAMPLE,
+  differenceHash,
+  hammingDistance,
+  readGraySample,
+  resolveImagePath,
+} from '../utils';
+
+/**
+ * Options for ImageDeduplicator
+ */
+export interface ImageDeduplicatorOptions {
+  /**
+   * Maximum number of differing hash bits (of 64) between near-duplicate
+   * images (default: 6)
+   */
+  maxDistance?: number;
+
+  /**
+   * Minimum number of PDF pages an uncaptioned cluster must span to be
+   * decorative (default: 3)
+   */
+  minDecorativePages?: number;
+}
+
+/**
+ * ImageDeduplicator
+ *
+ * Clusters near-duplicate images across a document by perceptual hash, so
+ * that institution logos, scale bars, repeated location maps and decorative
+ * headers can be kept out of figure datasets. Rule-based: no LLM calls.
+ *
+ * ## Clustering
+ *
+ * 1. Each image gets a 64-bit difference hash (`perceptualHash`) of a 9x8
+ *    grayscale sample read with ImageMagick. Images that cannot be read are
+ *    left out.
+ * 2. Images whose hashes all differ pairwise in at most `maxDistance` bits
+ *    form one cluster (complete linkage); in document order, each image
+ *    joins the first cluster it is close to every image of.
+ * 3. The first captioned image of a cluster (else its first image) is
+ *    canonical and lists the others in `duplicateIds`; the others point to
+ *    it with `duplicateOf`.
+ * 4. A cluster without captions spanning `minDecorativePages` or more PDF
+ *    pages is decorative: all its images get `isDecorative`.
+ *
+ * Images are updated in place.
+ */
+export class ImageDeduplicator {
+  private readonly logger: LoggerMethods;
+  private readonly maxDistance: number;
+  private readonly minDecorativePages: number;
+
+  constructor(logger: LoggerMethods, options: ImageDeduplicatorOptions = {}) {
+    this.logger = logger;
+    this.maxDistance = options.maxDistance ?? 6;
+    this.minDecorativePages = options.minDecorativePages ?? 3;
+  }
+
+  /**
+   * Hash images and mark near-duplicates and decorative images
+   *
+   * @param images - Converted images in document order, updated in place
+   */
+  async deduplicate(images: ProcessedImage[]): Promise<void> {
+    const hashed: ProcessedImage[] = [];
+    for (const image of images) {
+      const imagePath = resolveImagePath(image.path);
+      const sample = await readGraySample(
+        imagePath,
+        DIFFERENCE_HASH_SAMPLE.width,
+        DIFFERENCE_HASH_SAMPLE.height,
+      );
+      if (typeof sample === 'string') {
+        this.logger.warn(
+          `[ImageDeduplicator] Failed to hash ${imagePath}: ${sample}`,
+        );
+        continue;
+      }
+      image.perceptualHash = differenceHash(sample);
+      hashed.push(image);
+    }
+
+    let repeatCount = 0;
+    let decorativeCount = 0;
+    for (const cluster of this.cluster(hashed)) {
+      if (cluster.length < 2) {
+        continue;
+      }
+
+      const canonical =
+        cluster.find((image) => image.caption !== undefined) ?? cluster[0];
+      const repeats = cluster.filter((image) => image !== canonical);
+      canonical.duplicateIds = repeats.map((image) => image.id);
+      for (const image of repeats) {
+        image.duplicateOf = canonical.id;
+      }
+      repeatCount += repeats.length;
+
+      const pageCount = new Set(cluster.map((image) => image.pdfPageNo)).size;
+      if (
+        pageCount >= this.minDecorativePages &&
+        cluster.every((image) => image.caption === undefined)
+      ) {
+        for (const image of cluster) {
+          image.isDecorative = true;
+        }
+        decorativeCount += cluster.length;
+      }
+    }
+
+    this.logger.info(
+      `[ImageDeduplicator] Hashed ${hashed.length} of ${images.length} images: ${repeatCount} repeats, ${decorativeCount} decorative`,
+    );
+  }
+
+  /**
+   * Group images whose hashes are all within `maxDistance` of each other
+   * (complete linkage)
+   *
+   * Each image joins the first cluster whose every image is within
+   * `maxDistance`, so a chain of slightly different drawings cannot merge
+   * images that are far apart.
+   *
+   * @returns Clusters in order of their first image, images in document order
+   */
+  private cluster(images: ProcessedImage[]): ProcessedImage[][] {
+    const clusters: ProcessedImage[][] = [];
+    for (const image of images) {
+      const cluster = clusters.find((members) =>
+        members.every(
+          (member) =>
+            hammingDistance(member.perceptualHash!, image.perceptualHash!) <=
+            this.maxDistance,
+        ),
+      );
+      if (cluster) {
+        cluster.push(image);
+      } else {
+        clusters.push([image]);
+      }
+    }
+    return clusters;
+  }
+}
@@ -1,2 +1,9 @@
 export { ChapterConverter } from './chapter-converter';
+export { CrossReferenceResolver } from './cross-reference-resolver';
+export { ImageDeduplicator } from './image-deduplicator';
+export type { ImageDeduplicatorOptions } from './image-deduplicator';
+export { PictureSplitMerger } from './picture-split-merger';
 export { ResourceConverter } from './resource-converter';
+export type { ResourceConversionOptions } from './resource-converter';
+export { ResourceIndexReconciler } from './resource-index-reconciler';
+export { TableContinuationMerger } from './table-continuation-merger';
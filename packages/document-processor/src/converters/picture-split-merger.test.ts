@@ -0,0 +1,319 @@
+import type { LoggerMethods } from '@heripo/logger';
+import type {
+  DoclingBBox,
+  DoclingDocument,
+  ProcessedImage,
+  ReviewAssistanceDecision,
+  ReviewAssistanceReport,
+} from '@heripo/model';
+
+import type { PictureSplit } from '../types';
+
+import { beforeEach, describe, expect, test, vi } from 'vitest';
+
+import { PictureSplitMerger } from './picture-split-merger';
+
+describe('PictureSplitMerger', () => {
+  let mockLogger: LoggerMethods;
+
+  beforeEach(() => {
+    mockLogger = {
+      info: vi.fn(),
+      warn: vi.fn(),
+      error: vi.fn(),
+      debug: vi.fn(),
+    };
+  });
+
+  const bbox = (l: number, t: number, r: number, b: number): DoclingBBox => ({
+    l,
+    t,
+    r,
+    b,
+    coord_origin: 'BOTTOMLEFT',
+  });
+
+  const createImage = (
+    index: number,
+    overrides?: Partial<ProcessedImage>,
+  ): ProcessedImage => ({
+    id: `img-00${index + 1}`,
+    sourceRef: `#/pictures/${index}`,
+    captionSourceRefs: [],
+    path: `/artifacts/images/image_${index}.png`,
+    pdfPageNo: 12,
+    ...overrides,
+  });
+
+  const createDoc = (
+    pictureBboxes: (DoclingBBox | undefined)[],
+    pageHeight: number | undefined = 800,
+  ): DoclingDocument =>
+    ({
+      pictures: pictureBboxes.map((pictureBbox, index) => ({
+        self_ref: `#/pictures/${index}`,
+        prov: pictureBbox
+          ? [{ page_no: 12, bbox: pictureBbox, charspan: [0, 0] }]
+          : [],
+      })),
+      pages:
+        pageHeight === undefined
+          ? {}
+          : { '12': { size: { width: 600, height: pageHeight }, page_no: 12 } },
+    }) as unknown as DoclingDocument;
+
+  const split: PictureSplit = {
+    sourcePictureRef: '#/pictures/0',
+    replacementRefs: ['#/pictures/1', '#/pictures/2'],
+    preservedCaptionRefs: ['#/texts/5'],
+    regions: [
+      { regionId: '①', snappedBbox: bbox(100, 700, 300, 300) },
+      { snappedBbox: bbox(300, 700, 500, 500) },
+    ],
+  };
+
+  const createImages = (): ProcessedImage[] => [
+    createImage(0),
+    createImage(1, {
+      captionSourceRefs: ['#/texts/5'],
+      caption: { num: '도판 3', fullText: '도판 3 출토유물 ① 토기 ② 석기' },
+    }),
+    createImage(2, {
+      captionSourceRefs: ['#/texts/6'],
+      caption: { fullText: '석기 세부' },
+    }),
+    createImage(3),
+  ];
+
+  describe('collectSplits', () => {
+    const decision = (
+      overrides: Partial<ReviewAssistanceDecision>,
+    ): ReviewAssistanceDecision => ({
+      id: 'decision-1',
+      pageNo: 12,
+      confidence: 0.9,
+      disposition: 'auto_applied',
+      reasons: [],
+      command: { op: 'splitPicture', pictureRef: '#/pictures/0', regions: [] },
+      metadata: {
+        splitPicture: {
+          sourcePictureRef: '#/pictures/0',
+          replacementRefs: ['#/pictures/1', '#/pictures/2'],
+          preservedCaptionRefs: ['#/texts/5'],
+          regions: [
+            {
+              regionId: '①',
+              source: 'vlm',
+              originalBbox: bbox(100, 700, 310, 300),
+              snappedBbox: bbox(100, 700, 300, 300),
+              imageUri: 'data:image/png;base64,AAA',
+              warnings: [],
+            },
+            {
+              source: 'vlm',
+              originalBbox: bbox(290, 700, 500, 500),
+              snappedBbox: bbox(300, 700, 500, 500),
+              warnings: [],
+            },
+          ],
+        },
+      },
+      ...overrides,
+    });
+
+    test('returns splits from auto-applied splitPicture decisions only', () => {
+      const report = {
+        pages: [
+          {
+            pageNo: 12,
+            status: 'succeeded',
+            issues: [],
+            decisions: [
+              decision({}),
+              decision({ disposition: 'proposal' }),
+              decision({
+                command: {
+                  op: 'hidePicture',
+                  pictureRef: '#/pictures/0',
+                  reason: 'decorative',
+                },
+              }),
+              decision({ metadata: undefined }),
+            ],
+          },
+        ],
+      } as unknown as ReviewAssistanceReport;
+
+      expect(PictureSplitMerger.collectSplits(report)).toEqual([split]);
+    });
+
+    test('defaults missing preserved caption refs to an empty list', () => {
+      const report = {
+        pages: [
+          {
+            pageNo: 12,
+            status: 'succeeded',
+            issues: [],
+            decisions: [
+              decision({
+                metadata: {
+                  splitPicture: {
+                    sourcePictureRef: '#/pictures/0',
+                    replacementRefs: [],
+                    regions: [],
+                  },
+                },
+              }),
+            ],
+          },
+        ],
+      } as unknown as ReviewAssistanceReport;
+
+      expect(PictureSplitMerger.collectSplits(report)).toEqual([
+        {
+          sourcePictureRef: '#/pictures/0',
+          replacementRefs: [],
+          preservedCaptionRefs: [],
+          regions: [],
+        },
+      ]);
+    });
+  });
+
+  describe('merge', () => {
+    test('folds replacement pictures into sub-figures of the split picture', () => {
+      const merger = new PictureSplitMerger(mockLogger);
+      const images = createImages();
+
+      const result = merger.merge(
+        images,
+        [split],
+        createDoc([bbox(100, 700, 500, 300)]),
+      );
+
+      expect(result.map((image) => image.id)).toEqual(['img-001', 'img-004']);
+      expect(result[0]).toEqual({
+        ...createImage(0),
+        captionSourceRefs: ['#/texts/5'],
+        caption: { num: '도판 3', fullText: '도판 3 출토유물 ① 토기 ② 석기' },
+        subFigures: [
+          {
+            id: 'img-001-1',
+            label: '①',
+            bbox: { left: 0, top: 0, right: 0.5, bottom: 1 },
+            path: '/artifacts/images/image_1.png',
+          },
+          {
+            id: 'img-001-2',
+            label: '2',
+            caption: { fullText: '석기 세부' },
+            bbox: { left: 0.5, top: 0, right: 1, bottom: 0.5 },
+            path: '/artifacts/images/image_2.png',
+          },
+        ],
+      });
+      expect(mockLogger.info).toHaveBeenCalledWith(
+        '[PictureSplitMerger] Folded 2 split pictures into sub-figures',
+      );
+      expect(mockLogger.warn).not.toHaveBeenCalled();
+    });
+
+    test('keeps the parent caption when no replacement holds the plate caption', () => {
+      const merger = new PictureSplitMerger(mockLogger);
+      const images = [
+        createImage(0, { caption: { fullText: '도판 3' } }),
+        createImage(1, { captionSourceRefs: ['#/texts/5'] }),
+        createImage(2, { captionSourceRefs: undefined }),
+      ];
+
+      const [parent] = merger.merge(
+        images,
+        [split],
+        createDoc([bbox(100, 700, 500, 300)]),
+      );
+
+      expect(parent.caption).toEqual({ fullText: '도판 3' });
+      expect(parent.subFigures?.map((subFigure) => subFigure.caption)).toEqual([
+        undefined,
+        undefined,
+      ]);
+    });
+
+    test('uses top-left boxes as is and clamps regions to the parent', () => {
+      const merger = new PictureSplitMerger(mockLogger);
+      const topLeft = (
+        l: number,
+        t: number,
+        r: number,
+        b: number,
+      ): DoclingBBox => ({ l, t, r, b, coord_origin: 'TOPLEFT' });
+
+      const [parent] = merger.merge(
+        createImages(),
+        [
+          {
+            ...split,
+            regions: [
+              { snappedBbox: topLeft(80, 100, 300, 500) },
+              { snappedBbox: topLeft(300, 300, 520, 500) },
+            ],
+          },
+        ],
+        createDoc([topLeft(100, 100, 500, 500)], undefined),
+      );
+
+      expect(parent.subFigures?.map((subFigure) => subFigure.bbox)).toEqual([
+        { left: 0, top: 0, right: 0.5, bottom: 1 },
+        { left: 0.5, top: 0.5, right: 1, bottom: 1 },
+      ]);
+    });
+
+    test('treats a zero-size parent box as a unit box', () => {
+      const merger = new PictureSplitMerger(mockLogger);
+
+      const [parent] = merger.merge(
+        createImages(),
+        [split],
+        createDoc([bbox(100, 700, 100, 700)]),
+      );
+
+      expect(parent.subFigures?.[0].bbox).toEqual({
+        left: 0,
+        top: 0,
+        right: 1,
+        bottom: 1,
+      });
+    });
+
+    test('ignores splits with unknown pictures or mismatched regions', () => {
+      const merger = new PictureSplitMerger(mockLogger);
+      const images = [
+        ...createImages(),
+        createImage(4, { sourceRef: undefined }),
+      ];
+
+      const result = merger.merge(
+        images,
+        [
+          { ...split, sourcePictureRef: '#/pictures/9' },
+          { ...split, sourcePictureRef: '#/pictures/3' },
+          { ...split, replacementRefs: ['#/pictures/1', '#/pictures/9'] },
+          { ...split, regions: split.regions.slice(0, 1) },
+          split,
+          split,
+        ],
+        createDoc([bbox(100, 700, 500, 300)]),
+      );
+
+      expect(result.map((image) => image.id)).toEqual([
+        'img-001',
+        'img-004',
+        'img-005',
+      ]);
+      expect(result[1].subFigures).toBeUndefined();
+      expect(mockLogger.warn).toHaveBeenCalledWith(
+        '[PictureSplitMerger] Ignored 5 picture splits with unknown pictures or regions',
+      );
+    });
+  });
+});
@@ -0,0 +1,198 @@
+import type { LoggerMethods } from '@heripo/logger';
+import type {
+  DoclingBBox,
+  DoclingDocument,
+  LayoutBoundingBox,
+  ProcessedImage,
+  ProcessedSubFigure,
+  RelativeBoundingBox,
+  ReviewAssistanceReport,
+} from '@heripo/model';
+
+import type { PictureSplit } from '../types';
+
+/**
+ * PictureSplitMerger
+ *
+ * Folds the pictures created by `splitPicture` review assistance decisions
+ * back into the split picture as `ProcessedImage.subFigures`, so a reviewed
+ * plate stays one image instead of several unrelated top-level pictures.
+ * Rule-based: no LLM calls.
+ *
+ * - The split picture keeps its ID, sourceRef and page. Each replacement
+ *   picture becomes one sub-figure and leaves the image list
+ * - The plate caption, which the patcher moved to a replacement picture, goes
+ *   back to the split picture; captions of the other replacements become
+ *   the sub-figures' caption fragments
+ * - Sub-figure boxes are the snapped regions as fractions of the split
+ *   picture's box
+ * - Splits whose pictures or regions cannot be resolved are ignored with a
+ *   warning
+ */
+export class PictureSplitMerger {
+  private readonly logger: LoggerMethods;
+
+  constructor(logger: LoggerMethods) {
+    this.logger = logger;
+  }
+
+  /**
+   * Collect picture splits from auto-applied review assistance decisions
+   *
+   * Proposals are excluded because they have not been accepted yet.
+   */
+  static collectSplits(report: ReviewAssistanceReport): PictureSplit[] {
+    const splits: PictureSplit[] = [];
+
+    for (const page of report.pages) {
+      for (const decision of page.decisions) {
+        const metadata = decision.metadata?.splitPicture as
+          PictureSplit | undefined;
+        if (
+          decision.disposition !== 'auto_applied' ||
+          decision.command?.op !== 'splitPicture' ||
+          !metadata
+        ) {
+          continue;
+        }
+        splits.push({
+          sourcePictureRef: metadata.sourcePictureRef,
+          replacementRefs: metadata.replacementRefs,
+          preservedCaptionRefs: metadata.preservedCaptionRefs ?? [],
+          regions: metadata.regions.map(({ regionId, snappedBbox }) => ({
+            ...(regionId ? { regionId } : {}),
+            snappedBbox,
+          })),
+        });
+      }
+    }
+
+    return splits;
+  }
+
+  /**
+   * Move the replacement pictures of each split into the split picture's
+   * `subFigures`
+   *
+   * Images are updated in place; the returned list leaves out the folded
+   * replacement pictures.
+   */
+  merge(
+    images: ProcessedImage[],
+    splits: PictureSplit[],
+    doclingDoc: DoclingDocument,
+  ): ProcessedImage[] {
+    const imagesByRef = new Map<string, ProcessedImage>();
+    for (const image of images) {
+      if (image.sourceRef) {
+        imagesByRef.set(image.sourceRef, image);
+      }
+    }
+
+    const folded = new Set<ProcessedImage>();
+    let ignoredCount = 0;
+
+    for (const split of splits) {
+      const parent = imagesByRef.get(split.sourcePictureRef);
+      const parentBbox = doclingDoc.pictures.find(
+        (picture) => picture.self_ref === split.sourcePictureRef,
+      )?.prov[0]?.bbox;
+      const replacements = split.replacementRefs.map((ref) =>
+        imagesByRef.get(ref),
+      );
+      if (
+        !parent ||
+        !parentBbox ||
+        replacements.length !== split.regions.length ||
+        replacements.some(
+          (replacement) => !replacement || folded.has(replacement),
+        )
+      ) {
+        ignoredCount++;
+        continue;
+      }
+
+      const pageHeight =
+        doclingDoc.pages[String(parent.pdfPageNo)]?.size.height ?? 0;
+      const parentBox = PictureSplitMerger.toTopLeft(parentBbox, pageHeight);
+      const preserved = new Set(split.preservedCaptionRefs);
+
+      parent.subFigures = (replacements as ProcessedImage[]).map(
+        (replacement, index): ProcessedSubFigure => {
+          folded.add(replacement);
+          const region = split.regions[index];
+          const isPlateCaption =
+            replacement.captionSourceRefs?.some((ref) => preserved.has(ref)) ??
+            false;
+          if (isPlateCaption && replacement.caption) {
+            parent.caption = replacement.caption;
+            parent.captionSourceRefs = replacement.captionSourceRefs;
+          }
+
+          return {
+            id: `${parent.id}-${index + 1}`,
+            label: region.regionId ?? String(index + 1),
+            ...(!isPlateCaption && replacement.caption
+              ? { caption: replacement.caption }
+              : {}),
+            bbox: PictureSplitMerger.toRelative(
+              PictureSplitMerger.toTopLeft(region.snappedBbox, pageHeight),
+              parentBox,
+            ),
+            path: replacement.path,
+          };
+        },
+      );
+    }
+
+    if (ignoredCount > 0) {
+      this.logger.warn(
+        `[PictureSplitMerger] Ignored ${ignoredCount} picture splits with unknown pictures or regions`,
+      );
+    }
+    this.logger.info(
+      `[PictureSplitMerger] Folded ${folded.size} split pictures into sub-figures`,
+    );
+
+    return images.filter((image) => !folded.has(image));
+  }
+
+  /**
+   * Convert a Docling box to a top-left origin box on its page
+   *
+   * Without a known page height, bottom-left boxes are mirrored at 0, which
+   * keeps the relative position of boxes on the same page.
+   */
+  private static toTopLeft(
+    bbox: DoclingBBox,
+    pageHeight: number,
+  ): LayoutBoundingBox {
+    const { l, t, r, b, coord_origin } = bbox;
+    const [top, bottom] =
+      coord_origin === 'BOTTOMLEFT' ? [pageHeight - t, pageHeight - b] : [t, b];
+    return {
+      left: Math.min(l, r),
+      top: Math.min(top, bottom),
+      right: Math.max(l, r),
+      bottom: Math.max(top, bottom),
+    };
+  }
+
+  /**
+   * Express a box as fractions of its parent box, clamped to the parent
+   */
+  private static toRelative(
+    box: LayoutBoundingBox,
+    parent: LayoutBoundingBox,
+  ): RelativeBoundingBox {
+    const width = parent.right - parent.left || 1;
+    const height = parent.bottom - parent.top || 1;
+    const clamp = (value: number): number => Math.min(1, Math.max(0, value));
+    return {
+      left: clamp((box.left - parent.left) / width),
+      top: clamp((box.top - parent.top) / height),
+      right: clamp((box.right - parent.left) / width),
+      bottom: clamp((box.bottom - parent.top) / height),
+    };
+  }
+}
@@ -242,6 +242,70 @@ describe('ResourceConverter', () => {
       expect(result[0].path).toBe('/output/images/image_0.png');
       expect(result[1].path).toBe('/output/images/image_1.png');
     });
+
+    test('folds picture splits into sub-figures', async () => {
+      const logger = createMockLogger();
+      const idGen = createMockIdGenerator({
+        generateImageId: vi
+          .fn()
+          .mockReturnValueOnce('img-001')
+          .mockReturnValueOnce('img-002'),
+      });
+
+      const converter = new ResourceConverter(
+        logger,
+        idGen,
+        createMockCaptionPipeline(),
+      );
+
+      const bbox = {
+        l: 0,
+        t: 0,
+        r: 100,
+        b: 100,
+        coord_origin: 'TOPLEFT',
+      } as const;
+      const mockDoc = {
+        pictures: [
+          {
+            self_ref: '#/pictures/0',
+            label: 'picture',
+            prov: [{ page_no: 1, bbox }],
+            children: [],
+            captions: [],
+          },
+          {
+            self_ref: '#/pictures/1',
+            label: 'picture',
+            prov: [{ page_no: 1, bbox }],
+            children: [],
+            captions: [],
+          },
+        ],
+        pages: {},
+      } as unknown as DoclingDocument;
+
+      const result = await converter.convertImages(mockDoc, '/output', {
+        pictureSplits: [
+          {
+            sourcePictureRef: '#/pictures/0',
+            replacementRefs: ['#/pictures/1'],
+            preservedCaptionRefs: [],
+            regions: [{ snappedBbox: bbox }],
+          },
+        ],
+      });
+
+      expect(result).toHaveLength(1);
+      expect(result[0].subFigures).toEqual([
+        {
+          id: 'img-001-1',
+          label: '1',
+          bbox: { left: 0, top: 0, right: 1, bottom: 1 },
+          path: '/output/images/image_1.png',
+        },
+      ]);
+    });
   });
 
   describe('convertTables', () => {
@@ -807,6 +871,97 @@ describe('ResourceConverter', () => {
     });
   });
 
+  describe('convertTables with continuations', () => {
+    const createFragmentDoc = (): DoclingDocument =>
+      ({
+        tables: [0, 1].map((index) => ({
+          self_ref: `#/tables/${index}`,
+          label: 'table',
+          prov: [{ page_no: index + 4 }],
+          data: {
+            num_rows: 2,
+            num_cols: 1,
+            grid: [
+              [{ text: 'Type', column_header: true }],
+              [{ text: `Row ${index}` }],
+            ],
+          },
+        })),
+      }) as unknown as DoclingDocument;
+
+    const createIdGenerator = (): IdGenerator => {
+      let count = 0;
+      return createMockIdGenerator({
+        generateTableId: vi.fn(() => `tbl-00${++count}`),
+      });
+    };
+
+    const tableContinuations = [
+      {
+        sourceTableRef: '#/tables/1',
+        continuedTableRef: '#/tables/0',
+        relation: 'continued_from_previous_page' as const,
+      },
+    ];
+
+    test('links fragments without merging by default', async () => {
+      const converter = new ResourceConverter(
+        createMockLogger(),
+        createIdGenerator(),
+        createMockCaptionPipeline(),
+      );
+
+      const result = await converter.convertTables(createFragmentDoc(), {
+        tableContinuations,
+      });
+
+      expect(result).toHaveLength(2);
+      expect(result[0].continuedToTableId).toBe('tbl-002');
+      expect(result[1].continuedFromTableId).toBe('tbl-001');
+    });
+
+    test('merges linked fragments when mergeContinuedTables is set', async () => {
+      const converter = new ResourceConverter(
+        createMockLogger(),
+        createIdGenerator(),
+        createMockCaptionPipeline(),
+      );
+
+      const result = await converter.convertTables(createFragmentDoc(), {
+        tableContinuations,
+        mergeContinuedTables: true,
+      });
+
+      expect(result).toHaveLength(1);
+      expect(result[0].grid.map((row) => row[0].text)).toEqual([
+        'Type',
+        'Row 0',
+        'Row 1',
+      ]);
+      expect(result[0].rowPdfPageNos).toEqual([4, 4, 5]);
+      expect(result[0].fragmentSourceRefs).toEqual([
+        '#/tables/0',
+        '#/tables/1',
+      ]);
+    });
+
+    test('ignores mergeContinuedTables when no continuations are given', async () => {
+      const converter = new ResourceConverter(
+        createMockLogger(),
+        createIdGenerator(),
+        createMockCaptionPipeline(),
+      );
+
+      const result = await converter.convertTables(createFragmentDoc(), {
+        tableContinuations: [],
+        mergeContinuedTables: true,
+      });
+
+      expect(result).toHaveLength(2);
+      expect(result[0].continuedToTableId).toBeUndefined();
+    });
+  });
+
   describe('convertFootnotes', () => {
     test('converts valid footnotes', () => {
       const logger = createMockLogger();
@@ -10,9 +10,12 @@ import type {
 } from '@heripo/model';
 
 import type { CaptionProcessingPipeline } from '../pipelines';
+import type { PictureSplit, TableContinuationLink } from '../types';
 import type { IdGenerator } from '../utils';
 
 import { TextCleaner } from '../utils';
+import { PictureSplitMerger } from './picture-split-merger';
+import { TableContinuationMerger } from './table-continuation-merger';
 
 function getFiniteNumber(value: unknown): number | undefined {
   return typeof value === 'number' && Number.isFinite(value)
@@ -141,6 +144,31 @@ function buildProcessedTableGrid(table: DoclingTableItem): {
   };
 }
 
+/**
+ * Options for resource conversion
+ */
+export interface ResourceConversionOptions {
+  /**
+   * Continuation links between table fragments on adjacent pages
+   *
+   * Linked tables get `continuedFromTableId` / `continuedToTableId`.
+   */
+  tableContinuations?: TableContinuationLink[];
+
+  /**
+   * Merge linked table fragments into one table (default: false)
+   */
+  mergeContinuedTables?: boolean;
+
+  /**
+   * Accepted `splitPicture` review assistance decisions
+   *
+   * Replacement pictures of each split become `subFigures` of the split
+   * picture instead of separate images.
+   */
+  pictureSplits?: PictureSplit[];
+}
+
 /**
  * ResourceConverter
  *
@@ -170,6 +198,7 @@ export class ResourceConverter {
   async convertAll(
     doclingDoc: DoclingDocument,
     artifactDir: string,
+    options: ResourceConversionOptions = {},
   ): Promise<{
     images: ProcessedImage[];
     tables: ProcessedTable[];
@@ -180,8 +209,8 @@ export class ResourceConverter {
     );
 
     const [images, tables] = await Promise.all([
-      this.convertImages(doclingDoc, artifactDir),
-      this.convertTables(doclingDoc),
+      this.convertImages(doclingDoc, artifactDir, options),
+      this.convertTables(doclingDoc, options),
     ]);
 
     const footnotes = this.convertFootnotes(doclingDoc);
@@ -195,10 +224,14 @@ export class ResourceConverter {
 
   /**
    * Convert images from DoclingDocument to ProcessedImage[]
+   *
+   * When picture splits are given, the split pictures are folded into
+   * sub-figures of their source picture.
    */
   async convertImages(
     doclingDoc: DoclingDocument,
     artifactDir: string,
+    options: ResourceConversionOptions = {},
   ): Promise<ProcessedImage[]> {
     this.logger.info(
       `[ResourceConverter] Converting ${doclingDoc.pictures.length} images...`,
@@ -212,13 +245,20 @@ export class ResourceConverter {
     );
 
     const images: ProcessedImage[] = doclingDoc.pictures.map(
-      (picture, index) => ({
-        id: this.idGenerator.generateImageId(),
-        sourceRef: picture.self_ref,
-        captionSourceRefs: captionSources[index].sourceRefs,
-        path: `${artifactDir}/images/image_${index}.png`,
-        pdfPageNo: picture.prov?.[0]?.page_no ?? 0,
-      }),
+      (picture, index) => {
+        const pdfPageNo = picture.prov?.[0]?.page_no ?? 0;
+        return {
+          id: this.idGenerator.generateImageId({
+            sourceRef: picture.self_ref,
+            pageNo: pdfPageNo,
+            content: captionTexts[index] ?? '',
+          }),
+          sourceRef: picture.self_ref,
+          captionSourceRefs: captionSources[index].sourceRefs,
+          path: `${artifactDir}/images/image_${index}.png`,
+          pdfPageNo,
+        };
+      },
     );
 
     const captionsByIndex =
@@ -233,13 +273,28 @@ export class ResourceConverter {
       }
     });
 
-    return images;
+    const splits = options.pictureSplits ?? [];
+    if (splits.length === 0) {
+      return images;
+    }
+
+    return new PictureSplitMerger(this.logger).merge(
+      images,
+      splits,
+      doclingDoc,
+    );
   }
 
   /**
    * Convert tables from DoclingDocument to ProcessedTable[]
+   *
+   * When table continuations are given, linked fragments are connected and,
+   * with `mergeContinuedTables`, merged into single tables.
    */
-  async convertTables(doclingDoc: DoclingDocument): Promise<ProcessedTable[]> {
+  async convertTables(
+    doclingDoc: DoclingDocument,
+    options: ResourceConversionOptions = {},
+  ): Promise<ProcessedTable[]> {
     this.logger.info(
       `[ResourceConverter] Converting ${doclingDoc.tables.length} tables...`,
     );
@@ -253,12 +308,20 @@ export class ResourceConverter {
 
     const tables: ProcessedTable[] = doclingDoc.tables.map((table, index) => {
       const { grid, numRows, numCols } = buildProcessedTableGrid(table);
+      const pdfPageNo = table.prov?.[0]?.page_no ?? 0;
+      const cellText = grid
+        .map((row) => row.map((cell) => cell.text).join('\t'))
+        .join('\n');
 
       return {
-        id: this.idGenerator.generateTableId(),
+        id: this.idGenerator.generateTableId({
+          sourceRef: table.self_ref,
+          pageNo: pdfPageNo,
+          content: cellText,
+        }),
         sourceRef: table.self_ref,
         captionSourceRefs: captionSources[index].sourceRefs,
-        pdfPageNo: table.prov?.[0]?.page_no ?? 0,
+        pdfPageNo,
         numRows,
         numCols,
         grid,
@@ -277,7 +340,15 @@ export class ResourceConverter {
       }
     });
 
-    return tables;
+    const continuations = options.tableContinuations ?? [];
+    if (continuations.length === 0) {
+      return tables;
+    }
+
+    const merger = new TableContinuationMerger(this.logger);
+    merger.link(tables, continuations);
+
+    return options.mergeContinuedTables ? merger.merge(tables) : tables;
   }
 
   /**
@@ -293,12 +364,20 @@ export class ResourceConverter {
 
     const footnotes: ProcessedFootnote[] = footnoteItems
       .filter((item) => TextCleaner.isValidText(item.text))
-      .map((item) => ({
-        id: this.idGenerator.generateFootnoteId(),
-        sourceRef: item.self_ref,
-        text: TextCleaner.normalize(item.text),
-        pdfPageNo: item.prov?.[0]?.page_no ?? 1,
-      }));
+      .map((item) => {
+        const text = TextCleaner.normalize(item.text);
+        const pdfPageNo = item.prov?.[0]?.page_no ?? 1;
+        return {
+          id: this.idGenerator.generateFootnoteId({
+            sourceRef: item.self_ref,
+            pageNo: pdfPageNo,
+            content: text,
+          }),
+          sourceRef: item.self_ref,
+          text,
+          pdfPageNo,
+        };
+      });
 
     this.logger.info(
       `[ResourceConverter] Converted ${footnotes.length} valid footnotes`,
@@ -0,0 +1,222 @@
+import type { LoggerMethods } from '@heripo/logger';
+import type {
+  Caption,
+  LabeledPageRange,
+  ProcessedImage,
+  ProcessedTable,
+  ResourceIndexEntry,
+} from '@heripo/model';
+
+import { beforeEach, describe, expect, test, vi } from 'vitest';
+
+import { ResourceIndexReconciler } from './resource-index-reconciler';
+
+describe('ResourceIndexReconciler', () => {
+  let mockLogger: LoggerMethods;
+  let reconciler: ResourceIndexReconciler;
+
+  beforeEach(() => {
+    mockLogger = {
+      info: vi.fn(),
+      warn: vi.fn(),
+      error: vi.fn(),
+      debug: vi.fn(),
+    };
+    reconciler = new ResourceIndexReconciler(mockLogger);
+  });
+
+  const createEntry = (
+    prefix: string,
+    num: string,
+    title: string,
+    pageNo: number,
+    type: ResourceIndexEntry['type'] = 'image',
+  ): ResourceIndexEntry => ({
+    type,
+    prefix,
+    num,
+    title,
+    pageNo,
+    sourceRef: '#/texts/0',
+  });
+
+  const createImage = (
+    id: string,
+    pdfPageNo: number,
+    caption?: Caption,
+  ): ProcessedImage => ({
+    id,
+    pdfPageNo,
+    path: `/images/${id}.png`,
+    ...(caption ? { caption } : {}),
+  });
+
+  const createTable = (
+    id: string,
+    pdfPageNo: number,
+    caption?: Caption,
+  ): ProcessedTable => ({
+    id,
+    pdfPageNo,
+    numRows: 0,
+    numCols: 0,
+    grid: [],
+    ...(caption ? { caption } : {}),
+  });
+
+  test('matches entries to captions with the same prefix and number', () => {
+    const images = [
+      createImage('img-001', 12, { num: '도면 1', fullText: '도면 1 위치도' }),
+      createImage('img-002', 13, { num: 'Fig.2', fullText: 'Fig.2 Plan' }),
+    ];
+    const tables = [
+      createTable('tbl-001', 30, { num: '표 1', fullText: '표 1 유물 목록' }),
+    ];
+
+    const report = reconciler.reconcile(
+      [
+        createEntry('도면', '1', '유적 위치도', 12),
+        createEntry('Figure', '2', 'Site plan', 13),
+        createEntry('표', '1', '출토유물 목록', 30, 'table'),
+      ],
+      images,
+      tables,
+      {},
+    );
+
+    expect(report).toMatchObject({
+      matchedCount: 3,
+      filledCaptionIds: [],
+      mismatches: [],
+      missingEntries: [],
+    });
+    expect(report.entries).toHaveLength(3);
+    expect(mockLogger.info).toHaveBeenCalledWith(
+      '[ResourceIndexReconciler] Matched 3 entries, filled 0 captions, 0 mismatches, 0 missing',
+    );
+    expect(mockLogger.warn).not.toHaveBeenCalled();
+  });
+
+  test('fills missing captions and caption numbers from the index', () => {
+    const images = [
+      // Double-sided scan: PDF page 7 holds pages 12-13
+      createImage('img-001', 7),
+      createImage('img-002', 7, { fullText: '유구 배치도' }),
+    ];
+    const tables = [createTable('tbl-001', 9)];
+
+    const report = reconciler.reconcile(
+      [
+        createEntry('도면', '2', '유구 배치도', 13),
+        createEntry('도면', '1', '유적 위치도', 12),
+        createEntry('표', '3', '토층 관찰표', 9, 'table'),
+      ],
+      images,
+      tables,
+      { 7: { startPageNo: 12, endPageNo: 13 } },
+    );
+
+    expect(report.filledCaptionIds).toEqual(['img-002', 'img-001', 'tbl-001']);
+    expect(images[0].caption).toEqual({
+      num: '도면 1',
+      fullText: '도면 1 유적 위치도',
+    });
+    expect(images[1].caption).toEqual({
+      num: '도면 2',
+      fullText: '유구 배치도',
+    });
+    expect(tables[0].caption).toEqual({
+      num: '표 3',
+      fullText: '표 3 토층 관찰표',
+    });
+  });
+
+  test('flags caption numbers that differ from the index', () => {
+    const images = [
+      createImage('img-001', 20, {
+        num: '사진 4',
+        fullText: '사진 4 출토 토기',
+      }),
+      createImage('img-002', 20, { num: '12', fullText: '12 석기' }),
+    ];
+
+    const report = reconciler.reconcile(
+      [
+        createEntry('사진', '5', '출토 토기 일괄', 20),
+        createEntry('사진', '6', '석기', 20),
+      ],
+      images,
+      [],
+      {},
+    );
+
+    expect(report.mismatches).toEqual([
+      {
+        entry: createEntry('사진', '5', '출토 토기 일괄', 20),
+        resourceId: 'img-001',
+        captionNum: '사진 4',
+      },
+      {
+        entry: createEntry('사진', '6', '석기', 20),
+        resourceId: 'img-002',
+        captionNum: '12',
+      },
+    ]);
+    expect(images[0].caption?.num).toBe('사진 4');
+    expect(mockLogger.warn).toHaveBeenCalledWith(
+      '[ResourceIndexReconciler] Caption numbers differ from the index: 사진 5 → img-001 (사진 4), 사진 6 → img-002 (12)',
+    );
+  });
+
+  test('reports entries without a resource on the listed page', () => {
+    const images = [
+      createImage('img-001', 30, { num: '도면 1', fullText: '도면 1 평면도' }),
+      createImage('img-002', 30, { num: '도면 1', fullText: '도면 1 평면도' }),
+      createImage('img-003', 31, { fullText: '' }),
+    ];
+    const tables = [createTable('tbl-001', 30)];
+
+    const report = reconciler.reconcile(
+      [
+        createEntry('도면', '1', '평면도', 30),
+        createEntry('도면', '2', '단면도', 30),
+        createEntry('도면', '3', '입면도', 31),
+      ],
+      images,
+      tables,
+      {},
+    );
+
+    expect(report.matchedCount).toBe(1);
+    expect(report.filledCaptionIds).toEqual([]);
+    expect(report.missingEntries.map(({ num }) => num)).toEqual(['2', '3']);
+    expect(tables[0]).not.toHaveProperty('caption');
+    expect(mockLogger.warn).toHaveBeenCalledWith(
+      '[ResourceIndexReconciler] Index entries without an image or table on the listed page: 도면 2 (p. 30), 도면 3 (p. 31)',
+    );
+  });
+
+  test('does not match resources on Roman numbered pages', () => {
+    const preface: LabeledPageRange = {
+      startPageNo: 3,
+      endPageNo: 3,
+      numeralSystem: 'roman',
+      startLabel: 'iii',
+      endLabel: 'iii',
+    };
+    const images = [createImage('img-001', 3), createImage('img-002', 15)];
+
+    const report = reconciler.reconcile(
+      [createEntry('도면', '1', '평면도', 3)],
+      images,
+      [],
+      {
+        3: preface,
+        15: { startPageNo: 3, endPageNo: 3 },
+      },
+    );
+
+    expect(report.filledCaptionIds).toEqual(['img-002']);
+    expect(images[0]).not.toHaveProperty('caption');
+  });
+});
@@ -0,0 +1,218 @@
+import type { LoggerMethods } from '@heripo/logger';
+import type {
+  Caption,
+  PageRange,
+  ProcessedImage,
+  ProcessedTable,
+  ResourceIndexEntry,
+  ResourceIndexReport,
+} from '@heripo/model';
+
+import type { CaptionTargetType } from '../utils';
+
+import {
+  TextCleaner,
+  canonicalCaptionPrefix,
+  isLabeledPageRange,
+  parseCaptionNum,
+} from '../utils';
+
+/**
+ * Image or table with its kind
+ */
+interface IndexedResource {
+  type: CaptionTargetType;
+  item: ProcessedImage | ProcessedTable;
+}
+
+/**
+ * ResourceIndexReconciler
+ *
+ * Cross-checks entries parsed from list-of-figures and list-of-tables pages
+ * against image and table captions. Rule-based: no LLM calls.
+ *
+ * ## Matching
+ *
+ * 1. An entry matches the resource whose caption has the same prefix and
+ *    number.
+ * 2. Otherwise, among unmatched resources of the same kind on the listed
+ *    page, one whose caption title contains the entry title (or the other
+ *    way around) is a mismatch when its caption is numbered; an unnumbered
+ *    caption gets the entry's number.
+ * 3. Otherwise the first uncaptioned resource on the listed page gets a
+ *    caption built from the entry.
+ * 4. Entries left over are missing: Docling did not detect the figure or
+ *    table on that page.
+ *
+ * Captions are updated in place.
+ */
+export class ResourceIndexReconciler {
+  private readonly logger: LoggerMethods;
+
+  constructor(logger: LoggerMethods) {
+    this.logger = logger;
+  }
+
+  /**
+   * Reconcile index entries with image and table captions
+   *
+   * @param entries - Parsed index entries
+   * @param images - Converted images
+   * @param tables - Converted tables
+   * @param pageRangeMap - PDF page to actual page mapping (entries list actual pages)
+   */
+  reconcile(
+    entries: ResourceIndexEntry[],
+    images: ProcessedImage[],
+    tables: ProcessedTable[],
+    pageRangeMap: Record<number, PageRange>,
+  ): ResourceIndexReport {
+    this.logger.info(
+      `[ResourceIndexReconciler] Reconciling ${entries.length} index entries...`,
+    );
+
+    const resources: IndexedResource[] = [
+      ...images.map((item) => ({ type: 'image' as const, item })),
+      ...tables.map((item) => ({ type: 'table' as const, item })),
+    ];
+    const byCaptionKey = new Map<string, IndexedResource>();
+    for (const resource of resources) {
+      const parsed = parseCaptionNum(resource.item.caption?.num);
+      const key =
+        parsed &&
+        ResourceIndexReconciler.key(resource.type, parsed.prefix, parsed.num);
+      if (key && !byCaptionKey.has(key)) {
+        byCaptionKey.set(key, resource);
+      }
+    }
+
+    const report: ResourceIndexReport = {
+      entries,
+      matchedCount: 0,
+      filledCaptionIds: [],
+      mismatches: [],
+      missingEntries: [],
+    };
+    const matched = new Set<IndexedResource>();
+    const unmatchedEntries = entries.filter((entry) => {
+      const resource = byCaptionKey.get(
+        ResourceIndexReconciler.key(entry.type, entry.prefix, entry.num),
+      );
+      if (!resource) {
+        return true;
+      }
+      matched.add(resource);
+      report.matchedCount++;
+      return false;
+    });
+
+    for (const entry of unmatchedEntries) {
+      const candidates = resources.filter(
+        (resource) =>
+          resource.type === entry.type &&
+          !matched.has(resource) &&
+          this.isOnPage(resource.item.pdfPageNo, entry.pageNo, pageRangeMap),
+      );
+      const entryNum = `${entry.prefix} ${entry.num}`;
+
+      const sameTitle = candidates.find(
+        ({ item }) =>
+          item.caption &&
+          ResourceIndexReconciler.isSameTitle(item.caption, entry.title),
+      );
+      if (sameTitle) {
+        matched.add(sameTitle);
+        const caption = sameTitle.item.caption!;
+        if (caption.num !== undefined) {
+          report.mismatches.push({
+            entry,
+            resourceId: sameTitle.item.id,
+            captionNum: caption.num,
+          });
+        } else {
+          sameTitle.item.caption = { ...caption, num: entryNum };
+          report.filledCaptionIds.push(sameTitle.item.id);
+        }
+        continue;
+      }
+
+      const uncaptioned = candidates.find(({ item }) => !item.caption);
+      if (uncaptioned) {
+        matched.add(uncaptioned);
+        uncaptioned.item.caption = {
+          num: entryNum,
+          fullText: `${entryNum} ${entry.title}`,
+        };
+        report.filledCaptionIds.push(uncaptioned.item.id);
+        continue;
+      }
+
+      report.missingEntries.push(entry);
+    }
+
+    this.logger.info(
+      `[ResourceIndexReconciler] Matched ${report.matchedCount} entries, filled ${report.filledCaptionIds.length} captions, ${report.mismatches.length} mismatches, ${report.missingEntries.length} missing`,
+    );
+    if (report.mismatches.length > 0) {
+      this.logger.warn(
+        `[ResourceIndexReconciler] Caption numbers differ from the index: ${report.mismatches.map(({ entry, resourceId, captionNum }) => `${entry.prefix} ${entry.num} → ${resourceId} (${captionNum})`).join(', ')}`,
+      );
+    }
+    if (report.missingEntries.length > 0) {
+      this.logger.warn(
+        `[ResourceIndexReconciler] Index entries without an image or table on the listed page: ${report.missingEntries.map((entry) => `${entry.prefix} ${entry.num} (p. ${entry.pageNo})`).join(', ')}`,
+      );
+    }
+
+    return report;
+  }
+
+  /**
+   * Whether a PDF page contains the given actual page
+   *
+   * Falls back to a 1:1 mapping when the PDF page is not mapped.
+   */
+  private isOnPage(
+    pdfPageNo: number,
+    pageNo: number,
+    pageRangeMap: Record<number, PageRange>,
+  ): boolean {
+    const range = pageRangeMap[pdfPageNo];
+    if (!range) {
+      return pdfPageNo === pageNo;
+    }
+    // Index page numbers are Arabic; labeled ordinals restart at 1
+    if (isLabeledPageRange(range)) {
+      return false;
+    }
+    return pageNo >= range.startPageNo && pageNo <= range.endPageNo;
+  }
+
+  private static key(
+    type: CaptionTargetType,
+    prefix: string,
+    num: string,
+  ): string {
+    return `${type}|${canonicalCaptionPrefix(prefix)}|${num}`;
+  }
+
+  /**
+   * Whether a caption title contains the entry title or the other way around
+   * (compared without whitespace, punctuation, symbols and case)
+   */
+  private static isSameTitle(caption: Caption, title: string): boolean {
+    const captionTitle =
+      caption.num !== undefined && caption.fullText.startsWith(caption.num)
+        ? caption.fullText.slice(caption.num.length)
+        : caption.fullText;
+    const a = ResourceIndexReconciler.titleKey(captionTitle);
+    const b = ResourceIndexReconciler.titleKey(title);
+    return a.length > 0 && b.length > 0 && (a.includes(b) || b.includes(a));
+  }
+
+  private static titleKey(text: string): string {
+    return TextCleaner.normalize(text)
+      .replace(/[\s\p{P}\p{S}]/gu, '')
+      .toLowerCase();
+  }
+}
@@ -0,0 +1,303 @@
+import type { LoggerMethods } from '@heripo/logger';
+import type {
+  ProcessedTable,
+  ProcessedTableCell,
+  ReviewAssistanceDecision,
+  ReviewAssistanceReport,
+} from '@heripo/model';
+
+import { beforeEach, describe, expect, test, vi } from 'vitest';
+
+import { TableContinuationMerger } from './table-continuation-merger';
+
+describe('TableContinuationMerger', () => {
+  let mockLogger: LoggerMethods;
+
+  beforeEach(() => {
+    mockLogger = {
+      info: vi.fn(),
+      warn: vi.fn(),
+      error: vi.fn(),
+      debug: vi.fn(),
+    };
+  });
+
+  const cell = (text: string, isHeader = false): ProcessedTableCell => ({
+    text,
+    rowSpan: 1,
+    colSpan: 1,
+    isHeader,
+  });
+
+  const header = [cell('번호', true), cell('기종', true)];
+
+  const createTable = (
+    index: number,
+    pdfPageNo: number,
+    grid: ProcessedTableCell[][],
+    overrides?: Partial<ProcessedTable>,
+  ): ProcessedTable => ({
+    id: `tbl-00${index + 1}`,
+    sourceRef: `#/tables/${index}`,
+    captionSourceRefs: [],
+    pdfPageNo,
+    numRows: grid.length,
+    numCols: 2,
+    grid,
+    ...overrides,
+  });
+
+  const next = (
+    sourceTableRef: string,
+    continuedTableRef: string,
+  ): {
+    sourceTableRef: string;
+    continuedTableRef: string;
+    relation: 'continues_on_next_page';
+  } => ({
+    sourceTableRef,
+    continuedTableRef,
+    relation: 'continues_on_next_page',
+  });
+
+  describe('collectLinks', () => {
+    const decision = (
+      overrides: Partial<ReviewAssistanceDecision>,
+    ): ReviewAssistanceDecision => ({
+      id: 'decision-1',
+      pageNo: 3,
+      confidence: 0.9,
+      disposition: 'auto_applied',
+      reasons: [],
+      command: {
+        op: 'linkContinuedTable',
+        sourceTableRef: '#/tables/1',
+        continuedTableRef: '#/tables/0',
+        relation: 'continued_from_previous_page',
+      },
+      ...overrides,
+    });
+
+    test('returns links from auto-applied linkContinuedTable decisions only', () => {
+      const report = {
+        pages: [
+          {
+            pageNo: 3,
+            status: 'succeeded',
+            issues: [],
+            decisions: [
+              decision({}),
+              decision({ disposition: 'proposal' }),
+              decision({
+                command: {
+                  op: 'updateTableCell',
+                  tableRef: '#/tables/1',
+                  row: 0,
+                  col: 0,
+                  text: '1',
+                },
+              }),
+              decision({ command: undefined, invalidOp: 'linkContinuedTable' }),
+            ],
+          },
+        ],
+      } as unknown as ReviewAssistanceReport;
+
+      expect(TableContinuationMerger.collectLinks(report)).toEqual([
+        {
+          sourceTableRef: '#/tables/1',
+          continuedTableRef: '#/tables/0',
+          relation: 'continued_from_previous_page',
+        },
+      ]);
+    });
+  });
+
+  describe('link', () => {
+    test('links fragments in both relation directions', () => {
+      const merger = new TableContinuationMerger(mockLogger);
+      const tables = [
+        createTable(0, 3, [header]),
+        createTable(1, 4, [header]),
+        createTable(2, 5, [header]),
+      ];
+
+      const result = merger.link(tables, [
+        next('#/tables/0', '#/tables/1'),
+        {
+          sourceTableRef: '#/tables/2',
+          continuedTableRef: '#/tables/1',
+          relation: 'continued_from_previous_page',
+        },
+      ]);
+
+      expect(result).toBe(tables);
+      expect(
+        tables.map((t) => [t.continuedFromTableId, t.continuedToTableId]),
+      ).toEqual([
+        [undefined, 'tbl-002'],
+        ['tbl-001', 'tbl-003'],
+        ['tbl-002', undefined],
+      ]);
+      expect(mockLogger.info).toHaveBeenCalledWith(
+        '[TableContinuationMerger] Linked 2 table continuations',
+      );
+      expect(mockLogger.warn).not.toHaveBeenCalled();
+    });
+
+    test('accepts the same link reported from both pages', () => {
+      const merger = new TableContinuationMerger(mockLogger);
+      const tables = [createTable(0, 3, [header]), createTable(1, 4, [header])];
+
+      merger.link(tables, [
+        next('#/tables/0', '#/tables/1'),
+        {
+          sourceTableRef: '#/tables/1',
+          continuedTableRef: '#/tables/0',
+          relation: 'continued_from_previous_page',
+        },
+      ]);
+
+      expect(tables[0].continuedToTableId).toBe('tbl-002');
+      expect(mockLogger.warn).not.toHaveBeenCalled();
+    });
+
+    test('ignores unknown, self, conflicting and cyclic links', () => {
+      const merger = new TableContinuationMerger(mockLogger);
+      const tables = [
+        createTable(0, 3, [header]),
+        createTable(1, 4, [header]),
+        createTable(2, 5, [header]),
+        createTable(3, 6, [header], { sourceRef: undefined }),
+      ];
+
+      merger.link(tables, [
+        next('#/tables/0', '#/tables/1'),
+        next('#/tables/0', '#/tables/9'),
+        next('#/tables/2', '#/tables/2'),
+        next('#/tables/0', '#/tables/2'),
+        next('#/tables/2', '#/tables/1'),
+        next('#/tables/1', '#/tables/0'),
+      ]);
+
+      expect(
+        tables.map((t) => [t.continuedFromTableId, t.continuedToTableId]),
+      ).toEqual([
+        [undefined, 'tbl-002'],
+        ['tbl-001', undefined],
+        [undefined, undefined],
+        [undefined, undefined],
+      ]);
+      expect(mockLogger.warn).toHaveBeenCalledWith(
+        '[TableContinuationMerger] Ignored 5 continuation links with unknown, conflicting or cyclic tables',
+      );
+    });
+  });
+
+  describe('merge', () => {
+    test('merges a chain with de-duplicated headers and per-row pages', () => {
+      const merger = new TableContinuationMerger(mockLogger);
+      const tables = [
+        createTable(0, 3, [header, [cell('1'), cell('발')]], {
+          caption: { num: '표 1', fullText: '표 1 출토유물 목록' },
+          captionSourceRefs: ['#/texts/1'],
+        }),
+        createTable(
+          1,
+          4,
+          [
+            [cell(' 번호', true), cell('기종 ', true)],
+            [cell('2'), cell('호')],
+          ],
+          { captionSourceRefs: ['#/texts/7'] },
+        ),
+        createTable(2, 5, [[cell('3'), cell('옹')]], { numCols: 3 }),
+        createTable(3, 9, [header]),
+      ];
+      merger.link(tables, [
+        next('#/tables/0', '#/tables/1'),
+        next('#/tables/1', '#/tables/2'),
+      ]);
+
+      const result = merger.merge(tables);
+
+      expect(result).toHaveLength(2);
+      expect(result[0]).toEqual({
+        id: 'tbl-001',
+        sourceRef: '#/tables/0',
+        captionSourceRefs: ['#/texts/1', '#/texts/7'],
+        caption: { num: '표 1', fullText: '표 1 출토유물 목록' },
+        pdfPageNo: 3,
+        numRows: 4,
+        numCols: 3,
+        grid: [
+          header,
+          [cell('1'), cell('발')],
+          [cell('2'), cell('호')],
+          [cell('3'), cell('옹')],
+        ],
+        rowPdfPageNos: [3, 3, 4, 5],
+        fragmentSourceRefs: ['#/tables/0', '#/tables/1', '#/tables/2'],
+      });
+      expect(result[1]).toBe(tables[3]);
+      expect(mockLogger.info).toHaveBeenCalledWith(
+        '[TableContinuationMerger] Merged 3 fragments, 2 tables remain',
+      );
+    });
+
+    test('compares the first row when no header cells are marked', () => {
+      const merger = new TableContinuationMerger(mockLogger);
+      const plainHeader = [cell('번호'), cell('기종')];
+      const tables = [
+        createTable(0, 3, [plainHeader, [cell('1'), cell('발')]]),
+        createTable(1, 4, [plainHeader, [cell('2'), cell('호')]], {
+          captionSourceRefs: undefined,
+          caption: { fullText: '표 1 계속' },
+          sourceRef: '#/tables/1',
+        }),
+      ];
+      merger.link(tables, [next('#/tables/0', '#/tables/1')]);
+      tables[1].sourceRef = undefined;
+
+      const [merged] = merger.merge(tables);
+
+      expect(merged.grid).toEqual([
+        plainHeader,
+        [cell('1'), cell('발')],
+        [cell('2'), cell('호')],
+      ]);
+      expect(merged.caption).toEqual({ fullText: '표 1 계속' });
+      expect(merged.captionSourceRefs).toEqual([]);
+      expect(merged.fragmentSourceRefs).toEqual(['#/tables/0']);
+    });
+
+    test('keeps rows of a continuation whose first row differs from the header', () => {
+      const merger = new TableContinuationMerger(mockLogger);
+      const tables = [
+        createTable(0, 3, [header]),
+        createTable(1, 4, [[cell('2'), cell('호')]]),
+      ];
+      merger.link(tables, [next('#/tables/0', '#/tables/1')]);
+
+      const [merged] = merger.merge(tables);
+
+      expect(merged.grid).toEqual([header, [cell('2'), cell('호')]]);
+      expect(merged.caption).toBeUndefined();
+    });
+
+    test('treats tables whose predecessor is missing as chain heads', () => {
+      const merger = new TableContinuationMerger(mockLogger);
+      const tables = [
+        createTable(0, 4, [header], { continuedFromTableId: 'tbl-099' }),
+        createTable(1, 5, []),
+      ];
+
+      const result = merger.merge(tables);
+
+      expect(result).toEqual(tables);
+      expect(mockLogger.info).toHaveBeenCalledWith(
+        '[TableContinuationMerger] Merged 0 fragments, 2 tables remain',
+      );
+    });
+  });
+});
@@ -0,0 +1,260 @@
+import type { LoggerMethods } from '@heripo/logger';
+import type {
+  ProcessedTable,
+  ProcessedTableCell,
+  ReviewAssistanceReport,
+} from '@heripo/model';
+
+import type { TableContinuationLink } from '../types';
+
+function getRowKey(row: ProcessedTableCell[]): string {
+  return row.map((cell) => cell.text.replace(/\s+/g, ' ').trim()).join('|');
+}
+
+function countHeaderRows(grid: ProcessedTableCell[][]): number {
+  let count = 0;
+  while (
+    count < grid.length &&
+    grid[count].length > 0 &&
+    grid[count].every((cell) => cell.isHeader)
+  ) {
+    count++;
+  }
+  return count;
+}
+
+/**
+ * TableContinuationMerger
+ *
+ * Connects table fragments that continue across pages and optionally merges
+ * each chain of fragments into a single ProcessedTable. Rule-based: no LLM calls.
+ *
+ * ## Linking
+ *
+ * Links reference Docling table refs and are resolved through
+ * `ProcessedTable.sourceRef`. Links to unknown tables, links that would give a
+ * fragment two predecessors or successors, and links that would close a cycle
+ * are ignored with a warning.
+ *
+ * ## Merging
+ *
+ * - The merged table keeps the ID, sourceRef, and page of the first fragment
+ * - Leading rows of later fragments that repeat the first fragment's header
+ *   rows are dropped (when no row is marked as header, the first row is
+ *   compared)
+ * - `rowPdfPageNos` records the PDF page of every merged row
+ */
+export class TableContinuationMerger {
+  private readonly logger: LoggerMethods;
+
+  constructor(logger: LoggerMethods) {
+    this.logger = logger;
+  }
+
+  /**
+   * Collect continuation links from auto-applied review assistance decisions
+   *
+   * Proposals are excluded because they have not been accepted yet.
+   */
+  static collectLinks(report: ReviewAssistanceReport): TableContinuationLink[] {
+    const links: TableContinuationLink[] = [];
+
+    for (const page of report.pages) {
+      for (const decision of page.decisions) {
+        const command = decision.command;
+        if (
+          decision.disposition !== 'auto_applied' ||
+          command?.op !== 'linkContinuedTable'
+        ) {
+          continue;
+        }
+        links.push({
+          sourceTableRef: command.sourceTableRef,
+          continuedTableRef: command.continuedTableRef,
+          relation: command.relation,
+        });
+      }
+    }
+
+    return links;
+  }
+
+  /**
+   * Set continuedFromTableId / continuedToTableId on linked tables
+   *
+   * Tables are updated in place and returned for chaining.
+   */
+  link(
+    tables: ProcessedTable[],
+    links: TableContinuationLink[],
+  ): ProcessedTable[] {
+    const tablesByRef = new Map<string, ProcessedTable>();
+    for (const table of tables) {
+      if (table.sourceRef) {
+        tablesByRef.set(table.sourceRef, table);
+      }
+    }
+    const tablesById = new Map(tables.map((table) => [table.id, table]));
+
+    let linkedCount = 0;
+    let ignoredCount = 0;
+
+    for (const link of links) {
+      const source = tablesByRef.get(link.sourceTableRef);
+      const continued = tablesByRef.get(link.continuedTableRef);
+      if (!source || !continued || source === continued) {
+        ignoredCount++;
+        continue;
+      }
+
+      const [previous, next] =
+        link.relation === 'continues_on_next_page'
+          ? [source, continued]
+          : [continued, source];
+
+      // Both fragments often report the same link from their own page
+      if (previous.continuedToTableId === next.id) {
+        continue;
+      }
+
+      if (
+        previous.continuedToTableId !== undefined ||
+        next.continuedFromTableId !== undefined ||
+        this.reaches(next, previous, tablesById)
+      ) {
+        ignoredCount++;
+        continue;
+      }
+
+      previous.continuedToTableId = next.id;
+      next.continuedFromTableId = previous.id;
+      linkedCount++;
+    }
+
+    if (ignoredCount > 0) {
+      this.logger.warn(
+        `[TableContinuationMerger] Ignored ${ignoredCount} continuation links with unknown, conflicting or cyclic tables`,
+      );
+    }
+    this.logger.info(
+      `[TableContinuationMerger] Linked ${linkedCount} table continuations`,
+    );
+
+    return tables;
+  }
+
+  /**
+   * Merge linked fragments into single tables
+   *
+   * Expects tables already linked by `link()`. Each merged table takes the
+   * position of its first fragment; unlinked tables are returned unchanged.
+   */
+  merge(tables: ProcessedTable[]): ProcessedTable[] {
+    const tablesById = new Map(tables.map((table) => [table.id, table]));
+    const result: ProcessedTable[] = [];
+    let mergedCount = 0;
+
+    for (const table of tables) {
+      if (
+        table.continuedFromTableId !== undefined &&
+        tablesById.has(table.continuedFromTableId)
+      ) {
+        continue;
+      }
+
+      const fragments = [table];
+      let next = this.getNext(table, tablesById);
+      while (next) {
+        fragments.push(next);
+        next = this.getNext(next, tablesById);
+      }
+
+      if (fragments.length === 1) {
+        result.push(table);
+        continue;
+      }
+
+      result.push(this.mergeFragments(fragments));
+      mergedCount += fragments.length;
+    }
+
+    this.logger.info(
+      `[TableContinuationMerger] Merged ${mergedCount} fragments, ${result.length} tables remain`,
+    );
+
+    return result;
+  }
+
+  private mergeFragments(fragments: ProcessedTable[]): ProcessedTable {
+    const [first, ...rest] = fragments;
+    const headerKeys = first.grid
+      .slice(0, Math.max(1, countHeaderRows(first.grid)))
+      .map(getRowKey);
+
+    const grid = [...first.grid];
+    const rowPdfPageNos = first.grid.map(() => first.pdfPageNo);
+
+    for (const fragment of rest) {
+      let skip = 0;
+      while (
+        skip < headerKeys.length &&
+        skip < fragment.grid.length &&
+        getRowKey(fragment.grid[skip]) === headerKeys[skip]
+      ) {
+        skip++;
+      }
+
+      const rows = fragment.grid.slice(skip);
+      grid.push(...rows);
+      rowPdfPageNos.push(...rows.map(() => fragment.pdfPageNo));
+    }
+
+    const merged: ProcessedTable = {
+      id: first.id,
+      sourceRef: first.sourceRef,
+      captionSourceRefs: fragments.flatMap(
+        (fragment) => fragment.captionSourceRefs ?? [],
+      ),
+      pdfPageNo: first.pdfPageNo,
+      numRows: grid.length,
+      numCols: Math.max(...fragments.map((fragment) => fragment.numCols)),
+      grid,
+      rowPdfPageNos,
+      fragmentSourceRefs: fragments.flatMap((fragment) =>
+        fragment.sourceRef ? [fragment.sourceRef] : [],
+      ),
+    };
+
+    const caption = fragments.find((fragment) => fragment.caption)?.caption;
+    if (caption) {
+      merged.caption = caption;
+    }
+
+    return merged;
+  }
+
+  private getNext(
+    table: ProcessedTable,
+    tablesById: Map<string, ProcessedTable>,
+  ): ProcessedTable | undefined {
+    return table.continuedToTableId !== undefined
+      ? tablesById.get(table.continuedToTableId)
+      : undefined;
+  }
+
+  /**
+   * Whether following continuedToTableId from `start` arrives at `target`
+   */
+  private reaches(
+    start: ProcessedTable,
+    target: ProcessedTable,
+    tablesById: Map<string, ProcessedTable>,
+  ): boolean {
+    let current: ProcessedTable | undefined = start;
+    while (current) {
+      if (current === target) return true;
+      current = this.getNext(current, tablesById);
+    }
+    return false;
+  }
+}
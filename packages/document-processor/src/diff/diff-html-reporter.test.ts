@@ -0,0 +1,123 @@
+import type { ProcessedDocumentDiff } from './processed-document-differ';
+
+import { describe, expect, test } from 'vitest';
+
+import { DiffHtmlReporter } from './diff-html-reporter';
+
+describe('DiffHtmlReporter', () => {
+  const emptySummary = { added: 0, removed: 0, modified: 0, unchanged: 0 };
+
+  const diff: ProcessedDocumentDiff = {
+    beforeReportId: 'report-1',
+    afterReportId: 'report-1-v2',
+    summary: {
+      chapter: { ...emptySummary, unchanged: 3 },
+      textBlock: { ...emptySummary, added: 1, modified: 1 },
+      image: emptySummary,
+      table: { ...emptySummary, removed: 1, modified: 1 },
+    },
+    nodes: [
+      {
+        kind: 'textBlock',
+        status: 'modified',
+        beforeId: 'txt-001',
+        afterId: 'txt-001',
+        sourceRef: '#/texts/1',
+        pageNo: 2,
+        label: '<b>본문</b>',
+        matchedBy: 'sourceRef',
+        changes: [
+          { field: 'text', before: '<b>본몬</b>', after: '<b>본문</b>' },
+        ],
+      },
+      {
+        kind: 'textBlock',
+        status: 'added',
+        pageNo: 5,
+        label: '',
+        changes: [],
+      },
+      {
+        kind: 'table',
+        status: 'removed',
+        beforeId: 'tbl-002',
+        pageNo: 7,
+        label: '표 2',
+        changes: [],
+      },
+      {
+        kind: 'table',
+        status: 'modified',
+        beforeId: 'tbl-001',
+        afterId: 'tbl-009',
+        pageNo: 3,
+        label: '표 1',
+        matchedBy: 'text',
+        similarity: 0.912,
+        changes: [],
+        cellEdits: [{ row: 1, col: 0, before: null, after: '석기' }],
+      },
+    ],
+  };
+
+  test('renders a standalone page with a summary table', () => {
+    const html = new DiffHtmlReporter().render(diff);
+
+    expect(html.startsWith('<!DOCTYPE html>\n<html lang="ko">')).toBe(true);
+    expect(html).toContain('<title>report-1 → report-1-v2</title>');
+    expect(html).toContain(
+      '<tr><th>Text blocks</th><td>1</td><td>0</td><td>1</td><td>0</td></tr>',
+    );
+    expect(html).toContain(
+      '<tr><th>Chapters</th><td>0</td><td>0</td><td>0</td><td>3</td></tr>',
+    );
+    expect(html.endsWith('</body>\n</html>\n')).toBe(true);
+  });
+
+  test('renders sections only for kinds with changed nodes', () => {
+    const html = new DiffHtmlReporter().render(diff);
+
+    expect(html).toContain('<section data-kind="textBlock">');
+    expect(html).toContain('<section data-kind="table">');
+    expect(html).not.toContain('<section data-kind="chapter">');
+    expect(html).not.toContain('<section data-kind="image">');
+  });
+
+  test('renders escaped field changes and node metadata', () => {
+    const html = new DiffHtmlReporter().render(diff);
+
+    expect(html).toContain(
+      '<p><strong>&lt;b&gt;본문&lt;/b&gt;</strong><br><small>modified · txt-001 · p.2 · #/texts/1</small></p>',
+    );
+    expect(html).toContain(
+      '<tr><td>text</td><td><del>&lt;b&gt;본몬&lt;/b&gt;</del></td><td><ins>&lt;b&gt;본문&lt;/b&gt;</ins></td></tr>',
+    );
+    expect(html).toContain(
+      '<p><strong>∅</strong><br><small>added · p.5</small></p>',
+    );
+  });
+
+  test('renders table cell edits and fuzzy match similarity', () => {
+    const html = new DiffHtmlReporter().render(diff);
+
+    expect(html).toContain(
+      '<small>modified · tbl-001 → tbl-009 · p.3 · text match 0.91</small>',
+    );
+    expect(html).toContain(
+      '<tr><td>1</td><td>0</td><td><del>∅</del></td><td><ins>석기</ins></td></tr>',
+    );
+    expect(html).toContain('<div class="node removed">');
+    // Nodes without field changes get no changes table
+    expect(html.match(/<table class="changes">/g)).toHaveLength(1);
+  });
+
+  test('uses the configured language and title', () => {
+    const html = new DiffHtmlReporter({
+      lang: 'en',
+      title: 'Model A vs B',
+    }).render(diff);
+
+    expect(html).toContain('<html lang="en">');
+    expect(html).toContain('<h1>Model A vs B</h1>');
+  });
+});
@@ -0,0 +1,156 @@
+import type {
+  DiffFieldValue,
+  DiffNode,
+  DiffNodeKind,
+  ProcessedDocumentDiff,
+} from './processed-document-differ';
+
+import { escapeHtml } from '../exporters/html-exporter';
+
+/**
+ * Options for DiffHtmlReporter
+ */
+export interface DiffHtmlReporterOptions {
+  /**
+   * Value of the `lang` attribute on the html element (default: 'ko')
+   */
+  lang?: string;
+
+  /**
+   * Report title (default: "{before} → {after}" report IDs)
+   */
+  title?: string;
+}
+
+const KIND_HEADINGS: Record<DiffNodeKind, string> = {
+  chapter: 'Chapters',
+  textBlock: 'Text blocks',
+  image: 'Images',
+  table: 'Tables',
+};
+
+const STYLE = [
+  'body{font-family:sans-serif;margin:2rem}',
+  'table{border-collapse:collapse;margin:.5rem 0}',
+  'th,td{border:1px solid #ccc;padding:.25rem .5rem;text-align:left;vertical-align:top}',
+  '.added{border-left:4px solid #2e7d32}',
+  '.removed{border-left:4px solid #c62828}',
+  '.modified{border-left:4px solid #f9a825}',
+  '.node{padding:.25rem .75rem;margin:.75rem 0}',
+  'del{background:#fdecea}',
+  'ins{background:#e8f5e9;text-decoration:none}',
+].join('\n');
+
+function formatValue(value: DiffFieldValue): string {
+  return value === null ? '∅' : escapeHtml(String(value));
+}
+
+/**
+ * DiffHtmlReporter
+ *
+ * Renders a ProcessedDocumentDiff as a standalone HTML page: a summary
+ * table per node kind, followed by every added, removed and modified node
+ * with its field changes and table cell edits.
+ */
+export class DiffHtmlReporter {
+  private readonly lang: string;
+  private readonly title?: string;
+
+  constructor(options: DiffHtmlReporterOptions = {}) {
+    this.lang = options.lang ?? 'ko';
+    this.title = options.title;
+  }
+
+  /**
+   * Render the diff to an HTML string
+   */
+  render(diff: ProcessedDocumentDiff): string {
+    const title =
+      this.title ?? `${diff.beforeReportId} → ${diff.afterReportId}`;
+    const kinds = Object.keys(KIND_HEADINGS) as DiffNodeKind[];
+
+    const lines: string[] = [
+      '<!DOCTYPE html>',
+      `<html lang="${escapeHtml(this.lang)}">`,
+      '<head>',
+      '<meta charset="utf-8">',
+      `<title>${escapeHtml(title)}</title>`,
+      `<style>\n${STYLE}\n</style>`,
+      '</head>',
+      '<body>',
+      `<h1>${escapeHtml(title)}</h1>`,
+      '<table class="summary">',
+      '<tr><th></th><th>Added</th><th>Removed</th><th>Modified</th><th>Unchanged</th></tr>',
+      ...kinds.map((kind) => {
+        const { added, removed, modified, unchanged } = diff.summary[kind];
+        return `<tr><th>${KIND_HEADINGS[kind]}</th><td>${added}</td><td>${removed}</td><td>${modified}</td><td>${unchanged}</td></tr>`;
+      }),
+      '</table>',
+    ];
+
+    for (const kind of kinds) {
+      const nodes = diff.nodes.filter((node) => node.kind === kind);
+      if (nodes.length === 0) continue;
+      lines.push(
+        `<section data-kind="${kind}">`,
+        `<h2>${KIND_HEADINGS[kind]}</h2>`,
+        ...nodes.map((node) => this.renderNode(node)),
+        '</section>',
+      );
+    }
+
+    lines.push('</body>', '</html>');
+    return `${lines.join('\n')}\n`;
+  }
+
+  private renderNode(node: DiffNode): string {
+    // Content-hash IDs usually stay the same, so show them once
+    const ids = [...new Set([node.beforeId, node.afterId])]
+      .filter((id) => id !== undefined)
+      .join(' → ');
+    const meta = [
+      node.status,
+      ids,
+      `p.${node.pageNo}`,
+      node.sourceRef,
+      node.similarity !== undefined
+        ? `text match ${node.similarity.toFixed(2)}`
+        : undefined,
+    ]
+      .filter((part): part is string => !!part)
+      .map(escapeHtml)
+      .join(' · ');
+
+    const lines = [
+      `<div class="node ${node.status}">`,
+      `<p><strong>${escapeHtml(node.label) || '∅'}</strong><br><small>${meta}</small></p>`,
+    ];
+
+    if (node.changes.length > 0) {
+      lines.push(
+        '<table class="changes">',
+        '<tr><th>Field</th><th>Before</th><th>After</th></tr>',
+        ...node.changes.map(
+          (change) =>
+            `<tr><td>${escapeHtml(change.field)}</td><td><del>${formatValue(change.before)}</del></td><td><ins>${formatValue(change.after)}</ins></td></tr>`,
+        ),
+        '</table>',
+      );
+    }
+
+    if (node.cellEdits?.length) {
+      lines.push(
+        '<table class="cell-edits">',
+        '<tr><th>Row</th><th>Col</th><th>Before</th><th>After</th></tr>',
+        ...node.cellEdits.map(
+          (edit) =>
+            `<tr><td>${edit.row}</td><td>${edit.col}</td><td><del>${formatValue(edit.before)}</del></td><td><ins>${formatValue(edit.after)}</ins></td></tr>`,
+        ),
+        '</table>',
+      );
+    }
+
+    lines.push('</div>');
+    return lines.join('\n');
+  }
+}
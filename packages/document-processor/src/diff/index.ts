@@ -0,0 +1,16 @@
+export { DiffHtmlReporter } from './diff-html-reporter';
+export type { DiffHtmlReporterOptions } from './diff-html-reporter';
+export { diffProcessedDocuments } from './processed-document-differ';
+export type {
+  DiffFieldChange,
+  DiffFieldValue,
+  DiffKindSummary,
+  DiffMatchMethod,
+  DiffNode,
+  DiffNodeKind,
+  DiffNodeStatus,
+  ProcessedDocumentDiff,
+  ProcessedDocumentDiffOptions,
+  TableCellEdit,
+} from './processed-document-differ';
+export { textSimilarity } from './text-similarity';
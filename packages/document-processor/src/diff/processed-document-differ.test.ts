@@ -0,0 +1,454 @@
+import type { ProcessedTable, ProcessedTableCell } from '@heripo/model';
+
+import { describe, expect, test } from 'vitest';
+
+import {
+  createChapter,
+  createDocument,
+  createPart,
+} from '../testing/processed-document-fixtures';
+import { diffProcessedDocuments } from './processed-document-differ';
+
+describe('diffProcessedDocuments', () => {
+  const cells = (...rows: string[][]): ProcessedTableCell[][] =>
+    rows.map((row) =>
+      row.map((text) => ({ text, rowSpan: 1, colSpan: 1, isHeader: false })),
+    );
+
+  const createTable = (
+    id: string,
+    grid: ProcessedTableCell[][],
+    overrides?: Partial<ProcessedTable>,
+  ): ProcessedTable => ({
+    id,
+    sourceRef: '#/tables/0',
+    pdfPageNo: 3,
+    numRows: grid.length,
+    numCols: grid[0]?.length ?? 0,
+    grid,
+    ...overrides,
+  });
+
+  test('reports no nodes for identical documents', () => {
+    const document = createDocument({
+      chapters: [
+        createChapter('ch-001', 'Ⅰ. 조사개요', {
+          textBlocks: [
+            {
+              id: 'txt-001',
+              sourceRef: '#/texts/1',
+              text: '본문',
+              pdfPageNo: 1,
+            },
+          ],
+          children: [createChapter('ch-002', '1. 조사경위', { level: 2 })],
+        }),
+      ],
+    });
+
+    const diff = diffProcessedDocuments(document, document);
+
+    expect(diff.nodes).toEqual([]);
+    expect(diff.summary).toEqual({
+      chapter: { added: 0, removed: 0, modified: 0, unchanged: 2 },
+      textBlock: { added: 0, removed: 0, modified: 0, unchanged: 1 },
+      image: { added: 0, removed: 0, modified: 0, unchanged: 0 },
+      table: { added: 0, removed: 0, modified: 0, unchanged: 0 },
+    });
+  });
+
+  test('aligns nodes by source ref and reports changed fields', () => {
+    const before = createDocument({
+      chapters: [
+        createChapter('ch-001', 'Ⅰ. 조사 개요', {
+          sourceRefs: ['#/texts/0'],
+          imageIds: ['img-001'],
+          textBlocks: [
+            {
+              id: 'txt-001',
+              sourceRef: '#/texts/1',
+              text: '발굴조사는 2020년에 실시하였다.',
+              pdfPageNo: 2,
+            },
+          ],
+        }),
+      ],
+      images: [
+        {
+          id: 'img-001',
+          sourceRef: '#/pictures/0',
+          path: 'images/image_0.png',
+          pdfPageNo: 2,
+        },
+      ],
+    });
+    const after = createDocument({
+      reportId: 'report-1-v2',
+      chapters: [
+        createChapter('ch-001', 'Ⅰ. 조사개요', {
+          sourceRefs: ['#/texts/0'],
+          textBlocks: [
+            {
+              id: 'txt-001',
+              sourceRef: '#/texts/1',
+              text: '발굴조사는 2021년에 실시하였다.',
+              pdfPageNo: 2,
+            },
+          ],
+        }),
+      ],
+      images: [
+        {
+          id: 'img-001',
+          sourceRef: '#/pictures/0',
+          path: 'images/image_0.png',
+          pdfPageNo: 2,
+          caption: { fullText: '사진 1. 조사지역 전경' },
+        },
+      ],
+    });
+
+    const diff = diffProcessedDocuments(before, after);
+
+    expect(diff.beforeReportId).toBe('report-1');
+    expect(diff.afterReportId).toBe('report-1-v2');
+    expect(diff.nodes).toEqual([
+      {
+        kind: 'chapter',
+        status: 'modified',
+        beforeId: 'ch-001',
+        afterId: 'ch-001',
+        sourceRef: '#/texts/0',
+        pageNo: 1,
+        label: 'Ⅰ. 조사개요',
+        matchedBy: 'sourceRef',
+        changes: [
+          { field: 'title', before: 'Ⅰ. 조사 개요', after: 'Ⅰ. 조사개요' },
+        ],
+      },
+      {
+        kind: 'textBlock',
+        status: 'modified',
+        beforeId: 'txt-001',
+        afterId: 'txt-001',
+        sourceRef: '#/texts/1',
+        pageNo: 2,
+        label: '발굴조사는 2021년에 실시하였다.',
+        matchedBy: 'sourceRef',
+        changes: [
+          {
+            field: 'text',
+            before: '발굴조사는 2020년에 실시하였다.',
+            after: '발굴조사는 2021년에 실시하였다.',
+          },
+          { field: 'chapter', before: 'Ⅰ. 조사 개요', after: 'Ⅰ. 조사개요' },
+        ],
+      },
+      {
+        kind: 'image',
+        status: 'modified',
+        beforeId: 'img-001',
+        afterId: 'img-001',
+        sourceRef: '#/pictures/0',
+        pageNo: 2,
+        label: '사진 1. 조사지역 전경',
+        matchedBy: 'sourceRef',
+        changes: [
+          { field: 'caption', before: null, after: '사진 1. 조사지역 전경' },
+          { field: 'chapter', before: 'Ⅰ. 조사 개요', after: null },
+        ],
+      },
+    ]);
+  });
+
+  test('compares chapters, text blocks and resources of parts', () => {
+    const createPartDocument = (text: string) =>
+      createDocument({
+        parts: [
+          createPart({
+            chapters: [
+              createChapter('part-001-ch-001', 'Ⅰ. 분석 방법', {
+                sourceRefs: ['#/texts/40'],
+                imageIds: ['img-010'],
+                textBlocks: [
+                  {
+                    id: 'txt-010',
+                    sourceRef: '#/texts/41',
+                    text,
+                    pdfPageNo: 11,
+                  },
+                ],
+              }),
+            ],
+          }),
+        ],
+        images: [
+          {
+            id: 'img-010',
+            sourceRef: '#/pictures/10',
+            path: 'images/image_10.png',
+            pdfPageNo: 11,
+          },
+        ],
+      });
+
+    const diff = diffProcessedDocuments(
+      createPartDocument('시료를 채취하였다.'),
+      createPartDocument('시료 3점을 채취하였다.'),
+    );
+
+    expect(diff.nodes).toEqual([
+      {
+        kind: 'textBlock',
+        status: 'modified',
+        beforeId: 'txt-010',
+        afterId: 'txt-010',
+        sourceRef: '#/texts/41',
+        pageNo: 11,
+        label: '시료 3점을 채취하였다.',
+        matchedBy: 'sourceRef',
+        changes: [
+          {
+            field: 'text',
+            before: '시료를 채취하였다.',
+            after: '시료 3점을 채취하였다.',
+          },
+        ],
+      },
+    ]);
+    expect(diff.summary.chapter.unchanged).toBe(1);
+    expect(diff.summary.image.unchanged).toBe(1);
+  });
+
+  test('falls back to fuzzy text matching on nearby pages', () => {
+    const before = createDocument({
+      chapters: [
+        createChapter('ch-001', '유물', {
+          textBlocks: [
+            {
+              sourceRef: '#/texts/7',
+              text: '1호 주거지에서 토기편이 출토되었다.',
+              pdfPageNo: 4,
+            },
+            { text: '2호 주거지는 평면 방형이다.', pdfPageNo: 9 },
+          ],
+        }),
+      ],
+    });
+    const after = createDocument({
+      chapters: [
+        createChapter('ch-001', '유물', {
+          textBlocks: [
+            {
+              id: 'txt-aaaaaaaaaaaa',
+              text: '1호 주거지에서 토기편이 출토 되었다',
+              pdfPageNo: 5,
+            },
+            { text: '2호 주거지는 평면 방형이다.', pdfPageNo: 12 },
+          ],
+        }),
+      ],
+    });
+
+    const diff = diffProcessedDocuments(before, after);
+
+    expect(diff.summary.textBlock).toEqual({
+      added: 1,
+      removed: 1,
+      modified: 1,
+      unchanged: 0,
+    });
+    expect(diff.nodes).toEqual([
+      {
+        kind: 'textBlock',
+        status: 'removed',
+        beforeId: undefined,
+        sourceRef: undefined,
+        pageNo: 9,
+        label: '2호 주거지는 평면 방형이다.',
+        changes: [],
+      },
+      expect.objectContaining({
+        status: 'modified',
+        afterId: 'txt-aaaaaaaaaaaa',
+        sourceRef: '#/texts/7',
+        matchedBy: 'text',
+        similarity: expect.any(Number),
+        changes: [
+          {
+            field: 'text',
+            before: '1호 주거지에서 토기편이 출토되었다.',
+            after: '1호 주거지에서 토기편이 출토 되었다',
+          },
+          { field: 'pdfPageNo', before: 4, after: 5 },
+        ],
+      }),
+      {
+        kind: 'textBlock',
+        status: 'added',
+        afterId: undefined,
+        sourceRef: undefined,
+        pageNo: 12,
+        label: '2호 주거지는 평면 방형이다.',
+        changes: [],
+      },
+    ]);
+  });
+
+  test('prefers the most similar and then the nearest counterpart', () => {
+    const before = createDocument({
+      chapters: [
+        createChapter('ch-001', '유물', {
+          textBlocks: [
+            { id: 'a', text: '토기 저부편', pdfPageNo: 2 },
+            { id: 'b', text: '토기 구연부편', pdfPageNo: 2 },
+          ],
+        }),
+      ],
+    });
+    const after = createDocument({
+      chapters: [
+        createChapter('ch-001', '유물', {
+          textBlocks: [
+            { id: 'x', text: '토기 저부편', pdfPageNo: 3 },
+            { id: 'y', text: '토기 저부편', pdfPageNo: 2 },
+            { id: 'z', text: '토기 구연부편.', pdfPageNo: 2 },
+          ],
+        }),
+      ],
+    });
+
+    const diff = diffProcessedDocuments(before, after, {
+      similarityThreshold: 0.5,
+    });
+
+    expect(diff.summary.textBlock).toMatchObject({
+      added: 1,
+      modified: 1,
+      unchanged: 1,
+    });
+    expect(diff.nodes).toEqual([
+      expect.objectContaining({
+        status: 'modified',
+        beforeId: 'b',
+        afterId: 'z',
+      }),
+      expect.objectContaining({ status: 'added', afterId: 'x' }),
+    ]);
+  });
+
+  test('matches chapters regardless of page distance', () => {
+    const before = createDocument({
+      chapters: [createChapter('ch-001', 'Ⅲ. 고찰', { pageNo: 10 })],
+    });
+    const after = createDocument({
+      chapters: [createChapter('ch-002', 'Ⅲ. 고찰', { pageNo: 40 })],
+    });
+
+    const diff = diffProcessedDocuments(before, after, { pageWindow: 0 });
+
+    expect(diff.nodes).toEqual([
+      expect.objectContaining({
+        kind: 'chapter',
+        status: 'modified',
+        beforeId: 'ch-001',
+        afterId: 'ch-002',
+        similarity: 1,
+        changes: [{ field: 'pageNo', before: 10, after: 40 }],
+      }),
+    ]);
+  });
+
+  test('matches repeated source refs once in document order', () => {
+    const before = createDocument({
+      chapters: [
+        createChapter('ch-001', 'A', { sourceRefs: ['#/texts/0'] }),
+        createChapter('ch-002', 'B', { sourceRefs: ['#/texts/0'] }),
+      ],
+    });
+    const after = createDocument({
+      chapters: [createChapter('ch-101', 'A', { sourceRefs: ['#/texts/0'] })],
+    });
+
+    const diff = diffProcessedDocuments(before, after);
+
+    expect(diff.summary.chapter).toEqual({
+      added: 0,
+      removed: 1,
+      modified: 0,
+      unchanged: 1,
+    });
+    expect(diff.nodes).toEqual([
+      expect.objectContaining({ status: 'removed', beforeId: 'ch-002' }),
+    ]);
+  });
+
+  test('reports table cell edits including added rows and columns', () => {
+    const before = createDocument({
+      chapters: [createChapter('ch-001', '표', { tableIds: ['tbl-001'] })],
+      tables: [createTable('tbl-001', cells(['구분', '수량'], ['토기', '3']))],
+    });
+    const after = createDocument({
+      chapters: [createChapter('ch-001', '표', { tableIds: ['tbl-001'] })],
+      tables: [
+        createTable(
+          'tbl-001',
+          cells(['구분', '수량', '비고'], ['토기', '4'], ['석기', '1']),
+          { caption: { fullText: '표 1. 출토유물' } },
+        ),
+      ],
+    });
+
+    const [node] = diffProcessedDocuments(before, after).nodes;
+
+    expect(node).toMatchObject({
+      kind: 'table',
+      status: 'modified',
+      label: '표 1. 출토유물 구분 수량 비고 토기 4 석기 1',
+      changes: [
+        { field: 'caption', before: null, after: '표 1. 출토유물' },
+        { field: 'numRows', before: 2, after: 3 },
+        { field: 'numCols', before: 2, after: 3 },
+      ],
+      cellEdits: [
+        { row: 0, col: 2, before: null, after: '비고' },
+        { row: 1, col: 1, before: '3', after: '4' },
+        { row: 2, col: 0, before: null, after: '석기' },
+        { row: 2, col: 1, before: null, after: '1' },
+      ],
+    });
+  });
+
+  test('reports tables whose only changes are cell edits', () => {
+    const before = createDocument({
+      tables: [createTable('tbl-001', cells(['토기', '3'], ['석기', '1']))],
+    });
+    const after = createDocument({
+      tables: [createTable('tbl-001', cells(['토기', '3']), { numRows: 2 })],
+    });
+
+    const [node] = diffProcessedDocuments(before, after).nodes;
+
+    expect(node.changes).toEqual([]);
+    expect(node.cellEdits).toEqual([
+      { row: 1, col: 0, before: '석기', after: null },
+      { row: 1, col: 1, before: '1', after: null },
+    ]);
+  });
+
+  test('truncates long labels', () => {
+    const text = '가'.repeat(100);
+    const diff = diffProcessedDocuments(
+      createDocument(),
+      createDocument({
+        chapters: [
+          createChapter('ch-001', 'A', {
+            textBlocks: [{ text, pdfPageNo: 1 }],
+          }),
+        ],
+      }),
+    );
+
+    expect(diff.nodes.at(-1)?.label).toBe(`${'가'.repeat(79)}…`);
+  });
+});
@@ -0,0 +1,377 @@
+import type { ProcessedDocument, ProcessedTableCell } from '@heripo/model';
+
+import { flattenDocumentChapters, matchByKey } from '../utils/item-matcher';
+import { textSimilarity } from './text-similarity';
+
+/**
+ * Kinds of nodes aligned between two ProcessedDocument versions
+ */
+export type DiffNodeKind = 'chapter' | 'textBlock' | 'image' | 'table';
+
+export type DiffNodeStatus = 'added' | 'removed' | 'modified';
+
+/**
+ * How a node of the first document was aligned with the second
+ *
+ * - `sourceRef`: same Docling source ref
+ * - `text`: fuzzy text match on nearby pages
+ */
+export type DiffMatchMethod = 'sourceRef' | 'text';
+
+export type DiffFieldValue = string | number | null;
+
+export interface DiffFieldChange {
+  field: string;
+  before: DiffFieldValue;
+  after: DiffFieldValue;
+}
+
+/**
+ * Changed table cell; `null` marks a cell that exists on one side only
+ */
+export interface TableCellEdit {
+  row: number;
+  col: number;
+  before: string | null;
+  after: string | null;
+}
+
+export interface DiffNode {
+  kind: DiffNodeKind;
+  status: DiffNodeStatus;
+  beforeId?: string;
+  afterId?: string;
+  sourceRef?: string;
+  /** PDF page (actual page for chapters) of the newer side */
+  pageNo: number;
+  /** Title, text or caption excerpt identifying the node */
+  label: string;
+  matchedBy?: DiffMatchMethod;
+  /** Text similarity of fuzzy matches */
+  similarity?: number;
+  /** Changed fields; empty for added and removed nodes */
+  changes: DiffFieldChange[];
+  /** Changed cells of modified tables */
+  cellEdits?: TableCellEdit[];
+}
+
+export interface DiffKindSummary {
+  added: number;
+  removed: number;
+  modified: number;
+  unchanged: number;
+}
+
+export interface ProcessedDocumentDiff {
+  beforeReportId: string;
+  afterReportId: string;
+  summary: Record<DiffNodeKind, DiffKindSummary>;
+  nodes: DiffNode[];
+}
+
+export interface ProcessedDocumentDiffOptions {
+  /**
+   * Minimum text similarity (0-1) for aligning nodes without a shared
+   * source ref (default: 0.8)
+   */
+  similarityThreshold?: number;
+
+  /**
+   * Maximum page distance between fuzzy-matched text blocks, images and
+   * tables (default: 1)
+   */
+  pageWindow?: number;
+}
+
+interface DiffCandidate {
+  id?: string;
+  sourceRef?: string;
+  pageNo: number;
+  /** Text compared for fuzzy matching */
+  text: string;
+  fields: Record<string, DiffFieldValue>;
+  grid?: ProcessedTableCell[][];
+}
+
+interface MatchedPair {
+  before: DiffCandidate;
+  after: DiffCandidate;
+  matchedBy: DiffMatchMethod;
+  similarity?: number;
+}
+
+const DIFF_NODE_KINDS: DiffNodeKind[] = [
+  'chapter',
+  'textBlock',
+  'image',
+  'table',
+];
+
+const LABEL_MAX_LENGTH = 80;
+
+function toLabel(text: string): string {
+  const normalized = text.replace(/\s+/g, ' ').trim();
+  return normalized.length > LABEL_MAX_LENGTH
+    ? `${normalized.slice(0, LABEL_MAX_LENGTH - 1)}…`
+    : normalized;
+}
+
+function gridText(grid: ProcessedTableCell[][]): string {
+  return grid.map((row) => row.map((cell) => cell.text).join(' ')).join(' ');
+}
+
+function collectCandidates(
+  document: ProcessedDocument,
+): Record<DiffNodeKind, DiffCandidate[]> {
+  const chapters = flattenDocumentChapters(document);
+  const chapterTitleByResourceId = new Map<string, string>();
+  for (const chapter of chapters) {
+    for (const id of [...chapter.imageIds, ...chapter.tableIds]) {
+      chapterTitleByResourceId.set(id, chapter.title);
+    }
+  }
+
+  return {
+    chapter: chapters.map((chapter) => ({
+      id: chapter.id,
+      sourceRef: chapter.sourceRefs?.[0],
+      pageNo: chapter.pageNo,
+      text: chapter.title,
+      fields: {
+        title: chapter.title,
+        level: chapter.level,
+        pageNo: chapter.pageNo,
+      },
+    })),
+    textBlock: chapters.flatMap((chapter) =>
+      chapter.textBlocks.map((block) => ({
+        id: block.id,
+        sourceRef: block.sourceRef,
+        pageNo: block.pdfPageNo,
+        text: block.text,
+        fields: {
+          text: block.text,
+          pdfPageNo: block.pdfPageNo,
+          chapter: chapter.title,
+        },
+      })),
+    ),
+    image: document.images.map((image) => ({
+      id: image.id,
+      sourceRef: image.sourceRef,
+      pageNo: image.pdfPageNo,
+      text: image.caption?.fullText ?? '',
+      fields: {
+        caption: image.caption?.fullText ?? null,
+        pdfPageNo: image.pdfPageNo,
+        chapter: chapterTitleByResourceId.get(image.id) ?? null,
+      },
+    })),
+    table: document.tables.map((table) => ({
+      id: table.id,
+      sourceRef: table.sourceRef,
+      pageNo: table.pdfPageNo,
+      text: `${table.caption?.fullText ?? ''} ${gridText(table.grid)}`,
+      fields: {
+        caption: table.caption?.fullText ?? null,
+        pdfPageNo: table.pdfPageNo,
+        numRows: table.numRows,
+        numCols: table.numCols,
+        chapter: chapterTitleByResourceId.get(table.id) ?? null,
+      },
+      grid: table.grid,
+    })),
+  };
+}
+
+/**
+ * Compare two ProcessedDocument versions, e.g. before and after switching
+ * models or enabling review assistance.
+ *
+ * Chapters, text blocks, images and tables are aligned by Docling source ref
+ * first. The remaining nodes are aligned greedily by text similarity, most
+ * similar pairs first; text blocks, images and tables only within
+ * `pageWindow` pages. Unchanged nodes are only counted in the summary.
+ */
+export function diffProcessedDocuments(
+  before: ProcessedDocument,
+  after: ProcessedDocument,
+  options: ProcessedDocumentDiffOptions = {},
+): ProcessedDocumentDiff {
+  const similarityThreshold = options.similarityThreshold ?? 0.8;
+  const pageWindow = options.pageWindow ?? 1;
+  const beforeCandidates = collectCandidates(before);
+  const afterCandidates = collectCandidates(after);
+
+  const summary = {} as Record<DiffNodeKind, DiffKindSummary>;
+  const nodes: DiffNode[] = [];
+
+  for (const kind of DIFF_NODE_KINDS) {
+    const { pairs, removed, added } = alignCandidates(
+      beforeCandidates[kind],
+      afterCandidates[kind],
+      similarityThreshold,
+      // Chapter pages come from the TOC and may legitimately move far
+      kind === 'chapter' ? Infinity : pageWindow,
+    );
+
+    const modified = pairs.flatMap((pair) => {
+      const node = compareNodes(kind, pair);
+      return node ? [node] : [];
+    });
+
+    summary[kind] = {
+      added: added.length,
+      removed: removed.length,
+      modified: modified.length,
+      unchanged: pairs.length - modified.length,
+    };
+    nodes.push(
+      ...removed.map((candidate) =>
+        toSingleSideNode(kind, 'removed', candidate),
+      ),
+      ...modified,
+      ...added.map((candidate) => toSingleSideNode(kind, 'added', candidate)),
+    );
+  }
+
+  return {
+    beforeReportId: before.reportId,
+    afterReportId: after.reportId,
+    summary,
+    nodes,
+  };
+}
+
+function alignCandidates(
+  before: DiffCandidate[],
+  after: DiffCandidate[],
+  similarityThreshold: number,
+  pageWindow: number,
+): { pairs: MatchedPair[]; removed: DiffCandidate[]; added: DiffCandidate[] } {
+  const bySourceRef = matchByKey(
+    before,
+    after,
+    (candidate) => candidate.sourceRef,
+  );
+  const pairs: MatchedPair[] = bySourceRef.pairs.map((pair) => ({
+    before: pair.previous,
+    after: pair.current,
+    matchedBy: 'sourceRef',
+  }));
+  const unmatchedBefore = new Set(bySourceRef.unmatchedPrevious);
+  const unmatchedAfter = new Set(bySourceRef.unmatchedCurrent);
+
+  const scored: Array<MatchedPair & { similarity: number; distance: number }> =
+    [];
+  for (const left of unmatchedBefore) {
+    for (const right of unmatchedAfter) {
+      const distance = Math.abs(left.pageNo - right.pageNo);
+      if (distance > pageWindow) continue;
+      const similarity = textSimilarity(left.text, right.text);
+      if (similarity < similarityThreshold) continue;
+      scored.push({
+        before: left,
+        after: right,
+        matchedBy: 'text',
+        similarity,
+        distance,
+      });
+    }
+  }
+  // Stable sort keeps document order among equally good pairs
+  scored.sort((a, b) => b.similarity - a.similarity || a.distance - b.distance);
+  for (const pair of scored) {
+    if (!unmatchedBefore.has(pair.before) || !unmatchedAfter.has(pair.after)) {
+      continue;
+    }
+    pairs.push({
+      before: pair.before,
+      after: pair.after,
+      matchedBy: 'text',
+      similarity: pair.similarity,
+    });
+    unmatchedBefore.delete(pair.before);
+    unmatchedAfter.delete(pair.after);
+  }
+
+  return {
+    pairs,
+    removed: [...unmatchedBefore],
+    added: [...unmatchedAfter],
+  };
+}
+
+function compareNodes(
+  kind: DiffNodeKind,
+  pair: MatchedPair,
+): DiffNode | undefined {
+  const changes: DiffFieldChange[] = Object.keys(pair.after.fields)
+    .filter((field) => pair.before.fields[field] !== pair.after.fields[field])
+    .map((field) => ({
+      field,
+      before: pair.before.fields[field],
+      after: pair.after.fields[field],
+    }));
+  const cellEdits =
+    kind === 'table' ? diffGrids(pair.before.grid!, pair.after.grid!) : [];
+
+  if (changes.length === 0 && cellEdits.length === 0) {
+    return undefined;
+  }
+
+  return {
+    kind,
+    status: 'modified',
+    beforeId: pair.before.id,
+    afterId: pair.after.id,
+    sourceRef: pair.after.sourceRef ?? pair.before.sourceRef,
+    pageNo: pair.after.pageNo,
+    label: toLabel(pair.after.text),
+    matchedBy: pair.matchedBy,
+    ...(pair.similarity !== undefined ? { similarity: pair.similarity } : {}),
+    changes,
+    ...(kind === 'table' ? { cellEdits } : {}),
+  };
+}
+
+function diffGrids(
+  before: ProcessedTableCell[][],
+  after: ProcessedTableCell[][],
+): TableCellEdit[] {
+  const edits: TableCellEdit[] = [];
+  const rowCount = Math.max(before.length, after.length);
+
+  for (let row = 0; row < rowCount; row++) {
+    const beforeRow = before[row] ?? [];
+    const afterRow = after[row] ?? [];
+    const colCount = Math.max(beforeRow.length, afterRow.length);
+    for (let col = 0; col < colCount; col++) {
+      const beforeText = beforeRow[col]?.text ?? null;
+      const afterText = afterRow[col]?.text ?? null;
+      if (beforeText !== afterText) {
+        edits.push({ row, col, before: beforeText, after: afterText });
+      }
+    }
+  }
+
+  return edits;
+}
+
+function toSingleSideNode(
+  kind: DiffNodeKind,
+  status: 'added' | 'removed',
+  candidate: DiffCandidate,
+): DiffNode {
+  return {
+    kind,
+    status,
+    ...(status === 'removed'
+      ? { beforeId: candidate.id }
+      : { afterId: candidate.id }),
+    sourceRef: candidate.sourceRef,
+    pageNo: candidate.pageNo,
+    label: toLabel(candidate.text),
+    changes: [],
+  };
+}
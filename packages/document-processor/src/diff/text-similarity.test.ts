@@ -0,0 +1,32 @@
+import { describe, expect, test } from 'vitest';
+
+import { textSimilarity } from './text-similarity';
+
+describe('textSimilarity', () => {
+  test('returns 1 for texts that only differ in whitespace', () => {
+    expect(textSimilarity('조사 개요', '조사개요 ')).toBe(1);
+  });
+
+  test('returns 0 for texts without shared bigrams', () => {
+    expect(textSimilarity('유구', '토기')).toBe(0);
+  });
+
+  test('scores partially overlapping texts between 0 and 1', () => {
+    const similarity = textSimilarity(
+      '1호 주거지 출토 유물',
+      '1호 주거지 출토유물들',
+    );
+
+    expect(similarity).toBeGreaterThan(0.8);
+    expect(similarity).toBeLessThan(1);
+  });
+
+  test('counts repeated bigrams only as often as they occur', () => {
+    expect(textSimilarity('aaaa', 'aa')).toBe(0.5);
+  });
+
+  test('only matches single characters exactly', () => {
+    expect(textSimilarity('a', 'ab')).toBe(0);
+    expect(textSimilarity('', 'ab')).toBe(0);
+  });
+});
@@ -0,0 +1,30 @@
+function toBigrams(text: string): Map<string, number> {
+  const bigrams = new Map<string, number>();
+  for (let i = 0; i < text.length - 1; i++) {
+    const bigram = text.slice(i, i + 2);
+    bigrams.set(bigram, (bigrams.get(bigram) ?? 0) + 1);
+  }
+  return bigrams;
+}
+
+/**
+ * Similarity of two texts between 0 and 1
+ *
+ * Uses the Dice coefficient of character bigrams after removing whitespace,
+ * which tolerates OCR spacing differences and works for Hangul without
+ * tokenization. Texts shorter than two characters only match exactly.
+ */
+export function textSimilarity(a: string, b: string): number {
+  const left = a.replace(/\s+/g, '');
+  const right = b.replace(/\s+/g, '');
+  if (left === right) return 1;
+  if (left.length < 2 || right.length < 2) return 0;
+
+  const leftBigrams = toBigrams(left);
+  const rightBigrams = toBigrams(right);
+  let overlap = 0;
+  for (const [bigram, count] of leftBigrams) {
+    overlap += Math.min(count, rightBigrams.get(bigram) ?? 0);
+  }
+  return (2 * overlap) / (left.length - 1 + (right.length - 1));
+}
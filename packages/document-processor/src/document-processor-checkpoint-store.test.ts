@@ -0,0 +1,335 @@
+import type { DoclingDocument } from '@heripo/model';
+
+import type { DocumentProcessorCheckpointResources } from './document-processor-checkpoint-store';
+
+import {
+  existsSync,
+  mkdirSync,
+  mkdtempSync,
+  readFileSync,
+  rmSync,
+  writeFileSync,
+} from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, describe, expect, test } from 'vitest';
+
+import {
+  DocumentProcessorCheckpointStore,
+  computeDoclingSha256,
+  computeOptionsSha256,
+} from './document-processor-checkpoint-store';
+
+const pageRangeMap = { 1: { startPageNo: 1, endPageNo: 1 } };
+const toc = {
+  tocEntries: [{ title: 'Ⅰ. 조사개요', level: 1, pageNo: 1 }],
+  chapterSource: 'toc' as const,
+};
+const resources: DocumentProcessorCheckpointResources = {
+  images: [
+    {
+      id: 'img-001',
+      path: '/out/images/image_0.png',
+      pdfPageNo: 1,
+      caption: { num: '도판 1', fullText: '도판 1 유적 전경' },
+    },
+  ],
+  tables: [],
+  footnotes: [],
+};
+const imageClassification = [
+  { id: 'img-001', figureType: 'photo' as const, figureTypeConfidence: 0.9 },
+];
+const subFigures = [
+  {
+    id: 'img-001',
+    subFigures: [
+      {
+        id: 'img-001-1',
+        label: '①',
+        path: '/out/images/image_0_1.png',
+        bbox: { left: 0, top: 0, right: 0.5, bottom: 1 },
+      },
+    ],
+  },
+];
+const metadata = { title: '○○유적 발굴조사 보고서' };
+
+describe('DocumentProcessorCheckpointStore', () => {
+  let outputDir: string;
+  const now = () => new Date('2026-01-01T00:00:00.000Z');
+
+  afterEach(() => {
+    if (outputDir) {
+      rmSync(outputDir, { recursive: true, force: true });
+    }
+  });
+
+  const checkpointPath = (): string =>
+    join(outputDir, 'document_processor_checkpoint.json');
+
+  test('records and reloads every stage', () => {
+    outputDir = mkdtempSync(join(tmpdir(), 'processor-checkpoint-'));
+    const store = DocumentProcessorCheckpointStore.open(
+      outputDir,
+      'sha-1',
+      'opts-1',
+      now,
+    );
+
+    expect(store.getCompletedStages()).toEqual([]);
+
+    store.recordPageRangeMap(pageRangeMap);
+    store.recordToc(toc);
+    store.recordResources(resources);
+    store.recordImageClassification(imageClassification);
+    store.recordSubFigures(subFigures);
+    store.recordMetadata(metadata);
+
+    const reloaded = DocumentProcessorCheckpointStore.open(
+      outputDir,
+      'sha-1',
+      'opts-1',
+      now,
+    );
+    expect(reloaded.getCompletedStages()).toEqual([
+      'pageRangeMap',
+      'toc',
+      'resources',
+      'imageClassification',
+      'subFigures',
+      'metadata',
+    ]);
+    expect(reloaded.getPageRangeMap()).toEqual(pageRangeMap);
+    expect(reloaded.getToc()).toEqual(toc);
+    expect(reloaded.getResources()).toEqual(resources);
+    expect(reloaded.getImageClassification()).toEqual(imageClassification);
+    expect(reloaded.getSubFigures()).toEqual(subFigures);
+    expect(reloaded.getMetadata()).toEqual(metadata);
+    expect(JSON.parse(readFileSync(checkpointPath(), 'utf-8'))).toMatchObject({
+      schemaVersion: 1,
+      doclingSha256: 'sha-1',
+      optionsSha256: 'opts-1',
+      updatedAt: '2026-01-01T00:00:00.000Z',
+    });
+  });
+
+  test('creates the checkpoint directory on first write', () => {
+    outputDir = mkdtempSync(join(tmpdir(), 'processor-checkpoint-'));
+    const nestedDir = join(outputDir, 'nested', 'checkpoints');
+    const store = DocumentProcessorCheckpointStore.open(
+      nestedDir,
+      'sha-1',
+      'opts-1',
+    );
+
+    store.recordPageRangeMap(pageRangeMap);
+
+    expect(
+      existsSync(join(nestedDir, 'document_processor_checkpoint.json')),
+    ).toBe(true);
+  });
+
+  test('keeps later stages when an unchanged stage is recorded again', () => {
+    outputDir = mkdtempSync(join(tmpdir(), 'processor-checkpoint-'));
+    const store = DocumentProcessorCheckpointStore.open(
+      outputDir,
+      'sha-1',
+      'opts-1',
+      now,
+    );
+    store.recordPageRangeMap(pageRangeMap);
+    store.recordToc(toc);
+    store.recordResources(resources);
+
+    store.recordPageRangeMap({ ...pageRangeMap });
+    store.recordToc({ ...toc });
+
+    expect(store.getCompletedStages()).toEqual([
+      'pageRangeMap',
+      'toc',
+      'resources',
+    ]);
+  });
+
+  test('invalidates later stages when an earlier stage changes', () => {
+    outputDir = mkdtempSync(join(tmpdir(), 'processor-checkpoint-'));
+    const store = DocumentProcessorCheckpointStore.open(
+      outputDir,
+      'sha-1',
+      'opts-1',
+      now,
+    );
+    store.recordPageRangeMap(pageRangeMap);
+    store.recordToc(toc);
+    store.recordResources(resources);
+    store.recordImageClassification(imageClassification);
+    store.recordSubFigures(subFigures);
+    store.recordMetadata(metadata);
+
+    store.recordResources({ ...resources, images: [] });
+    expect(store.getCompletedStages()).toEqual([
+      'pageRangeMap',
+      'toc',
+      'resources',
+      'metadata',
+    ]);
+
+    store.recordToc({ ...toc, chapterSource: 'heading-inference' });
+    expect(store.getCompletedStages()).toEqual([
+      'pageRangeMap',
+      'toc',
+      'metadata',
+    ]);
+
+    store.recordPageRangeMap({ 1: { startPageNo: 3, endPageNo: 3 } });
+    expect(store.getCompletedStages()).toEqual(['pageRangeMap']);
+  });
+
+  test('discards checkpoints for another document, options or schema version', () => {
+    outputDir = mkdtempSync(join(tmpdir(), 'processor-checkpoint-'));
+    DocumentProcessorCheckpointStore.open(
+      outputDir,
+      'sha-1',
+      'opts-1',
+      now,
+    ).recordPageRangeMap(pageRangeMap);
+
+    expect(
+      DocumentProcessorCheckpointStore.open(
+        outputDir,
+        'sha-1',
+        'opts-2',
+        now,
+      ).getCompletedStages(),
+    ).toEqual([]);
+
+    DocumentProcessorCheckpointStore.open(
+      outputDir,
+      'sha-1',
+      'opts-1',
+      now,
+    ).recordPageRangeMap(pageRangeMap);
+    expect(
+      DocumentProcessorCheckpointStore.open(
+        outputDir,
+        'sha-2',
+        'opts-1',
+        now,
+      ).getCompletedStages(),
+    ).toEqual([]);
+
+    writeFileSync(
+      checkpointPath(),
+      JSON.stringify({
+        schemaVersion: 2,
+        doclingSha256: 'sha-1',
+        optionsSha256: 'opts-1',
+      }),
+    );
+    expect(
+      DocumentProcessorCheckpointStore.open(
+        outputDir,
+        'sha-1',
+        'opts-1',
+        now,
+      ).getCompletedStages(),
+    ).toEqual([]);
+  });
+
+  test('drops malformed stages and recovers from invalid JSON', () => {
+    outputDir = mkdtempSync(join(tmpdir(), 'processor-checkpoint-'));
+    mkdirSync(outputDir, { recursive: true });
+    writeFileSync(
+      checkpointPath(),
+      JSON.stringify({
+        schemaVersion: 1,
+        doclingSha256: 'sha-1',
+        optionsSha256: 'opts-1',
+        pageRangeMap: [],
+        toc: { tocEntries: [] },
+        resources: { images: [], tables: [] },
+        imageClassification: {},
+        subFigures: null,
+        metadata: [],
+      }),
+    );
+
+    expect(
+      DocumentProcessorCheckpointStore.open(
+        outputDir,
+        'sha-1',
+        'opts-1',
+        now,
+      ).getCompletedStages(),
+    ).toEqual([]);
+
+    writeFileSync(
+      checkpointPath(),
+      JSON.stringify({
+        schemaVersion: 1,
+        doclingSha256: 'sha-1',
+        optionsSha256: 'opts-1',
+        toc,
+      }),
+    );
+    expect(
+      DocumentProcessorCheckpointStore.open(
+        outputDir,
+        'sha-1',
+        'opts-1',
+      ).getToc(),
+    ).toEqual(toc);
+
+    writeFileSync(
+      checkpointPath(),
+      JSON.stringify({
+        schemaVersion: 1,
+        doclingSha256: 'sha-1',
+        optionsSha256: 'opts-1',
+        pageRangeMap: null,
+      }),
+    );
+    expect(
+      DocumentProcessorCheckpointStore.open(
+        outputDir,
+        'sha-1',
+        'opts-1',
+      ).getPageRangeMap(),
+    ).toBeUndefined();
+
+    writeFileSync(checkpointPath(), '{not json');
+    expect(
+      DocumentProcessorCheckpointStore.open(
+        outputDir,
+        'sha-1',
+        'opts-1',
+        now,
+      ).getCompletedStages(),
+    ).toEqual([]);
+  });
+
+  test('computes a stable SHA-256 for a Docling document', () => {
+    const doc = { name: 'report' } as unknown as DoclingDocument;
+
+    expect(computeDoclingSha256(doc)).toMatch(/^[0-9a-f]{64}$/);
+    expect(computeDoclingSha256(doc)).toBe(
+      computeDoclingSha256({ name: 'report' } as unknown as DoclingDocument),
+    );
+    expect(computeDoclingSha256(doc)).not.toBe(
+      computeDoclingSha256({ name: 'other' } as unknown as DoclingDocument),
+    );
+  });
+
+  test('computes a stable SHA-256 for processing options', () => {
+    const options = { idStrategy: 'sequential', mergeContinuedTables: false };
+
+    expect(computeOptionsSha256(options)).toMatch(/^[0-9a-f]{64}$/);
+    expect(computeOptionsSha256(options)).toBe(
+      computeOptionsSha256({ ...options }),
+    );
+    expect(computeOptionsSha256(options)).not.toBe(
+      computeOptionsSha256({ ...options, mergeContinuedTables: true }),
+    );
+  });
+});
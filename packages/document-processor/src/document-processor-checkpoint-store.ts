@@ -0,0 +1,308 @@
+import type {
+  ChapterSource,
+  DoclingDocument,
+  PageRange,
+  ProcessedFootnote,
+  ProcessedImage,
+  ProcessedTable,
+  ReportMetadata,
+} from '@heripo/model';
+
+import type { TocEntry } from './types';
+
+import { createHash } from 'node:crypto';
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+
+export type DocumentProcessorCheckpointStage =
+  | 'pageRangeMap'
+  | 'toc'
+  | 'resources'
+  | 'imageClassification'
+  | 'subFigures'
+  | 'metadata';
+
+export interface DocumentProcessorCheckpointToc {
+  tocEntries: TocEntry[];
+  chapterSource: ChapterSource;
+}
+
+export interface DocumentProcessorCheckpointResources {
+  images: ProcessedImage[];
+  tables: ProcessedTable[];
+  footnotes: ProcessedFootnote[];
+}
+
+/**
+ * Figure type set on an image by ImageClassifier
+ */
+export type DocumentProcessorCheckpointImageClassification = Pick<
+  ProcessedImage,
+  'id' | 'figureType' | 'figureTypeConfidence'
+>;
+
+/**
+ * Sub-figures split from an image by SubFigureSplitter
+ */
+export type DocumentProcessorCheckpointSubFigures = Pick<
+  ProcessedImage,
+  'id' | 'subFigures'
+>;
+
+export interface DocumentProcessorCheckpoint {
+  schemaVersion: 1;
+  doclingSha256: string;
+  optionsSha256: string;
+  pageRangeMap?: Record<number, PageRange>;
+  toc?: DocumentProcessorCheckpointToc;
+  resources?: DocumentProcessorCheckpointResources;
+  imageClassification?: DocumentProcessorCheckpointImageClassification[];
+  subFigures?: DocumentProcessorCheckpointSubFigures[];
+  metadata?: ReportMetadata;
+  updatedAt: string;
+}
+
+const CHECKPOINT_FILE = 'document_processor_checkpoint.json';
+
+/**
+ * Checkpointed stages in pipeline order, each with the stages derived from it
+ */
+const DEPENDENT_STAGES: Record<
+  DocumentProcessorCheckpointStage,
+  DocumentProcessorCheckpointStage[]
+> = {
+  pageRangeMap: [
+    'toc',
+    'resources',
+    'imageClassification',
+    'subFigures',
+    'metadata',
+  ],
+  toc: ['resources', 'imageClassification', 'subFigures'],
+  resources: ['imageClassification', 'subFigures'],
+  imageClassification: [],
+  subFigures: [],
+  metadata: [],
+};
+
+/**
+ * Compute the SHA-256 of a Docling document's JSON serialization
+ */
+export function computeDoclingSha256(doclingDoc: DoclingDocument): string {
+  return createHash('sha256').update(JSON.stringify(doclingDoc)).digest('hex');
+}
+
+/**
+ * Compute the SHA-256 of the processing options that shape checkpointed
+ * stages (e.g. ID strategy and table merging)
+ */
+export function computeOptionsSha256(options: Record<string, unknown>): string {
+  return createHash('sha256').update(JSON.stringify(options)).digest('hex');
+}
+
+/**
+ * Persists completed DocumentProcessor stages so a failed run can resume.
+ *
+ * The checkpoint is keyed by the Docling SHA-256 and an options SHA-256; a
+ * checkpoint written for a different document, with different options, or an
+ * unreadable file is discarded on open.
+ */
+export class DocumentProcessorCheckpointStore {
+  private constructor(
+    private readonly dir: string,
+    private checkpoint: DocumentProcessorCheckpoint,
+    private readonly now: () => Date = () => new Date(),
+  ) {}
+
+  static open(
+    dir: string,
+    doclingSha256: string,
+    optionsSha256: string,
+    now?: () => Date,
+  ): DocumentProcessorCheckpointStore {
+    const checkpoint = this.read(
+      join(dir, CHECKPOINT_FILE),
+      doclingSha256,
+      optionsSha256,
+      now?.() ?? new Date(),
+    );
+    return new DocumentProcessorCheckpointStore(dir, checkpoint, now);
+  }
+
+  /**
+   * Stages already stored in the checkpoint, in pipeline order
+   */
+  getCompletedStages(): DocumentProcessorCheckpointStage[] {
+    return (
+      Object.keys(DEPENDENT_STAGES) as DocumentProcessorCheckpointStage[]
+    ).filter((stage) => this.checkpoint[stage] !== undefined);
+  }
+
+  getPageRangeMap(): Record<number, PageRange> | undefined {
+    return this.checkpoint.pageRangeMap;
+  }
+
+  getToc(): DocumentProcessorCheckpointToc | undefined {
+    return this.checkpoint.toc;
+  }
+
+  getResources(): DocumentProcessorCheckpointResources | undefined {
+    return this.checkpoint.resources;
+  }
+
+  getImageClassification():
+    DocumentProcessorCheckpointImageClassification[] | undefined {
+    return this.checkpoint.imageClassification;
+  }
+
+  getSubFigures(): DocumentProcessorCheckpointSubFigures[] | undefined {
+    return this.checkpoint.subFigures;
+  }
+
+  getMetadata(): ReportMetadata | undefined {
+    return this.checkpoint.metadata;
+  }
+
+  /**
+   * Store the page range map
+   *
+   * A map that differs from the stored one invalidates the later stages.
+   */
+  recordPageRangeMap(pageRangeMap: Record<number, PageRange>): void {
+    this.record('pageRangeMap', pageRangeMap);
+  }
+
+  /**
+   * Store the TOC stage result
+   *
+   * A result that differs from the stored one invalidates the resources and
+   * image stages.
+   */
+  recordToc(toc: DocumentProcessorCheckpointToc): void {
+    this.record('toc', toc);
+  }
+
+  /**
+   * Store the converted resources
+   *
+   * Resources that differ from the stored ones invalidate the image stages.
+   */
+  recordResources(resources: DocumentProcessorCheckpointResources): void {
+    this.record('resources', resources);
+  }
+
+  recordImageClassification(
+    imageClassification: DocumentProcessorCheckpointImageClassification[],
+  ): void {
+    this.record('imageClassification', imageClassification);
+  }
+
+  recordSubFigures(subFigures: DocumentProcessorCheckpointSubFigures[]): void {
+    this.record('subFigures', subFigures);
+  }
+
+  recordMetadata(metadata: ReportMetadata): void {
+    this.record('metadata', metadata);
+  }
+
+  private record<K extends DocumentProcessorCheckpointStage>(
+    stage: K,
+    value: DocumentProcessorCheckpoint[K],
+  ): void {
+    if (!this.isSame(this.checkpoint[stage], value)) {
+      for (const dependent of DEPENDENT_STAGES[stage]) {
+        this.checkpoint[dependent] = undefined;
+      }
+    }
+    this.checkpoint[stage] = value;
+    this.write();
+  }
+
+  private isSame(stored: unknown, value: unknown): boolean {
+    return JSON.stringify(stored) === JSON.stringify(value);
+  }
+
+  private write(): void {
+    this.checkpoint.updatedAt = this.now().toISOString();
+    mkdirSync(this.dir, { recursive: true });
+    writeFileSync(
+      join(this.dir, CHECKPOINT_FILE),
+      JSON.stringify(this.checkpoint, null, 2),
+    );
+  }
+
+  private static read(
+    path: string,
+    doclingSha256: string,
+    optionsSha256: string,
+    now: Date,
+  ): DocumentProcessorCheckpoint {
+    if (!existsSync(path)) {
+      return this.empty(doclingSha256, optionsSha256, now);
+    }
+
+    try {
+      const parsed = JSON.parse(
+        readFileSync(path, 'utf-8'),
+      ) as Partial<DocumentProcessorCheckpoint>;
+      if (
+        parsed.schemaVersion !== 1 ||
+        parsed.doclingSha256 !== doclingSha256 ||
+        parsed.optionsSha256 !== optionsSha256
+      ) {
+        return this.empty(doclingSha256, optionsSha256, now);
+      }
+
+      const { toc, resources, metadata } = parsed;
+      return {
+        schemaVersion: 1,
+        doclingSha256,
+        optionsSha256,
+        pageRangeMap: this.isRecord(parsed.pageRangeMap)
+          ? parsed.pageRangeMap
+          : undefined,
+        toc:
+          Array.isArray(toc?.tocEntries) &&
+          typeof toc.chapterSource === 'string'
+            ? toc
+            : undefined,
+        resources:
+          Array.isArray(resources?.images) &&
+          Array.isArray(resources.tables) &&
+          Array.isArray(resources.footnotes)
+            ? resources
+            : undefined,
+        imageClassification: Array.isArray(parsed.imageClassification)
+          ? parsed.imageClassification
+          : undefined,
+        subFigures: Array.isArray(parsed.subFigures)
+          ? parsed.subFigures
+          : undefined,
+        metadata: this.isRecord(metadata) ? metadata : undefined,
+        updatedAt:
+          typeof parsed.updatedAt === 'string'
+            ? parsed.updatedAt
+            : now.toISOString(),
+      };
+    } catch {
+      return this.empty(doclingSha256, optionsSha256, now);
+    }
+  }
+
+  private static isRecord(value: unknown): boolean {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+  }
+
+  private static empty(
+    doclingSha256: string,
+    optionsSha256: string,
+    now: Date,
+  ): DocumentProcessorCheckpoint {
+    return {
+      schemaVersion: 1,
+      doclingSha256,
+      optionsSha256,
+      updatedAt: now.toISOString(),
+    };
+  }
+}
@@ -1,17 +1,40 @@
 import type { LoggerMethods } from '@heripo/logger';
-import type { DoclingDocument, PageRange } from '@heripo/model';
+import type {
+  DoclingDocument,
+  PageRange,
+  PdfOutlineItem,
+  ProcessedImage,
+} from '@heripo/model';
 import type { LanguageModel } from 'ai';
 
+import type {
+  DocumentProcessorOptions,
+  DocumentProcessorProcessOptions,
+} from './document-processor';
+import type { SubDocumentSegment } from './extractors/sub-document-detector';
 import type { TocEntry } from './types';
 
 import { BatchProcessor } from '@heripo/shared';
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
 import { beforeEach, describe, expect, test, vi } from 'vitest';
 
+import { ImageDeduplicator } from './converters/image-deduplicator';
 import {
+  DOCUMENT_PROCESSOR_STAGES,
   DocumentProcessor,
   PROCESSED_DOCUMENT_SCHEMA_VERSION,
 } from './document-processor';
+import { HeadingTocBuilder } from './extractors/heading-toc-builder';
+import { ImageClassifier } from './extractors/image-classifier';
+import { ReportMetadataExtractor } from './extractors/report-metadata-extractor';
+import { ResourceIndexParser } from './extractors/resource-index-parser';
+import { SubDocumentDetector } from './extractors/sub-document-detector';
+import { SubFigureSplitter } from './extractors/sub-figure-splitter';
 import { TocNotFoundError } from './extractors/toc-extract-error';
+import { IdGenerator } from './utils/id-generator';
+import { LayoutRegionResolver } from './utils/layout-region-resolver';
 
 // Mock CaptionParser for fallback reparse tests
 vi.mock('./parsers/caption-parser.js', () => ({
@@ -218,13 +241,16 @@ describe('DocumentProcessor', () => {
         pages: { '1': {} as any },
       }) as DoclingDocument;
 
-    const createProcessor = (): DocumentProcessor =>
+    const createProcessor = (
+      options: Partial<DocumentProcessorOptions> = {},
+    ): DocumentProcessor =>
       new DocumentProcessor({
         logger: mockLogger,
         fallbackModel: mockModel,
         textCleanerBatchSize: 10,
         captionParserBatchSize: 5,
         captionValidatorBatchSize: 5,
+        ...options,
       });
 
     test('uses default maxValidationRetries when initializing TocExtractor', () => {
@@ -250,6 +276,31 @@ describe('DocumentProcessor', () => {
       expect((processor as any).tocExtractor.maxValidationRetries).toBe(1);
     });
 
+    test('creates an IdGenerator per document with the configured strategy', () => {
+      const processor = new DocumentProcessor({
+        logger: mockLogger,
+        fallbackModel: mockModel,
+        textCleanerBatchSize: 10,
+        captionParserBatchSize: 5,
+        captionValidatorBatchSize: 5,
+        idStrategy: 'content-hash',
+      });
+
+      (processor as any).initializeProcessors(createMockDoc(), '/tmp');
+      (processor as any).initializeProcessors(createMockDoc(), '/tmp');
+
+      expect(IdGenerator).toHaveBeenCalledTimes(2);
+      expect(IdGenerator).toHaveBeenCalledWith('content-hash');
+    });
+
+    test('uses sequential IDs by default', () => {
+      const processor = createProcessor();
+
+      (processor as any).initializeProcessors(createMockDoc(), '/tmp');
+
+      expect(IdGenerator).toHaveBeenCalledWith('sequential');
+    });
+
     const stubSuccessfulProcessing = (
       processor: DocumentProcessor,
       pageRangeParseMock = vi.fn().mockResolvedValue({
@@ -555,6 +606,358 @@ describe('DocumentProcessor', () => {
       expect(result.document.source).toBe(source);
     });
 
+    test('should report stage progress in processing order', async () => {
+      const onStageProgress = vi.fn();
+      const processor = new DocumentProcessor({
+        logger: mockLogger,
+        fallbackModel: mockModel,
+        textCleanerBatchSize: 10,
+        captionParserBatchSize: 5,
+        captionValidatorBatchSize: 5,
+        onStageProgress,
+      });
+      stubSuccessfulProcessing(processor);
+
+      await processor.process(createMockDoc(), 'report-001', '/path');
+
+      expect(
+        onStageProgress.mock.calls.map(([event]) => [
+          event.stage,
+          event.status,
+        ]),
+      ).toEqual(
+        DOCUMENT_PROCESSOR_STAGES.flatMap((stage) => [
+          [stage, 'started'],
+          [stage, 'completed'],
+        ]),
+      );
+      expect(onStageProgress).toHaveBeenCalledWith({
+        stage: 'assembly',
+        status: 'completed',
+        durationMs: expect.any(Number),
+      });
+    });
+
+    test('should pass table continuation and picture split options to resource conversion', async () => {
+      const processor = createProcessor();
+      const mocks = stubSuccessfulProcessing(processor);
+      const mockDoc = createMockDoc();
+      const tableContinuations = [
+        {
+          sourceTableRef: '#/tables/0',
+          continuedTableRef: '#/tables/1',
+          relation: 'continues_on_next_page' as const,
+        },
+      ];
+      const pictureSplits = [
+        {
+          sourcePictureRef: '#/pictures/0',
+          replacementRefs: ['#/pictures/1'],
+          preservedCaptionRefs: [],
+          regions: [
+            {
+              snappedBbox: {
+                l: 0,
+                t: 0,
+                r: 1,
+                b: 1,
+                coord_origin: 'TOPLEFT' as const,
+              },
+            },
+          ],
+        },
+      ];
+
+      await processor.process(mockDoc, 'report-001', '/path', {
+        tableContinuations,
+        mergeContinuedTables: true,
+        pictureSplits,
+      });
+
+      expect(mocks.convertAllMock).toHaveBeenCalledWith(mockDoc, '/path', {
+        tableContinuations,
+        mergeContinuedTables: true,
+        pictureSplits,
+      });
+    });
+
+    test('should resume completed stages from the checkpoint directory', async () => {
+      const checkpointDir = mkdtempSync(
+        join(tmpdir(), 'processor-checkpoint-'),
+      );
+      const mockDoc = createMockDoc();
+      const image = {
+        id: 'img-001',
+        path: '/path/images/image_0.png',
+        pdfPageNo: 1,
+        caption: { num: '도판 1', fullText: '도판 1 유적 전경' },
+      };
+
+      try {
+        const failing = createProcessor();
+        const failingMocks = stubSuccessfulProcessing(failing);
+        failingMocks.convertAllMock.mockRejectedValue(
+          new Error('Caption validation failed'),
+        );
+        await expect(
+          failing.process(mockDoc, 'report-001', '/path', { checkpointDir }),
+        ).rejects.toThrow('Caption validation failed');
+
+        const resumed = createProcessor();
+        const resumedMocks = stubSuccessfulProcessing(resumed);
+        resumedMocks.convertAllMock.mockResolvedValue({
+          images: [image],
+          tables: [],
+          footnotes: [],
+        });
+        await resumed.process(mockDoc, 'report-001', '/path', {
+          checkpointDir,
+        });
+
+        expect(resumedMocks.pageRangeParseMock).not.toHaveBeenCalled();
+        expect(resumedMocks.tocExtractMock).not.toHaveBeenCalled();
+        expect(resumedMocks.convertAllMock).toHaveBeenCalledTimes(1);
+        expect(resumedMocks.chapterConvertMock).toHaveBeenCalledWith(
+          [{ title: 'Chapter 1', level: 1, pageNo: 1 }],
+          mockDoc.texts,
+          { 1: { startPageNo: 1, endPageNo: 1 } },
+          [image],
+          [],
+          [],
+          undefined,
+          [],
+        );
+        expect(mockLogger.info).toHaveBeenCalledWith(
+          '[DocumentProcessor] Checkpoint found with completed stages: pageRangeMap, toc',
+        );
+        expect(mockLogger.info).toHaveBeenCalledWith(
+          '[DocumentProcessor] Resumed page range map from checkpoint',
+        );
+        expect(mockLogger.info).toHaveBeenCalledWith(
+          '[DocumentProcessor] Resumed TOC entries from checkpoint',
+        );
+
+        const completed = createProcessor();
+        const completedMocks = stubSuccessfulProcessing(completed);
+        const result = await completed.process(mockDoc, 'report-001', '/path', {
+          checkpointDir,
+        });
+
+        expect(completedMocks.convertAllMock).not.toHaveBeenCalled();
+        expect(result.document.images).toEqual([image]);
+        expect(mockLogger.info).toHaveBeenCalledWith(
+          '[DocumentProcessor] Resumed converted resources from checkpoint',
+        );
+      } finally {
+        rmSync(checkpointDir, { recursive: true, force: true });
+      }
+    });
+
+    test('should resume image and metadata stages from the checkpoint directory', async () => {
+      const checkpointDir = mkdtempSync(
+        join(tmpdir(), 'processor-checkpoint-'),
+      );
+      const mockDoc = createMockDoc();
+      const subFigures = [
+        {
+          id: 'img-001-1',
+          label: '①',
+          bbox: { left: 0, top: 0, right: 0.5, bottom: 1 },
+          path: '/path/images/image_0_sub1.png',
+        },
+      ];
+      const metadata = { title: '○○유적' };
+      const classifySpy = vi
+        .spyOn(ImageClassifier.prototype, 'classify')
+        .mockImplementationOnce(async (images) => {
+          images[0].figureType = 'photo';
+          images[0].figureTypeConfidence = 0.8;
+        });
+      const splitSpy = vi
+        .spyOn(SubFigureSplitter.prototype, 'split')
+        .mockImplementationOnce(async (images) => {
+          images[0].subFigures = subFigures;
+        });
+      const extractSpy = vi
+        .spyOn(ReportMetadataExtractor.prototype, 'extract')
+        .mockResolvedValueOnce(metadata);
+      const options = {
+        enableImageClassification: true,
+        enableSubFigureSplitting: true,
+        enableMetadataExtraction: true,
+      };
+
+      try {
+        const first = createProcessor(options);
+        const firstMocks = stubSuccessfulProcessing(first);
+        firstMocks.convertAllMock.mockResolvedValue({
+          images: [
+            { id: 'img-001', pdfPageNo: 1, path: '/path/images/image_0.png' },
+          ],
+          tables: [],
+          footnotes: [],
+        });
+        await first.process(mockDoc, 'report-001', '/path', { checkpointDir });
+
+        const resumed = createProcessor(options);
+        stubSuccessfulProcessing(resumed);
+        const result = await resumed.process(mockDoc, 'report-001', '/path', {
+          checkpointDir,
+        });
+
+        expect(classifySpy).toHaveBeenCalledTimes(1);
+        expect(splitSpy).toHaveBeenCalledTimes(1);
+        expect(extractSpy).toHaveBeenCalledTimes(1);
+        expect(result.document.images).toEqual([
+          {
+            id: 'img-001',
+            pdfPageNo: 1,
+            path: '/path/images/image_0.png',
+            figureType: 'photo',
+            figureTypeConfidence: 0.8,
+            subFigures,
+          },
+        ]);
+        expect(result.document.metadata).toEqual(metadata);
+        expect(mockLogger.info).toHaveBeenCalledWith(
+          '[DocumentProcessor] Checkpoint found with completed stages: pageRangeMap, toc, resources, imageClassification, subFigures, metadata',
+        );
+        expect(mockLogger.info).toHaveBeenCalledWith(
+          '[DocumentProcessor] Resumed image classification from checkpoint',
+        );
+        expect(mockLogger.info).toHaveBeenCalledWith(
+          '[DocumentProcessor] Resumed sub-figures from checkpoint',
+        );
+        expect(mockLogger.info).toHaveBeenCalledWith(
+          '[DocumentProcessor] Resumed metadata from checkpoint',
+        );
+      } finally {
+        rmSync(checkpointDir, { recursive: true, force: true });
+      }
+    });
+
+    test('should key checkpoints by source.doclingSha256 when provided', async () => {
+      const checkpointDir = mkdtempSync(
+        join(tmpdir(), 'processor-checkpoint-'),
+      );
+      const mockDoc = createMockDoc();
+      const source = { doclingSha256: 'sha-a' };
+
+      try {
+        const first = createProcessor();
+        stubSuccessfulProcessing(first);
+        await first.process(mockDoc, 'report-001', '/path', {
+          checkpointDir,
+          source,
+        });
+
+        const other = createProcessor();
+        const otherMocks = stubSuccessfulProcessing(other);
+        await other.process(mockDoc, 'report-001', '/path', {
+          checkpointDir,
+          source: { doclingSha256: 'sha-b' },
+        });
+
+        expect(otherMocks.pageRangeParseMock).toHaveBeenCalledTimes(1);
+        expect(otherMocks.convertAllMock).toHaveBeenCalledTimes(1);
+      } finally {
+        rmSync(checkpointDir, { recursive: true, force: true });
+      }
+    });
+
+    test('should discard checkpoints written with other options', async () => {
+      const checkpointDir = mkdtempSync(
+        join(tmpdir(), 'processor-checkpoint-'),
+      );
+      const mockDoc = createMockDoc();
+
+      try {
+        const first = createProcessor();
+        stubSuccessfulProcessing(first);
+        await first.process(mockDoc, 'report-001', '/path', { checkpointDir });
+
+        const merging = createProcessor();
+        const mergingMocks = stubSuccessfulProcessing(merging);
+        await merging.process(mockDoc, 'report-001', '/path', {
+          checkpointDir,
+          mergeContinuedTables: true,
+        });
+
+        expect(mergingMocks.pageRangeParseMock).toHaveBeenCalledTimes(1);
+        expect(mergingMocks.convertAllMock).toHaveBeenCalledTimes(1);
+
+        const contentHash = new DocumentProcessor({
+          logger: mockLogger,
+          fallbackModel: mockModel,
+          textCleanerBatchSize: 10,
+          captionParserBatchSize: 5,
+          captionValidatorBatchSize: 5,
+          idStrategy: 'content-hash',
+        });
+        const contentHashMocks = stubSuccessfulProcessing(contentHash);
+        await contentHash.process(mockDoc, 'report-001', '/path', {
+          checkpointDir,
+          mergeContinuedTables: true,
+        });
+
+        expect(contentHashMocks.convertAllMock).toHaveBeenCalledTimes(1);
+      } finally {
+        rmSync(checkpointDir, { recursive: true, force: true });
+      }
+    });
+
+    test.each<
+      [
+        string,
+        Partial<DocumentProcessorOptions>,
+        DocumentProcessorProcessOptions,
+      ]
+    >([
+      [
+        'enableHeadingChapterFallback',
+        { enableHeadingChapterFallback: true },
+        {},
+      ],
+      ['enableSubDocumentDetection', { enableSubDocumentDetection: true }, {}],
+      [
+        'pdfOutline',
+        {},
+        {
+          pdfOutline: [
+            { title: 'Ⅰ. 조사개요', level: 1, pageNo: 1, children: [] },
+          ],
+        },
+      ],
+    ])(
+      'should discard checkpoints written without %s',
+      async (_name, options, processOptions) => {
+        const checkpointDir = mkdtempSync(
+          join(tmpdir(), 'processor-checkpoint-'),
+        );
+        const mockDoc = createMockDoc();
+
+        try {
+          const first = createProcessor();
+          stubSuccessfulProcessing(first);
+          await first.process(mockDoc, 'report-001', '/path', {
+            checkpointDir,
+          });
+
+          const changed = createProcessor(options);
+          const changedMocks = stubSuccessfulProcessing(changed);
+          await changed.process(mockDoc, 'report-001', '/path', {
+            ...processOptions,
+            checkpointDir,
+          });
+
+          expect(changedMocks.pageRangeParseMock).toHaveBeenCalledTimes(1);
+          expect(changedMocks.tocExtractMock).toHaveBeenCalledTimes(1);
+        } finally {
+          rmSync(checkpointDir, { recursive: true, force: true });
+        }
+      },
+    );
+
     test('should validate generated source refs when validateSourceRefs is true', async () => {
       const processor = createProcessor();
       const mocks = stubSuccessfulProcessing(processor);
@@ -579,6 +982,7 @@ describe('DocumentProcessor', () => {
             numRows: 0,
             numCols: 0,
             grid: [],
+            fragmentSourceRefs: ['#/tables/0', '#/tables/1'],
           },
         ],
         footnotes: [
@@ -635,6 +1039,7 @@ describe('DocumentProcessor', () => {
       expect(mocks.refResolverMock.hasRef).toHaveBeenCalledWith('#/texts/5');
       expect(mocks.refResolverMock.hasRef).toHaveBeenCalledWith('#/pictures/0');
       expect(mocks.refResolverMock.hasRef).toHaveBeenCalledWith('#/tables/0');
+      expect(mocks.refResolverMock.hasRef).toHaveBeenCalledWith('#/tables/1');
       expect(mocks.refResolverMock.hasRef).toHaveBeenCalledWith('#/texts/3');
       expect(mockLogger.info).toHaveBeenCalledWith(
         '[DocumentProcessor] Source reference validation passed',
@@ -842,7 +1247,10 @@ describe('DocumentProcessor', () => {
 
       expect(mocks.pageRangeParseMock).not.toHaveBeenCalled();
       expect(result.document.pageRangeMap).toBe(pageRangeMap);
-      expect(mocks.tocExtractMock).toHaveBeenCalledWith(mockDoc, ['test']);
+      expect(mocks.tocExtractMock).toHaveBeenCalledWith(mockDoc, ['test'], {
+        pdfOutline: undefined,
+        pageRangeMap,
+      });
       expect(mocks.chapterConvertMock).toHaveBeenCalledWith(
         expect.any(Array),
         mockDoc.texts,
@@ -850,6 +1258,8 @@ describe('DocumentProcessor', () => {
         [],
         [],
         [],
+        undefined,
+        [],
       );
       expect(mockLogger.info).toHaveBeenCalledWith(
         '[DocumentProcessor] Using injected page range map with 1 entries',
@@ -894,6 +1304,8 @@ describe('DocumentProcessor', () => {
         [],
         [],
         [],
+        undefined,
+        [],
       );
       expect(mockLogger.info).toHaveBeenCalledWith(
         '[DocumentProcessor] Using injected page range map with 0 entries',
@@ -930,6 +1342,8 @@ describe('DocumentProcessor', () => {
         [],
         [],
         [],
+        undefined,
+        [],
       );
       expect(mockLogger.info).toHaveBeenCalledWith(
         '[DocumentProcessor] Using injected TOC entries with 1 top-level entries',
@@ -961,7 +1375,10 @@ describe('DocumentProcessor', () => {
         tocEntries: undefined,
       });
 
-      expect(mocks.tocExtractMock).toHaveBeenCalledWith(mockDoc, ['test']);
+      expect(mocks.tocExtractMock).toHaveBeenCalledWith(mockDoc, ['test'], {
+        pdfOutline: undefined,
+        pageRangeMap: { 1: { startPageNo: 1, endPageNo: 1 } },
+      });
       expect(mockLogger.info).not.toHaveBeenCalledWith(
         expect.stringContaining('Using injected TOC entries'),
       );
@@ -996,7 +1413,135 @@ describe('DocumentProcessor', () => {
         [],
         [],
         [],
+        undefined,
+        [],
+      );
+    });
+
+    test('should record toc chapter source when TOC extraction succeeds', async () => {
+      const processor = createProcessor();
+      stubSuccessfulProcessing(processor);
+
+      const result = await processor.process(
+        createMockDoc(),
+        'report-001',
+        '/path',
+      );
+
+      expect(result.document.chapterSource).toBe('toc');
+    });
+
+    test('should pass the PDF outline to TOC extraction', async () => {
+      const processor = createProcessor();
+      const mocks = stubSuccessfulProcessing(processor);
+      const pdfOutline: PdfOutlineItem[] = [
+        { title: 'Ⅰ. 조사개요', level: 1, pageNo: 3, children: [] },
+      ];
+      const mockDoc = createMockDoc();
+
+      await processor.process(mockDoc, 'report-001', '/path', { pdfOutline });
+
+      expect(mocks.tocExtractMock).toHaveBeenCalledWith(mockDoc, ['test'], {
+        pdfOutline,
+        pageRangeMap: { 1: { startPageNo: 1, endPageNo: 1 } },
+      });
+    });
+
+    test('should infer chapters from headings when TOC is not found and fallback is enabled', async () => {
+      const processor = new DocumentProcessor({
+        logger: mockLogger,
+        fallbackModel: mockModel,
+        textCleanerBatchSize: 10,
+        captionParserBatchSize: 5,
+        captionValidatorBatchSize: 5,
+        enableHeadingChapterFallback: true,
+      });
+      const mocks = stubSuccessfulProcessing(processor);
+      mocks.tocExtractMock.mockRejectedValueOnce(
+        new TocNotFoundError('Table of contents not found in the document.'),
+      );
+      const inferredEntries: TocEntry[] = [
+        {
+          title: 'Ⅰ. 조사개요',
+          level: 1,
+          pageNo: 1,
+          sourceRefs: ['#/texts/0'],
+        },
+      ];
+      const buildSpy = vi
+        .spyOn(HeadingTocBuilder.prototype, 'build')
+        .mockReturnValueOnce(inferredEntries);
+      const mockDoc = createMockDoc();
+
+      const result = await processor.process(mockDoc, 'report-001', '/path');
+
+      expect(buildSpy).toHaveBeenCalledWith(mockDoc, {
+        1: { startPageNo: 1, endPageNo: 1 },
+      });
+      expect(mocks.chapterConvertMock).toHaveBeenCalledWith(
+        inferredEntries,
+        mockDoc.texts,
+        { 1: { startPageNo: 1, endPageNo: 1 } },
+        [],
+        [],
+        [],
+        undefined,
+        [],
       );
+      expect(result.document.chapterSource).toBe('heading-inference');
+      expect(mockLogger.warn).toHaveBeenCalledWith(
+        '[DocumentProcessor] TOC not found, inferring chapters from headings: Table of contents not found in the document.',
+      );
+    });
+
+    test('should rethrow TocNotFoundError when heading inference yields no entries', async () => {
+      const processor = new DocumentProcessor({
+        logger: mockLogger,
+        fallbackModel: mockModel,
+        textCleanerBatchSize: 10,
+        captionParserBatchSize: 5,
+        captionValidatorBatchSize: 5,
+        enableHeadingChapterFallback: true,
+      });
+      const mocks = stubSuccessfulProcessing(processor);
+      mocks.tocExtractMock.mockRejectedValueOnce(new TocNotFoundError());
+      vi.spyOn(HeadingTocBuilder.prototype, 'build').mockReturnValueOnce([]);
+
+      await expect(
+        processor.process(createMockDoc(), 'report-001', '/path'),
+      ).rejects.toThrow(TocNotFoundError);
+      expect(mocks.chapterConvertMock).not.toHaveBeenCalled();
+    });
+
+    test('should not use heading inference when fallback is disabled', async () => {
+      const processor = createProcessor();
+      const mocks = stubSuccessfulProcessing(processor);
+      mocks.tocExtractMock.mockRejectedValueOnce(new TocNotFoundError());
+      const buildSpy = vi.spyOn(HeadingTocBuilder.prototype, 'build');
+
+      await expect(
+        processor.process(createMockDoc(), 'report-001', '/path'),
+      ).rejects.toThrow(TocNotFoundError);
+      expect(buildSpy).not.toHaveBeenCalled();
+    });
+
+    test('should not use heading inference for errors other than TocNotFoundError', async () => {
+      const processor = new DocumentProcessor({
+        logger: mockLogger,
+        fallbackModel: mockModel,
+        textCleanerBatchSize: 10,
+        captionParserBatchSize: 5,
+        captionValidatorBatchSize: 5,
+        enableHeadingChapterFallback: true,
+      });
+      const mocks = stubSuccessfulProcessing(processor);
+      mocks.tocExtractMock.mockRejectedValueOnce(new Error('LLM failure'));
+      const buildSpy = vi.spyOn(HeadingTocBuilder.prototype, 'build');
+
+      await expect(
+        processor.process(createMockDoc(), 'report-001', '/path'),
+      ).rejects.toThrow('LLM failure');
+      expect(buildSpy).not.toHaveBeenCalled();
     });
 
     test('should treat empty injected tocEntries as manual input and throw TocNotFoundError', async () => {
@@ -1023,6 +1568,673 @@ describe('DocumentProcessor', () => {
         '[DocumentProcessor] Using injected TOC entries with 0 top-level entries',
       );
     });
+
+    describe('sub-documents', () => {
+      const createTextOnPage = (index: number, pageNo?: number) => ({
+        ...createMockDoc().texts[0],
+        text: `text ${index}`,
+        self_ref: `#/texts/${index}`,
+        prov:
+          pageNo === undefined
+            ? []
+            : [{ ...createMockDoc().texts[0].prov[0], page_no: pageNo }],
+      });
+
+      const pageRangeMap: Record<number, PageRange> = {
+        1: { startPageNo: 1, endPageNo: 1 },
+        2: { startPageNo: 2, endPageNo: 2 },
+        3: { startPageNo: 3, endPageNo: 3 },
+        4: { startPageNo: 1, endPageNo: 1 },
+      };
+
+      const segments: SubDocumentSegment[] = [
+        {
+          startPdfPageNo: 3,
+          endPdfPageNo: 3,
+          title: 'Radiocarbon Dating Report',
+          signals: ['cover'],
+          pageRangeMap: { 3: { startPageNo: 1, endPageNo: 1 } },
+        },
+        {
+          startPdfPageNo: 4,
+          endPdfPageNo: 4,
+          signals: ['toc'],
+          pageRangeMap: { 4: { startPageNo: 1, endPageNo: 1 } },
+        },
+      ];
+
+      test('should convert sub-documents into parts with their own chapters', async () => {
+        const processor = createProcessor({ enableSubDocumentDetection: true });
+        const mocks = stubSuccessfulProcessing(processor);
+        const image = (pdfPageNo: number) => ({
+          id: `img-00${pdfPageNo}`,
+          sourceRef: `#/pictures/${pdfPageNo}`,
+          pdfPageNo,
+          path: `/path/images/image_${pdfPageNo}.png`,
+        });
+        mocks.convertAllMock.mockResolvedValue({
+          images: [image(1), image(3)],
+          tables: [],
+          footnotes: [],
+        });
+        const partChapter = {
+          id: 'part-001-ch-000',
+          originTitle: 'Front Matter',
+          title: 'Front Matter',
+          pageNo: 1,
+          level: 1,
+          sourceRefs: ['#/texts/3'],
+          textBlocks: [],
+          imageIds: ['img-003'],
+          tableIds: [],
+          footnoteIds: [],
+        };
+        mocks.chapterConvertMock
+          .mockReturnValueOnce([])
+          .mockReturnValueOnce([partChapter]);
+        const detectSpy = vi
+          .spyOn(SubDocumentDetector.prototype, 'detect')
+          .mockReturnValueOnce(segments);
+        const buildSpy = vi
+          .spyOn(HeadingTocBuilder.prototype, 'build')
+          .mockReturnValue([]);
+        const mockDoc = {
+          ...createMockDoc(),
+          texts: [
+            createTextOnPage(0, 1),
+            createTextOnPage(1),
+            createTextOnPage(3, 3),
+            createTextOnPage(4, 4),
+          ],
+        } as DoclingDocument;
+
+        const result = await processor.process(mockDoc, 'report-001', '/path', {
+          pageRangeMap,
+          validateSourceRefs: true,
+        });
+
+        expect(detectSpy).toHaveBeenCalledWith(mockDoc, pageRangeMap);
+        expect(mocks.chapterConvertMock).toHaveBeenNthCalledWith(
+          1,
+          [{ title: 'Chapter 1', level: 1, pageNo: 1 }],
+          [mockDoc.texts[0], mockDoc.texts[1]],
+          { ...pageRangeMap, 3: { startPageNo: 1, endPageNo: 1 } },
+          [image(1)],
+          [],
+          [],
+          undefined,
+          [],
+        );
+        expect(buildSpy).toHaveBeenCalledWith(
+          expect.objectContaining({ texts: [mockDoc.texts[2]] }),
+          { 3: { startPageNo: 1, endPageNo: 1 } },
+        );
+        expect(mocks.chapterConvertMock).toHaveBeenNthCalledWith(
+          2,
+          [],
+          [mockDoc.texts[2]],
+          { 3: { startPageNo: 1, endPageNo: 1 } },
+          [image(3)],
+          [],
+          [],
+          'part-001-ch-000',
+          [],
+        );
+        expect(result.document.pageRangeMap[3]).toEqual({
+          startPageNo: 1,
+          endPageNo: 1,
+        });
+        expect(result.document.parts).toEqual([
+          {
+            id: 'part-001',
+            title: 'Radiocarbon Dating Report',
+            startPdfPageNo: 3,
+            endPdfPageNo: 3,
+            pageRangeMap: { 3: { startPageNo: 1, endPageNo: 1 } },
+            chapterSource: 'heading-inference',
+            chapters: [partChapter],
+          },
+          {
+            id: 'part-002',
+            startPdfPageNo: 4,
+            endPdfPageNo: 4,
+            pageRangeMap: { 4: { startPageNo: 1, endPageNo: 1 } },
+            chapterSource: 'heading-inference',
+            chapters: expect.any(Array),
+          },
+        ]);
+        expect(mocks.refResolverMock.hasRef).toHaveBeenCalledWith('#/texts/3');
+        expect(mockLogger.info).toHaveBeenCalledWith(
+          '[DocumentProcessor] Converted part part-001 (PDF 3-3) with 1 top-level chapters',
+        );
+      });
+
+      test('should not detect sub-documents by default', async () => {
+        const processor = createProcessor();
+        stubSuccessfulProcessing(processor);
+        const detectSpy = vi.spyOn(SubDocumentDetector.prototype, 'detect');
+
+        const result = await processor.process(
+          createMockDoc(),
+          'report-001',
+          '/path',
+          { pageRangeMap },
+        );
+
+        expect(detectSpy).not.toHaveBeenCalled();
+        expect(result.document.parts).toBeUndefined();
+      });
+    });
+
+    describe('cross-references', () => {
+      test('should link mentions to the resources of their own part', async () => {
+        const processor = createProcessor({ enableSubDocumentDetection: true });
+        const mocks = stubSuccessfulProcessing(processor);
+        const image = (id: string, pdfPageNo: number, fullText: string) => ({
+          id,
+          pdfPageNo,
+          path: `/path/images/${id}.png`,
+          caption: { num: fullText.slice(0, 4), fullText },
+        });
+        mocks.convertAllMock.mockResolvedValue({
+          images: [
+            image('img-001', 1, '도면 1 유적 전경'),
+            image('img-002', 1, '도면 2 유구 배치도'),
+            image('img-003', 2, '도면 1 시료 위치'),
+          ],
+          tables: [],
+          footnotes: [],
+        });
+        const chapter = (id: string, text: string, pdfPageNo: number) => ({
+          id,
+          originTitle: 'Chapter 1',
+          title: 'Chapter 1',
+          pageNo: 1,
+          level: 1,
+          textBlocks: [{ text, pdfPageNo }],
+          imageIds: [],
+          tableIds: [],
+          footnoteIds: [],
+        });
+        mocks.chapterConvertMock
+          .mockReturnValueOnce([chapter('ch-001', '유적 전경(도면 1)', 1)])
+          .mockReturnValueOnce([
+            chapter('part-001-ch-000', '도면 1·2 참조', 2),
+          ]);
+        vi.spyOn(SubDocumentDetector.prototype, 'detect').mockReturnValueOnce([
+          {
+            startPdfPageNo: 2,
+            endPdfPageNo: 2,
+            signals: ['cover'],
+            pageRangeMap: { 2: { startPageNo: 1, endPageNo: 1 } },
+          },
+        ]);
+        vi.spyOn(HeadingTocBuilder.prototype, 'build').mockReturnValue([]);
+
+        const result = await processor.process(
+          createMockDoc(),
+          'report-001',
+          '/path',
+        );
+
+        expect(result.document.chapters[0].textBlocks[0].references).toEqual([
+          {
+            start: 6,
+            end: 10,
+            text: '도면 1',
+            imageIds: ['img-001'],
+            tableIds: [],
+          },
+        ]);
+        expect(
+          result.document.parts![0].chapters[0].textBlocks[0].references,
+        ).toEqual([
+          {
+            start: 0,
+            end: 6,
+            text: '도면 1·2',
+            imageIds: ['img-003'],
+            tableIds: [],
+          },
+        ]);
+        expect(result.crossReferences).toEqual({
+          linkedCount: 2,
+          danglingReferences: [
+            {
+              chapterId: 'part-001-ch-000',
+              pdfPageNo: 2,
+              text: '도면 1·2',
+              num: '도면 2',
+            },
+          ],
+          uncitedImageIds: ['img-002'],
+          uncitedTableIds: [],
+        });
+      });
+
+      test('should not resolve cross-references when disabled', async () => {
+        const processor = new DocumentProcessor({
+          logger: mockLogger,
+          fallbackModel: mockModel,
+          textCleanerBatchSize: 10,
+          captionParserBatchSize: 5,
+          captionValidatorBatchSize: 5,
+          enableCrossReferenceResolution: false,
+        });
+        stubSuccessfulProcessing(processor);
+
+        const result = await processor.process(
+          createMockDoc(),
+          'report-001',
+          '/path',
+        );
+
+        expect(result).not.toHaveProperty('crossReferences');
+      });
+    });
+
+    describe('resource index', () => {
+      test('should fill captions from index pages before cross-referencing', async () => {
+        const processor = createProcessor();
+        const mocks = stubSuccessfulProcessing(processor);
+        const image = {
+          id: 'img-001',
+          pdfPageNo: 1,
+          path: '/path/images/image_0.png',
+        };
+        mocks.convertAllMock.mockResolvedValue({
+          images: [image],
+          tables: [],
+          footnotes: [],
+        });
+        mocks.chapterConvertMock.mockReturnValue([
+          {
+            id: 'ch-001',
+            originTitle: 'Chapter 1',
+            title: 'Chapter 1',
+            pageNo: 1,
+            level: 1,
+            textBlocks: [{ text: '도면 1 참조', pdfPageNo: 1 }],
+            imageIds: [],
+            tableIds: [],
+            footnoteIds: [],
+          },
+        ]);
+        const entry = {
+          type: 'image' as const,
+          prefix: '도면',
+          num: '1',
+          title: '유적 위치도',
+          pageNo: 1,
+          sourceRef: '#/texts/0',
+        };
+        const parseSpy = vi
+          .spyOn(ResourceIndexParser.prototype, 'parse')
+          .mockReturnValue([entry]);
+        const mockDoc = createMockDoc();
+
+        const result = await processor.process(mockDoc, 'report-001', '/path');
+
+        expect(parseSpy).toHaveBeenCalledWith(
+          expect.objectContaining({ texts: mockDoc.texts }),
+        );
+        expect(result.resourceIndex).toEqual({
+          entries: [entry],
+          matchedCount: 0,
+          filledCaptionIds: ['img-001'],
+          mismatches: [],
+          missingEntries: [],
+        });
+        expect(result.document.images[0].caption).toEqual({
+          num: '도면 1',
+          fullText: '도면 1 유적 위치도',
+        });
+        expect(result.crossReferences?.linkedCount).toBe(1);
+      });
+
+      test('should not reconcile the resource index when disabled', async () => {
+        const processor = new DocumentProcessor({
+          logger: mockLogger,
+          fallbackModel: mockModel,
+          textCleanerBatchSize: 10,
+          captionParserBatchSize: 5,
+          captionValidatorBatchSize: 5,
+          enableResourceIndexReconciliation: false,
+        });
+        stubSuccessfulProcessing(processor);
+        const parseSpy = vi.spyOn(ResourceIndexParser.prototype, 'parse');
+
+        const result = await processor.process(
+          createMockDoc(),
+          'report-001',
+          '/path',
+        );
+
+        expect(parseSpy).not.toHaveBeenCalled();
+        expect(result).not.toHaveProperty('resourceIndex');
+      });
+    });
+
+    describe('layout regions', () => {
+      test('should set layout regions when requested', async () => {
+        const processor = createProcessor();
+        stubSuccessfulProcessing(processor);
+        const applySpy = vi
+          .spyOn(LayoutRegionResolver.prototype, 'apply')
+          .mockImplementation(() => {});
+
+        const result = await processor.process(
+          createMockDoc(),
+          'report-001',
+          '/path',
+          { includeLayoutRegions: true },
+        );
+
+        expect(applySpy).toHaveBeenCalledWith(result.document);
+      });
+
+      test('should not set layout regions by default', async () => {
+        const processor = createProcessor();
+        stubSuccessfulProcessing(processor);
+        const applySpy = vi.spyOn(LayoutRegionResolver.prototype, 'apply');
+
+        await processor.process(createMockDoc(), 'report-001', '/path');
+
+        expect(applySpy).not.toHaveBeenCalled();
+      });
+    });
+
+    describe('image classification', () => {
+      test('should classify images when enabled', async () => {
+        const classifierModel = { modelId: 'gpt-5.1' } as LanguageModel;
+        const processor = new DocumentProcessor({
+          logger: mockLogger,
+          fallbackModel: mockModel,
+          imageClassifierModel: classifierModel,
+          textCleanerBatchSize: 10,
+          captionParserBatchSize: 5,
+          captionValidatorBatchSize: 5,
+          imageClassifierBatchSize: 4,
+          enableImageClassification: true,
+        });
+        const mocks = stubSuccessfulProcessing(processor);
+        const image = {
+          id: 'img-001',
+          pdfPageNo: 1,
+          path: '/path/images/image_0.png',
+        };
+        mocks.convertAllMock.mockResolvedValue({
+          images: [image],
+          tables: [],
+          footnotes: [],
+        });
+        const classifySpy = vi
+          .spyOn(ImageClassifier.prototype, 'classify')
+          .mockImplementationOnce(async (images) => {
+            images[0].figureType = 'photo';
+            images[0].figureTypeConfidence = 0.8;
+          });
+
+        const result = await processor.process(
+          createMockDoc(),
+          'report-001',
+          '/path',
+        );
+
+        expect(classifySpy).toHaveBeenCalledWith([image]);
+        expect((processor as any).imageClassifier.model).toBe(classifierModel);
+        expect((processor as any).imageClassifier.batchSize).toBe(4);
+        expect(result.document.images[0]).toMatchObject({
+          figureType: 'photo',
+          figureTypeConfidence: 0.8,
+        });
+        expect(mockLogger.info).toHaveBeenCalledWith(
+          expect.stringMatching(
+            /^\[DocumentProcessor\] Image classification took \d+ms$/,
+          ),
+        );
+      });
+
+      test('should not classify images by default', async () => {
+        const processor = createProcessor();
+        stubSuccessfulProcessing(processor);
+        const classifySpy = vi.spyOn(ImageClassifier.prototype, 'classify');
+
+        await processor.process(createMockDoc(), 'report-001', '/path');
+
+        expect(classifySpy).not.toHaveBeenCalled();
+        expect((processor as any).imageClassifier.model).toBe(mockModel);
+        expect((processor as any).imageClassifier.batchSize).toBe(8);
+      });
+    });
+
+    describe('image deduplication', () => {
+      test('should mark duplicate images when enabled', async () => {
+        const processor = new DocumentProcessor({
+          logger: mockLogger,
+          fallbackModel: mockModel,
+          textCleanerBatchSize: 10,
+          captionParserBatchSize: 5,
+          captionValidatorBatchSize: 5,
+          enableImageDeduplication: true,
+        });
+        const mocks = stubSuccessfulProcessing(processor);
+        const images: ProcessedImage[] = [
+          { id: 'img-001', pdfPageNo: 1, path: '/path/images/image_0.png' },
+          { id: 'img-002', pdfPageNo: 2, path: '/path/images/image_1.png' },
+        ];
+        mocks.convertAllMock.mockResolvedValue({
+          images,
+          tables: [],
+          footnotes: [],
+        });
+        const deduplicateSpy = vi
+          .spyOn(ImageDeduplicator.prototype, 'deduplicate')
+          .mockImplementationOnce(async ([canonical, repeat]) => {
+            canonical.duplicateIds = [repeat.id];
+            repeat.duplicateOf = canonical.id;
+          });
+
+        const result = await processor.process(
+          createMockDoc(),
+          'report-001',
+          '/path',
+        );
+
+        expect(deduplicateSpy).toHaveBeenCalledWith(images);
+        expect(result.document.images[1].duplicateOf).toBe('img-001');
+        expect(mockLogger.info).toHaveBeenCalledWith(
+          expect.stringMatching(
+            /^\[DocumentProcessor\] Image deduplication took \d+ms$/,
+          ),
+        );
+      });
+
+      test('should not deduplicate images by default', async () => {
+        const processor = createProcessor();
+        stubSuccessfulProcessing(processor);
+        const deduplicateSpy = vi.spyOn(
+          ImageDeduplicator.prototype,
+          'deduplicate',
+        );
+
+        await processor.process(createMockDoc(), 'report-001', '/path');
+
+        expect(deduplicateSpy).not.toHaveBeenCalled();
+      });
+    });
+
+    describe('sub-figure splitting', () => {
+      test('should split composite plates when enabled', async () => {
+        const splitterModel = { modelId: 'gpt-5.1' } as LanguageModel;
+        const processor = new DocumentProcessor({
+          logger: mockLogger,
+          fallbackModel: mockModel,
+          subFigureSplitterModel: splitterModel,
+          textCleanerBatchSize: 10,
+          captionParserBatchSize: 5,
+          captionValidatorBatchSize: 5,
+          enableSubFigureSplitting: true,
+        });
+        const mocks = stubSuccessfulProcessing(processor);
+        const image: ProcessedImage = {
+          id: 'img-001',
+          pdfPageNo: 1,
+          path: '/path/images/image_0.png',
+          caption: { num: '도판 1', fullText: '도판 1 ① 전경 ② 노출 상태' },
+        };
+        mocks.convertAllMock.mockResolvedValue({
+          images: [image],
+          tables: [],
+          footnotes: [],
+        });
+        const subFigures = [
+          {
+            id: 'img-001-1',
+            label: '①',
+            bbox: { left: 0, top: 0, right: 0.5, bottom: 1 },
+            path: '/path/images/image_0_sub1.png',
+          },
+          {
+            id: 'img-001-2',
+            label: '②',
+            bbox: { left: 0.5, top: 0, right: 1, bottom: 1 },
+            path: '/path/images/image_0_sub2.png',
+          },
+        ];
+        const splitSpy = vi
+          .spyOn(SubFigureSplitter.prototype, 'split')
+          .mockImplementationOnce(async (images) => {
+            images[0].subFigures = subFigures;
+          });
+
+        const result = await processor.process(
+          createMockDoc(),
+          'report-001',
+          '/path',
+        );
+
+        expect(splitSpy).toHaveBeenCalledWith([image]);
+        expect((processor as any).subFigureSplitter.model).toBe(splitterModel);
+        expect(result.document.images[0].subFigures).toEqual(subFigures);
+        expect(mockLogger.info).toHaveBeenCalledWith(
+          expect.stringMatching(
+            /^\[DocumentProcessor\] Sub-figure splitting took \d+ms$/,
+          ),
+        );
+      });
+
+      test('should not split images by default', async () => {
+        const processor = createProcessor();
+        stubSuccessfulProcessing(processor);
+        const splitSpy = vi.spyOn(SubFigureSplitter.prototype, 'split');
+
+        await processor.process(createMockDoc(), 'report-001', '/path');
+
+        expect(splitSpy).not.toHaveBeenCalled();
+        expect((processor as any).subFigureSplitter.model).toBe(mockModel);
+      });
+    });
+
+    describe('metadata', () => {
+      test('should extract metadata when enabled', async () => {
+        const metadataModel = { modelId: 'gpt-5.1' } as LanguageModel;
+        const processor = new DocumentProcessor({
+          logger: mockLogger,
+          fallbackModel: mockModel,
+          metadataExtractorModel: metadataModel,
+          textCleanerBatchSize: 10,
+          captionParserBatchSize: 5,
+          captionValidatorBatchSize: 5,
+          enableMetadataExtraction: true,
+        });
+        stubSuccessfulProcessing(processor);
+        const metadata = {
+          title: '○○유적',
+          isbn: '9780306406157',
+        };
+        const extractSpy = vi
+          .spyOn(ReportMetadataExtractor.prototype, 'extract')
+          .mockResolvedValueOnce(metadata);
+        const mockDoc = createMockDoc();
+
+        const result = await processor.process(mockDoc, 'report-001', '/path');
+
+        expect(extractSpy).toHaveBeenCalledWith(mockDoc);
+        expect((processor as any).reportMetadataExtractor.model).toBe(
+          metadataModel,
+        );
+        expect(result.document.metadata).toEqual(metadata);
+        expect(Object.keys(result.document).slice(0, 3)).toEqual([
+          'reportId',
+          'schemaVersion',
+          'metadata',
+        ]);
+        expect(mockLogger.info).toHaveBeenCalledWith(
+          expect.stringMatching(
+            /^\[DocumentProcessor\] Metadata extraction took \d+ms$/,
+          ),
+        );
+      });
+
+      test('should extract metadata from the main report only', async () => {
+        const processor = createProcessor({
+          enableMetadataExtraction: true,
+          enableSubDocumentDetection: true,
+        });
+        stubSuccessfulProcessing(processor);
+        vi.spyOn(SubDocumentDetector.prototype, 'detect').mockReturnValueOnce([
+          {
+            startPdfPageNo: 2,
+            endPdfPageNo: 2,
+            signals: ['cover'],
+            pageRangeMap: { 2: { startPageNo: 1, endPageNo: 1 } },
+          },
+        ]);
+        vi.spyOn(HeadingTocBuilder.prototype, 'build').mockReturnValue([]);
+        const extractSpy = vi
+          .spyOn(ReportMetadataExtractor.prototype, 'extract')
+          .mockResolvedValueOnce({ title: '○○유적' });
+        const mockDoc = createMockDoc();
+        const [mainText] = mockDoc.texts;
+        mockDoc.texts = [
+          mainText,
+          {
+            ...mainText,
+            self_ref: '#/texts/1',
+            text: '방사성탄소연대측정 보고서',
+            prov: [{ ...mainText.prov[0], page_no: 2 }],
+          },
+        ];
+
+        await processor.process(mockDoc, 'report-001', '/path');
+
+        expect(extractSpy).toHaveBeenCalledWith(
+          expect.objectContaining({ texts: [mainText] }),
+        );
+      });
+
+      test('should not extract metadata by default', async () => {
+        const processor = createProcessor();
+        stubSuccessfulProcessing(processor);
+        const extractSpy = vi.spyOn(
+          ReportMetadataExtractor.prototype,
+          'extract',
+        );
+
+        const result = await processor.process(
+          createMockDoc(),
+          'report-001',
+          '/path',
+        );
+
+        expect(extractSpy).not.toHaveBeenCalled();
+        expect(result.document).not.toHaveProperty('metadata');
+        expect((processor as any).reportMetadataExtractor.model).toBe(
+          mockModel,
+        );
+      });
+    });
   });
 
   describe('constructor with enableFallbackRetry', () => {
@@ -1174,10 +2386,18 @@ describe('DocumentProcessor', () => {
       const mockDoc = {
         texts: [
           {
+            self_ref: '#/texts/0',
             text: 'Test text',
             prov: [{ page_no: 1 }],
+            children: [],
           },
         ],
+        pictures: [{ self_ref: '#/pictures/0', children: [] }],
+        tables: [],
+        groups: [],
+        body: {
+          children: [{ $ref: '#/pictures/0' }, { $ref: '#/texts/0' }],
+        },
       };
       const pageRangeMap = { 1: { startPageNo: 1, endPageNo: 1 } };
       const images: any[] = [];
@@ -1200,6 +2420,8 @@ describe('DocumentProcessor', () => {
         images,
         tables,
         footnotes,
+        undefined,
+        ['#/pictures/0', '#/texts/0'],
       );
       expect(result).toHaveLength(1);
       expect(result[0].title).toBe('Chapter 1');
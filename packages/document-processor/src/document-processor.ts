@@ -1,24 +1,48 @@
 import type { LoggerMethods } from '@heripo/logger';
 import type {
   Chapter,
+  ChapterSource,
+  CrossReferenceReport,
   DoclingDocument,
   DocumentProcessResult,
   PageRange,
+  PdfOutlineItem,
   ProcessedDocument,
+  ProcessedDocumentPart,
   ProcessedDocumentSource,
   ProcessedFootnote,
   ProcessedImage,
   ProcessedTable,
+  ReportMetadata,
   TokenUsageReport,
 } from '@heripo/model';
 import type { LanguageModel } from 'ai';
 
-import type { TocEntry } from './types';
+import type { SubDocumentSegment } from './extractors';
+import type { PictureSplit, TableContinuationLink, TocEntry } from './types';
+import type { IdStrategy } from './utils';
 
 import { LLMTokenUsageAggregator } from '@heripo/shared';
 
-import { ChapterConverter, ResourceConverter } from './converters';
 import {
+  ChapterConverter,
+  CrossReferenceResolver,
+  ImageDeduplicator,
+  ResourceConverter,
+  ResourceIndexReconciler,
+} from './converters';
+import {
+  DocumentProcessorCheckpointStore,
+  computeDoclingSha256,
+  computeOptionsSha256,
+} from './document-processor-checkpoint-store';
+import {
+  HeadingTocBuilder,
+  ImageClassifier,
+  ReportMetadataExtractor,
+  ResourceIndexParser,
+  SubDocumentDetector,
+  SubFigureSplitter,
   TocExtractor,
   TocFinder,
   TocNotFoundError,
@@ -26,13 +50,38 @@ import {
 } from './extractors';
 import { CaptionParser, PageRangeParser } from './parsers';
 import { CaptionProcessingPipeline, TocExtractionPipeline } from './pipelines';
-import { IdGenerator, RefResolver, TextCleaner } from './utils';
+import {
+  IdGenerator,
+  LayoutRegionResolver,
+  RefResolver,
+  TextCleaner,
+} from './utils';
 import { CaptionValidator, TocContentValidator } from './validators';
 
 export const PROCESSED_DOCUMENT_SCHEMA_VERSION = 'processed-document.v2';
 
 export type SourceRefValidationMode = 'off' | 'warn' | 'error';
 
+/**
+ * Stages reported by `onStageProgress`, in processing order
+ */
+export const DOCUMENT_PROCESSOR_STAGES = [
+  'page-range',
+  'toc',
+  'resources',
+  'chapters',
+  'assembly',
+] as const;
+
+export type DocumentProcessorStage = (typeof DOCUMENT_PROCESSOR_STAGES)[number];
+
+export interface DocumentProcessorStageEvent {
+  stage: DocumentProcessorStage;
+  status: 'started' | 'completed';
+  /** Elapsed time of completed stages */
+  durationMs?: number;
+}
+
 interface SourceRefValidationIssue {
   context: string;
   ref: string;
@@ -84,6 +133,25 @@ export interface DocumentProcessorOptions {
    */
   captionParserModel?: LanguageModel;
 
+  /**
+   * Model for ReportMetadataExtractor - reads bibliographic metadata from the
+   * cover, colophon and abstract page images.
+   * Requires vision capabilities. Falls back to 'fallbackModel' if not provided.
+   */
+  metadataExtractorModel?: LanguageModel;
+
+  /**
+   * Model for ImageClassifier - classifies images by figure type.
+   * Requires vision capabilities. Falls back to 'fallbackModel' if not provided.
+   */
+  imageClassifierModel?: LanguageModel;
+
+  /**
+   * Model for SubFigureSplitter - confirms sub-figure splits of composite plates.
+   * Requires vision capabilities. Falls back to 'fallbackModel' if not provided.
+   */
+  subFigureSplitterModel?: LanguageModel;
+
   /**
    * Batch size for TextCleaner text normalization (synchronous processing)
    */
@@ -99,6 +167,11 @@ export interface DocumentProcessorOptions {
    */
   captionValidatorBatchSize: number;
 
+  /**
+   * Number of images per ImageClassifier vision LLM call (default: 8)
+   */
+  imageClassifierBatchSize?: number;
+
   /**
    * Maximum retry count (default: 3)
    */
@@ -115,6 +188,96 @@ export interface DocumentProcessorOptions {
    */
   enableFallbackRetry?: boolean;
 
+  /**
+   * Infer chapters from section headings when no TOC can be found (default: false)
+   *
+   * When enabled and TOC extraction throws TocNotFoundError, HeadingTocBuilder
+   * builds TOC entries from Docling `section_header` items instead of failing.
+   * The resulting document has `chapterSource: 'heading-inference'`.
+   */
+  enableHeadingChapterFallback?: boolean;
+
+  /**
+   * Split appended sub-documents into `ProcessedDocument.parts` (default: false)
+   *
+   * Analysis reports bound after the main text (radiocarbon dating, soil
+   * analysis, etc.) restart their page numbers at 1 and have their own cover
+   * or TOC. SubDocumentDetector finds them, and each one gets its own page
+   * range map and a chapter tree inferred from its section headings instead
+   * of being merged into the main report's last chapter.
+   */
+  enableSubDocumentDetection?: boolean;
+
+  /**
+   * Extract bibliographic metadata into `ProcessedDocument.metadata` (default: false)
+   *
+   * ReportMetadataExtractor reads the title, series, issuing institution,
+   * ISBN, 발간등록번호, site and investigation period from the cover,
+   * colophon (판권지) and abstract pages. Costs one vision LLM call.
+   */
+  enableMetadataExtraction?: boolean;
+
+  /**
+   * Classify images by figure type into `ProcessedImage.figureType` (default: false)
+   *
+   * ImageClassifier tells site photos from plans, sections, artifact
+   * drawings, rubbings, maps and charts. Captions decide when their prefix
+   * or title is unambiguous (사진, 탁본, 평면도); the other images are sent
+   * to a vision LLM in batches of `imageClassifierBatchSize`.
+   */
+  enableImageClassification?: boolean;
+
+  /**
+   * Split composite plates into `ProcessedImage.subFigures` (default: false)
+   *
+   * SubFigureSplitter handles images whose caption labels two or more
+   * sub-figures (① 전경 ② 노출 상태, 1·2. 토기). The image is cut at its
+   * whitespace gaps, a vision LLM confirms the split and reads each cell's
+   * label, and each sub-figure is cropped next to the parent image file.
+   * Requires ImageMagick (`magick`).
+   */
+  enableSubFigureSplitting?: boolean;
+
+  /**
+   * Mark near-duplicate and decorative images (default: false)
+   *
+   * ImageDeduplicator hashes each image (`perceptualHash`) and clusters
+   * near-duplicates across the document. Repeats point to their canonical
+   * image with `duplicateOf`, and uncaptioned images repeated on several
+   * pages (logos, headers, scale bars) get `isDecorative`, so callers can
+   * leave them out. Requires ImageMagick (`magick`).
+   */
+  enableImageDeduplication?: boolean;
+
+  /**
+   * Link in-text figure and table mentions to image and table IDs (default: true)
+   *
+   * CrossReferenceResolver sets `TextBlock.references` for mentions such as
+   * "(도면 12)" or "사진 3~5", and the result's `crossReferences` lists
+   * mentions without a matching caption and numbered resources never cited.
+   */
+  enableCrossReferenceResolution?: boolean;
+
+  /**
+   * Reconcile list-of-figures and list-of-tables pages with captions (default: true)
+   *
+   * ResourceIndexParser reads 도면목차, 사진목차 and 표목차 pages of the main
+   * report into entries, and ResourceIndexReconciler fills missing captions
+   * from them. The result's `resourceIndex` lists the entries, caption
+   * numbers that differ from the index and entries without a detected
+   * figure or table.
+   */
+  enableResourceIndexReconciliation?: boolean;
+
+  /**
+   * How chapter, text block, image, table and footnote IDs are derived (default: 'sequential')
+   *
+   * `content-hash` derives each ID from the item's source ref, PDF page and
+   * content, so reprocessing the same report keeps IDs stable for downstream
+   * links. Use `buildIdMappingReport` to migrate references between runs.
+   */
+  idStrategy?: IdStrategy;
+
   /**
    * Abort signal for cancellation support.
    * When aborted, processing stops at the next checkpoint between stages.
@@ -127,6 +290,13 @@ export interface DocumentProcessorOptions {
    * Useful for real-time token usage monitoring during processing.
    */
   onTokenUsage?: (report: TokenUsageReport) => void;
+
+  /**
+   * Callback fired when a processing stage starts and completes.
+   * Image enrichment (deduplication, classification, sub-figures, metadata)
+   * runs between `resources` and `chapters`.
+   */
+  onStageProgress?: (event: DocumentProcessorStageEvent) => void;
 }
 
 /**
@@ -145,6 +315,14 @@ export interface DocumentProcessorProcessOptions {
    */
   tocEntries?: TocEntry[];
 
+  /**
+   * Outline (bookmarks) of the source PDF, e.g. read with PdfOutlineReader
+   * from `@heripo/pdf-parser`.
+   * Used as the TOC without any LLM call when it matches the printed TOC or
+   * the document has no printed TOC.
+   */
+  pdfOutline?: PdfOutlineItem[];
+
   /**
    * Caller-supplied source artifact metadata for the Docling input.
    */
@@ -171,6 +349,54 @@ export interface DocumentProcessorProcessOptions {
    * @experimental
    */
   sourceRefValidationMode?: SourceRefValidationMode;
+
+  /**
+   * Continuation links between table fragments on adjacent pages.
+   *
+   * Typically collected from a review assistance report with
+   * `TableContinuationMerger.collectLinks()`.
+   */
+  tableContinuations?: TableContinuationLink[];
+
+  /**
+   * Merge linked table fragments into one ProcessedTable with a
+   * de-duplicated header and per-row `rowPdfPageNos`.
+   *
+   * @default false
+   */
+  mergeContinuedTables?: boolean;
+
+  /**
+   * Accepted `splitPicture` review assistance decisions. The replacement
+   * pictures of each split become `subFigures` of the split picture.
+   *
+   * Typically collected from a review assistance report with
+   * `PictureSplitMerger.collectSplits()`.
+   */
+  pictureSplits?: PictureSplit[];
+
+  /**
+   * Set `regions` (top-left origin bounding boxes with page sizes) on text
+   * blocks, images, tables and footnotes from their Docling provenance.
+   *
+   * @default false
+   */
+  includeLayoutRegions?: boolean;
+
+  /**
+   * Directory for the per-stage checkpoint file.
+   *
+   * When set, the page range map, TOC entries, converted resources
+   * (including parsed captions), image classification, sub-figures and
+   * metadata are saved as each stage completes. A rerun with the same Docling
+   * SHA-256 (`source.doclingSha256`, or the hash of the input document) and
+   * the same `idStrategy`, `enableHeadingChapterFallback`,
+   * `enableSubDocumentDetection`, `pdfOutline`, `tableContinuations`,
+   * `mergeContinuedTables` and `pictureSplits` resumes after the last
+   * completed stage; other options discard the checkpoint. Delete the
+   * checkpoint file to force a full rerun.
+   */
+  checkpointDir?: string;
 }
 
 /**
@@ -184,12 +410,17 @@ export interface DocumentProcessorProcessOptions {
  * 2. Initialize IdGenerator - unique ID generator
  * 3. Text filtering and PageRangeMap generation (visionModel)
  * 4. TOC extraction (model) - core step
+ *    - Optional heading-based inference when no TOC exists
  * 5. Parallel processing block:
  *    - Images conversion (caption extraction)
  *    - Tables conversion (excluding TOC tables)
  * 6. Chapters conversion (based on TOC)
  * 7. Assemble ProcessedDocument
  *
+ * With `checkpointDir`, the results of steps 3-5 and of the optional image
+ * classification, sub-figure splitting and metadata extraction stages are
+ * checkpointed so a failed run can resume without repeating LLM calls.
+ *
  * @example
  * ```typescript
  * import { openai } from '@ai-sdk/openai';
@@ -236,25 +467,51 @@ export class DocumentProcessor {
   private readonly validatorModel: LanguageModel;
   private readonly visionTocExtractorModel: LanguageModel;
   private readonly captionParserModel: LanguageModel;
+  private readonly metadataExtractorModel: LanguageModel;
+  private readonly imageClassifierModel: LanguageModel;
+  private readonly subFigureSplitterModel: LanguageModel;
   private readonly textCleanerBatchSize: number;
   private readonly captionParserBatchSize: number;
   private readonly captionValidatorBatchSize: number;
+  private readonly imageClassifierBatchSize: number;
   private readonly maxRetries: number;
   private readonly maxValidationRetries: number;
   private readonly enableFallbackRetry: boolean;
+  private readonly enableHeadingChapterFallback: boolean;
+  private readonly enableSubDocumentDetection: boolean;
+  private readonly enableMetadataExtraction: boolean;
+  private readonly enableImageClassification: boolean;
+  private readonly enableSubFigureSplitting: boolean;
+  private readonly enableImageDeduplication: boolean;
+  private readonly enableCrossReferenceResolution: boolean;
+  private readonly enableResourceIndexReconciliation: boolean;
   private readonly abortSignal?: AbortSignal;
   private readonly onTokenUsage?: (report: TokenUsageReport) => void;
-  private idGenerator = new IdGenerator();
+  private readonly onStageProgress?: (
+    event: DocumentProcessorStageEvent,
+  ) => void;
+  private readonly idStrategy: IdStrategy;
+  private idGenerator?: IdGenerator;
   private refResolver?: RefResolver;
+  private layoutRegionResolver?: LayoutRegionResolver;
   private pageRangeParser?: PageRangeParser;
   private tocFinder?: TocFinder;
+  private headingTocBuilder?: HeadingTocBuilder;
+  private subDocumentDetector?: SubDocumentDetector;
   private tocExtractor?: TocExtractor;
   private tocContentValidator?: TocContentValidator;
   private captionValidator?: CaptionValidator;
   private visionTocExtractor?: VisionTocExtractor;
   private captionParser?: CaptionParser;
+  private reportMetadataExtractor?: ReportMetadataExtractor;
+  private imageClassifier?: ImageClassifier;
+  private subFigureSplitter?: SubFigureSplitter;
+  private imageDeduplicator?: ImageDeduplicator;
   private chapterConverter?: ChapterConverter;
   private resourceConverter?: ResourceConverter;
+  private crossReferenceResolver?: CrossReferenceResolver;
+  private resourceIndexParser?: ResourceIndexParser;
+  private resourceIndexReconciler?: ResourceIndexReconciler;
   private tocExtractionPipeline?: TocExtractionPipeline;
   private captionProcessingPipeline?: CaptionProcessingPipeline;
   private readonly usageAggregator = new LLMTokenUsageAggregator();
@@ -270,14 +527,35 @@ export class DocumentProcessor {
       options.visionTocExtractorModel ?? options.fallbackModel;
     this.captionParserModel =
       options.captionParserModel ?? options.fallbackModel;
+    this.metadataExtractorModel =
+      options.metadataExtractorModel ?? options.fallbackModel;
+    this.imageClassifierModel =
+      options.imageClassifierModel ?? options.fallbackModel;
+    this.subFigureSplitterModel =
+      options.subFigureSplitterModel ?? options.fallbackModel;
     this.textCleanerBatchSize = options.textCleanerBatchSize;
     this.captionParserBatchSize = options.captionParserBatchSize;
     this.captionValidatorBatchSize = options.captionValidatorBatchSize;
+    this.imageClassifierBatchSize = options.imageClassifierBatchSize ?? 8;
     this.maxRetries = options.maxRetries ?? 3;
     this.maxValidationRetries = options.maxValidationRetries ?? 3;
     this.enableFallbackRetry = options.enableFallbackRetry ?? false;
+    this.enableHeadingChapterFallback =
+      options.enableHeadingChapterFallback ?? false;
+    this.enableSubDocumentDetection =
+      options.enableSubDocumentDetection ?? false;
+    this.enableMetadataExtraction = options.enableMetadataExtraction ?? false;
+    this.enableImageClassification = options.enableImageClassification ?? false;
+    this.enableSubFigureSplitting = options.enableSubFigureSplitting ?? false;
+    this.enableImageDeduplication = options.enableImageDeduplication ?? false;
+    this.enableCrossReferenceResolution =
+      options.enableCrossReferenceResolution ?? true;
+    this.enableResourceIndexReconciliation =
+      options.enableResourceIndexReconciliation ?? true;
+    this.idStrategy = options.idStrategy ?? 'sequential';
     this.abortSignal = options.abortSignal;
     this.onTokenUsage = options.onTokenUsage;
+    this.onStageProgress = options.onStageProgress;
   }
 
   /**
@@ -310,11 +588,17 @@ export class DocumentProcessor {
    * 1. Initialize processors and resolvers
    * 2. Normalize and filter texts
    * 3. Clean texts and resolve page ranges
-   * 4. Extract table of contents
-   * 5. Convert images and tables (parallel)
-   * 6. Convert chapters and link resources
-   * 7. Assemble final ProcessedDocument
-   * 8. Collect and report token usage
+   * 4. Detect appended sub-documents
+   * 5. Extract table of contents
+   * 6. Convert images and tables (parallel)
+   * 7. Mark near-duplicate and decorative images (when enabled)
+   * 8. Classify images by figure type (when enabled)
+   * 9. Split composite plates into sub-figures (when enabled)
+   * 10. Extract bibliographic metadata (when enabled)
+   * 11. Convert chapters and link resources (per sub-document)
+   * 12. Link in-text figure and table mentions (when enabled)
+   * 13. Assemble final ProcessedDocument
+   * 14. Collect and report token usage
    *
    * @param doclingDoc - Original document extracted from Docling SDK
    * @param reportId - Report unique identifier
@@ -341,6 +625,12 @@ export class DocumentProcessor {
     // Check abort before starting
     this.checkAborted();
 
+    // Open before text filtering so the hash covers the untouched input
+    const checkpointStore = this.openCheckpointStore(
+      doclingDoc,
+      processOptions,
+    );
+
     this.initializeProcessors(doclingDoc, artifactDir);
 
     const startTimeFilter = Date.now();
@@ -353,63 +643,198 @@ export class DocumentProcessor {
     // Check abort after text filtering
     this.checkAborted();
 
+    this.onStageProgress?.({ stage: 'page-range', status: 'started' });
     const startTimePageRange = Date.now();
-    const pageRangeMap =
-      processOptions.pageRangeMap !== undefined
-        ? processOptions.pageRangeMap
-        : await this.parsePageRanges(doclingDoc);
+    const checkpointPageRangeMap = checkpointStore?.getPageRangeMap();
+    const parsedPageRangeMap =
+      processOptions.pageRangeMap ??
+      checkpointPageRangeMap ??
+      (await this.parsePageRanges(doclingDoc));
 
     if (processOptions.pageRangeMap !== undefined) {
       this.logger.info(
-        `[DocumentProcessor] Using injected page range map with ${Object.keys(pageRangeMap).length} entries`,
+        `[DocumentProcessor] Using injected page range map with ${Object.keys(parsedPageRangeMap).length} entries`,
+      );
+    } else if (checkpointPageRangeMap !== undefined) {
+      this.logger.info(
+        '[DocumentProcessor] Resumed page range map from checkpoint',
       );
     }
+    checkpointStore?.recordPageRangeMap(parsedPageRangeMap);
+
+    const subDocuments = this.enableSubDocumentDetection
+      ? this.subDocumentDetector!.detect(doclingDoc, parsedPageRangeMap)
+      : [];
+    const pageRangeMap = subDocuments.reduce(
+      (merged, segment) => ({ ...merged, ...segment.pageRangeMap }),
+      parsedPageRangeMap,
+    );
+    // The main report ends where the first sub-document starts
+    const mainEndPdfPageNo =
+      (subDocuments[0]?.startPdfPageNo ?? Number.MAX_SAFE_INTEGER) - 1;
+    const mainDoc = this.selectPdfPages(doclingDoc, 1, mainEndPdfPageNo);
 
     const pageRangeTime = Date.now() - startTimePageRange;
     this.logger.info(
       `[DocumentProcessor] Page range resolution took ${pageRangeTime}ms`,
     );
+    this.onStageProgress?.({
+      stage: 'page-range',
+      status: 'completed',
+      durationMs: pageRangeTime,
+    });
     this.emitTokenUsage();
 
     // Check abort after page range parsing
     this.checkAborted();
 
+    this.onStageProgress?.({ stage: 'toc', status: 'started' });
     const startTimeToc = Date.now();
-    const tocEntries =
+    const checkpointToc = checkpointStore?.getToc();
+    const { tocEntries, chapterSource } =
       processOptions.tocEntries !== undefined
-        ? processOptions.tocEntries
-        : await this.tocExtractionPipeline!.extract(doclingDoc, filtered);
+        ? {
+            tocEntries: processOptions.tocEntries,
+            chapterSource: 'toc' as const,
+          }
+        : (checkpointToc ??
+          (await this.extractTocEntries(
+            mainDoc,
+            filtered,
+            pageRangeMap,
+            processOptions.pdfOutline,
+          )));
 
     if (processOptions.tocEntries !== undefined) {
       this.logger.info(
         `[DocumentProcessor] Using injected TOC entries with ${tocEntries.length} top-level entries`,
       );
+    } else if (checkpointToc !== undefined) {
+      this.logger.info(
+        '[DocumentProcessor] Resumed TOC entries from checkpoint',
+      );
     }
+    checkpointStore?.recordToc({ tocEntries, chapterSource });
 
     const tocTime = Date.now() - startTimeToc;
     this.logger.info(`[DocumentProcessor] TOC extraction took ${tocTime}ms`);
+    this.onStageProgress?.({
+      stage: 'toc',
+      status: 'completed',
+      durationMs: tocTime,
+    });
     this.emitTokenUsage();
 
     // Check abort after TOC extraction
     this.checkAborted();
 
+    this.onStageProgress?.({ stage: 'resources', status: 'started' });
     const startTimeResources = Date.now();
+    const checkpointResources = checkpointStore?.getResources();
+    if (checkpointResources !== undefined) {
+      this.logger.info(
+        '[DocumentProcessor] Resumed converted resources from checkpoint',
+      );
+    }
     const { images, tables, footnotes } =
-      await this.resourceConverter!.convertAll(doclingDoc, artifactDir);
+      checkpointResources ??
+      (await this.resourceConverter!.convertAll(doclingDoc, artifactDir, {
+        tableContinuations: processOptions.tableContinuations,
+        mergeContinuedTables: processOptions.mergeContinuedTables,
+        pictureSplits: processOptions.pictureSplits,
+      }));
+    checkpointStore?.recordResources({ images, tables, footnotes });
     const resourcesTime = Date.now() - startTimeResources;
     this.logger.info(
       `[DocumentProcessor] Resource conversion took ${resourcesTime}ms`,
     );
+    this.onStageProgress?.({
+      stage: 'resources',
+      status: 'completed',
+      durationMs: resourcesTime,
+    });
     this.emitTokenUsage();
 
     // Check abort after resource conversion
     this.checkAborted();
 
+    // Before chapter conversion so that filled captions are cross-referenced
+    const resourceIndex = this.enableResourceIndexReconciliation
+      ? this.resourceIndexReconciler!.reconcile(
+          this.resourceIndexParser!.parse(mainDoc),
+          this.selectOnPdfPages(images, 1, mainEndPdfPageNo),
+          this.selectOnPdfPages(tables, 1, mainEndPdfPageNo),
+          pageRangeMap,
+        )
+      : undefined;
+
+    // After reconciliation so that indexed figures are not taken as decorative
+    if (this.enableImageDeduplication) {
+      await this.deduplicateImages(images);
+    }
+
+    // After reconciliation so that captions filled from the index give hints
+    if (this.enableImageClassification) {
+      const checkpointClassification =
+        checkpointStore?.getImageClassification();
+      if (checkpointClassification !== undefined) {
+        this.logger.info(
+          '[DocumentProcessor] Resumed image classification from checkpoint',
+        );
+        this.applyImageCheckpoint(images, checkpointClassification);
+      } else {
+        await this.classifyImages(images);
+      }
+      checkpointStore?.recordImageClassification(
+        images.map(({ id, figureType, figureTypeConfidence }) => ({
+          id,
+          figureType,
+          figureTypeConfidence,
+        })),
+      );
+    }
+    if (this.enableSubFigureSplitting) {
+      const checkpointSubFigures = checkpointStore?.getSubFigures();
+      if (checkpointSubFigures !== undefined) {
+        this.logger.info(
+          '[DocumentProcessor] Resumed sub-figures from checkpoint',
+        );
+        this.applyImageCheckpoint(images, checkpointSubFigures);
+      } else {
+        await this.splitSubFigures(images);
+      }
+      checkpointStore?.recordSubFigures(
+        images
+          .filter((image) => image.subFigures !== undefined)
+          .map(({ id, subFigures }) => ({ id, subFigures })),
+      );
+    }
+
+    let metadata: ReportMetadata | undefined;
+    if (this.enableMetadataExtraction) {
+      const checkpointMetadata = checkpointStore?.getMetadata();
+      if (checkpointMetadata !== undefined) {
+        this.logger.info(
+          '[DocumentProcessor] Resumed metadata from checkpoint',
+        );
+      }
+      metadata = checkpointMetadata ?? (await this.extractMetadata(mainDoc));
+      checkpointStore?.recordMetadata(metadata);
+    }
+
+    this.onStageProgress?.({ stage: 'chapters', status: 'started' });
     const startTimeChapters = Date.now();
     const chapters = await this.convertChapters(
-      doclingDoc,
+      mainDoc,
       tocEntries,
       pageRangeMap,
+      this.selectOnPdfPages(images, 1, mainEndPdfPageNo),
+      this.selectOnPdfPages(tables, 1, mainEndPdfPageNo),
+      this.selectOnPdfPages(footnotes, 1, mainEndPdfPageNo),
+    );
+    const parts = this.convertParts(
+      doclingDoc,
+      subDocuments,
       images,
       tables,
       footnotes,
@@ -418,21 +843,48 @@ export class DocumentProcessor {
     this.logger.info(
       `[DocumentProcessor] Chapter conversion took ${chaptersTime}ms`,
     );
+    this.onStageProgress?.({
+      stage: 'chapters',
+      status: 'completed',
+      durationMs: chaptersTime,
+    });
 
+    const crossReferences = this.enableCrossReferenceResolution
+      ? this.resolveCrossReferences(
+          chapters,
+          parts,
+          mainEndPdfPageNo,
+          images,
+          tables,
+        )
+      : undefined;
+
+    this.onStageProgress?.({ stage: 'assembly', status: 'started' });
     const startTimeAssemble = Date.now();
     const processedDoc = this.assembleProcessedDocument({
       reportId,
       pageRangeMap,
+      chapterSource,
       chapters,
+      parts,
       images,
       tables,
       footnotes,
       source: processOptions.source,
+      metadata,
     });
+    if (processOptions.includeLayoutRegions) {
+      this.layoutRegionResolver!.apply(processedDoc);
+    }
     const assembleTime = Date.now() - startTimeAssemble;
     this.logger.info(
       `[DocumentProcessor] Document assembly took ${assembleTime}ms`,
     );
+    this.onStageProgress?.({
+      stage: 'assembly',
+      status: 'completed',
+      durationMs: assembleTime,
+    });
 
     const sourceRefValidationMode =
       this.resolveSourceRefValidationMode(processOptions);
@@ -448,9 +900,48 @@ export class DocumentProcessor {
     return {
       document: processedDoc,
       usage: this.usageAggregator.getReport(),
+      ...(crossReferences !== undefined ? { crossReferences } : {}),
+      ...(resourceIndex !== undefined ? { resourceIndex } : {}),
     };
   }
 
+  /**
+   * Open the checkpoint store when a checkpoint directory is configured
+   *
+   * Uses the caller-supplied Docling SHA-256 when available, otherwise hashes
+   * the input document. The options that shape checkpointed stages are
+   * hashed too, so a rerun with other options starts over.
+   */
+  private openCheckpointStore(
+    doclingDoc: DoclingDocument,
+    processOptions: DocumentProcessorProcessOptions,
+  ): DocumentProcessorCheckpointStore | undefined {
+    if (processOptions.checkpointDir === undefined) {
+      return undefined;
+    }
+
+    const store = DocumentProcessorCheckpointStore.open(
+      processOptions.checkpointDir,
+      processOptions.source?.doclingSha256 ?? computeDoclingSha256(doclingDoc),
+      computeOptionsSha256({
+        idStrategy: this.idStrategy,
+        enableHeadingChapterFallback: this.enableHeadingChapterFallback,
+        enableSubDocumentDetection: this.enableSubDocumentDetection,
+        pdfOutline: processOptions.pdfOutline ?? null,
+        tableContinuations: processOptions.tableContinuations ?? [],
+        mergeContinuedTables: processOptions.mergeContinuedTables ?? false,
+        pictureSplits: processOptions.pictureSplits ?? [],
+      }),
+    );
+    const completedStages = store.getCompletedStages();
+    if (completedStages.length > 0) {
+      this.logger.info(
+        `[DocumentProcessor] Checkpoint found with completed stages: ${completedStages.join(', ')}`,
+      );
+    }
+    return store;
+  }
+
   /**
    * Initialize all processors and resolvers
    *
@@ -465,6 +956,13 @@ export class DocumentProcessor {
     this.logger.info('[DocumentProcessor] - RefResolver');
     this.refResolver = new RefResolver(this.logger, doclingDoc);
 
+    this.logger.info('[DocumentProcessor] - LayoutRegionResolver');
+    this.layoutRegionResolver = new LayoutRegionResolver(
+      this.logger,
+      doclingDoc,
+      this.refResolver,
+    );
+
     this.logger.info('[DocumentProcessor] - PageRangeParser');
     this.pageRangeParser = new PageRangeParser(
       this.logger,
@@ -479,6 +977,12 @@ export class DocumentProcessor {
     this.logger.info('[DocumentProcessor] - TocFinder');
     this.tocFinder = new TocFinder(this.logger, this.refResolver);
 
+    this.logger.info('[DocumentProcessor] - HeadingTocBuilder');
+    this.headingTocBuilder = new HeadingTocBuilder(this.logger);
+
+    this.logger.info('[DocumentProcessor] - SubDocumentDetector');
+    this.subDocumentDetector = new SubDocumentDetector(this.logger);
+
     this.logger.info('[DocumentProcessor] - TocExtractor');
     this.tocExtractor = new TocExtractor(
       this.logger,
@@ -528,6 +1032,55 @@ export class DocumentProcessor {
       this.usageAggregator,
     );
 
+    // A fresh generator per document keeps content-hash IDs reproducible
+    this.idGenerator = new IdGenerator(this.idStrategy);
+
+    this.logger.info('[DocumentProcessor] - ReportMetadataExtractor');
+    this.reportMetadataExtractor = new ReportMetadataExtractor(
+      this.logger,
+      this.metadataExtractorModel,
+      artifactDir,
+      { maxRetries: this.maxRetries, abortSignal: this.abortSignal },
+      this.enableFallbackRetry ? this.fallbackModel : undefined,
+      this.usageAggregator,
+    );
+
+    this.logger.info('[DocumentProcessor] - ImageClassifier');
+    this.imageClassifier = new ImageClassifier(
+      this.logger,
+      this.imageClassifierModel,
+      artifactDir,
+      {
+        batchSize: this.imageClassifierBatchSize,
+        maxRetries: this.maxRetries,
+        abortSignal: this.abortSignal,
+      },
+      this.enableFallbackRetry ? this.fallbackModel : undefined,
+      this.usageAggregator,
+    );
+
+    this.logger.info('[DocumentProcessor] - SubFigureSplitter');
+    this.subFigureSplitter = new SubFigureSplitter(
+      this.logger,
+      this.subFigureSplitterModel,
+      artifactDir,
+      { maxRetries: this.maxRetries, abortSignal: this.abortSignal },
+      this.enableFallbackRetry ? this.fallbackModel : undefined,
+      this.usageAggregator,
+    );
+
+    this.logger.info('[DocumentProcessor] - ImageDeduplicator');
+    this.imageDeduplicator = new ImageDeduplicator(this.logger);
+
+    this.logger.info('[DocumentProcessor] - CrossReferenceResolver');
+    this.crossReferenceResolver = new CrossReferenceResolver(this.logger);
+
+    this.logger.info('[DocumentProcessor] - ResourceIndexParser');
+    this.resourceIndexParser = new ResourceIndexParser(this.logger);
+
+    this.logger.info('[DocumentProcessor] - ResourceIndexReconciler');
+    this.resourceIndexReconciler = new ResourceIndexReconciler(this.logger);
+
     this.logger.info('[DocumentProcessor] - ChapterConverter');
     this.chapterConverter = new ChapterConverter(this.logger, this.idGenerator);
 
@@ -611,6 +1164,132 @@ export class DocumentProcessor {
     return pageRangeMap;
   }
 
+  /**
+   * Extract TOC entries, falling back to heading inference when enabled
+   *
+   * Runs TocExtractionPipeline. When it throws TocNotFoundError and
+   * `enableHeadingChapterFallback` is set, infers entries from section headings.
+   * The original error is rethrown if no headings can be used either.
+   */
+  private async extractTocEntries(
+    doclingDoc: DoclingDocument,
+    filtered: string[],
+    pageRangeMap: Record<number, PageRange>,
+    pdfOutline: PdfOutlineItem[] | undefined,
+  ): Promise<{ tocEntries: TocEntry[]; chapterSource: ChapterSource }> {
+    try {
+      const tocEntries = await this.tocExtractionPipeline!.extract(
+        doclingDoc,
+        filtered,
+        { pdfOutline, pageRangeMap },
+      );
+      return { tocEntries, chapterSource: 'toc' };
+    } catch (error) {
+      if (
+        !(error instanceof TocNotFoundError) ||
+        !this.enableHeadingChapterFallback
+      ) {
+        throw error;
+      }
+
+      this.logger.warn(
+        `[DocumentProcessor] TOC not found, inferring chapters from headings: ${error.message}`,
+      );
+      const tocEntries = this.headingTocBuilder!.build(
+        doclingDoc,
+        pageRangeMap,
+      );
+      if (tocEntries.length === 0) {
+        throw error;
+      }
+
+      return { tocEntries, chapterSource: 'heading-inference' };
+    }
+  }
+
+  /**
+   * Extract bibliographic metadata from the cover, colophon and abstract pages
+   * of the main report, leaving out appended sub-documents
+   *
+   * Token usage is automatically tracked by ReportMetadataExtractor into the shared aggregator.
+   */
+  private async extractMetadata(
+    doclingDoc: DoclingDocument,
+  ): Promise<ReportMetadata> {
+    const startTime = Date.now();
+    const metadata = await this.reportMetadataExtractor!.extract(doclingDoc);
+    this.logger.info(
+      `[DocumentProcessor] Metadata extraction took ${Date.now() - startTime}ms`,
+    );
+    this.emitTokenUsage();
+
+    // Check abort after metadata extraction
+    this.checkAborted();
+
+    return metadata;
+  }
+
+  /**
+   * Mark near-duplicate and decorative images
+   */
+  private async deduplicateImages(images: ProcessedImage[]): Promise<void> {
+    const startTime = Date.now();
+    await this.imageDeduplicator!.deduplicate(images);
+    this.logger.info(
+      `[DocumentProcessor] Image deduplication took ${Date.now() - startTime}ms`,
+    );
+
+    // Check abort after image deduplication
+    this.checkAborted();
+  }
+
+  /**
+   * Classify images by figure type
+   *
+   * Token usage is automatically tracked by ImageClassifier into the shared aggregator.
+   */
+  private async classifyImages(images: ProcessedImage[]): Promise<void> {
+    const startTime = Date.now();
+    await this.imageClassifier!.classify(images);
+    this.logger.info(
+      `[DocumentProcessor] Image classification took ${Date.now() - startTime}ms`,
+    );
+    this.emitTokenUsage();
+
+    // Check abort after image classification
+    this.checkAborted();
+  }
+
+  /**
+   * Split composite plates into sub-figures
+   *
+   * Token usage is automatically tracked by SubFigureSplitter into the shared aggregator.
+   */
+  private async splitSubFigures(images: ProcessedImage[]): Promise<void> {
+    const startTime = Date.now();
+    await this.subFigureSplitter!.split(images);
+    this.logger.info(
+      `[DocumentProcessor] Sub-figure splitting took ${Date.now() - startTime}ms`,
+    );
+    this.emitTokenUsage();
+
+    // Check abort after sub-figure splitting
+    this.checkAborted();
+  }
+
+  /**
+   * Copy checkpointed stage results onto the images with the same ID
+   */
+  private applyImageCheckpoint(
+    images: ProcessedImage[],
+    records: Array<Pick<ProcessedImage, 'id'> & Partial<ProcessedImage>>,
+  ): void {
+    const recordsById = new Map(records.map((record) => [record.id, record]));
+    for (const image of images) {
+      Object.assign(image, recordsById.get(image.id));
+    }
+  }
+
   private resolveSourceRefValidationMode(
     processOptions: DocumentProcessorProcessOptions,
   ): SourceRefValidationMode {
@@ -689,6 +1368,7 @@ export class DocumentProcessor {
     };
 
     processedDoc.chapters.forEach(visitChapter);
+    processedDoc.parts?.forEach((part) => part.chapters.forEach(visitChapter));
 
     processedDoc.images.forEach((image) => {
       addRef(image.sourceRef, `image ${image.id} sourceRef`);
@@ -698,6 +1378,7 @@ export class DocumentProcessor {
     processedDoc.tables.forEach((table) => {
       addRef(table.sourceRef, `table ${table.id} sourceRef`);
       addRefs(table.captionSourceRefs, `table ${table.id} captionSourceRefs`);
+      addRefs(table.fragmentSourceRefs, `table ${table.id} fragmentSourceRefs`);
     });
 
     processedDoc.footnotes.forEach((footnote) => {
@@ -715,22 +1396,28 @@ export class DocumentProcessor {
   private assembleProcessedDocument(input: {
     reportId: string;
     pageRangeMap: Record<number, PageRange>;
+    chapterSource: ChapterSource;
     chapters: Chapter[];
+    parts: ProcessedDocumentPart[];
     images: ProcessedImage[];
     tables: ProcessedTable[];
     footnotes: ProcessedFootnote[];
     source?: ProcessedDocumentSource;
+    metadata?: ReportMetadata;
   }): ProcessedDocument {
     this.logger.info('[DocumentProcessor] Assembling ProcessedDocument...');
 
     const {
       reportId,
       pageRangeMap,
+      chapterSource,
       chapters,
+      parts,
       images,
       tables,
       footnotes,
       source,
+      metadata,
     } = input;
 
     // Omit `source` key entirely when caller did not supply metadata so that
@@ -739,8 +1426,11 @@ export class DocumentProcessor {
       reportId,
       schemaVersion: PROCESSED_DOCUMENT_SCHEMA_VERSION,
       ...(source !== undefined ? { source } : {}),
+      ...(metadata !== undefined ? { metadata } : {}),
       pageRangeMap,
+      chapterSource,
       chapters,
+      ...(parts.length > 0 ? { parts } : {}),
       images,
       tables,
       footnotes,
@@ -753,6 +1443,136 @@ export class DocumentProcessor {
     return processedDoc;
   }
 
+  /**
+   * View of the document holding only the texts on the given PDF pages
+   *
+   * Texts without provenance are treated as being on PDF page 1.
+   */
+  private selectPdfPages(
+    doclingDoc: DoclingDocument,
+    startPdfPageNo: number,
+    endPdfPageNo: number,
+  ): DoclingDocument {
+    return {
+      ...doclingDoc,
+      texts: doclingDoc.texts.filter((item) => {
+        const pdfPageNo = item.prov?.[0]?.page_no ?? 1;
+        return pdfPageNo >= startPdfPageNo && pdfPageNo <= endPdfPageNo;
+      }),
+    };
+  }
+
+  private selectOnPdfPages<T extends { pdfPageNo: number }>(
+    items: T[],
+    startPdfPageNo: number,
+    endPdfPageNo: number,
+  ): T[] {
+    return items.filter(
+      (item) =>
+        item.pdfPageNo >= startPdfPageNo && item.pdfPageNo <= endPdfPageNo,
+    );
+  }
+
+  /**
+   * Convert each sub-document into a part with its own chapter tree
+   *
+   * Parts rarely have a TOC the main pipeline could extract, so chapters are
+   * inferred from the part's section headings. Without usable headings the
+   * part holds a single Front Matter chapter.
+   */
+  private convertParts(
+    doclingDoc: DoclingDocument,
+    subDocuments: SubDocumentSegment[],
+    images: ProcessedImage[],
+    tables: ProcessedTable[],
+    footnotes: ProcessedFootnote[],
+  ): ProcessedDocumentPart[] {
+    const readingOrder = ChapterConverter.collectReadingOrder(doclingDoc);
+
+    return subDocuments.map((segment, index) => {
+      const id = `part-${String(index + 1).padStart(3, '0')}`;
+      const { startPdfPageNo, endPdfPageNo, pageRangeMap } = segment;
+      const partDoc = this.selectPdfPages(
+        doclingDoc,
+        startPdfPageNo,
+        endPdfPageNo,
+      );
+
+      const tocEntries = this.headingTocBuilder!.build(partDoc, pageRangeMap);
+      const chapters = this.chapterConverter!.convert(
+        tocEntries,
+        partDoc.texts,
+        pageRangeMap,
+        this.selectOnPdfPages(images, startPdfPageNo, endPdfPageNo),
+        this.selectOnPdfPages(tables, startPdfPageNo, endPdfPageNo),
+        this.selectOnPdfPages(footnotes, startPdfPageNo, endPdfPageNo),
+        `${id}-ch-000`,
+        readingOrder,
+      );
+
+      this.logger.info(
+        `[DocumentProcessor] Converted part ${id} (PDF ${startPdfPageNo}-${endPdfPageNo}) with ${chapters.length} top-level chapters`,
+      );
+
+      return {
+        id,
+        ...(segment.title !== undefined ? { title: segment.title } : {}),
+        startPdfPageNo,
+        endPdfPageNo,
+        pageRangeMap,
+        chapterSource: 'heading-inference' as const,
+        chapters,
+      };
+    });
+  }
+
+  /**
+   * Link figure and table mentions within each scope
+   *
+   * Appended sub-documents number their captions from 1 again, so the main
+   * chapters are linked to the resources on the main report's pages and each
+   * part's chapters to the resources on its own pages. The per-scope reports
+   * are merged in document order.
+   */
+  private resolveCrossReferences(
+    chapters: Chapter[],
+    parts: ProcessedDocumentPart[],
+    mainEndPdfPageNo: number,
+    images: ProcessedImage[],
+    tables: ProcessedTable[],
+  ): CrossReferenceReport {
+    const scopes = [
+      { chapters, startPdfPageNo: 1, endPdfPageNo: mainEndPdfPageNo },
+      ...parts,
+    ];
+
+    return scopes
+      .map((scope) =>
+        this.crossReferenceResolver!.resolve(
+          scope.chapters,
+          this.selectOnPdfPages(
+            images,
+            scope.startPdfPageNo,
+            scope.endPdfPageNo,
+          ),
+          this.selectOnPdfPages(
+            tables,
+            scope.startPdfPageNo,
+            scope.endPdfPageNo,
+          ),
+        ),
+      )
+      .reduce((merged, report) => ({
+        linkedCount: merged.linkedCount + report.linkedCount,
+        danglingReferences: [
+          ...merged.danglingReferences,
+          ...report.danglingReferences,
+        ],
+        uncitedImageIds: [...merged.uncitedImageIds, ...report.uncitedImageIds],
+        uncitedTableIds: [...merged.uncitedTableIds, ...report.uncitedTableIds],
+      }));
+  }
+
   /**
    * Convert chapters and link resources
    *
@@ -784,6 +1604,8 @@ export class DocumentProcessor {
       images,
       tables,
       footnotes,
+      undefined,
+      ChapterConverter.collectReadingOrder(doclingDoc),
     );
 
     this.logger.info(
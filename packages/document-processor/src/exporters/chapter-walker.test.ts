@@ -0,0 +1,136 @@
+import { describe, expect, test } from 'vitest';
+
+import {
+  createChapter,
+  createDocument,
+  createPart,
+} from '../testing/processed-document-fixtures';
+import { getActualPageNo, walkChapters } from './chapter-walker';
+
+describe('chapter-walker', () => {
+  const document = createDocument({
+    pageRangeMap: {
+      3: { startPageNo: 1, endPageNo: 1 },
+      4: { startPageNo: 0, endPageNo: 0 },
+    },
+    chapters: [
+      createChapter('ch-001', 'Ⅰ. 조사개요', {
+        textBlocks: [
+          { text: '넷째 쪽 본문', pdfPageNo: 4 },
+          { text: '셋째 쪽 본문', pdfPageNo: 3 },
+        ],
+        imageIds: ['img-001', 'img-999'],
+        tableIds: ['tbl-001'],
+        footnoteIds: ['ftn-001', 'ftn-999'],
+        children: [createChapter('ch-002', '1. 조사경위', { level: 2 })],
+      }),
+      createChapter('ch-003', 'Ⅱ. 조사내용'),
+    ],
+    images: [{ id: 'img-001', path: 'images/image_0.png', pdfPageNo: 3 }],
+    tables: [{ id: 'tbl-001', pdfPageNo: 3, numRows: 0, numCols: 0, grid: [] }],
+    footnotes: [{ id: 'ftn-001', text: '주석', pdfPageNo: 4 }],
+  });
+
+  describe('walkChapters', () => {
+    test('visits chapters depth-first with paths and depths', () => {
+      const visits = walkChapters(document);
+
+      expect(visits.map((v) => [v.chapter.id, v.path, v.depth])).toEqual([
+        ['ch-001', ['Ⅰ. 조사개요'], 1],
+        ['ch-002', ['Ⅰ. 조사개요', '1. 조사경위'], 2],
+        ['ch-003', ['Ⅱ. 조사내용'], 1],
+      ]);
+    });
+
+    test('orders items by page with text first and skips unknown IDs', () => {
+      const [first] = walkChapters(document);
+
+      expect(first.items.map((item) => [item.kind, item.pdfPageNo])).toEqual([
+        ['text', 3],
+        ['image', 3],
+        ['table', 3],
+        ['text', 4],
+      ]);
+      expect(first.footnotes.map((f) => f.id)).toEqual(['ftn-001']);
+    });
+  });
+
+  describe('with parts', () => {
+    const withParts = createDocument({
+      ...document,
+      pageRangeMap: {
+        ...document.pageRangeMap,
+        11: { startPageNo: 55, endPageNo: 55 },
+      },
+      parts: [
+        createPart({
+          title: '자연과학 분석 보고서',
+          pageRangeMap: { 11: { startPageNo: 2, endPageNo: 2 } },
+          chapters: [
+            createChapter('part-001-ch-001', 'Ⅰ. 분석 방법', {
+              textBlocks: [{ text: '시료 채취', pdfPageNo: 11 }],
+              children: [
+                createChapter('part-001-ch-002', '1. 시료', { level: 2 }),
+              ],
+            }),
+          ],
+        }),
+        createPart({
+          id: 'part-002',
+          startPdfPageNo: 21,
+          endPdfPageNo: 30,
+          chapters: [createChapter('part-002-ch-001', 'Ⅰ. 연대 측정')],
+        }),
+      ],
+    });
+
+    test('visits part chapters after the main report under the part title', () => {
+      const visits = walkChapters(withParts);
+
+      expect(
+        visits.map((v) => [v.chapter.id, v.path, v.depth, v.partId]),
+      ).toEqual([
+        ['ch-001', ['Ⅰ. 조사개요'], 1, undefined],
+        ['ch-002', ['Ⅰ. 조사개요', '1. 조사경위'], 2, undefined],
+        ['ch-003', ['Ⅱ. 조사내용'], 1, undefined],
+        [
+          'part-001-ch-001',
+          ['자연과학 분석 보고서', 'Ⅰ. 분석 방법'],
+          1,
+          'part-001',
+        ],
+        [
+          'part-001-ch-002',
+          ['자연과학 분석 보고서', 'Ⅰ. 분석 방법', '1. 시료'],
+          2,
+          'part-001',
+        ],
+        ['part-002-ch-001', ['Ⅰ. 연대 측정'], 1, 'part-002'],
+      ]);
+      expect(visits[3].items).toEqual([
+        {
+          kind: 'text',
+          block: { text: '시료 채취', pdfPageNo: 11 },
+          pdfPageNo: 11,
+        },
+      ]);
+    });
+
+    test("looks up part pages in the part's page range map", () => {
+      expect(getActualPageNo(withParts, 11)).toBe(2);
+      expect(getActualPageNo(withParts, 3)).toBe(1);
+      expect(getActualPageNo(withParts, 21)).toBeUndefined();
+    });
+  });
+
+  describe('getActualPageNo', () => {
+    test('returns the start page for mapped pages', () => {
+      expect(getActualPageNo(document, 3)).toBe(1);
+    });
+
+    test('returns undefined for unmapped or undetected pages', () => {
+      expect(getActualPageNo(document, 4)).toBeUndefined();
+      expect(getActualPageNo(document, 9)).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,138 @@
+import type {
+  Chapter,
+  ProcessedDocument,
+  ProcessedFootnote,
+  ProcessedImage,
+  ProcessedTable,
+  TextBlock,
+} from '@heripo/model';
+
+/**
+ * Content item of a chapter, in page order
+ */
+export type ChapterContentItem =
+  | { kind: 'text'; block: TextBlock; pdfPageNo: number }
+  | { kind: 'image'; image: ProcessedImage; pdfPageNo: number }
+  | { kind: 'table'; table: ProcessedTable; pdfPageNo: number };
+
+/**
+ * A chapter visited by walkChapters
+ */
+export interface ChapterVisit {
+  chapter: Chapter;
+
+  /**
+   * Chapter titles from the root to this chapter, preceded by the part title
+   * for chapters of a titled part
+   */
+  path: string[];
+
+  /**
+   * Nesting depth starting at 1 for top-level chapters
+   */
+  depth: number;
+
+  /**
+   * Part owning the chapter; undefined for chapters of the main report
+   */
+  partId?: string;
+
+  /**
+   * Text blocks, images and tables owned by this chapter
+   */
+  items: ChapterContentItem[];
+
+  /**
+   * Footnotes owned by this chapter
+   */
+  footnotes: ProcessedFootnote[];
+}
+
+/**
+ * Visit chapters depth-first and resolve their resource IDs
+ *
+ * Chapters of the main report come first, followed by the chapters of each
+ * part. Items are ordered by PDF page. Array.prototype.sort is stable, so on
+ * the same page text keeps its order and precedes images and tables. Unknown
+ * resource IDs are skipped.
+ */
+export function walkChapters(document: ProcessedDocument): ChapterVisit[] {
+  const imagesById = new Map(document.images.map((i) => [i.id, i]));
+  const tablesById = new Map(document.tables.map((t) => [t.id, t]));
+  const footnotesById = new Map(document.footnotes.map((f) => [f.id, f]));
+  const visits: ChapterVisit[] = [];
+
+  const resolve = <T>(ids: string[], byId: Map<string, T>): T[] =>
+    ids
+      .map((id) => byId.get(id))
+      .filter((item): item is T => item !== undefined);
+
+  const visit = (
+    chapter: Chapter,
+    parentPath: string[],
+    depth: number,
+    partId: string | undefined,
+  ): void => {
+    const path = [...parentPath, chapter.title];
+    const items: ChapterContentItem[] = [
+      ...chapter.textBlocks.map((block) => ({
+        kind: 'text' as const,
+        block,
+        pdfPageNo: block.pdfPageNo,
+      })),
+      ...resolve(chapter.imageIds, imagesById).map((image) => ({
+        kind: 'image' as const,
+        image,
+        pdfPageNo: image.pdfPageNo,
+      })),
+      ...resolve(chapter.tableIds, tablesById).map((table) => ({
+        kind: 'table' as const,
+        table,
+        pdfPageNo: table.pdfPageNo,
+      })),
+    ];
+
+    visits.push({
+      chapter,
+      path,
+      depth,
+      ...(partId !== undefined ? { partId } : {}),
+      items: items.sort((a, b) => a.pdfPageNo - b.pdfPageNo),
+      footnotes: resolve(chapter.footnoteIds, footnotesById),
+    });
+
+    for (const child of chapter.children ?? []) {
+      visit(child, path, depth + 1, partId);
+    }
+  };
+
+  for (const chapter of document.chapters) {
+    visit(chapter, [], 1, undefined);
+  }
+  for (const part of document.parts ?? []) {
+    for (const chapter of part.chapters) {
+      visit(chapter, part.title !== undefined ? [part.title] : [], 1, part.id);
+    }
+  }
+
+  return visits;
+}
+
+/**
+ * Look up the actual (printed) page number of a PDF page
+ *
+ * Pages of a part are looked up in the part's own page range map. Returns
+ * undefined when the page is not mapped or its number was not detected.
+ */
+export function getActualPageNo(
+  document: ProcessedDocument,
+  pdfPageNo: number,
+): number | undefined {
+  const part = document.parts?.find(
+    ({ startPdfPageNo, endPdfPageNo }) =>
+      pdfPageNo >= startPdfPageNo && pdfPageNo <= endPdfPageNo,
+  );
+  const pageRangeMap = part?.pageRangeMap ?? document.pageRangeMap;
+  const startPageNo = pageRangeMap[pdfPageNo]?.startPageNo;
+  return startPageNo ? startPageNo : undefined;
+}
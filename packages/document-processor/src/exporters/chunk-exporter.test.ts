@@ -0,0 +1,190 @@
+import type { ProcessedDocument } from '@heripo/model';
+
+import { describe, expect, test } from 'vitest';
+
+import {
+  createChapter,
+  createDocument,
+  createPart,
+} from '../testing/processed-document-fixtures';
+import { ChunkExporter } from './chunk-exporter';
+
+describe('ChunkExporter', () => {
+  const createSampleDocument = (
+    overrides?: Partial<ProcessedDocument>,
+  ): ProcessedDocument =>
+    createDocument({
+      pageRangeMap: {
+        5: { startPageNo: 12, endPageNo: 12 },
+        6: { startPageNo: 13, endPageNo: 13 },
+      },
+      chapters: [
+        createChapter('ch-001', 'Ⅱ. 조사내용', {
+          children: [
+            createChapter('ch-002', '1. 주거지', {
+              level: 2,
+              textBlocks: [
+                {
+                  id: 'txt-001',
+                  sourceRef: '#/texts/1',
+                  text: '1호 주거지는 장방형이다.',
+                  pdfPageNo: 6,
+                },
+                { text: '내부에서 토기가 출토되었다.', pdfPageNo: 7 },
+              ],
+              imageIds: ['img-001', 'img-002'],
+              tableIds: ['tbl-001'],
+              footnoteIds: ['ftn-001'],
+            }),
+          ],
+        }),
+      ],
+      images: [
+        {
+          id: 'img-001',
+          sourceRef: '#/pictures/0',
+          path: 'images/image_0.png',
+          pdfPageNo: 5,
+          caption: { num: '도판 1', fullText: '도판 1 주거지' },
+        },
+        { id: 'img-002', path: 'images/image_1.png', pdfPageNo: 6 },
+      ],
+      tables: [
+        {
+          id: 'tbl-001',
+          sourceRef: '#/tables/0',
+          pdfPageNo: 6,
+          numRows: 2,
+          numCols: 1,
+          caption: { num: '표 1', fullText: '표 1 출토유물' },
+          grid: [
+            [{ text: '기종', rowSpan: 1, colSpan: 1, isHeader: true }],
+            [{ text: '발', rowSpan: 1, colSpan: 1, isHeader: false }],
+          ],
+          fragmentSourceRefs: ['#/tables/0', '#/tables/1'],
+        },
+      ],
+      footnotes: [
+        {
+          id: 'ftn-001',
+          sourceRef: '#/texts/9',
+          text: '보고서 참조.',
+          pdfPageNo: 6,
+        },
+      ],
+      ...overrides,
+    });
+
+  test('builds one chunk per chapter with pages and references', () => {
+    const chunks = new ChunkExporter().export(createSampleDocument());
+
+    expect(chunks).toEqual([
+      {
+        id: 'chunk-001',
+        reportId: 'report-1',
+        chapterId: 'ch-002',
+        chapterPath: ['Ⅱ. 조사내용', '1. 주거지'],
+        text: [
+          '도판 1 주거지',
+          '1호 주거지는 장방형이다.',
+          '표 1 출토유물\n| 기종 |\n| --- |\n| 발 |',
+          '내부에서 토기가 출토되었다.',
+          '보고서 참조.',
+        ].join('\n\n'),
+        pdfPageNos: [5, 6, 7],
+        pageNos: [12, 13],
+        imageIds: ['img-001', 'img-002'],
+        tableIds: ['tbl-001'],
+        footnoteIds: ['ftn-001'],
+        sourceRefs: [
+          '#/pictures/0',
+          '#/texts/1',
+          '#/tables/0',
+          '#/tables/1',
+          '#/texts/9',
+        ],
+      },
+    ]);
+  });
+
+  test('splits chapters by maxChunkChars without splitting items', () => {
+    const chunks = new ChunkExporter({ maxChunkChars: 20 }).export(
+      createSampleDocument(),
+    );
+
+    expect(chunks.map((c) => [c.id, c.imageIds, c.tableIds])).toEqual([
+      ['chunk-001', ['img-001'], []],
+      ['chunk-002', ['img-002'], []],
+      ['chunk-003', [], ['tbl-001']],
+      ['chunk-004', [], []],
+      ['chunk-005', [], []],
+    ]);
+    expect(chunks[1].text).toBe('1호 주거지는 장방형이다.');
+    expect(chunks[4].footnoteIds).toEqual(['ftn-001']);
+  });
+
+  test('renders tables without captions and keeps single sourceRefs', () => {
+    const [chunk] = new ChunkExporter().export(
+      createSampleDocument({
+        chapters: [createChapter('ch-001', '부록', { tableIds: ['tbl-001'] })],
+        tables: [
+          {
+            id: 'tbl-001',
+            sourceRef: '#/tables/3',
+            pdfPageNo: 9,
+            numRows: 1,
+            numCols: 1,
+            grid: [[{ text: 'A', rowSpan: 1, colSpan: 1, isHeader: false }]],
+          },
+        ],
+      }),
+    );
+
+    expect(chunk.text).toBe('| A |\n| --- |');
+    expect(chunk.sourceRefs).toEqual(['#/tables/3']);
+    expect(chunk.pageNos).toEqual([]);
+  });
+
+  test('chunks part chapters with the part ID and page numbers', () => {
+    const chunks = new ChunkExporter().export(
+      createSampleDocument({
+        parts: [
+          createPart({
+            title: '자연과학 분석 보고서',
+            pageRangeMap: { 11: { startPageNo: 2, endPageNo: 2 } },
+            chapters: [
+              createChapter('part-001-ch-001', 'Ⅰ. 분석 방법', {
+                textBlocks: [{ text: '시료를 채취하였다.', pdfPageNo: 11 }],
+              }),
+            ],
+          }),
+        ],
+      }),
+    );
+
+    expect(chunks).toHaveLength(2);
+    expect(chunks[0]).not.toHaveProperty('partId');
+    expect(chunks[1]).toMatchObject({
+      chapterId: 'part-001-ch-001',
+      chapterPath: ['자연과학 분석 보고서', 'Ⅰ. 분석 방법'],
+      partId: 'part-001',
+      text: '시료를 채취하였다.',
+      pdfPageNos: [11],
+      pageNos: [2],
+    });
+  });
+
+  test('serializes chunks as JSON Lines', () => {
+    const exporter = new ChunkExporter({ maxChunkChars: 20 });
+
+    const jsonl = exporter.exportJsonl(createSampleDocument());
+    const lines = jsonl.split('\n');
+
+    expect(lines).toHaveLength(6);
+    expect(lines[5]).toBe('');
+    expect(JSON.parse(lines[0]).id).toBe('chunk-001');
+    expect(exporter.exportJsonl(createSampleDocument({ chapters: [] }))).toBe(
+      '',
+    );
+  });
+});
@@ -0,0 +1,253 @@
+import type {
+  ProcessedDocument,
+  ProcessedFootnote,
+  ProcessedTable,
+} from '@heripo/model';
+
+import type { ChapterContentItem, ChapterVisit } from './chapter-walker';
+
+import { MarkdownConverter } from '../utils';
+import { getActualPageNo, walkChapters } from './chapter-walker';
+
+/**
+ * Retrieval chunk exported as one JSONL line
+ */
+export interface DocumentChunk {
+  /**
+   * Chunk ID (e.g., "chunk-001")
+   */
+  id: string;
+
+  /**
+   * Report ID of the source document
+   */
+  reportId: string;
+
+  /**
+   * ID of the chapter the chunk belongs to
+   */
+  chapterId: string;
+
+  /**
+   * Chapter titles from the root to the chunk's chapter, preceded by the part
+   * title for chapters of a titled part
+   */
+  chapterPath: string[];
+
+  /**
+   * ID of the part the chunk belongs to; undefined for the main report
+   */
+  partId?: string;
+
+  /**
+   * Chunk text (tables rendered as Markdown)
+   */
+  text: string;
+
+  /**
+   * PDF pages covered by the chunk, ascending
+   */
+  pdfPageNos: number[];
+
+  /**
+   * Actual document pages covered by the chunk, ascending
+   *
+   * Pages whose number was not detected are omitted.
+   */
+  pageNos: number[];
+
+  /**
+   * IDs of images in the chunk
+   */
+  imageIds: string[];
+
+  /**
+   * IDs of tables in the chunk
+   */
+  tableIds: string[];
+
+  /**
+   * IDs of footnotes in the chunk
+   */
+  footnoteIds: string[];
+
+  /**
+   * Docling references of the chunk's source nodes
+   */
+  sourceRefs: string[];
+}
+
+/**
+ * Options for ChunkExporter
+ */
+export interface ChunkExporterOptions {
+  /**
+   * Maximum characters per chunk (default: 2000)
+   *
+   * Content items are never split, so an item longer than the limit forms a
+   * chunk on its own.
+   */
+  maxChunkChars?: number;
+}
+
+type ChunkItem =
+  | ChapterContentItem
+  | { kind: 'footnote'; footnote: ProcessedFootnote; pdfPageNo: number };
+
+/**
+ * ChunkExporter
+ *
+ * Splits a ProcessedDocument into retrieval chunks.
+ *
+ * - Chunks never cross chapter boundaries
+ * - Within a chapter, content is packed in page order up to `maxChunkChars`;
+ *   the chapter's footnotes follow its body content
+ * - Images contribute their caption text; tables their caption and Markdown
+ *   grid. Both are always referenced through `imageIds` / `tableIds`
+ */
+export class ChunkExporter {
+  private readonly maxChunkChars: number;
+
+  constructor(options: ChunkExporterOptions = {}) {
+    this.maxChunkChars = options.maxChunkChars ?? 2000;
+  }
+
+  /**
+   * Build retrieval chunks for the document
+   */
+  export(document: ProcessedDocument): DocumentChunk[] {
+    const chunks: DocumentChunk[] = [];
+
+    for (const visit of walkChapters(document)) {
+      const items: ChunkItem[] = [
+        ...visit.items,
+        ...visit.footnotes.map((footnote) => ({
+          kind: 'footnote' as const,
+          footnote,
+          pdfPageNo: footnote.pdfPageNo,
+        })),
+      ];
+
+      let current: ChunkItem[] = [];
+      let currentChars = 0;
+
+      const flush = (): void => {
+        if (current.length === 0) return;
+        chunks.push(
+          this.buildChunk(
+            document,
+            `chunk-${String(chunks.length + 1).padStart(3, '0')}`,
+            visit,
+            current,
+          ),
+        );
+        current = [];
+        currentChars = 0;
+      };
+
+      for (const item of items) {
+        const chars = this.renderItem(item).length;
+        if (currentChars + chars > this.maxChunkChars) {
+          flush();
+        }
+        current.push(item);
+        currentChars += chars;
+      }
+      flush();
+    }
+
+    return chunks;
+  }
+
+  /**
+   * Build chunks and serialize them as JSON Lines
+   */
+  exportJsonl(document: ProcessedDocument): string {
+    return this.export(document)
+      .map((chunk) => `${JSON.stringify(chunk)}\n`)
+      .join('');
+  }
+
+  private buildChunk(
+    document: ProcessedDocument,
+    id: string,
+    visit: ChapterVisit,
+    items: ChunkItem[],
+  ): DocumentChunk {
+    const pdfPageNos = [...new Set(items.map((item) => item.pdfPageNo))].sort(
+      (a, b) => a - b,
+    );
+    const pageNos = [
+      ...new Set(
+        pdfPageNos
+          .map((pdfPageNo) => getActualPageNo(document, pdfPageNo))
+          .filter((pageNo): pageNo is number => pageNo !== undefined),
+      ),
+    ].sort((a, b) => a - b);
+
+    return {
+      id,
+      reportId: document.reportId,
+      chapterId: visit.chapter.id,
+      chapterPath: visit.path,
+      ...(visit.partId !== undefined ? { partId: visit.partId } : {}),
+      text: items
+        .map((item) => this.renderItem(item))
+        .filter((text) => text !== '')
+        .join('\n\n'),
+      pdfPageNos,
+      pageNos,
+      imageIds: items.flatMap((item) =>
+        item.kind === 'image' ? [item.image.id] : [],
+      ),
+      tableIds: items.flatMap((item) =>
+        item.kind === 'table' ? [item.table.id] : [],
+      ),
+      footnoteIds: items.flatMap((item) =>
+        item.kind === 'footnote' ? [item.footnote.id] : [],
+      ),
+      sourceRefs: [
+        ...new Set(
+          items
+            .flatMap((item) => this.getSourceRefs(item))
+            .filter((ref): ref is string => ref !== undefined),
+        ),
+      ],
+    };
+  }
+
+  private renderItem(item: ChunkItem): string {
+    switch (item.kind) {
+      case 'text':
+        return item.block.text;
+      case 'image':
+        return item.image.caption?.fullText ?? '';
+      case 'table':
+        return this.renderTable(item.table);
+      case 'footnote':
+        return item.footnote.text;
+    }
+  }
+
+  private renderTable(table: ProcessedTable): string {
+    return [
+      table.caption?.fullText ?? '',
+      MarkdownConverter.tableToMarkdown(table),
+    ]
+      .filter((text) => text !== '')
+      .join('\n');
+  }
+
+  private getSourceRefs(item: ChunkItem): Array<string | undefined> {
+    switch (item.kind) {
+      case 'text':
+        return [item.block.sourceRef];
+      case 'image':
+        return [item.image.sourceRef];
+      case 'table':
+        return item.table.fragmentSourceRefs ?? [item.table.sourceRef];
+      case 'footnote':
+        return [item.footnote.sourceRef];
+    }
+  }
+}
@@ -0,0 +1,106 @@
+import type { ProcessedDocument } from '@heripo/model';
+
+import { describe, expect, test } from 'vitest';
+
+import { DocumentExporter } from './document-exporter';
+
+describe('DocumentExporter', () => {
+  const document: ProcessedDocument = {
+    reportId: 'report-1',
+    pageRangeMap: {},
+    chapters: [
+      {
+        id: 'ch-001',
+        originTitle: 'Ⅰ. 조사개요',
+        title: 'Ⅰ. 조사개요',
+        pageNo: 1,
+        level: 1,
+        textBlocks: [{ text: '본문', pdfPageNo: 3 }],
+        imageIds: [],
+        tableIds: [],
+        footnoteIds: [],
+      },
+    ],
+    images: [],
+    tables: [],
+    footnotes: [],
+  };
+
+  test('renders each format with its exporter and options', () => {
+    const exporter = new DocumentExporter({
+      markdown: { includePageMarkers: true },
+      html: { lang: 'en' },
+      jsonl: { maxChunkChars: 100 },
+    });
+
+    expect(exporter.export(document, 'markdown')).toBe(
+      '# Ⅰ. 조사개요\n\n<!-- page pdf 3 -->\n\n본문\n',
+    );
+    expect(exporter.export(document, 'html')).toContain('<html lang="en">');
+    expect(JSON.parse(exporter.export(document, 'jsonl'))).toMatchObject({
+      id: 'chunk-001',
+      text: '본문',
+    });
+  });
+
+  test('uses default options when none are given', () => {
+    expect(new DocumentExporter().export(document, 'markdown')).toBe(
+      '# Ⅰ. 조사개요\n\n본문\n',
+    );
+  });
+
+  test('leaves excluded images out of every format', () => {
+    const withImages: ProcessedDocument = {
+      ...document,
+      chapters: [
+        {
+          ...document.chapters[0],
+          textBlocks: [],
+          imageIds: ['img-001', 'img-002', 'img-003'],
+        },
+      ],
+      images: [
+        { id: 'img-001', path: 'images/image_0.png', pdfPageNo: 3 },
+        {
+          id: 'img-002',
+          path: 'images/image_1.png',
+          pdfPageNo: 4,
+          duplicateOf: 'img-001',
+        },
+        {
+          id: 'img-003',
+          path: 'images/image_2.png',
+          pdfPageNo: 5,
+          isDecorative: true,
+        },
+      ],
+    };
+
+    expect(
+      new DocumentExporter({
+        excludeImages: ['duplicates', 'decorative'],
+      }).export(withImages, 'markdown'),
+    ).toBe('# Ⅰ. 조사개요\n\n![img-001](images/image_0.png)\n');
+    expect(
+      new DocumentExporter({ excludeImages: ['duplicates'] }).export(
+        withImages,
+        'html',
+      ),
+    ).not.toContain('image_1.png');
+    expect(
+      new DocumentExporter({ excludeImages: ['decorative'] }).export(
+        withImages,
+        'jsonl',
+      ),
+    ).not.toContain('img-003');
+    expect(new DocumentExporter().export(withImages, 'html')).toContain(
+      'image_2.png',
+    );
+  });
+
+  test('maps formats to file extensions', () => {
+    expect(DocumentExporter.getFileExtension('markdown')).toBe('md');
+    expect(DocumentExporter.getFileExtension('html')).toBe('html');
+    expect(DocumentExporter.getFileExtension('jsonl')).toBe('jsonl');
+  });
+});
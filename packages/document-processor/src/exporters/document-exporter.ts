@@ -0,0 +1,112 @@
+import type { ProcessedDocument, ProcessedImage } from '@heripo/model';
+
+import type { ChunkExporterOptions } from './chunk-exporter';
+import type { HtmlExporterOptions } from './html-exporter';
+import type { MarkdownExporterOptions } from './markdown-exporter';
+
+import { ChunkExporter } from './chunk-exporter';
+import { HtmlExporter } from './html-exporter';
+import { MarkdownExporter } from './markdown-exporter';
+
+/**
+ * Supported export formats
+ */
+export type ExportFormat = 'markdown' | 'html' | 'jsonl';
+
+/**
+ * Images that can be left out of exports: near-duplicate repeats
+ * (`duplicateOf`) and decorative images (`isDecorative`) marked by
+ * ImageDeduplicator
+ */
+export type ImageExclusion = 'duplicates' | 'decorative';
+
+/**
+ * Per-format options for DocumentExporter
+ */
+export interface DocumentExporterOptions {
+  markdown?: MarkdownExporterOptions;
+  html?: HtmlExporterOptions;
+  jsonl?: ChunkExporterOptions;
+
+  /**
+   * Images to leave out of every format (default: none)
+   */
+  excludeImages?: ImageExclusion[];
+}
+
+const IMAGE_EXCLUSION_FILTERS: Record<
+  ImageExclusion,
+  (image: ProcessedImage) => boolean
+> = {
+  duplicates: (image) => image.duplicateOf !== undefined,
+  decorative: (image) => image.isDecorative === true,
+};
+
+const FILE_EXTENSIONS: Record<ExportFormat, string> = {
+  markdown: 'md',
+  html: 'html',
+  jsonl: 'jsonl',
+};
+
+/**
+ * DocumentExporter
+ *
+ * Single entry point that renders a ProcessedDocument to any supported format.
+ */
+export class DocumentExporter {
+  private readonly markdownExporter: MarkdownExporter;
+  private readonly htmlExporter: HtmlExporter;
+  private readonly chunkExporter: ChunkExporter;
+  private readonly excludeImages: ImageExclusion[];
+
+  constructor(options: DocumentExporterOptions = {}) {
+    this.markdownExporter = new MarkdownExporter(options.markdown);
+    this.htmlExporter = new HtmlExporter(options.html);
+    this.chunkExporter = new ChunkExporter(options.jsonl);
+    this.excludeImages = options.excludeImages ?? [];
+  }
+
+  /**
+   * File extension (without dot) for an export format
+   */
+  static getFileExtension(format: ExportFormat): string {
+    return FILE_EXTENSIONS[format];
+  }
+
+  /**
+   * Render the document in the given format
+   */
+  export(document: ProcessedDocument, format: ExportFormat): string {
+    const exported = this.withoutExcludedImages(document);
+    switch (format) {
+      case 'markdown':
+        return this.markdownExporter.export(exported);
+      case 'html':
+        return this.htmlExporter.export(exported);
+      case 'jsonl':
+        return this.chunkExporter.exportJsonl(exported);
+    }
+  }
+
+  /**
+   * Copy of the document without the excluded images
+   *
+   * Chapters keep their image IDs; the exporters skip unknown IDs.
+   */
+  private withoutExcludedImages(
+    document: ProcessedDocument,
+  ): ProcessedDocument {
+    if (this.excludeImages.length === 0) {
+      return document;
+    }
+    const filters = this.excludeImages.map(
+      (exclusion) => IMAGE_EXCLUSION_FILTERS[exclusion],
+    );
+    return {
+      ...document,
+      images: document.images.filter(
+        (image) => !filters.some((isExcluded) => isExcluded(image)),
+      ),
+    };
+  }
+}
@@ -0,0 +1,164 @@
+import type { ProcessedDocument } from '@heripo/model';
+
+import { describe, expect, test } from 'vitest';
+
+import {
+  createChapter,
+  createDocument,
+  createPart,
+} from '../testing/processed-document-fixtures';
+import { HtmlExporter } from './html-exporter';
+
+describe('HtmlExporter', () => {
+  const createSampleDocument = (
+    overrides?: Partial<ProcessedDocument>,
+  ): ProcessedDocument =>
+    createDocument({
+      pageRangeMap: { 5: { startPageNo: 12, endPageNo: 12 } },
+      chapters: [
+        createChapter('ch-001', 'Ⅱ. 조사내용', {
+          pageNo: 11,
+          children: [
+            createChapter('ch-002', '1. 주거지', {
+              level: 2,
+              pageNo: 12,
+              textBlocks: [{ text: '길이 <5m> & 너비 "3m"', pdfPageNo: 5 }],
+              imageIds: ['img-001', 'img-002'],
+              tableIds: ['tbl-001'],
+              footnoteIds: ['ftn-001'],
+            }),
+          ],
+        }),
+        createChapter('ch-003', 'Ⅲ. 고찰', { pageNo: 20 }),
+      ],
+      images: [
+        {
+          id: 'img-001',
+          path: 'images/image_0.png',
+          pdfPageNo: 5,
+          caption: { num: '도판 1', fullText: '도판 1 주거지' },
+        },
+        { id: 'img-002', path: 'images/image_1.png', pdfPageNo: 6 },
+      ],
+      tables: [
+        {
+          id: 'tbl-001',
+          pdfPageNo: 6,
+          numRows: 3,
+          numCols: 2,
+          caption: { num: '표 1', fullText: '표 1 출토유물' },
+          grid: [
+            [{ text: '유물', rowSpan: 1, colSpan: 2, isHeader: true }],
+            [
+              { text: '발', rowSpan: 2, colSpan: 1, isHeader: false },
+              { text: '1점', rowSpan: 1, colSpan: 1, isHeader: false },
+            ],
+            [{ text: '2점', rowSpan: 1, colSpan: 1, isHeader: false }],
+          ],
+          rowPdfPageNos: [6, 6, 7],
+        },
+      ],
+      footnotes: [{ id: 'ftn-001', text: '보고서 참조.', pdfPageNo: 5 }],
+      ...overrides,
+    });
+
+  test('renders nested sections, figures, tables and footnotes', () => {
+    const html = new HtmlExporter().export(createSampleDocument());
+
+    expect(html).toBe(
+      [
+        '<!DOCTYPE html>',
+        '<html lang="ko">',
+        '<head>',
+        '<meta charset="utf-8">',
+        '<title>report-1</title>',
+        '</head>',
+        '<body>',
+        '<article data-report-id="report-1">',
+        '<section id="ch-001" data-page="11">',
+        '<h1>Ⅱ. 조사내용</h1>',
+        '<section id="ch-002" data-page="12">',
+        '<h2>1. 주거지</h2>',
+        '<p data-pdf-page="5" data-page="12">길이 &lt;5m&gt; &amp; 너비 &quot;3m&quot;</p>',
+        '<figure id="img-001" data-pdf-page="5" data-page="12">',
+        '<img src="images/image_0.png" alt="도판 1 주거지">',
+        '<figcaption>도판 1 주거지</figcaption>',
+        '</figure>',
+        '<figure id="img-002" data-pdf-page="6">',
+        '<img src="images/image_1.png" alt="">',
+        '</figure>',
+        '<table id="tbl-001" data-pdf-page="6">',
+        '<caption>표 1 출토유물</caption>',
+        '<tr data-pdf-page="6"><th colspan="2">유물</th></tr>',
+        '<tr data-pdf-page="6"><td rowspan="2">발</td><td>1점</td></tr>',
+        '<tr data-pdf-page="7"><td>2점</td></tr>',
+        '</table>',
+        '<aside class="footnotes">',
+        '<ol>',
+        '<li id="ftn-001" data-pdf-page="5" data-page="12">보고서 참조.</li>',
+        '</ol>',
+        '</aside>',
+        '</section>',
+        '</section>',
+        '<section id="ch-003" data-page="20">',
+        '<h1>Ⅲ. 고찰</h1>',
+        '</section>',
+        '</article>',
+        '</body>',
+        '</html>',
+        '',
+      ].join('\n'),
+    );
+  });
+
+  test('renders part chapters with their own page numbers', () => {
+    const html = new HtmlExporter().export(
+      createSampleDocument({
+        parts: [
+          createPart({
+            pageRangeMap: { 11: { startPageNo: 2, endPageNo: 2 } },
+            chapters: [
+              createChapter('part-001-ch-001', 'Ⅰ. 분석 방법', {
+                textBlocks: [{ text: '시료를 채취하였다.', pdfPageNo: 11 }],
+              }),
+            ],
+          }),
+        ],
+      }),
+    );
+
+    expect(html).toContain(
+      '<section id="part-001-ch-001" data-page="1">\n<h1>Ⅰ. 분석 방법</h1>\n<p data-pdf-page="11" data-page="2">시료를 채취하였다.</p>\n</section>\n</article>',
+    );
+  });
+
+  test('applies lang and title options', () => {
+    const html = new HtmlExporter({ lang: 'en', title: 'A & B' }).export(
+      createSampleDocument({ chapters: [] }),
+    );
+
+    expect(html).toContain('<html lang="en">');
+    expect(html).toContain('<title>A &amp; B</title>');
+  });
+
+  test('omits caption and row pages for plain tables', () => {
+    const html = new HtmlExporter().export(
+      createSampleDocument({
+        chapters: [createChapter('ch-001', '부록', { tableIds: ['tbl-001'] })],
+        tables: [
+          {
+            id: 'tbl-001',
+            pdfPageNo: 5,
+            numRows: 1,
+            numCols: 1,
+            grid: [[{ text: 'A', rowSpan: 1, colSpan: 1, isHeader: false }]],
+          },
+        ],
+      }),
+    );
+
+    expect(html).toContain(
+      '<table id="tbl-001" data-pdf-page="5" data-page="12">\n<tr><td>A</td></tr>\n</table>',
+    );
+  });
+});
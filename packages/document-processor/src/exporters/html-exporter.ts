@@ -0,0 +1,177 @@
+import type {
+  ProcessedDocument,
+  ProcessedImage,
+  ProcessedTable,
+} from '@heripo/model';
+
+import type { ChapterContentItem } from './chapter-walker';
+
+import { getActualPageNo, walkChapters } from './chapter-walker';
+
+/**
+ * Options for HtmlExporter
+ */
+export interface HtmlExporterOptions {
+  /**
+   * Value of the `lang` attribute on the html element (default: 'ko')
+   */
+  lang?: string;
+
+  /**
+   * Document title (default: report ID)
+   */
+  title?: string;
+}
+
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * HtmlExporter
+ *
+ * Renders a ProcessedDocument as a standalone semantic HTML page.
+ *
+ * - Chapters become nested `<section>` elements with `<h1>`-`<h6>` headings
+ * - Images become `<figure>` with `<figcaption>`; tables keep spans and
+ *   header cells and carry their caption in `<caption>`
+ * - Footnotes are listed in an `<aside class="footnotes">` per chapter
+ * - Sections carry the chapter's actual page in `data-page`; content carries
+ *   `data-pdf-page` and, when known, `data-page`. Rows of merged tables carry
+ *   their own `data-pdf-page`
+ */
+export class HtmlExporter {
+  private readonly lang: string;
+  private readonly title?: string;
+
+  constructor(options: HtmlExporterOptions = {}) {
+    this.lang = options.lang ?? 'ko';
+    this.title = options.title;
+  }
+
+  /**
+   * Render the document to an HTML string
+   */
+  export(document: ProcessedDocument): string {
+    const lines: string[] = [
+      '<!DOCTYPE html>',
+      `<html lang="${escapeHtml(this.lang)}">`,
+      '<head>',
+      '<meta charset="utf-8">',
+      `<title>${escapeHtml(this.title ?? document.reportId)}</title>`,
+      '</head>',
+      '<body>',
+      `<article data-report-id="${escapeHtml(document.reportId)}">`,
+    ];
+    let openSections = 0;
+
+    for (const visit of walkChapters(document)) {
+      while (openSections >= visit.depth) {
+        lines.push('</section>');
+        openSections--;
+      }
+
+      const { chapter } = visit;
+      const headingLevel = Math.min(visit.depth, 6);
+      lines.push(
+        `<section id="${escapeHtml(chapter.id)}" data-page="${chapter.pageNo}">`,
+        `<h${headingLevel}>${escapeHtml(chapter.title)}</h${headingLevel}>`,
+        ...visit.items.map((item) => this.renderItem(document, item)),
+      );
+      openSections++;
+
+      if (visit.footnotes.length > 0) {
+        lines.push(
+          '<aside class="footnotes">',
+          '<ol>',
+          ...visit.footnotes.map(
+            (footnote) =>
+              `<li id="${escapeHtml(footnote.id)}"${this.pageAttributes(document, footnote.pdfPageNo)}>${escapeHtml(footnote.text)}</li>`,
+          ),
+          '</ol>',
+          '</aside>',
+        );
+      }
+    }
+
+    while (openSections > 0) {
+      lines.push('</section>');
+      openSections--;
+    }
+
+    lines.push('</article>', '</body>', '</html>');
+    return `${lines.join('\n')}\n`;
+  }
+
+  private renderItem(
+    document: ProcessedDocument,
+    item: ChapterContentItem,
+  ): string {
+    switch (item.kind) {
+      case 'text':
+        return `<p${this.pageAttributes(document, item.pdfPageNo)}>${escapeHtml(item.block.text)}</p>`;
+      case 'image':
+        return this.renderImage(document, item.image);
+      case 'table':
+        return this.renderTable(document, item.table);
+    }
+  }
+
+  private renderImage(
+    document: ProcessedDocument,
+    image: ProcessedImage,
+  ): string {
+    const caption = image.caption?.fullText;
+    return [
+      `<figure id="${escapeHtml(image.id)}"${this.pageAttributes(document, image.pdfPageNo)}>`,
+      `<img src="${escapeHtml(image.path)}" alt="${escapeHtml(caption ?? '')}">`,
+      ...(caption ? [`<figcaption>${escapeHtml(caption)}</figcaption>`] : []),
+      '</figure>',
+    ].join('\n');
+  }
+
+  private renderTable(
+    document: ProcessedDocument,
+    table: ProcessedTable,
+  ): string {
+    const caption = table.caption?.fullText;
+    const rows = table.grid.map((row, rowIndex) => {
+      const rowPdfPageNo = table.rowPdfPageNos?.[rowIndex];
+      const cells = row.map((cell) => {
+        const tag = cell.isHeader ? 'th' : 'td';
+        const spans =
+          (cell.rowSpan > 1 ? ` rowspan="${cell.rowSpan}"` : '') +
+          (cell.colSpan > 1 ? ` colspan="${cell.colSpan}"` : '');
+        return `<${tag}${spans}>${escapeHtml(cell.text)}</${tag}>`;
+      });
+      const attributes =
+        rowPdfPageNo !== undefined ? ` data-pdf-page="${rowPdfPageNo}"` : '';
+      return `<tr${attributes}>${cells.join('')}</tr>`;
+    });
+
+    return [
+      `<table id="${escapeHtml(table.id)}"${this.pageAttributes(document, table.pdfPageNo)}>`,
+      ...(caption ? [`<caption>${escapeHtml(caption)}</caption>`] : []),
+      ...rows,
+      '</table>',
+    ].join('\n');
+  }
+
+  /**
+   * Build `data-pdf-page` and, when the actual page is known, `data-page`
+   */
+  private pageAttributes(
+    document: ProcessedDocument,
+    pdfPageNo: number,
+  ): string {
+    const actualPageNo = getActualPageNo(document, pdfPageNo);
+    return (
+      ` data-pdf-page="${pdfPageNo}"` +
+      (actualPageNo !== undefined ? ` data-page="${actualPageNo}"` : '')
+    );
+  }
+}
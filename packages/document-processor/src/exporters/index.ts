@@ -0,0 +1,22 @@
+export { ChunkExporter } from './chunk-exporter';
+export type { ChunkExporterOptions, DocumentChunk } from './chunk-exporter';
+export { DocumentExporter } from './document-exporter';
+export type {
+  DocumentExporterOptions,
+  ExportFormat,
+  ImageExclusion,
+} from './document-exporter';
+export { HtmlExporter } from './html-exporter';
+export type { HtmlExporterOptions } from './html-exporter';
+export { MarkdownExporter } from './markdown-exporter';
+export type { MarkdownExporterOptions } from './markdown-exporter';
+export { TableExporter } from './table-exporter';
+export type {
+  TableColumn,
+  TableColumnType,
+  TableExportFormat,
+  TableExporterOptions,
+  TableRecord,
+  TableRecordValue,
+  TidyTable,
+} from './table-exporter';
@@ -0,0 +1,150 @@
+import type { ProcessedDocument } from '@heripo/model';
+
+import { describe, expect, test } from 'vitest';
+
+import {
+  createChapter,
+  createDocument,
+  createPart,
+} from '../testing/processed-document-fixtures';
+import { MarkdownExporter } from './markdown-exporter';
+
+describe('MarkdownExporter', () => {
+  const createSampleDocument = (
+    overrides?: Partial<ProcessedDocument>,
+  ): ProcessedDocument =>
+    createDocument({
+      pageRangeMap: { 5: { startPageNo: 12, endPageNo: 12 } },
+      chapters: [
+        createChapter('ch-001', 'Ⅱ. 조사내용', {
+          children: [
+            createChapter('ch-002', '1. 주거지', {
+              level: 2,
+              textBlocks: [
+                { text: '1호 주거지는 장방형이다.', pdfPageNo: 5 },
+                { text: '내부에서 토기가 출토되었다.', pdfPageNo: 6 },
+              ],
+              imageIds: ['img-001', 'img-002'],
+              tableIds: ['tbl-001'],
+              footnoteIds: ['ftn-001'],
+            }),
+          ],
+        }),
+      ],
+      images: [
+        {
+          id: 'img-001',
+          path: 'images/image_0.png',
+          pdfPageNo: 5,
+          caption: { num: '도판 1', fullText: '도판 1 [1호] 주거지' },
+        },
+        { id: 'img-002', path: 'images/image_1.png', pdfPageNo: 6 },
+      ],
+      tables: [
+        {
+          id: 'tbl-001',
+          pdfPageNo: 6,
+          numRows: 2,
+          numCols: 1,
+          caption: { num: '표 1', fullText: '표 1 출토유물' },
+          grid: [
+            [{ text: '기종', rowSpan: 1, colSpan: 1, isHeader: true }],
+            [{ text: '발', rowSpan: 1, colSpan: 1, isHeader: false }],
+          ],
+        },
+      ],
+      footnotes: [{ id: 'ftn-001', text: '보고서 참조.', pdfPageNo: 6 }],
+      ...overrides,
+    });
+
+  test('renders chapters as headings with content in page order', () => {
+    const markdown = new MarkdownExporter().export(createSampleDocument());
+
+    expect(markdown).toBe(
+      [
+        '# Ⅱ. 조사내용',
+        '## 1. 주거지',
+        '1호 주거지는 장방형이다.',
+        '![도판 1 1호 주거지](images/image_0.png)\n\n*도판 1 [1호] 주거지*',
+        '내부에서 토기가 출토되었다.',
+        '![img-002](images/image_1.png)',
+        '**표 1 출토유물**\n\n| 기종 |\n| --- |\n| 발 |',
+        '[^ftn-001]: 보고서 참조.',
+      ].join('\n\n') + '\n',
+    );
+  });
+
+  test('inserts page markers when includePageMarkers is set', () => {
+    const markdown = new MarkdownExporter({
+      includePageMarkers: true,
+    }).export(createSampleDocument());
+
+    expect(markdown).toContain(
+      '## 1. 주거지\n\n<!-- page 12 -->\n\n1호 주거지는 장방형이다.',
+    );
+    expect(markdown).toContain(
+      '*도판 1 [1호] 주거지*\n\n<!-- page pdf 6 -->\n\n내부에서',
+    );
+    expect(markdown.match(/<!-- page/g)).toHaveLength(2);
+  });
+
+  test('renders part chapters after the main report with their own page numbers', () => {
+    const markdown = new MarkdownExporter({ includePageMarkers: true }).export(
+      createSampleDocument({
+        parts: [
+          createPart({
+            pageRangeMap: { 11: { startPageNo: 2, endPageNo: 2 } },
+            chapters: [
+              createChapter('part-001-ch-001', 'Ⅰ. 분석 방법', {
+                textBlocks: [{ text: '시료를 채취하였다.', pdfPageNo: 11 }],
+              }),
+            ],
+          }),
+        ],
+      }),
+    );
+
+    expect(
+      markdown.endsWith(
+        '# Ⅰ. 분석 방법\n\n<!-- page 2 -->\n\n시료를 채취하였다.\n',
+      ),
+    ).toBe(true);
+  });
+
+  test('caps heading depth at 6 and skips empty tables', () => {
+    let chapter = createChapter('ch-007', 'Level 7', {
+      tableIds: ['tbl-001', 'tbl-002'],
+    });
+    for (let i = 6; i >= 1; i--) {
+      chapter = createChapter(`ch-00${i}`, `Level ${i}`, {
+        children: [chapter],
+      });
+    }
+
+    const markdown = new MarkdownExporter().export(
+      createSampleDocument({
+        chapters: [chapter],
+        tables: [
+          { id: 'tbl-001', pdfPageNo: 1, numRows: 0, numCols: 0, grid: [] },
+          {
+            id: 'tbl-002',
+            pdfPageNo: 1,
+            numRows: 0,
+            numCols: 0,
+            grid: [],
+            caption: { fullText: '표 2 빈 표' },
+          },
+        ],
+      }),
+    );
+
+    expect(markdown).toContain('###### Level 6\n\n###### Level 7');
+    expect(markdown.endsWith('###### Level 7\n\n**표 2 빈 표**\n')).toBe(true);
+  });
+
+  test('returns an empty string for documents without chapters', () => {
+    expect(
+      new MarkdownExporter().export(createSampleDocument({ chapters: [] })),
+    ).toBe('');
+  });
+});
@@ -0,0 +1,106 @@
+import type {
+  ProcessedDocument,
+  ProcessedImage,
+  ProcessedTable,
+} from '@heripo/model';
+
+import type { ChapterContentItem } from './chapter-walker';
+
+import { MarkdownConverter } from '../utils';
+import { getActualPageNo, walkChapters } from './chapter-walker';
+
+/**
+ * Options for MarkdownExporter
+ */
+export interface MarkdownExporterOptions {
+  /**
+   * Insert `<!-- page N -->` comments where the PDF page changes (default: false)
+   *
+   * N is the actual page number when known, otherwise `pdf N`.
+   */
+  includePageMarkers?: boolean;
+}
+
+/**
+ * MarkdownExporter
+ *
+ * Renders a ProcessedDocument as hierarchical Markdown.
+ *
+ * - Chapters become headings whose level follows the chapter depth (max 6)
+ * - Text blocks become paragraphs; images and tables follow in page order
+ * - Tables use MarkdownConverter.tableToMarkdown, preceded by the caption
+ * - Footnotes are listed at the end of their chapter as `[^ftn-001]: ...`
+ */
+export class MarkdownExporter {
+  private readonly includePageMarkers: boolean;
+
+  constructor(options: MarkdownExporterOptions = {}) {
+    this.includePageMarkers = options.includePageMarkers ?? false;
+  }
+
+  /**
+   * Render the document to a Markdown string
+   */
+  export(document: ProcessedDocument): string {
+    const blocks: string[] = [];
+    let currentPdfPageNo: number | undefined;
+
+    for (const visit of walkChapters(document)) {
+      blocks.push(
+        `${'#'.repeat(Math.min(visit.depth, 6))} ${visit.chapter.title}`,
+      );
+
+      for (const item of visit.items) {
+        if (this.includePageMarkers && item.pdfPageNo !== currentPdfPageNo) {
+          currentPdfPageNo = item.pdfPageNo;
+          const actualPageNo = getActualPageNo(document, item.pdfPageNo);
+          blocks.push(
+            `<!-- page ${actualPageNo ?? `pdf ${item.pdfPageNo}`} -->`,
+          );
+        }
+        const block = this.renderItem(item);
+        if (block !== '') {
+          blocks.push(block);
+        }
+      }
+
+      if (visit.footnotes.length > 0) {
+        blocks.push(
+          visit.footnotes
+            .map((footnote) => `[^${footnote.id}]: ${footnote.text}`)
+            .join('\n'),
+        );
+      }
+    }
+
+    return blocks.length > 0 ? `${blocks.join('\n\n')}\n` : '';
+  }
+
+  private renderItem(item: ChapterContentItem): string {
+    switch (item.kind) {
+      case 'text':
+        return item.block.text;
+      case 'image':
+        return this.renderImage(item.image);
+      case 'table':
+        return this.renderTable(item.table);
+    }
+  }
+
+  private renderImage(image: ProcessedImage): string {
+    const caption = image.caption?.fullText;
+    const alt = (caption ?? image.id).replace(/[[\]]/g, '');
+    const line = `![${alt}](${image.path})`;
+    return caption ? `${line}\n\n*${caption}*` : line;
+  }
+
+  private renderTable(table: ProcessedTable): string {
+    const caption = table.caption?.fullText;
+    return [
+      caption ? `**${caption}**` : '',
+      MarkdownConverter.tableToMarkdown(table),
+    ]
+      .filter((block) => block !== '')
+      .join('\n\n');
+  }
+}
@@ -0,0 +1,316 @@
+import type {
+  ProcessedDocument,
+  ProcessedTable,
+  ProcessedTableCell,
+} from '@heripo/model';
+
+import { inflateRawSync } from 'node:zlib';
+import { describe, expect, test } from 'vitest';
+
+import { createDocument } from '../testing/processed-document-fixtures';
+import { TableExporter } from './table-exporter';
+
+describe('TableExporter', () => {
+  const cell = (
+    text: string,
+    overrides?: Partial<ProcessedTableCell>,
+  ): ProcessedTableCell => ({
+    text,
+    rowSpan: 1,
+    colSpan: 1,
+    isHeader: false,
+    ...overrides,
+  });
+
+  const header = (
+    text: string,
+    overrides?: Partial<ProcessedTableCell>,
+  ): ProcessedTableCell => cell(text, { isHeader: true, ...overrides });
+
+  const createTable = (
+    id: string,
+    grid: ProcessedTableCell[][],
+    overrides?: Partial<ProcessedTable>,
+  ): ProcessedTable => ({
+    id,
+    pdfPageNo: 10,
+    numRows: grid.length,
+    numCols: 0,
+    grid,
+    ...overrides,
+  });
+
+  // Artifact table merged across pages 10 and 11, repeating its header
+  const artifactTable = createTable(
+    'tbl-001',
+    [
+      [
+        header('번호', { rowSpan: 2 }),
+        header('유물명', { rowSpan: 2 }),
+        header('크기', { colSpan: 2 }),
+        header('무게(g)', { rowSpan: 2 }),
+      ],
+      [header('길이(㎝)'), header('너비(㎝)')],
+      [cell('1'), cell('토기 발'), cell('12.5'), cell('-'), cell('1,200')],
+      [
+        header('번호', { rowSpan: 2 }),
+        header('유물명', { rowSpan: 2 }),
+        header('크기', { colSpan: 2 }),
+        header('무게(g)', { rowSpan: 2 }),
+      ],
+      [header('길이(㎝)'), header('너비(㎝)')],
+      [cell('2'), cell('석촉'), cell('3.4'), cell('1.2'), cell('15g')],
+      [cell(''), cell(''), cell(''), cell(''), cell(' ')],
+      [
+        cell('3'),
+        cell('철촉', { rowSpan: 2 }),
+        cell('5'),
+        cell('1'),
+        cell('8'),
+      ],
+      [cell('4'), cell('6'), cell('1'), cell('9')],
+    ],
+    {
+      caption: { num: '표 3', fullText: '표 3 출토유물 속성표' },
+      rowPdfPageNos: [10, 10, 10, 11, 11, 11, 11, 11, 11],
+    },
+  );
+
+  // No header cells: the first row names the columns
+  const layerTable = createTable('tbl-002', [
+    [cell('층위'), cell('두께'), cell('두께'), cell(''), cell('레벨')],
+    [cell('Ⅰ층'), cell('10㎝'), cell('3m'), cell('-'), cell('−1.5')],
+    [cell('Ⅱ층, "황갈색"'), cell(''), cell('20㎝')],
+  ]);
+
+  const createTableDocument = (tables: ProcessedTable[]): ProcessedDocument =>
+    createDocument({
+      pageRangeMap: { 10: { startPageNo: 25, endPageNo: 25 } },
+      tables,
+    });
+
+  describe('tidyTable', () => {
+    test('resolves header hierarchies, spans and column types', () => {
+      const document = createTableDocument([artifactTable]);
+
+      const tidy = new TableExporter().tidyTable(document, artifactTable);
+
+      expect(tidy.tableId).toBe('tbl-001');
+      expect(tidy.caption).toBe('표 3 출토유물 속성표');
+      expect(tidy.columns).toEqual([
+        { name: '번호', headerPath: ['번호'], type: 'number' },
+        { name: '유물명', headerPath: ['유물명'], type: 'text' },
+        {
+          name: '크기 > 길이(㎝)',
+          headerPath: ['크기', '길이(㎝)'],
+          type: 'number',
+          unit: '㎝',
+        },
+        {
+          name: '크기 > 너비(㎝)',
+          headerPath: ['크기', '너비(㎝)'],
+          type: 'number',
+          unit: '㎝',
+        },
+        {
+          name: '무게(g)',
+          headerPath: ['무게(g)'],
+          type: 'number',
+          unit: 'g',
+        },
+      ]);
+      expect(tidy.records).toEqual([
+        {
+          tableId: 'tbl-001',
+          pdfPageNo: 10,
+          pageNo: 25,
+          rowIndex: 2,
+          values: {
+            번호: 1,
+            유물명: '토기 발',
+            '크기 > 길이(㎝)': 12.5,
+            '크기 > 너비(㎝)': null,
+            '무게(g)': 1200,
+          },
+        },
+        {
+          tableId: 'tbl-001',
+          pdfPageNo: 11,
+          rowIndex: 5,
+          values: {
+            번호: 2,
+            유물명: '석촉',
+            '크기 > 길이(㎝)': 3.4,
+            '크기 > 너비(㎝)': 1.2,
+            '무게(g)': 15,
+          },
+        },
+        {
+          tableId: 'tbl-001',
+          pdfPageNo: 11,
+          rowIndex: 7,
+          values: {
+            번호: 3,
+            유물명: '철촉',
+            '크기 > 길이(㎝)': 5,
+            '크기 > 너비(㎝)': 1,
+            '무게(g)': 8,
+          },
+        },
+        {
+          tableId: 'tbl-001',
+          pdfPageNo: 11,
+          rowIndex: 8,
+          values: {
+            번호: 4,
+            유물명: '철촉',
+            '크기 > 길이(㎝)': 6,
+            '크기 > 너비(㎝)': 1,
+            '무게(g)': 9,
+          },
+        },
+      ]);
+    });
+
+    test('takes the first row as header when no cell is a header', () => {
+      const tidy = new TableExporter({ headerSeparator: ' / ' }).tidyTable(
+        createTableDocument([layerTable]),
+        layerTable,
+      );
+
+      expect(tidy).not.toHaveProperty('caption');
+      expect(tidy.columns).toEqual([
+        { name: '층위', headerPath: ['층위'], type: 'text' },
+        { name: '두께', headerPath: ['두께'], type: 'number', unit: '㎝' },
+        // Mixed units stay text
+        { name: '두께 (2)', headerPath: ['두께'], type: 'text' },
+        { name: 'Column 4', headerPath: [], type: 'text' },
+        { name: '레벨', headerPath: ['레벨'], type: 'number' },
+      ]);
+      expect(tidy.records.map((record) => record.values)).toEqual([
+        {
+          층위: 'Ⅰ층',
+          두께: 10,
+          '두께 (2)': '3m',
+          'Column 4': '-',
+          레벨: -1.5,
+        },
+        {
+          층위: 'Ⅱ층, "황갈색"',
+          두께: null,
+          '두께 (2)': '20㎝',
+          'Column 4': null,
+          레벨: null,
+        },
+      ]);
+      expect(tidy.records[0]).toMatchObject({ pdfPageNo: 10, pageNo: 25 });
+    });
+
+    test('handles header-only, single-row and empty tables', () => {
+      const exporter = new TableExporter();
+      const document = createTableDocument([]);
+
+      expect(
+        exporter.tidyTable(
+          document,
+          createTable('tbl-003', [[header('유구'), header('시대')]]),
+        ),
+      ).toEqual({
+        tableId: 'tbl-003',
+        columns: [
+          { name: '유구', headerPath: ['유구'], type: 'text' },
+          { name: '시대', headerPath: ['시대'], type: 'text' },
+        ],
+        records: [],
+      });
+      expect(
+        exporter.tidyTable(document, createTable('tbl-004', [[cell('12')]]))
+          .records,
+      ).toEqual([
+        {
+          tableId: 'tbl-004',
+          pdfPageNo: 10,
+          pageNo: 25,
+          rowIndex: 0,
+          values: { 'Column 1': 12 },
+        },
+      ]);
+      expect(exporter.tidyTable(document, createTable('tbl-005', []))).toEqual({
+        tableId: 'tbl-005',
+        columns: [],
+        records: [],
+      });
+    });
+  });
+
+  describe('export', () => {
+    const document = createTableDocument([artifactTable, layerTable]);
+
+    test('writes one CSV per table with provenance columns', () => {
+      const [artifactCsv, layerCsv] = new TableExporter().export(
+        document,
+        'csv',
+      );
+
+      expect(artifactCsv.tableId).toBe('tbl-001');
+      expect(artifactCsv.content).toBe(
+        '\uFEFFtableId,pdfPageNo,pageNo,rowIndex,번호,유물명,크기 > 길이(㎝),크기 > 너비(㎝),무게(g)\r\n' +
+          'tbl-001,10,25,2,1,토기 발,12.5,,1200\r\n' +
+          'tbl-001,11,,5,2,석촉,3.4,1.2,15\r\n' +
+          'tbl-001,11,,7,3,철촉,5,1,8\r\n' +
+          'tbl-001,11,,8,4,철촉,6,1,9\r\n',
+      );
+      expect(layerCsv.content).toContain(
+        'tbl-002,10,25,2,"Ⅱ층, ""황갈색""",,20㎝,,\r\n',
+      );
+    });
+
+    test('writes CSV without a byte order mark', () => {
+      const [{ content }] = new TableExporter({
+        csvByteOrderMark: false,
+      }).export(document, 'csv');
+
+      expect(content.startsWith('tableId,')).toBe(true);
+    });
+
+    test('writes JSON records of all tables', () => {
+      const records = JSON.parse(new TableExporter().export(document, 'json'));
+
+      expect(records).toHaveLength(6);
+      expect(records[4]).toEqual({
+        tableId: 'tbl-002',
+        pdfPageNo: 10,
+        pageNo: 25,
+        rowIndex: 1,
+        values: {
+          층위: 'Ⅰ층',
+          두께: 10,
+          '두께 (2)': '3m',
+          'Column 4': '-',
+          레벨: -1.5,
+        },
+      });
+    });
+
+    test('writes an XLSX workbook with one sheet per table', () => {
+      const xlsx = new TableExporter().export(document, 'xlsx');
+
+      // Entries are deflated, so read the first worksheet back
+      const marker = Buffer.from('xl/worksheets/sheet1.xml');
+      const nameOffset = xlsx.indexOf(marker);
+      const size = xlsx.readUInt32LE(nameOffset - 12);
+      const sheet = inflateRawSync(
+        xlsx.subarray(
+          nameOffset + marker.length,
+          nameOffset + marker.length + size,
+        ),
+      ).toString();
+
+      expect(xlsx.subarray(0, 2).toString()).toBe('PK');
+      expect(sheet).toContain(
+        '<row r="2"><c r="A2" t="inlineStr"><is><t xml:space="preserve">tbl-001</t></is></c><c r="B2"><v>10</v></c><c r="C2"><v>25</v></c><c r="D2"><v>2</v></c><c r="E2"><v>1</v></c>',
+      );
+      expect(sheet).toContain('<c r="I2"><v>1200</v></c></row>');
+    });
+  });
+});
@@ -0,0 +1,466 @@
+import type {
+  ProcessedDocument,
+  ProcessedTable,
+  ProcessedTableCell,
+} from '@heripo/model';
+
+import type { XlsxCellValue } from './xlsx-writer';
+
+import { getActualPageNo } from './chapter-walker';
+import { writeXlsx } from './xlsx-writer';
+
+/**
+ * Inferred type of a tidy table column
+ *
+ * - `number`: every value is a number, optionally followed by the column's
+ *   single unit ("12.5", "1,200", "34㎝")
+ * - `text`: anything else
+ */
+export type TableColumnType = 'number' | 'text';
+
+/**
+ * Column of a tidy table
+ */
+export interface TableColumn {
+  /**
+   * Composite column name: the header cells above the column joined with
+   * `headerSeparator` (e.g. "크기 > 길이(㎝)"); unique within the table
+   */
+  name: string;
+
+  /**
+   * Header cell texts from the top header row down
+   */
+  headerPath: string[];
+
+  type: TableColumnType;
+
+  /**
+   * Unit of a number column, from its values or its header ("㎝", "g")
+   */
+  unit?: string;
+}
+
+/**
+ * Value of a tidy record: numbers for number columns, null for empty cells
+ */
+export type TableRecordValue = string | number | null;
+
+/**
+ * One body row of a table, with a provenance link to its source
+ */
+export interface TableRecord {
+  /**
+   * ID of the source table
+   */
+  tableId: string;
+
+  /**
+   * PDF page of the row (per row for tables merged across pages)
+   */
+  pdfPageNo: number;
+
+  /**
+   * Actual (printed) page of the row, when known
+   */
+  pageNo?: number;
+
+  /**
+   * Index of the row in the table grid
+   */
+  rowIndex: number;
+
+  /**
+   * Values keyed by column name
+   */
+  values: Record<string, TableRecordValue>;
+}
+
+/**
+ * Table resolved into named, typed columns and one record per body row
+ */
+export interface TidyTable {
+  tableId: string;
+
+  /**
+   * Caption text of the table
+   */
+  caption?: string;
+
+  columns: TableColumn[];
+
+  records: TableRecord[];
+}
+
+/**
+ * Supported table export formats
+ */
+export type TableExportFormat = 'csv' | 'xlsx' | 'json';
+
+/**
+ * Options for TableExporter
+ */
+export interface TableExporterOptions {
+  /**
+   * Separator between header levels in composite column names (default: " > ")
+   */
+  headerSeparator?: string;
+
+  /**
+   * Start CSV output with a UTF-8 byte order mark so that Excel reads Korean
+   * text correctly (default: true)
+   */
+  csvByteOrderMark?: boolean;
+}
+
+/**
+ * Provenance fields leading each CSV and XLSX row
+ */
+const PROVENANCE_COLUMNS = ['tableId', 'pdfPageNo', 'pageNo', 'rowIndex'];
+
+/**
+ * Units recognized after a number
+ */
+const UNITS = [
+  '㎜',
+  '㎝',
+  '㎞',
+  '㎡',
+  '㎥',
+  '㎎',
+  '㎏',
+  '㎖',
+  'ℓ',
+  'mm',
+  'cm',
+  'km',
+  'm²',
+  'm³',
+  'mg',
+  'kg',
+  'ml',
+  'ha',
+  'm',
+  'g',
+  '%',
+  '°',
+  '℃',
+  '점',
+  '개',
+  '매',
+  '기',
+];
+
+const UNIT_ALTERNATION = UNITS.join('|');
+
+const NUMBER_PATTERN = new RegExp(
+  `^([-+−]?(?:\\d{1,3}(?:,\\d{3})+|\\d+)(?:\\.\\d+)?)\\s*(${UNIT_ALTERNATION})?$`,
+  'u',
+);
+
+/**
+ * Unit given in parentheses at the end of a header ("길이(㎝)", "무게 (g)")
+ */
+const HEADER_UNIT_PATTERN = new RegExp(
+  `[(（]\\s*(${UNIT_ALTERNATION})\\s*[)）]$`,
+  'u',
+);
+
+/**
+ * Cell texts standing for a missing value in number columns
+ */
+const MISSING_VALUES = new Set(['', '-', '–', '—']);
+
+const EMPTY_CELL: ProcessedTableCell = {
+  text: '',
+  rowSpan: 1,
+  colSpan: 1,
+  isHeader: false,
+};
+
+/**
+ * TableExporter
+ *
+ * Turns `ProcessedTable.grid` into tidy tables for spreadsheets and data
+ * analysis, and writes them as CSV, XLSX or JSON records.
+ *
+ * - Row and column spans are expanded: a spanning cell's text fills every
+ *   position it covers
+ * - Leading rows of header cells form the column names; stacked headers are
+ *   joined into composite names ("크기 > 길이"). A table without header cells
+ *   takes its first row as the header
+ * - Header rows repeated inside a table merged across pages are dropped, as
+ *   are empty rows
+ * - A column whose values are all numbers with at most one unit is a number
+ *   column; "-" and empty cells are missing values
+ * - Every record keeps its table ID, PDF page, actual page and grid row
+ */
+export class TableExporter {
+  private readonly headerSeparator: string;
+  private readonly csvByteOrderMark: boolean;
+
+  constructor(options: TableExporterOptions = {}) {
+    this.headerSeparator = options.headerSeparator ?? ' > ';
+    this.csvByteOrderMark = options.csvByteOrderMark ?? true;
+  }
+
+  /**
+   * Tidy every table of the document, in document order
+   */
+  tidy(document: ProcessedDocument): TidyTable[] {
+    return document.tables.map((table) => this.tidyTable(document, table));
+  }
+
+  /**
+   * Tidy one table of the document
+   */
+  tidyTable(document: ProcessedDocument, table: ProcessedTable): TidyTable {
+    const matrix = expandSpans(table.grid);
+    const leadingHeaderRows = matrix.findIndex(
+      (row) => !row.every((cell) => cell.isHeader),
+    );
+    const headerRowCount =
+      leadingHeaderRows === -1
+        ? matrix.length
+        : Math.max(leadingHeaderRows, Math.min(1, matrix.length - 1));
+    const headerRows = matrix.slice(0, headerRowCount);
+    const width = matrix[0]?.length ?? 0;
+
+    const headerPaths = Array.from({ length: width }, (_, col) =>
+      headerRows.flatMap((row, rowIndex) => {
+        const cell = row[col];
+        const text = cell.text.trim();
+        // A cell spanning several header rows is listed once
+        return text === '' || headerRows[rowIndex - 1]?.[col] === cell
+          ? []
+          : [text];
+      }),
+    );
+    const names = uniqueNames(
+      headerPaths.map(
+        (path, col) => path.join(this.headerSeparator) || `Column ${col + 1}`,
+      ),
+    );
+
+    const headerTexts = headerRows.map(rowTextKey);
+    const bodyRows = matrix
+      .map((row, rowIndex) => ({ row, rowIndex }))
+      .slice(headerRowCount)
+      .filter(
+        ({ row }) =>
+          row.some((cell) => cell.text.trim() !== '') &&
+          !(
+            row.every((cell) => cell.isHeader) &&
+            headerTexts.includes(rowTextKey(row))
+          ),
+      );
+
+    const columns: TableColumn[] = names.map((name, col) =>
+      inferColumn(
+        name,
+        headerPaths[col],
+        bodyRows.map(({ row }) => row[col].text.trim()),
+      ),
+    );
+
+    const records = bodyRows.map(({ row, rowIndex }): TableRecord => {
+      const pdfPageNo = table.rowPdfPageNos?.[rowIndex] ?? table.pdfPageNo;
+      const pageNo = getActualPageNo(document, pdfPageNo);
+      return {
+        tableId: table.id,
+        pdfPageNo,
+        ...(pageNo !== undefined ? { pageNo } : {}),
+        rowIndex,
+        values: Object.fromEntries(
+          columns.map((column, col) => [
+            column.name,
+            parseValue(column, row[col].text.trim()),
+          ]),
+        ),
+      };
+    });
+
+    return {
+      tableId: table.id,
+      ...(table.caption ? { caption: table.caption.fullText } : {}),
+      columns,
+      records,
+    };
+  }
+
+  /**
+   * Render the tables of a document in the given format
+   *
+   * CSV holds one table per file, so `csv` returns one string per table;
+   * `xlsx` returns a workbook with one sheet per table and `json` a JSON
+   * array of all records.
+   */
+  export(
+    document: ProcessedDocument,
+    format: 'csv',
+  ): Array<{ tableId: string; content: string }>;
+  export(document: ProcessedDocument, format: 'xlsx'): Buffer;
+  export(document: ProcessedDocument, format: 'json'): string;
+  export(
+    document: ProcessedDocument,
+    format: TableExportFormat,
+  ): Array<{ tableId: string; content: string }> | Buffer | string {
+    const tables = this.tidy(document);
+    switch (format) {
+      case 'csv':
+        return tables.map((table) => ({
+          tableId: table.tableId,
+          content: this.toCsv(table),
+        }));
+      case 'xlsx':
+        return this.toXlsx(tables);
+      case 'json':
+        return this.toJson(tables);
+    }
+  }
+
+  /**
+   * Render one tidy table as CSV (RFC 4180), provenance columns first
+   */
+  toCsv(table: TidyTable): string {
+    const lines = toRows(table).map((row) =>
+      row.map((value) => escapeCsvValue(value)).join(','),
+    );
+    return `${this.csvByteOrderMark ? '\uFEFF' : ''}${lines.join('\r\n')}\r\n`;
+  }
+
+  /**
+   * Render tidy tables as an XLSX workbook, one sheet per table named by
+   * table ID
+   */
+  toXlsx(tables: TidyTable[]): Buffer {
+    return writeXlsx(
+      tables.map((table) => ({ name: table.tableId, rows: toRows(table) })),
+    );
+  }
+
+  /**
+   * Render the records of tidy tables as a JSON array
+   */
+  toJson(tables: TidyTable[]): string {
+    return JSON.stringify(
+      tables.flatMap((table) => table.records),
+      null,
+      2,
+    );
+  }
+}
+
+/**
+ * Place cells on a full matrix, repeating spanning cells over every position
+ * they cover; positions no cell covers get an empty cell
+ */
+function expandSpans(grid: ProcessedTableCell[][]): ProcessedTableCell[][] {
+  const matrix: Array<Array<ProcessedTableCell | undefined>> = grid.map(
+    () => [],
+  );
+
+  grid.forEach((row, rowIndex) => {
+    let col = 0;
+    for (const cell of row) {
+      while (matrix[rowIndex][col] !== undefined) {
+        col++;
+      }
+      const rowEnd = Math.min(
+        rowIndex + Math.max(1, cell.rowSpan),
+        grid.length,
+      );
+      for (let r = rowIndex; r < rowEnd; r++) {
+        for (let c = col; c < col + Math.max(1, cell.colSpan); c++) {
+          matrix[r][c] = cell;
+        }
+      }
+      col += Math.max(1, cell.colSpan);
+    }
+  });
+
+  const width = Math.max(0, ...matrix.map((row) => row.length));
+  return matrix.map((row) =>
+    Array.from({ length: width }, (_, col) => row[col] ?? EMPTY_CELL),
+  );
+}
+
+/**
+ * Suffix repeated names with " (2)", " (3)", ...
+ */
+function uniqueNames(names: string[]): string[] {
+  const used = new Set<string>();
+  return names.map((name) => {
+    let candidate = name;
+    for (let n = 2; used.has(candidate); n++) {
+      candidate = `${name} (${n})`;
+    }
+    used.add(candidate);
+    return candidate;
+  });
+}
+
+function rowTextKey(row: ProcessedTableCell[]): string {
+  return JSON.stringify(row.map((cell) => cell.text.trim()));
+}
+
+/**
+ * Infer the type and unit of a column from its header and body texts
+ */
+function inferColumn(
+  name: string,
+  headerPath: string[],
+  texts: string[],
+): TableColumn {
+  const headerUnit = headerPath.at(-1)?.match(HEADER_UNIT_PATTERN)?.[1];
+  const present = texts.filter((text) => !MISSING_VALUES.has(text));
+  const matches = present.map((text) => text.match(NUMBER_PATTERN));
+  const units = new Set(
+    matches.flatMap((match) => (match?.[2] ? [match[2]] : [])),
+  );
+
+  if (
+    present.length === 0 ||
+    matches.some((match) => !match) ||
+    units.size > 1
+  ) {
+    return { name, headerPath, type: 'text' };
+  }
+  const unit = [...units][0] ?? headerUnit;
+  return { name, headerPath, type: 'number', ...(unit ? { unit } : {}) };
+}
+
+function parseValue(column: TableColumn, text: string): TableRecordValue {
+  if (column.type === 'number') {
+    return MISSING_VALUES.has(text)
+      ? null
+      : Number(
+          text.match(NUMBER_PATTERN)![1].replace(/,/g, '').replace('−', '-'),
+        );
+  }
+  return text === '' ? null : text;
+}
+
+/**
+ * Header row and record rows of a tidy table, provenance columns first
+ */
+function toRows(table: TidyTable): XlsxCellValue[][] {
+  return [
+    [...PROVENANCE_COLUMNS, ...table.columns.map((column) => column.name)],
+    ...table.records.map((record) => [
+      record.tableId,
+      record.pdfPageNo,
+      record.pageNo ?? null,
+      record.rowIndex,
+      ...table.columns.map((column) => record.values[column.name]),
+    ]),
+  ];
+}
+
+function escapeCsvValue(value: XlsxCellValue): string {
+  if (value === null) {
+    return '';
+  }
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
@@ -0,0 +1,119 @@
+import { crc32, inflateRawSync } from 'node:zlib';
+import { describe, expect, test } from 'vitest';
+
+import { columnLetters, writeXlsx } from './xlsx-writer';
+
+/**
+ * Read the entries of a ZIP archive, checking each CRC-32
+ */
+function readZip(buffer: Buffer): Map<string, string> {
+  const files = new Map<string, string>();
+  let offset = 0;
+  while (buffer.readUInt32LE(offset) === 0x04034b50) {
+    const checksum = buffer.readUInt32LE(offset + 14);
+    const size = buffer.readUInt32LE(offset + 18);
+    const nameLength = buffer.readUInt16LE(offset + 26);
+    const start = offset + 30 + nameLength;
+    const data = inflateRawSync(buffer.subarray(start, start + size));
+    expect(crc32(data)).toBe(checksum);
+    files.set(buffer.toString('utf8', offset + 30, start), data.toString());
+    offset = start + size;
+  }
+  return files;
+}
+
+describe('writeXlsx', () => {
+  test('writes a workbook package with one worksheet per sheet', () => {
+    const files = readZip(
+      writeXlsx([
+        {
+          name: 'tbl-001',
+          rows: [
+            ['번호', '길이'],
+            [1, 12.5],
+            ['A & <B>', null],
+          ],
+        },
+        { name: 'tbl-002', rows: [] },
+      ]),
+    );
+
+    expect([...files.keys()]).toEqual([
+      '[Content_Types].xml',
+      '_rels/.rels',
+      'xl/workbook.xml',
+      'xl/_rels/workbook.xml.rels',
+      'xl/worksheets/sheet1.xml',
+      'xl/worksheets/sheet2.xml',
+    ]);
+    expect(files.get('[Content_Types].xml')).toContain(
+      '<Override PartName="/xl/worksheets/sheet2.xml"',
+    );
+    expect(files.get('xl/workbook.xml')).toContain(
+      '<sheet name="tbl-001" sheetId="1" r:id="rId1"/><sheet name="tbl-002" sheetId="2" r:id="rId2"/>',
+    );
+    expect(files.get('xl/_rels/workbook.xml.rels')).toContain(
+      '<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet2.xml"/>',
+    );
+    expect(files.get('xl/worksheets/sheet1.xml')).toContain(
+      '<sheetData>' +
+        '<row r="1"><c r="A1" t="inlineStr"><is><t xml:space="preserve">번호</t></is></c><c r="B1" t="inlineStr"><is><t xml:space="preserve">길이</t></is></c></row>' +
+        '<row r="2"><c r="A2"><v>1</v></c><c r="B2"><v>12.5</v></c></row>' +
+        '<row r="3"><c r="A3" t="inlineStr"><is><t xml:space="preserve">A &amp; &lt;B&gt;</t></is></c></row>' +
+        '</sheetData>',
+    );
+    expect(files.get('xl/worksheets/sheet2.xml')).toContain(
+      '<sheetData></sheetData>',
+    );
+  });
+
+  test('makes sheet names valid and unique', () => {
+    const workbook = readZip(
+      writeXlsx([
+        { name: 'a/b:c', rows: [] },
+        { name: 'A_B_C', rows: [] },
+        { name: ' ', rows: [] },
+        { name: 'x'.repeat(40), rows: [] },
+        { name: 'x'.repeat(35), rows: [] },
+        { name: '"표"', rows: [] },
+      ]),
+    ).get('xl/workbook.xml');
+
+    const names = [...workbook!.matchAll(/name="([^"]*)"/g)].map(
+      ([, name]) => name,
+    );
+    expect(names).toEqual([
+      'a_b_c',
+      'A_B_C_2',
+      'Sheet3',
+      'x'.repeat(31),
+      `${'x'.repeat(29)}_2`,
+      '&quot;표&quot;',
+    ]);
+  });
+
+  test('drops control characters from text', () => {
+    const sheet = readZip(
+      writeXlsx([
+        { name: 'tbl-001', rows: [['a\u0001b\tc\nd\re\u001f🏺', '']] },
+      ]),
+    ).get('xl/worksheets/sheet1.xml');
+
+    expect(sheet).toContain(
+      '<row r="1"><c r="A1" t="inlineStr"><is><t xml:space="preserve">ab\tc\nd\re🏺</t></is></c></row>',
+    );
+  });
+});
+
+describe('columnLetters', () => {
+  test('converts zero-based indexes to spreadsheet columns', () => {
+    expect([0, 25, 26, 51, 701, 702].map(columnLetters)).toEqual([
+      'A',
+      'Z',
+      'AA',
+      'AZ',
+      'ZZ',
+      'AAA',
+    ]);
+  });
+});
@@ -0,0 +1,203 @@
+import { crc32, deflateRawSync } from 'node:zlib';
+
+/**
+ * Cell value of an XLSX worksheet; null leaves the cell empty
+ */
+export type XlsxCellValue = string | number | null;
+
+/**
+ * Worksheet of an XLSX workbook
+ */
+export interface XlsxSheet {
+  /**
+   * Sheet name; characters Excel rejects are replaced and the name is cut to
+   * 31 characters
+   */
+  name: string;
+
+  rows: XlsxCellValue[][];
+}
+
+const XML_HEADER = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>';
+const SHEET_NAME_LIMIT = 31;
+
+/**
+ * Write a minimal XLSX workbook (Office Open XML spreadsheet)
+ *
+ * Strings are stored inline and numbers as numbers; there are no styles or
+ * shared strings. The package is a deflated ZIP archive.
+ */
+export function writeXlsx(sheets: XlsxSheet[]): Buffer {
+  const names = uniqueSheetNames(sheets.map((sheet) => sheet.name));
+
+  const files: Array<[string, string]> = [
+    [
+      '[Content_Types].xml',
+      `${XML_HEADER}<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">` +
+        '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+        '<Default Extension="xml" ContentType="application/xml"/>' +
+        '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+        sheets
+          .map(
+            (_, index) =>
+              `<Override PartName="/xl/worksheets/sheet${index + 1}.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>`,
+          )
+          .join('') +
+        '</Types>',
+    ],
+    [
+      '_rels/.rels',
+      `${XML_HEADER}<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">` +
+        '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>' +
+        '</Relationships>',
+    ],
+    [
+      'xl/workbook.xml',
+      `${XML_HEADER}<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"><sheets>` +
+        names
+          .map(
+            (name, index) =>
+              `<sheet name="${escapeXml(name)}" sheetId="${index + 1}" r:id="rId${index + 1}"/>`,
+          )
+          .join('') +
+        '</sheets></workbook>',
+    ],
+    [
+      'xl/_rels/workbook.xml.rels',
+      `${XML_HEADER}<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">` +
+        sheets
+          .map(
+            (_, index) =>
+              `<Relationship Id="rId${index + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet${index + 1}.xml"/>`,
+          )
+          .join('') +
+        '</Relationships>',
+    ],
+    ...sheets.map((sheet, index): [string, string] => [
+      `xl/worksheets/sheet${index + 1}.xml`,
+      buildSheetXml(sheet.rows),
+    ]),
+  ];
+
+  return writeZip(
+    files.map(([name, content]) => [name, Buffer.from(content, 'utf8')]),
+  );
+}
+
+/**
+ * Spreadsheet column letters of a zero-based column index (0 → A, 26 → AA)
+ */
+export function columnLetters(index: number): string {
+  let letters = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    letters = String.fromCharCode(65 + ((n - 1) % 26)) + letters;
+  }
+  return letters;
+}
+
+function buildSheetXml(rows: XlsxCellValue[][]): string {
+  const rowXml = rows.map((row, rowIndex) => {
+    const cells = row.flatMap((value, colIndex) => {
+      const ref = `${columnLetters(colIndex)}${rowIndex + 1}`;
+      if (value === null || value === '') {
+        return [];
+      }
+      return typeof value === 'number'
+        ? [`<c r="${ref}"><v>${value}</v></c>`]
+        : [
+            `<c r="${ref}" t="inlineStr"><is><t xml:space="preserve">${escapeXml(value)}</t></is></c>`,
+          ];
+    });
+    return `<row r="${rowIndex + 1}">${cells.join('')}</row>`;
+  });
+  return `${XML_HEADER}<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main"><sheetData>${rowXml.join('')}</sheetData></worksheet>`;
+}
+
+/**
+ * Make sheet names valid and unique (Excel compares them case-insensitively)
+ */
+function uniqueSheetNames(names: string[]): string[] {
+  const used = new Set<string>();
+  return names.map((name, index) => {
+    const base =
+      name.replace(/[[\]:*?/\\]/g, '_').trim() || `Sheet${index + 1}`;
+    let candidate = base.slice(0, SHEET_NAME_LIMIT);
+    for (let n = 2; used.has(candidate.toLowerCase()); n++) {
+      const suffix = `_${n}`;
+      candidate = base.slice(0, SHEET_NAME_LIMIT - suffix.length) + suffix;
+    }
+    used.add(candidate.toLowerCase());
+    return candidate;
+  });
+}
+
+/**
+ * Whether a character is allowed in XML 1.0: tab, line feed, carriage return
+ * and everything from space up (other C0 control characters are not)
+ */
+function isXmlChar(char: string): boolean {
+  const code = char.codePointAt(0)!;
+  return code >= 0x20 || code === 0x09 || code === 0x0a || code === 0x0d;
+}
+
+function escapeXml(text: string): string {
+  return [...text]
+    .filter(isXmlChar)
+    .join('')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * Write a ZIP archive of deflated entries with UTF-8 names
+ */
+function writeZip(entries: Array<[string, Buffer]>): Buffer {
+  const localParts: Buffer[] = [];
+  const centralParts: Buffer[] = [];
+  let offset = 0;
+
+  for (const [name, data] of entries) {
+    const nameBytes = Buffer.from(name, 'utf8');
+    const compressed = deflateRawSync(data);
+    const checksum = crc32(data);
+
+    // Version 2.0, UTF-8 names, deflate, DOS date 1980-01-01
+    const fields = (header: Buffer, at: number): void => {
+      header.writeUInt16LE(20, at);
+      header.writeUInt16LE(0x0800, at + 2);
+      header.writeUInt16LE(8, at + 4);
+      header.writeUInt16LE(0, at + 6);
+      header.writeUInt16LE(0x21, at + 8);
+      header.writeUInt32LE(checksum, at + 10);
+      header.writeUInt32LE(compressed.length, at + 14);
+      header.writeUInt32LE(data.length, at + 18);
+      header.writeUInt16LE(nameBytes.length, at + 22);
+    };
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    fields(local, 4);
+    localParts.push(local, nameBytes, compressed);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE(20, 4);
+    fields(central, 6);
+    central.writeUInt32LE(offset, 42);
+    centralParts.push(central, nameBytes);
+
+    offset += local.length + nameBytes.length + compressed.length;
+  }
+
+  const centralDirectory = Buffer.concat(centralParts);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(entries.length, 8);
+  end.writeUInt16LE(entries.length, 10);
+  end.writeUInt32LE(centralDirectory.length, 12);
+  end.writeUInt32LE(offset, 16);
+
+  return Buffer.concat([...localParts, centralDirectory, end]);
+}
@@ -0,0 +1,371 @@
+import type { LoggerMethods } from '@heripo/logger';
+import type { DoclingDocument, DoclingTextItem } from '@heripo/model';
+
+import { beforeEach, describe, expect, test, vi } from 'vitest';
+
+import { HeadingTocBuilder } from './heading-toc-builder';
+
+describe('HeadingTocBuilder', () => {
+  let mockLogger: LoggerMethods;
+
+  beforeEach(() => {
+    mockLogger = {
+      info: vi.fn(),
+      warn: vi.fn(),
+      error: vi.fn(),
+      debug: vi.fn(),
+    };
+  });
+
+  const createHeading = (
+    index: number,
+    text: string,
+    pageNo: number,
+    height = 20,
+    options?: Partial<DoclingTextItem>,
+  ): DoclingTextItem => ({
+    self_ref: `#/texts/${index}`,
+    parent: { $ref: '#/body' },
+    children: [],
+    content_layer: 'body',
+    label: 'section_header',
+    prov: [
+      {
+        page_no: pageNo,
+        bbox: {
+          l: 0,
+          t: 100 + height,
+          r: 300,
+          b: 100,
+          coord_origin: 'BOTTOMLEFT',
+        },
+        charspan: [0, text.length],
+      },
+    ],
+    orig: text,
+    text,
+    ...options,
+  });
+
+  const createDoc = (texts: DoclingTextItem[]): DoclingDocument =>
+    ({
+      schema_name: 'DoclingDocument',
+      version: '1.0.0',
+      name: 'test-doc',
+      origin: {
+        mimetype: 'application/pdf',
+        binary_hash: 123,
+        filename: 'test.pdf',
+      },
+      furniture: {
+        name: '_root_',
+        label: 'unspecified',
+        self_ref: '#/furniture',
+        children: [],
+        content_layer: 'furniture',
+      },
+      texts,
+      pictures: [],
+      tables: [],
+      groups: [],
+      body: {
+        name: '_root_',
+        label: 'unspecified',
+        self_ref: '#/body',
+        children: [],
+        content_layer: 'body',
+      },
+      pages: {},
+    }) as DoclingDocument;
+
+  describe('detectNumberingRank', () => {
+    test.each([
+      ['제1부 본문', 0],
+      ['제2장 조사내용', 1],
+      ['Chapter 3 Results', 1],
+      ['Ⅲ. 조사내용', 2],
+      ['Ⅳ 고찰', 2],
+      ['IV. Discussion', 2],
+      ['제1절 유구', 3],
+      ['2. 유구', 4],
+      ['가. 주거지', 5],
+      ['(1) 토기', 6],
+      ['1) 토기', 7],
+      ['(가) 기종', 8],
+      ['가) 기종', 9],
+      ['① 구연부', 10],
+    ])('detects "%s" as rank %d', (title, rank) => {
+      expect(HeadingTocBuilder.detectNumberingRank(title)).toBe(rank);
+    });
+
+    test('ranks dotted decimals between arabic and hangul numbering', () => {
+      const plain = HeadingTocBuilder.detectNumberingRank('2. 유구')!;
+      const dotted = HeadingTocBuilder.detectNumberingRank('2.1 주거지')!;
+      const deeper = HeadingTocBuilder.detectNumberingRank('2.1.3. 토기')!;
+      const hangul = HeadingTocBuilder.detectNumberingRank('가. 주거지')!;
+
+      expect(plain).toBeLessThan(dotted);
+      expect(dotted).toBeLessThan(deeper);
+      expect(deeper).toBeLessThan(hangul);
+    });
+
+    test('returns undefined for unnumbered titles', () => {
+      expect(HeadingTocBuilder.detectNumberingRank('조사개요')).toBeUndefined();
+      expect(
+        HeadingTocBuilder.detectNumberingRank('1호 주거지'),
+      ).toBeUndefined();
+    });
+  });
+
+  describe('build', () => {
+    test('builds nested entries from "Ⅲ. 2. 가." numbering', () => {
+      const builder = new HeadingTocBuilder(mockLogger);
+      const doc = createDoc([
+        createHeading(0, 'Ⅰ. 조사개요', 3),
+        createHeading(1, '1. 조사경위', 3),
+        createHeading(2, '2. 조사방법', 4),
+        createHeading(3, 'Ⅱ. 조사내용', 5),
+        createHeading(4, '1. 유구', 5),
+        createHeading(5, '가. 주거지', 6),
+        createHeading(6, '나. 수혈', 7),
+      ]);
+
+      const entries = builder.build(doc, {});
+
+      expect(entries).toEqual([
+        {
+          title: 'Ⅰ. 조사개요',
+          level: 1,
+          pageNo: 3,
+          sourceRefs: ['#/texts/0'],
+          children: [
+            {
+              title: '1. 조사경위',
+              level: 2,
+              pageNo: 3,
+              sourceRefs: ['#/texts/1'],
+            },
+            {
+              title: '2. 조사방법',
+              level: 2,
+              pageNo: 4,
+              sourceRefs: ['#/texts/2'],
+            },
+          ],
+        },
+        {
+          title: 'Ⅱ. 조사내용',
+          level: 1,
+          pageNo: 5,
+          sourceRefs: ['#/texts/3'],
+          children: [
+            {
+              title: '1. 유구',
+              level: 2,
+              pageNo: 5,
+              sourceRefs: ['#/texts/4'],
+              children: [
+                {
+                  title: '가. 주거지',
+                  level: 3,
+                  pageNo: 6,
+                  sourceRefs: ['#/texts/5'],
+                },
+                {
+                  title: '나. 수혈',
+                  level: 3,
+                  pageNo: 7,
+                  sourceRefs: ['#/texts/6'],
+                },
+              ],
+            },
+          ],
+        },
+      ]);
+    });
+
+    test('maps PDF pages to actual pages using pageRangeMap', () => {
+      const builder = new HeadingTocBuilder(mockLogger);
+      const doc = createDoc([
+        createHeading(0, 'Ⅰ. 조사개요', 5),
+        createHeading(1, 'Ⅱ. 조사내용', 6),
+      ]);
+
+      const entries = builder.build(doc, {
+        5: { startPageNo: 1, endPageNo: 1 },
+        6: { startPageNo: 2, endPageNo: 3 },
+      });
+
+      expect(entries.map((e) => e.pageNo)).toEqual([1, 2]);
+    });
+
+    test('assigns unnumbered headings to the numbered level with the closest size', () => {
+      const builder = new HeadingTocBuilder(mockLogger);
+      const doc = createDoc([
+        createHeading(0, '발간사', 1, 30),
+        createHeading(1, 'Ⅰ. 조사개요', 3, 30),
+        createHeading(2, '1. 조사경위', 3, 18),
+        createHeading(3, '조사단 구성', 4, 17),
+        createHeading(4, '부록', 10, 29),
+      ]);
+
+      const entries = builder.build(doc, {});
+
+      expect(entries.map((e) => e.title)).toEqual([
+        '발간사',
+        'Ⅰ. 조사개요',
+        '부록',
+      ]);
+      expect(entries[1].children?.map((e) => e.title)).toEqual([
+        '1. 조사경위',
+        '조사단 구성',
+      ]);
+    });
+
+    test('prefers the shallower level when two sizes are equally close', () => {
+      const builder = new HeadingTocBuilder(mockLogger);
+      const doc = createDoc([
+        createHeading(0, '1. 조사경위', 1, 20),
+        createHeading(1, '2. 조사방법', 1, 19),
+        createHeading(2, 'Ⅰ. 조사개요', 2, 30),
+        createHeading(3, '조사성과', 3, 25),
+      ]);
+
+      const entries = builder.build(doc, {});
+
+      expect(entries.map((e) => [e.title, e.level])).toEqual([
+        ['1. 조사경위', 1],
+        ['2. 조사방법', 1],
+        ['Ⅰ. 조사개요', 1],
+        ['조사성과', 1],
+      ]);
+    });
+
+    test('defaults to PDF page 1 and zero size for headings without prov', () => {
+      const builder = new HeadingTocBuilder(mockLogger);
+      const doc = createDoc([
+        createHeading(0, 'Ⅰ. 조사개요', 1, 20, { prov: [] }),
+        createHeading(1, '조사경위', 1, 20, { prov: undefined }),
+      ]);
+
+      const entries = builder.build(doc, {
+        1: { startPageNo: 7, endPageNo: 7 },
+      });
+
+      expect(entries).toEqual([
+        {
+          title: 'Ⅰ. 조사개요',
+          level: 1,
+          pageNo: 7,
+          sourceRefs: ['#/texts/0'],
+        },
+        {
+          title: '조사경위',
+          level: 1,
+          pageNo: 7,
+          sourceRefs: ['#/texts/1'],
+        },
+      ]);
+    });
+
+    test('uses line-height groups when no heading is numbered', () => {
+      const builder = new HeadingTocBuilder(mockLogger);
+      const doc = createDoc([
+        createHeading(0, '조사개요', 1, 30),
+        createHeading(1, '조사경위', 2, 20),
+        createHeading(2, '조사방법', 3, 21),
+        createHeading(3, '조사내용', 4, 31),
+      ]);
+
+      const entries = builder.build(doc, {});
+
+      expect(entries).toHaveLength(2);
+      expect(entries[0].children?.map((e) => e.title)).toEqual([
+        '조사경위',
+        '조사방법',
+      ]);
+      expect(entries[0].children?.[0].level).toBe(2);
+    });
+
+    test('starts at level 1 when the first heading is deeper than later ones', () => {
+      const builder = new HeadingTocBuilder(mockLogger);
+      const doc = createDoc([
+        createHeading(0, '가. 머리말', 1),
+        createHeading(1, 'Ⅰ. 조사개요', 2),
+        createHeading(2, '1. 조사경위', 2),
+      ]);
+
+      const entries = builder.build(doc, {});
+
+      expect(entries.map((e) => [e.title, e.level])).toEqual([
+        ['가. 머리말', 1],
+        ['Ⅰ. 조사개요', 1],
+      ]);
+      expect(entries[1].children?.[0].level).toBe(2);
+    });
+
+    test('ignores running headers, picture children, long text and non-heading labels', () => {
+      const builder = new HeadingTocBuilder(mockLogger);
+      const doc = createDoc([
+        createHeading(0, '○○유적 발굴조사 보고서', 1),
+        createHeading(1, 'Ⅰ. 조사개요', 1),
+        createHeading(2, '○○유적 발굴조사 보고서', 2),
+        createHeading(3, '○○유적 발굴조사 보고서', 3),
+        createHeading(4, '도면 1 유적 위치도', 3, 20, {
+          parent: { $ref: '#/pictures/0' },
+        }),
+        createHeading(5, '가'.repeat(81), 4),
+        createHeading(6, '1. 본문 문단', 4, 20, { label: 'text' }),
+        createHeading(7, 'Ⅱ. 조사내용', 5),
+      ]);
+
+      const entries = builder.build(doc, {});
+
+      expect(entries.map((e) => e.title)).toEqual([
+        'Ⅰ. 조사개요',
+        'Ⅱ. 조사내용',
+      ]);
+    });
+
+    test('keeps numbered feature headings that share text apart from digits', () => {
+      const builder = new HeadingTocBuilder(mockLogger);
+      const doc = createDoc([
+        createHeading(0, '1호 주거지', 1),
+        createHeading(1, '2호 주거지', 2),
+        createHeading(2, '3호 주거지', 3),
+      ]);
+
+      expect(builder.build(doc, {})).toHaveLength(3);
+    });
+
+    test('drops headings deeper than maxDepth', () => {
+      const builder = new HeadingTocBuilder(mockLogger, { maxDepth: 2 });
+      const doc = createDoc([
+        createHeading(0, 'Ⅰ. 조사내용', 1),
+        createHeading(1, '1. 유구', 1),
+        createHeading(2, '가. 주거지', 2),
+        createHeading(3, '2. 유물', 3),
+      ]);
+
+      const entries = builder.build(doc, {});
+
+      expect(entries[0].children?.map((e) => e.title)).toEqual([
+        '1. 유구',
+        '2. 유물',
+      ]);
+      expect(entries[0].children?.[0].children).toBeUndefined();
+    });
+
+    test('returns empty array and warns when there are no headings', () => {
+      const builder = new HeadingTocBuilder(mockLogger);
+      const doc = createDoc([
+        createHeading(0, '본문', 1, 20, { label: 'text' }),
+      ]);
+
+      expect(builder.build(doc, {})).toEqual([]);
+      expect(mockLogger.warn).toHaveBeenCalledWith(
+        '[HeadingTocBuilder] No usable section headings found',
+      );
+    });
+  });
+});
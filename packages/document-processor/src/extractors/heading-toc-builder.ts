@@ -0,0 +1,370 @@
+import type { LoggerMethods } from '@heripo/logger';
+import type {
+  DoclingDocument,
+  DoclingTextItem,
+  PageRange,
+} from '@heripo/model';
+
+import type { TocEntry } from '../types';
+
+import { TextCleaner } from '../utils';
+
+/**
+ * Heading numbering pattern with its conventional hierarchy rank
+ * (lower rank = higher in the outline).
+ */
+export interface HeadingNumberingPattern {
+  style: string;
+  rank: number;
+  pattern: RegExp;
+}
+
+const HANGUL_ORDINALS = '가나다라마바사아자차카타파하';
+
+/**
+ * Numbering patterns used by Korean (and some English) excavation reports,
+ * ordered by their conventional outline depth.
+ * Example outline: "제1장" > "Ⅲ." > "제2절" > "2." > "가." > "(1)" > "1)" > "(가)" > "가)" > "①"
+ */
+export const HEADING_NUMBERING_PATTERNS: HeadingNumberingPattern[] = [
+  { style: 'part', rank: 0, pattern: /^제\s*\d+\s*[부편](?=[\s.:]|$)/ },
+  {
+    style: 'chapter',
+    rank: 1,
+    pattern: /^(?:제\s*\d+\s*장(?=[\s.:]|$)|chapter\s+\d+(?=[\s.:]|$))/i,
+  },
+  {
+    style: 'roman',
+    rank: 2,
+    pattern: /^(?:[Ⅰ-Ⅻ]+(?:\s*[.．]|(?=\s|$))|[IVX]+\s*[.．])/,
+  },
+  { style: 'section', rank: 3, pattern: /^제\s*\d+\s*절(?=[\s.:]|$)/ },
+  { style: 'arabic', rank: 4, pattern: /^\d{1,2}\s*[.．](?!\d)/ },
+  {
+    style: 'hangul',
+    rank: 5,
+    pattern: new RegExp(`^[${HANGUL_ORDINALS}]\\s*[.．]`),
+  },
+  { style: 'paren-arabic', rank: 6, pattern: /^[(（]\d{1,2}[)）]/ },
+  { style: 'half-paren-arabic', rank: 7, pattern: /^\d{1,2}\)/ },
+  {
+    style: 'paren-hangul',
+    rank: 8,
+    pattern: new RegExp(`^[(（][${HANGUL_ORDINALS}][)）]`),
+  },
+  {
+    style: 'half-paren-hangul',
+    rank: 9,
+    pattern: new RegExp(`^[${HANGUL_ORDINALS}]\\)`),
+  },
+  { style: 'circled', rank: 10, pattern: /^[①-⑳]/ },
+];
+
+/**
+ * Dotted decimal numbering (e.g., "2.1", "2.1.3.") nests below plain "2."
+ * by a fraction of a rank per extra segment, so it stays above "가.".
+ */
+const DOTTED_DECIMAL_PATTERN = /^(\d{1,2}(?:[.．]\d{1,2})+)[.．]?(?=\s|$)/;
+const ARABIC_RANK = 4;
+const DOTTED_SEGMENT_RANK_STEP = 0.1;
+
+/**
+ * HeadingTocBuilder options
+ */
+export interface HeadingTocBuilderOptions {
+  /**
+   * Headings longer than this are treated as body text (default: 80)
+   */
+  maxTitleLength?: number;
+
+  /**
+   * Headings whose text repeats on at least this many pages are treated
+   * as running headers and ignored (default: 3)
+   */
+  runningHeaderMinPages?: number;
+
+  /**
+   * Maximum depth of the inferred tree; deeper headings stay in the
+   * parent chapter's text blocks (default: 4)
+   */
+  maxDepth?: number;
+
+  /**
+   * Relative tolerance when grouping unnumbered headings by line height
+   * (default: 0.1 = 10%)
+   */
+  sizeTolerance?: number;
+}
+
+/**
+ * Heading candidate collected from Docling section_header items
+ */
+interface HeadingCandidate {
+  item: DoclingTextItem;
+  title: string;
+  pageNo: number;
+  /** Line height of the first prov bbox, used as a font-size cue */
+  size: number;
+  /** Numbering rank, or undefined for unnumbered headings */
+  rank?: number;
+}
+
+/**
+ * HeadingTocBuilder
+ *
+ * Infers TocEntry[] from Docling `section_header` items when a document has no
+ * table of contents. The result is fed to ChapterConverter unchanged.
+ *
+ * ## Level Inference
+ *
+ * 1. Numbered headings are ranked by their numbering pattern
+ *    (see HEADING_NUMBERING_PATTERNS); only patterns present in the document
+ *    take part, so "Ⅰ. > 1. > 가." and "제1장 > 1." both start at level 1.
+ * 2. Unnumbered headings take the rank of the numbered pattern whose median
+ *    line height is closest. Without any numbered heading, line-height groups
+ *    (largest first) define the levels.
+ * 3. Ranks are nested with a stack, so a heading's level is always its
+ *    parent's level + 1 regardless of skipped patterns.
+ *
+ * Running headers (same text on many pages) and over-long items are ignored.
+ */
+export class HeadingTocBuilder {
+  private readonly maxTitleLength: number;
+  private readonly runningHeaderMinPages: number;
+  private readonly maxDepth: number;
+  private readonly sizeTolerance: number;
+
+  constructor(
+    private readonly logger: LoggerMethods,
+    options?: HeadingTocBuilderOptions,
+  ) {
+    this.maxTitleLength = options?.maxTitleLength ?? 80;
+    this.runningHeaderMinPages = options?.runningHeaderMinPages ?? 3;
+    this.maxDepth = options?.maxDepth ?? 4;
+    this.sizeTolerance = options?.sizeTolerance ?? 0.1;
+  }
+
+  /**
+   * Build TOC entries from section headings
+   *
+   * @param doc - Docling document
+   * @param pageRangeMap - PDF page to actual page mapping (TocEntry.pageNo uses actual pages)
+   * @returns Inferred TOC entries (empty when the document has no usable headings)
+   */
+  build(
+    doc: DoclingDocument,
+    pageRangeMap: Record<number, PageRange>,
+  ): TocEntry[] {
+    this.logger.info('[HeadingTocBuilder] Inferring TOC from headings...');
+
+    const candidates = this.collectCandidates(doc, pageRangeMap);
+    if (candidates.length === 0) {
+      this.logger.warn('[HeadingTocBuilder] No usable section headings found');
+      return [];
+    }
+
+    this.assignUnnumberedRanks(candidates);
+    const entries = this.buildTree(candidates);
+
+    this.logger.info(
+      `[HeadingTocBuilder] Inferred ${entries.length} top-level entries from ${candidates.length} headings`,
+    );
+
+    return entries;
+  }
+
+  /**
+   * Detect the numbering rank of a heading title
+   *
+   * @returns Rank (lower = shallower), or undefined for unnumbered titles
+   */
+  static detectNumberingRank(title: string): number | undefined {
+    const dotted = title.match(DOTTED_DECIMAL_PATTERN);
+    if (dotted) {
+      const segments = dotted[1].split(/[.．]/).length;
+      return ARABIC_RANK + (segments - 1) * DOTTED_SEGMENT_RANK_STEP;
+    }
+
+    return HEADING_NUMBERING_PATTERNS.find(({ pattern }) => pattern.test(title))
+      ?.rank;
+  }
+
+  /**
+   * Collect section_header items in reading order, excluding picture children,
+   * invalid or over-long text and running headers
+   */
+  private collectCandidates(
+    doc: DoclingDocument,
+    pageRangeMap: Record<number, PageRange>,
+  ): HeadingCandidate[] {
+    const headings = doc.texts.filter(
+      (item) =>
+        item.label === 'section_header' &&
+        !item.parent?.$ref?.startsWith('#/pictures/') &&
+        TextCleaner.isValidText(item.text),
+    );
+
+    const pagesByKey = new Map<string, Set<number>>();
+    for (const item of headings) {
+      const key = HeadingTocBuilder.runningHeaderKey(item.text);
+      const pages = pagesByKey.get(key) ?? new Set<number>();
+      pages.add(item.prov?.[0]?.page_no ?? 1);
+      pagesByKey.set(key, pages);
+    }
+
+    return headings
+      .filter((item) => {
+        const title = TextCleaner.normalize(item.text);
+        if (title.length > this.maxTitleLength) {
+          return false;
+        }
+        const pages = pagesByKey.get(
+          HeadingTocBuilder.runningHeaderKey(item.text),
+        )!;
+        return pages.size < this.runningHeaderMinPages;
+      })
+      .map((item) => {
+        const title = TextCleaner.normalize(item.text);
+        const prov = item.prov?.[0];
+        const pdfPageNo = prov?.page_no ?? 1;
+        return {
+          item,
+          title,
+          pageNo: pageRangeMap[pdfPageNo]?.startPageNo ?? pdfPageNo,
+          size: prov ? Math.abs(prov.bbox.t - prov.bbox.b) : 0,
+          rank: HeadingTocBuilder.detectNumberingRank(title),
+        };
+      });
+  }
+
+  /**
+   * Running header key: text without whitespace. Digits are kept so that
+   * numbered feature headings ("1호 주거지", "2호 주거지") stay distinct.
+   */
+  private static runningHeaderKey(text: string): string {
+    return text.replace(/\s/g, '');
+  }
+
+  /**
+   * Assign ranks to unnumbered headings using line height as a font-size cue
+   */
+  private assignUnnumberedRanks(candidates: HeadingCandidate[]): void {
+    const unnumbered = candidates.filter((c) => c.rank === undefined);
+    if (unnumbered.length === 0) {
+      return;
+    }
+
+    const numbered = candidates.filter((c) => c.rank !== undefined);
+
+    if (numbered.length > 0) {
+      const medianByRank = this.medianSizeByRank(numbered);
+      for (const candidate of unnumbered) {
+        candidate.rank = this.closestRank(candidate.size, medianByRank);
+      }
+      return;
+    }
+
+    // No numbering at all: group by line height, largest first
+    const groups = this.groupSizes(unnumbered.map((c) => c.size));
+    for (const candidate of unnumbered) {
+      candidate.rank = groups.findIndex((groupSize) =>
+        this.isSameSize(candidate.size, groupSize),
+      );
+    }
+  }
+
+  private medianSizeByRank(
+    candidates: HeadingCandidate[],
+  ): Map<number, number> {
+    const sizesByRank = new Map<number, number[]>();
+    for (const candidate of candidates) {
+      const sizes = sizesByRank.get(candidate.rank!) ?? [];
+      sizes.push(candidate.size);
+      sizesByRank.set(candidate.rank!, sizes);
+    }
+
+    const result = new Map<number, number>();
+    for (const [rank, sizes] of sizesByRank) {
+      const sorted = [...sizes].sort((a, b) => a - b);
+      result.set(rank, sorted[Math.floor(sorted.length / 2)]);
+    }
+    return result;
+  }
+
+  /**
+   * Find the rank whose median size is closest (ties prefer the shallower rank)
+   */
+  private closestRank(size: number, medianByRank: Map<number, number>): number {
+    let bestRank = Number.MAX_SAFE_INTEGER;
+    let bestDistance = Number.POSITIVE_INFINITY;
+
+    for (const [rank, median] of medianByRank) {
+      const distance = Math.abs(size - median);
+      if (
+        distance < bestDistance ||
+        (distance === bestDistance && rank < bestRank)
+      ) {
+        bestRank = rank;
+        bestDistance = distance;
+      }
+    }
+
+    return bestRank;
+  }
+
+  /**
+   * Group sizes within tolerance, returning representative sizes in descending order
+   */
+  private groupSizes(sizes: number[]): number[] {
+    const groups: number[] = [];
+    for (const size of [...sizes].sort((a, b) => b - a)) {
+      if (!groups.some((groupSize) => this.isSameSize(size, groupSize))) {
+        groups.push(size);
+      }
+    }
+    return groups;
+  }
+
+  private isSameSize(a: number, b: number): boolean {
+    const larger = Math.max(a, b);
+    return larger === 0 || Math.abs(a - b) / larger <= this.sizeTolerance;
+  }
+
+  /**
+   * Nest candidates into a tree using a rank stack
+   */
+  private buildTree(candidates: HeadingCandidate[]): TocEntry[] {
+    const roots: TocEntry[] = [];
+    const stack: { rank: number; entry: TocEntry }[] = [];
+
+    for (const candidate of candidates) {
+      const rank = candidate.rank!;
+      while (stack.length > 0 && stack[stack.length - 1].rank >= rank) {
+        stack.pop();
+      }
+
+      const level = stack.length + 1;
+      if (level > this.maxDepth) {
+        continue;
+      }
+
+      const entry: TocEntry = {
+        title: candidate.title,
+        level,
+        pageNo: candidate.pageNo,
+        sourceRefs: [candidate.item.self_ref],
+      };
+
+      const parent = stack[stack.length - 1]?.entry;
+      if (parent) {
+        parent.children = [...(parent.children ?? []), entry];
+      } else {
+        roots.push(entry);
+      }
+
+      stack.push({ rank, entry });
+    }
+
+    return roots;
+  }
+}
@@ -0,0 +1,272 @@
+import type { LoggerMethods } from '@heripo/logger';
+import type { Caption, ProcessedImage } from '@heripo/model';
+import type { LanguageModel } from 'ai';
+
+import { LLMCaller } from '@heripo/shared';
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { beforeEach, describe, expect, test, vi } from 'vitest';
+
+import {
+  type ImageClassificationResult,
+  ImageClassificationSchema,
+  ImageClassifier,
+} from './image-classifier';
+
+vi.mock('@heripo/shared', () => ({
+  BatchProcessor: {
+    processBatch: vi.fn(
+      async (
+        items: unknown[],
+        batchSize: number,
+        processFn: (batch: unknown[]) => Promise<unknown[]>,
+      ) => {
+        const results: unknown[] = [];
+        for (let i = 0; i < items.length; i += batchSize) {
+          results.push(...(await processFn(items.slice(i, i + batchSize))));
+        }
+        return results;
+      },
+    ),
+  },
+  LLMCaller: {
+    callVision: vi.fn(),
+  },
+}));
+
+vi.mock('node:fs', () => ({
+  readFileSync: vi.fn(),
+}));
+
+const mockCallVision = vi.mocked(LLMCaller.callVision);
+const mockReadFileSync = vi.mocked(fs.readFileSync);
+
+describe('ImageClassifier', () => {
+  let mockModel: LanguageModel;
+  let mockLogger: LoggerMethods;
+  let classifier: ImageClassifier;
+
+  const mockVisionOutput = (results: ImageClassificationResult['results']) => {
+    mockCallVision.mockResolvedValueOnce({
+      output: { results },
+      usage: {
+        component: 'ImageClassifier',
+        phase: 'classification',
+        model: 'primary',
+        modelName: 'test-model',
+        inputTokens: 1000,
+        outputTokens: 100,
+        totalTokens: 1100,
+      },
+      usedFallback: false,
+    });
+  };
+
+  const createImage = (id: string, caption?: Caption): ProcessedImage => ({
+    id,
+    pdfPageNo: 1,
+    path: `/output/images/${id}.png`,
+    ...(caption ? { caption } : {}),
+  });
+
+  /** Text parts sent with each vision call */
+  const sentTexts = (call: number) =>
+    (
+      mockCallVision.mock.calls[call][0].messages[0].content as Array<{
+        type: string;
+        text?: string;
+      }>
+    ).flatMap((part) => (part.type === 'text' ? [part.text] : []));
+
+  beforeEach(() => {
+    mockCallVision.mockReset();
+    mockReadFileSync.mockReset();
+    mockReadFileSync.mockReturnValue(Buffer.from('fake-image-data'));
+
+    mockModel = { modelId: 'test-model' } as LanguageModel;
+    mockLogger = {
+      info: vi.fn(),
+      warn: vi.fn(),
+      error: vi.fn(),
+      debug: vi.fn(),
+    };
+
+    classifier = new ImageClassifier(mockLogger, mockModel, '/output');
+  });
+
+  describe('ImageClassificationSchema', () => {
+    test('rejects unknown figure types', () => {
+      expect(
+        ImageClassificationSchema.safeParse({
+          results: [{ index: 0, figureType: 'drawing', confidence: 0.5 }],
+        }).success,
+      ).toBe(false);
+    });
+  });
+
+  describe('classify', () => {
+    test('classifies images from caption prefixes and title keywords', async () => {
+      const images = [
+        createImage('img-001', { num: '사진 1', fullText: '사진 1 유적 원경' }),
+        createImage('img-002', { num: '탁본 3', fullText: '탁본 3 명문 와' }),
+        createImage('img-003', {
+          num: '도면 2',
+          fullText: '도면 2 1호 주거지 평·단면도',
+        }),
+        createImage('img-004', { num: '도면 3', fullText: '도면 3 토층도' }),
+        createImage('img-005', {
+          num: '도면 4',
+          fullText: '도면 4 출토유물 실측도',
+        }),
+        createImage('img-006', { fullText: '유적 위치도' }),
+        createImage('img-007', {
+          num: '사진 2',
+          fullText: '사진 2 탁본 작업 광경',
+        }),
+      ];
+
+      await classifier.classify(images);
+
+      expect(
+        images.map(({ figureType, figureTypeConfidence }) => [
+          figureType,
+          figureTypeConfidence,
+        ]),
+      ).toEqual([
+        ['photo', 0.9],
+        ['rubbing', 0.9],
+        ['plan', 0.9],
+        ['section', 0.9],
+        ['artifact_drawing', 0.9],
+        ['map', 0.9],
+        ['photo', 0.9],
+      ]);
+      expect(mockCallVision).not.toHaveBeenCalled();
+      expect(mockLogger.info).toHaveBeenCalledWith(
+        '[ImageClassifier] Classified 7 images from captions',
+      );
+    });
+
+    test('sends ambiguous images to the vision LLM in batches', async () => {
+      classifier = new ImageClassifier(mockLogger, mockModel, '/output', {
+        batchSize: 2,
+      });
+      const images = [
+        createImage('img-001', { num: '도판 1', fullText: '도판 1 출토 토기' }),
+        createImage('img-002', { num: '도면 5', fullText: '도면 5 유적 전경' }),
+        createImage('img-003'),
+      ];
+      mockVisionOutput([
+        { index: 1, figureType: 'plan', confidence: 0.7 },
+        { index: 0, figureType: 'photo', confidence: 0.95 },
+      ]);
+      mockVisionOutput([{ index: 0, figureType: 'chart', confidence: 0.6 }]);
+
+      await classifier.classify(images);
+
+      expect(images.map(({ figureType }) => figureType)).toEqual([
+        'photo',
+        'plan',
+        'chart',
+      ]);
+      expect(images[1].figureTypeConfidence).toBe(0.7);
+      expect(mockCallVision).toHaveBeenCalledTimes(2);
+      expect(mockCallVision).toHaveBeenCalledWith(
+        expect.objectContaining({
+          component: 'ImageClassifier',
+          phase: 'classification',
+        }),
+      );
+      expect(sentTexts(0).slice(1)).toEqual([
+        'Image 0\nCaption: 도판 1 출토 토기\nCaption prefix suggests: photo, rubbing, artifact_drawing',
+        'Image 1\nCaption: 도면 5 유적 전경\nCaption prefix suggests: plan, section, artifact_drawing, map, chart',
+      ]);
+      expect(sentTexts(1).slice(1)).toEqual(['Image 0']);
+      expect(mockReadFileSync).toHaveBeenCalledWith(
+        '/output/images/img-003.png',
+      );
+      expect(mockLogger.info).toHaveBeenCalledWith(
+        '[ImageClassifier] Classified 3 of 3 images with vision LLM',
+      );
+    });
+
+    test('reads relative image paths from the working directory', async () => {
+      classifier = new ImageClassifier(mockLogger, mockModel, 'output');
+      mockVisionOutput([{ index: 0, figureType: 'photo', confidence: 0.8 }]);
+
+      await classifier.classify([
+        { id: 'img-001', pdfPageNo: 1, path: 'output/images/image_0.png' },
+      ]);
+
+      expect(mockReadFileSync).toHaveBeenCalledWith(
+        path.resolve('output/images/image_0.png'),
+      );
+    });
+
+    test('ignores results with unknown or repeated indices', async () => {
+      const images = [createImage('img-001'), createImage('img-002')];
+      mockVisionOutput([
+        { index: 0, figureType: 'map', confidence: 0.8 },
+        { index: 0, figureType: 'photo', confidence: 0.5 },
+        { index: 7, figureType: 'photo', confidence: 0.5 },
+      ]);
+
+      await classifier.classify(images);
+
+      expect(images[0].figureType).toBe('map');
+      expect(images[1]).not.toHaveProperty('figureType');
+      expect(mockLogger.warn).toHaveBeenCalledWith(
+        '[ImageClassifier] LLM returned 3 results for 2 images',
+      );
+    });
+
+    test('limits the number of images sent to the vision LLM', async () => {
+      classifier = new ImageClassifier(mockLogger, mockModel, '/output', {
+        maxImages: 1,
+      });
+      const images = [createImage('img-001'), createImage('img-002')];
+      mockVisionOutput([{ index: 0, figureType: 'other', confidence: 0.4 }]);
+
+      await classifier.classify(images);
+
+      expect(images[0].figureType).toBe('other');
+      expect(images[1]).not.toHaveProperty('figureType');
+      expect(mockLogger.warn).toHaveBeenCalledWith(
+        '[ImageClassifier] Leaving 1 images unclassified (maxImages: 1)',
+      );
+    });
+
+    test('leaves a batch unclassified when the vision call fails', async () => {
+      const images = [createImage('img-001')];
+      const error = new Error('LLM unavailable');
+      mockCallVision.mockRejectedValueOnce(error);
+
+      await classifier.classify(images);
+
+      expect(images[0]).not.toHaveProperty('figureType');
+      expect(mockLogger.warn).toHaveBeenCalledWith(
+        '[ImageClassifier] Vision classification failed for img-001:',
+        error,
+      );
+      expect(mockLogger.info).toHaveBeenCalledWith(
+        '[ImageClassifier] Classified 0 of 1 images with vision LLM',
+      );
+    });
+
+    test('rethrows vision errors after abort', async () => {
+      const controller = new AbortController();
+      classifier = new ImageClassifier(mockLogger, mockModel, '/output', {
+        abortSignal: controller.signal,
+      });
+      const error = new Error('aborted');
+      mockCallVision.mockImplementationOnce(async () => {
+        controller.abort();
+        throw error;
+      });
+
+      await expect(classifier.classify([createImage('img-001')])).rejects.toBe(
+        error,
+      );
+    });
+  });
+});
@@ -0,0 +1,346 @@
+import type { LoggerMethods } from '@heripo/logger';
+import type { FigureType, ProcessedImage } from '@heripo/model';
+import type { LLMTokenUsageAggregator } from '@heripo/shared';
+import type { LanguageModel } from 'ai';
+
+import { BatchProcessor } from '@heripo/shared';
+import { z } from 'zod';
+
+import {
+  VisionLLMComponent,
+  type VisionLLMComponentOptions,
+} from '../core/vision-llm-component';
+import {
+  canonicalCaptionPrefix,
+  parseCaptionNum,
+  resolveImagePath,
+} from '../utils';
+
+/**
+ * All figure types, in the order listed to the vision LLM
+ */
+export const FIGURE_TYPES = [
+  'photo',
+  'plan',
+  'section',
+  'artifact_drawing',
+  'rubbing',
+  'map',
+  'chart',
+  'other',
+] as const satisfies readonly FigureType[];
+
+/**
+ * Schema for batched vision-based image classification response
+ */
+export const ImageClassificationSchema = z.object({
+  results: z.array(
+    z.object({
+      index: z
+        .number()
+        .int()
+        .describe('Index of the image in this request, starting at 0'),
+      figureType: z.enum(FIGURE_TYPES).describe('Kind of figure shown'),
+      confidence: z
+        .number()
+        .min(0)
+        .max(1)
+        .describe('Confidence score between 0 and 1'),
+    }),
+  ),
+});
+
+export type ImageClassificationResult = z.infer<
+  typeof ImageClassificationSchema
+>;
+
+/**
+ * Options for ImageClassifier
+ */
+export interface ImageClassifierOptions extends VisionLLMComponentOptions {
+  /**
+   * Number of images sent in one vision LLM call (default: 8)
+   */
+  batchSize?: number;
+
+  /**
+   * Maximum number of images sent to the vision LLM per document; the rest
+   * keep only their caption hints (default: 200)
+   */
+  maxImages?: number;
+}
+
+/**
+ * Figure types a caption prefix allows, keyed by canonical prefix
+ *
+ * 사진 and 탁본 name a single type. 도면 and 도판 only narrow the
+ * candidates: a 도면 is a drawing or map, a 도판 plate holds photos,
+ * rubbings or drawings.
+ */
+const PREFIX_HINTS: Record<string, FigureType[]> = {
+  사진: ['photo'],
+  원색사진: ['photo'],
+  photo: ['photo'],
+  写真: ['photo'],
+  탁본: ['rubbing'],
+  도면: ['plan', 'section', 'artifact_drawing', 'map', 'chart'],
+  도판: ['photo', 'rubbing', 'artifact_drawing'],
+  plate: ['photo', 'rubbing', 'artifact_drawing'],
+};
+
+/**
+ * Caption title keywords naming a figure type, checked in order
+ * ("평·단면도" is a plan before it is a section)
+ */
+const TITLE_KEYWORDS: Array<[FigureType, RegExp]> = [
+  ['rubbing', /탁본|rubbing/i],
+  ['plan', /평\s*[·ㆍ.,]?\s*단면도|평면도|배치도|\bplan\b/i],
+  ['section', /단면도|토층도|\bsection\b|\bprofile\b/i],
+  ['artifact_drawing', /실측도/],
+  ['map', /위치도|지형도|분포도|지도|\bmap\b/i],
+  ['chart', /그래프|도표|\bchart\b|\bgraph\b|calibration/i],
+  ['photo', /전경|근경|원경|출토\s*상태|노출\s*상태|조사\s*광경/],
+];
+
+/**
+ * Confidence of a type read from the caption without the LLM
+ */
+const HINT_CONFIDENCE = 0.9;
+
+/**
+ * Image left for the vision LLM, with the types its caption allows
+ */
+interface PendingImage {
+  image: ProcessedImage;
+  candidates: FigureType[];
+}
+
+/**
+ * ImageClassifier
+ *
+ * Sets `figureType` and `figureTypeConfidence` on images, so that site
+ * photos can be told apart from plans, sections, artifact drawings,
+ * rubbings, maps and charts.
+ *
+ * ## Classification
+ *
+ * 1. The caption decides deterministically when its prefix names a single
+ *    type (사진, 탁본) or a title keyword (평면도, 토층도, 실측도, 위치도)
+ *    names a type the prefix allows.
+ * 2. Other images are sent to the vision LLM in batches of `batchSize`,
+ *    with the candidate types from their caption prefix (도면, 도판) as a
+ *    hint. At most `maxImages` images are sent per document.
+ *
+ * Images are updated in place. A failed batch leaves its images
+ * unclassified.
+ */
+export class ImageClassifier extends VisionLLMComponent {
+  private readonly batchSize: number;
+  private readonly maxImages: number;
+
+  constructor(
+    logger: LoggerMethods,
+    model: LanguageModel,
+    artifactDir: string,
+    options?: ImageClassifierOptions,
+    fallbackModel?: LanguageModel,
+    aggregator?: LLMTokenUsageAggregator,
+  ) {
+    super(
+      logger,
+      model,
+      'ImageClassifier',
+      artifactDir,
+      options,
+      fallbackModel,
+      aggregator,
+    );
+    this.batchSize = options?.batchSize ?? 8;
+    this.maxImages = options?.maxImages ?? 200;
+  }
+
+  /**
+   * Classify images by figure type
+   *
+   * @param images - Converted images, updated in place
+   */
+  async classify(images: ProcessedImage[]): Promise<void> {
+    this.log('info', `Starting classification of ${images.length} images`);
+
+    const pending: PendingImage[] = [];
+    for (const image of images) {
+      const candidates = ImageClassifier.captionCandidates(image);
+      const keywordType = ImageClassifier.titleKeywordType(image);
+      const hintType =
+        keywordType && candidates.includes(keywordType)
+          ? keywordType
+          : candidates.length === 1
+            ? candidates[0]
+            : undefined;
+
+      if (hintType) {
+        image.figureType = hintType;
+        image.figureTypeConfidence = HINT_CONFIDENCE;
+      } else {
+        pending.push({ image, candidates });
+      }
+    }
+    this.log(
+      'info',
+      `Classified ${images.length - pending.length} images from captions`,
+    );
+
+    const requested = pending.slice(0, this.maxImages);
+    if (pending.length > requested.length) {
+      this.log(
+        'warn',
+        `Leaving ${pending.length - requested.length} images unclassified (maxImages: ${this.maxImages})`,
+      );
+    }
+
+    if (requested.length > 0) {
+      const classified = await BatchProcessor.processBatch(
+        requested,
+        this.batchSize,
+        async (batch) => this.classifyByVision(batch),
+      );
+      this.log(
+        'info',
+        `Classified ${classified.length} of ${requested.length} images with vision LLM`,
+      );
+    }
+  }
+
+  /**
+   * Classify one batch of images with the vision LLM
+   *
+   * @returns Images that were classified
+   */
+  private async classifyByVision(
+    batch: PendingImage[],
+  ): Promise<ProcessedImage[]> {
+    let output: ImageClassificationResult;
+    try {
+      ({ output } = await this.callVisionLLM(
+        ImageClassificationSchema,
+        [
+          {
+            role: 'user',
+            content: [
+              {
+                type: 'text',
+                text: `${this.buildSystemPrompt()}\n\n${this.buildUserPrompt(batch.length)}`,
+              },
+              ...batch.flatMap((pending, index) => [
+                {
+                  type: 'text',
+                  text: ImageClassifier.describeImage(pending, index),
+                },
+                this.buildImageContent(resolveImagePath(pending.image.path)),
+              ]),
+            ],
+          },
+        ],
+        'classification',
+      ));
+    } catch (error) {
+      if (this.abortSignal?.aborted) {
+        throw error;
+      }
+      this.log(
+        'warn',
+        `Vision classification failed for ${batch.map(({ image }) => image.id).join(', ')}:`,
+        error,
+      );
+      return [];
+    }
+
+    if (output.results.length !== batch.length) {
+      this.log(
+        'warn',
+        `LLM returned ${output.results.length} results for ${batch.length} images`,
+      );
+    }
+
+    const classified: ProcessedImage[] = [];
+    for (const result of output.results) {
+      const image = batch[result.index]?.image;
+      if (!image || classified.includes(image)) {
+        continue;
+      }
+      image.figureType = result.figureType;
+      image.figureTypeConfidence = result.confidence;
+      classified.push(image);
+    }
+    return classified;
+  }
+
+  /**
+   * Figure types the caption prefix allows (all types without a known prefix)
+   */
+  private static captionCandidates(image: ProcessedImage): FigureType[] {
+    const parsed = parseCaptionNum(image.caption?.num);
+    return (
+      (parsed && PREFIX_HINTS[canonicalCaptionPrefix(parsed.prefix)]) ?? [
+        ...FIGURE_TYPES,
+      ]
+    );
+  }
+
+  /**
+   * Figure type named by a keyword in the caption text
+   */
+  private static titleKeywordType(
+    image: ProcessedImage,
+  ): FigureType | undefined {
+    const text = image.caption?.fullText;
+    return text
+      ? TITLE_KEYWORDS.find(([, pattern]) => pattern.test(text))?.[0]
+      : undefined;
+  }
+
+  /**
+   * Label placed before each image: its index, caption and candidate types
+   */
+  private static describeImage(pending: PendingImage, index: number): string {
+    const caption = pending.image.caption?.fullText;
+    const lines = [`Image ${index}`];
+    if (caption) {
+      lines.push(`Caption: ${caption}`);
+    }
+    if (pending.candidates.length < FIGURE_TYPES.length) {
+      lines.push(`Caption prefix suggests: ${pending.candidates.join(', ')}`);
+    }
+    return lines.join('\n');
+  }
+
+  /**
+   * Build system prompt for the vision LLM
+   */
+  protected buildSystemPrompt(): string {
+    return `You are an archaeologist sorting the figures of a Korean archaeological excavation report. Classify each image by the kind of figure it shows.
+
+## Figure Types:
+- photo: photograph of a site, feature, trench or artifact (사진, 전경, 출토 상태)
+- plan: plan drawing of a site or feature seen from above, including combined plan and section drawings (평면도, 배치도, 평·단면도)
+- section: section or stratigraphy drawing (단면도, 토층도)
+- artifact_drawing: measured line drawing of an artifact (유물 실측도)
+- rubbing: rubbing of an inscription, pattern or roof tile (탁본)
+- map: location, topographic or distribution map (위치도, 지형도, 분포도)
+- chart: graph, diagram or analysis chart (e.g. radiocarbon calibration curve)
+- other: anything else (logos, illustrations, scanned documents)
+
+## Rules:
+1. Judge by what the image shows; the caption and its prefix are hints
+2. A 도면 is a drawing or map, never a photograph; a 도판 plate usually holds photographs
+3. Return one result per image, using the image index given before it
+4. Confidence is between 0 and 1; use lower values when the image is ambiguous`;
+  }
+
+  /**
+   * Build user prompt with the number of images in the batch
+   */
+  protected buildUserPrompt(imageCount: number): string {
+    return `I am providing ${imageCount} images, each preceded by its index and caption.`;
+  }
+}
@@ -35,3 +35,53 @@ export type {
   VisionTocExtractorOptions,
   VisionTocExtractionResult,
 } from './vision-toc-extractor';
+
+export {
+  HeadingTocBuilder,
+  HEADING_NUMBERING_PATTERNS,
+} from './heading-toc-builder';
+export type {
+  HeadingNumberingPattern,
+  HeadingTocBuilderOptions,
+} from './heading-toc-builder';
+
+export { OutlineTocBuilder } from './outline-toc-builder';
+export type { OutlineTocBuilderOptions } from './outline-toc-builder';
+
+export { SubDocumentDetector } from './sub-document-detector';
+export type {
+  SubDocumentDetectorOptions,
+  SubDocumentSegment,
+  SubDocumentSignal,
+} from './sub-document-detector';
+
+export {
+  ReportMetadataExtractor,
+  ReportMetadataExtractionSchema,
+} from './report-metadata-extractor';
+export type {
+  ReportMetadataExtractorOptions,
+  ReportMetadataExtractionResult,
+} from './report-metadata-extractor';
+
+export { ResourceIndexParser } from './resource-index-parser';
+export type { ResourceIndexParserOptions } from './resource-index-parser';
+
+export {
+  ImageClassifier,
+  ImageClassificationSchema,
+  FIGURE_TYPES,
+} from './image-classifier';
+export type {
+  ImageClassifierOptions,
+  ImageClassificationResult,
+} from './image-classifier';
+
+export {
+  SubFigureSplitter,
+  SubFigureConfirmationSchema,
+} from './sub-figure-splitter';
+export type {
+  SubFigureSplitterOptions,
+  SubFigureConfirmationResult,
+} from './sub-figure-splitter';
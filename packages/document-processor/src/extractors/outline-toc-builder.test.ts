@@ -0,0 +1,205 @@
+import type { LoggerMethods } from '@heripo/logger';
+import type { LabeledPageRange, PdfOutlineItem } from '@heripo/model';
+
+import { beforeEach, describe, expect, test, vi } from 'vitest';
+
+import { OutlineTocBuilder } from './outline-toc-builder';
+
+describe('OutlineTocBuilder', () => {
+  let mockLogger: LoggerMethods;
+
+  beforeEach(() => {
+    mockLogger = {
+      info: vi.fn(),
+      warn: vi.fn(),
+      error: vi.fn(),
+      debug: vi.fn(),
+    };
+  });
+
+  const item = (
+    title: string,
+    pageNo: number | undefined,
+    children: PdfOutlineItem[] = [],
+    level = 1,
+  ): PdfOutlineItem => ({ title, level, pageNo, children });
+
+  const outline: PdfOutlineItem[] = [
+    item('Ⅰ. 조사 개요', 5, [
+      item('1. 조사 경위', 5, [], 2),
+      item('2.  조사 방법', 7, [], 2),
+    ]),
+    item('Ⅱ. 유적 환경', 9),
+  ];
+
+  describe('build', () => {
+    test('maps outline items to nested TOC entries', () => {
+      const builder = new OutlineTocBuilder(mockLogger);
+
+      const entries = builder.build(outline, {});
+
+      expect(entries).toEqual([
+        {
+          title: 'Ⅰ. 조사 개요',
+          level: 1,
+          pageNo: 5,
+          children: [
+            { title: '1. 조사 경위', level: 2, pageNo: 5 },
+            { title: '2. 조사 방법', level: 2, pageNo: 7 },
+          ],
+        },
+        { title: 'Ⅱ. 유적 환경', level: 1, pageNo: 9 },
+      ]);
+      expect(mockLogger.info).toHaveBeenCalledWith(
+        '[OutlineTocBuilder] Built 2 top-level entries from 4 outline items',
+      );
+    });
+
+    test('maps PDF pages to actual pages with the page range map', () => {
+      const builder = new OutlineTocBuilder(mockLogger);
+
+      const entries = builder.build(outline, {
+        5: { startPageNo: 1, endPageNo: 1 },
+        9: { startPageNo: 5, endPageNo: 5 },
+      });
+
+      expect(entries.map((entry) => entry.pageNo)).toEqual([1, 5]);
+      expect(entries[0].children?.map((entry) => entry.pageNo)).toEqual([1, 7]);
+    });
+
+    test('moves children of items without title or page up a level', () => {
+      const builder = new OutlineTocBuilder(mockLogger);
+
+      const entries = builder.build(
+        [
+          item('Report title', undefined, [
+            item('Ⅰ. 조사 개요', 5, [item(' ', 6, [], 3)], 2),
+            item('Ⅱ. 유적 환경', 9, [], 2),
+            item('Ⅲ. 조사 내용', 12, [], 2),
+          ]),
+        ],
+        {},
+      );
+
+      expect(entries).toEqual([
+        { title: 'Ⅰ. 조사 개요', level: 1, pageNo: 5 },
+        { title: 'Ⅱ. 유적 환경', level: 1, pageNo: 9 },
+        { title: 'Ⅲ. 조사 내용', level: 1, pageNo: 12 },
+      ]);
+    });
+
+    test('leaves out items targeting Roman numbered front matter', () => {
+      const builder = new OutlineTocBuilder(mockLogger);
+      const preface: LabeledPageRange = {
+        startPageNo: 3,
+        endPageNo: 3,
+        numeralSystem: 'roman',
+        startLabel: 'iii',
+        endLabel: 'iii',
+      };
+
+      const entries = builder.build(
+        [item('Preface', 3, [item('Acknowledgements', 4, [], 2)]), ...outline],
+        {
+          3: preface,
+          4: { startPageNo: 4, endPageNo: 4 },
+        },
+      );
+
+      expect(entries.map((entry) => entry.title)).toEqual([
+        'Acknowledgements',
+        'Ⅰ. 조사 개요',
+        'Ⅱ. 유적 환경',
+      ]);
+    });
+
+    test('returns an empty array when too few entries are usable', () => {
+      const builder = new OutlineTocBuilder(mockLogger);
+
+      expect(builder.build([item('Cover', 1), item('Back', 2)], {})).toEqual(
+        [],
+      );
+      expect(mockLogger.info).toHaveBeenCalledWith(
+        '[OutlineTocBuilder] PDF outline has 2 usable entries, fewer than 3',
+      );
+    });
+
+    test('respects the minEntries option', () => {
+      const builder = new OutlineTocBuilder(mockLogger, { minEntries: 2 });
+
+      expect(builder.build([item('Cover', 1), item('Back', 2)], {})).toEqual([
+        { title: 'Cover', level: 1, pageNo: 1 },
+        { title: 'Back', level: 1, pageNo: 2 },
+      ]);
+    });
+  });
+
+  describe('measureAgreement', () => {
+    const printedToc = [
+      '- Ⅰ. 조사개요 ..... 1',
+      '  - 1. 조사 경위 ··· 1',
+      '  - 2. 조사방법 — 3',
+      '- Ⅱ. 유적환경 ..... 5',
+    ].join('\n');
+
+    test('matches level 1-2 titles ignoring spacing and leaders', () => {
+      const builder = new OutlineTocBuilder(mockLogger);
+      const entries = builder.build(outline, {});
+
+      expect(builder.measureAgreement(entries, printedToc)).toBe(1);
+    });
+
+    test('counts titles missing from the printed TOC', () => {
+      const builder = new OutlineTocBuilder(mockLogger);
+      const entries = builder.build(
+        [...outline, item('Ⅲ. 조사 내용', 12), item('Appendix', 30)],
+        {},
+      );
+
+      expect(builder.measureAgreement(entries, printedToc)).toBeCloseTo(4 / 6);
+    });
+
+    test('ignores entries below level 2', () => {
+      const builder = new OutlineTocBuilder(mockLogger);
+      const entries = builder.build(
+        [
+          item('Ⅰ. 조사 개요', 5, [
+            item('1. 조사 경위', 5, [item('1) 연혁', 5, [], 3)], 2),
+          ]),
+        ],
+        {},
+      );
+
+      expect(builder.measureAgreement(entries, printedToc)).toBe(1);
+    });
+  });
+
+  describe('agreesWithToc', () => {
+    test('accepts the outline at or above minTocAgreement', () => {
+      const builder = new OutlineTocBuilder(mockLogger, {
+        minTocAgreement: 0.5,
+      });
+      const entries = builder.build(
+        [item('Ⅰ. 조사 개요', 1), item('Ⅱ. 유적 환경', 2), item('Ⅲ', 3)],
+        {},
+      );
+
+      expect(
+        builder.agreesWithToc(entries, '- Ⅰ. 조사 개요 1\n- Ⅱ. 유적 환경 2'),
+      ).toBe(true);
+      expect(mockLogger.info).toHaveBeenCalledWith(
+        '[OutlineTocBuilder] Outline agrees with printed TOC: 67%',
+      );
+    });
+
+    test('rejects the outline below minTocAgreement', () => {
+      const builder = new OutlineTocBuilder(mockLogger);
+      const entries = builder.build(outline, {});
+
+      expect(builder.agreesWithToc(entries, '- 부록 ..... 40')).toBe(false);
+      expect(mockLogger.info).toHaveBeenCalledWith(
+        '[OutlineTocBuilder] Outline agrees with printed TOC: 0%',
+      );
+    });
+  });
+});
@@ -0,0 +1,155 @@
+import type { LoggerMethods } from '@heripo/logger';
+import type { PageRange, PdfOutlineItem } from '@heripo/model';
+
+import type { TocEntry } from '../types';
+
+import { TextCleaner, isLabeledPageRange } from '../utils';
+
+/**
+ * OutlineTocBuilder options
+ */
+export interface OutlineTocBuilderOptions {
+  /**
+   * Minimum number of usable outline entries (all levels) for the outline
+   * to be used as a TOC (default: 3)
+   */
+  minEntries?: number;
+
+  /**
+   * Minimum share of level 1-2 outline titles that must appear in the
+   * printed TOC for the outline to be trusted (default: 0.5)
+   */
+  minTocAgreement?: number;
+}
+
+/**
+ * Characters ignored when matching outline titles against the printed TOC:
+ * whitespace, leader dots and separators that vary between the two
+ */
+const MATCH_IGNORED_CHARS = /[\s.．·•…_\-–—:]/g;
+
+/**
+ * OutlineTocBuilder
+ *
+ * Maps the PDF outline (bookmarks) to TocEntry[] so born-digital reports can
+ * skip LLM-based TOC extraction.
+ *
+ * - Bookmarks without a title or target page, or targeting Roman or CJK
+ *   numbered front matter, are left out; their children move up to the
+ *   bookmark's level.
+ * - Target pages are PDF pages and are mapped to actual pages with the page
+ *   range map, like printed TOC page numbers.
+ * - `measureAgreement` cross-checks the entries against the printed TOC
+ *   found by TocFinder, since outlines are sometimes stale or generated from
+ *   unrelated headings.
+ */
+export class OutlineTocBuilder {
+  private readonly minEntries: number;
+  private readonly minTocAgreement: number;
+
+  constructor(
+    private readonly logger: LoggerMethods,
+    options?: OutlineTocBuilderOptions,
+  ) {
+    this.minEntries = options?.minEntries ?? 3;
+    this.minTocAgreement = options?.minTocAgreement ?? 0.5;
+  }
+
+  /**
+   * Build TOC entries from the PDF outline
+   *
+   * @param outline - Top-level outline items
+   * @param pageRangeMap - PDF page to actual page mapping (TocEntry.pageNo uses actual pages)
+   * @returns TOC entries, or an empty array when the outline has fewer than `minEntries` usable items
+   */
+  build(
+    outline: PdfOutlineItem[],
+    pageRangeMap: Record<number, PageRange>,
+  ): TocEntry[] {
+    const entries = this.toEntries(outline, 1, pageRangeMap);
+    const count = OutlineTocBuilder.countEntries(entries);
+
+    if (count < this.minEntries) {
+      this.logger.info(
+        `[OutlineTocBuilder] PDF outline has ${count} usable entries, fewer than ${this.minEntries}`,
+      );
+      return [];
+    }
+
+    this.logger.info(
+      `[OutlineTocBuilder] Built ${entries.length} top-level entries from ${count} outline items`,
+    );
+    return entries;
+  }
+
+  /**
+   * Share of level 1-2 entries whose title appears in the printed TOC
+   *
+   * @param entries - Entries built from the outline
+   * @param tocMarkdown - Printed TOC converted by MarkdownConverter
+   * @returns Agreement between 0 and 1
+   */
+  measureAgreement(entries: TocEntry[], tocMarkdown: string): number {
+    const tocKey = OutlineTocBuilder.matchKey(tocMarkdown);
+    const titles = entries.flatMap((entry) => [
+      entry.title,
+      ...(entry.children ?? []).map((child) => child.title),
+    ]);
+    const matched = titles.filter((title) =>
+      tocKey.includes(OutlineTocBuilder.matchKey(title)),
+    ).length;
+    return matched / titles.length;
+  }
+
+  /**
+   * Whether the outline agrees with the printed TOC well enough to be used
+   * instead of it
+   */
+  agreesWithToc(entries: TocEntry[], tocMarkdown: string): boolean {
+    const agreement = this.measureAgreement(entries, tocMarkdown);
+    this.logger.info(
+      `[OutlineTocBuilder] Outline agrees with printed TOC: ${(agreement * 100).toFixed(0)}%`,
+    );
+    return agreement >= this.minTocAgreement;
+  }
+
+  private toEntries(
+    items: PdfOutlineItem[],
+    level: number,
+    pageRangeMap: Record<number, PageRange>,
+  ): TocEntry[] {
+    return items.flatMap((item) => {
+      const title = TextCleaner.normalize(item.title);
+      if (
+        !title ||
+        item.pageNo === undefined ||
+        isLabeledPageRange(pageRangeMap[item.pageNo])
+      ) {
+        return this.toEntries(item.children, level, pageRangeMap);
+      }
+
+      const entry: TocEntry = {
+        title,
+        level,
+        pageNo: pageRangeMap[item.pageNo]?.startPageNo ?? item.pageNo,
+      };
+      const children = this.toEntries(item.children, level + 1, pageRangeMap);
+      if (children.length > 0) {
+        entry.children = children;
+      }
+      return [entry];
+    });
+  }
+
+  private static countEntries(entries: TocEntry[]): number {
+    return entries.reduce(
+      (count, entry) =>
+        count + 1 + OutlineTocBuilder.countEntries(entry.children ?? []),
+      0,
+    );
+  }
+
+  private static matchKey(text: string): string {
+    return text.replace(MATCH_IGNORED_CHARS, '').toLowerCase();
+  }
+}
@@ -0,0 +1,388 @@
+import type { LoggerMethods } from '@heripo/logger';
+import type { DoclingDocument, DoclingTextItem } from '@heripo/model';
+import type { LanguageModel } from 'ai';
+
+import { LLMCaller } from '@heripo/shared';
+import * as fs from 'node:fs';
+import { beforeEach, describe, expect, test, vi } from 'vitest';
+
+import {
+  type ReportMetadataExtractionResult,
+  ReportMetadataExtractionSchema,
+  ReportMetadataExtractor,
+} from './report-metadata-extractor';
+
+vi.mock('@heripo/shared', () => ({
+  LLMCaller: {
+    callVision: vi.fn(),
+  },
+}));
+
+vi.mock('node:fs', () => ({
+  readFileSync: vi.fn(),
+}));
+
+vi.mock('node:path', () => ({
+  isAbsolute: vi.fn(() => false),
+  resolve: vi.fn((...args: string[]) => args.join('/')),
+}));
+
+const mockCallVision = vi.mocked(LLMCaller.callVision);
+const mockReadFileSync = vi.mocked(fs.readFileSync);
+
+describe('ReportMetadataExtractor', () => {
+  let mockModel: LanguageModel;
+  let mockLogger: LoggerMethods;
+  let extractor: ReportMetadataExtractor;
+  let textIndex: number;
+
+  const emptyOutput: ReportMetadataExtractionResult = {
+    title: null,
+    subtitle: null,
+    series: null,
+    issuingInstitution: null,
+    investigatingOrganization: null,
+    publicationDate: null,
+    isbn: null,
+    publicationRegistrationNo: null,
+    siteName: null,
+    siteAddress: null,
+    investigationStartDate: null,
+    investigationEndDate: null,
+  };
+
+  const mockVisionOutput = (
+    output: Partial<ReportMetadataExtractionResult>,
+  ) => {
+    mockCallVision.mockResolvedValueOnce({
+      output: { ...emptyOutput, ...output },
+      usage: {
+        component: 'ReportMetadataExtractor',
+        phase: 'extraction',
+        model: 'primary',
+        modelName: 'test-model',
+        inputTokens: 1000,
+        outputTokens: 100,
+        totalTokens: 1100,
+      },
+      usedFallback: false,
+    });
+  };
+
+  const createText = (
+    text: string,
+    pageNo: number | undefined,
+  ): DoclingTextItem => ({
+    self_ref: `#/texts/${textIndex++}`,
+    parent: { $ref: '#/body' },
+    children: [],
+    content_layer: 'body',
+    label: 'text',
+    prov:
+      pageNo === undefined
+        ? []
+        : [
+            {
+              page_no: pageNo,
+              bbox: {
+                l: 0,
+                t: 120,
+                r: 300,
+                b: 100,
+                coord_origin: 'BOTTOMLEFT',
+              },
+              charspan: [0, text.length],
+            },
+          ],
+    orig: text,
+    text,
+  });
+
+  const createDoc = (
+    pageCount: number,
+    texts: DoclingTextItem[],
+  ): DoclingDocument =>
+    ({
+      schema_name: 'DoclingDocument',
+      version: '1.0.0',
+      name: 'test-doc',
+      texts,
+      pictures: [],
+      tables: [],
+      groups: [],
+      pages: Object.fromEntries(
+        Array.from({ length: pageCount }, (_, i) => [
+          String(i + 1),
+          { page_no: i + 1, size: { width: 595, height: 842 } },
+        ]),
+      ),
+    }) as unknown as DoclingDocument;
+
+  /** Image paths sent with the last vision call */
+  const sentImagePaths = () =>
+    mockReadFileSync.mock.calls.map(([imagePath]) => imagePath);
+
+  beforeEach(() => {
+    mockCallVision.mockReset();
+    mockReadFileSync.mockReset();
+    mockReadFileSync.mockReturnValue(Buffer.from('fake-image-data'));
+    textIndex = 0;
+
+    mockModel = { modelId: 'test-model' } as LanguageModel;
+    mockLogger = {
+      info: vi.fn(),
+      warn: vi.fn(),
+      error: vi.fn(),
+      debug: vi.fn(),
+    };
+
+    extractor = new ReportMetadataExtractor(mockLogger, mockModel, '/output');
+  });
+
+  describe('ReportMetadataExtractionSchema', () => {
+    test('accepts a response with null fields', () => {
+      expect(ReportMetadataExtractionSchema.parse(emptyOutput)).toEqual(
+        emptyOutput,
+      );
+    });
+  });
+
+  describe('extract', () => {
+    test('returns empty metadata for a document without pages', async () => {
+      const result = await extractor.extract(createDoc(0, []));
+
+      expect(result).toEqual({});
+      expect(mockCallVision).not.toHaveBeenCalled();
+      expect(mockLogger.info).toHaveBeenCalledWith(
+        '[ReportMetadataExtractor] No pages to read',
+      );
+    });
+
+    test('combines colophon patterns with vision results', async () => {
+      const doc = createDoc(40, [
+        createText('○○유적 발굴조사 보고서', 1),
+        createText('국문초록', 3),
+        createText('조사기관 : (재)한국문화재연구원', 3),
+        createText('조사기간 : 2020. 3. 2. ~ 5. 29.', 3),
+        createText('유적위치 : 경기도 화성시 ○○동 123', 3),
+        // Middle pages are not searched
+        createText('발행처 : 본문 인용', 20),
+        createText('발 행 일 : 2021년 12월 30일', 40),
+        createText('발 행 처 : (재)한국문화재연구원', 40),
+        createText('ISBN 978-0-306-40615-7 93910', 40),
+        createText('발간등록번호 11-1550000-001234-01', 40),
+        createText('   ', 39),
+        createText('Note without provenance', undefined),
+      ]);
+      mockVisionOutput({
+        title: '○○유적',
+        subtitle: '- 화성 ○○동 택지개발사업부지 내 -',
+        series: '학술조사보고 제45책',
+        issuingInstitution: '한국문화재연구원',
+        publicationDate: '2021-12',
+        siteName: '화성 ○○동 유적',
+      });
+
+      const result = await extractor.extract(doc);
+
+      expect(result).toEqual({
+        title: '○○유적',
+        subtitle: '- 화성 ○○동 택지개발사업부지 내 -',
+        series: '학술조사보고 제45책',
+        issuingInstitution: '(재)한국문화재연구원',
+        investigatingOrganization: '(재)한국문화재연구원',
+        publicationDate: '2021-12-30',
+        isbn: '9780306406157',
+        publicationRegistrationNo: '11-1550000-001234-01',
+        siteName: '화성 ○○동 유적',
+        siteAddress: '경기도 화성시 ○○동 123',
+        investigationPeriod: { startDate: '2020-03-02', endDate: '2020-05-29' },
+      });
+      expect(sentImagePaths()).toEqual([
+        '/output/pages/page_0.png',
+        '/output/pages/page_2.png',
+        '/output/pages/page_39.png',
+      ]);
+
+      const { messages, phase } = mockCallVision.mock.calls[0][0];
+      expect(phase).toBe('extraction');
+      const [prompt] = messages[0].content as Array<{ text: string }>;
+      expect(prompt.text).toContain('PDF pages 1, 3, 40');
+      expect(prompt.text).toContain('- isbn: "9780306406157"');
+      expect(mockLogger.info).toHaveBeenCalledWith(
+        '[ReportMetadataExtractor] Patterns found 7 fields',
+      );
+      expect(mockLogger.info).toHaveBeenCalledWith(
+        '[ReportMetadataExtractor] Extracted 11 metadata fields',
+      );
+    });
+
+    test('sends the cover and last page when no keyword is found', async () => {
+      mockVisionOutput({ title: 'Report' });
+
+      const result = await extractor.extract(
+        createDoc(8, [createText('Report', 1)]),
+      );
+
+      expect(result).toEqual({ title: 'Report' });
+      expect(sentImagePaths()).toEqual([
+        '/output/pages/page_0.png',
+        '/output/pages/page_7.png',
+      ]);
+      const [prompt] = mockCallVision.mock.calls[0][0].messages[0]
+        .content as Array<{ text: string }>;
+      expect(prompt.text).not.toContain('already read');
+    });
+
+    test('limits the number of page images', async () => {
+      extractor = new ReportMetadataExtractor(
+        mockLogger,
+        mockModel,
+        '/output',
+        { frontPages: 2, backPages: 2, maxImages: 2 },
+      );
+      mockVisionOutput({});
+
+      await extractor.extract(
+        createDoc(10, [
+          createText('요약', 2),
+          createText('요약', 5),
+          createText('ISBN 0-306-40615-2', 10),
+        ]),
+      );
+
+      expect(sentImagePaths()).toEqual([
+        '/output/pages/page_0.png',
+        '/output/pages/page_1.png',
+      ]);
+    });
+
+    test('normalizes vision dates and drops invalid ISBNs', async () => {
+      mockVisionOutput({
+        title: '  ',
+        isbn: '978-0-306-40615-0',
+        publicationDate: '2021. 3.',
+        investigationEndDate: '2020년 5월 29일',
+      });
+
+      const result = await extractor.extract(createDoc(1, []));
+
+      expect(result).toEqual({
+        publicationDate: '2021-03',
+        investigationPeriod: { endDate: '2020-05-29' },
+      });
+      expect(mockLogger.warn).toHaveBeenCalledWith(
+        '[ReportMetadataExtractor] Ignoring invalid ISBN from vision LLM: 978-0-306-40615-0',
+      );
+    });
+
+    test('keeps the investigation start date alone', async () => {
+      mockVisionOutput({ investigationStartDate: '2020-03-02' });
+
+      const result = await extractor.extract(createDoc(1, []));
+
+      expect(result).toEqual({
+        investigationPeriod: { startDate: '2020-03-02' },
+      });
+    });
+
+    test('returns pattern results when the vision call fails', async () => {
+      const error = new Error('LLM unavailable');
+      mockCallVision.mockRejectedValueOnce(error);
+
+      const result = await extractor.extract(
+        createDoc(3, [createText('발행기관: 국립문화재연구원', 3)]),
+      );
+
+      expect(result).toEqual({ issuingInstitution: '국립문화재연구원' });
+      expect(mockLogger.warn).toHaveBeenCalledWith(
+        '[ReportMetadataExtractor] Vision metadata extraction failed, using pattern results only:',
+        error,
+      );
+    });
+
+    test('rethrows vision errors after abort', async () => {
+      const controller = new AbortController();
+      extractor = new ReportMetadataExtractor(
+        mockLogger,
+        mockModel,
+        '/output',
+        { abortSignal: controller.signal },
+      );
+      const error = new Error('aborted');
+      mockCallVision.mockImplementationOnce(async () => {
+        controller.abort();
+        throw error;
+      });
+
+      await expect(extractor.extract(createDoc(1, []))).rejects.toBe(error);
+    });
+  });
+
+  describe('toIsoDate', () => {
+    test.each([
+      ['2021. 12. 30.', '2021-12-30'],
+      ['2021년 3월 5일', '2021-03-05'],
+      ['2021-03-05', '2021-03-05'],
+      ['2021. 3.', '2021-03'],
+      ['2021년', '2021'],
+      ['20210305', '2021-03-05'],
+    ])('converts %s to %s', (text, expected) => {
+      expect(ReportMetadataExtractor.toIsoDate(text)).toBe(expected);
+    });
+
+    test.each([null, undefined, '', '3월 5일', '2021. 13. 1.', '2021. 3. 32.'])(
+      'returns undefined for %s',
+      (text) => {
+        expect(ReportMetadataExtractor.toIsoDate(text)).toBeUndefined();
+      },
+    );
+  });
+
+  describe('normalizeIsbn', () => {
+    test.each([
+      ['ISBN 978-0-306-40615-7', '9780306406157'],
+      ['0-306-40615-2', '0306406152'],
+      ['0-8044-2957-x', '080442957X'],
+    ])('normalizes %s', (text, expected) => {
+      expect(ReportMetadataExtractor.normalizeIsbn(text)).toBe(expected);
+    });
+
+    test.each([
+      null,
+      'ISBN',
+      '978-0-306-40615-0',
+      '0-306-40615-3',
+      '12345',
+      '97803064061X7',
+    ])('rejects %s', (text) => {
+      expect(ReportMetadataExtractor.normalizeIsbn(text)).toBeUndefined();
+    });
+  });
+
+  describe('investigation period patterns', () => {
+    const extractPeriod = async (text: string) => {
+      mockCallVision.mockRejectedValueOnce(new Error('skip'));
+      const result = await extractor.extract(
+        createDoc(1, [createText(text, 1)]),
+      );
+      return result.investigationPeriod;
+    };
+
+    test.each([
+      [
+        '조사기간: 2019. 11. 4 ~ 2020. 2. 28',
+        { startDate: '2019-11-04', endDate: '2020-02-28' },
+      ],
+      [
+        '조사기간 2020.03.02-2020.05.29',
+        { startDate: '2020-03-02', endDate: '2020-05-29' },
+      ],
+      ['조사기간 : 2020년 3월 2일 -', { startDate: '2020-03-02' }],
+      ['조사기간 : 2020. 3. 2.', { startDate: '2020-03-02' }],
+      ['조사기간 : 미정', undefined],
+    ])('parses %s', async (text, expected) => {
+      expect(await extractPeriod(text)).toEqual(expected);
+    });
+  });
+});
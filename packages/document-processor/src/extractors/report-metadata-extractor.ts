@@ -0,0 +1,497 @@
+import type { LoggerMethods } from '@heripo/logger';
+import type { DoclingDocument, ReportMetadata } from '@heripo/model';
+import type { LLMTokenUsageAggregator } from '@heripo/shared';
+import type { LanguageModel } from 'ai';
+
+import { z } from 'zod';
+
+import {
+  VisionLLMComponent,
+  type VisionLLMComponentOptions,
+} from '../core/vision-llm-component';
+import { TextCleaner } from '../utils';
+
+/**
+ * Schema for vision-based report metadata extraction response
+ */
+export const ReportMetadataExtractionSchema = z.object({
+  title: z.string().nullable().describe('Report title on the cover'),
+  subtitle: z.string().nullable().describe('Subtitle below the title'),
+  series: z
+    .string()
+    .nullable()
+    .describe('Publication series with volume number'),
+  issuingInstitution: z
+    .string()
+    .nullable()
+    .describe('Institution that issued the report (발행기관)'),
+  investigatingOrganization: z
+    .string()
+    .nullable()
+    .describe('Organization that carried out the investigation (조사기관)'),
+  publicationDate: z
+    .string()
+    .nullable()
+    .describe('Publication date as YYYY-MM-DD, YYYY-MM or YYYY'),
+  isbn: z.string().nullable().describe('ISBN as printed'),
+  publicationRegistrationNo: z
+    .string()
+    .nullable()
+    .describe('Government publication registration number (발간등록번호)'),
+  siteName: z.string().nullable().describe('Name of the investigated site'),
+  siteAddress: z
+    .string()
+    .nullable()
+    .describe('Address of the investigated site'),
+  investigationStartDate: z
+    .string()
+    .nullable()
+    .describe('First day of the investigation as YYYY-MM-DD'),
+  investigationEndDate: z
+    .string()
+    .nullable()
+    .describe('Last day of the investigation as YYYY-MM-DD'),
+});
+
+export type ReportMetadataExtractionResult = z.infer<
+  typeof ReportMetadataExtractionSchema
+>;
+
+/**
+ * Options for ReportMetadataExtractor
+ */
+export interface ReportMetadataExtractorOptions extends VisionLLMComponentOptions {
+  /**
+   * Number of pages at the start of the document searched for the cover
+   * and abstract (default: 5)
+   */
+  frontPages?: number;
+
+  /**
+   * Number of pages at the end of the document searched for the colophon
+   * (default: 5)
+   */
+  backPages?: number;
+
+  /**
+   * Maximum number of page images sent to the vision LLM (default: 6)
+   */
+  maxImages?: number;
+}
+
+/**
+ * Keywords marking colophon (판권지) and abstract pages
+ */
+const METADATA_PAGE_KEYWORDS = [
+  '발행',
+  '발간등록번호',
+  'ISBN',
+  '조사기관',
+  '조사기간',
+  '초록',
+  '요약',
+  'Abstract',
+];
+
+/**
+ * Build a pattern for "label : value" lines, allowing spaces between the
+ * label's characters (e.g. "발 행 처 : ...")
+ */
+function labelPattern(labels: string[]): RegExp {
+  const alternatives = labels.map((label) => [...label].join('\\s*'));
+  return new RegExp(`^(?:${alternatives.join('|')})\\s*[:：]?\\s*(.+)$`);
+}
+
+const ISSUING_INSTITUTION_PATTERN = labelPattern([
+  '발행처',
+  '발행기관',
+  '펴낸곳',
+]);
+const INVESTIGATING_ORGANIZATION_PATTERN = labelPattern([
+  '조사기관',
+  '조사단체',
+]);
+const PUBLICATION_DATE_PATTERN = labelPattern(['발행일자', '발행일', '펴낸날']);
+const INVESTIGATION_PERIOD_PATTERN = labelPattern(['조사기간']);
+const SITE_ADDRESS_PATTERN = labelPattern([
+  '유적위치',
+  '조사위치',
+  '조사지역',
+  '소재지',
+]);
+const ISBN_PATTERN = /ISBN\s*[:：]?\s*((?:97[89][\s-]?)?(?:\d[\s-]?){9}[\dXx])/;
+const PUBLICATION_REGISTRATION_NO_PATTERN =
+  /발\s*간\s*등\s*록\s*번\s*호\s*[:：]?\s*([0-9A-Z][0-9A-Z-]{8,})/;
+
+/**
+ * Dates such as "2021. 3. 15.", "2021년 3월 15일", "2021-03-15", "2021. 3."
+ */
+const DATE_PATTERN =
+  /^(\d{4})\s*(?:년|[.\-/])?\s*(?:(\d{1,2})\s*(?:월|[.\-/])?\s*(?:(\d{1,2})\s*일?)?)?/;
+const PERIOD_SEPARATOR = /\s*[~～–—]\s*|\s+-\s+|-(?=\d{4})/;
+
+/**
+ * ReportMetadataExtractor
+ *
+ * Extracts bibliographic metadata from the cover, colophon (판권지) and
+ * abstract pages of a report.
+ *
+ * ## Extraction
+ *
+ * 1. Deterministic patterns read "label : value" lines (발행처, 조사기관,
+ *    발행일, 조사기간, 유적위치) and identifiers (ISBN, 발간등록번호) from
+ *    the Docling texts of the first and last pages.
+ * 2. A vision LLM reads the cover (PDF page 1) and the pages mentioning
+ *    colophon or abstract keywords, filling the fields patterns cannot read
+ *    (title, series, site name) and those printed in tables or images.
+ * 3. Pattern values win over LLM values. Dates are normalized to ISO 8601,
+ *    and ISBNs failing their checksum are dropped.
+ *
+ * When the LLM call fails, the pattern values are returned alone.
+ */
+export class ReportMetadataExtractor extends VisionLLMComponent {
+  private readonly frontPages: number;
+  private readonly backPages: number;
+  private readonly maxImages: number;
+
+  constructor(
+    logger: LoggerMethods,
+    model: LanguageModel,
+    artifactDir: string,
+    options?: ReportMetadataExtractorOptions,
+    fallbackModel?: LanguageModel,
+    aggregator?: LLMTokenUsageAggregator,
+  ) {
+    super(
+      logger,
+      model,
+      'ReportMetadataExtractor',
+      artifactDir,
+      options,
+      fallbackModel,
+      aggregator,
+    );
+    this.frontPages = options?.frontPages ?? 5;
+    this.backPages = options?.backPages ?? 5;
+    this.maxImages = options?.maxImages ?? 6;
+  }
+
+  /**
+   * Extract report metadata
+   *
+   * @param doc - Docling document
+   * @returns Metadata with the fields that could be read (may be empty)
+   */
+  async extract(doc: DoclingDocument): Promise<ReportMetadata> {
+    const totalPages = Object.keys(doc.pages).length;
+    this.log('info', `Starting metadata extraction from ${totalPages} pages`);
+
+    if (totalPages === 0) {
+      this.log('info', 'No pages to read');
+      return {};
+    }
+
+    const textsByPage = this.collectPageTexts(doc, totalPages);
+    const patternMetadata = this.extractByPatterns(
+      [...textsByPage.values()].flat(),
+    );
+    this.log(
+      'info',
+      `Patterns found ${Object.keys(patternMetadata).length} fields`,
+    );
+
+    const pageNos = this.selectPages(textsByPage, totalPages);
+    let llmMetadata: ReportMetadata = {};
+    try {
+      llmMetadata = await this.extractByVision(pageNos, patternMetadata);
+    } catch (error) {
+      if (this.abortSignal?.aborted) {
+        throw error;
+      }
+      this.log(
+        'warn',
+        'Vision metadata extraction failed, using pattern results only:',
+        error,
+      );
+    }
+
+    const metadata = { ...llmMetadata, ...patternMetadata };
+    this.log(
+      'info',
+      `Extracted ${Object.keys(metadata).length} metadata fields`,
+    );
+    return metadata;
+  }
+
+  /**
+   * Normalized texts of the first and last pages, keyed by PDF page
+   */
+  private collectPageTexts(
+    doc: DoclingDocument,
+    totalPages: number,
+  ): Map<number, string[]> {
+    const textsByPage = new Map<number, string[]>();
+    for (const item of doc.texts) {
+      const pageNo = item.prov?.[0]?.page_no;
+      if (
+        pageNo === undefined ||
+        (pageNo > this.frontPages && pageNo <= totalPages - this.backPages)
+      ) {
+        continue;
+      }
+      const text = TextCleaner.normalize(item.text);
+      if (text) {
+        textsByPage.set(pageNo, [...(textsByPage.get(pageNo) ?? []), text]);
+      }
+    }
+    return textsByPage;
+  }
+
+  /**
+   * Read metadata fields from "label : value" lines and identifiers
+   */
+  private extractByPatterns(texts: string[]): ReportMetadata {
+    const match = (pattern: RegExp): string | undefined =>
+      texts
+        .map((text) => text.match(pattern)?.[1]?.trim())
+        .find((value) => !!value);
+
+    return ReportMetadataExtractor.omitUndefined({
+      issuingInstitution: match(ISSUING_INSTITUTION_PATTERN),
+      investigatingOrganization: match(INVESTIGATING_ORGANIZATION_PATTERN),
+      publicationDate: ReportMetadataExtractor.toIsoDate(
+        match(PUBLICATION_DATE_PATTERN),
+      ),
+      isbn: ReportMetadataExtractor.normalizeIsbn(match(ISBN_PATTERN)),
+      publicationRegistrationNo: match(PUBLICATION_REGISTRATION_NO_PATTERN),
+      siteAddress: match(SITE_ADDRESS_PATTERN),
+      investigationPeriod: ReportMetadataExtractor.parsePeriod(
+        match(INVESTIGATION_PERIOD_PATTERN),
+      ),
+    });
+  }
+
+  /**
+   * Select the cover and the pages mentioning metadata keywords, falling
+   * back to the cover and last page when no keyword is found
+   */
+  private selectPages(
+    textsByPage: Map<number, string[]>,
+    totalPages: number,
+  ): number[] {
+    const keywordPages = [...textsByPage.entries()]
+      .filter(([, texts]) =>
+        texts.some((text) =>
+          METADATA_PAGE_KEYWORDS.some((keyword) => text.includes(keyword)),
+        ),
+      )
+      .map(([pageNo]) => pageNo);
+
+    const pageNos = new Set([
+      1,
+      ...(keywordPages.length > 0 ? keywordPages : [totalPages]),
+    ]);
+    return [...pageNos].sort((a, b) => a - b).slice(0, this.maxImages);
+  }
+
+  /**
+   * Read metadata from page images with the vision LLM
+   */
+  private async extractByVision(
+    pageNos: number[],
+    patternMetadata: ReportMetadata,
+  ): Promise<ReportMetadata> {
+    this.log(
+      'info',
+      `Calling vision LLM for metadata (pages ${pageNos.join(', ')})`,
+    );
+
+    const { output } = await this.callVisionLLM(
+      ReportMetadataExtractionSchema,
+      [
+        {
+          role: 'user',
+          content: [
+            {
+              type: 'text',
+              text: `${this.buildSystemPrompt()}\n\n${this.buildUserPrompt(pageNos, patternMetadata)}`,
+            },
+            ...pageNos.map((pageNo) =>
+              // Page files are 0-indexed: page_0.png, page_1.png, etc.
+              this.buildImageContent(`pages/page_${pageNo - 1}.png`),
+            ),
+          ],
+        },
+      ],
+      'extraction',
+    );
+
+    return this.toMetadata(output);
+  }
+
+  /**
+   * Convert the LLM response to metadata, normalizing dates and dropping
+   * empty values and invalid ISBNs
+   */
+  private toMetadata(output: ReportMetadataExtractionResult): ReportMetadata {
+    const text = (value: string | null): string | undefined =>
+      value ? TextCleaner.normalize(value) || undefined : undefined;
+
+    const isbn = ReportMetadataExtractor.normalizeIsbn(output.isbn);
+    if (output.isbn && !isbn) {
+      this.log('warn', `Ignoring invalid ISBN from vision LLM: ${output.isbn}`);
+    }
+
+    const startDate = ReportMetadataExtractor.toIsoDate(
+      output.investigationStartDate,
+    );
+    const endDate = ReportMetadataExtractor.toIsoDate(
+      output.investigationEndDate,
+    );
+
+    return ReportMetadataExtractor.omitUndefined({
+      title: text(output.title),
+      subtitle: text(output.subtitle),
+      series: text(output.series),
+      issuingInstitution: text(output.issuingInstitution),
+      investigatingOrganization: text(output.investigatingOrganization),
+      publicationDate: ReportMetadataExtractor.toIsoDate(
+        output.publicationDate,
+      ),
+      isbn,
+      publicationRegistrationNo: text(output.publicationRegistrationNo),
+      siteName: text(output.siteName),
+      siteAddress: text(output.siteAddress),
+      investigationPeriod:
+        startDate || endDate
+          ? {
+              ...(startDate ? { startDate } : {}),
+              ...(endDate ? { endDate } : {}),
+            }
+          : undefined,
+    });
+  }
+
+  /**
+   * Drop fields without a value
+   */
+  private static omitUndefined(metadata: ReportMetadata): ReportMetadata {
+    return Object.fromEntries(
+      Object.entries(metadata).filter(([, value]) => value !== undefined),
+    );
+  }
+
+  /**
+   * Normalize a printed date to ISO 8601 at its printed precision
+   *
+   * @returns ISO date ("2021-03-15", "2021-03" or "2021"), or undefined when unreadable
+   */
+  static toIsoDate(text: string | null | undefined): string | undefined {
+    const match = text?.trim().match(DATE_PATTERN);
+    if (!match) {
+      return undefined;
+    }
+
+    const [, year, month, day] = match;
+    if (
+      (month && (Number(month) < 1 || Number(month) > 12)) ||
+      (day && (Number(day) < 1 || Number(day) > 31))
+    ) {
+      return undefined;
+    }
+
+    if (!month) {
+      return year;
+    }
+    const isoMonth = `${year}-${month.padStart(2, '0')}`;
+    return day ? `${isoMonth}-${day.padStart(2, '0')}` : isoMonth;
+  }
+
+  /**
+   * Strip hyphens and spaces from an ISBN and validate its checksum
+   *
+   * @returns ISBN-10 or ISBN-13 digits, or undefined when invalid
+   */
+  static normalizeIsbn(text: string | null | undefined): string | undefined {
+    const isbn = text?.replace(/^ISBN\s*[:：]?/i, '').replace(/[\s-]/g, '');
+    if (!isbn) {
+      return undefined;
+    }
+
+    const normalized = isbn.toUpperCase();
+    if (/^\d{9}[\dX]$/.test(normalized)) {
+      const sum = [...normalized].reduce(
+        (total, char, i) =>
+          total + (char === 'X' ? 10 : Number(char)) * (10 - i),
+        0,
+      );
+      return sum % 11 === 0 ? normalized : undefined;
+    }
+    if (/^\d{13}$/.test(normalized)) {
+      const sum = [...normalized].reduce(
+        (total, char, i) => total + Number(char) * (i % 2 === 0 ? 1 : 3),
+        0,
+      );
+      return sum % 10 === 0 ? normalized : undefined;
+    }
+    return undefined;
+  }
+
+  /**
+   * Parse an investigation period such as "2020. 3. 2. ~ 5. 29.", taking
+   * the start year for an end date printed without one
+   */
+  private static parsePeriod(
+    text: string | undefined,
+  ): ReportMetadata['investigationPeriod'] {
+    const [start, end] = text?.split(PERIOD_SEPARATOR) ?? [];
+    const startDate = ReportMetadataExtractor.toIsoDate(start);
+    if (!startDate) {
+      return undefined;
+    }
+
+    // "5. 29." continues the start year
+    const endDate =
+      end &&
+      ReportMetadataExtractor.toIsoDate(
+        /^\s*\d{4}/.test(end) ? end : `${startDate.slice(0, 4)}. ${end}`,
+      );
+    return endDate ? { startDate, endDate } : { startDate };
+  }
+
+  /**
+   * Build system prompt for the vision LLM
+   */
+  protected buildSystemPrompt(): string {
+    return `You are a bibliographic cataloguer for archaeological excavation reports. Read the report's cover, colophon (판권지) and abstract pages and extract its bibliographic metadata.
+
+## Where to Look:
+- Cover: title, subtitle, series with volume number (e.g. "학술조사보고 제45책"), issuing institution
+- Colophon (usually one of the last pages): 발행일 (publication date), 발행처/발행기관 (issuing institution), ISBN, 발간등록번호 (registration number, e.g. "11-1550000-001234-01")
+- Abstract or investigation summary (초록, 요약, 조사개요): site name, site address, investigating organization (조사기관), investigation period (조사기간)
+
+## Rules:
+1. Copy names, titles and addresses exactly as printed, in the original language (Korean, Hanja or English)
+2. Write dates as YYYY-MM-DD (or YYYY-MM / YYYY when the day or month is not printed)
+3. The series is not the title: "○○문화재연구원 학술조사보고 제45책" is a series
+4. The investigating organization carried out the excavation; the issuing institution published the report. They are often, but not always, the same
+5. Return null for any field not printed on these pages. Never guess`;
+  }
+
+  /**
+   * Build user prompt with the page list and the values already found by patterns
+   */
+  protected buildUserPrompt(
+    pageNos: number[],
+    patternMetadata: ReportMetadata,
+  ): string {
+    const known = Object.entries(patternMetadata).map(
+      ([field, value]) => `- ${field}: ${JSON.stringify(value)}`,
+    );
+    return `I am providing ${pageNos.length} page images (PDF pages ${pageNos.join(', ')}).${
+      known.length > 0
+        ? `\n\nThese fields were already read from the text layer and are likely correct:\n${known.join('\n')}`
+        : ''
+    }`;
+  }
+}
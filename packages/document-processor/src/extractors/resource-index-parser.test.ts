@@ -0,0 +1,208 @@
+import type { LoggerMethods } from '@heripo/logger';
+import type {
+  DoclingDocument,
+  DoclingTableItem,
+  DoclingTextItem,
+} from '@heripo/model';
+
+import { beforeEach, describe, expect, test, vi } from 'vitest';
+
+import { ResourceIndexParser } from './resource-index-parser';
+
+describe('ResourceIndexParser', () => {
+  let mockLogger: LoggerMethods;
+  let parser: ResourceIndexParser;
+  let textIndex: number;
+
+  beforeEach(() => {
+    mockLogger = {
+      info: vi.fn(),
+      warn: vi.fn(),
+      error: vi.fn(),
+      debug: vi.fn(),
+    };
+    parser = new ResourceIndexParser(mockLogger);
+    textIndex = 0;
+  });
+
+  const createText = (
+    text: string,
+    pageNo: number | undefined,
+    label = 'text',
+    parentRef?: string,
+  ): DoclingTextItem => ({
+    self_ref: `#/texts/${textIndex++}`,
+    ...(parentRef ? { parent: { $ref: parentRef } } : {}),
+    children: [],
+    content_layer: 'body',
+    label,
+    prov:
+      pageNo === undefined
+        ? []
+        : [
+            {
+              page_no: pageNo,
+              bbox: { l: 0, t: 0, r: 100, b: 100, coord_origin: 'BOTTOMLEFT' },
+              charspan: [0, text.length],
+            },
+          ],
+    orig: text,
+    text,
+  });
+
+  const createTable = (
+    selfRef: string,
+    pageNo: number | undefined,
+    rows: string[][],
+  ): DoclingTableItem =>
+    ({
+      self_ref: selfRef,
+      children: [],
+      content_layer: 'body',
+      label: 'table',
+      prov: pageNo === undefined ? [] : [{ page_no: pageNo }],
+      data: {
+        grid: rows.map((row) => row.map((text) => ({ text }))),
+      },
+    }) as unknown as DoclingTableItem;
+
+  const createDoc = (
+    texts: DoclingTextItem[],
+    tables: DoclingTableItem[] = [],
+  ): DoclingDocument =>
+    ({
+      texts,
+      tables,
+      pictures: [],
+      groups: [],
+    }) as unknown as DoclingDocument;
+
+  test('parses list-of-figures text lines', () => {
+    const doc = createDoc([
+      createText('도면목차', 4, 'section_header'),
+      createText('[도면 1] 유적 위치도 ········· 12', 4),
+      createText('도면 2. 유구 배치도…15', 4),
+      createText('사진 03 1호 주거지 전경 21', 4),
+      createText('Fig. 3-2 Site plan 9', 4),
+      createText('- iv -', 4, 'page_footer'),
+      createText('도면 9 picture text 3', 4, 'text', '#/pictures/0'),
+    ]);
+
+    expect(parser.parse(doc)).toEqual([
+      {
+        type: 'image',
+        prefix: '도면',
+        num: '1',
+        title: '유적 위치도',
+        pageNo: 12,
+        sourceRef: '#/texts/1',
+      },
+      {
+        type: 'image',
+        prefix: '도면',
+        num: '2',
+        title: '유구 배치도',
+        pageNo: 15,
+        sourceRef: '#/texts/2',
+      },
+      {
+        type: 'image',
+        prefix: '사진',
+        num: '3',
+        title: '1호 주거지 전경',
+        pageNo: 21,
+        sourceRef: '#/texts/3',
+      },
+      {
+        type: 'image',
+        prefix: 'Fig',
+        num: '3-2',
+        title: 'Site plan',
+        pageNo: 9,
+        sourceRef: '#/texts/4',
+      },
+    ]);
+    expect(mockLogger.info).toHaveBeenCalledWith(
+      '[ResourceIndexParser] Parsed 4 entries from 1 index pages',
+    );
+  });
+
+  test('parses list-of-tables rows with spanned cells', () => {
+    const doc = createDoc(
+      [createText('표목차', 5, 'section_header')],
+      [
+        createTable('#/tables/0', 5, [
+          ['번호', '제목', '쪽'],
+          ['표 1', '출토유물 목록', '30'],
+          ['Table 2', 'Radiocarbon dates', '42'],
+          ['표 3', '토층 관찰표', '45'],
+          ['', '', ''],
+          ['비고', '비고', '-'],
+        ]),
+      ],
+    );
+
+    expect(
+      parser.parse(doc).map(({ type, prefix, num, title, pageNo }) => ({
+        type,
+        prefix,
+        num,
+        title,
+        pageNo,
+      })),
+    ).toEqual([
+      {
+        type: 'table',
+        prefix: '표',
+        num: '1',
+        title: '출토유물 목록',
+        pageNo: 30,
+      },
+      {
+        type: 'table',
+        prefix: 'Table',
+        num: '2',
+        title: 'Radiocarbon dates',
+        pageNo: 42,
+      },
+      {
+        type: 'table',
+        prefix: '표',
+        num: '3',
+        title: '토층 관찰표',
+        pageNo: 45,
+      },
+    ]);
+  });
+
+  test('ignores captions on body pages and pages past the search limit', () => {
+    parser = new ResourceIndexParser(mockLogger, {
+      maxSearchPages: 10,
+      minEntriesPerPage: 2,
+    });
+    const doc = createDoc(
+      [
+        // Body page: captions without page numbers
+        createText('사진 1 유적 원경', 6),
+        createText('사진 2 유적 근경', 6),
+        // Body page: too few entries among its lines
+        createText('도면 1 유구 평면도 3', 7),
+        createText('도면 2 유구 단면도 4', 7),
+        createText('본문 1', 7),
+        createText('본문 2', 7),
+        createText('본문 3', 7),
+        createText('Ⅰ. 조사개요 ······ 1', 7),
+        // Past the search limit
+        createText('도면 3 토층도 5', 12),
+        createText('도면 4 유물 실측도 6', 12),
+        createText('도면 5 출토 유물 7', undefined),
+      ],
+      [createTable('#/tables/0', undefined, [['표 1', '목록', '3']])],
+    );
+
+    expect(parser.parse(doc)).toEqual([]);
+    expect(mockLogger.info).toHaveBeenCalledWith(
+      '[ResourceIndexParser] Parsed 0 entries from 0 index pages',
+    );
+  });
+});
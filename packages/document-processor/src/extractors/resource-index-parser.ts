@@ -0,0 +1,192 @@
+import type { LoggerMethods } from '@heripo/logger';
+import type {
+  DoclingDocument,
+  DoclingTableItem,
+  ResourceIndexEntry,
+} from '@heripo/model';
+
+import {
+  CAPTION_PREFIXES,
+  CAPTION_PREFIX_ALIASES,
+  TextCleaner,
+  captionPrefixAlternation,
+  captionTargetType,
+  normalizeCaptionNum,
+} from '../utils';
+
+/**
+ * ResourceIndexParser options
+ */
+export interface ResourceIndexParserOptions {
+  /**
+   * Maximum PDF pages to search for index pages (default: 30)
+   */
+  maxSearchPages?: number;
+
+  /**
+   * Minimum number of entries on an index page (default: 3)
+   */
+  minEntriesPerPage?: number;
+}
+
+/**
+ * Line of an index page and the Docling item it was read from
+ */
+interface IndexLine {
+  text: string;
+  sourceRef: string;
+}
+
+/**
+ * Labels of running page furniture, never part of an index
+ */
+const FURNITURE_LABELS = new Set(['page_header', 'page_footer']);
+
+/**
+ * Page number at the end of a line, after dot leaders or spaces
+ */
+const TRAILING_PAGE_PATTERN = /^(.*?)[\s.·…‥・]+(\d{1,4})$/;
+
+/**
+ * ResourceIndexParser
+ *
+ * Parses list-of-figures and list-of-tables pages (도면목차, 사진목차,
+ * 표목차, List of Figures) into structured entries. TocFinder only excludes
+ * these pages from the TOC, but they list every caption with its page.
+ * Rule-based: no LLM calls.
+ *
+ * ## Index Pages
+ *
+ * A line is an entry when it starts with a caption prefix and number
+ * ("[도면 1]", "사진 3.", "Fig. 2") and ends with a page number, with or
+ * without dot leaders. Text items and table rows are both read. A page is an
+ * index page when it has at least `minEntriesPerPage` entries and entries
+ * make up at least half of its lines, so captions on body pages are ignored.
+ */
+export class ResourceIndexParser {
+  private readonly maxSearchPages: number;
+  private readonly minEntriesPerPage: number;
+  private readonly entryPattern: RegExp;
+
+  constructor(
+    private readonly logger: LoggerMethods,
+    options?: ResourceIndexParserOptions,
+  ) {
+    this.maxSearchPages = options?.maxSearchPages ?? 30;
+    this.minEntriesPerPage = options?.minEntriesPerPage ?? 3;
+
+    const prefixes = captionPrefixAlternation([
+      ...CAPTION_PREFIXES.image,
+      ...CAPTION_PREFIXES.table,
+      ...Object.keys(CAPTION_PREFIX_ALIASES),
+    ]);
+    this.entryPattern = new RegExp(
+      `^[[【〔(]?\\s*(${prefixes})\\s*(\\d{1,3}(?:[-.]\\d{1,3})*)\\s*[\\]】〕)]?\\s*[.:：)]?\\s*(.+)$`,
+      'iu',
+    );
+  }
+
+  /**
+   * Parse the entries of all index pages
+   *
+   * @returns Entries in page order (empty when the document has no index pages)
+   */
+  parse(doc: DoclingDocument): ResourceIndexEntry[] {
+    this.logger.info('[ResourceIndexParser] Searching resource index pages...');
+
+    const linesByPage = this.collectLines(doc);
+    const entries: ResourceIndexEntry[] = [];
+    let indexPageCount = 0;
+
+    for (const pageNo of [...linesByPage.keys()].sort((a, b) => a - b)) {
+      const lines = linesByPage.get(pageNo)!;
+      const pageEntries = lines.flatMap((line) => {
+        const entry = this.parseLine(line);
+        return entry ? [entry] : [];
+      });
+
+      if (
+        pageEntries.length >= this.minEntriesPerPage &&
+        pageEntries.length * 2 >= lines.length
+      ) {
+        entries.push(...pageEntries);
+        indexPageCount++;
+      }
+    }
+
+    this.logger.info(
+      `[ResourceIndexParser] Parsed ${entries.length} entries from ${indexPageCount} index pages`,
+    );
+
+    return entries;
+  }
+
+  /**
+   * Parse one index line
+   *
+   * @returns undefined when the line is not a caption with a page number
+   */
+  private parseLine(line: IndexLine): ResourceIndexEntry | undefined {
+    const withPage = line.text.match(TRAILING_PAGE_PATTERN);
+    const match = withPage?.[1].match(this.entryPattern);
+    if (!withPage || !match) {
+      return undefined;
+    }
+
+    const [, prefix, num, title] = match;
+    return {
+      type: captionTargetType(prefix)!,
+      prefix: prefix.replace(/\.$/, ''),
+      num: normalizeCaptionNum(num),
+      title: title.trim(),
+      pageNo: Number(withPage[2]),
+      sourceRef: line.sourceRef,
+    };
+  }
+
+  /**
+   * Collect text lines and table rows by PDF page, within the search limit
+   */
+  private collectLines(doc: DoclingDocument): Map<number, IndexLine[]> {
+    const linesByPage = new Map<number, IndexLine[]>();
+    const add = (pageNo: number | undefined, lines: IndexLine[]): void => {
+      if (pageNo === undefined || pageNo > this.maxSearchPages) {
+        return;
+      }
+      linesByPage.set(pageNo, [...(linesByPage.get(pageNo) ?? []), ...lines]);
+    };
+
+    doc.texts
+      .filter(
+        (item) =>
+          !FURNITURE_LABELS.has(item.label) &&
+          !item.parent?.$ref?.startsWith('#/pictures/') &&
+          TextCleaner.isValidText(item.text),
+      )
+      .forEach((item) =>
+        add(item.prov?.[0]?.page_no, [
+          { text: TextCleaner.normalize(item.text), sourceRef: item.self_ref },
+        ]),
+      );
+
+    doc.tables.forEach((table) =>
+      add(table.prov?.[0]?.page_no, ResourceIndexParser.tableRows(table)),
+    );
+
+    return linesByPage;
+  }
+
+  /**
+   * Table rows as lines, with spanned cells read once
+   */
+  private static tableRows(table: DoclingTableItem): IndexLine[] {
+    return table.data.grid.flatMap((row) => {
+      const cells = row
+        .map((cell) => TextCleaner.normalize(cell.text))
+        .filter((text, index, texts) => text && text !== texts[index - 1]);
+      return cells.length > 0
+        ? [{ text: cells.join(' '), sourceRef: table.self_ref }]
+        : [];
+    });
+  }
+}
@@ -0,0 +1,268 @@
+import type { LoggerMethods } from '@heripo/logger';
+import type {
+  DoclingDocument,
+  DoclingTextItem,
+  PageRange,
+} from '@heripo/model';
+
+import { beforeEach, describe, expect, test, vi } from 'vitest';
+
+import { SubDocumentDetector } from './sub-document-detector';
+
+describe('SubDocumentDetector', () => {
+  let mockLogger: LoggerMethods;
+  let textIndex: number;
+
+  beforeEach(() => {
+    mockLogger = {
+      info: vi.fn(),
+      warn: vi.fn(),
+      error: vi.fn(),
+      debug: vi.fn(),
+    };
+    textIndex = 0;
+  });
+
+  const createText = (
+    text: string,
+    pageNo: number | undefined,
+    label = 'text',
+  ): DoclingTextItem => ({
+    self_ref: `#/texts/${textIndex++}`,
+    parent: { $ref: '#/body' },
+    children: [],
+    content_layer: 'body',
+    label,
+    prov:
+      pageNo === undefined
+        ? []
+        : [
+            {
+              page_no: pageNo,
+              bbox: {
+                l: 0,
+                t: 120,
+                r: 300,
+                b: 100,
+                coord_origin: 'BOTTOMLEFT',
+              },
+              charspan: [0, text.length],
+            },
+          ],
+    orig: text,
+    text,
+  });
+
+  /** Body page with more texts than a cover page */
+  const createBodyPage = (pageNo: number): DoclingTextItem[] =>
+    Array.from({ length: 8 }, (_, i) =>
+      createText(`Paragraph ${i + 1} on page ${pageNo}`, pageNo),
+    );
+
+  const createDoc = (texts: DoclingTextItem[]): DoclingDocument =>
+    ({
+      schema_name: 'DoclingDocument',
+      version: '1.0.0',
+      name: 'test-doc',
+      origin: {
+        mimetype: 'application/pdf',
+        binary_hash: 123,
+        filename: 'test.pdf',
+      },
+      furniture: {
+        name: '_root_',
+        label: 'unspecified',
+        self_ref: '#/furniture',
+        children: [],
+        content_layer: 'furniture',
+      },
+      texts,
+      pictures: [],
+      tables: [],
+      groups: [],
+      body: {
+        name: '_root_',
+        label: 'unspecified',
+        self_ref: '#/body',
+        children: [],
+        content_layer: 'body',
+      },
+      pages: {},
+    }) as DoclingDocument;
+
+  /**
+   * Page range map numbering each PDF page with `pageNo(pdfPageNo)`
+   */
+  const createPageRangeMap = (
+    pageCount: number,
+    pageNo: (pdfPageNo: number) => number,
+  ): Record<number, PageRange> => {
+    const pageRangeMap: Record<number, PageRange> = {};
+    for (let pdfPageNo = 1; pdfPageNo <= pageCount; pdfPageNo++) {
+      const value = pageNo(pdfPageNo);
+      pageRangeMap[pdfPageNo] = { startPageNo: value, endPageNo: value };
+    }
+    return pageRangeMap;
+  };
+
+  const bodyPages = (from: number, to: number, skip: number[] = []) =>
+    Array.from({ length: to - from + 1 }, (_, i) => from + i)
+      .filter((pageNo) => !skip.includes(pageNo))
+      .flatMap(createBodyPage);
+
+  // PDF 1-20: 1-20, PDF 21: report cover (backfilled 21), PDF 22-30: 1-9
+  const appendedReportMap = createPageRangeMap(30, (pdfPageNo) =>
+    pdfPageNo <= 21 ? pdfPageNo : pdfPageNo - 21,
+  );
+
+  test('detects an appended report with its own cover and TOC', () => {
+    const detector = new SubDocumentDetector(mockLogger);
+    const doc = createDoc([
+      ...bodyPages(1, 20),
+      createText('Radiocarbon Dating Report', 21, 'title'),
+      createText('Analysis Lab', 21),
+      createText('목 차', 22, 'section_header'),
+      ...bodyPages(22, 30),
+    ]);
+
+    const segments = detector.detect(doc, appendedReportMap);
+
+    expect(segments).toEqual([
+      {
+        startPdfPageNo: 21,
+        endPdfPageNo: 30,
+        title: 'Radiocarbon Dating Report',
+        signals: ['cover', 'toc'],
+        pageRangeMap: {
+          21: { startPageNo: 1, endPageNo: 1 },
+          ...Object.fromEntries(
+            Object.entries(appendedReportMap).filter(
+              ([pdfPageNo]) => Number(pdfPageNo) >= 22,
+            ),
+          ),
+        },
+      },
+    ]);
+    expect(mockLogger.info).toHaveBeenCalledWith(
+      '[SubDocumentDetector] Sub-document at PDF 21-30 (cover, toc): Radiocarbon Dating Report',
+    );
+  });
+
+  test('confirms a restart with a secondary TOC alone', () => {
+    const detector = new SubDocumentDetector(mockLogger);
+    const doc = createDoc([
+      // Blank first page of the report
+      ...bodyPages(1, 23, [22]),
+      createText('CONTENTS', 24),
+      ...bodyPages(24, 30),
+    ]);
+
+    const segments = detector.detect(doc, appendedReportMap);
+
+    expect(segments).toHaveLength(1);
+    expect(segments[0]).toMatchObject({
+      startPdfPageNo: 22,
+      endPdfPageNo: 30,
+      signals: ['toc'],
+    });
+    expect(segments[0].title).toBeUndefined();
+    expect(mockLogger.info).toHaveBeenCalledWith(
+      '[SubDocumentDetector] Sub-document at PDF 22-30 (toc)',
+    );
+  });
+
+  test('ignores restarts without a cover or TOC', () => {
+    const detector = new SubDocumentDetector(mockLogger);
+    const doc = createDoc([
+      ...bodyPages(1, 30, [21]),
+      // Running furniture does not make a page cover-like
+      createText('Contents of the report', 22, 'page_header'),
+    ]);
+
+    expect(detector.detect(doc, appendedReportMap)).toEqual([]);
+    expect(mockLogger.info).toHaveBeenCalledWith(
+      '[SubDocumentDetector] Ignoring page number restart at PDF 22: no cover or TOC',
+    );
+  });
+
+  test('ignores restarts leaving too few pages', () => {
+    const detector = new SubDocumentDetector(mockLogger, { minPages: 12 });
+    const doc = createDoc([
+      ...bodyPages(1, 20),
+      createText('Soil Analysis', 21, 'title'),
+      ...bodyPages(22, 30),
+    ]);
+
+    expect(detector.detect(doc, appendedReportMap)).toEqual([]);
+    expect(mockLogger.info).toHaveBeenCalledWith(
+      '[SubDocumentDetector] Ignoring page number restart at PDF 22: fewer than 12 pages',
+    );
+  });
+
+  test('splits consecutive sub-documents', () => {
+    const detector = new SubDocumentDetector(mockLogger);
+    // PDF 1-10: 1-10, PDF 11-20: 1-10, PDF 21-30: 1-10
+    const pageRangeMap = createPageRangeMap(
+      30,
+      (pdfPageNo) => ((pdfPageNo - 1) % 10) + 1,
+    );
+    const doc = createDoc([
+      ...bodyPages(1, 10),
+      // Cover page numbered by the restart itself, titled by a heading
+      createText('Radiocarbon Dating', 11, 'section_header'),
+      ...bodyPages(12, 20),
+      createText('Soil Analysis', 21, 'title'),
+      ...bodyPages(22, 30),
+    ]);
+
+    const segments = detector.detect(doc, pageRangeMap);
+
+    expect(
+      segments.map(({ startPdfPageNo, endPdfPageNo, title }) => ({
+        startPdfPageNo,
+        endPdfPageNo,
+        title,
+      })),
+    ).toEqual([
+      { startPdfPageNo: 11, endPdfPageNo: 20, title: 'Radiocarbon Dating' },
+      { startPdfPageNo: 21, endPdfPageNo: 30, title: 'Soil Analysis' },
+    ]);
+    expect(Object.keys(segments[0].pageRangeMap).map(Number)).toEqual([
+      11, 12, 13, 14, 15, 16, 17, 18, 19, 20,
+    ]);
+  });
+
+  test('skips failed, Roman and missing pages when finding restarts', () => {
+    const detector = new SubDocumentDetector(mockLogger);
+    const pageRangeMap: Record<number, PageRange> = {
+      ...appendedReportMap,
+      1: { startPageNo: 0, endPageNo: 0 },
+      2: {
+        startPageNo: 1,
+        endPageNo: 1,
+        numeralSystem: 'roman',
+        startLabel: 'i',
+        endLabel: 'i',
+      } as PageRange,
+    };
+    delete pageRangeMap[25];
+    const doc = createDoc([
+      ...bodyPages(1, 20),
+      createText('Radiocarbon Dating Report', 21, 'title'),
+      createText('Note without provenance', undefined),
+      ...bodyPages(22, 30),
+    ]);
+
+    const segments = detector.detect(doc, pageRangeMap);
+
+    expect(segments).toHaveLength(1);
+    expect(segments[0].startPdfPageNo).toBe(21);
+    expect(segments[0].pageRangeMap[25]).toBeUndefined();
+  });
+
+  test('returns no segments for an empty page range map', () => {
+    const detector = new SubDocumentDetector(mockLogger);
+
+    expect(detector.detect(createDoc([]), {})).toEqual([]);
+  });
+});
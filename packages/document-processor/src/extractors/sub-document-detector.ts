@@ -0,0 +1,323 @@
+import type { LoggerMethods } from '@heripo/logger';
+import type {
+  DoclingDocument,
+  DoclingTextItem,
+  PageRange,
+} from '@heripo/model';
+
+import { TextCleaner, isLabeledPageRange } from '../utils';
+import { TOC_KEYWORDS } from './toc-finder';
+
+/**
+ * Signal confirming that a page number restart starts a sub-document
+ *
+ * - `cover`: a cover-like page (title item or few texts) at the restart
+ * - `toc`: a secondary TOC heading in the first pages of the segment
+ */
+export type SubDocumentSignal = 'cover' | 'toc';
+
+/**
+ * Independent sub-document found in a document
+ */
+export interface SubDocumentSegment {
+  /** First PDF page of the segment, including its cover page */
+  startPdfPageNo: number;
+  /** Last PDF page of the segment (inclusive) */
+  endPdfPageNo: number;
+  /** Title from the cover page or first section heading (if found) */
+  title?: string;
+  signals: SubDocumentSignal[];
+  /** Page ranges of the segment, with its cover pages numbered from its own page 1 */
+  pageRangeMap: Record<number, PageRange>;
+}
+
+/**
+ * SubDocumentDetector options
+ */
+export interface SubDocumentDetectorOptions {
+  /**
+   * Minimum number of PDF pages in a sub-document and in the pages before
+   * it (default: 4)
+   */
+  minPages?: number;
+
+  /**
+   * Number of pages from the start of a segment searched for a secondary
+   * TOC heading (default: 3)
+   */
+  tocSearchPages?: number;
+
+  /**
+   * Pages with at most this many body texts are cover-like even without a
+   * title item (default: 5)
+   */
+  maxCoverTexts?: number;
+}
+
+/**
+ * Highest page number a restarted numbering may begin with
+ * (page 1 is often the unnumbered cover)
+ */
+const MAX_RESTART_PAGE_NO = 2;
+
+/**
+ * Labels of running page furniture, ignored when judging cover pages
+ */
+const FURNITURE_LABELS = new Set(['page_header', 'page_footer']);
+
+/**
+ * SubDocumentDetector
+ *
+ * Finds independent sub-documents appended to a report, such as radiocarbon
+ * dating or soil analysis reports bound after the main text. These restart
+ * their page numbering at 1 and usually have their own cover and TOC, which
+ * would otherwise be merged into the main report's last chapter.
+ *
+ * ## Detection
+ *
+ * 1. Page number restarts are read from the page range map: an Arabic page
+ *    number of 1 or 2 below the previous page number.
+ * 2. A restart is confirmed by a cover-like page at (or just before) the
+ *    restart, or by a secondary TOC heading in the first pages of the
+ *    segment. Unconfirmed restarts are ignored.
+ * 3. Segments shorter than `minPages`, or leaving fewer than `minPages`
+ *    pages before them, are ignored.
+ */
+export class SubDocumentDetector {
+  private readonly minPages: number;
+  private readonly tocSearchPages: number;
+  private readonly maxCoverTexts: number;
+  private readonly tocKeywords: Set<string>;
+
+  constructor(
+    private readonly logger: LoggerMethods,
+    options?: SubDocumentDetectorOptions,
+  ) {
+    this.minPages = options?.minPages ?? 4;
+    this.tocSearchPages = options?.tocSearchPages ?? 3;
+    this.maxCoverTexts = options?.maxCoverTexts ?? 5;
+    this.tocKeywords = new Set(
+      TOC_KEYWORDS.map((keyword) => SubDocumentDetector.compact(keyword)),
+    );
+  }
+
+  /**
+   * Detect sub-documents
+   *
+   * @param doc - Docling document
+   * @param pageRangeMap - PDF page to actual page mapping
+   * @returns Segments ordered by PDF page (empty when the document has none)
+   */
+  detect(
+    doc: DoclingDocument,
+    pageRangeMap: Record<number, PageRange>,
+  ): SubDocumentSegment[] {
+    const pdfPages = Object.keys(pageRangeMap)
+      .map(Number)
+      .sort((a, b) => a - b);
+    if (pdfPages.length === 0) {
+      return [];
+    }
+
+    const textsByPage = this.groupTextsByPage(doc.texts);
+    const firstPdfPage = pdfPages[0];
+    const lastPdfPage = pdfPages[pdfPages.length - 1];
+    const restarts = this.findRestarts(pageRangeMap, pdfPages);
+
+    // Confirm each restart with a cover page or a secondary TOC
+    const candidates: Array<
+      Pick<SubDocumentSegment, 'startPdfPageNo' | 'signals'> & {
+        restartPdfPage: number;
+      }
+    > = [];
+    for (const [i, restartPdfPage] of restarts.entries()) {
+      const coverPdfPage = [restartPdfPage - 1, restartPdfPage].find(
+        (pdfPage) =>
+          pdfPage > (restarts[i - 1] ?? firstPdfPage) &&
+          this.isCoverLike(textsByPage.get(pdfPage) ?? []),
+      );
+      const startPdfPageNo = coverPdfPage ?? restartPdfPage;
+
+      const signals: SubDocumentSignal[] = [];
+      if (coverPdfPage !== undefined) {
+        signals.push('cover');
+      }
+      if (this.hasTocHeading(textsByPage, startPdfPageNo)) {
+        signals.push('toc');
+      }
+
+      if (signals.length === 0) {
+        this.logger.info(
+          `[SubDocumentDetector] Ignoring page number restart at PDF ${restartPdfPage}: no cover or TOC`,
+        );
+        continue;
+      }
+      candidates.push({ startPdfPageNo, signals, restartPdfPage });
+    }
+
+    // Drop candidates too short, or too close to the previous segment
+    const accepted = candidates.filter((candidate, i) => {
+      const previousStart = candidates[i - 1]?.startPdfPageNo ?? firstPdfPage;
+      const nextStart = candidates[i + 1]?.startPdfPageNo ?? lastPdfPage + 1;
+      if (
+        candidate.startPdfPageNo - previousStart < this.minPages ||
+        nextStart - candidate.startPdfPageNo < this.minPages
+      ) {
+        this.logger.info(
+          `[SubDocumentDetector] Ignoring page number restart at PDF ${candidate.restartPdfPage}: fewer than ${this.minPages} pages`,
+        );
+        return false;
+      }
+      return true;
+    });
+
+    return accepted.map((candidate, i) => {
+      const endPdfPageNo =
+        (accepted[i + 1]?.startPdfPageNo ?? lastPdfPage + 1) - 1;
+      const title = this.findTitle(
+        textsByPage.get(candidate.startPdfPageNo) ?? [],
+      );
+
+      this.logger.info(
+        `[SubDocumentDetector] Sub-document at PDF ${candidate.startPdfPageNo}-${endPdfPageNo} (${candidate.signals.join(', ')})${title ? `: ${title}` : ''}`,
+      );
+
+      return {
+        startPdfPageNo: candidate.startPdfPageNo,
+        endPdfPageNo,
+        title,
+        signals: candidate.signals,
+        pageRangeMap: this.slicePageRangeMap(
+          pageRangeMap,
+          candidate.startPdfPageNo,
+          endPdfPageNo,
+          candidate.restartPdfPage,
+        ),
+      };
+    });
+  }
+
+  /**
+   * Find PDF pages where the Arabic page numbering restarts
+   */
+  private findRestarts(
+    pageRangeMap: Record<number, PageRange>,
+    pdfPages: number[],
+  ): number[] {
+    const restarts: number[] = [];
+    let previousPageNo: number | undefined;
+
+    for (const pdfPage of pdfPages) {
+      const range = pageRangeMap[pdfPage];
+      if (range.startPageNo < 1 || isLabeledPageRange(range)) {
+        continue;
+      }
+
+      if (
+        previousPageNo !== undefined &&
+        range.startPageNo <= MAX_RESTART_PAGE_NO &&
+        range.startPageNo < previousPageNo
+      ) {
+        restarts.push(pdfPage);
+      }
+      previousPageNo = range.startPageNo;
+    }
+
+    return restarts;
+  }
+
+  /**
+   * Copy the page ranges of a segment, numbering pages before its restart
+   * backwards from the restarted page number (never below 1)
+   */
+  private slicePageRangeMap(
+    pageRangeMap: Record<number, PageRange>,
+    startPdfPageNo: number,
+    endPdfPageNo: number,
+    restartPdfPage: number,
+  ): Record<number, PageRange> {
+    const restartPageNo = pageRangeMap[restartPdfPage].startPageNo;
+    const result: Record<number, PageRange> = {};
+
+    for (let pdfPage = startPdfPageNo; pdfPage <= endPdfPageNo; pdfPage++) {
+      if (pdfPage < restartPdfPage) {
+        const pageNo = Math.max(1, restartPageNo - (restartPdfPage - pdfPage));
+        result[pdfPage] = { startPageNo: pageNo, endPageNo: pageNo };
+      } else if (pageRangeMap[pdfPage]) {
+        result[pdfPage] = pageRangeMap[pdfPage];
+      }
+    }
+
+    return result;
+  }
+
+  private groupTextsByPage(
+    texts: DoclingTextItem[],
+  ): Map<number, DoclingTextItem[]> {
+    const textsByPage = new Map<number, DoclingTextItem[]>();
+    for (const item of texts) {
+      const pdfPage = item.prov?.[0]?.page_no;
+      if (pdfPage === undefined) {
+        continue;
+      }
+      const pageTexts = textsByPage.get(pdfPage) ?? [];
+      pageTexts.push(item);
+      textsByPage.set(pdfPage, pageTexts);
+    }
+    return textsByPage;
+  }
+
+  /**
+   * Whether a page looks like a cover: it has a title item, or only a few
+   * body texts
+   */
+  private isCoverLike(texts: DoclingTextItem[]): boolean {
+    const bodyTexts = texts.filter(
+      (item) =>
+        !FURNITURE_LABELS.has(item.label) && TextCleaner.isValidText(item.text),
+    );
+    return (
+      bodyTexts.length > 0 &&
+      (bodyTexts.some((item) => item.label === 'title') ||
+        bodyTexts.length <= this.maxCoverTexts)
+    );
+  }
+
+  /**
+   * Whether a text consisting only of a TOC keyword appears in the first
+   * pages of a segment
+   */
+  private hasTocHeading(
+    textsByPage: Map<number, DoclingTextItem[]>,
+    startPdfPageNo: number,
+  ): boolean {
+    for (let offset = 0; offset < this.tocSearchPages; offset++) {
+      const texts = textsByPage.get(startPdfPageNo + offset) ?? [];
+      if (
+        texts.some((item) =>
+          this.tocKeywords.has(SubDocumentDetector.compact(item.text)),
+        )
+      ) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  /**
+   * Title item of a cover page, falling back to its first section heading
+   */
+  private findTitle(texts: DoclingTextItem[]): string | undefined {
+    const item =
+      texts.find((text) => text.label === 'title') ??
+      texts.find((text) => text.label === 'section_header');
+    return item ? TextCleaner.normalize(item.text) : undefined;
+  }
+
+  /**
+   * Lowercase text without whitespace, for keyword comparison
+   */
+  private static compact(text: string): string {
+    return text.replace(/\s/g, '').toLowerCase();
+  }
+}
@@ -0,0 +1,393 @@
+import type { LoggerMethods } from '@heripo/logger';
+import type { ProcessedImage } from '@heripo/model';
+import type { SpawnResult } from '@heripo/shared';
+import type { LanguageModel } from 'ai';
+
+import { LLMCaller, spawnAsync } from '@heripo/shared';
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { beforeEach, describe, expect, test, vi } from 'vitest';
+
+import {
+  type SubFigureConfirmationResult,
+  SubFigureConfirmationSchema,
+  SubFigureSplitter,
+} from './sub-figure-splitter';
+
+vi.mock('@heripo/shared', () => ({
+  LLMCaller: {
+    callVision: vi.fn(),
+  },
+  spawnAsync: vi.fn(),
+}));
+
+vi.mock('node:fs', () => ({
+  readFileSync: vi.fn(),
+  rmSync: vi.fn(),
+}));
+
+const mockCallVision = vi.mocked(LLMCaller.callVision);
+const mockSpawnAsync = vi.mocked(spawnAsync);
+const mockReadFileSync = vi.mocked(fs.readFileSync);
+const mockRmSync = vi.mocked(fs.rmSync);
+
+/**
+ * Plain PGM of a 20x10 sample with two dark cells split by a white gutter
+ */
+const TWO_CELL_PGM = `P2\n20 10\n255\n${Array.from({ length: 200 }, (_, i) =>
+  i % 20 >= 9 && i % 20 < 11 ? 255 : 0,
+).join(' ')}`;
+
+describe('SubFigureSplitter', () => {
+  let mockModel: LanguageModel;
+  let mockLogger: LoggerMethods;
+  let splitter: SubFigureSplitter;
+
+  const ok = (stdout = ''): SpawnResult => ({ stdout, stderr: '', code: 0 });
+
+  /** Answer ImageMagick calls: identify, PGM sample, then crops */
+  const mockMagick = (
+    overrides: {
+      identify?: SpawnResult;
+      sample?: SpawnResult;
+      crop?: SpawnResult[];
+    } = {},
+  ) => {
+    const crops = [...(overrides.crop ?? [])];
+    mockSpawnAsync.mockImplementation(async (_command, args) => {
+      if (args[0] === 'identify') {
+        return overrides.identify ?? ok('400 200');
+      }
+      if (args.includes('pgm:-')) {
+        return overrides.sample ?? ok(TWO_CELL_PGM);
+      }
+      return crops.shift() ?? ok();
+    });
+  };
+
+  const mockVisionOutput = (output: SubFigureConfirmationResult) => {
+    mockCallVision.mockResolvedValueOnce({
+      output,
+      usage: {
+        component: 'SubFigureSplitter',
+        phase: 'confirmation',
+        model: 'primary',
+        modelName: 'test-model',
+        inputTokens: 1000,
+        outputTokens: 50,
+        totalTokens: 1050,
+      },
+      usedFallback: false,
+    });
+  };
+
+  const createPlate = (
+    fullText = '도판 1 1호 주거지 ① 전경 ② 노출 상태',
+  ): ProcessedImage => ({
+    id: 'img-001',
+    pdfPageNo: 3,
+    path: '/output/images/image_0.png',
+    caption: { num: '도판 1', fullText },
+  });
+
+  /** Arguments of ImageMagick crop calls */
+  const cropCalls = () =>
+    mockSpawnAsync.mock.calls
+      .map(([, args]) => args)
+      .filter((args) => args.includes('-crop'));
+
+  beforeEach(() => {
+    mockCallVision.mockReset();
+    mockSpawnAsync.mockReset();
+    mockRmSync.mockReset();
+    mockReadFileSync.mockReset();
+    mockReadFileSync.mockReturnValue(Buffer.from('fake-image-data'));
+
+    mockModel = { modelId: 'test-model' } as LanguageModel;
+    mockLogger = {
+      info: vi.fn(),
+      warn: vi.fn(),
+      error: vi.fn(),
+      debug: vi.fn(),
+    };
+
+    splitter = new SubFigureSplitter(mockLogger, mockModel, '/output');
+  });
+
+  describe('SubFigureConfirmationSchema', () => {
+    test('accepts regions without a label', () => {
+      const output = {
+        isComposite: true,
+        regions: [{ index: 0, label: null }],
+      };
+
+      expect(SubFigureConfirmationSchema.parse(output)).toEqual(output);
+    });
+  });
+
+  describe('split', () => {
+    test('splits a labelled plate into cropped sub-figures', async () => {
+      mockMagick();
+      // Labels printed right to left
+      mockVisionOutput({
+        isComposite: true,
+        regions: [
+          { index: 0, label: '②' },
+          { index: 1, label: ' ① ' },
+        ],
+      });
+      const image = createPlate();
+
+      await splitter.split([image]);
+
+      expect(image.subFigures).toEqual([
+        {
+          id: 'img-001-1',
+          label: '①',
+          caption: { fullText: '전경' },
+          bbox: { left: 0.55, top: 0, right: 1, bottom: 1 },
+          path: '/output/images/image_0_sub1.png',
+        },
+        {
+          id: 'img-001-2',
+          label: '②',
+          caption: { fullText: '노출 상태' },
+          bbox: { left: 0, top: 0, right: 0.45, bottom: 1 },
+          path: '/output/images/image_0_sub2.png',
+        },
+      ]);
+      expect(cropCalls()).toEqual([
+        [
+          '/output/images/image_0.png',
+          '-crop',
+          '180x200+220+0',
+          '+repage',
+          '/output/images/image_0_sub1.png',
+        ],
+        [
+          '/output/images/image_0.png',
+          '-crop',
+          '180x200+0+0',
+          '+repage',
+          '/output/images/image_0_sub2.png',
+        ],
+      ]);
+      const [text] = mockCallVision.mock.calls[0][0].messages[0]
+        .content as Array<{ text: string }>;
+      expect(text.text).toContain(
+        'Caption labels:\n- ①: 전경\n- ②: 노출 상태\n\nProposed regions:\n- Region 0: left 0, top 0, right 0.45, bottom 1\n- Region 1: left 0.55, top 0, right 1, bottom 1',
+      );
+      expect(mockCallVision).toHaveBeenCalledWith(
+        expect.objectContaining({
+          component: 'SubFigureSplitter',
+          phase: 'confirmation',
+        }),
+      );
+      expect(mockLogger.info).toHaveBeenCalledWith(
+        '[SubFigureSplitter] Split 1 images into sub-figures',
+      );
+    });
+
+    test('labels cells in reading order when the vision LLM reads none', async () => {
+      mockMagick();
+      mockVisionOutput({
+        isComposite: true,
+        regions: [{ index: 0, label: null }],
+      });
+      const image = {
+        ...createPlate('1. 2.'),
+        caption: { fullText: '1. 2.' },
+        path: 'output/images/image_0.png',
+      };
+
+      await splitter.split([image]);
+
+      expect(image.subFigures).toEqual([
+        {
+          id: 'img-001-1',
+          label: '1',
+          bbox: { left: 0, top: 0, right: 0.45, bottom: 1 },
+          path: 'output/images/image_0_sub1.png',
+        },
+        {
+          id: 'img-001-2',
+          label: '2',
+          bbox: { left: 0.55, top: 0, right: 1, bottom: 1 },
+          path: 'output/images/image_0_sub2.png',
+        },
+      ]);
+      expect(mockReadFileSync).toHaveBeenCalledWith(
+        path.resolve('output/images/image_0.png'),
+      );
+    });
+
+    test('leaves images unsplit when cells cannot be labelled', async () => {
+      mockMagick();
+      mockVisionOutput({
+        isComposite: true,
+        regions: [
+          { index: 0, label: '①' },
+          { index: 1, label: null },
+        ],
+      });
+      const image = createPlate('① 토기 ② 석기 ③ 철기');
+
+      await splitter.split([image]);
+
+      expect(image).not.toHaveProperty('subFigures');
+      expect(mockLogger.info).toHaveBeenCalledWith(
+        '[SubFigureSplitter] Only 1 sub-figures of img-001 could be labelled',
+      );
+    });
+
+    test('skips captions without labels and images past the limit', async () => {
+      splitter = new SubFigureSplitter(mockLogger, mockModel, '/output', {
+        maxImages: 0,
+      });
+      const images: ProcessedImage[] = [
+        createPlate(),
+        { ...createPlate('도판 2 유적 전경'), id: 'img-002' },
+        { id: 'img-003', pdfPageNo: 1, path: '/output/images/image_2.png' },
+      ];
+
+      await splitter.split(images);
+
+      expect(mockSpawnAsync).not.toHaveBeenCalled();
+      expect(mockLogger.info).toHaveBeenCalledWith(
+        '[SubFigureSplitter] Found 1 of 3 images with labelled sub-figure captions',
+      );
+      expect(mockLogger.warn).toHaveBeenCalledWith(
+        '[SubFigureSplitter] Leaving 1 images unsplit (maxImages: 0)',
+      );
+    });
+
+    test('skips images that already have sub-figures', async () => {
+      const subFigures = [
+        {
+          id: 'img-001-1',
+          label: '①',
+          bbox: { left: 0, top: 0, right: 1, bottom: 1 },
+          path: '/output/images/image_1.png',
+        },
+      ];
+      const image = { ...createPlate(), subFigures };
+
+      await splitter.split([image]);
+
+      expect(image.subFigures).toBe(subFigures);
+      expect(mockSpawnAsync).not.toHaveBeenCalled();
+      expect(mockLogger.info).toHaveBeenCalledWith(
+        '[SubFigureSplitter] Found 0 of 1 images with labelled sub-figure captions',
+      );
+    });
+
+    test('leaves images without whitespace gutters unsplit', async () => {
+      mockMagick({ sample: ok('P2\n2 2\n255\n0 0 0 0') });
+      const image = createPlate();
+
+      await splitter.split([image]);
+
+      expect(image).not.toHaveProperty('subFigures');
+      expect(mockCallVision).not.toHaveBeenCalled();
+      expect(mockLogger.info).toHaveBeenCalledWith(
+        '[SubFigureSplitter] No whitespace gutters in img-001 (2 caption labels)',
+      );
+    });
+
+    test('leaves images unsplit when the vision LLM rejects the split', async () => {
+      mockMagick();
+      mockVisionOutput({ isComposite: false, regions: [] });
+      const image = createPlate();
+
+      await splitter.split([image]);
+
+      expect(image).not.toHaveProperty('subFigures');
+      expect(cropCalls()).toEqual([]);
+      expect(mockLogger.info).toHaveBeenCalledWith(
+        '[SubFigureSplitter] Vision LLM rejected the split of img-001',
+      );
+    });
+
+    test('removes written crops when a later crop fails', async () => {
+      mockMagick({
+        crop: [ok(), { stdout: '', stderr: 'no space', code: 1 }],
+      });
+      mockVisionOutput({ isComposite: true, regions: [] });
+      const image = createPlate();
+
+      await splitter.split([image]);
+
+      expect(image).not.toHaveProperty('subFigures');
+      expect(mockRmSync).toHaveBeenCalledWith(
+        '/output/images/image_0_sub1.png',
+        { force: true },
+      );
+      expect(mockLogger.warn).toHaveBeenCalledWith(
+        '[SubFigureSplitter] Failed to crop img-001: no space',
+      );
+    });
+
+    test('leaves images unsplit when ImageMagick cannot read them', async () => {
+      mockMagick({ identify: { stdout: '', stderr: '', code: 1 } });
+      const unreadable = createPlate();
+
+      await splitter.split([unreadable]);
+
+      expect(unreadable).not.toHaveProperty('subFigures');
+      expect(mockLogger.warn).toHaveBeenCalledWith(
+        '[SubFigureSplitter] Failed to identify /output/images/image_0.png: Unknown error',
+      );
+
+      mockMagick({ sample: ok('P5 binary') });
+      await splitter.split([createPlate()]);
+
+      expect(mockLogger.warn).toHaveBeenCalledWith(
+        '[SubFigureSplitter] Failed to sample /output/images/image_0.png: Unknown error',
+      );
+
+      mockSpawnAsync.mockRejectedValue(new Error('spawn magick ENOENT'));
+      await splitter.split([createPlate()]);
+
+      expect(mockLogger.warn).toHaveBeenCalledWith(
+        '[SubFigureSplitter] Failed to identify /output/images/image_0.png: spawn magick ENOENT',
+      );
+      mockSpawnAsync.mockRejectedValue('killed');
+      await splitter.split([createPlate()]);
+
+      expect(mockLogger.warn).toHaveBeenCalledWith(
+        '[SubFigureSplitter] Failed to identify /output/images/image_0.png: killed',
+      );
+      expect(mockCallVision).not.toHaveBeenCalled();
+    });
+
+    test('leaves images unsplit when the vision call fails', async () => {
+      mockMagick();
+      const error = new Error('LLM unavailable');
+      mockCallVision.mockRejectedValueOnce(error);
+      const image = createPlate();
+
+      await splitter.split([image]);
+
+      expect(image).not.toHaveProperty('subFigures');
+      expect(mockLogger.warn).toHaveBeenCalledWith(
+        '[SubFigureSplitter] Vision confirmation failed for img-001:',
+        error,
+      );
+    });
+
+    test('rethrows vision errors after abort', async () => {
+      const controller = new AbortController();
+      splitter = new SubFigureSplitter(mockLogger, mockModel, '/output', {
+        abortSignal: controller.signal,
+      });
+      mockMagick();
+      const error = new Error('aborted');
+      mockCallVision.mockImplementationOnce(async () => {
+        controller.abort();
+        throw error;
+      });
+
+      await expect(splitter.split([createPlate()])).rejects.toBe(error);
+    });
+  });
+});
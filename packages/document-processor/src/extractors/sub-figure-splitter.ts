@@ -0,0 +1,393 @@
+import type { LoggerMethods } from '@heripo/logger';
+import type {
+  ProcessedImage,
+  ProcessedSubFigure,
+  RelativeBoundingBox,
+} from '@heripo/model';
+import type { LLMTokenUsageAggregator } from '@heripo/shared';
+import type { LanguageModel } from 'ai';
+
+import type { GraySample, SubFigureLabel } from '../utils';
+
+import { rmSync } from 'node:fs';
+import * as path from 'node:path';
+import { z } from 'zod';
+
+import {
+  VisionLLMComponent,
+  type VisionLLMComponentOptions,
+} from '../core/vision-llm-component';
+import {
+  findWhitespaceCells,
+  parseSubFigureLabels,
+  readGraySample,
+  resolveImagePath,
+  runMagick,
+} from '../utils';
+
+/**
+ * Schema for vision-based sub-figure confirmation response
+ */
+export const SubFigureConfirmationSchema = z.object({
+  isComposite: z
+    .boolean()
+    .describe('Whether the image is a plate of separate sub-figures'),
+  regions: z.array(
+    z.object({
+      index: z.number().int().describe('Index of the proposed region'),
+      label: z
+        .string()
+        .nullable()
+        .describe(
+          'Label of the sub-figure in this region (e.g. "①", "1"); null when none fits',
+        ),
+    }),
+  ),
+});
+
+export type SubFigureConfirmationResult = z.infer<
+  typeof SubFigureConfirmationSchema
+>;
+
+/**
+ * Options for SubFigureSplitter
+ */
+export interface SubFigureSplitterOptions extends VisionLLMComponentOptions {
+  /**
+   * Side of the grayscale sample analyzed for whitespace gutters, in pixels
+   * (default: 128)
+   */
+  sampleSize?: number;
+
+  /**
+   * Maximum number of images sent to the vision LLM per document (default: 50)
+   */
+  maxImages?: number;
+}
+
+/**
+ * Width and height of an image file in pixels
+ */
+interface ImageDimensions {
+  width: number;
+  height: number;
+}
+
+/**
+ * Sub-figure proposed from the whitespace gutters and caption labels
+ */
+interface SubFigureCandidate {
+  label: SubFigureLabel;
+  bbox: RelativeBoundingBox;
+}
+
+/**
+ * SubFigureSplitter
+ *
+ * Splits composite plates (도판) packing several photos labelled ①②③ or
+ * 1·2·3 under one caption into `ProcessedImage.subFigures`, each with its
+ * own crop, bounding box, label and caption fragment.
+ *
+ * ## Splitting
+ *
+ * 1. The caption must list at least two labels numbered from 1
+ *    (`parseSubFigureLabels`); other images are left alone.
+ * 2. A grayscale sample of the image is cut at whitespace gutters into
+ *    cells (`findWhitespaceCells`), in reading order.
+ * 3. A vision LLM confirms that the image is composite and reads the label
+ *    of each cell. Cells it cannot label take the caption labels in reading
+ *    order when the counts match.
+ * 4. Each labelled cell is cropped next to the parent image file.
+ *
+ * Images are updated in place. An image is left unsplit when fewer than two
+ * cells are labelled or any step fails. Images that already have sub-figures,
+ * such as reviewed picture splits, are skipped.
+ */
+export class SubFigureSplitter extends VisionLLMComponent {
+  private readonly sampleSize: number;
+  private readonly maxImages: number;
+
+  constructor(
+    logger: LoggerMethods,
+    model: LanguageModel,
+    artifactDir: string,
+    options?: SubFigureSplitterOptions,
+    fallbackModel?: LanguageModel,
+    aggregator?: LLMTokenUsageAggregator,
+  ) {
+    super(
+      logger,
+      model,
+      'SubFigureSplitter',
+      artifactDir,
+      options,
+      fallbackModel,
+      aggregator,
+    );
+    this.sampleSize = options?.sampleSize ?? 128;
+    this.maxImages = options?.maxImages ?? 50;
+  }
+
+  /**
+   * Split composite images into sub-figures
+   *
+   * @param images - Converted images, updated in place
+   */
+  async split(images: ProcessedImage[]): Promise<void> {
+    const composites = images.flatMap((image) => {
+      if (image.subFigures) {
+        return [];
+      }
+      const labels = image.caption
+        ? parseSubFigureLabels(image.caption.fullText, image.caption.num)
+        : [];
+      return labels.length >= 2 ? [{ image, labels }] : [];
+    });
+    this.log(
+      'info',
+      `Found ${composites.length} of ${images.length} images with labelled sub-figure captions`,
+    );
+
+    if (composites.length > this.maxImages) {
+      this.log(
+        'warn',
+        `Leaving ${composites.length - this.maxImages} images unsplit (maxImages: ${this.maxImages})`,
+      );
+    }
+
+    let splitCount = 0;
+    for (const { image, labels } of composites.slice(0, this.maxImages)) {
+      const subFigures = await this.splitImage(image, labels);
+      if (subFigures) {
+        image.subFigures = subFigures;
+        splitCount++;
+      }
+    }
+
+    this.log('info', `Split ${splitCount} images into sub-figures`);
+  }
+
+  /**
+   * Split one image
+   *
+   * @returns Sub-figures, or undefined when the image is left unsplit
+   */
+  private async splitImage(
+    image: ProcessedImage,
+    labels: SubFigureLabel[],
+  ): Promise<ProcessedSubFigure[] | undefined> {
+    const imagePath = resolveImagePath(image.path);
+    const dims = await this.readDimensions(imagePath);
+    const sample = dims && (await this.readSample(imagePath));
+    if (!dims || !sample) {
+      return undefined;
+    }
+
+    const cells = findWhitespaceCells(sample);
+    if (cells.length < 2) {
+      this.log(
+        'info',
+        `No whitespace gutters in ${image.id} (${labels.length} caption labels)`,
+      );
+      return undefined;
+    }
+
+    let confirmation: SubFigureConfirmationResult;
+    try {
+      confirmation = await this.confirmByVision(imagePath, labels, cells);
+    } catch (error) {
+      if (this.abortSignal?.aborted) {
+        throw error;
+      }
+      this.log('warn', `Vision confirmation failed for ${image.id}:`, error);
+      return undefined;
+    }
+
+    if (!confirmation.isComposite) {
+      this.log('info', `Vision LLM rejected the split of ${image.id}`);
+      return undefined;
+    }
+
+    const candidates = SubFigureSplitter.assignLabels(
+      labels,
+      cells,
+      confirmation,
+    );
+    if (candidates.length < 2) {
+      this.log(
+        'info',
+        `Only ${candidates.length} sub-figures of ${image.id} could be labelled`,
+      );
+      return undefined;
+    }
+
+    return await this.writeCrops(image, imagePath, dims, candidates);
+  }
+
+  /**
+   * Ask the vision LLM to confirm the split and read the cell labels
+   */
+  private async confirmByVision(
+    imagePath: string,
+    labels: SubFigureLabel[],
+    cells: RelativeBoundingBox[],
+  ): Promise<SubFigureConfirmationResult> {
+    const { output } = await this.callVisionLLM(
+      SubFigureConfirmationSchema,
+      [
+        {
+          role: 'user',
+          content: [
+            {
+              type: 'text',
+              text: `${this.buildSystemPrompt()}\n\n${this.buildUserPrompt(labels, cells)}`,
+            },
+            this.buildImageContent(imagePath),
+          ],
+        },
+      ],
+      'confirmation',
+    );
+    return output;
+  }
+
+  /**
+   * Pair cells with caption labels, preferring the label the vision LLM read
+   *
+   * @returns Labelled cells in caption label order
+   */
+  private static assignLabels(
+    labels: SubFigureLabel[],
+    cells: RelativeBoundingBox[],
+    confirmation: SubFigureConfirmationResult,
+  ): SubFigureCandidate[] {
+    const byLabel = new Map(labels.map((label) => [label.label, label]));
+    const read = new Map(
+      confirmation.regions.map(({ index, label }) => [index, label]),
+    );
+    const assigned = new Map<SubFigureLabel, RelativeBoundingBox>();
+
+    cells.forEach((bbox, index) => {
+      const readLabel = byLabel.get(read.get(index)?.trim() ?? '');
+      const label =
+        readLabel ??
+        (cells.length === labels.length ? labels[index] : undefined);
+      if (label && !assigned.has(label)) {
+        assigned.set(label, bbox);
+      }
+    });
+
+    return labels.flatMap((label) => {
+      const bbox = assigned.get(label);
+      return bbox ? [{ label, bbox }] : [];
+    });
+  }
+
+  /**
+   * Crop each sub-figure next to the parent image file
+   *
+   * @returns Sub-figures, or undefined (with created crops removed) when a crop fails
+   */
+  private async writeCrops(
+    image: ProcessedImage,
+    imagePath: string,
+    dims: ImageDimensions,
+    candidates: SubFigureCandidate[],
+  ): Promise<ProcessedSubFigure[] | undefined> {
+    const { dir, name } = path.parse(image.path);
+    const subFigures: ProcessedSubFigure[] = [];
+
+    for (const [index, { label, bbox }] of candidates.entries()) {
+      const cropPath = path.join(dir, `${name}_sub${index + 1}.png`);
+      const x = Math.round(bbox.left * dims.width);
+      const y = Math.round(bbox.top * dims.height);
+      const width = Math.max(1, Math.round(bbox.right * dims.width) - x);
+      const height = Math.max(1, Math.round(bbox.bottom * dims.height) - y);
+
+      const result = await runMagick([
+        imagePath,
+        '-crop',
+        `${width}x${height}+${x}+${y}`,
+        '+repage',
+        resolveImagePath(cropPath),
+      ]);
+      if (result.code !== 0) {
+        this.log('warn', `Failed to crop ${image.id}: ${result.stderr}`);
+        subFigures.forEach((subFigure) =>
+          rmSync(resolveImagePath(subFigure.path), { force: true }),
+        );
+        return undefined;
+      }
+
+      subFigures.push({
+        id: `${image.id}-${index + 1}`,
+        label: label.label,
+        ...(label.text ? { caption: { fullText: label.text } } : {}),
+        bbox,
+        path: cropPath,
+      });
+    }
+
+    return subFigures;
+  }
+
+  /**
+   * Read the pixel size of an image file
+   */
+  private async readDimensions(
+    imagePath: string,
+  ): Promise<ImageDimensions | undefined> {
+    const result = await runMagick(['identify', '-format', '%w %h', imagePath]);
+    const match = result.stdout.trim().match(/^(\d+) (\d+)$/);
+    if (result.code !== 0 || !match) {
+      this.log('warn', `Failed to identify ${imagePath}: ${result.stderr}`);
+      return undefined;
+    }
+    return { width: Number(match[1]), height: Number(match[2]) };
+  }
+
+  /**
+   * Read a square grayscale sample of an image file
+   */
+  private async readSample(imagePath: string): Promise<GraySample | undefined> {
+    const sample = await readGraySample(
+      imagePath,
+      this.sampleSize,
+      this.sampleSize,
+    );
+    if (typeof sample === 'string') {
+      this.log('warn', `Failed to sample ${imagePath}: ${sample}`);
+      return undefined;
+    }
+    return sample;
+  }
+
+  /**
+   * Build system prompt for the vision LLM
+   */
+  protected buildSystemPrompt(): string {
+    return `You are checking composite plates (도판) of a Korean archaeological excavation report. A plate packs several photos or drawings under one caption, each marked with a label such as ①, ② or 1, 2 printed in or next to it.
+
+## Task:
+The image was cut at its whitespace gaps into the proposed regions below, given as fractions of the image width and height (0 = left/top, 1 = right/bottom).
+1. Decide whether the image really is a plate of separate sub-figures matching the regions (isComposite). A single photo with a white background or a drawing with separate parts is not composite
+2. For each region, return the label of the sub-figure it holds, chosen from the caption labels. Return null when no label is printed or one region holds several labelled sub-figures`;
+  }
+
+  /**
+   * Build user prompt with the caption labels and the proposed regions
+   */
+  protected buildUserPrompt(
+    labels: SubFigureLabel[],
+    cells: RelativeBoundingBox[],
+  ): string {
+    const labelLines = labels.map(
+      ({ label, text }) => `- ${label}${text ? `: ${text}` : ''}`,
+    );
+    const cellLines = cells.map(
+      ({ left, top, right, bottom }, index) =>
+        `- Region ${index}: left ${left}, top ${top}, right ${right}, bottom ${bottom}`,
+    );
+    return `Caption labels:\n${labelLines.join('\n')}\n\nProposed regions:\n${cellLines.join('\n')}`;
+  }
+}
@@ -6,19 +6,44 @@
  * ## Key Features
  *
  * - TOC extraction and structuring (LLM-based)
+ * - PDF outline (bookmarks) as a TOC source cross-checked against the printed TOC
+ * - Heading-based chapter inference for reports without a TOC
  * - Page range mapping (Vision LLM)
  * - Text cleaning and sentence merging (lightweight LLM)
  * - Caption parsing (lightweight LLM)
+ * - Figure type classification of images (Vision LLM)
+ * - Sub-figure splitting of composite plates (Vision LLM)
+ * - Perceptual-hash deduplication of repeated and decorative images
  * - Chapter tree construction
  * - Image/table conversion
+ * - Page-spanning table linking and merging
+ * - Markdown, HTML and JSONL chunk export
+ * - Table export to CSV, XLSX and tidy JSON records
+ * - Resumable runs with per-stage checkpoints
+ * - Content-hash IDs and ID mapping between runs
+ * - Diffing two ProcessedDocument versions (API and `heripo-diff` CLI)
+ * - Record/replay of LLM calls with cassette files
  *
  * @packageDocumentation
  */
 
 export {
+  DOCUMENT_PROCESSOR_STAGES,
   DocumentProcessor,
   PROCESSED_DOCUMENT_SCHEMA_VERSION,
 } from './document-processor';
+export {
+  DocumentProcessorCheckpointStore,
+  computeDoclingSha256,
+} from './document-processor-checkpoint-store';
+export type {
+  DocumentProcessorCheckpoint,
+  DocumentProcessorCheckpointImageClassification,
+  DocumentProcessorCheckpointResources,
+  DocumentProcessorCheckpointStage,
+  DocumentProcessorCheckpointSubFigures,
+  DocumentProcessorCheckpointToc,
+} from './document-processor-checkpoint-store';
 export { BaseLLMComponent, TextLLMComponent, VisionLLMComponent } from './core';
 export type {
   BaseLLMComponentOptions,
@@ -28,9 +53,18 @@ export type {
 export type {
   DocumentProcessorOptions,
   DocumentProcessorProcessOptions,
+  DocumentProcessorStage,
+  DocumentProcessorStageEvent,
   SourceRefValidationMode,
 } from './document-processor';
-export type { TocEntry, TocAreaResult, PageSizeGroup } from './types';
+export type {
+  TocEntry,
+  TocAreaResult,
+  PageSizeGroup,
+  TableContinuationLink,
+  PictureSplit,
+  PictureSplitRegion,
+} from './types';
 export {
   CaptionParser,
   CaptionParseError,
@@ -52,6 +86,18 @@ export {
   TocResponseSchema,
   VisionTocExtractor,
   VisionTocExtractionSchema,
+  HeadingTocBuilder,
+  HEADING_NUMBERING_PATTERNS,
+  OutlineTocBuilder,
+  SubDocumentDetector,
+  ReportMetadataExtractor,
+  ReportMetadataExtractionSchema,
+  ResourceIndexParser,
+  ImageClassifier,
+  ImageClassificationSchema,
+  FIGURE_TYPES,
+  SubFigureSplitter,
+  SubFigureConfirmationSchema,
 } from './extractors';
 export type {
   TocFinderOptions,
@@ -59,6 +105,19 @@ export type {
   TocResponse,
   VisionTocExtractorOptions,
   VisionTocExtractionResult,
+  HeadingNumberingPattern,
+  HeadingTocBuilderOptions,
+  OutlineTocBuilderOptions,
+  SubDocumentDetectorOptions,
+  SubDocumentSegment,
+  SubDocumentSignal,
+  ReportMetadataExtractorOptions,
+  ReportMetadataExtractionResult,
+  ResourceIndexParserOptions,
+  ImageClassifierOptions,
+  ImageClassificationResult,
+  SubFigureSplitterOptions,
+  SubFigureConfirmationResult,
 } from './extractors';
 export {
   BaseValidator,
@@ -73,11 +132,75 @@ export type {
   TocContentValidationResult,
   CaptionValidatorOptions,
 } from './validators';
-export { ChapterConverter, ResourceConverter } from './converters';
+export {
+  ChapterConverter,
+  CrossReferenceResolver,
+  ImageDeduplicator,
+  PictureSplitMerger,
+  ResourceConverter,
+  ResourceIndexReconciler,
+  TableContinuationMerger,
+} from './converters';
+export type {
+  ImageDeduplicatorOptions,
+  ResourceConversionOptions,
+} from './converters';
+export {
+  ChunkExporter,
+  DocumentExporter,
+  HtmlExporter,
+  MarkdownExporter,
+  TableExporter,
+} from './exporters';
+export type {
+  ChunkExporterOptions,
+  DocumentChunk,
+  DocumentExporterOptions,
+  ExportFormat,
+  HtmlExporterOptions,
+  ImageExclusion,
+  MarkdownExporterOptions,
+  TableColumn,
+  TableColumnType,
+  TableExportFormat,
+  TableExporterOptions,
+  TableRecord,
+  TableRecordValue,
+  TidyTable,
+} from './exporters';
+export { DiffHtmlReporter, diffProcessedDocuments } from './diff';
+export type {
+  DiffFieldChange,
+  DiffFieldValue,
+  DiffHtmlReporterOptions,
+  DiffKindSummary,
+  DiffMatchMethod,
+  DiffNode,
+  DiffNodeKind,
+  DiffNodeStatus,
+  ProcessedDocumentDiff,
+  ProcessedDocumentDiffOptions,
+  TableCellEdit,
+} from './diff';
 export { CaptionProcessingPipeline, TocExtractionPipeline } from './pipelines';
 export type {
   CaptionProcessingPipelineDeps,
   CaptionSourceExtraction,
+  TocExtractionInput,
   TocExtractionPipelineDeps,
 } from './pipelines';
-export { extractMaxPageNumber } from './utils';
+export { buildIdMappingReport, extractMaxPageNumber } from './utils';
+export type {
+  IdMapping,
+  IdMappingReport,
+  IdMappingSection,
+  IdMatchMethod,
+  IdStrategy,
+} from './utils';
+export { LLMCassette, LLMCassetteMissError } from '@heripo/shared';
+export type {
+  LLMCassetteFile,
+  LLMCassetteInteraction,
+  LLMCassetteKey,
+  LLMCassetteMode,
+} from '@heripo/shared';
@@ -1,5 +1,5 @@
 import type { LoggerMethods } from '@heripo/logger';
-import type { DoclingDocument, DoclingPage } from '@heripo/model';
+import type { DoclingDocument, DoclingPage, PageRange } from '@heripo/model';
 import type { LanguageModel } from 'ai';
 
 import { LLMCaller } from '@heripo/shared';
@@ -1575,6 +1575,461 @@ describe('PageRangeParser', () => {
     });
   });
 
+  describe('page number sequences', () => {
+    type PrintedPage = {
+      startPageNo: number | null;
+      endPageNo: number | null;
+      startLabel: string | null;
+      endLabel: string | null;
+    };
+
+    const printed = (
+      startPageNo: number | null,
+      startLabel: string | null = startPageNo === null
+        ? null
+        : String(startPageNo),
+      endPageNo: number | null = null,
+      endLabel: string | null = null,
+    ): PrintedPage => ({ startPageNo, endPageNo, startLabel, endLabel });
+
+    const mockPrintedPages = (
+      printedPage: (pdfPageNo: number) => PrintedPage,
+    ) =>
+      mockCallVision.mockImplementation(async ({ messages }) => {
+        const textContent = messages[0].content.find(
+          (c: any) => c.type === 'text',
+        );
+        const sampledPages: number[] = textContent.text
+          .match(/PDF pages: ([\d, ]+)/)[1]
+          .split(', ')
+          .map(Number);
+        return {
+          output: {
+            pages: sampledPages.map((pageNo, idx) => ({
+              imageIndex: idx,
+              ...printedPage(pageNo),
+            })),
+          },
+          usage: {
+            component: 'PageRangeParser',
+            phase: 'sampling',
+            model: 'primary',
+            modelName: 'test-model',
+            inputTokens: 300,
+            outputTokens: 30,
+            totalTokens: 330,
+          },
+          usedFallback: false,
+        };
+      });
+
+    // PDF 1: cover, PDF 2-5: i-iv, PDF 6-20: 1-15
+    const frontMatterReport = (pdfPageNo: number): PrintedPage => {
+      if (pdfPageNo === 1) return printed(null);
+      if (pdfPageNo <= 5) {
+        const label = ['i', 'ii', 'iii', 'iv'][pdfPageNo - 2];
+        return printed(pdfPageNo - 1, label);
+      }
+      return printed(pdfPageNo - 5);
+    };
+
+    test('keeps Roman labels and ordinals for a small group', async () => {
+      mockPrintedPages((pdfPageNo) =>
+        printed(pdfPageNo, ['I', 'II', 'III'][pdfPageNo - 1]),
+      );
+
+      const result = await parser.parse(createMockDocument(3));
+
+      expect(result.pageRangeMap).toEqual({
+        1: {
+          startPageNo: 1,
+          endPageNo: 1,
+          numeralSystem: 'roman',
+          startLabel: 'I',
+          endLabel: 'I',
+        },
+        2: {
+          startPageNo: 2,
+          endPageNo: 2,
+          numeralSystem: 'roman',
+          startLabel: 'II',
+          endLabel: 'II',
+        },
+        3: {
+          startPageNo: 3,
+          endPageNo: 3,
+          numeralSystem: 'roman',
+          startLabel: 'III',
+          endLabel: 'III',
+        },
+      });
+    });
+
+    test('normalizes CJK labels of double-sided scans', async () => {
+      const labels = ['一', '二', '三', '四', '五', '六'];
+      mockPrintedPages((pdfPageNo) =>
+        printed(
+          // The LLM's own numbers are ignored in favor of the printed labels
+          null,
+          labels[pdfPageNo * 2 - 2],
+          null,
+          pdfPageNo === 3 ? 'x' : labels[pdfPageNo * 2 - 1],
+        ),
+      );
+
+      const result = await parser.parse(createMockDocument(3));
+
+      expect(result.pageRangeMap[1]).toEqual({
+        startPageNo: 1,
+        endPageNo: 2,
+        numeralSystem: 'cjk',
+        startLabel: '一',
+        endLabel: '二',
+      });
+      expect(result.pageRangeMap[2]).toEqual({
+        startPageNo: 3,
+        endPageNo: 4,
+        numeralSystem: 'cjk',
+        startLabel: '三',
+        endLabel: '四',
+      });
+      // An end label in another numeral system is dropped
+      expect(result.pageRangeMap[3]).toEqual({
+        startPageNo: 5,
+        endPageNo: 5,
+        numeralSystem: 'cjk',
+        startLabel: '五',
+        endLabel: '五',
+      });
+    });
+
+    test('detects a switch from Roman to Arabic numbering in one group', async () => {
+      mockPrintedPages(frontMatterReport);
+      vi.spyOn(parser as any, 'selectRandomSamples').mockReturnValueOnce([
+        3, 8, 15,
+      ]);
+
+      const result = await parser.parse(createMockDocument(20));
+
+      expect(result.pageRangeMap[1]).toEqual({ startPageNo: 0, endPageNo: 0 });
+      expect(result.pageRangeMap[2]).toEqual({
+        startPageNo: 1,
+        endPageNo: 1,
+        numeralSystem: 'roman',
+        startLabel: 'i',
+        endLabel: 'i',
+      });
+      expect(result.pageRangeMap[5]).toEqual({
+        startPageNo: 4,
+        endPageNo: 4,
+        numeralSystem: 'roman',
+        startLabel: 'iv',
+        endLabel: 'iv',
+      });
+      expect(result.pageRangeMap[6]).toEqual({ startPageNo: 1, endPageNo: 1 });
+      expect(result.pageRangeMap[20]).toEqual({
+        startPageNo: 15,
+        endPageNo: 15,
+      });
+      expect(result.usage).toHaveLength(1);
+      expect(logger.info).toHaveBeenCalledWith(
+        '[PageRangeParser] Numeral switch detected: roman -> arabic at PDF 6',
+      );
+      expect(logger.info).toHaveBeenCalledWith(
+        '[PageRangeParser] Pattern detected: roman simple_increment (offset=-1, increment=1)',
+      );
+      expect(logger.info).toHaveBeenCalledWith(
+        '[PageRangeParser] Post-processing 5 roman pages separately',
+      );
+    });
+
+    test('keeps sampling until both numeral systems have a pattern', async () => {
+      mockPrintedPages(frontMatterReport);
+      vi.spyOn(parser as any, 'selectRandomSamples')
+        .mockReturnValueOnce([1, 3, 9])
+        .mockReturnValueOnce([12, 15, 18]);
+
+      const result = await parser.parse(createMockDocument(20));
+
+      expect(result.usage).toHaveLength(2);
+      expect(result.pageRangeMap[3]).toMatchObject({
+        startPageNo: 2,
+        startLabel: 'ii',
+      });
+      expect(result.pageRangeMap[9]).toEqual({ startPageNo: 4, endPageNo: 4 });
+    });
+
+    test('places the switch after the last front matter sample', async () => {
+      // Body numbering continues the front matter count (PDF 6 = 5)
+      mockPrintedPages((pdfPageNo) =>
+        pdfPageNo <= 5 ? frontMatterReport(pdfPageNo) : printed(pdfPageNo - 1),
+      );
+      vi.spyOn(parser as any, 'selectRandomSamples').mockReturnValueOnce([
+        2, 4, 10, 14,
+      ]);
+
+      const result = await parser.parse(createMockDocument(20));
+
+      expect(result.pageRangeMap[4]).toMatchObject({ startLabel: 'iii' });
+      expect(result.pageRangeMap[5]).toEqual({ startPageNo: 4, endPageNo: 4 });
+    });
+
+    test('switches at the first Arabic sample of double-sided body pages', () => {
+      const patterns = (parser as any).detectSequencePatterns([
+        {
+          pdfPageNo: 2,
+          startPageNo: 1,
+          endPageNo: 2,
+          numeralSystem: 'roman',
+          upperCase: false,
+        },
+        {
+          pdfPageNo: 4,
+          startPageNo: 1,
+          endPageNo: 2,
+          numeralSystem: 'arabic',
+          upperCase: false,
+        },
+        {
+          pdfPageNo: 6,
+          startPageNo: 5,
+          endPageNo: 6,
+          numeralSystem: 'arabic',
+          upperCase: false,
+        },
+      ]);
+
+      expect(patterns).toEqual([
+        {
+          pattern: 'double_sided',
+          offset: -3,
+          increment: 2,
+          numeralSystem: 'roman',
+          upperCase: false,
+          fromPdfPageNo: 1,
+        },
+        {
+          pattern: 'double_sided',
+          offset: -7,
+          increment: 2,
+          numeralSystem: 'arabic',
+          upperCase: false,
+          fromPdfPageNo: 4,
+        },
+      ]);
+    });
+
+    test('returns null for unusable numeral runs', () => {
+      const sample = (
+        pdfPageNo: number,
+        startPageNo: number,
+        numeralSystem: string,
+      ) => ({
+        pdfPageNo,
+        startPageNo,
+        endPageNo: null,
+        numeralSystem,
+        upperCase: false,
+      });
+      const detect = (samples: unknown[]) =>
+        (parser as any).detectSequencePatterns(samples);
+
+      // Three runs
+      expect(
+        detect([
+          sample(1, 1, 'roman'),
+          sample(5, 1, 'arabic'),
+          sample(9, 2, 'roman'),
+        ]),
+      ).toBeNull();
+      // Single Arabic sample after the front matter
+      expect(
+        detect([
+          sample(1, 1, 'roman'),
+          sample(2, 2, 'roman'),
+          sample(5, 1, 'arabic'),
+        ]),
+      ).toBeNull();
+      // Inconsistent front matter samples
+      expect(
+        detect([
+          sample(1, 1, 'roman'),
+          sample(2, 9, 'roman'),
+          sample(5, 1, 'arabic'),
+          sample(6, 2, 'arabic'),
+        ]),
+      ).toBeNull();
+    });
+
+    test('post-processes each numeral system separately', () => {
+      const roman = (pageNo: number, label: string) => ({
+        startPageNo: pageNo,
+        endPageNo: pageNo,
+        numeralSystem: 'roman',
+        startLabel: label,
+        endLabel: label,
+      });
+      const pageRangeMap: Record<number, any> = {
+        1: { startPageNo: 0, endPageNo: 0 },
+        2: roman(1, 'i'),
+        3: { startPageNo: 0, endPageNo: 0 },
+        4: roman(3, 'iii'),
+        5: roman(4, 'iv'),
+        6: { startPageNo: 1, endPageNo: 1 },
+        7: { startPageNo: 2, endPageNo: 2 },
+        8: { startPageNo: 3, endPageNo: 3 },
+      };
+
+      (parser as any).postProcess(pageRangeMap);
+
+      expect(pageRangeMap).toEqual({
+        1: { startPageNo: 0, endPageNo: 0 },
+        2: roman(1, 'i'),
+        3: roman(2, 'ii'),
+        4: roman(3, 'iii'),
+        5: roman(4, 'iv'),
+        6: { startPageNo: 1, endPageNo: 1 },
+        7: { startPageNo: 2, endPageNo: 2 },
+        8: { startPageNo: 3, endPageNo: 3 },
+      });
+      expect(logger.info).not.toHaveBeenCalledWith(
+        expect.stringContaining('Page drop detected'),
+      );
+    });
+
+    test('keeps capital Roman labels when post-processing', () => {
+      const pageRangeMap: Record<number, any> = {
+        1: {
+          startPageNo: 1,
+          endPageNo: 1,
+          numeralSystem: 'roman',
+          startLabel: 'I',
+          endLabel: 'I',
+        },
+        2: {
+          startPageNo: 2,
+          endPageNo: 2,
+          numeralSystem: 'roman',
+          startLabel: 'II',
+          endLabel: 'II',
+        },
+        3: { startPageNo: 0, endPageNo: 0 },
+      };
+
+      (parser as any).postProcess(pageRangeMap);
+
+      expect(pageRangeMap[3]).toEqual({
+        startPageNo: 3,
+        endPageNo: 3,
+        numeralSystem: 'roman',
+        startLabel: 'III',
+        endLabel: 'III',
+      });
+    });
+
+    test('restarts numbering for an appended report', async () => {
+      // PDF 1: cover, PDF 2-25: 1-24, PDF 26: report cover, PDF 27-40: 1-14
+      mockPrintedPages((pdfPageNo) => {
+        if (pdfPageNo === 1 || pdfPageNo === 26) return printed(null);
+        return printed(pdfPageNo <= 25 ? pdfPageNo - 1 : pdfPageNo - 26);
+      });
+      vi.spyOn(parser as any, 'selectRandomSamples').mockReturnValueOnce([
+        5, 15, 30, 35,
+      ]);
+
+      const result = await parser.parse(createMockDocument(40));
+
+      expect(result.pageRangeMap[25]).toEqual({
+        startPageNo: 24,
+        endPageNo: 24,
+      });
+      expect(result.pageRangeMap[27]).toEqual({ startPageNo: 1, endPageNo: 1 });
+      expect(result.pageRangeMap[40]).toEqual({
+        startPageNo: 14,
+        endPageNo: 14,
+      });
+      expect(logger.info).toHaveBeenCalledWith(
+        '[PageRangeParser] Page number restart detected at PDF 27',
+      );
+      expect(logger.info).not.toHaveBeenCalledWith(
+        expect.stringContaining('Page drop detected'),
+      );
+    });
+
+    test('rejects restarts that do not start a new sequence', () => {
+      const sample = (pdfPageNo: number, startPageNo: number) => ({
+        pdfPageNo,
+        startPageNo,
+        endPageNo: null,
+        numeralSystem: 'arabic',
+        upperCase: false,
+      });
+      const detect = (samples: unknown[]) =>
+        (parser as any).detectSequencePatterns(samples);
+
+      // Page 1 of the second sequence would fall before the last sample
+      expect(
+        detect([sample(10, 10), sample(20, 20), sample(22, 5), sample(25, 8)]),
+      ).toBeNull();
+      // Numbers before the drop cannot start inside the PDF (misread)
+      expect(
+        detect([sample(1, 75), sample(3, 77), sample(10, 2), sample(13, 5)]),
+      ).toBeNull();
+    });
+
+    test('post-processes each restarted sequence separately', () => {
+      const pageRangeMap: Record<number, PageRange> = {};
+      for (let pdfPageNo = 1; pdfPageNo <= 12; pdfPageNo++) {
+        const pageNo = pdfPageNo <= 8 ? pdfPageNo : pdfPageNo - 8;
+        pageRangeMap[pdfPageNo] = { startPageNo: pageNo, endPageNo: pageNo };
+      }
+      pageRangeMap[9] = { startPageNo: 0, endPageNo: 0 };
+
+      (parser as any).postProcess(pageRangeMap);
+
+      expect(pageRangeMap[8]).toEqual({ startPageNo: 8, endPageNo: 8 });
+      expect(pageRangeMap[9]).toEqual({ startPageNo: 9, endPageNo: 9 });
+      expect(pageRangeMap[10]).toEqual({ startPageNo: 2, endPageNo: 2 });
+      expect(pageRangeMap[12]).toEqual({ startPageNo: 4, endPageNo: 4 });
+      expect(logger.info).toHaveBeenCalledWith(
+        '[PageRangeParser] Post-processing 9 arabic pages separately',
+      );
+    });
+
+    test('restarts double-sided numbering', () => {
+      const pageRangeMap: Record<number, PageRange> = {};
+      for (let pdfPageNo = 1; pdfPageNo <= 10; pdfPageNo++) {
+        const sheetNo = pdfPageNo <= 6 ? pdfPageNo : pdfPageNo - 6;
+        pageRangeMap[pdfPageNo] = {
+          startPageNo: sheetNo * 2 - 1,
+          endPageNo: sheetNo * 2,
+        };
+      }
+      const expected = structuredClone(pageRangeMap);
+
+      (parser as any).postProcess(pageRangeMap);
+
+      expect(pageRangeMap).toEqual(expected);
+      expect(logger.info).toHaveBeenCalledWith(
+        '[PageRangeParser] Post-processing 6 arabic pages separately',
+      );
+    });
+
+    test('does not restart a sequence that starts at misread numbers', () => {
+      const pageRangeMap: Record<number, PageRange> = {};
+      for (let pdfPageNo = 1; pdfPageNo <= 12; pdfPageNo++) {
+        const pageNo = pdfPageNo <= 4 ? pdfPageNo + 74 : pdfPageNo - 4;
+        pageRangeMap[pdfPageNo] = { startPageNo: pageNo, endPageNo: pageNo };
+      }
+
+      (parser as any).postProcess(pageRangeMap);
+
+      expect(logger.info).not.toHaveBeenCalledWith(
+        expect.stringContaining('separately'),
+      );
+    });
+  });
+
   describe('buildSystemPrompt and buildUserPrompt', () => {
     test('buildSystemPrompt returns proper instruction text', () => {
       const prompt = (parser as any).buildSystemPrompt();
@@ -1,5 +1,11 @@
 import type { LoggerMethods } from '@heripo/logger';
-import type { DoclingDocument, DoclingPage, PageRange } from '@heripo/model';
+import type {
+  DoclingDocument,
+  DoclingPage,
+  LabeledPageRange,
+  PageNumeralSystem,
+  PageRange,
+} from '@heripo/model';
 import type {
   ExtendedTokenUsage,
   LLMTokenUsageAggregator,
@@ -17,6 +23,11 @@ import * as path from 'node:path';
 import { z } from 'zod';
 
 import { VisionLLMComponent } from '../core/vision-llm-component';
+import {
+  formatPageNumeral,
+  isLabeledPageRange,
+  parsePageLabel,
+} from '../utils';
 import { PageRangeParseError } from './page-range-parse-error';
 
 /**
@@ -49,6 +60,32 @@ interface SampleResult {
   pdfPageNo: number;
   startPageNo: number | null;
   endPageNo: number | null;
+  numeralSystem: PageNumeralSystem;
+  /** Roman numerals printed in capitals */
+  upperCase: boolean;
+}
+
+/**
+ * Pattern of one page number sequence within a size group
+ *
+ * A group holds more than one sequence when the numeral system switches
+ * (e.g. Roman front matter, then Arabic body pages) or the numbering
+ * restarts (e.g. an appended analysis report starting again at 1).
+ */
+interface SequencePattern extends PatternAnalysis {
+  numeralSystem: PageNumeralSystem;
+  upperCase: boolean;
+  /** First PDF page of the group in this sequence */
+  fromPdfPageNo: number;
+}
+
+/**
+ * Pages of a page range map in one page number sequence
+ */
+interface SequenceRun {
+  numeralSystem: PageNumeralSystem;
+  upperCase: boolean;
+  pageRangeMap: Record<number, PageRange>;
 }
 
 /**
@@ -65,6 +102,20 @@ interface SampleResult {
  *    - If ≤3 pages: send all to LLM at once
  *    - If >3 pages: random sample 3 pages, detect pattern, apply to all
  * 3. Post-process: handle drops, normalize negatives, backfill failed pages
+ *
+ * ## Numeral Systems
+ *
+ * Page numbers printed with Roman (i, ii, iii) or CJK (一, 二, 三) numerals
+ * are mapped to {@link LabeledPageRange} entries that keep the printed label
+ * next to the normalized ordinal.
+ *
+ * ## Page Number Sequences
+ *
+ * A document may contain several page number sequences: front matter
+ * numerals followed by Arabic numbers, or appended sub-documents (e.g.
+ * radiocarbon or soil analysis reports) whose numbering restarts at 1. Each
+ * sequence gets its own pattern, and post-processing runs separately per
+ * sequence so a restart is not treated as a drop or an outlier.
  */
 export class PageRangeParser extends VisionLLMComponent {
   // Configuration constants
@@ -275,17 +326,25 @@ export class PageRangeParser extends VisionLLMComponent {
         consecutiveAllNullAttempts = 0;
       }
 
-      // Try to detect pattern
-      const pattern = this.detectPattern(samples);
+      // Try to detect pattern. Once a sequence break (numeral switch or
+      // restart) has been sampled, prefer all samples so far: 3 samples
+      // rarely cover both sequences, and a pattern from one sequence alone
+      // would renumber the other.
+      const patterns =
+        (this.hasSequenceBreak(allSamples)
+          ? this.detectSequencePatterns(allSamples)
+          : null) ?? this.detectSequencePatterns(samples);
 
-      if (pattern.pattern !== PagePattern.UNKNOWN) {
+      if (patterns) {
         // Pattern found! Apply to all pages
-        this.log(
-          'info',
-          `Pattern detected: ${pattern.pattern} (offset=${pattern.offset}, increment=${pattern.increment})`,
-        );
+        for (const pattern of patterns) {
+          this.log(
+            'info',
+            `Pattern detected: ${this.describePattern(pattern)}`,
+          );
+        }
         return {
-          pageRangeMap: this.applyPattern(pageNos, pattern),
+          pageRangeMap: this.applySequencePatterns(pageNos, patterns),
           usage: usageList,
         };
       }
@@ -300,14 +359,14 @@ export class PageRangeParser extends VisionLLMComponent {
     // Try pattern detection from all accumulated samples before giving up
     const allValidSamples = allSamples.filter((s) => s.startPageNo !== null);
     if (allValidSamples.length >= 2) {
-      const finalPattern = this.detectPattern(allSamples);
-      if (finalPattern.pattern !== PagePattern.UNKNOWN) {
+      const finalPatterns = this.detectSequencePatterns(allSamples);
+      if (finalPatterns) {
         this.log(
           'info',
-          `Pattern detected from accumulated samples: ${finalPattern.pattern}`,
+          `Pattern detected from accumulated samples: ${finalPatterns.map((pattern) => pattern.pattern).join(', ')}`,
         );
         return {
-          pageRangeMap: this.applyPattern(pageNos, finalPattern),
+          pageRangeMap: this.applySequencePatterns(pageNos, finalPatterns),
           usage: usageList,
         };
       }
@@ -402,6 +461,18 @@ export class PageRangeParser extends VisionLLMComponent {
               .describe(
                 'End page number for double-sided scans (null for single page)',
               ),
+            startLabel: z
+              .string()
+              .nullable()
+              .describe(
+                'Start page number exactly as printed, e.g. "12", "iv", "十二" (null if not found)',
+              ),
+            endLabel: z
+              .string()
+              .nullable()
+              .describe(
+                'End page number as printed for double-sided scans (null for single page)',
+              ),
           }),
         )
         .describe('Extracted page numbers for each image'),
@@ -429,11 +500,9 @@ export class PageRangeParser extends VisionLLMComponent {
       });
 
       // Convert response to SampleResult array
-      const samples = result.output.pages.map((p) => ({
-        pdfPageNo: pageNos[p.imageIndex],
-        startPageNo: p.startPageNo,
-        endPageNo: p.endPageNo,
-      }));
+      const samples = result.output.pages.map((p) =>
+        this.toSampleResult(pageNos[p.imageIndex], p),
+      );
 
       return { samples, usage: result.usage };
     } catch (error) {
@@ -445,6 +514,199 @@ export class PageRangeParser extends VisionLLMComponent {
     }
   }
 
+  /**
+   * Convert one LLM page result to a sample
+   *
+   * Roman and CJK labels are normalized to their ordinal. Results without a
+   * parsable label keep the LLM's Arabic page numbers.
+   */
+  private toSampleResult(
+    pdfPageNo: number,
+    page: {
+      startPageNo: number | null;
+      endPageNo: number | null;
+      startLabel: string | null;
+      endLabel: string | null;
+    },
+  ): SampleResult {
+    const start = page.startLabel ? parsePageLabel(page.startLabel) : null;
+    if (!start || start.numeralSystem === 'arabic') {
+      return {
+        pdfPageNo,
+        startPageNo: page.startPageNo,
+        endPageNo: page.endPageNo,
+        numeralSystem: 'arabic',
+        upperCase: false,
+      };
+    }
+
+    const end = page.endLabel ? parsePageLabel(page.endLabel) : null;
+    return {
+      pdfPageNo,
+      startPageNo: start.value,
+      endPageNo: end?.numeralSystem === start.numeralSystem ? end.value : null,
+      numeralSystem: start.numeralSystem,
+      upperCase: start.upperCase,
+    };
+  }
+
+  /**
+   * Whether the samples contain more than one page number sequence
+   */
+  private hasSequenceBreak(samples: SampleResult[]): boolean {
+    return this.splitSampleRuns(samples).length > 1;
+  }
+
+  /**
+   * Split valid samples, ordered by PDF page, into runs of one page number
+   * sequence each: a new run starts when the numeral system changes or the
+   * page number decreases
+   */
+  private splitSampleRuns(samples: SampleResult[]): SampleResult[][] {
+    const validSamples = samples
+      .filter((s) => s.startPageNo !== null)
+      .sort((a, b) => a.pdfPageNo - b.pdfPageNo);
+
+    const runs: SampleResult[][] = [];
+    for (const sample of validSamples) {
+      const run = runs.at(-1);
+      const previous = run?.at(-1);
+      if (
+        run &&
+        previous!.numeralSystem === sample.numeralSystem &&
+        sample.startPageNo! >= previous!.startPageNo!
+      ) {
+        run.push(sample);
+      } else {
+        runs.push([sample]);
+      }
+    }
+    return runs;
+  }
+
+  /**
+   * Detect a pattern per page number sequence from sample results
+   *
+   * Samples of a single sequence yield one pattern. Otherwise each run of
+   * samples (see `splitSampleRuns`) needs its own pattern; a leading Roman
+   * or CJK run may be a single sample since front matter is short.
+   *
+   * Each sequence after the first starts at the first PDF page where its
+   * pattern reaches page 1, but never before the last sample of the previous
+   * run. A restart in the same numeral system is only accepted when page 1
+   * of both sequences falls inside the PDF, which rules out misread figure
+   * numbers that merely look like a restart.
+   *
+   * @returns Patterns ordered by PDF page, or null when no pattern was found
+   */
+  private detectSequencePatterns(
+    samples: SampleResult[],
+  ): SequencePattern[] | null {
+    const runs = this.splitSampleRuns(samples);
+
+    if (runs.length <= 1) {
+      const validSamples = runs[0] ?? [];
+      const pattern = this.detectPattern(validSamples);
+      if (pattern.pattern === PagePattern.UNKNOWN) return null;
+      return [
+        { ...pattern, ...this.describeRun(validSamples), fromPdfPageNo: 1 },
+      ];
+    }
+
+    const patterns: SequencePattern[] = [];
+    for (const [i, run] of runs.entries()) {
+      const pattern =
+        i === 0 && run.length === 1 && run[0].numeralSystem !== 'arabic'
+          ? this.singleSamplePattern(run[0])
+          : this.detectPattern(run);
+      if (pattern.pattern === PagePattern.UNKNOWN) return null;
+
+      if (i === 0) {
+        patterns.push({
+          ...pattern,
+          ...this.describeRun(run),
+          fromPdfPageNo: 1,
+        });
+        continue;
+      }
+
+      const previousRun = runs[i - 1];
+      const lastPreviousPdfPageNo = previousRun.at(-1)!.pdfPageNo;
+      const firstNumberedPdfPageNo = this.firstNumberedPdfPageNo(pattern);
+      const isRestart = run[0].numeralSystem === previousRun[0].numeralSystem;
+      if (
+        isRestart &&
+        (firstNumberedPdfPageNo <= lastPreviousPdfPageNo ||
+          this.firstNumberedPdfPageNo(patterns[i - 1]) < 1)
+      ) {
+        return null;
+      }
+
+      const fromPdfPageNo = Math.min(
+        Math.max(firstNumberedPdfPageNo, lastPreviousPdfPageNo + 1),
+        run[0].pdfPageNo,
+      );
+      this.log(
+        'info',
+        isRestart
+          ? `Page number restart detected at PDF ${fromPdfPageNo}`
+          : `Numeral switch detected: ${previousRun[0].numeralSystem} -> ${run[0].numeralSystem} at PDF ${fromPdfPageNo}`,
+      );
+      patterns.push({ ...pattern, ...this.describeRun(run), fromPdfPageNo });
+    }
+
+    return patterns;
+  }
+
+  /**
+   * PDF page where a pattern's numbering reaches page 1
+   */
+  private firstNumberedPdfPageNo(pattern: PatternAnalysis): number {
+    return pattern.pattern === PagePattern.DOUBLE_SIDED
+      ? Math.ceil((1 - pattern.offset) / 2)
+      : 1 - pattern.offset;
+  }
+
+  /**
+   * Numeral system and letter case of a run of samples
+   */
+  private describeRun(
+    samples: SampleResult[],
+  ): Pick<SequencePattern, 'numeralSystem' | 'upperCase'> {
+    return {
+      numeralSystem: samples[0].numeralSystem,
+      upperCase: samples[0].upperCase,
+    };
+  }
+
+  /**
+   * Pattern implied by a single sample (used for short front matter runs)
+   */
+  private singleSamplePattern(sample: SampleResult): PatternAnalysis {
+    const start = sample.startPageNo!;
+    if (sample.endPageNo === start + 1) {
+      return {
+        pattern: PagePattern.DOUBLE_SIDED,
+        offset: start - sample.pdfPageNo * 2,
+        increment: 2,
+      };
+    }
+    return {
+      pattern: PagePattern.SIMPLE_INCREMENT,
+      offset: start - sample.pdfPageNo,
+      increment: 1,
+    };
+  }
+
+  /**
+   * Describe a detected pattern for logging
+   */
+  private describePattern(pattern: SequencePattern): string {
+    const system =
+      pattern.numeralSystem === 'arabic' ? '' : `${pattern.numeralSystem} `;
+    return `${system}${pattern.pattern} (offset=${pattern.offset}, increment=${pattern.increment})`;
+  }
+
   /**
    * Detect pattern from sample results
    */
@@ -553,6 +815,35 @@ export class PageRangeParser extends VisionLLMComponent {
     return result;
   }
 
+  /**
+   * Apply each sequence pattern to the pages from its first PDF page up to
+   * the next pattern
+   */
+  private applySequencePatterns(
+    pageNos: number[],
+    patterns: SequencePattern[],
+  ): Record<number, PageRange> {
+    const result: Record<number, PageRange> = {};
+
+    patterns.forEach((pattern, i) => {
+      const nextFromPdfPageNo = patterns[i + 1]?.fromPdfPageNo ?? Infinity;
+      const patternPageNos = pageNos.filter(
+        (pageNo) =>
+          pageNo >= pattern.fromPdfPageNo && pageNo < nextFromPdfPageNo,
+      );
+      Object.assign(
+        result,
+        this.labelRanges(
+          this.applyPattern(patternPageNos, pattern),
+          pattern.numeralSystem,
+          pattern.upperCase,
+        ),
+      );
+    });
+
+    return result;
+  }
+
   /**
    * Convert sample results to page range map (for small groups)
    */
@@ -561,28 +852,219 @@ export class PageRangeParser extends VisionLLMComponent {
       samples.map((sample) => [
         sample.pdfPageNo,
         sample.startPageNo !== null
-          ? {
-              startPageNo: sample.startPageNo,
-              endPageNo: sample.endPageNo ?? sample.startPageNo,
-            }
+          ? this.toLabeledRange(
+              {
+                startPageNo: sample.startPageNo,
+                endPageNo: sample.endPageNo ?? sample.startPageNo,
+              },
+              sample.numeralSystem,
+              sample.upperCase,
+            )
           : { startPageNo: 0, endPageNo: 0 },
       ]),
     );
   }
 
+  /**
+   * Attach printed labels to the numbered ranges of a non-Arabic map
+   */
+  private labelRanges(
+    pageRangeMap: Record<number, PageRange>,
+    numeralSystem: PageNumeralSystem,
+    upperCase: boolean,
+  ): Record<number, PageRange> {
+    if (numeralSystem === 'arabic') return pageRangeMap;
+
+    return Object.fromEntries(
+      Object.entries(pageRangeMap).map(([pdfPageNo, range]) => [
+        pdfPageNo,
+        this.toLabeledRange(range, numeralSystem, upperCase),
+      ]),
+    );
+  }
+
+  /**
+   * Convert a range to a LabeledPageRange when it is numbered in Roman or
+   * CJK numerals (failed and Arabic ranges are returned as plain ranges)
+   */
+  private toLabeledRange(
+    range: PageRange,
+    numeralSystem: PageNumeralSystem,
+    upperCase: boolean,
+  ): PageRange {
+    if (numeralSystem === 'arabic' || range.startPageNo < 1) {
+      return { startPageNo: range.startPageNo, endPageNo: range.endPageNo };
+    }
+
+    const labeled: LabeledPageRange = {
+      startPageNo: range.startPageNo,
+      endPageNo: range.endPageNo,
+      numeralSystem,
+      startLabel: formatPageNumeral(
+        range.startPageNo,
+        numeralSystem,
+        upperCase,
+      ),
+      endLabel: formatPageNumeral(range.endPageNo, numeralSystem, upperCase),
+    };
+    return labeled;
+  }
+
   /**
    * Post-process the page range map
    */
   private postProcess(pageRangeMap: Record<number, PageRange>): void {
-    // Order matters:
-    // 1. Detect outliers (abnormally high values at beginning)
-    // 2. Handle drops
-    // 3. Normalize negatives
-    // 4. Backfill failed pages
-    this.detectAndHandleOutliers(pageRangeMap);
-    this.detectAndHandleDrops(pageRangeMap);
-    this.normalizeNegatives(pageRangeMap);
-    this.backfillFailedPages(pageRangeMap);
+    const runs = this.splitIntoSequences(pageRangeMap);
+
+    for (const run of runs) {
+      if (runs.length > 1) {
+        this.log(
+          'info',
+          `Post-processing ${Object.keys(run.pageRangeMap).length} ${run.numeralSystem} pages separately`,
+        );
+      }
+
+      // Order matters:
+      // 1. Detect outliers (abnormally high values at beginning)
+      // 2. Handle drops
+      // 3. Normalize negatives
+      // 4. Backfill failed pages
+      this.detectAndHandleOutliers(run.pageRangeMap);
+      this.detectAndHandleDrops(run.pageRangeMap);
+      this.normalizeNegatives(run.pageRangeMap);
+      this.backfillFailedPages(run.pageRangeMap);
+
+      // Recalculated and backfilled ranges need fresh labels
+      Object.assign(
+        pageRangeMap,
+        this.labelRanges(run.pageRangeMap, run.numeralSystem, run.upperCase),
+      );
+    }
+  }
+
+  /**
+   * Split the page range map into page number sequences
+   *
+   * A new sequence starts where the numeral system changes or the numbering
+   * restarts (see `isSequenceRestart`). Failed pages (0) join the sequence
+   * before them, or the first sequence at the start of the document.
+   */
+  private splitIntoSequences(
+    pageRangeMap: Record<number, PageRange>,
+  ): SequenceRun[] {
+    const pdfPages = Object.keys(pageRangeMap)
+      .map(Number)
+      .sort((a, b) => a - b);
+    const runs: SequenceRun[] = [];
+    const leadingFailedPages: number[] = [];
+    let currentRun: SequenceRun | undefined;
+    let runStartPdfPage = pdfPages[0];
+
+    for (const [i, pdfPage] of pdfPages.entries()) {
+      const range = pageRangeMap[pdfPage];
+
+      if (range.startPageNo !== 0) {
+        const labeled = isLabeledPageRange(range);
+        const numeralSystem = labeled ? range.numeralSystem : 'arabic';
+        if (
+          !currentRun ||
+          currentRun.numeralSystem !== numeralSystem ||
+          this.isSequenceRestart(
+            pageRangeMap,
+            pdfPages,
+            i,
+            currentRun,
+            runStartPdfPage,
+          )
+        ) {
+          if (currentRun) {
+            runStartPdfPage = pdfPage;
+          }
+          currentRun = {
+            numeralSystem,
+            upperCase:
+              labeled && range.startLabel === range.startLabel.toUpperCase(),
+            pageRangeMap: {},
+          };
+          runs.push(currentRun);
+        }
+        for (const failedPage of leadingFailedPages.splice(0)) {
+          currentRun.pageRangeMap[failedPage] = pageRangeMap[failedPage];
+        }
+      }
+
+      if (currentRun) {
+        currentRun.pageRangeMap[pdfPage] = range;
+      } else {
+        leadingFailedPages.push(pdfPage);
+      }
+    }
+
+    return runs.length > 0
+      ? runs
+      : [{ numeralSystem: 'arabic', upperCase: false, pageRangeMap }];
+  }
+
+  /**
+   * Whether the numbering restarts at `pdfPages[index]`
+   *
+   * A restart (e.g. an appended report starting again at page 1) needs:
+   * - a drop from the last numbered page of the current sequence, to a page
+   *   number whose page 1 falls after that page
+   * - at least 3 numbered pages in the current sequence, whose own page 1
+   *   falls inside the sequence (otherwise the high numbers before the drop
+   *   are more likely misread figure numbers, handled as outliers)
+   * - at least 3 consecutive pages continuing the new numbering
+   */
+  private isSequenceRestart(
+    pageRangeMap: Record<number, PageRange>,
+    pdfPages: number[],
+    index: number,
+    currentRun: SequenceRun,
+    runStartPdfPage: number,
+  ): boolean {
+    const MIN_SEQUENCE_LENGTH = 3;
+    const pdfPage = pdfPages[index];
+    const range = pageRangeMap[pdfPage];
+    const increment = this.isDoubleSidedRange(range) ? 2 : 1;
+
+    const numberedPages = Object.keys(currentRun.pageRangeMap)
+      .map(Number)
+      .filter((p) => currentRun.pageRangeMap[p].startPageNo > 0)
+      .sort((a, b) => a - b);
+    if (numberedPages.length < MIN_SEQUENCE_LENGTH) return false;
+
+    const lastPdfPage = numberedPages.at(-1)!;
+    const lastPageNo = currentRun.pageRangeMap[lastPdfPage].startPageNo;
+    if (
+      range.startPageNo >= lastPageNo - 1 ||
+      range.startPageNo - 1 > (pdfPage - lastPdfPage) * increment
+    ) {
+      return false;
+    }
+
+    const firstPdfPage = numberedPages[0];
+    const firstRange = currentRun.pageRangeMap[firstPdfPage];
+    const firstIncrement = this.isDoubleSidedRange(firstRange) ? 2 : 1;
+    if (
+      firstRange.startPageNo >
+      (firstPdfPage - runStartPdfPage + 1) * firstIncrement
+    ) {
+      return false;
+    }
+
+    const following = pdfPages.slice(index, index + MIN_SEQUENCE_LENGTH);
+    return (
+      following.length === MIN_SEQUENCE_LENGTH &&
+      following.every((p, j) => {
+        const pageNo = pageRangeMap[p].startPageNo;
+        return j === 0
+          ? pageNo > 0
+          : pageNo ===
+              pageRangeMap[following[j - 1]].startPageNo +
+                (p - following[j - 1]) * increment;
+      })
+    );
   }
 
   /**
@@ -930,8 +1412,13 @@ You will receive multiple document page images. For EACH image, extract the visi
 - Top corners (less common)
 - Page numbers are SMALL numbers in MARGINS, NOT in content area
 
+**NUMERAL SYSTEMS:**
+- Arabic numbers (1, 2, 3...) are the most common
+- Roman numerals (i, ii, iii, iv... or I, II, III...) are used for front matter such as prefaces
+- CJK numerals (一, 二, 三, 十二...) are used in older East Asian reports
+- For Roman and CJK numerals, return their numeric value in startPageNo/endPageNo (e.g. "iv" -> 4, "十二" -> 12)
+
 **WHAT TO IGNORE - These are NOT page numbers:**
-- Roman numerals (i, ii, iii, iv, v...) - return null
 - Figure numbers: "Figure 5", "Fig. 5", "도 5", "그림 5"
 - Table numbers: "Table 3", "표 3"
 - Photo numbers: "Photo 8", "사진 8", "Plate 4", "도판 4"
@@ -942,7 +1429,9 @@ You will receive multiple document page images. For EACH image, extract the visi
 For each image (in order), provide:
 - imageIndex: 0-based index of the image
 - startPageNo: The page number found (null if not visible/readable)
-- endPageNo: Right page number for double-sided scans (null for single pages)`;
+- endPageNo: Right page number for double-sided scans (null for single pages)
+- startLabel: The page number exactly as printed, e.g. "12", "iv", "十二" (null if not visible/readable)
+- endLabel: Right page number as printed for double-sided scans (null for single pages)`;
   }
 
   /**
@@ -4,4 +4,7 @@ export type {
   CaptionSourceExtraction,
 } from './caption-processing-pipeline';
 export { TocExtractionPipeline } from './toc-extraction-pipeline';
-export type { TocExtractionPipelineDeps } from './toc-extraction-pipeline';
+export type {
+  TocExtractionInput,
+  TocExtractionPipelineDeps,
+} from './toc-extraction-pipeline';
@@ -1,5 +1,5 @@
 import type { LoggerMethods } from '@heripo/logger';
-import type { DoclingDocument } from '@heripo/model';
+import type { DoclingDocument, PdfOutlineItem } from '@heripo/model';
 import type {
   ExtendedTokenUsage,
   LLMTokenUsageAggregator,
@@ -16,7 +16,11 @@ import type { TocExtractionPipelineDeps } from './toc-extraction-pipeline';
 
 import { beforeEach, describe, expect, test, vi } from 'vitest';
 
-import { TocNotFoundError, TocValidationError } from '../extractors';
+import {
+  OutlineTocBuilder,
+  TocNotFoundError,
+  TocValidationError,
+} from '../extractors';
 import { TocExtractionPipeline } from './toc-extraction-pipeline';
 
 function createMockLogger(): LoggerMethods {
@@ -222,6 +226,119 @@ describe('TocExtractionPipeline', () => {
     });
   });
 
+  describe('PDF outline (Stage 0)', () => {
+    const pdfOutline: PdfOutlineItem[] = [
+      {
+        title: 'Chapter 1',
+        level: 1,
+        pageNo: 3,
+        children: [{ title: 'Section 1.1', level: 2, pageNo: 4, children: [] }],
+      },
+      { title: 'Chapter 2', level: 1, pageNo: 8, children: [] },
+    ];
+    const pageRangeMap = {
+      3: { startPageNo: 1, endPageNo: 1 },
+      4: { startPageNo: 2, endPageNo: 2 },
+      8: { startPageNo: 6, endPageNo: 6 },
+    };
+    const outlineEntries = [
+      {
+        title: 'Chapter 1',
+        level: 1,
+        pageNo: 1,
+        children: [{ title: 'Section 1.1', level: 2, pageNo: 2 }],
+      },
+      { title: 'Chapter 2', level: 1, pageNo: 6 },
+    ];
+
+    test('should use the outline without LLM calls when it matches the printed TOC', async () => {
+      vi.mocked(mockRefResolver.resolve).mockReturnValue({
+        text: 'Chapter 1 ..... 1 Section 1.1 ..... 2 Chapter 2 ..... 6',
+        orig: '',
+        label: 'text',
+        self_ref: '#/texts/0',
+      } as any);
+
+      const result = await pipeline.extract(createMockDoc(10), [], {
+        pdfOutline,
+        pageRangeMap,
+      });
+
+      expect(result).toEqual(outlineEntries);
+      expect(mockTocContentValidator.validate).not.toHaveBeenCalled();
+      expect(mockTocExtractor.extract).not.toHaveBeenCalled();
+      expect(mockVisionTocExtractor.extract).not.toHaveBeenCalled();
+      expect(mockLogger.info).toHaveBeenCalledWith(
+        '[TocExtractionPipeline] Using PDF outline with 2 top-level entries',
+      );
+    });
+
+    test('should ignore the outline when it does not match the printed TOC', async () => {
+      const result = await pipeline.extract(createMockDoc(10), [], {
+        pdfOutline: [
+          ...pdfOutline,
+          { title: 'Appendix', level: 1, pageNo: 9, children: [] },
+        ],
+        pageRangeMap,
+      });
+
+      expect(result).toEqual([{ title: 'Chapter 1', level: 1, pageNo: 1 }]);
+      expect(mockTocContentValidator.validate).toHaveBeenCalled();
+      expect(mockTocExtractor.extract).toHaveBeenCalled();
+      expect(mockLogger.warn).toHaveBeenCalledWith(
+        '[TocExtractionPipeline] PDF outline does not match the printed TOC, ignoring it',
+      );
+    });
+
+    test('should use the outline instead of vision when no printed TOC is found', async () => {
+      vi.mocked(mockTocFinder.find).mockImplementation(() => {
+        throw new TocNotFoundError();
+      });
+
+      const result = await pipeline.extract(createMockDoc(10), [], {
+        pdfOutline,
+      });
+
+      expect(result).toEqual([
+        {
+          title: 'Chapter 1',
+          level: 1,
+          pageNo: 3,
+          children: [{ title: 'Section 1.1', level: 2, pageNo: 4 }],
+        },
+        { title: 'Chapter 2', level: 1, pageNo: 8 },
+      ]);
+      expect(mockVisionTocExtractor.extract).not.toHaveBeenCalled();
+      expect(mockLogger.info).toHaveBeenCalledWith(
+        '[TocExtractionPipeline] Printed TOC not found, using PDF outline with 2 top-level entries',
+      );
+    });
+
+    test('should fall through to the existing stages when the outline is too small', async () => {
+      const result = await pipeline.extract(createMockDoc(10), [], {
+        pdfOutline: [pdfOutline[1]],
+      });
+
+      expect(result).toEqual([{ title: 'Chapter 1', level: 1, pageNo: 1 }]);
+      expect(mockTocExtractor.extract).toHaveBeenCalled();
+    });
+
+    test('should use the injected OutlineTocBuilder', async () => {
+      const outlineTocBuilder = new OutlineTocBuilder(mockLogger, {
+        minEntries: 1,
+        minTocAgreement: 0,
+      });
+      pipeline = createPipeline({ outlineTocBuilder });
+
+      const result = await pipeline.extract(createMockDoc(10), [], {
+        pdfOutline: [pdfOutline[1]],
+      });
+
+      expect(result).toEqual([{ title: 'Chapter 2', level: 1, pageNo: 8 }]);
+      expect(mockTocExtractor.extract).not.toHaveBeenCalled();
+    });
+  });
+
   describe('Vision fallback (Stage 4)', () => {
     test('should use vision when rule-based extraction throws TocNotFoundError', async () => {
       vi.mocked(mockTocFinder.find).mockImplementation(() => {
@@ -1,5 +1,5 @@
 import type { LoggerMethods } from '@heripo/logger';
-import type { DoclingDocument } from '@heripo/model';
+import type { DoclingDocument, PageRange, PdfOutlineItem } from '@heripo/model';
 import type {
   ExtendedTokenUsage,
   LLMTokenUsageAggregator,
@@ -12,7 +12,11 @@ import type { TocEntry } from '../types';
 import type { RefResolver } from '../utils';
 import type { TocContentValidator } from '../validators';
 
-import { TocNotFoundError, TocValidationError } from '../extractors';
+import {
+  OutlineTocBuilder,
+  TocNotFoundError,
+  TocValidationError,
+} from '../extractors';
 import { MarkdownConverter } from '../utils';
 import { extractMaxPageNumber } from '../utils';
 
@@ -27,12 +31,32 @@ export interface TocExtractionPipelineDeps {
   visionTocExtractor: VisionTocExtractor;
   refResolver: RefResolver;
   usageAggregator: LLMTokenUsageAggregator;
+  /** Defaults to an OutlineTocBuilder with default options */
+  outlineTocBuilder?: OutlineTocBuilder;
+}
+
+/**
+ * Per-document inputs for TocExtractionPipeline
+ */
+export interface TocExtractionInput {
+  /**
+   * Outline (bookmarks) of the source PDF, e.g. from PdfOutlineReader in
+   * `@heripo/pdf-parser`
+   */
+  pdfOutline?: PdfOutlineItem[];
+
+  /**
+   * PDF page to actual page mapping used for outline target pages
+   */
+  pageRangeMap?: Record<number, PageRange>;
 }
 
 /**
  * TocExtractionPipeline
  *
  * Orchestrates the multi-stage TOC extraction process:
+ * 0. PDF outline, used without any LLM call when it agrees with the printed
+ *    TOC or no printed TOC is found (OutlineTocBuilder)
  * 1. Rule-based extraction (TocFinder + MarkdownConverter)
  * 2. Content validation (TocContentValidator)
  * 3. Vision fallback (VisionTocExtractor)
@@ -47,6 +71,7 @@ export class TocExtractionPipeline {
   private readonly visionTocExtractor: VisionTocExtractor;
   private readonly refResolver: RefResolver;
   private readonly usageAggregator: LLMTokenUsageAggregator;
+  private readonly outlineTocBuilder: OutlineTocBuilder;
 
   constructor(deps: TocExtractionPipelineDeps) {
     this.logger = deps.logger;
@@ -56,6 +81,8 @@ export class TocExtractionPipeline {
     this.visionTocExtractor = deps.visionTocExtractor;
     this.refResolver = deps.refResolver;
     this.usageAggregator = deps.usageAggregator;
+    this.outlineTocBuilder =
+      deps.outlineTocBuilder ?? new OutlineTocBuilder(deps.logger);
   }
 
   /**
@@ -63,17 +90,24 @@ export class TocExtractionPipeline {
    *
    * @param doclingDoc - Document containing texts, pages, etc.
    * @param _filteredTexts - Pre-filtered texts (reserved for future use)
+   * @param input - PDF outline and page range map
    * @returns Extracted TOC entries
    * @throws {TocNotFoundError} When TOC cannot be found or extracted
    */
   async extract(
     doclingDoc: DoclingDocument,
     _filteredTexts: string[],
+    input: TocExtractionInput = {},
   ): Promise<TocEntry[]> {
     this.logger.info('[TocExtractionPipeline] Extracting TOC...');
 
     let markdown: string | null = null;
 
+    // Stage 0: Map the PDF outline, cross-checked once the printed TOC is found
+    const outlineEntries = input.pdfOutline
+      ? this.outlineTocBuilder.build(input.pdfOutline, input.pageRangeMap ?? {})
+      : [];
+
     // Stage 1: Try rule-based extraction
     try {
       const tocArea = this.tocFinder.find(doclingDoc);
@@ -87,6 +121,18 @@ export class TocExtractionPipeline {
         `[TocExtractionPipeline] Converted TOC to Markdown (${markdown.length} chars)`,
       );
 
+      if (outlineEntries.length > 0) {
+        if (this.outlineTocBuilder.agreesWithToc(outlineEntries, markdown)) {
+          this.logger.info(
+            `[TocExtractionPipeline] Using PDF outline with ${outlineEntries.length} top-level entries`,
+          );
+          return outlineEntries;
+        }
+        this.logger.warn(
+          '[TocExtractionPipeline] PDF outline does not match the printed TOC, ignoring it',
+        );
+      }
+
       // Stage 3: Validate with LLM
       const validation = await this.tocContentValidator.validate(markdown);
       if (!this.tocContentValidator.isValid(validation)) {
@@ -113,6 +159,12 @@ export class TocExtractionPipeline {
       }
     } catch (error) {
       if (error instanceof TocNotFoundError) {
+        if (outlineEntries.length > 0) {
+          this.logger.info(
+            `[TocExtractionPipeline] Printed TOC not found, using PDF outline with ${outlineEntries.length} top-level entries`,
+          );
+          return outlineEntries;
+        }
         this.logger.info(
           '[TocExtractionPipeline] Rule-based TOC not found, will try vision fallback',
         );
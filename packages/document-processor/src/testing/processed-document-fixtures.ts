@@ -0,0 +1,59 @@
+import type {
+  Chapter,
+  ProcessedDocument,
+  ProcessedDocumentPart,
+} from '@heripo/model';
+
+/**
+ * Test fixtures for ProcessedDocument consumers (exporters, diff, ID mapping)
+ */
+
+/**
+ * Create a level-1 chapter on page 1 without content
+ */
+export const createChapter = (
+  id: string,
+  title: string,
+  overrides?: Partial<Chapter>,
+): Chapter => ({
+  id,
+  originTitle: title,
+  title,
+  pageNo: 1,
+  level: 1,
+  textBlocks: [],
+  imageIds: [],
+  tableIds: [],
+  footnoteIds: [],
+  ...overrides,
+});
+
+/**
+ * Create a part "part-001" on PDF pages 10-20 without its own page numbers
+ */
+export const createPart = (
+  overrides?: Partial<ProcessedDocumentPart>,
+): ProcessedDocumentPart => ({
+  id: 'part-001',
+  startPdfPageNo: 10,
+  endPdfPageNo: 20,
+  pageRangeMap: {},
+  chapterSource: 'heading-inference',
+  chapters: [],
+  ...overrides,
+});
+
+/**
+ * Create an empty document of report "report-1"
+ */
+export const createDocument = (
+  overrides?: Partial<ProcessedDocument>,
+): ProcessedDocument => ({
+  reportId: 'report-1',
+  pageRangeMap: {},
+  chapters: [],
+  images: [],
+  tables: [],
+  footnotes: [],
+  ...overrides,
+});
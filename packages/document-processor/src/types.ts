@@ -1,3 +1,5 @@
+import type { DoclingBBox } from '@heripo/model';
+
 /**
  * Table of Contents Entry
  *
@@ -64,3 +66,68 @@ export interface PageSizeGroup {
    */
   pageNos: number[];
 }
+
+/**
+ * Continuation link between two Docling table fragments
+ *
+ * Same shape as the `linkContinuedTable` review assistance command.
+ */
+export interface TableContinuationLink {
+  /**
+   * Docling reference of the table the link was reported on
+   */
+  sourceTableRef: string;
+
+  /**
+   * Docling reference of the linked table on an adjacent page
+   */
+  continuedTableRef: string;
+
+  /**
+   * Direction of the link, seen from the source table
+   */
+  relation: 'continues_on_next_page' | 'continued_from_previous_page';
+}
+
+/**
+ * Picture split into several pictures by a `splitPicture` review assistance
+ * decision
+ *
+ * Same shape as the `splitPicture` patch metadata of the decision.
+ */
+export interface PictureSplit {
+  /**
+   * Docling reference of the split picture
+   */
+  sourcePictureRef: string;
+
+  /**
+   * Docling references of the pictures that replaced it, one per region
+   */
+  replacementRefs: string[];
+
+  /**
+   * Caption text references moved from the split picture to a replacement
+   */
+  preservedCaptionRefs: string[];
+
+  /**
+   * Regions of the replacement pictures, in the order of `replacementRefs`
+   */
+  regions: PictureSplitRegion[];
+}
+
+/**
+ * Region of one replacement picture of a PictureSplit
+ */
+export interface PictureSplitRegion {
+  /**
+   * Region ID proposed by the review, such as "①" or "2"
+   */
+  regionId?: string;
+
+  /**
+   * Region on the PDF page after snapping to the content edges
+   */
+  snappedBbox: DoclingBBox;
+}
@@ -0,0 +1,55 @@
+import { describe, expect, test } from 'vitest';
+
+import {
+  canonicalCaptionPrefix,
+  captionPrefixAlternation,
+  captionTargetType,
+  normalizeCaptionNum,
+  parseCaptionNum,
+} from './caption-number';
+
+describe('caption-number', () => {
+  test.each([
+    ['Fig.', 'figure'],
+    ['Figs', 'figure'],
+    ['TABLE', 'table'],
+    ['원색 사진', '원색사진'],
+    ['圖', '図'],
+  ])('canonicalCaptionPrefix(%s) is %s', (prefix, expected) => {
+    expect(canonicalCaptionPrefix(prefix)).toBe(expected);
+  });
+
+  test('normalizeCaptionNum removes leading zeros and unifies separators', () => {
+    expect(normalizeCaptionNum(' 03.02 ')).toBe('3-2');
+  });
+
+  test('parseCaptionNum splits the prefix and number', () => {
+    expect(parseCaptionNum('Table 3.2.')).toEqual({
+      prefix: 'Table',
+      num: '3-2',
+    });
+    expect(parseCaptionNum('12')).toBeUndefined();
+    expect(parseCaptionNum(undefined)).toBeUndefined();
+  });
+
+  test.each([
+    ['사진', 'image'],
+    ['Pls.', 'image'],
+    ['Tab.', 'table'],
+    ['遺物', undefined],
+  ])('captionTargetType(%s) is %s', (prefix, expected) => {
+    expect(captionTargetType(prefix)).toBe(expected);
+  });
+
+  test('captionPrefixAlternation orders prefixes longest first', () => {
+    const pattern = new RegExp(
+      `^(?:${captionPrefixAlternation(['사진', '원색사진', 'Fig'])})$`,
+    );
+
+    expect(captionPrefixAlternation(['사진', '원색사진', 'Fig'])).toBe(
+      '원색사진|Fig\\.?|사진',
+    );
+    expect(pattern.test('Fig.')).toBe(true);
+    expect(pattern.test('원색사진')).toBe(true);
+  });
+});
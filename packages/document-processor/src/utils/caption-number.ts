@@ -0,0 +1,117 @@
+/**
+ * Kind of resource a caption prefix refers to
+ */
+export type CaptionTargetType = 'image' | 'table';
+
+/**
+ * Caption prefixes of figures and tables in Korean, English, Japanese and
+ * Chinese reports
+ */
+export const CAPTION_PREFIXES: Record<CaptionTargetType, string[]> = {
+  image: [
+    '도면',
+    '사진',
+    '도판',
+    '삽도',
+    '그림',
+    '원색사진',
+    'Figure',
+    'Plate',
+    'Photo',
+    '図',
+    '写真',
+  ],
+  table: ['표', 'Table', '表'],
+};
+
+/**
+ * Abbreviations, plurals and variants mapped to one canonical prefix
+ * (compared in lowercase without dots or spaces)
+ */
+export const CAPTION_PREFIX_ALIASES: Record<string, string> = {
+  fig: 'figure',
+  figs: 'figure',
+  figures: 'figure',
+  pl: 'plate',
+  pls: 'plate',
+  plates: 'plate',
+  photos: 'photo',
+  tab: 'table',
+  tabs: 'table',
+  tables: 'table',
+  圖: '図',
+  寫眞: '写真',
+};
+
+/**
+ * Caption number such as "도판 1", "Table 3-2", "Fig.4"
+ */
+const CAPTION_NUM_PATTERN = /^(\D*?)\s*(\d+(?:[-.]\d+)*)\s*[.:]?$/;
+
+/**
+ * Lowercase prefix without dots or spaces, with aliases resolved
+ */
+export function canonicalCaptionPrefix(prefix: string): string {
+  const key = prefix.replace(/[\s.]/g, '').toLowerCase();
+  return CAPTION_PREFIX_ALIASES[key] ?? key;
+}
+
+/**
+ * Number with "-" between components and without leading zeros
+ */
+export function normalizeCaptionNum(num: string): string {
+  return num
+    .trim()
+    .split(/[-.]/)
+    .map((part) => String(Number(part)))
+    .join('-');
+}
+
+/**
+ * Split a caption number (`Caption.num`) into its prefix and number
+ *
+ * @returns undefined when the caption has no number or no prefix
+ */
+export function parseCaptionNum(
+  num: string | undefined,
+): { prefix: string; num: string } | undefined {
+  const match = num?.trim().match(CAPTION_NUM_PATTERN);
+  if (!match || !match[1].trim()) {
+    return undefined;
+  }
+  return {
+    prefix: match[1].trim(),
+    num: normalizeCaptionNum(match[2]),
+  };
+}
+
+/**
+ * Resource kind of a default caption prefix or alias
+ *
+ * @returns undefined for prefixes outside CAPTION_PREFIXES
+ */
+export function captionTargetType(
+  prefix: string,
+): CaptionTargetType | undefined {
+  const canonical = canonicalCaptionPrefix(prefix);
+  return (['image', 'table'] as const).find((type) =>
+    CAPTION_PREFIXES[type].some(
+      (candidate) => canonicalCaptionPrefix(candidate) === canonical,
+    ),
+  );
+}
+
+/**
+ * Regular expression alternation of caption prefixes, longest first
+ *
+ * Latin prefixes may be abbreviated with a dot ("Fig. 3").
+ */
+export function captionPrefixAlternation(surfaces: string[]): string {
+  return [...surfaces]
+    .sort((a, b) => b.length - a.length)
+    .map((surface) => {
+      const escaped = surface.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+      return /^[a-z]+$/i.test(surface) ? `${escaped}\\.?` : escaped;
+    })
+    .join('|');
+}
@@ -398,4 +398,58 @@ describe('IdGenerator', () => {
       expect(newGenerator.generateTextBlockId()).toBe('txt-001');
     });
   });
+
+  describe('content-hash strategy', () => {
+    const seed = { sourceRef: '#/texts/3', pageNo: 2, content: 'Intro' };
+
+    beforeEach(() => {
+      generator = new IdGenerator('content-hash');
+    });
+
+    test('should derive IDs from the seed regardless of order', () => {
+      const other = new IdGenerator('content-hash');
+      other.generateChapterId({ pageNo: 1, content: 'Preface' });
+
+      const id = generator.generateChapterId(seed);
+      expect(id).toMatch(/^ch-[0-9a-f]{12}$/);
+      expect(other.generateChapterId(seed)).toBe(id);
+    });
+
+    test('should use the type prefix for each item kind', () => {
+      expect(generator.generateImageId(seed)).toMatch(/^img-[0-9a-f]{12}$/);
+      expect(generator.generateTableId(seed)).toMatch(/^tbl-[0-9a-f]{12}$/);
+      expect(generator.generateFootnoteId(seed)).toMatch(/^ftn-[0-9a-f]{12}$/);
+      expect(generator.generateTextBlockId(seed)).toMatch(/^txt-[0-9a-f]{12}$/);
+    });
+
+    test('should change the ID when source ref, page or content changes', () => {
+      const ids = new Set([
+        generator.generateTextBlockId(seed),
+        generator.generateTextBlockId({ ...seed, sourceRef: '#/texts/4' }),
+        generator.generateTextBlockId({ ...seed, pageNo: 3 }),
+        generator.generateTextBlockId({ ...seed, content: 'Outro' }),
+      ]);
+      expect(ids.size).toBe(4);
+    });
+
+    test('should suffix IDs of identical seeds', () => {
+      const id = generator.generateTextBlockId(seed);
+      expect(generator.generateTextBlockId(seed)).toBe(`${id}-2`);
+      expect(generator.generateTextBlockId(seed)).toBe(`${id}-3`);
+    });
+
+    test('should forget issued IDs on reset', () => {
+      const id = generator.generateTextBlockId(seed);
+      generator.reset();
+      expect(generator.generateTextBlockId(seed)).toBe(id);
+    });
+
+    test('should fall back to sequential IDs without a seed', () => {
+      expect(generator.generateChapterId()).toBe('ch-001');
+    });
+
+    test('should ignore seeds with the sequential strategy', () => {
+      expect(new IdGenerator().generateChapterId(seed)).toBe('ch-001');
+    });
+  });
 });
@@ -1,70 +1,122 @@
+import { createHash } from 'node:crypto';
+
+/**
+ * How IDs are derived
+ *
+ * - `sequential`: `{prefix}-{number}` in generation order
+ * - `content-hash`: `{prefix}-{hash}` derived from the item's source ref,
+ *   page and content, so reprocessing the same document keeps its IDs
+ */
+export type IdStrategy = 'sequential' | 'content-hash';
+
+/**
+ * Item properties that a content-hash ID is derived from
+ */
+export interface IdSeed {
+  /** Docling self_ref of the source item (e.g. `#/texts/12`) */
+  sourceRef?: string;
+  pageNo: number;
+  /** Normalized text, caption or cell text of the item */
+  content: string;
+}
+
 /**
- * Generates sequential IDs for different types of items.
+ * Generates IDs for different types of items.
  *
- * IDs are formatted as: `{prefix}-{number}` where number is zero-padded to 3 digits.
+ * With the default `sequential` strategy, IDs are formatted as
+ * `{prefix}-{number}` where number is zero-padded to 3 digits.
  * - Chapters: ch-001, ch-002, ...
  * - Images: img-001, img-002, ...
  * - Tables: tbl-001, tbl-002, ...
  * - Text blocks: txt-001, txt-002, ...
  *
  * Each type maintains its own independent counter.
+ *
+ * With the `content-hash` strategy, IDs are formatted as `{prefix}-{hash}`
+ * where hash is the first 12 hex digits of the SHA-256 of the item's seed.
+ * Items with identical seeds get a `-2`, `-3`, ... suffix in generation
+ * order. Calls without a seed fall back to sequential IDs.
  */
 export class IdGenerator {
+  private readonly issuedHashIds = new Set<string>();
   private chapterCounter = 0;
   private imageCounter = 0;
   private tableCounter = 0;
   private footnoteCounter = 0;
   private textBlockCounter = 0;
 
+  constructor(private readonly strategy: IdStrategy = 'sequential') {}
+
   /**
    * Generate a chapter ID
+   * @param seed - Source of the ID under the `content-hash` strategy
    * @returns A chapter ID in the format "ch-001"
    */
-  generateChapterId(): string {
+  generateChapterId(seed?: IdSeed): string {
+    if (seed && this.strategy === 'content-hash') {
+      return this.hashId('ch', seed);
+    }
     this.chapterCounter++;
     return `ch-${this.padNumber(this.chapterCounter)}`;
   }
 
   /**
    * Generate an image ID
+   * @param seed - Source of the ID under the `content-hash` strategy
    * @returns An image ID in the format "img-001"
    */
-  generateImageId(): string {
+  generateImageId(seed?: IdSeed): string {
+    if (seed && this.strategy === 'content-hash') {
+      return this.hashId('img', seed);
+    }
     this.imageCounter++;
     return `img-${this.padNumber(this.imageCounter)}`;
   }
 
   /**
    * Generate a table ID
+   * @param seed - Source of the ID under the `content-hash` strategy
    * @returns A table ID in the format "tbl-001"
    */
-  generateTableId(): string {
+  generateTableId(seed?: IdSeed): string {
+    if (seed && this.strategy === 'content-hash') {
+      return this.hashId('tbl', seed);
+    }
     this.tableCounter++;
     return `tbl-${this.padNumber(this.tableCounter)}`;
   }
 
   /**
    * Generate a footnote ID
+   * @param seed - Source of the ID under the `content-hash` strategy
    * @returns A footnote ID in the format "ftn-001"
    */
-  generateFootnoteId(): string {
+  generateFootnoteId(seed?: IdSeed): string {
+    if (seed && this.strategy === 'content-hash') {
+      return this.hashId('ftn', seed);
+    }
     this.footnoteCounter++;
     return `ftn-${this.padNumber(this.footnoteCounter)}`;
   }
 
   /**
    * Generate a text block ID
+   * @param seed - Source of the ID under the `content-hash` strategy
    * @returns A text block ID in the format "txt-001"
    */
-  generateTextBlockId(): string {
+  generateTextBlockId(seed?: IdSeed): string {
+    if (seed && this.strategy === 'content-hash') {
+      return this.hashId('txt', seed);
+    }
     this.textBlockCounter++;
     return `txt-${this.padNumber(this.textBlockCounter)}`;
   }
 
   /**
-   * Reset all counters to zero
+   * Reset all counters to zero and forget issued content-hash IDs
    */
   reset(): void {
+    this.issuedHashIds.clear();
     this.chapterCounter = 0;
     this.imageCounter = 0;
     this.tableCounter = 0;
@@ -91,6 +143,26 @@ export class IdGenerator {
     };
   }
 
+  /**
+   * Hash the seed and suffix the ID when an identical seed was already used
+   */
+  private hashId(prefix: string, seed: IdSeed): string {
+    const hash = createHash('sha256')
+      .update(
+        JSON.stringify([seed.sourceRef ?? null, seed.pageNo, seed.content]),
+      )
+      .digest('hex')
+      .slice(0, 12);
+    const baseId = `${prefix}-${hash}`;
+
+    let id = baseId;
+    for (let n = 2; this.issuedHashIds.has(id); n++) {
+      id = `${baseId}-${n}`;
+    }
+    this.issuedHashIds.add(id);
+    return id;
+  }
+
   /**
    * Pad a number to 3 digits with leading zeros
    */
@@ -0,0 +1,236 @@
+import { describe, expect, test } from 'vitest';
+
+import {
+  createChapter,
+  createDocument,
+  createPart,
+} from '../testing/processed-document-fixtures';
+import { buildIdMappingReport } from './id-mapping-report';
+
+describe('buildIdMappingReport', () => {
+  test('matches items by source ref', () => {
+    const previous = createDocument({
+      images: [
+        {
+          id: 'img-001',
+          sourceRef: '#/pictures/0',
+          path: 'images/image_0.png',
+          pdfPageNo: 2,
+        },
+      ],
+      footnotes: [
+        { id: 'ftn-001', sourceRef: '#/texts/9', text: '주석', pdfPageNo: 4 },
+      ],
+    });
+    const current = createDocument({
+      reportId: 'report-1-rerun',
+      images: [
+        {
+          id: 'img-a1b2c3d4e5f6',
+          sourceRef: '#/pictures/0',
+          path: 'images/image_0.png',
+          pdfPageNo: 2,
+        },
+      ],
+      footnotes: [
+        {
+          id: 'ftn-0a1b2c3d4e5f',
+          sourceRef: '#/texts/9',
+          text: '수정된 주석',
+          pdfPageNo: 4,
+        },
+      ],
+    });
+
+    const report = buildIdMappingReport(previous, current);
+
+    expect(report.previousReportId).toBe('report-1');
+    expect(report.currentReportId).toBe('report-1-rerun');
+    expect(report.images).toEqual({
+      mappings: [
+        {
+          previousId: 'img-001',
+          currentId: 'img-a1b2c3d4e5f6',
+          matchedBy: 'sourceRef',
+        },
+      ],
+      removedIds: [],
+      addedIds: [],
+    });
+    expect(report.footnotes.mappings).toEqual([
+      {
+        previousId: 'ftn-001',
+        currentId: 'ftn-0a1b2c3d4e5f',
+        matchedBy: 'sourceRef',
+      },
+    ]);
+  });
+
+  test('falls back to page and content when source refs changed', () => {
+    const previous = createDocument({
+      tables: [
+        {
+          id: 'tbl-001',
+          sourceRef: '#/tables/0',
+          pdfPageNo: 3,
+          numRows: 1,
+          numCols: 1,
+          grid: [[{ text: '유구', rowSpan: 1, colSpan: 1, isHeader: true }]],
+        },
+      ],
+    });
+    const current = createDocument({
+      tables: [
+        {
+          id: 'tbl-002',
+          sourceRef: '#/tables/1',
+          pdfPageNo: 3,
+          numRows: 1,
+          numCols: 1,
+          grid: [[{ text: '유구', rowSpan: 1, colSpan: 1, isHeader: true }]],
+        },
+      ],
+    });
+
+    expect(buildIdMappingReport(previous, current).tables.mappings).toEqual([
+      { previousId: 'tbl-001', currentId: 'tbl-002', matchedBy: 'content' },
+    ]);
+  });
+
+  test('maps nested chapters and their text blocks', () => {
+    const previous = createDocument({
+      chapters: [
+        createChapter('ch-000', 'Front Matter'),
+        createChapter('ch-001', 'Ⅰ. 조사개요', {
+          sourceRefs: ['#/texts/1'],
+          textBlocks: [
+            {
+              id: 'txt-001',
+              sourceRef: '#/texts/2',
+              text: '본문',
+              pdfPageNo: 1,
+            },
+            { text: 'ID 없는 본문', pdfPageNo: 1 },
+          ],
+          children: [
+            createChapter('ch-002', '1. 조사경위', { level: 2, pageNo: 2 }),
+          ],
+        }),
+      ],
+    });
+    const current = createDocument({
+      chapters: [
+        createChapter('ch-000', 'Front Matter'),
+        createChapter('ch-aaaaaaaaaaaa', 'Ⅰ. 조사개요', {
+          sourceRefs: ['#/texts/1'],
+          textBlocks: [
+            {
+              id: 'txt-bbbbbbbbbbbb',
+              sourceRef: '#/texts/2',
+              text: '본문',
+              pdfPageNo: 1,
+            },
+          ],
+          children: [
+            createChapter('ch-cccccccccccc', '1. 조사경위', {
+              level: 2,
+              pageNo: 2,
+            }),
+          ],
+        }),
+      ],
+    });
+
+    const report = buildIdMappingReport(previous, current);
+
+    expect(report.chapters.mappings).toEqual([
+      {
+        previousId: 'ch-001',
+        currentId: 'ch-aaaaaaaaaaaa',
+        matchedBy: 'sourceRef',
+      },
+      { previousId: 'ch-000', currentId: 'ch-000', matchedBy: 'content' },
+      {
+        previousId: 'ch-002',
+        currentId: 'ch-cccccccccccc',
+        matchedBy: 'content',
+      },
+    ]);
+    expect(report.textBlocks.mappings).toEqual([
+      {
+        previousId: 'txt-001',
+        currentId: 'txt-bbbbbbbbbbbb',
+        matchedBy: 'sourceRef',
+      },
+    ]);
+  });
+
+  test('maps chapters and text blocks of parts', () => {
+    const partChapter = (id: string, blockId: string) =>
+      createChapter(id, 'Ⅰ. 분석 방법', {
+        sourceRefs: ['#/texts/40'],
+        textBlocks: [
+          {
+            id: blockId,
+            sourceRef: '#/texts/41',
+            text: '시료를 채취하였다.',
+            pdfPageNo: 11,
+          },
+        ],
+      });
+    const previous = createDocument({
+      parts: [
+        createPart({ chapters: [partChapter('part-001-ch-001', 'txt-010')] }),
+      ],
+    });
+    const current = createDocument({
+      parts: [
+        createPart({
+          chapters: [partChapter('ch-dddddddddddd', 'txt-eeeeeeeeeeee')],
+        }),
+      ],
+    });
+
+    const report = buildIdMappingReport(previous, current);
+
+    expect(report.chapters.mappings).toEqual([
+      {
+        previousId: 'part-001-ch-001',
+        currentId: 'ch-dddddddddddd',
+        matchedBy: 'sourceRef',
+      },
+    ]);
+    expect(report.textBlocks.mappings).toEqual([
+      {
+        previousId: 'txt-010',
+        currentId: 'txt-eeeeeeeeeeee',
+        matchedBy: 'sourceRef',
+      },
+    ]);
+  });
+
+  test('reports removed and added IDs and matches duplicates once', () => {
+    const footnote = { text: '같은 주석', pdfPageNo: 5 };
+    const previous = createDocument({
+      footnotes: [
+        { id: 'ftn-001', ...footnote },
+        { id: 'ftn-002', ...footnote },
+        { id: 'ftn-003', text: '삭제된 주석', pdfPageNo: 6 },
+      ],
+    });
+    const current = createDocument({
+      footnotes: [
+        { id: 'ftn-101', ...footnote },
+        { id: 'ftn-102', text: '새 주석', pdfPageNo: 6 },
+      ],
+    });
+
+    expect(buildIdMappingReport(previous, current).footnotes).toEqual({
+      mappings: [
+        { previousId: 'ftn-001', currentId: 'ftn-101', matchedBy: 'content' },
+      ],
+      removedIds: ['ftn-002', 'ftn-003'],
+      addedIds: ['ftn-102'],
+    });
+  });
+});
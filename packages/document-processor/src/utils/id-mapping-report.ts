@@ -0,0 +1,147 @@
+import type { ProcessedDocument } from '@heripo/model';
+
+import { flattenDocumentChapters, matchByKey } from './item-matcher';
+
+/**
+ * How an item of the previous run was matched to the current run
+ *
+ * - `sourceRef`: same Docling source ref
+ * - `content`: same page and content, used when source refs changed
+ */
+export type IdMatchMethod = 'sourceRef' | 'content';
+
+export interface IdMapping {
+  previousId: string;
+  currentId: string;
+  matchedBy: IdMatchMethod;
+}
+
+export interface IdMappingSection {
+  mappings: IdMapping[];
+  /** Previous IDs without a counterpart in the current run */
+  removedIds: string[];
+  /** Current IDs without a counterpart in the previous run */
+  addedIds: string[];
+}
+
+/**
+ * Maps chapter, text block, image, table and footnote IDs of one processing
+ * run to another run of the same report
+ */
+export interface IdMappingReport {
+  previousReportId: string;
+  currentReportId: string;
+  chapters: IdMappingSection;
+  textBlocks: IdMappingSection;
+  images: IdMappingSection;
+  tables: IdMappingSection;
+  footnotes: IdMappingSection;
+}
+
+interface MatchableItem {
+  id: string;
+  sourceRef?: string;
+  contentKey: string;
+}
+
+function collectItems(document: ProcessedDocument) {
+  const chapters = flattenDocumentChapters(document);
+
+  return {
+    chapters: chapters.map((chapter) => ({
+      id: chapter.id,
+      sourceRef: chapter.sourceRefs?.[0],
+      contentKey: `${chapter.level}|${chapter.pageNo}|${chapter.title}`,
+    })),
+    textBlocks: chapters.flatMap((chapter) =>
+      chapter.textBlocks.flatMap((block) =>
+        block.id === undefined
+          ? []
+          : [
+              {
+                id: block.id,
+                sourceRef: block.sourceRef,
+                contentKey: `${block.pdfPageNo}|${block.text}`,
+              },
+            ],
+      ),
+    ),
+    images: document.images.map((image) => ({
+      id: image.id,
+      sourceRef: image.sourceRef,
+      contentKey: `${image.pdfPageNo}|${image.caption?.fullText ?? ''}`,
+    })),
+    tables: document.tables.map((table) => ({
+      id: table.id,
+      sourceRef: table.sourceRef,
+      contentKey: `${table.pdfPageNo}|${table.grid
+        .map((row) => row.map((cell) => cell.text).join('\t'))
+        .join('\n')}`,
+    })),
+    footnotes: document.footnotes.map((footnote) => ({
+      id: footnote.id,
+      sourceRef: footnote.sourceRef,
+      contentKey: `${footnote.pdfPageNo}|${footnote.text}`,
+    })),
+  } satisfies Record<string, MatchableItem[]>;
+}
+
+/**
+ * Match items by source ref first, then by content among the leftovers.
+ * Each item is matched at most once, in document order.
+ */
+function matchItems(
+  previous: MatchableItem[],
+  current: MatchableItem[],
+): IdMappingSection {
+  const bySourceRef = matchByKey(previous, current, (item) => item.sourceRef);
+  const byContent = matchByKey(
+    bySourceRef.unmatchedPrevious,
+    bySourceRef.unmatchedCurrent,
+    (item) => item.contentKey,
+  );
+
+  const toMappings = (
+    pairs: typeof bySourceRef.pairs,
+    matchedBy: IdMatchMethod,
+  ): IdMapping[] =>
+    pairs.map((pair) => ({
+      previousId: pair.previous.id,
+      currentId: pair.current.id,
+      matchedBy,
+    }));
+
+  return {
+    mappings: [
+      ...toMappings(bySourceRef.pairs, 'sourceRef'),
+      ...toMappings(byContent.pairs, 'content'),
+    ],
+    removedIds: byContent.unmatchedPrevious.map((item) => item.id),
+    addedIds: byContent.unmatchedCurrent.map((item) => item.id),
+  };
+}
+
+/**
+ * Build a report mapping the IDs of a previous ProcessedDocument to the IDs
+ * of a reprocessed one, so stored links and annotations can be migrated.
+ *
+ * Works with any ID strategy; with `content-hash` IDs most mappings keep the
+ * same ID and only edited or re-detected items change.
+ */
+export function buildIdMappingReport(
+  previous: ProcessedDocument,
+  current: ProcessedDocument,
+): IdMappingReport {
+  const previousItems = collectItems(previous);
+  const currentItems = collectItems(current);
+
+  return {
+    previousReportId: previous.reportId,
+    currentReportId: current.reportId,
+    chapters: matchItems(previousItems.chapters, currentItems.chapters),
+    textBlocks: matchItems(previousItems.textBlocks, currentItems.textBlocks),
+    images: matchItems(previousItems.images, currentItems.images),
+    tables: matchItems(previousItems.tables, currentItems.tables),
+    footnotes: matchItems(previousItems.footnotes, currentItems.footnotes),
+  };
+}
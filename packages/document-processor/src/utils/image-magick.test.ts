@@ -0,0 +1,116 @@
+import { spawnAsync } from '@heripo/shared';
+import { beforeEach, describe, expect, test, vi } from 'vitest';
+
+import { readGraySample, runMagick } from './image-magick';
+
+vi.mock('@heripo/shared', () => ({
+  spawnAsync: vi.fn(),
+}));
+
+const mockSpawnAsync = vi.mocked(spawnAsync);
+
+describe('image-magick', () => {
+  beforeEach(() => {
+    mockSpawnAsync.mockReset();
+  });
+
+  describe('runMagick', () => {
+    test('returns the result of a run', async () => {
+      mockSpawnAsync.mockResolvedValueOnce({
+        stdout: '400 200',
+        stderr: '',
+        code: 0,
+      });
+
+      const result = await runMagick(['identify', 'image.png']);
+
+      expect(mockSpawnAsync).toHaveBeenCalledWith('magick', [
+        'identify',
+        'image.png',
+      ]);
+      expect(result).toEqual({
+        stdout: '400 200',
+        stderr: 'Unknown error',
+        code: 0,
+      });
+    });
+
+    test('keeps the error output of a failed run', async () => {
+      mockSpawnAsync.mockResolvedValueOnce({
+        stdout: '',
+        stderr: 'unable to open image',
+        code: 1,
+      });
+
+      expect(await runMagick(['identify', 'missing.png'])).toEqual({
+        stdout: '',
+        stderr: 'unable to open image',
+        code: 1,
+      });
+    });
+
+    test('reports a failed spawn as a failed run', async () => {
+      mockSpawnAsync.mockRejectedValueOnce(new Error('spawn magick ENOENT'));
+      mockSpawnAsync.mockRejectedValueOnce('killed');
+
+      expect(await runMagick([])).toEqual({
+        stdout: '',
+        stderr: 'spawn magick ENOENT',
+        code: -1,
+      });
+      expect(await runMagick([])).toEqual({
+        stdout: '',
+        stderr: 'killed',
+        code: -1,
+      });
+    });
+  });
+
+  describe('readGraySample', () => {
+    test('parses plain PGM output scaled to 0-255', async () => {
+      mockSpawnAsync.mockResolvedValueOnce({
+        stdout: 'P2\n3 1\n15\n0 15 5\n',
+        stderr: '',
+        code: 0,
+      });
+
+      const sample = await readGraySample('/images/image_0.png', 3, 1);
+
+      expect(mockSpawnAsync).toHaveBeenCalledWith('magick', [
+        '/images/image_0.png',
+        '-resize',
+        '3x1!',
+        '-colorspace',
+        'Gray',
+        '-depth',
+        '8',
+        '-compress',
+        'none',
+        'pgm:-',
+      ]);
+      expect(sample).toEqual({ width: 3, height: 1, values: [0, 255, 85] });
+    });
+
+    test('returns the error message for failed runs and other output', async () => {
+      mockSpawnAsync.mockResolvedValueOnce({
+        stdout: '',
+        stderr: 'no decode delegate',
+        code: 1,
+      });
+      mockSpawnAsync.mockResolvedValueOnce({
+        stdout: 'P5 binary',
+        stderr: '',
+        code: 0,
+      });
+      mockSpawnAsync.mockResolvedValueOnce({
+        stdout: 'P2\n2 2\n255\n0 0 0',
+        stderr: '',
+        code: 0,
+      });
+
+      expect(await readGraySample('a.png', 2, 2)).toBe('no decode delegate');
+      expect(await readGraySample('b.png', 2, 2)).toBe('Unknown error');
+      expect(await readGraySample('c.png', 2, 2)).toBe('Unknown error');
+    });
+  });
+});
@@ -0,0 +1,72 @@
+import type { SpawnResult } from '@heripo/shared';
+
+import { spawnAsync } from '@heripo/shared';
+
+/**
+ * Downscaled 8-bit grayscale image, row-major
+ */
+export interface GraySample {
+  width: number;
+  height: number;
+  values: number[];
+}
+
+/**
+ * Run ImageMagick, reporting a missing binary as a failed run
+ *
+ * Failed runs always carry a non-empty `stderr` for logging.
+ */
+export async function runMagick(args: string[]): Promise<SpawnResult> {
+  try {
+    const result = await spawnAsync('magick', args);
+    return { ...result, stderr: result.stderr || 'Unknown error' };
+  } catch (error) {
+    return {
+      stdout: '',
+      stderr: error instanceof Error ? error.message : String(error),
+      code: -1,
+    };
+  }
+}
+
+/**
+ * Read an image file as a grayscale sample of the given size
+ *
+ * The image is stretched to exactly `width` x `height` and read back as
+ * plain PGM.
+ *
+ * @returns The sample, or the ImageMagick error message
+ */
+export async function readGraySample(
+  imagePath: string,
+  width: number,
+  height: number,
+): Promise<GraySample | string> {
+  const result = await runMagick([
+    imagePath,
+    '-resize',
+    `${width}x${height}!`,
+    '-colorspace',
+    'Gray',
+    '-depth',
+    '8',
+    '-compress',
+    'none',
+    'pgm:-',
+  ]);
+  // P2 <width> <height> <maxval> <values...>
+  const [magic, ...numbers] = result.stdout.trim().split(/\s+/);
+  const [sampleWidth, sampleHeight, maxValue, ...values] = numbers.map(Number);
+  if (
+    result.code !== 0 ||
+    magic !== 'P2' ||
+    values.length !== sampleWidth * sampleHeight
+  ) {
+    return result.stderr;
+  }
+  return {
+    width: sampleWidth,
+    height: sampleHeight,
+    values: values.map((value) => Math.round((value / maxValue) * 255)),
+  };
+}
@@ -0,0 +1,18 @@
+import * as path from 'node:path';
+import { describe, expect, test } from 'vitest';
+
+import { resolveImagePath } from './image-path';
+
+describe('resolveImagePath', () => {
+  test('resolves paths that include the artifact directory from the working directory', () => {
+    expect(resolveImagePath('output/report-001/images/image_0.png')).toBe(
+      path.join(process.cwd(), 'output/report-001/images/image_0.png'),
+    );
+  });
+
+  test('keeps absolute paths', () => {
+    expect(resolveImagePath('/out/images/image_0.png')).toBe(
+      '/out/images/image_0.png',
+    );
+  });
+});
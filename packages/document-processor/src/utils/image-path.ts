@@ -0,0 +1,12 @@
+import * as path from 'node:path';
+
+/**
+ * Resolve the file of a processed image or sub-figure
+ *
+ * `ProcessedImage.path` and `ProcessedSubFigure.path` already include the
+ * artifact directory, so they resolve against the working directory instead
+ * of `artifactDir` like the page images read by vision components.
+ */
+export function resolveImagePath(imagePath: string): string {
+  return path.resolve(imagePath);
+}
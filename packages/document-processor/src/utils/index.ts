@@ -1,5 +1,48 @@
 export { RefResolver } from './ref-resolver';
+export { LayoutRegionResolver } from './layout-region-resolver';
 export { IdGenerator } from './id-generator';
+export type { IdSeed, IdStrategy } from './id-generator';
+export { buildIdMappingReport } from './id-mapping-report';
+export {
+  flattenChapters,
+  flattenDocumentChapters,
+  matchByKey,
+} from './item-matcher';
+export type { KeyMatchResult } from './item-matcher';
+export type {
+  IdMapping,
+  IdMappingReport,
+  IdMappingSection,
+  IdMatchMethod,
+} from './id-mapping-report';
 export { TextCleaner } from './text-cleaner';
 export { MarkdownConverter } from './markdown-converter';
 export { extractMaxPageNumber } from './toc-markdown-utils';
+export {
+  formatPageNumeral,
+  isLabeledPageRange,
+  parsePageLabel,
+} from './page-numeral';
+export type { ParsedPageNumeral } from './page-numeral';
+export {
+  CAPTION_PREFIXES,
+  CAPTION_PREFIX_ALIASES,
+  canonicalCaptionPrefix,
+  captionPrefixAlternation,
+  captionTargetType,
+  normalizeCaptionNum,
+  parseCaptionNum,
+} from './caption-number';
+export type { CaptionTargetType } from './caption-number';
+export { parseSubFigureLabels } from './sub-figure-caption';
+export type { SubFigureLabel } from './sub-figure-caption';
+export { findWhitespaceCells } from './whitespace-grid';
+export type { WhitespaceGridOptions } from './whitespace-grid';
+export { readGraySample, runMagick } from './image-magick';
+export { resolveImagePath } from './image-path';
+export type { GraySample } from './image-magick';
+export {
+  DIFFERENCE_HASH_SAMPLE,
+  differenceHash,
+  hammingDistance,
+} from './perceptual-hash';
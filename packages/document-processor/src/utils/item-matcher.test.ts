@@ -0,0 +1,99 @@
+import { describe, expect, test } from 'vitest';
+
+import {
+  createChapter,
+  createDocument,
+  createPart,
+} from '../testing/processed-document-fixtures';
+import {
+  flattenChapters,
+  flattenDocumentChapters,
+  matchByKey,
+} from './item-matcher';
+
+describe('flattenChapters', () => {
+  test('lists parents before their children in document order', () => {
+    const chapters = [
+      createChapter('ch-1', 'One', {
+        children: [
+          createChapter('ch-1-1', 'One.One', {
+            children: [createChapter('ch-1-1-1', 'One.One.One')],
+          }),
+        ],
+      }),
+      createChapter('ch-2', 'Two'),
+    ];
+
+    expect(flattenChapters(chapters).map((chapter) => chapter.id)).toEqual([
+      'ch-1',
+      'ch-1-1',
+      'ch-1-1-1',
+      'ch-2',
+    ]);
+  });
+});
+
+describe('flattenDocumentChapters', () => {
+  test('lists main report chapters before part chapters', () => {
+    const document = createDocument({
+      chapters: [createChapter('ch-1', 'One')],
+      parts: [
+        createPart({
+          chapters: [
+            createChapter('part-001-ch-1', 'Part One', {
+              children: [createChapter('part-001-ch-1-1', 'Part One.One')],
+            }),
+          ],
+        }),
+      ],
+    });
+
+    expect(
+      flattenDocumentChapters(document).map((chapter) => chapter.id),
+    ).toEqual(['ch-1', 'part-001-ch-1', 'part-001-ch-1-1']);
+    expect(flattenDocumentChapters(createDocument({ chapters: [] }))).toEqual(
+      [],
+    );
+  });
+});
+
+describe('matchByKey', () => {
+  interface Item {
+    id: string;
+    key?: string;
+  }
+
+  test('pairs items with equal keys once each, in document order', () => {
+    const previous: Item[] = [
+      { id: 'p1', key: 'a' },
+      { id: 'p2', key: 'a' },
+      { id: 'p3', key: 'b' },
+    ];
+    const current: Item[] = [
+      { id: 'c1', key: 'b' },
+      { id: 'c2', key: 'a' },
+    ];
+
+    const result = matchByKey(previous, current, (item) => item.key);
+
+    expect(
+      result.pairs.map((pair) => [pair.previous.id, pair.current.id]),
+    ).toEqual([
+      ['p1', 'c2'],
+      ['p3', 'c1'],
+    ]);
+    expect(result.unmatchedPrevious.map((item) => item.id)).toEqual(['p2']);
+    expect(result.unmatchedCurrent).toEqual([]);
+  });
+
+  test('leaves items without a key unmatched', () => {
+    const previous: Item[] = [{ id: 'p1' }];
+    const current: Item[] = [{ id: 'c1' }, { id: 'c2', key: 'a' }];
+
+    const result = matchByKey(previous, current, (item) => item.key);
+
+    expect(result.pairs).toEqual([]);
+    expect(result.unmatchedPrevious).toEqual(previous);
+    expect(result.unmatchedCurrent).toEqual(current);
+  });
+});
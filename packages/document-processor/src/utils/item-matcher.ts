@@ -0,0 +1,69 @@
+import type { Chapter, ProcessedDocument } from '@heripo/model';
+
+export interface KeyMatchResult<T> {
+  pairs: Array<{ previous: T; current: T }>;
+  /** Previous items without a counterpart, in document order */
+  unmatchedPrevious: T[];
+  /** Current items without a counterpart, in document order */
+  unmatchedCurrent: T[];
+}
+
+/**
+ * Flatten a chapter tree in document order (parents before children)
+ */
+export function flattenChapters(chapters: Chapter[]): Chapter[] {
+  return chapters.flatMap((chapter) => [
+    chapter,
+    ...flattenChapters(chapter.children ?? []),
+  ]);
+}
+
+/**
+ * Flatten the chapters of the main report followed by those of each part
+ */
+export function flattenDocumentChapters(
+  document: ProcessedDocument,
+): Chapter[] {
+  return flattenChapters([
+    ...document.chapters,
+    ...(document.parts ?? []).flatMap((part) => part.chapters),
+  ]);
+}
+
+/**
+ * Pair items of two processing runs with equal keys, e.g. Docling source
+ * refs. Each item is matched at most once, in document order; items without
+ * a key are left unmatched.
+ */
+export function matchByKey<T>(
+  previous: Iterable<T>,
+  current: Iterable<T>,
+  keyOf: (item: T) => string | undefined,
+): KeyMatchResult<T> {
+  const candidates = new Map<string, T[]>();
+  const unmatchedCurrent = new Set(current);
+  for (const item of unmatchedCurrent) {
+    const key = keyOf(item);
+    if (key === undefined) continue;
+    candidates.set(key, [...(candidates.get(key) ?? []), item]);
+  }
+
+  const pairs: KeyMatchResult<T>['pairs'] = [];
+  const unmatchedPrevious: T[] = [];
+  for (const item of previous) {
+    const key = keyOf(item);
+    const match = key === undefined ? undefined : candidates.get(key)?.shift();
+    if (match === undefined) {
+      unmatchedPrevious.push(item);
+      continue;
+    }
+    pairs.push({ previous: item, current: match });
+    unmatchedCurrent.delete(match);
+  }
+
+  return {
+    pairs,
+    unmatchedPrevious,
+    unmatchedCurrent: [...unmatchedCurrent],
+  };
+}
@@ -0,0 +1,261 @@
+import type { LoggerMethods } from '@heripo/logger';
+import type {
+  Chapter,
+  DoclingDocument,
+  DoclingProv,
+  ProcessedDocument,
+} from '@heripo/model';
+
+import { beforeEach, describe, expect, test, vi } from 'vitest';
+
+import { LayoutRegionResolver } from './layout-region-resolver';
+import { RefResolver } from './ref-resolver';
+
+describe('LayoutRegionResolver', () => {
+  let mockLogger: LoggerMethods;
+
+  beforeEach(() => {
+    mockLogger = {
+      info: vi.fn(),
+      warn: vi.fn(),
+      error: vi.fn(),
+      debug: vi.fn(),
+    };
+  });
+
+  const prov = (
+    pageNo: number,
+    [l, t, r, b]: number[],
+    coordOrigin = 'BOTTOMLEFT',
+  ): DoclingProv => ({
+    page_no: pageNo,
+    bbox: { l, t, r, b, coord_origin: coordOrigin },
+    charspan: [0, 0],
+  });
+
+  const node = (selfRef: string, provs: DoclingProv[]) => ({
+    self_ref: selfRef,
+    children: [],
+    content_layer: 'body',
+    label: 'text',
+    prov: provs,
+    text: 'text',
+    orig: 'text',
+  });
+
+  const doclingDoc = {
+    texts: [
+      node('#/texts/0', [prov(1, [50, 800, 300, 780])]),
+      // Paragraph continued in the next column
+      node('#/texts/1', [
+        prov(1, [50, 700, 280, 600]),
+        prov(1, [310, 790, 540, 720]),
+      ]),
+      node('#/texts/2', [prov(2, [60, 100, 300, 80])]),
+      // Page without a known size
+      node('#/texts/3', [prov(9, [0, 10, 10, 0])]),
+    ],
+    pictures: [
+      node('#/pictures/0', [prov(1, [400, 200, 100, 500], 'TOPLEFT')]),
+    ],
+    tables: [
+      node('#/tables/0', [prov(1, [40, 300, 550, 60])]),
+      node('#/tables/1', [prov(2, [40, 780, 550, 500])]),
+    ],
+    groups: [],
+    pages: {
+      '1': { page_no: 1, size: { width: 595, height: 842 } },
+      '2': { page_no: 2, size: { width: 595, height: 842 } },
+    },
+  } as unknown as DoclingDocument;
+
+  const createResolver = () =>
+    new LayoutRegionResolver(
+      mockLogger,
+      doclingDoc,
+      new RefResolver(mockLogger, doclingDoc),
+    );
+
+  const pageSize = { pageWidth: 595, pageHeight: 842 };
+
+  test('flips bottom-left boxes to a top-left origin', () => {
+    expect(createResolver().resolveRegions(['#/texts/0'])).toEqual([
+      {
+        pdfPageNo: 1,
+        bbox: { left: 50, top: 42, right: 300, bottom: 62 },
+        ...pageSize,
+      },
+    ]);
+  });
+
+  test('keeps top-left boxes and orders inverted edges', () => {
+    expect(createResolver().resolveRegions(['#/pictures/0'])).toEqual([
+      {
+        pdfPageNo: 1,
+        bbox: { left: 100, top: 200, right: 400, bottom: 500 },
+        ...pageSize,
+      },
+    ]);
+  });
+
+  test('returns one region per provenance entry and skips unknown pages', () => {
+    expect(
+      createResolver().resolveRegions(['#/texts/1', '#/texts/3', '#/texts/99']),
+    ).toEqual([
+      {
+        pdfPageNo: 1,
+        bbox: { left: 50, top: 142, right: 280, bottom: 242 },
+        ...pageSize,
+      },
+      {
+        pdfPageNo: 1,
+        bbox: { left: 310, top: 52, right: 540, bottom: 122 },
+        ...pageSize,
+      },
+    ]);
+  });
+
+  test('sets regions on every item kind of a processed document', () => {
+    const chapter = (
+      id: string,
+      sourceRefs: Array<string | undefined>,
+      children?: Chapter[],
+    ): Chapter => ({
+      id,
+      originTitle: id,
+      title: id,
+      pageNo: 1,
+      level: 1,
+      textBlocks: sourceRefs.map((sourceRef) => ({
+        ...(sourceRef ? { sourceRef } : {}),
+        text: 'text',
+        pdfPageNo: 1,
+      })),
+      imageIds: [],
+      tableIds: [],
+      footnoteIds: [],
+      ...(children ? { children } : {}),
+    });
+    const document: ProcessedDocument = {
+      reportId: 'report-001',
+      pageRangeMap: {},
+      chapters: [
+        chapter('ch-001', ['#/texts/0', undefined], [chapter('ch-002', [])]),
+      ],
+      parts: [
+        {
+          id: 'part-001',
+          startPdfPageNo: 2,
+          endPdfPageNo: 2,
+          pageRangeMap: {},
+          chapterSource: 'heading-inference',
+          chapters: [chapter('part-001-ch-000', ['#/texts/1'])],
+        },
+      ],
+      images: [
+        {
+          id: 'img-001',
+          sourceRef: '#/pictures/0',
+          pdfPageNo: 1,
+          path: '',
+          subFigures: [
+            {
+              id: 'img-001-1',
+              label: '①',
+              bbox: { left: 0.5, top: 0, right: 1, bottom: 0.5 },
+              path: '',
+            },
+          ],
+        },
+        {
+          id: 'img-002',
+          pdfPageNo: 1,
+          path: '',
+          subFigures: [
+            {
+              id: 'img-002-1',
+              label: '①',
+              bbox: { left: 0, top: 0, right: 1, bottom: 1 },
+              path: '',
+            },
+          ],
+        },
+      ],
+      tables: [
+        {
+          id: 'tbl-001',
+          sourceRef: '#/tables/0',
+          fragmentSourceRefs: ['#/tables/0', '#/tables/1'],
+          pdfPageNo: 1,
+          numRows: 0,
+          numCols: 0,
+          grid: [],
+        },
+        {
+          id: 'tbl-002',
+          sourceRef: '#/tables/1',
+          pdfPageNo: 2,
+          numRows: 0,
+          numCols: 0,
+          grid: [],
+        },
+      ],
+      footnotes: [
+        {
+          id: 'ftn-001',
+          sourceRef: '#/texts/2',
+          text: 'note',
+          pdfPageNo: 2,
+        },
+      ],
+    };
+
+    createResolver().apply(document);
+
+    const [blockWithRef, blockWithoutRef] = document.chapters[0].textBlocks;
+    expect(blockWithRef.regions).toHaveLength(1);
+    expect(blockWithoutRef).not.toHaveProperty('regions');
+    expect(document.parts![0].chapters[0].textBlocks[0].regions).toHaveLength(
+      2,
+    );
+    expect(document.images[0].regions).toHaveLength(1);
+    expect(document.images[0].subFigures![0].regions).toEqual([
+      {
+        pdfPageNo: 1,
+        bbox: { left: 250, top: 200, right: 400, bottom: 350 },
+        ...pageSize,
+      },
+    ]);
+    expect(document.images[1]).not.toHaveProperty('regions');
+    expect(document.images[1].subFigures![0]).not.toHaveProperty('regions');
+    expect(document.tables[0].regions?.map((r) => r.pdfPageNo)).toEqual([1, 2]);
+    expect(document.tables[1].regions?.map((r) => r.pdfPageNo)).toEqual([2]);
+    expect(document.footnotes[0].regions).toEqual([
+      {
+        pdfPageNo: 2,
+        bbox: { left: 60, top: 742, right: 300, bottom: 762 },
+        ...pageSize,
+      },
+    ]);
+    expect(mockLogger.info).toHaveBeenCalledWith(
+      '[LayoutRegionResolver] Attached layout regions to 7 items',
+    );
+  });
+
+  test('handles documents without parts', () => {
+    const document: ProcessedDocument = {
+      reportId: 'report-001',
+      pageRangeMap: {},
+      chapters: [],
+      images: [],
+      tables: [],
+      footnotes: [],
+    };
+
+    createResolver().apply(document);
+
+    expect(mockLogger.info).toHaveBeenCalledWith(
+      '[LayoutRegionResolver] Attached layout regions to 0 items',
+    );
+  });
+});
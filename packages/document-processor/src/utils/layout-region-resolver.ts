@@ -0,0 +1,155 @@
+import type { LoggerMethods } from '@heripo/logger';
+import type {
+  Chapter,
+  DoclingDocument,
+  DoclingProv,
+  LayoutRegion,
+  ProcessedDocument,
+  RelativeBoundingBox,
+} from '@heripo/model';
+
+import type { RefResolver } from './ref-resolver';
+
+/**
+ * Resolves Docling provenance of processed items into layout regions.
+ *
+ * Each `prov` entry of the source item becomes one region with a top-left
+ * origin bounding box and the size of its page, so a viewer can highlight the
+ * item without knowing Docling's coordinate conventions. Entries on pages
+ * without a known size are skipped.
+ */
+export class LayoutRegionResolver {
+  private readonly logger: LoggerMethods;
+  private readonly doc: DoclingDocument;
+  private readonly refResolver: RefResolver;
+
+  constructor(
+    logger: LoggerMethods,
+    doc: DoclingDocument,
+    refResolver: RefResolver,
+  ) {
+    this.logger = logger;
+    this.doc = doc;
+    this.refResolver = refResolver;
+  }
+
+  /**
+   * Set `regions` on the text blocks, images, tables and footnotes of a
+   * processed document
+   *
+   * Sub-figures get the part of their parent image's regions given by their
+   * bounding box. Items are updated in place. Items without a resolvable
+   * source reference are left unchanged.
+   */
+  apply(document: ProcessedDocument): void {
+    let count = 0;
+    const assign = (
+      item: { regions?: LayoutRegion[] },
+      refs: Array<string | undefined>,
+    ): void => {
+      const regions = this.resolveRegions(
+        refs.filter((ref): ref is string => ref !== undefined),
+      );
+      if (regions.length > 0) {
+        item.regions = regions;
+        count++;
+      }
+    };
+
+    const visit = (chapter: Chapter): void => {
+      chapter.textBlocks.forEach((block) => assign(block, [block.sourceRef]));
+      chapter.children?.forEach(visit);
+    };
+    document.chapters.forEach(visit);
+    document.parts?.forEach((part) => part.chapters.forEach(visit));
+
+    document.images.forEach((image) => {
+      assign(image, [image.sourceRef]);
+      const parentRegions = image.regions;
+      if (!parentRegions) {
+        return;
+      }
+      image.subFigures?.forEach((subFigure) => {
+        subFigure.regions = parentRegions.map((region) =>
+          LayoutRegionResolver.toSubRegion(region, subFigure.bbox),
+        );
+        count++;
+      });
+    });
+    document.tables.forEach((table) =>
+      assign(table, table.fragmentSourceRefs ?? [table.sourceRef]),
+    );
+    document.footnotes.forEach((footnote) =>
+      assign(footnote, [footnote.sourceRef]),
+    );
+
+    this.logger.info(
+      `[LayoutRegionResolver] Attached layout regions to ${count} items`,
+    );
+  }
+
+  /**
+   * Layout regions of the Docling items behind the given references, in order
+   */
+  resolveRegions(refs: string[]): LayoutRegion[] {
+    return refs.flatMap((ref) => {
+      const item =
+        this.refResolver.resolveText(ref) ??
+        this.refResolver.resolvePicture(ref) ??
+        this.refResolver.resolveTable(ref);
+      return (item?.prov ?? []).flatMap((prov) => {
+        const region = this.toRegion(prov);
+        return region ? [region] : [];
+      });
+    });
+  }
+
+  /**
+   * Narrow a parent image region to a sub-figure box given as fractions of
+   * the parent image
+   */
+  private static toSubRegion(
+    region: LayoutRegion,
+    bbox: RelativeBoundingBox,
+  ): LayoutRegion {
+    const width = region.bbox.right - region.bbox.left;
+    const height = region.bbox.bottom - region.bbox.top;
+    return {
+      ...region,
+      bbox: {
+        left: region.bbox.left + bbox.left * width,
+        top: region.bbox.top + bbox.top * height,
+        right: region.bbox.left + bbox.right * width,
+        bottom: region.bbox.top + bbox.bottom * height,
+      },
+    };
+  }
+
+  /**
+   * Convert one provenance entry, flipping bottom-left origin boxes
+   */
+  private toRegion(prov: DoclingProv): LayoutRegion | undefined {
+    const size = this.doc.pages[String(prov.page_no)]?.size;
+    if (!size) {
+      return undefined;
+    }
+
+    const { l, t, r, b, coord_origin } = prov.bbox;
+    const [top, bottom] =
+      coord_origin === 'BOTTOMLEFT'
+        ? [size.height - t, size.height - b]
+        : [t, b];
+
+    return {
+      pdfPageNo: prov.page_no,
+      bbox: {
+        left: Math.min(l, r),
+        top: Math.min(top, bottom),
+        right: Math.max(l, r),
+        bottom: Math.max(top, bottom),
+      },
+      pageWidth: size.width,
+      pageHeight: size.height,
+    };
+  }
+}
@@ -545,6 +545,21 @@ describe('MarkdownConverter', () => {
       expect(result).toContain('Line 1 Line 2 Line 3');
     });
 
+    test('converts processed table grids', () => {
+      const result = MarkdownConverter.tableToMarkdown({
+        id: 'tbl-001',
+        pdfPageNo: 1,
+        numRows: 2,
+        numCols: 1,
+        grid: [
+          [{ text: 'Header', rowSpan: 1, colSpan: 1, isHeader: true }],
+          [{ text: 'Row | 1', rowSpan: 1, colSpan: 1, isHeader: false }],
+        ],
+      });
+
+      expect(result).toBe('| Header |\n| --- |\n| Row \\| 1 |');
+    });
+
     test('handles single column table', () => {
       const grid = [
         [createMockTableCell('Header', 0, 0)],
@@ -2,6 +2,7 @@ import type {
   DoclingGroupItem,
   DoclingTableItem,
   DoclingTextItem,
+  ProcessedTable,
 } from '@heripo/model';
 
 import type { RefResolver } from './ref-resolver';
@@ -10,7 +11,8 @@ import type { RefResolver } from './ref-resolver';
  * MarkdownConverter
  *
  * Converts TOC-related groups and tables to Markdown format for LLM processing.
- * Provides static utility methods for conversion.
+ * Provides static utility methods for conversion. Table conversion also accepts
+ * processed tables so exporters share the same output.
  */
 export class MarkdownConverter {
   /**
@@ -108,8 +110,8 @@ export class MarkdownConverter {
    * | Chapter 1 Introduction | 1 |
    * | Chapter 2 Methodology | 10 |
    */
-  static tableToMarkdown(table: DoclingTableItem): string {
-    const { grid } = table.data;
+  static tableToMarkdown(table: DoclingTableItem | ProcessedTable): string {
+    const grid = 'data' in table ? table.data.grid : table.grid;
     if (!grid || grid.length === 0) {
       return '';
     }
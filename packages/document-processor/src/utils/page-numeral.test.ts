@@ -0,0 +1,109 @@
+import type { LabeledPageRange } from '@heripo/model';
+
+import { describe, expect, test } from 'vitest';
+
+import {
+  formatPageNumeral,
+  isLabeledPageRange,
+  parsePageLabel,
+} from './page-numeral';
+
+describe('parsePageLabel', () => {
+  test('parses Arabic page numbers', () => {
+    expect(parsePageLabel('12')).toEqual({
+      numeralSystem: 'arabic',
+      value: 12,
+      upperCase: false,
+    });
+  });
+
+  test('parses Roman numerals in either case', () => {
+    expect(parsePageLabel('xiv')).toEqual({
+      numeralSystem: 'roman',
+      value: 14,
+      upperCase: false,
+    });
+    expect(parsePageLabel('MCMXCIV')).toEqual({
+      numeralSystem: 'roman',
+      value: 1994,
+      upperCase: true,
+    });
+  });
+
+  test('parses CJK numerals with unit characters', () => {
+    expect(parsePageLabel('十')?.value).toBe(10);
+    expect(parsePageLabel('十二')?.value).toBe(12);
+    expect(parsePageLabel('二十')?.value).toBe(20);
+    expect(parsePageLabel('百五')?.value).toBe(105);
+    expect(parsePageLabel('二千三百四十五')).toEqual({
+      numeralSystem: 'cjk',
+      value: 2345,
+      upperCase: false,
+    });
+  });
+
+  test('parses CJK numerals written digit by digit', () => {
+    expect(parsePageLabel('一二')?.value).toBe(12);
+    expect(parsePageLabel('一〇')?.value).toBe(10);
+    expect(parsePageLabel('一零五')?.value).toBe(105);
+  });
+
+  test('ignores decorations around the number', () => {
+    expect(parsePageLabel('- iv -')?.value).toBe(4);
+    expect(parsePageLabel('(12)')?.value).toBe(12);
+    expect(parsePageLabel('· 三 ·')?.value).toBe(3);
+  });
+
+  test('returns null for labels that are not page numbers', () => {
+    expect(parsePageLabel('')).toBeNull();
+    expect(parsePageLabel('--')).toBeNull();
+    expect(parsePageLabel('iiii')).toBeNull();
+    expect(parsePageLabel('Fig. 5')).toBeNull();
+    expect(parsePageLabel('〇')).toBeNull();
+  });
+});
+
+describe('formatPageNumeral', () => {
+  test('formats Roman numerals', () => {
+    expect(formatPageNumeral(4, 'roman')).toBe('iv');
+    expect(formatPageNumeral(1994, 'roman', true)).toBe('MCMXCIV');
+  });
+
+  test('formats CJK numerals with unit characters', () => {
+    expect(formatPageNumeral(3, 'cjk')).toBe('三');
+    expect(formatPageNumeral(10, 'cjk')).toBe('十');
+    expect(formatPageNumeral(12, 'cjk')).toBe('十二');
+    expect(formatPageNumeral(20, 'cjk')).toBe('二十');
+    expect(formatPageNumeral(105, 'cjk')).toBe('百五');
+    expect(formatPageNumeral(2345, 'cjk')).toBe('二千三百四十五');
+  });
+
+  test('formats Arabic page numbers', () => {
+    expect(formatPageNumeral(12, 'arabic')).toBe('12');
+  });
+
+  test('round-trips through parsePageLabel', () => {
+    for (const numeralSystem of ['roman', 'cjk'] as const) {
+      for (let value = 1; value <= 120; value++) {
+        const label = formatPageNumeral(value, numeralSystem);
+        expect(parsePageLabel(label)?.value).toBe(value);
+      }
+    }
+  });
+});
+
+describe('isLabeledPageRange', () => {
+  test('detects Roman and CJK numbered ranges', () => {
+    const preface: LabeledPageRange = {
+      startPageNo: 3,
+      endPageNo: 3,
+      numeralSystem: 'roman',
+      startLabel: 'iii',
+      endLabel: 'iii',
+    };
+
+    expect(isLabeledPageRange(preface)).toBe(true);
+    expect(isLabeledPageRange({ startPageNo: 3, endPageNo: 3 })).toBe(false);
+    expect(isLabeledPageRange(undefined)).toBe(false);
+  });
+});
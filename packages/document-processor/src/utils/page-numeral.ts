@@ -0,0 +1,194 @@
+import type {
+  LabeledPageRange,
+  PageNumeralSystem,
+  PageRange,
+} from '@heripo/model';
+
+/**
+ * Page number parsed from its printed label
+ */
+export interface ParsedPageNumeral {
+  numeralSystem: PageNumeralSystem;
+  value: number;
+  /** Roman label printed in capitals (e.g. "IV") */
+  upperCase: boolean;
+}
+
+/**
+ * Decorations around printed page numbers (e.g. "- iv -", "(12)", "· 三 ·")
+ */
+const LABEL_DECORATION = /^[\s\-–—()[\]·•.,]+|[\s\-–—()[\]·•.,]+$/g;
+
+/**
+ * Well-formed Roman numerals up to 3999
+ */
+const ROMAN_PATTERN =
+  /^m{0,3}(?:cm|cd|d?c{0,3})(?:xc|xl|l?x{0,3})(?:ix|iv|v?i{0,3})$/i;
+
+const ROMAN_VALUES: Record<string, number> = {
+  i: 1,
+  v: 5,
+  x: 10,
+  l: 50,
+  c: 100,
+  d: 500,
+  m: 1000,
+};
+
+const ROMAN_SYMBOLS: Array<[number, string]> = [
+  [1000, 'm'],
+  [900, 'cm'],
+  [500, 'd'],
+  [400, 'cd'],
+  [100, 'c'],
+  [90, 'xc'],
+  [50, 'l'],
+  [40, 'xl'],
+  [10, 'x'],
+  [9, 'ix'],
+  [5, 'v'],
+  [4, 'iv'],
+  [1, 'i'],
+];
+
+const CJK_DIGITS = '〇一二三四五六七八九';
+const CJK_UNITS: Record<string, number> = { 十: 10, 百: 100, 千: 1000 };
+const CJK_PATTERN = /^[〇零一二三四五六七八九十百千]+$/;
+
+/**
+ * Parse a printed page number label
+ *
+ * Accepts Arabic ("12"), Roman ("xii", "XII") and CJK ("十二", "一二")
+ * numerals, ignoring surrounding dashes, brackets and dots.
+ *
+ * @param label - Page number text as printed
+ * @returns Numeral system and normalized ordinal, or null when the label is not a page number
+ */
+export function parsePageLabel(label: string): ParsedPageNumeral | null {
+  const text = label.replace(LABEL_DECORATION, '');
+
+  if (/^\d+$/.test(text)) {
+    return {
+      numeralSystem: 'arabic',
+      value: Number(text),
+      upperCase: false,
+    };
+  }
+
+  if (text && ROMAN_PATTERN.test(text)) {
+    return {
+      numeralSystem: 'roman',
+      value: parseRoman(text.toLowerCase()),
+      upperCase: text === text.toUpperCase(),
+    };
+  }
+
+  if (CJK_PATTERN.test(text)) {
+    const value = parseCjk(text);
+    return value > 0 ? { numeralSystem: 'cjk', value, upperCase: false } : null;
+  }
+
+  return null;
+}
+
+/**
+ * Format a page ordinal as a printed label
+ *
+ * @param value - Page ordinal (1 or greater)
+ * @param numeralSystem - Numeral system to format with
+ * @param upperCase - Use capital Roman numerals
+ */
+export function formatPageNumeral(
+  value: number,
+  numeralSystem: PageNumeralSystem,
+  upperCase = false,
+): string {
+  switch (numeralSystem) {
+    case 'roman': {
+      const roman = formatRoman(value);
+      return upperCase ? roman.toUpperCase() : roman;
+    }
+    case 'cjk':
+      return formatCjk(value);
+    default:
+      return String(value);
+  }
+}
+
+/**
+ * Whether a page range is printed with Roman or CJK numerals
+ *
+ * Labeled ordinals restart at 1 when the numbering switches to Arabic, so
+ * they must not be compared with Arabic page numbers.
+ */
+export function isLabeledPageRange(
+  range: PageRange | undefined,
+): range is LabeledPageRange {
+  return range !== undefined && 'numeralSystem' in range;
+}
+
+function parseRoman(text: string): number {
+  let total = 0;
+  for (let i = 0; i < text.length; i++) {
+    const current = ROMAN_VALUES[text[i]];
+    const next = ROMAN_VALUES[text[i + 1]] ?? 0;
+    total += current < next ? -current : current;
+  }
+  return total;
+}
+
+function formatRoman(value: number): string {
+  let rest = value;
+  let result = '';
+  for (const [symbolValue, symbol] of ROMAN_SYMBOLS) {
+    while (rest >= symbolValue) {
+      result += symbol;
+      rest -= symbolValue;
+    }
+  }
+  return result;
+}
+
+/**
+ * Parse CJK numerals in either form: with unit characters ("二十一")
+ * or digit by digit ("二一", "一〇")
+ */
+function parseCjk(text: string): number {
+  const normalized = text.replace(/零/g, '〇');
+
+  if (!/[十百千]/.test(normalized)) {
+    return Number(
+      [...normalized].map((char) => CJK_DIGITS.indexOf(char)).join(''),
+    );
+  }
+
+  let total = 0;
+  let digit = 0;
+  for (const char of normalized) {
+    const unit = CJK_UNITS[char];
+    if (unit) {
+      total += (digit || 1) * unit;
+      digit = 0;
+    } else {
+      digit = CJK_DIGITS.indexOf(char);
+    }
+  }
+  return total + digit;
+}
+
+function formatCjk(value: number): string {
+  let rest = value;
+  let result = '';
+  for (const [unit, unitValue] of [
+    ['千', 1000],
+    ['百', 100],
+    ['十', 10],
+  ] as const) {
+    const digit = Math.floor(rest / unitValue);
+    if (digit > 0) {
+      result += (digit > 1 ? CJK_DIGITS[digit] : '') + unit;
+      rest %= unitValue;
+    }
+  }
+  return result + (rest > 0 ? CJK_DIGITS[rest] : '');
+}
@@ -0,0 +1,46 @@
+import { describe, expect, test } from 'vitest';
+
+import {
+  DIFFERENCE_HASH_SAMPLE,
+  differenceHash,
+  hammingDistance,
+} from './perceptual-hash';
+
+describe('differenceHash', () => {
+  const { width, height } = DIFFERENCE_HASH_SAMPLE;
+
+  test('sets a bit where a pixel is brighter than its right neighbour', () => {
+    // Bright left half, dark right half: only the middle comparison is set
+    const values = Array.from({ length: width * height }, (_, i) =>
+      i % width < 5 ? 200 : 50,
+    );
+
+    expect(differenceHash({ width, height, values })).toBe('0808080808080808');
+  });
+
+  test('gives the same hash to a brighter copy', () => {
+    const values = Array.from(
+      { length: width * height },
+      (_, i) => (i * 37) % 200,
+    );
+    const brighter = values.map((value) => value + 40);
+
+    expect(differenceHash({ width, height, values: brighter })).toBe(
+      differenceHash({ width, height, values }),
+    );
+  });
+
+  test('hashes a uniform image to zeros', () => {
+    const values = Array.from({ length: width * height }, () => 255);
+
+    expect(differenceHash({ width, height, values })).toBe('0000000000000000');
+  });
+});
+
+describe('hammingDistance', () => {
+  test('counts differing bits', () => {
+    expect(hammingDistance('0000', '0000')).toBe(0);
+    expect(hammingDistance('000f', '0001')).toBe(3);
+    expect(hammingDistance('ff00', '00ff')).toBe(16);
+  });
+});
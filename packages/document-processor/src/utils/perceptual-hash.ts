@@ -0,0 +1,50 @@
+import type { GraySample } from './image-magick';
+
+/**
+ * Sample size for differenceHash: 9 columns give 8 comparisons per row,
+ * so 8 rows make a 64-bit hash
+ */
+export const DIFFERENCE_HASH_SAMPLE = { width: 9, height: 8 } as const;
+
+/**
+ * Difference hash (dHash) of a grayscale sample
+ *
+ * Each bit tells whether a pixel is brighter than its right neighbour, so the
+ * hash survives rescaling, recompression and small brightness shifts. A
+ * 9x8 sample gives 64 bits.
+ *
+ * @returns Hash as lowercase hex, four bits per digit
+ */
+export function differenceHash(sample: GraySample): string {
+  const bits: number[] = [];
+  for (let y = 0; y < sample.height; y++) {
+    for (let x = 0; x < sample.width - 1; x++) {
+      const offset = y * sample.width + x;
+      bits.push(sample.values[offset] > sample.values[offset + 1] ? 1 : 0);
+    }
+  }
+
+  let hex = '';
+  for (let i = 0; i < bits.length; i += 4) {
+    const nibble = bits
+      .slice(i, i + 4)
+      .reduce((value, bit) => (value << 1) | bit, 0);
+    hex += nibble.toString(16);
+  }
+  return hex;
+}
+
+/**
+ * Number of differing bits between two hex hashes of the same length
+ */
+export function hammingDistance(a: string, b: string): number {
+  let distance = 0;
+  for (let i = 0; i < a.length; i++) {
+    let diff = parseInt(a[i], 16) ^ parseInt(b[i], 16);
+    while (diff > 0) {
+      distance += diff & 1;
+      diff >>= 1;
+    }
+  }
+  return distance;
+}
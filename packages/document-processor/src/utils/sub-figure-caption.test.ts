@@ -0,0 +1,52 @@
+import { describe, expect, test } from 'vitest';
+
+import { parseSubFigureLabels } from './sub-figure-caption';
+
+describe('parseSubFigureLabels', () => {
+  test('splits circled labels after the caption number', () => {
+    expect(
+      parseSubFigureLabels(
+        '도판 3. 1호 주거지 ① 전경(남→북) ② 노출 상태, ③ 토층 단면',
+        '도판 3',
+      ),
+    ).toEqual([
+      { label: '①', text: '전경(남→북)' },
+      { label: '②', text: '노출 상태' },
+      { label: '③', text: '토층 단면' },
+    ]);
+  });
+
+  test('expands grouped and ranged labels', () => {
+    expect(
+      parseSubFigureLabels('출토 유물 1·2. 토기 3. 석기 4~6. 철기'),
+    ).toEqual([
+      { label: '1', text: '토기' },
+      { label: '2', text: '토기' },
+      { label: '3', text: '석기' },
+      { label: '4', text: '철기' },
+      { label: '5', text: '철기' },
+      { label: '6', text: '철기' },
+    ]);
+    expect(parseSubFigureLabels('①② 토기 ③ 석부')).toEqual([
+      { label: '①', text: '토기' },
+      { label: '②', text: '토기' },
+      { label: '③', text: '석부' },
+    ]);
+  });
+
+  test('reads parenthesized labels', () => {
+    expect(parseSubFigureLabels('Plate 2 (1) Site view (2) Trench 1')).toEqual([
+      { label: '1', text: 'Site view' },
+      { label: '2', text: 'Trench 1' },
+    ]);
+  });
+
+  test('ignores numbers that do not count from 1', () => {
+    expect(parseSubFigureLabels('도판 4 1호 주거지 전경', '도판 4')).toEqual(
+      [],
+    );
+    expect(parseSubFigureLabels('2. 토기 3. 석기')).toEqual([]);
+    expect(parseSubFigureLabels('1. 토기 1. 석기')).toEqual([]);
+    expect(parseSubFigureLabels('① 전경')).toEqual([]);
+  });
+});
@@ -0,0 +1,93 @@
+/**
+ * Sub-figure label and its caption fragment
+ */
+export interface SubFigureLabel {
+  /**
+   * Label as printed, one per sub-figure ("①", "2")
+   */
+  label: string;
+
+  /**
+   * Caption text following the label (shared by grouped labels such as
+   * "1·2. 토기"); empty when the label has no text
+   */
+  text: string;
+}
+
+/**
+ * Label styles, tried in order: "① 전경", "1. 전경" / "1) 전경" / "1·2. 토기",
+ * "(1) 전경"
+ */
+const LABEL_PATTERNS: RegExp[] = [
+  /[①-⑳](?:\s*[·ㆍ,~∼～-]?\s*[①-⑳])*/gu,
+  /(?<=^|\s)\d{1,2}(?:\s*[·ㆍ,~∼～-]\s*\d{1,2})*[.)](?=\s|$)/gu,
+  /(?<=^|\s)\(\d{1,2}\)(?=\s|$)/gu,
+];
+
+const CIRCLED_ONE = 0x2460;
+
+/**
+ * Split a composite figure caption into per-label fragments
+ *
+ * "도판 3 1호 주거지 ① 전경 ② 노출 상태" gives ① "전경" and ② "노출 상태".
+ * Labels of one style must number 1 to n in order, each once, so numbers in
+ * the text ("1호", "2.5m") are not read as labels.
+ *
+ * @param fullText - Caption text
+ * @param num - Caption number to skip at the start of the text ("도판 3")
+ * @returns Labels in order, or an empty array when fewer than two are found
+ */
+export function parseSubFigureLabels(
+  fullText: string,
+  num?: string,
+): SubFigureLabel[] {
+  const body =
+    num && fullText.startsWith(num)
+      ? fullText.slice(num.length).replace(/^\s*[.:]/, '')
+      : fullText;
+
+  for (const pattern of LABEL_PATTERNS) {
+    const matches = [...body.matchAll(pattern)];
+    const groups = matches.map((match) => expandLabelGroup(match[0]));
+    const numbers = groups.flat();
+    if (
+      numbers.length < 2 ||
+      numbers.some((value, index) => value !== index + 1)
+    ) {
+      continue;
+    }
+
+    const circled = pattern === LABEL_PATTERNS[0];
+    return matches.flatMap((match, index) => {
+      const text = body
+        .slice(match.index + match[0].length, matches[index + 1]?.index)
+        .trim()
+        .replace(/^[.:)]\s*/, '')
+        .replace(/\s*[,;·ㆍ]$/, '');
+      return groups[index].map((value) => ({
+        label: circled
+          ? String.fromCodePoint(CIRCLED_ONE + value - 1)
+          : String(value),
+        text,
+      }));
+    });
+  }
+
+  return [];
+}
+
+/**
+ * Numbers of a label group: "①·②" is [1, 2], "4~6." is [4, 5, 6]
+ */
+function expandLabelGroup(group: string): number[] {
+  const values = [...group.matchAll(/[①-⑳]|\d{1,2}/gu)].map(([value]) =>
+    /\d/.test(value) ? Number(value) : value.codePointAt(0)! - CIRCLED_ONE + 1,
+  );
+  if (values.length === 2 && /[~∼～-]/.test(group) && values[1] > values[0]) {
+    return Array.from(
+      { length: values[1] - values[0] + 1 },
+      (_, index) => values[0] + index,
+    );
+  }
+  return values;
+}
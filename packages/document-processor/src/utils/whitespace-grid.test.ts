@@ -0,0 +1,71 @@
+import type { GraySample } from './image-magick';
+
+import { describe, expect, test } from 'vitest';
+
+import { findWhitespaceCells } from './whitespace-grid';
+
+/**
+ * Build a white sample with dark rectangles ([x0, y0, x1, y1], end-exclusive)
+ */
+function createSample(
+  width: number,
+  height: number,
+  rects: Array<[number, number, number, number]>,
+): GraySample {
+  const values = Array.from({ length: width * height }, () => 255);
+  for (const [x0, y0, x1, y1] of rects) {
+    for (let y = y0; y < y1; y++) {
+      for (let x = x0; x < x1; x++) {
+        values[y * width + x] = 40;
+      }
+    }
+  }
+  return { width, height, values };
+}
+
+describe('findWhitespaceCells', () => {
+  test('splits a grid of photos row by row', () => {
+    const sample = createSample(100, 100, [
+      [5, 5, 45, 45],
+      [55, 5, 95, 45],
+      [5, 55, 45, 95],
+      [55, 55, 95, 95],
+    ]);
+
+    expect(findWhitespaceCells(sample)).toEqual([
+      { left: 0.05, top: 0.05, right: 0.45, bottom: 0.45 },
+      { left: 0.55, top: 0.05, right: 0.95, bottom: 0.45 },
+      { left: 0.05, top: 0.55, right: 0.45, bottom: 0.95 },
+      { left: 0.55, top: 0.55, right: 0.95, bottom: 0.95 },
+    ]);
+  });
+
+  test('splits columns of different heights and drops small cells', () => {
+    const sample = createSample(100, 100, [
+      // Tall photo on the left, two stacked photos on the right
+      [0, 0, 40, 100],
+      [50, 0, 100, 45],
+      [50, 55, 100, 100],
+      // Mark in the gutter, too small to be a cell
+      [44, 0, 47, 3],
+    ]);
+
+    expect(findWhitespaceCells(sample)).toEqual([
+      { left: 0, top: 0, right: 0.4, bottom: 1 },
+      { left: 0.5, top: 0, right: 1, bottom: 0.45 },
+      { left: 0.5, top: 0.55, right: 1, bottom: 1 },
+    ]);
+  });
+
+  test('keeps narrow gaps and returns no cells for a blank image', () => {
+    const single = createSample(100, 100, [
+      [0, 0, 50, 100],
+      [51, 0, 100, 100],
+    ]);
+
+    expect(findWhitespaceCells(single, { minGutterRatio: 0.05 })).toEqual([
+      { left: 0, top: 0, right: 1, bottom: 1 },
+    ]);
+    expect(findWhitespaceCells(createSample(10, 10, []))).toEqual([]);
+  });
+});
@@ -0,0 +1,164 @@
+import type { RelativeBoundingBox } from '@heripo/model';
+
+import type { GraySample } from './image-magick';
+
+/**
+ * Options for findWhitespaceCells
+ */
+export interface WhitespaceGridOptions {
+  /**
+   * Pixels brighter than this (0-255) count as blank (default: 245)
+   */
+  blankThreshold?: number;
+
+  /**
+   * Maximum share of content pixels in a gutter row or column (default: 0.02)
+   */
+  maxGutterContentRatio?: number;
+
+  /**
+   * Minimum gutter width as a share of the sample size (default: 0.015)
+   */
+  minGutterRatio?: number;
+
+  /**
+   * Minimum cell area as a share of the sample area (default: 0.02)
+   */
+  minCellAreaRatio?: number;
+}
+
+/**
+ * Rectangle in sample pixels, end-exclusive
+ */
+interface PixelRect {
+  x0: number;
+  y0: number;
+  x1: number;
+  y1: number;
+}
+
+/**
+ * Find the cells of a composite figure separated by whitespace gutters
+ *
+ * Recursive XY-cut: content is trimmed to its extent, split at blank rows
+ * into bands, each band split at blank columns, and so on until no gutter
+ * is left. Cells come out row by row, left to right within a row.
+ *
+ * @returns Cell boxes as fractions (0-1) of the sample's width and height
+ */
+export function findWhitespaceCells(
+  sample: GraySample,
+  options: WhitespaceGridOptions = {},
+): RelativeBoundingBox[] {
+  const blankThreshold = options.blankThreshold ?? 245;
+  const maxGutterContentRatio = options.maxGutterContentRatio ?? 0.02;
+  const minGutterRatio = options.minGutterRatio ?? 0.015;
+  const minCellArea =
+    (options.minCellAreaRatio ?? 0.02) * sample.width * sample.height;
+
+  const isContent = (x: number, y: number): boolean =>
+    sample.values[y * sample.width + x] < blankThreshold;
+
+  /** Share of content pixels on each row (or column) of a rectangle */
+  const profile = (rect: PixelRect, axis: 'rows' | 'cols'): number[] => {
+    const [from, to, crossFrom, crossTo] =
+      axis === 'rows'
+        ? [rect.y0, rect.y1, rect.x0, rect.x1]
+        : [rect.x0, rect.x1, rect.y0, rect.y1];
+    return Array.from({ length: to - from }, (_, i) => {
+      let count = 0;
+      for (let j = crossFrom; j < crossTo; j++) {
+        if (axis === 'rows' ? isContent(j, from + i) : isContent(from + i, j)) {
+          count++;
+        }
+      }
+      return count / (crossTo - crossFrom);
+    });
+  };
+
+  /** Shrink a rectangle to the rows and columns that are not blank */
+  const trim = (rect: PixelRect): PixelRect | undefined => {
+    const rows = profile(rect, 'rows');
+    const cols = profile(rect, 'cols');
+    const hasContent = (ratio: number): boolean =>
+      ratio > maxGutterContentRatio;
+    const top = rows.findIndex(hasContent);
+    if (top < 0) {
+      return undefined;
+    }
+    const bottom = rows.length - 1 - [...rows].reverse().findIndex(hasContent);
+    const left = cols.findIndex(hasContent);
+    const right = cols.length - 1 - [...cols].reverse().findIndex(hasContent);
+    return {
+      x0: rect.x0 + left,
+      y0: rect.y0 + top,
+      x1: rect.x0 + right + 1,
+      y1: rect.y0 + bottom + 1,
+    };
+  };
+
+  /** Spans between gutters along one axis, relative to the rectangle */
+  const spans = (
+    ratios: number[],
+    minGutter: number,
+  ): Array<[number, number]> => {
+    const result: Array<[number, number]> = [];
+    let start = 0;
+    let i = 0;
+    while (i < ratios.length) {
+      if (ratios[i] > maxGutterContentRatio) {
+        i++;
+        continue;
+      }
+      let end = i;
+      while (end < ratios.length && ratios[end] <= maxGutterContentRatio) {
+        end++;
+      }
+      if (end - i >= minGutter && i > start) {
+        result.push([start, i]);
+        start = end;
+      }
+      i = end;
+    }
+    result.push([start, ratios.length]);
+    return result;
+  };
+
+  const cut = (rect: PixelRect): PixelRect[] => {
+    const content = trim(rect);
+    if (!content) {
+      return [];
+    }
+
+    for (const axis of ['rows', 'cols'] as const) {
+      const minGutter = Math.max(
+        1,
+        Math.ceil(
+          minGutterRatio * (axis === 'rows' ? sample.height : sample.width),
+        ),
+      );
+      const parts = spans(profile(content, axis), minGutter);
+      if (parts.length > 1) {
+        return parts.flatMap(([from, to]) =>
+          cut(
+            axis === 'rows'
+              ? { ...content, y0: content.y0 + from, y1: content.y0 + to }
+              : { ...content, x0: content.x0 + from, x1: content.x0 + to },
+          ),
+        );
+      }
+    }
+    return [content];
+  };
+
+  const round = (value: number): number => Math.round(value * 10000) / 10000;
+
+  return cut({ x0: 0, y0: 0, x1: sample.width, y1: sample.height })
+    .filter((rect) => (rect.x1 - rect.x0) * (rect.y1 - rect.y0) >= minCellArea)
+    .map((rect) => ({
+      left: round(rect.x0 / sample.width),
+      top: round(rect.y0 / sample.height),
+      right: round(rect.x1 / sample.width),
+      bottom: round(rect.y1 / sample.height),
+    }));
+}
@@ -1,7 +1,10 @@
 import { defineConfig } from 'tsup';
 
 export default defineConfig({
-  entry: ['src/index.ts'],
+  entry: {
+    index: 'src/index.ts',
+    'bin/heripo-diff': 'src/bin/heripo-diff.ts',
+  },
   format: ['esm'],
   dts: true,
   clean: true,
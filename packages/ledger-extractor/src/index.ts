@@ -0,0 +1,28 @@
+/**
+ * @heripo/ledger-extractor
+ *
+ * Archaeological ledger extraction package that converts ProcessedDocument to
+ * ArchaeologyLedger.
+ *
+ * ## Key Features
+ *
+ * - Feature (유구), artifact (유물) and stratum (층위) extraction (LLM-based)
+ * - Provenance back to TextBlock.id, ProcessedTable.id and Docling sourceRef
+ * - Merging of entities mentioned across chapters
+ *
+ * @packageDocumentation
+ */
+
+export { LedgerExtractor } from './ledger-extractor';
+export type { LedgerExtractorOptions } from './ledger-extractor';
+export { LedgerExtractError } from './ledger-extract-error';
+export { LedgerBuilder } from './ledger-builder';
+export { LedgerSegmenter, renderTable } from './ledger-segmenter';
+export type { LedgerSegment, LedgerSegmentItem } from './ledger-segmenter';
+export {
+  LedgerExtractionSchema,
+  LedgerFeatureExtractionSchema,
+  LedgerArtifactExtractionSchema,
+  LedgerStratumExtractionSchema,
+} from './ledger-extraction-schema';
+export type { LedgerExtraction } from './ledger-extraction-schema';
@@ -0,0 +1,305 @@
+import type { LoggerMethods } from '@heripo/logger';
+
+import type { LedgerExtraction } from './ledger-extraction-schema';
+import type { LedgerSegment } from './ledger-segmenter';
+
+import { beforeEach, describe, expect, test, vi } from 'vitest';
+
+import { LedgerBuilder } from './ledger-builder';
+
+type ExtractedFeature = LedgerExtraction['features'][number];
+type ExtractedArtifact = LedgerExtraction['artifacts'][number];
+type ExtractedStratum = LedgerExtraction['strata'][number];
+
+describe('LedgerBuilder', () => {
+  let mockLogger: LoggerMethods;
+
+  beforeEach(() => {
+    mockLogger = {
+      info: vi.fn(),
+      warn: vi.fn(),
+      error: vi.fn(),
+      debug: vi.fn(),
+    };
+  });
+
+  const segment = (chapterId = 'ch-001'): LedgerSegment => ({
+    chapterId,
+    chapterPath: 'Ⅱ. 조사내용 > 1. 주거지',
+    textBlocks: [
+      {
+        id: 'txt-001',
+        sourceRef: '#/texts/10',
+        text: '1호 주거지는 장방형이다.',
+        pdfPageNo: 12,
+      },
+      {
+        id: 'txt-002',
+        sourceRef: '#/texts/11',
+        text: '내부에서 무문토기 발이 출토되었다.',
+        pdfPageNo: 13,
+      },
+    ],
+    tables: [
+      {
+        id: 'tbl-001',
+        sourceRef: '#/tables/2',
+        pdfPageNo: 14,
+        numRows: 1,
+        numCols: 1,
+        grid: [[{ text: '석촉', rowSpan: 1, colSpan: 1, isHeader: false }]],
+      },
+    ],
+  });
+
+  const feature = (
+    overrides?: Partial<ExtractedFeature>,
+  ): ExtractedFeature => ({
+    name: '1호 주거지',
+    period: null,
+    description: null,
+    featureType: null,
+    dimensions: null,
+    blockIndexes: [0],
+    tableIndexes: [],
+    evidence: null,
+    ...overrides,
+  });
+
+  const artifact = (
+    overrides?: Partial<ExtractedArtifact>,
+  ): ExtractedArtifact => ({
+    name: '무문토기 발',
+    period: null,
+    description: null,
+    artifactType: null,
+    material: null,
+    quantity: null,
+    featureName: null,
+    blockIndexes: [1],
+    tableIndexes: [],
+    evidence: null,
+    ...overrides,
+  });
+
+  const stratum = (
+    overrides?: Partial<ExtractedStratum>,
+  ): ExtractedStratum => ({
+    name: 'Ⅲ층',
+    period: null,
+    description: null,
+    soilDescription: null,
+    featureName: null,
+    blockIndexes: [0],
+    tableIndexes: [],
+    evidence: null,
+    ...overrides,
+  });
+
+  const extraction = (
+    overrides?: Partial<LedgerExtraction>,
+  ): LedgerExtraction => ({
+    features: [],
+    artifacts: [],
+    strata: [],
+    ...overrides,
+  });
+
+  test('resolves block and table indexes to provenance', () => {
+    const builder = new LedgerBuilder(mockLogger);
+    builder.add(
+      segment(),
+      extraction({
+        features: [
+          feature({
+            featureType: '주거지',
+            blockIndexes: [0, 1, 0],
+            tableIndexes: [0],
+            evidence: '1호 주거지는 장방형이다.',
+          }),
+        ],
+      }),
+    );
+
+    const ledger = builder.build('report-1');
+
+    expect(ledger).toEqual({
+      reportId: 'report-1',
+      features: [
+        {
+          id: 'feat-001',
+          name: '1호 주거지',
+          featureType: '주거지',
+          provenance: [
+            {
+              chapterId: 'ch-001',
+              textBlockIds: ['txt-001', 'txt-002'],
+              tableIds: ['tbl-001'],
+              sourceRefs: ['#/texts/10', '#/texts/11', '#/tables/2'],
+              pdfPageNos: [12, 13, 14],
+              evidence: '1호 주거지는 장방형이다.',
+            },
+          ],
+        },
+      ],
+      artifacts: [],
+      strata: [],
+    });
+  });
+
+  test('falls back to a name search when indexes are missing or out of range', () => {
+    const builder = new LedgerBuilder(mockLogger);
+    builder.add(
+      segment(),
+      extraction({
+        features: [feature({ blockIndexes: [7], tableIndexes: [3] })],
+        artifacts: [artifact({ name: '석촉', blockIndexes: [] })],
+      }),
+    );
+
+    const ledger = builder.build('report-1');
+
+    expect(ledger.features[0].provenance[0].textBlockIds).toEqual(['txt-001']);
+    expect(ledger.artifacts[0].provenance[0].tableIds).toEqual(['tbl-001']);
+    expect(ledger.artifacts[0].provenance[0].textBlockIds).toEqual([]);
+  });
+
+  test('omits IDs and sourceRefs missing from the source content', () => {
+    const source = segment();
+    source.textBlocks = [{ text: '1호 주거지', pdfPageNo: 3 }];
+    source.tables = [{ ...source.tables[0], sourceRef: undefined }];
+    const builder = new LedgerBuilder(mockLogger);
+    builder.add(
+      source,
+      extraction({ features: [feature({ tableIndexes: [0] })] }),
+    );
+
+    expect(builder.build('report-1').features[0].provenance).toEqual([
+      {
+        chapterId: 'ch-001',
+        textBlockIds: [],
+        tableIds: ['tbl-001'],
+        sourceRefs: [],
+        pdfPageNos: [3, 14],
+      },
+    ]);
+  });
+
+  test('drops unnamed and ungrounded entities with a warning', () => {
+    const builder = new LedgerBuilder(mockLogger);
+    builder.add(
+      segment(),
+      extraction({
+        features: [feature({ name: '99호 주거지', blockIndexes: [] })],
+        artifacts: [artifact({ name: '청동검', blockIndexes: [] })],
+        strata: [stratum({ name: ' ' })],
+      }),
+    );
+
+    const ledger = builder.build('report-1');
+
+    expect(ledger.features).toEqual([]);
+    expect(ledger.artifacts).toEqual([]);
+    expect(ledger.strata).toEqual([]);
+    expect(mockLogger.warn).toHaveBeenCalledWith(
+      '[LedgerBuilder] Dropped 3 unnamed or ungrounded entities',
+    );
+  });
+
+  test('merges mentions across segments and fills empty fields', () => {
+    const builder = new LedgerBuilder(mockLogger);
+    builder.add(
+      segment('ch-001'),
+      extraction({ features: [feature({ featureType: '주거지' })] }),
+    );
+    builder.add(
+      segment('ch-002'),
+      extraction({
+        features: [
+          feature({
+            name: '1호주거지',
+            featureType: '수혈',
+            period: '청동기시대',
+          }),
+          feature({ name: '2호 주거지', blockIndexes: [1] }),
+        ],
+      }),
+    );
+
+    const ledger = builder.build('report-1');
+
+    expect(ledger.features.map((f) => f.id)).toEqual(['feat-001', 'feat-002']);
+    expect(ledger.features[0]).toMatchObject({
+      name: '1호 주거지',
+      featureType: '주거지',
+      period: '청동기시대',
+    });
+    expect(ledger.features[0].provenance.map((p) => p.chapterId)).toEqual([
+      'ch-001',
+      'ch-002',
+    ]);
+    expect(mockLogger.warn).not.toHaveBeenCalled();
+  });
+
+  test('scopes artifacts by feature, or by chapter when no feature is given', () => {
+    const builder = new LedgerBuilder(mockLogger);
+    builder.add(
+      segment('ch-001'),
+      extraction({
+        artifacts: [
+          artifact({ featureName: '1호 주거지' }),
+          artifact({ featureName: '2호 주거지' }),
+          artifact(),
+        ],
+      }),
+    );
+    builder.add(
+      segment('ch-002'),
+      extraction({
+        artifacts: [artifact({ featureName: '1호  주거지' }), artifact()],
+      }),
+    );
+
+    const ledger = builder.build('report-1');
+
+    expect(ledger.artifacts.map((a) => [a.id, a.provenance.length])).toEqual([
+      ['art-001', 2],
+      ['art-002', 1],
+      ['art-003', 1],
+      ['art-004', 1],
+    ]);
+  });
+
+  test('merges site-level strata across chapters and resolves feature IDs', () => {
+    const builder = new LedgerBuilder(mockLogger);
+    builder.add(
+      segment('ch-001'),
+      extraction({
+        strata: [stratum({ soilDescription: '암갈색 사질점토' })],
+        artifacts: [artifact({ featureName: '1호 주거지' })],
+      }),
+    );
+    builder.add(
+      segment('ch-002'),
+      extraction({
+        features: [feature()],
+        strata: [
+          stratum(),
+          stratum({ name: '1층', featureName: '1호 주거지' }),
+          stratum({ name: '2층', featureName: '3호 수혈' }),
+        ],
+      }),
+    );
+
+    const ledger = builder.build('report-1');
+
+    expect(ledger.strata.map((s) => [s.name, s.featureId])).toEqual([
+      ['Ⅲ층', undefined],
+      ['1층', 'feat-001'],
+      ['2층', undefined],
+    ]);
+    expect(ledger.strata[0].provenance).toHaveLength(2);
+    expect(ledger.strata[0].soilDescription).toBe('암갈색 사질점토');
+    expect(ledger.artifacts[0].featureId).toBe('feat-001');
+  });
+});
@@ -0,0 +1,308 @@
+import type { LoggerMethods } from '@heripo/logger';
+import type {
+  ArchaeologyLedger,
+  LedgerArtifact,
+  LedgerEntityBase,
+  LedgerFeature,
+  LedgerProvenance,
+  LedgerStratum,
+} from '@heripo/model';
+
+import type { LedgerExtraction } from './ledger-extraction-schema';
+import type { LedgerSegment } from './ledger-segmenter';
+
+import { renderTable } from './ledger-segmenter';
+
+type ExtractedFeature = LedgerExtraction['features'][number];
+type ExtractedArtifact = LedgerExtraction['artifacts'][number];
+type ExtractedStratum = LedgerExtraction['strata'][number];
+
+interface SourceFields {
+  name: string;
+  blockIndexes: number[];
+  tableIndexes: number[];
+  evidence: string | null;
+}
+
+/**
+ * LedgerBuilder
+ *
+ * Accumulates per-segment LLM extractions into an ArchaeologyLedger.
+ *
+ * ## Provenance
+ *
+ * [B#]/[T#] indexes returned by the LLM are resolved to TextBlock.id,
+ * ProcessedTable.id and their Docling sourceRefs. Out-of-range indexes are
+ * ignored. When no index resolves, content mentioning the entity name is used
+ * instead; entities that cannot be located in the segment are dropped.
+ *
+ * ## Merging
+ *
+ * Mentions of the same entity across segments are merged into one entity
+ * (names compared ignoring whitespace and case). Provenance records are
+ * appended and empty fields are filled from later mentions.
+ * - Features: merged by name
+ * - Artifacts: merged by name within the same feature, or within the same
+ *   chapter when no feature is given
+ * - Strata: merged by name within the same feature, or site-wide when no
+ *   feature is given
+ *
+ * Artifact and stratum `featureName`s are resolved to LedgerFeature.id in
+ * build(); names without a matching feature leave `featureId` undefined.
+ */
+export class LedgerBuilder {
+  private readonly features = new Map<string, LedgerFeature>();
+  private readonly artifacts = new Map<string, LedgerArtifact>();
+  private readonly strata = new Map<string, LedgerStratum>();
+  private readonly pendingFeatureKeys = new Map<LedgerEntityBase, string>();
+  private droppedCount = 0;
+
+  constructor(private readonly logger: LoggerMethods) {}
+
+  /**
+   * Add the extraction result of one segment
+   */
+  add(segment: LedgerSegment, extraction: LedgerExtraction): void {
+    for (const extracted of extraction.features) {
+      this.addFeature(segment, extracted);
+    }
+    for (const extracted of extraction.artifacts) {
+      this.addArtifact(segment, extracted);
+    }
+    for (const extracted of extraction.strata) {
+      this.addStratum(segment, extracted);
+    }
+  }
+
+  /**
+   * Build the ledger, resolving feature references
+   */
+  build(reportId: string): ArchaeologyLedger {
+    for (const [entity, featureKey] of this.pendingFeatureKeys) {
+      const feature = this.features.get(featureKey);
+      if (feature) {
+        (entity as LedgerArtifact | LedgerStratum).featureId = feature.id;
+      }
+    }
+
+    if (this.droppedCount > 0) {
+      this.logger.warn(
+        `[LedgerBuilder] Dropped ${this.droppedCount} unnamed or ungrounded entities`,
+      );
+    }
+
+    return {
+      reportId,
+      features: [...this.features.values()],
+      artifacts: [...this.artifacts.values()],
+      strata: [...this.strata.values()],
+    };
+  }
+
+  private addFeature(segment: LedgerSegment, extracted: ExtractedFeature) {
+    const provenance = this.resolveProvenance(segment, extracted);
+    if (!provenance) return;
+
+    const key = LedgerBuilder.normalizeName(extracted.name);
+    const fields = {
+      featureType: extracted.featureType ?? undefined,
+      dimensions: extracted.dimensions ?? undefined,
+      ...LedgerBuilder.commonFields(extracted),
+    };
+
+    const existing = this.features.get(key);
+    if (existing) {
+      LedgerBuilder.mergeInto(existing, fields, provenance);
+      return;
+    }
+
+    this.features.set(
+      key,
+      LedgerBuilder.createEntity(
+        `feat-${this.padNumber(this.features.size + 1)}`,
+        extracted.name,
+        fields,
+        provenance,
+      ),
+    );
+  }
+
+  private addArtifact(segment: LedgerSegment, extracted: ExtractedArtifact) {
+    const provenance = this.resolveProvenance(segment, extracted);
+    if (!provenance) return;
+
+    const featureKey = extracted.featureName
+      ? LedgerBuilder.normalizeName(extracted.featureName)
+      : undefined;
+    const scope = featureKey ?? `chapter:${segment.chapterId}`;
+    const key = `${scope}\u0000${LedgerBuilder.normalizeName(extracted.name)}`;
+    const fields = {
+      artifactType: extracted.artifactType ?? undefined,
+      material: extracted.material ?? undefined,
+      quantity: extracted.quantity ?? undefined,
+      ...LedgerBuilder.commonFields(extracted),
+    };
+
+    const existing = this.artifacts.get(key);
+    if (existing) {
+      LedgerBuilder.mergeInto(existing, fields, provenance);
+      return;
+    }
+
+    const artifact: LedgerArtifact = LedgerBuilder.createEntity(
+      `art-${this.padNumber(this.artifacts.size + 1)}`,
+      extracted.name,
+      fields,
+      provenance,
+    );
+    this.artifacts.set(key, artifact);
+    if (featureKey) {
+      this.pendingFeatureKeys.set(artifact, featureKey);
+    }
+  }
+
+  private addStratum(segment: LedgerSegment, extracted: ExtractedStratum) {
+    const provenance = this.resolveProvenance(segment, extracted);
+    if (!provenance) return;
+
+    const featureKey = extracted.featureName
+      ? LedgerBuilder.normalizeName(extracted.featureName)
+      : undefined;
+    const key = `${featureKey ?? ''}\u0000${LedgerBuilder.normalizeName(extracted.name)}`;
+    const fields = {
+      soilDescription: extracted.soilDescription ?? undefined,
+      ...LedgerBuilder.commonFields(extracted),
+    };
+
+    const existing = this.strata.get(key);
+    if (existing) {
+      LedgerBuilder.mergeInto(existing, fields, provenance);
+      return;
+    }
+
+    const stratum: LedgerStratum = LedgerBuilder.createEntity(
+      `str-${this.padNumber(this.strata.size + 1)}`,
+      extracted.name,
+      fields,
+      provenance,
+    );
+    this.strata.set(key, stratum);
+    if (featureKey) {
+      this.pendingFeatureKeys.set(stratum, featureKey);
+    }
+  }
+
+  /**
+   * Resolve LLM source indexes to provenance, falling back to a name search
+   *
+   * @returns Provenance, or undefined when the entity cannot be located
+   */
+  private resolveProvenance(
+    segment: LedgerSegment,
+    extracted: SourceFields,
+  ): LedgerProvenance | undefined {
+    if (!extracted.name.trim()) {
+      this.droppedCount++;
+      return undefined;
+    }
+
+    let blocks = [...new Set(extracted.blockIndexes)]
+      .map((index) => segment.textBlocks[index])
+      .filter((block) => block !== undefined);
+    let tables = [...new Set(extracted.tableIndexes)]
+      .map((index) => segment.tables[index])
+      .filter((table) => table !== undefined);
+
+    if (blocks.length === 0 && tables.length === 0) {
+      const name = LedgerBuilder.normalizeName(extracted.name);
+      blocks = segment.textBlocks.filter((block) =>
+        LedgerBuilder.normalizeName(block.text).includes(name),
+      );
+      tables = segment.tables.filter((table) =>
+        LedgerBuilder.normalizeName(renderTable(table)).includes(name),
+      );
+    }
+
+    if (blocks.length === 0 && tables.length === 0) {
+      this.droppedCount++;
+      return undefined;
+    }
+
+    const pdfPageNos = [
+      ...new Set([
+        ...blocks.map((block) => block.pdfPageNo),
+        ...tables.map((table) => table.pdfPageNo),
+      ]),
+    ].sort((a, b) => a - b);
+
+    return {
+      chapterId: segment.chapterId,
+      textBlockIds: blocks.flatMap((block) => (block.id ? [block.id] : [])),
+      tableIds: tables.map((table) => table.id),
+      sourceRefs: [
+        ...blocks.flatMap((block) =>
+          block.sourceRef ? [block.sourceRef] : [],
+        ),
+        ...tables.flatMap((table) =>
+          table.sourceRef ? [table.sourceRef] : [],
+        ),
+      ],
+      pdfPageNos,
+      ...(extracted.evidence ? { evidence: extracted.evidence } : {}),
+    };
+  }
+
+  private static commonFields(extracted: {
+    period: string | null;
+    description: string | null;
+  }): Pick<LedgerEntityBase, 'period' | 'description'> {
+    return {
+      period: extracted.period ?? undefined,
+      description: extracted.description ?? undefined,
+    };
+  }
+
+  /**
+   * Create an entity, omitting undefined fields
+   */
+  private static createEntity<T extends LedgerEntityBase>(
+    id: string,
+    name: string,
+    fields: Partial<T>,
+    provenance: LedgerProvenance,
+  ): T {
+    const entity = { id, name, provenance: [provenance] } as unknown as T;
+    LedgerBuilder.mergeInto(entity, fields);
+    return entity;
+  }
+
+  /**
+   * Fill empty fields of an entity and append provenance
+   */
+  private static mergeInto<T extends LedgerEntityBase>(
+    entity: T,
+    fields: Partial<T>,
+    provenance?: LedgerProvenance,
+  ): void {
+    for (const [field, value] of Object.entries(fields)) {
+      const target = entity as Record<string, unknown>;
+      if (value !== undefined && target[field] === undefined) {
+        target[field] = value;
+      }
+    }
+    if (provenance) {
+      entity.provenance.push(provenance);
+    }
+  }
+
+  private static normalizeName(name: string): string {
+    return name.replace(/\s/g, '').toLowerCase();
+  }
+
+  /**
+   * Pad a number to 3 digits with leading zeros
+   */
+  private padNumber(num: number): string {
+    return num.toString().padStart(3, '0');
+  }
+}
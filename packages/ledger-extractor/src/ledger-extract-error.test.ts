@@ -0,0 +1,21 @@
+import { describe, expect, test } from 'vitest';
+
+import { LedgerExtractError } from './ledger-extract-error';
+
+describe('LedgerExtractError', () => {
+  test('creates error with message', () => {
+    const error = new LedgerExtractError('test message');
+
+    expect(error).toBeInstanceOf(Error);
+    expect(error).toBeInstanceOf(LedgerExtractError);
+    expect(error.message).toBe('test message');
+    expect(error.name).toBe('LedgerExtractError');
+  });
+
+  test('creates error with cause option', () => {
+    const cause = new Error('original error');
+    const error = new LedgerExtractError('wrapped message', { cause });
+
+    expect(error.cause).toBe(cause);
+  });
+});
@@ -0,0 +1,11 @@
+/**
+ * LedgerExtractError
+ *
+ * Error thrown when ledger extraction fails (e.g., LLM call failure).
+ */
+export class LedgerExtractError extends Error {
+  constructor(message: string, options?: ErrorOptions) {
+    super(message, options);
+    this.name = 'LedgerExtractError';
+  }
+}
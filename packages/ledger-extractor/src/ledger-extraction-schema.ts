@@ -0,0 +1,92 @@
+import { z } from 'zod';
+
+/**
+ * Source reference fields shared by all extracted entities
+ *
+ * Indexes refer to the [B#] text blocks and [T#] tables listed in the prompt.
+ */
+const sourceFields = {
+  blockIndexes: z
+    .array(z.number().int())
+    .describe('Indexes of [B#] text blocks that mention the entity'),
+  tableIndexes: z
+    .array(z.number().int())
+    .describe('Indexes of [T#] tables that mention the entity'),
+  evidence: z
+    .string()
+    .nullable()
+    .describe('Short verbatim excerpt from the source mentioning the entity'),
+};
+
+const commonFields = {
+  name: z
+    .string()
+    .describe('Name exactly as written in the report (e.g., "1호 주거지")'),
+  period: z
+    .string()
+    .nullable()
+    .describe('Period or date as written in the report, or null'),
+  description: z
+    .string()
+    .nullable()
+    .describe('One or two sentence summary of the description, or null'),
+};
+
+const featureName = z
+  .string()
+  .nullable()
+  .describe(
+    'Name of the feature (유구) this entity belongs to, exactly as written, or null',
+  );
+
+export const LedgerFeatureExtractionSchema = z.object({
+  ...commonFields,
+  featureType: z
+    .string()
+    .nullable()
+    .describe('Feature type (e.g., "주거지", "수혈", "석곽묘"), or null'),
+  dimensions: z
+    .string()
+    .nullable()
+    .describe('Dimensions as written in the report, or null'),
+  ...sourceFields,
+});
+
+export const LedgerArtifactExtractionSchema = z.object({
+  ...commonFields,
+  artifactType: z
+    .string()
+    .nullable()
+    .describe('Artifact type or vessel form (e.g., "발", "석촉"), or null'),
+  material: z
+    .string()
+    .nullable()
+    .describe('Material (e.g., "토제", "석제", "철제"), or null'),
+  quantity: z
+    .string()
+    .nullable()
+    .describe('Quantity as written in the report (e.g., "3점"), or null'),
+  featureName,
+  ...sourceFields,
+});
+
+export const LedgerStratumExtractionSchema = z.object({
+  ...commonFields,
+  soilDescription: z
+    .string()
+    .nullable()
+    .describe('Soil color, texture and inclusions as written, or null'),
+  featureName,
+  ...sourceFields,
+});
+
+/**
+ * Schema for the LLM response of one segment
+ */
+export const LedgerExtractionSchema = z.object({
+  features: z.array(LedgerFeatureExtractionSchema),
+  artifacts: z.array(LedgerArtifactExtractionSchema),
+  strata: z.array(LedgerStratumExtractionSchema),
+});
+
+export type LedgerExtraction = z.infer<typeof LedgerExtractionSchema>;
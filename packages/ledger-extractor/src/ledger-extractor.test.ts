@@ -0,0 +1,278 @@
+import type { LoggerMethods } from '@heripo/logger';
+import type { Chapter, ProcessedDocument } from '@heripo/model';
+import type { ExtendedTokenUsage } from '@heripo/shared';
+import type { LanguageModel } from 'ai';
+
+import type { LedgerExtraction } from './ledger-extraction-schema';
+
+import { beforeEach, describe, expect, test, vi } from 'vitest';
+
+import { LedgerExtractError } from './ledger-extract-error';
+import { LedgerExtractionSchema } from './ledger-extraction-schema';
+import { LedgerExtractor } from './ledger-extractor';
+
+describe('LedgerExtractor', () => {
+  let mockLogger: LoggerMethods;
+  let mockModel: LanguageModel;
+  let callTextLLM: ReturnType<typeof vi.spyOn>;
+
+  const usage = (phase = 'extraction'): ExtendedTokenUsage => ({
+    component: 'LedgerExtractor',
+    phase,
+    model: 'primary',
+    modelName: 'test-model',
+    inputTokens: 100,
+    outputTokens: 50,
+    totalTokens: 150,
+  });
+
+  const emptyExtraction: LedgerExtraction = {
+    features: [],
+    artifacts: [],
+    strata: [],
+  };
+
+  const createChapter = (
+    id: string,
+    title: string,
+    overrides?: Partial<Chapter>,
+  ): Chapter => ({
+    id,
+    originTitle: title,
+    title,
+    pageNo: 1,
+    level: 1,
+    textBlocks: [],
+    imageIds: [],
+    tableIds: [],
+    footnoteIds: [],
+    ...overrides,
+  });
+
+  const createDoc = (chapters: Chapter[]): ProcessedDocument => ({
+    reportId: 'report-1',
+    pageRangeMap: {},
+    chapters,
+    images: [],
+    tables: [
+      {
+        id: 'tbl-001',
+        sourceRef: '#/tables/0',
+        pdfPageNo: 6,
+        numRows: 1,
+        numCols: 2,
+        caption: { num: '표 1', fullText: '표 1 1호 주거지 출토유물' },
+        grid: [
+          [
+            { text: '무문토기 발', rowSpan: 1, colSpan: 1, isHeader: false },
+            { text: '1점', rowSpan: 1, colSpan: 1, isHeader: false },
+          ],
+        ],
+      },
+    ],
+    footnotes: [],
+  });
+
+  const doc = createDoc([
+    createChapter('ch-001', 'Ⅱ. 조사내용', {
+      children: [
+        createChapter('ch-002', '1. 1호 주거지', {
+          level: 2,
+          textBlocks: [
+            {
+              id: 'txt-001',
+              sourceRef: '#/texts/5',
+              text: '1호 주거지는 평면 장방형이다.',
+              pdfPageNo: 5,
+            },
+          ],
+          tableIds: ['tbl-001'],
+        }),
+        createChapter('ch-003', '2. 층위', {
+          level: 2,
+          textBlocks: [
+            {
+              id: 'txt-002',
+              sourceRef: '#/texts/9',
+              text: 'Ⅲ층은 암갈색 사질점토층이다.',
+              pdfPageNo: 7,
+            },
+          ],
+        }),
+      ],
+    }),
+  ]);
+
+  beforeEach(() => {
+    mockLogger = {
+      info: vi.fn(),
+      warn: vi.fn(),
+      error: vi.fn(),
+      debug: vi.fn(),
+    };
+    mockModel = { modelId: 'test-model' } as unknown as LanguageModel;
+    callTextLLM = vi.spyOn(LedgerExtractor.prototype as any, 'callTextLLM');
+  });
+
+  test('extracts a ledger with provenance from each chapter segment', async () => {
+    callTextLLM
+      .mockResolvedValueOnce({
+        output: {
+          features: [
+            {
+              name: '1호 주거지',
+              featureType: '주거지',
+              dimensions: null,
+              period: '청동기시대',
+              description: null,
+              blockIndexes: [0],
+              tableIndexes: [],
+              evidence: '1호 주거지는 평면 장방형이다.',
+            },
+          ],
+          artifacts: [
+            {
+              name: '무문토기 발',
+              artifactType: '발',
+              material: '토제',
+              quantity: '1점',
+              featureName: '1호 주거지',
+              period: null,
+              description: null,
+              blockIndexes: [],
+              tableIndexes: [0],
+              evidence: null,
+            },
+          ],
+          strata: [],
+        },
+        usage: usage(),
+      })
+      .mockResolvedValueOnce({
+        output: {
+          ...emptyExtraction,
+          strata: [
+            {
+              name: 'Ⅲ층',
+              soilDescription: '암갈색 사질점토',
+              featureName: null,
+              period: null,
+              description: null,
+              blockIndexes: [0],
+              tableIndexes: [],
+              evidence: null,
+            },
+          ],
+        },
+        usage: usage(),
+      });
+
+    const extractor = new LedgerExtractor(mockLogger, mockModel, {
+      concurrency: 1,
+    });
+    const { ledger, usages } = await extractor.extract(doc);
+
+    expect(callTextLLM).toHaveBeenCalledTimes(2);
+    expect(callTextLLM).toHaveBeenCalledWith(
+      LedgerExtractionSchema,
+      expect.stringContaining('features** (유구)'),
+      expect.stringContaining('Chapter: Ⅱ. 조사내용 > 1. 1호 주거지'),
+      'extraction',
+    );
+    const userPrompt = callTextLLM.mock.calls[0][2] as string;
+    expect(userPrompt).toContain('[B0] (p.5) 1호 주거지는 평면 장방형이다.');
+    expect(userPrompt).toContain(
+      '[T0] (p.6)\n표 1 1호 주거지 출토유물\n| 무문토기 발 | 1점 |',
+    );
+
+    expect(ledger.reportId).toBe('report-1');
+    expect(ledger.features).toEqual([
+      {
+        id: 'feat-001',
+        name: '1호 주거지',
+        featureType: '주거지',
+        period: '청동기시대',
+        provenance: [
+          {
+            chapterId: 'ch-002',
+            textBlockIds: ['txt-001'],
+            tableIds: [],
+            sourceRefs: ['#/texts/5'],
+            pdfPageNos: [5],
+            evidence: '1호 주거지는 평면 장방형이다.',
+          },
+        ],
+      },
+    ]);
+    expect(ledger.artifacts[0]).toMatchObject({
+      id: 'art-001',
+      featureId: 'feat-001',
+      material: '토제',
+      provenance: [
+        {
+          chapterId: 'ch-002',
+          tableIds: ['tbl-001'],
+          sourceRefs: ['#/tables/0'],
+        },
+      ],
+    });
+    expect(ledger.strata[0]).toMatchObject({
+      id: 'str-001',
+      soilDescription: '암갈색 사질점토',
+      provenance: [{ chapterId: 'ch-003', textBlockIds: ['txt-002'] }],
+    });
+    expect(usages).toHaveLength(2);
+  });
+
+  test('returns an empty ledger without LLM calls when there is no content', async () => {
+    const extractor = new LedgerExtractor(mockLogger, mockModel);
+
+    const result = await extractor.extract(
+      createDoc([createChapter('ch-001', '발간사')]),
+    );
+
+    expect(result).toEqual({
+      ledger: { reportId: 'report-1', features: [], artifacts: [], strata: [] },
+      usages: [],
+    });
+    expect(callTextLLM).not.toHaveBeenCalled();
+  });
+
+  test('wraps LLM failures in LedgerExtractError', async () => {
+    const cause = new Error('API timeout');
+    callTextLLM.mockRejectedValue(cause);
+    const extractor = new LedgerExtractor(mockLogger, mockModel);
+
+    const error = await extractor.extract(doc).catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(LedgerExtractError);
+    expect((error as LedgerExtractError).message).toBe(
+      'Failed to extract ledger: API timeout',
+    );
+    expect((error as LedgerExtractError).cause).toBe(cause);
+    expect(mockLogger.error).toHaveBeenCalledWith(
+      '[LedgerExtractor] Extraction failed: API timeout',
+    );
+  });
+
+  test('wraps non-Error rejections in LedgerExtractError', async () => {
+    callTextLLM.mockRejectedValue('rate limited');
+    const extractor = new LedgerExtractor(mockLogger, mockModel);
+
+    await expect(extractor.extract(doc)).rejects.toThrow(
+      'Failed to extract ledger: rate limited',
+    );
+  });
+
+  test('splits long chapters by maxSegmentChars', async () => {
+    callTextLLM.mockResolvedValue({ output: emptyExtraction, usage: usage() });
+    const extractor = new LedgerExtractor(mockLogger, mockModel, {
+      maxSegmentChars: 10,
+    });
+
+    const { usages } = await extractor.extract(doc);
+
+    expect(callTextLLM).toHaveBeenCalledTimes(3);
+    expect(usages).toHaveLength(3);
+  });
+});
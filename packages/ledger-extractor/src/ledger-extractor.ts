@@ -0,0 +1,180 @@
+import type { BaseLLMComponentOptions } from '@heripo/document-processor';
+import type { LoggerMethods } from '@heripo/logger';
+import type { ArchaeologyLedger, ProcessedDocument } from '@heripo/model';
+import type {
+  ExtendedTokenUsage,
+  LLMTokenUsageAggregator,
+} from '@heripo/shared';
+import type { LanguageModel } from 'ai';
+
+import type { LedgerExtraction } from './ledger-extraction-schema';
+import type { LedgerSegment } from './ledger-segmenter';
+
+import { TextLLMComponent } from '@heripo/document-processor';
+import { ConcurrentPool } from '@heripo/shared';
+
+import { LedgerBuilder } from './ledger-builder';
+import { LedgerExtractError } from './ledger-extract-error';
+import { LedgerExtractionSchema } from './ledger-extraction-schema';
+import { LedgerSegmenter, renderTable } from './ledger-segmenter';
+
+interface SegmentResult {
+  output: LedgerExtraction;
+  usage: ExtendedTokenUsage;
+}
+
+/**
+ * LedgerExtractor options
+ */
+export interface LedgerExtractorOptions extends BaseLLMComponentOptions {
+  /**
+   * Maximum characters of chapter content per LLM call (default: 12000)
+   */
+  maxSegmentChars?: number;
+
+  /**
+   * Number of segments processed concurrently (default: 4)
+   */
+  concurrency?: number;
+}
+
+/**
+ * LedgerExtractor
+ *
+ * Extracts features (유구), artifacts (유물) and strata (층위) from a
+ * ProcessedDocument into an ArchaeologyLedger.
+ * Extends TextLLMComponent for standardized LLM call handling.
+ *
+ * ## Algorithm
+ *
+ * 1. Split chapters into segments (LedgerSegmenter, rule-based)
+ * 2. For each segment: list text blocks as [B#] and tables as [T#], and ask
+ *    the LLM for entities with the indexes that mention them
+ * 3. Resolve indexes to TextBlock.id / ProcessedTable.id / sourceRef and
+ *    merge mentions across segments (LedgerBuilder)
+ */
+export class LedgerExtractor extends TextLLMComponent {
+  private readonly maxSegmentChars: number;
+  private readonly concurrency: number;
+
+  constructor(
+    logger: LoggerMethods,
+    model: LanguageModel,
+    options?: LedgerExtractorOptions,
+    fallbackModel?: LanguageModel,
+    aggregator?: LLMTokenUsageAggregator,
+  ) {
+    super(logger, model, 'LedgerExtractor', options, fallbackModel, aggregator);
+    this.maxSegmentChars = options?.maxSegmentChars ?? 12000;
+    this.concurrency = options?.concurrency ?? 4;
+  }
+
+  /**
+   * Extract the archaeological ledger from a processed document
+   *
+   * @param document - Processed document
+   * @returns Ledger and token usage of each LLM call (one per segment)
+   * @throws {LedgerExtractError} When an LLM call fails
+   */
+  async extract(
+    document: ProcessedDocument,
+  ): Promise<{ ledger: ArchaeologyLedger; usages: ExtendedTokenUsage[] }> {
+    const segments = new LedgerSegmenter(this.maxSegmentChars).segment(
+      document,
+    );
+    this.log(
+      'info',
+      `Starting ledger extraction for ${document.reportId} (${segments.length} segments)`,
+    );
+
+    const builder = new LedgerBuilder(this.logger);
+    if (segments.length === 0) {
+      this.log('info', 'No chapter content to extract');
+      return { ledger: builder.build(document.reportId), usages: [] };
+    }
+
+    let results: SegmentResult[];
+    try {
+      results = await ConcurrentPool.run(
+        segments,
+        this.concurrency,
+        (segment) => this.extractSegment(segment),
+        (_result, index) => {
+          this.log(
+            'info',
+            `Processed segment ${index + 1} / ${segments.length}`,
+          );
+        },
+      );
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      this.log('error', `Extraction failed: ${message}`);
+      throw new LedgerExtractError(`Failed to extract ledger: ${message}`, {
+        cause: error,
+      });
+    }
+
+    // Merge in segment order so IDs follow document order regardless of concurrency
+    results.forEach((result, index) =>
+      builder.add(segments[index], result.output),
+    );
+    const ledger = builder.build(document.reportId);
+
+    this.log(
+      'info',
+      `Extraction completed: ${ledger.features.length} features, ${ledger.artifacts.length} artifacts, ${ledger.strata.length} strata`,
+    );
+
+    return { ledger, usages: results.map((result) => result.usage) };
+  }
+
+  private extractSegment(segment: LedgerSegment): Promise<SegmentResult> {
+    return this.callTextLLM(
+      LedgerExtractionSchema,
+      this.buildSystemPrompt(),
+      this.buildUserPrompt(segment),
+      'extraction',
+    );
+  }
+
+  /**
+   * Build system prompt for ledger extraction
+   */
+  protected buildSystemPrompt(): string {
+    return `You are an archaeological data extraction assistant for excavation reports.
+
+Extract the archaeological entities described in the given report excerpt:
+- **features** (유구): excavated structures such as dwellings (주거지), pits (수혈), tombs (묘), kilns (요지), ditches (구)
+- **artifacts** (유물): recovered objects such as pottery (토기), stone tools (석기), iron objects (철기), roof tiles (기와)
+- **strata** (층위): layers of a stratigraphic sequence, at site level (e.g., "Ⅲ층 암갈색 사질점토층") or inside a feature fill
+
+## Rules
+
+1. Extract only entities the excerpt actually describes. Do NOT infer entities from general background (e.g., other sites, previous surveys, comparative examples).
+2. Copy names exactly as written (e.g., "1호 주거지", "무문토기 발"). Do not translate or normalize.
+3. Fill optional fields only from the excerpt; use null when not stated.
+4. For artifacts and strata, set featureName to the feature they belong to, written the same way as the feature's name, or null if none.
+5. blockIndexes and tableIndexes list the [B#] and [T#] items that mention the entity. Every entity must cite at least one item.
+6. Treat each table row describing an artifact or feature as an entity and cite the table.
+7. Return empty arrays when the excerpt describes no entities.`;
+  }
+
+  /**
+   * Build user prompt listing a segment's text blocks and tables
+   */
+  protected buildUserPrompt(segment: LedgerSegment): string {
+    const blocks = segment.textBlocks.map(
+      (block, index) => `[B${index}] (p.${block.pdfPageNo}) ${block.text}`,
+    );
+    const tables = segment.tables.map(
+      (table, index) =>
+        `[T${index}] (p.${table.pdfPageNo})\n${renderTable(table)}`,
+    );
+
+    return `Extract features, artifacts and strata from the following report excerpt.
+
+Chapter: ${segment.chapterPath}
+
+${[...blocks, ...tables].join('\n\n')}`;
+  }
+}
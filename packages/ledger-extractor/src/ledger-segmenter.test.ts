@@ -0,0 +1,202 @@
+import type { Chapter, ProcessedDocument, ProcessedTable } from '@heripo/model';
+
+import { describe, expect, test } from 'vitest';
+
+import { LedgerSegmenter, renderTable } from './ledger-segmenter';
+
+const createChapter = (
+  id: string,
+  title: string,
+  overrides?: Partial<Chapter>,
+): Chapter => ({
+  id,
+  originTitle: title,
+  title,
+  pageNo: 1,
+  level: 1,
+  textBlocks: [],
+  imageIds: [],
+  tableIds: [],
+  footnoteIds: [],
+  ...overrides,
+});
+
+const createTable = (
+  id: string,
+  pdfPageNo: number,
+  overrides?: Partial<ProcessedTable>,
+): ProcessedTable => ({
+  id,
+  pdfPageNo,
+  numRows: 1,
+  numCols: 2,
+  grid: [
+    [
+      { text: '번호', rowSpan: 1, colSpan: 1, isHeader: true },
+      { text: '기종', rowSpan: 1, colSpan: 1, isHeader: true },
+    ],
+  ],
+  ...overrides,
+});
+
+const createDoc = (
+  chapters: Chapter[],
+  tables: ProcessedTable[] = [],
+): ProcessedDocument => ({
+  reportId: 'report-1',
+  pageRangeMap: {},
+  chapters,
+  images: [],
+  tables,
+  footnotes: [],
+});
+
+describe('renderTable', () => {
+  test('renders caption and rows, escaping pipes and collapsing whitespace', () => {
+    const table = createTable('tbl-001', 3, {
+      caption: { num: '표 1', fullText: '표 1 출토유물 목록' },
+      grid: [
+        [
+          { text: '번호', rowSpan: 1, colSpan: 1, isHeader: true },
+          { text: '기종', rowSpan: 1, colSpan: 1, isHeader: true },
+        ],
+        [
+          { text: '1', rowSpan: 1, colSpan: 1, isHeader: false },
+          { text: '발|호\n 구연부', rowSpan: 1, colSpan: 1, isHeader: false },
+        ],
+      ],
+    });
+
+    expect(renderTable(table)).toBe(
+      '표 1 출토유물 목록\n| 번호 | 기종 |\n| 1 | 발\\|호 구연부 |',
+    );
+  });
+});
+
+describe('LedgerSegmenter', () => {
+  test('creates one segment per chapter with content, depth-first with chapter path', () => {
+    const doc = createDoc([
+      createChapter('ch-001', 'Ⅰ. 조사개요', {
+        textBlocks: [{ id: 'txt-001', text: '개요', pdfPageNo: 1 }],
+        children: [
+          createChapter('ch-002', '1. 조사경위', {
+            level: 2,
+            textBlocks: [{ id: 'txt-002', text: '경위', pdfPageNo: 2 }],
+          }),
+        ],
+      }),
+      createChapter('ch-003', 'Ⅱ. 조사내용', {
+        children: [
+          createChapter('ch-004', '1. 주거지', {
+            level: 2,
+            textBlocks: [{ id: 'txt-003', text: '1호 주거지', pdfPageNo: 5 }],
+          }),
+        ],
+      }),
+    ]);
+
+    const segments = new LedgerSegmenter(1000).segment(doc);
+
+    expect(segments.map((s) => [s.chapterId, s.chapterPath])).toEqual([
+      ['ch-001', 'Ⅰ. 조사개요'],
+      ['ch-002', 'Ⅰ. 조사개요 > 1. 조사경위'],
+      ['ch-004', 'Ⅱ. 조사내용 > 1. 주거지'],
+    ]);
+  });
+
+  test('creates segments for part chapters after the main report', () => {
+    const doc: ProcessedDocument = {
+      ...createDoc([
+        createChapter('ch-001', 'Ⅰ. 조사개요', {
+          textBlocks: [{ id: 'txt-001', text: '개요', pdfPageNo: 1 }],
+        }),
+      ]),
+      parts: [
+        {
+          id: 'part-001',
+          title: '부록 1. 자연과학분석',
+          startPdfPageNo: 10,
+          endPdfPageNo: 20,
+          pageRangeMap: {},
+          chapterSource: 'heading-inference',
+          chapters: [
+            createChapter('ch-002', '1. 분석 개요', {
+              textBlocks: [{ id: 'txt-002', text: '분석', pdfPageNo: 11 }],
+            }),
+          ],
+        },
+        {
+          id: 'part-002',
+          startPdfPageNo: 21,
+          endPdfPageNo: 30,
+          pageRangeMap: {},
+          chapterSource: 'heading-inference',
+          chapters: [
+            createChapter('ch-003', '1. 고찰', {
+              textBlocks: [{ id: 'txt-003', text: '고찰', pdfPageNo: 22 }],
+            }),
+          ],
+        },
+      ],
+    };
+
+    const segments = new LedgerSegmenter(1000).segment(doc);
+
+    expect(segments.map((s) => [s.chapterId, s.chapterPath])).toEqual([
+      ['ch-001', 'Ⅰ. 조사개요'],
+      ['ch-002', '부록 1. 자연과학분석 > 1. 분석 개요'],
+      ['ch-003', '1. 고찰'],
+    ]);
+  });
+
+  test('orders text and tables by PDF page and skips unknown table IDs', () => {
+    const doc = createDoc(
+      [
+        createChapter('ch-001', '1. 주거지', {
+          textBlocks: [
+            { id: 'txt-001', text: 'a', pdfPageNo: 2 },
+            { id: 'txt-002', text: 'b', pdfPageNo: 4 },
+          ],
+          tableIds: ['tbl-001', 'tbl-404'],
+        }),
+      ],
+      [createTable('tbl-001', 2)],
+    );
+
+    const [segment] = new LedgerSegmenter(1000).segment(doc);
+
+    expect(segment.textBlocks.map((b) => b.id)).toEqual(['txt-001', 'txt-002']);
+    expect(segment.tables.map((t) => t.id)).toEqual(['tbl-001']);
+  });
+
+  test('splits chapters exceeding maxSegmentChars', () => {
+    const doc = createDoc([
+      createChapter('ch-001', '1. 주거지', {
+        textBlocks: [
+          { id: 'txt-001', text: 'a'.repeat(6), pdfPageNo: 1 },
+          { id: 'txt-002', text: 'b'.repeat(6), pdfPageNo: 1 },
+          { id: 'txt-003', text: 'c'.repeat(20), pdfPageNo: 2 },
+          { id: 'txt-004', text: 'd'.repeat(2), pdfPageNo: 3 },
+        ],
+      }),
+    ]);
+
+    const segments = new LedgerSegmenter(10).segment(doc);
+
+    expect(segments.map((s) => s.textBlocks.map((b) => b.id))).toEqual([
+      ['txt-001'],
+      ['txt-002'],
+      ['txt-003'],
+      ['txt-004'],
+    ]);
+    expect(new Set(segments.map((s) => s.chapterId))).toEqual(
+      new Set(['ch-001']),
+    );
+  });
+
+  test('returns no segments for a document without chapter content', () => {
+    const doc = createDoc([createChapter('ch-001', '발간사')]);
+
+    expect(new LedgerSegmenter(1000).segment(doc)).toEqual([]);
+  });
+});
@@ -0,0 +1,161 @@
+import type {
+  Chapter,
+  ProcessedDocument,
+  ProcessedTable,
+  TextBlock,
+} from '@heripo/model';
+
+/**
+ * Content item of a segment, in page order
+ */
+export type LedgerSegmentItem =
+  { kind: 'text'; block: TextBlock } | { kind: 'table'; table: ProcessedTable };
+
+/**
+ * Extraction unit sent to the LLM in one call
+ *
+ * Holds part (or all) of a single chapter's own content. Child chapters
+ * become separate segments.
+ */
+export interface LedgerSegment {
+  /**
+   * Source chapter ID
+   */
+  chapterId: string;
+
+  /**
+   * Chapter titles from the root to the source chapter (e.g., "Ⅲ. 조사내용 > 1. 주거지")
+   */
+  chapterPath: string;
+
+  /**
+   * Text blocks in this segment
+   */
+  textBlocks: TextBlock[];
+
+  /**
+   * Tables in this segment
+   */
+  tables: ProcessedTable[];
+}
+
+/**
+ * Render a processed table as a Markdown-like grid for prompts
+ */
+export function renderTable(table: ProcessedTable): string {
+  const lines: string[] = [];
+  if (table.caption?.fullText) {
+    lines.push(table.caption.fullText);
+  }
+  for (const row of table.grid) {
+    lines.push(
+      `| ${row.map((cell) => cell.text.replace(/\|/g, '\\|').replace(/\s+/g, ' ').trim()).join(' | ')} |`,
+    );
+  }
+  return lines.join('\n');
+}
+
+/**
+ * LedgerSegmenter
+ *
+ * Splits a ProcessedDocument into per-chapter segments for ledger extraction.
+ * Rule-based: no LLM calls.
+ *
+ * - Chapters are visited depth-first, main report first and then each part;
+ *   a part's chapter paths start with the part title when it has one.
+ * - Each chapter's own text blocks and tables are ordered by PDF page (text
+ *   before tables on the same page).
+ * - A chapter whose content exceeds `maxSegmentChars` is split into several
+ *   segments. An item larger than the limit forms a segment on its own.
+ * - Chapters without text blocks or tables produce no segment.
+ */
+export class LedgerSegmenter {
+  constructor(private readonly maxSegmentChars: number) {}
+
+  /**
+   * Build segments for the whole document
+   */
+  segment(document: ProcessedDocument): LedgerSegment[] {
+    const tablesById = new Map(document.tables.map((t) => [t.id, t]));
+    const segments: LedgerSegment[] = [];
+
+    const visit = (chapter: Chapter, parentPath: string[]): void => {
+      const path = [...parentPath, chapter.title];
+      segments.push(...this.segmentChapter(chapter, path, tablesById));
+      for (const child of chapter.children ?? []) {
+        visit(child, path);
+      }
+    };
+
+    for (const chapter of document.chapters) {
+      visit(chapter, []);
+    }
+    for (const part of document.parts ?? []) {
+      for (const chapter of part.chapters) {
+        visit(chapter, part.title !== undefined ? [part.title] : []);
+      }
+    }
+
+    return segments;
+  }
+
+  private segmentChapter(
+    chapter: Chapter,
+    path: string[],
+    tablesById: Map<string, ProcessedTable>,
+  ): LedgerSegment[] {
+    const items = this.collectItems(chapter, tablesById);
+    const segments: LedgerSegment[] = [];
+
+    let current: LedgerSegmentItem[] = [];
+    let currentChars = 0;
+
+    const flush = (): void => {
+      if (current.length === 0) return;
+      segments.push({
+        chapterId: chapter.id,
+        chapterPath: path.join(' > '),
+        textBlocks: current.flatMap((i) =>
+          i.kind === 'text' ? [i.block] : [],
+        ),
+        tables: current.flatMap((i) => (i.kind === 'table' ? [i.table] : [])),
+      });
+      current = [];
+      currentChars = 0;
+    };
+
+    for (const item of items) {
+      const chars =
+        item.kind === 'text'
+          ? item.block.text.length
+          : renderTable(item.table).length;
+      if (currentChars + chars > this.maxSegmentChars) {
+        flush();
+      }
+      current.push(item);
+      currentChars += chars;
+    }
+    flush();
+
+    return segments;
+  }
+
+  private collectItems(
+    chapter: Chapter,
+    tablesById: Map<string, ProcessedTable>,
+  ): LedgerSegmentItem[] {
+    const items: LedgerSegmentItem[] = [
+      ...chapter.textBlocks.map((block) => ({ kind: 'text' as const, block })),
+      ...chapter.tableIds
+        .map((id) => tablesById.get(id))
+        .filter((table): table is ProcessedTable => table !== undefined)
+        .map((table) => ({ kind: 'table' as const, table })),
+    ];
+
+    const pageOf = (item: LedgerSegmentItem): number =>
+      item.kind === 'text' ? item.block.pdfPageNo : item.table.pdfPageNo;
+
+    // Array.prototype.sort is stable, so text keeps its order and precedes tables on the same page
+    return items.sort((a, b) => pageOf(a) - pageOf(b));
+  }
+}
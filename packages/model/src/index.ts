@@ -13,9 +13,11 @@ export {
 } from './language/language-display';
 
 // Type definitions
+export type * from './types/archaeology-ledger';
 export type * from './types/docling-document';
 export type * from './types/document-process-result';
 export type * from './types/ocr-strategy';
+export type * from './types/pdf-outline';
 export type * from './types/processed-document';
 export type * from './types/review-assistance';
 export type * from './types/token-usage-report';
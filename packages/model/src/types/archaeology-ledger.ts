@@ -0,0 +1,202 @@
+/**
+ * Provenance of a ledger entity
+ *
+ * Points back to the ProcessedDocument content the entity was extracted from.
+ * An entity mentioned in several places carries one provenance record per
+ * extraction unit (chapter segment).
+ *
+ * @interface LedgerProvenance
+ */
+export interface LedgerProvenance {
+  /**
+   * ID of the chapter containing the source content
+   * @type {string}
+   */
+  chapterId: string;
+
+  /**
+   * IDs of the text blocks (TextBlock.id) supporting the entity
+   * @type {string[]}
+   */
+  textBlockIds: string[];
+
+  /**
+   * IDs of the tables (ProcessedTable.id) supporting the entity
+   * @type {string[]}
+   */
+  tableIds: string[];
+
+  /**
+   * Docling self references of the supporting text blocks and tables
+   * @type {string[]}
+   */
+  sourceRefs: string[];
+
+  /**
+   * PDF page numbers of the supporting content
+   * @type {number[]}
+   */
+  pdfPageNos: number[];
+
+  /**
+   * Short verbatim excerpt from the source that mentions the entity
+   * @type {string}
+   */
+  evidence?: string;
+}
+
+/**
+ * Common fields of ledger entities
+ *
+ * @interface LedgerEntityBase
+ */
+export interface LedgerEntityBase {
+  /**
+   * Identifier of the entity, unique within the ledger
+   *
+   * Formatted as `{prefix}-{number}` in order of first appearance
+   * (e.g., "feat-001", "art-001", "str-001").
+   *
+   * @type {string}
+   */
+  id: string;
+
+  /**
+   * Name as written in the report
+   * Example: "1호 주거지", "Ⅲ층", "무문토기 발"
+   *
+   * @type {string}
+   */
+  name: string;
+
+  /**
+   * Summary of the report's description of the entity
+   * @type {string}
+   */
+  description?: string;
+
+  /**
+   * Period or date as written in the report (e.g., "청동기시대", "6세기 후반")
+   * @type {string}
+   */
+  period?: string;
+
+  /**
+   * Source locations the entity was extracted from
+   * @type {LedgerProvenance[]}
+   */
+  provenance: LedgerProvenance[];
+}
+
+/**
+ * Feature (유구)
+ *
+ * Excavated structure such as a dwelling, pit or tomb.
+ *
+ * @interface LedgerFeature
+ */
+export interface LedgerFeature extends LedgerEntityBase {
+  /**
+   * Feature type as written in the report (e.g., "주거지", "수혈", "석곽묘")
+   * @type {string}
+   */
+  featureType?: string;
+
+  /**
+   * Dimensions as written in the report (e.g., "장축 540cm, 단축 380cm")
+   * @type {string}
+   */
+  dimensions?: string;
+}
+
+/**
+ * Artifact (유물)
+ *
+ * Object recovered during excavation.
+ *
+ * @interface LedgerArtifact
+ */
+export interface LedgerArtifact extends LedgerEntityBase {
+  /**
+   * Artifact type or vessel form as written in the report (e.g., "발", "석촉")
+   * @type {string}
+   */
+  artifactType?: string;
+
+  /**
+   * Material (e.g., "토제", "석제", "철제")
+   * @type {string}
+   */
+  material?: string;
+
+  /**
+   * Quantity as written in the report (e.g., "3점")
+   * @type {string}
+   */
+  quantity?: string;
+
+  /**
+   * ID of the feature the artifact was recovered from (LedgerFeature.id)
+   * @type {string}
+   */
+  featureId?: string;
+}
+
+/**
+ * Stratum (층위)
+ *
+ * Layer in a stratigraphic sequence.
+ *
+ * @interface LedgerStratum
+ */
+export interface LedgerStratum extends LedgerEntityBase {
+  /**
+   * Soil color, texture and inclusions as written in the report
+   * @type {string}
+   */
+  soilDescription?: string;
+
+  /**
+   * ID of the feature whose fill this stratum belongs to (LedgerFeature.id)
+   *
+   * Undefined for site-level strata (e.g., trench sections).
+   *
+   * @type {string}
+   */
+  featureId?: string;
+}
+
+/**
+ * Archaeological data ledger
+ *
+ * Features, artifacts and strata extracted from a ProcessedDocument.
+ * Entities faithfully reflect the report's wording; normalization into
+ * standard vocabularies happens in later stages.
+ *
+ * @interface ArchaeologyLedger
+ */
+export interface ArchaeologyLedger {
+  /**
+   * Report ID of the source ProcessedDocument
+   * @type {string}
+   */
+  reportId: string;
+
+  /**
+   * Features (유구)
+   * @type {LedgerFeature[]}
+   */
+  features: LedgerFeature[];
+
+  /**
+   * Artifacts (유물)
+   * @type {LedgerArtifact[]}
+   */
+  artifacts: LedgerArtifact[];
+
+  /**
+   * Strata (층위)
+   * @type {LedgerStratum[]}
+   */
+  strata: LedgerStratum[];
+}
@@ -27,4 +27,92 @@ export interface DocumentProcessResult {
    * Includes information about fallback model usage when primary models fail.
    */
   usage: TokenUsageReport;
+
+  /**
+   * Figure and table cross-reference check
+   *
+   * Present when cross-reference resolution is enabled.
+   */
+  crossReferences?: CrossReferenceReport;
+
+  /**
+   * List-of-figures and list-of-tables check against captions
+   *
+   * Present when resource index reconciliation is enabled.
+   */
+  resourceIndex?: ResourceIndexReport;
+}
+
+/**
+ * Figure or table mention without a matching caption
+ */
+export interface DanglingReference {
+  /** Chapter containing the mention */
+  chapterId: string;
+  /** Text block containing the mention */
+  textBlockId?: string;
+  pdfPageNo: number;
+  /** Mention as printed (e.g. "도면 12~14") */
+  text: string;
+  /** Prefix with the number that has no caption (e.g. "도면 13") */
+  num: string;
+}
+
+/**
+ * Result of linking in-text figure and table mentions to their resources
+ */
+export interface CrossReferenceReport {
+  /** Number of mentions linked to at least one image or table */
+  linkedCount: number;
+  /** Referenced numbers without a matching caption */
+  danglingReferences: DanglingReference[];
+  /** Numbered images never mentioned in the text */
+  uncitedImageIds: string[];
+  /** Numbered tables never mentioned in the text */
+  uncitedTableIds: string[];
+}
+
+/**
+ * One line of a list-of-figures or list-of-tables page (도면목차, 사진목차, 표목차)
+ */
+export interface ResourceIndexEntry {
+  /** Kind of resource the entry lists */
+  type: 'image' | 'table';
+  /** Caption prefix as printed (e.g. "도면", "Fig") */
+  prefix: string;
+  /** Caption number with "-" between components (e.g. "12", "3-2") */
+  num: string;
+  /** Caption title without the number (e.g. "유구 배치도") */
+  title: string;
+  /** Printed page number of the resource */
+  pageNo: number;
+  /** Docling text or table the entry was read from */
+  sourceRef: string;
+}
+
+/**
+ * Index entry whose resource carries a caption with a different number
+ */
+export interface ResourceIndexMismatch {
+  entry: ResourceIndexEntry;
+  /** Image or table ID */
+  resourceId: string;
+  /** Caption number of the resource (e.g. "도면 13") */
+  captionNum: string;
+}
+
+/**
+ * Result of reconciling resource index pages with image and table captions
+ */
+export interface ResourceIndexReport {
+  /** Parsed index entries in page order */
+  entries: ResourceIndexEntry[];
+  /** Number of entries whose number matches a caption */
+  matchedCount: number;
+  /** Images and tables whose caption or caption number was taken from the index */
+  filledCaptionIds: string[];
+  /** Entries whose resource on the listed page has a different caption number */
+  mismatches: ResourceIndexMismatch[];
+  /** Entries without any image or table on the listed page */
+  missingEntries: ResourceIndexEntry[];
 }
@@ -1,15 +1,23 @@
 import type { Bcp47LanguageTag } from '../language/bcp47-language-tag';
 
+/**
+ * OCR engines that docling-serve can run in the standard pipeline.
+ * - `ocrmac`: Apple Vision framework (macOS only)
+ * - `tesseract`: Tesseract CLI (any platform with `tesseract` installed)
+ * - `easyocr`: EasyOCR (bundled with docling-serve, any platform)
+ */
+export type OcrEngine = 'ocrmac' | 'tesseract' | 'easyocr';
+
 /**
  * Result of the OCR strategy sampling phase.
- * Determines whether to use ocrmac (standard Docling pipeline)
+ * Determines whether to use an OCR engine (standard Docling pipeline)
  * or VLM text correction for a given document.
  */
 export interface OcrStrategy {
   /** Selected OCR method */
-  method: 'ocrmac' | 'vlm';
+  method: OcrEngine | 'vlm';
 
-  /** OCR language weights for ocrmac (e.g., ['ko-KR', 'en-US'] or ['zh-Hant', 'ko-KR']) */
+  /** OCR language weights as BCP 47 tags (e.g., ['ko-KR', 'en-US'] or ['zh-Hant', 'ko-KR']) */
   ocrLanguages?: string[];
 
   /** BCP 47 language tags detected during sampling, ordered by frequency (e.g., ['ko-KR', 'en-US']) */
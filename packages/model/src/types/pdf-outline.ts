@@ -0,0 +1,18 @@
+/**
+ * PDF outline (bookmark) item.
+ * Born-digital documents often embed their table of contents this way, so it
+ * can be used as a TOC source without any LLM call.
+ */
+export interface PdfOutlineItem {
+  /** Bookmark title as stored in the PDF */
+  title: string;
+
+  /** Nesting depth (1 = top-level bookmark) */
+  level: number;
+
+  /** 1-based PDF page the bookmark points to; undefined when it has no page destination */
+  pageNo?: number;
+
+  /** Nested bookmarks */
+  children: PdfOutlineItem[];
+}
@@ -51,6 +51,44 @@ export interface PageRange {
   endPageNo: number;
 }
 
+/**
+ * Numeral system of printed page numbers
+ *
+ * - `arabic`: 1, 2, 3 (body pages)
+ * - `roman`: i, ii, iii or I, II, III (front matter such as prefaces)
+ * - `cjk`: 一, 二, 三 (older East Asian reports)
+ */
+export type PageNumeralSystem = 'arabic' | 'roman' | 'cjk';
+
+/**
+ * Page range printed with Roman or CJK numerals
+ *
+ * `startPageNo` and `endPageNo` hold the normalized ordinal of the printed
+ * numeral (e.g. "iv" = 4, "十二" = 12), so they restart at 1 when the
+ * numbering switches to Arabic. Ranges without `numeralSystem` are Arabic.
+ *
+ * @interface LabeledPageRange
+ */
+export interface LabeledPageRange extends PageRange {
+  /**
+   * Numeral system of the printed page numbers
+   * @type {Exclude<PageNumeralSystem, 'arabic'>}
+   */
+  numeralSystem: Exclude<PageNumeralSystem, 'arabic'>;
+
+  /**
+   * Printed label of the starting page (e.g. "iv", "十二")
+   * @type {string}
+   */
+  startLabel: string;
+
+  /**
+   * Printed label of the ending page
+   * @type {string}
+   */
+  endLabel: string;
+}
+
 /**
  * Source artifact metadata for a processed document
  *
@@ -86,6 +124,232 @@ export interface ProcessedDocumentSource {
   handoffManifestObjectKey?: string;
 }
 
+/**
+ * Bibliographic metadata of a report
+ *
+ * Read from the cover, colophon (판권지) and abstract pages. Every field is
+ * optional because reports print different subsets of it. Dates are ISO 8601
+ * strings at the precision printed in the report ("2021-03-15", "2021-03"
+ * or "2021").
+ *
+ * @interface ReportMetadata
+ */
+export interface ReportMetadata {
+  /**
+   * Report title as printed on the cover
+   * @type {string}
+   */
+  title?: string;
+
+  /**
+   * Subtitle printed below the title
+   * @type {string}
+   */
+  subtitle?: string;
+
+  /**
+   * Publication series with its volume number (e.g. "학술조사보고 제45책")
+   * @type {string}
+   */
+  series?: string;
+
+  /**
+   * Institution that issued the report (발행기관)
+   * @type {string}
+   */
+  issuingInstitution?: string;
+
+  /**
+   * Organization that carried out the investigation (조사기관)
+   * @type {string}
+   */
+  investigatingOrganization?: string;
+
+  /**
+   * Publication date (ISO 8601)
+   * @type {string}
+   */
+  publicationDate?: string;
+
+  /**
+   * ISBN without hyphens (10 or 13 characters)
+   * @type {string}
+   */
+  isbn?: string;
+
+  /**
+   * Korean government publication registration number (발간등록번호)
+   * @type {string}
+   */
+  publicationRegistrationNo?: string;
+
+  /**
+   * Name of the investigated site
+   * @type {string}
+   */
+  siteName?: string;
+
+  /**
+   * Address of the investigated site
+   * @type {string}
+   */
+  siteAddress?: string;
+
+  /**
+   * Investigation period with ISO 8601 start and end dates
+   * @type {{ startDate?: string; endDate?: string }}
+   */
+  investigationPeriod?: {
+    startDate?: string;
+    endDate?: string;
+  };
+}
+
+/**
+ * Origin of the chapter tree in a processed document
+ *
+ * - `toc`: Chapters built from the document's table of contents (extracted or caller-supplied)
+ * - `heading-inference`: Chapters inferred from section headings because no TOC was found
+ */
+export type ChapterSource = 'toc' | 'heading-inference';
+
+/**
+ * Bounding box in PDF points with a top-left origin
+ *
+ * @interface LayoutBoundingBox
+ */
+export interface LayoutBoundingBox {
+  /**
+   * Distance of the left edge from the left of the page
+   * @type {number}
+   */
+  left: number;
+
+  /**
+   * Distance of the top edge from the top of the page
+   * @type {number}
+   */
+  top: number;
+
+  /**
+   * Distance of the right edge from the left of the page
+   * @type {number}
+   */
+  right: number;
+
+  /**
+   * Distance of the bottom edge from the top of the page
+   * @type {number}
+   */
+  bottom: number;
+}
+
+/**
+ * Bounding box as fractions (0-1) of a parent image's width and height with a
+ * top-left origin
+ *
+ * @interface RelativeBoundingBox
+ */
+export interface RelativeBoundingBox {
+  /**
+   * Distance of the left edge from the left of the image
+   * @type {number}
+   */
+  left: number;
+
+  /**
+   * Distance of the top edge from the top of the image
+   * @type {number}
+   */
+  top: number;
+
+  /**
+   * Distance of the right edge from the left of the image
+   * @type {number}
+   */
+  right: number;
+
+  /**
+   * Distance of the bottom edge from the top of the image
+   * @type {number}
+   */
+  bottom: number;
+}
+
+/**
+ * Area an item occupies on one PDF page
+ *
+ * Items spanning several pages or columns (multiple Docling `prov` entries)
+ * carry one region per entry.
+ *
+ * @interface LayoutRegion
+ */
+export interface LayoutRegion {
+  /**
+   * Page number in the PDF file
+   * @type {number}
+   */
+  pdfPageNo: number;
+
+  /**
+   * Bounding box on the page
+   * @type {LayoutBoundingBox}
+   */
+  bbox: LayoutBoundingBox;
+
+  /**
+   * Page width in PDF points
+   * @type {number}
+   */
+  pageWidth: number;
+
+  /**
+   * Page height in PDF points
+   * @type {number}
+   */
+  pageHeight: number;
+}
+
+/**
+ * In-text mention of figures or tables linked to their resources
+ *
+ * Covers the whole mention as printed, including ranges and lists:
+ * "(도면 12)" links one image, "사진 3~5" links up to three.
+ *
+ * @interface TextBlockReference
+ */
+export interface TextBlockReference {
+  /**
+   * Start offset of the mention in `TextBlock.text` (UTF-16 code units)
+   * @type {number}
+   */
+  start: number;
+
+  /**
+   * End offset of the mention in `TextBlock.text` (exclusive)
+   * @type {number}
+   */
+  end: number;
+
+  /**
+   * Mention as printed (e.g. "사진 3~5", "Fig. 2")
+   * @type {string}
+   */
+  text: string;
+
+  /**
+   * IDs of the referenced images, in mention order
+   * @type {string[]}
+   */
+  imageIds: string[];
+
+  /**
+   * IDs of the referenced tables, in mention order
+   * @type {string[]}
+   */
+  tableIds: string[];
+}
+
 /**
  * Text block (paragraph, sentence, etc.)
  *
@@ -117,6 +381,18 @@ export interface TextBlock {
    * @type {number}
    */
   pdfPageNo: number;
+
+  /**
+   * Figure and table mentions linked to image and table IDs, ordered by offset
+   * @type {TextBlockReference[]}
+   */
+  references?: TextBlockReference[];
+
+  /**
+   * Where the text block sits on its PDF page (set with `includeLayoutRegions`)
+   * @type {LayoutRegion[]}
+   */
+  regions?: LayoutRegion[];
 }
 
 /**
@@ -212,6 +488,71 @@ export interface Chapter {
   children?: Chapter[];
 }
 
+/**
+ * Kind of figure an image shows
+ *
+ * - `photo`: Site, feature or artifact photograph
+ * - `plan`: Plan drawing of a site or feature (평면도)
+ * - `section`: Section or stratigraphy drawing (단면도, 토층도)
+ * - `artifact_drawing`: Measured drawing of an artifact (실측도)
+ * - `rubbing`: Rubbing of an inscription or pattern (탁본)
+ * - `map`: Location, topographic or distribution map (위치도, 지형도)
+ * - `chart`: Graph, diagram or calibration chart
+ * - `other`: Anything else
+ */
+export type FigureType =
+  | 'photo'
+  | 'plan'
+  | 'section'
+  | 'artifact_drawing'
+  | 'rubbing'
+  | 'map'
+  | 'chart'
+  | 'other';
+
+/**
+ * Sub-figure of a composite image, such as one photo of a 도판 plate
+ *
+ * @interface ProcessedSubFigure
+ */
+export interface ProcessedSubFigure {
+  /**
+   * Unique identifier of the sub-figure (parent image ID with a 1-based index)
+   * @type {string}
+   */
+  id: string;
+
+  /**
+   * Label as printed on the plate and in its caption (e.g. "①", "2")
+   * @type {string}
+   */
+  label: string;
+
+  /**
+   * Caption fragment following the label in the parent caption
+   * @type {Caption}
+   */
+  caption?: Caption;
+
+  /**
+   * Position within the parent image
+   * @type {RelativeBoundingBox}
+   */
+  bbox: RelativeBoundingBox;
+
+  /**
+   * Path of the cropped sub-figure image file
+   * @type {string}
+   */
+  path: string;
+
+  /**
+   * Where the sub-figure sits on its PDF page (set with `includeLayoutRegions`)
+   * @type {LayoutRegion[]}
+   */
+  regions?: LayoutRegion[];
+}
+
 /**
  * Image information included in the processed PDF document
  *
@@ -261,6 +602,60 @@ export interface ProcessedImage {
    * @type {string}
    */
   path: string;
+
+  /**
+   * Where the image sits on its PDF page (set with `includeLayoutRegions`)
+   * @type {LayoutRegion[]}
+   */
+  regions?: LayoutRegion[];
+
+  /**
+   * Kind of figure (set with `enableImageClassification`)
+   * @type {FigureType}
+   */
+  figureType?: FigureType;
+
+  /**
+   * Confidence of `figureType` from 0 to 1
+   * @type {number}
+   */
+  figureTypeConfidence?: number;
+
+  /**
+   * Sub-figures of a composite plate, in label order (set with `enableSubFigureSplitting`)
+   * @type {ProcessedSubFigure[]}
+   */
+  subFigures?: ProcessedSubFigure[];
+
+  /**
+   * 64-bit difference hash of the image as 16 hex digits (set with
+   * `enableImageDeduplication`)
+   * @type {string}
+   */
+  perceptualHash?: string;
+
+  /**
+   * ID of the canonical image this image repeats
+   *
+   * Set on every other image of a near-duplicate cluster. The canonical
+   * image is the first captioned image of the cluster, or its first image.
+   *
+   * @type {string}
+   */
+  duplicateOf?: string;
+
+  /**
+   * IDs of the images repeating this canonical image, in document order
+   * @type {string[]}
+   */
+  duplicateIds?: string[];
+
+  /**
+   * Whether the image is likely decorative (logo, header, scale bar):
+   * uncaptioned and repeated across several pages
+   * @type {boolean}
+   */
+  isDecorative?: boolean;
 }
 
 /**
@@ -362,6 +757,48 @@ export interface ProcessedTable {
    * @type {ProcessedTableCell[][]}
    */
   grid: ProcessedTableCell[][];
+
+  /**
+   * ID of the table fragment this table continues from (previous page)
+   *
+   * Set when a continuation link connects this table to an earlier fragment
+   * and the fragments were not merged.
+   *
+   * @type {string}
+   */
+  continuedFromTableId?: string;
+
+  /**
+   * ID of the table fragment that continues this table (next page)
+   * @type {string}
+   */
+  continuedToTableId?: string;
+
+  /**
+   * PDF page number of each grid row
+   *
+   * Present only on tables merged from page-spanning fragments, where
+   * `pdfPageNo` is the page of the first fragment.
+   *
+   * @type {number[]}
+   */
+  rowPdfPageNos?: number[];
+
+  /**
+   * Docling self references of all fragments merged into this table, in order
+   *
+   * Present only on merged tables. The first entry equals `sourceRef`.
+   *
+   * @type {string[]}
+   */
+  fragmentSourceRefs?: string[];
+
+  /**
+   * Where the table sits on its PDF pages, one region per fragment of a
+   * merged table (set with `includeLayoutRegions`)
+   * @type {LayoutRegion[]}
+   */
+  regions?: LayoutRegion[];
 }
 
 /**
@@ -400,6 +837,71 @@ export interface ProcessedFootnote {
    * @type {number}
    */
   pdfPageNo: number;
+
+  /**
+   * Where the footnote sits on its PDF page (set with `includeLayoutRegions`)
+   * @type {LayoutRegion[]}
+   */
+  regions?: LayoutRegion[];
+}
+
+/**
+ * Independent sub-document appended to the main report
+ *
+ * Scientific analysis reports (radiocarbon dating, soil analysis, etc.) are
+ * often bound at the end of an excavation report with their own cover, TOC
+ * and page numbering restarting at 1. Each one is kept as a part with its
+ * own page range map and chapter tree so its page numbers do not collide with
+ * the main report.
+ *
+ * @interface ProcessedDocumentPart
+ */
+export interface ProcessedDocumentPart {
+  /**
+   * Unique identifier of the part (e.g. "part-001")
+   * @type {string}
+   */
+  id: string;
+
+  /**
+   * Title of the part taken from its cover page (if found)
+   * @type {string}
+   */
+  title?: string;
+
+  /**
+   * First PDF page of the part (inclusive)
+   * @type {number}
+   */
+  startPdfPageNo: number;
+
+  /**
+   * Last PDF page of the part (inclusive)
+   * @type {number}
+   */
+  endPdfPageNo: number;
+
+  /**
+   * Page ranges of the part's own page numbering per PDF page
+   * @type {Record<number, PageRange>}
+   */
+  pageRangeMap: Record<number, PageRange>;
+
+  /**
+   * How the part's chapter structure was derived
+   * @type {ChapterSource}
+   */
+  chapterSource: ChapterSource;
+
+  /**
+   * Chapter structure of the part
+   *
+   * Resources in the part's pages are referenced from these chapters instead
+   * of the main report's chapters.
+   *
+   * @type {Chapter[]}
+   */
+  chapters: Chapter[];
 }
 
 /**
@@ -429,6 +931,12 @@ export interface ProcessedDocument {
    */
   source?: ProcessedDocumentSource;
 
+  /**
+   * Bibliographic metadata read from the cover, colophon and abstract pages
+   * @type {ReportMetadata}
+   */
+  metadata?: ReportMetadata;
+
   /**
    * Mapping of page ranges for actual document pages per PDF page
    *
@@ -445,9 +953,29 @@ export interface ProcessedDocument {
    *   3: { startPageNo: 4, endPageNo: 4 },     // PDF 3 = actual 4
    * }
    * ```
+   *
+   * Front matter numbered with Roman or CJK numerals uses {@link LabeledPageRange}:
+   *
+   * ```typescript
+   * {
+   *   2: { startPageNo: 4, endPageNo: 4, numeralSystem: 'roman', startLabel: 'iv', endLabel: 'iv' },
+   *   3: { startPageNo: 1, endPageNo: 1 },     // Body starts at Arabic 1
+   * }
+   * ```
    */
   pageRangeMap: Record<number, PageRange>;
 
+  /**
+   * How the chapter structure was derived
+   *
+   * `heading-inference` means the document had no usable table of contents and
+   * chapters were inferred from section headings, so titles, levels and page
+   * boundaries are less reliable than a printed TOC.
+   *
+   * @type {ChapterSource}
+   */
+  chapterSource?: ChapterSource;
+
   /**
    * Chapter structure of the document (hierarchical)
    *
@@ -518,6 +1046,18 @@ export interface ProcessedDocument {
    */
   chapters: Chapter[];
 
+  /**
+   * Independent sub-documents appended to the main report
+   *
+   * When present, `chapters` covers only the PDF pages before the first part,
+   * and `pageRangeMap` holds the page numbering of every PDF page including
+   * the parts. Images, tables and footnotes of all parts stay in the
+   * document-level lists.
+   *
+   * @type {ProcessedDocumentPart[]}
+   */
+  parts?: ProcessedDocumentPart[];
+
   /**
    * Images included in the document
    *
@@ -3,6 +3,7 @@ import type { DoclingDocument } from '@heripo/model';
 import type { DoclingAPIClient } from 'docling-sdk';
 
 import { spawnAsync } from '@heripo/shared';
+import { Docling } from 'docling-sdk';
 import {
   copyFileSync,
   existsSync,
@@ -37,6 +38,10 @@ vi.mock('@heripo/shared', () => ({
   spawnAsync: vi.fn(),
 }));
 
+vi.mock('docling-sdk', () => ({
+  Docling: vi.fn(),
+}));
+
 vi.mock('node:fs', () => ({
   copyFileSync: vi.fn(),
   existsSync: vi.fn(),
@@ -975,4 +980,209 @@ describe('ChunkedPDFConverter', () => {
       );
     });
   });
+
+  describe('convertChunked with multiple servers', () => {
+    let extraClient: DoclingAPIClient;
+
+    function chunkDoc(index: number): DoclingDocument {
+      return makeDoc({ name: `chunk-${index}` });
+    }
+
+    beforeEach(() => {
+      client = {
+        ...client,
+        health: vi.fn().mockResolvedValue(undefined),
+      } as unknown as DoclingAPIClient;
+      extraClient = {
+        convertSourceAsync: vi.fn().mockResolvedValue(mockTask),
+        health: vi.fn().mockResolvedValue(undefined),
+        destroy: vi.fn(),
+      } as unknown as DoclingAPIClient;
+      vi.mocked(Docling).mockImplementation(function () {
+        return extraClient as any;
+      });
+      converter = new ChunkedPDFConverter(logger, client, {
+        chunkSize: 10,
+        maxRetries: 2,
+        servers: [5002],
+      });
+
+      // Each chunk yields a document named after its chunk directory
+      vi.mocked(runJqFileJson).mockImplementation(async (_, path) =>
+        chunkDoc(Number(/_chunk_(\d+)/.exec(path)![1])),
+      );
+    });
+
+    test('distributes chunks over instances and merges in page order', async () => {
+      await converter.convertChunked(
+        'file:///test/input.pdf',
+        'report-1',
+        mockOnComplete,
+        false,
+        withCorrection(),
+      );
+
+      expect(Docling).toHaveBeenCalledWith({
+        api: { baseUrl: 'http://localhost:5002', timeout: expect.any(Number) },
+      });
+      expect(logger.info).toHaveBeenCalledWith(
+        '[ChunkedPDFConverter] Distributing 3 chunks over 2 instances',
+      );
+      expect(client.convertSourceAsync).toHaveBeenCalled();
+      expect(extraClient.convertSourceAsync).toHaveBeenCalled();
+      expect(mockMergerInstance.merge).toHaveBeenCalledWith(
+        [chunkDoc(0), chunkDoc(1), chunkDoc(2)],
+        expect.any(Array),
+      );
+      expect(logger.info).toHaveBeenCalledWith(
+        expect.stringMatching(
+          /Chunk 2\/3 \(pages 11-20\) on http:\/\/localhost:5002: completed/,
+        ),
+      );
+      // Only the client created for the extra server is destroyed
+      expect(extraClient.destroy).toHaveBeenCalledTimes(1);
+    });
+
+    test('retries a failed chunk on a different instance', async () => {
+      vi.mocked(spawnAsync).mockResolvedValue({
+        code: 0,
+        stdout: 'Pages:          5\n',
+        stderr: '',
+      });
+      vi.mocked(client.convertSourceAsync as Mock).mockRejectedValueOnce(
+        new Error('Network error'),
+      );
+
+      await converter.convertChunked(
+        'file:///test/input.pdf',
+        'report-1',
+        mockOnComplete,
+        false,
+        withCorrection(),
+      );
+
+      expect(client.convertSourceAsync).toHaveBeenCalledTimes(1);
+      expect(extraClient.convertSourceAsync).toHaveBeenCalledTimes(1);
+      expect(logger.warn).toHaveBeenCalledWith(
+        '[ChunkedPDFConverter] Chunk 1/1 (pages 1-5) on http://localhost:5001: failed, retrying (1/2)...',
+      );
+      expect(logger.info).toHaveBeenCalledWith(
+        expect.stringMatching(
+          /Chunk 1\/1 \(pages 1-5\) on http:\/\/localhost:5002: completed on retry 1/,
+        ),
+      );
+      expect(mockOnComplete).toHaveBeenCalled();
+    });
+
+    test('retries on the last instance while it stays healthy', async () => {
+      vi.mocked(spawnAsync).mockResolvedValue({
+        code: 0,
+        stdout: 'Pages:          15\n',
+        stderr: '',
+      });
+      vi.mocked(client.convertSourceAsync as Mock).mockRejectedValueOnce(
+        new Error('Network error'),
+      );
+      vi.mocked(extraClient.convertSourceAsync as Mock)
+        .mockRejectedValueOnce(new Error('Network error'))
+        .mockImplementation(
+          () =>
+            new Promise((resolve) => setTimeout(() => resolve(mockTask), 20)),
+        );
+
+      await converter.convertChunked(
+        'file:///test/input.pdf',
+        'report-1',
+        mockOnComplete,
+        false,
+        withCorrection(),
+      );
+
+      expect(client.convertSourceAsync).toHaveBeenCalledTimes(1);
+      expect(extraClient.convertSourceAsync).toHaveBeenCalledTimes(3);
+      expect(extraClient.health).toHaveBeenCalledTimes(2);
+      expect(mockMergerInstance.merge).toHaveBeenCalledWith(
+        [chunkDoc(0), chunkDoc(1)],
+        expect.any(Array),
+      );
+    });
+
+    test('drops an instance after a failed conversion', async () => {
+      vi.mocked(extraClient.convertSourceAsync as Mock).mockRejectedValue(
+        new Error('Connection reset'),
+      );
+
+      await converter.convertChunked(
+        'file:///test/input.pdf',
+        'report-1',
+        mockOnComplete,
+        false,
+        withCorrection(),
+      );
+
+      expect(extraClient.convertSourceAsync).toHaveBeenCalledTimes(1);
+      expect(extraClient.health).toHaveBeenCalledTimes(1);
+      expect(client.convertSourceAsync).toHaveBeenCalledTimes(3);
+      expect(logger.warn).toHaveBeenCalledWith(
+        '[DoclingInstancePool] http://localhost:5002 left the pool after a failed conversion:',
+        'Connection reset',
+      );
+      expect(mockMergerInstance.merge).toHaveBeenCalledWith(
+        [chunkDoc(0), chunkDoc(1), chunkDoc(2)],
+        expect.any(Array),
+      );
+    });
+
+    test('fails when no healthy instance is left', async () => {
+      vi.mocked(spawnAsync).mockResolvedValue({
+        code: 0,
+        stdout: 'Pages:          5\n',
+        stderr: '',
+      });
+      const cause = new Error('Connection reset');
+      for (const instanceClient of [client, extraClient]) {
+        vi.mocked(instanceClient.convertSourceAsync as Mock).mockRejectedValue(
+          cause,
+        );
+        vi.mocked(instanceClient.health as Mock)
+          .mockResolvedValueOnce(undefined)
+          .mockRejectedValue(new Error('connect ECONNREFUSED'));
+      }
+
+      const promise = converter.convertChunked(
+        'file:///test/input.pdf',
+        'report-1',
+        mockOnComplete,
+        false,
+        withCorrection(),
+      );
+
+      await expect(promise).rejects.toThrow(
+        '[ChunkedPDFConverter] No healthy docling-serve instance left',
+      );
+      await expect(promise).rejects.toHaveProperty('cause', cause);
+      expect(mockServerInstance.stop).toHaveBeenCalled();
+      expect(extraClient.destroy).toHaveBeenCalled();
+    });
+
+    test('fails before converting when no instance is healthy', async () => {
+      vi.mocked(client.health as Mock).mockRejectedValue(new Error('down'));
+      vi.mocked(extraClient.health as Mock).mockRejectedValue(
+        new Error('down'),
+      );
+
+      await expect(
+        converter.convertChunked(
+          'file:///test/input.pdf',
+          'report-1',
+          mockOnComplete,
+          false,
+          withCorrection(),
+        ),
+      ).rejects.toThrow(
+        '[DoclingInstancePool] No healthy docling-serve instance available',
+      );
+      expect(client.convertSourceAsync).not.toHaveBeenCalled();
+    });
+  });
 });
@@ -28,21 +28,40 @@ import { LocalFileServer } from '../utils/local-file-server';
 import { renderAndUpdatePageImages } from '../utils/page-image-updater';
 import { trackTaskProgress } from '../utils/task-progress-tracker';
 import { buildConversionOptions } from './conversion-options-builder';
+import {
+  type DoclingInstance,
+  DoclingInstancePool,
+} from './docling-instance-pool';
 
 /** Configuration for chunked conversion */
 export interface ChunkedConversionConfig {
   chunkSize: number;
   maxRetries: number;
+  /**
+   * Additional docling-serve instances (local ports or localhost base URLs)
+   * that chunks are distributed over together with the parser's own server
+   */
+  servers?: (number | string)[];
 }
 
 /** Page range for a single chunk [start, end] (1-based, inclusive) */
 type PageRange = [number, number];
 
+/** Chunk waiting to be converted */
+interface ChunkJob {
+  index: number;
+  range: PageRange;
+  attempt: number;
+  /** Instance of the last failed attempt; retries prefer another one */
+  failedOn?: DoclingInstance;
+}
+
 /**
  * Converts large PDFs in chunks using Docling's page_range option.
  *
- * Splits the PDF into fixed-size page ranges, converts each chunk sequentially,
- * then merges the resulting DoclingDocuments into a single output that is
+ * Splits the PDF into fixed-size page ranges and converts the chunks on a pool
+ * of docling-serve instances (one chunk at a time per instance), then merges
+ * the resulting DoclingDocuments in page order into a single output that is
  * indistinguishable from a single-pass conversion.
  */
 export class ChunkedPDFConverter {
@@ -98,33 +117,29 @@ export class ChunkedPDFConverter {
       httpUrl,
     );
 
-    const chunkDocuments: DoclingDocument[] = [];
+    const pool = DoclingInstancePool.fromServers(
+      this.logger,
+      this.client,
+      this.config.servers ?? [],
+      this.timeout,
+    );
+    let chunkDocuments: DoclingDocument[];
 
     try {
-      // Step 4: Process each chunk sequentially
-      for (let i = 0; i < chunks.length; i++) {
-        const [start, end] = chunks[i];
-        this.checkAbort(abortSignal);
-
-        const chunkDir = join(chunksBaseDir, `_chunk_${i}`);
-        mkdirSync(chunkDir, { recursive: true });
-
-        const doc = await this.convertChunk(
-          i,
-          chunks.length,
-          start,
-          end,
-          httpUrl,
-          chunkDir,
-          options,
-        );
-
-        chunkDocuments.push(doc);
-      }
+      // Step 4: Convert chunks across the instance pool
+      chunkDocuments = await this.convertChunks(
+        pool,
+        chunks,
+        httpUrl,
+        chunksBaseDir,
+        options,
+        abortSignal,
+      );
     } finally {
       // Always stop the local file server
       this.logger.info('[ChunkedPDFConverter] Stopping local file server...');
       await server.stop();
+      pool.dispose();
     }
 
     this.checkAbort(abortSignal);
@@ -201,33 +216,133 @@ export class ChunkedPDFConverter {
   }
 
   /**
-   * Convert a single chunk with retry logic.
+   * Convert all chunks, one worker per healthy instance.
+   *
+   * Workers take chunks in page order. A failed chunk is put back at the
+   * front of the queue and preferably retried on a different instance; with
+   * more than one instance the failing instance leaves the pool, and the last
+   * remaining instance stays only while it passes its health check.
+   * Documents are returned in chunk order regardless of which instance
+   * converted them.
    */
-  private async convertChunk(
-    chunkIndex: number,
-    totalChunks: number,
-    startPage: number,
-    endPage: number,
+  private async convertChunks(
+    pool: DoclingInstancePool,
+    chunks: PageRange[],
     httpUrl: string,
-    chunkDir: string,
+    chunksBaseDir: string,
     options: PDFConvertOptions,
-  ): Promise<DoclingDocument> {
-    const chunkLabel = `Chunk ${chunkIndex + 1}/${totalChunks} (pages ${startPage}-${endPage})`;
-    return this.convertChunkWithRetry(
-      chunkLabel,
-      0,
-      startPage,
-      endPage,
-      httpUrl,
-      chunkDir,
-      options,
-    );
+    abortSignal?: AbortSignal,
+  ): Promise<DoclingDocument[]> {
+    const multiInstance = pool.size > 1;
+    if (multiInstance) {
+      const healthy = await pool.checkHealth();
+      this.logger.info(
+        `[ChunkedPDFConverter] Distributing ${chunks.length} chunks over ${healthy.length} instances`,
+      );
+    }
+
+    const documents: DoclingDocument[] = new Array(chunks.length);
+    const queue: ChunkJob[] = chunks.map((range, index) => ({
+      index,
+      range,
+      attempt: 0,
+    }));
+    const busy = new Set<DoclingInstance>();
+    const workers = new Set<Promise<void>>();
+    let failure: { error: unknown } | undefined;
+
+    const takeJob = (instance: DoclingInstance): ChunkJob => {
+      const preferred = multiInstance
+        ? queue.findIndex((job) => job.failedOn !== instance)
+        : 0;
+      return queue.splice(Math.max(preferred, 0), 1)[0];
+    };
+
+    const runWorker = async (instance: DoclingInstance): Promise<void> => {
+      while (!failure && !abortSignal?.aborted && queue.length > 0) {
+        const job = takeJob(instance);
+        const chunkDir = join(chunksBaseDir, `_chunk_${job.index}`);
+        mkdirSync(chunkDir, { recursive: true });
+
+        const [start, end] = job.range;
+        const chunkLabel = `Chunk ${job.index + 1}/${chunks.length} (pages ${start}-${end})${multiInstance ? ` on ${instance.label}` : ''}`;
+        try {
+          documents[job.index] = await this.convertChunk(
+            instance.client,
+            chunkLabel,
+            job.attempt,
+            start,
+            end,
+            httpUrl,
+            chunkDir,
+            options,
+          );
+        } catch (error) {
+          if (job.attempt >= this.config.maxRetries) {
+            this.logger.error(
+              `[ChunkedPDFConverter] ${chunkLabel}: failed after ${this.config.maxRetries} retries`,
+            );
+            failure ??= { error };
+            return;
+          }
+          this.logger.warn(
+            `[ChunkedPDFConverter] ${chunkLabel}: failed, retrying (${job.attempt + 1}/${this.config.maxRetries})...`,
+          );
+          queue.unshift({
+            ...job,
+            attempt: job.attempt + 1,
+            failedOn: instance,
+          });
+
+          if (multiInstance && pool.getHealthyInstances().length > 1) {
+            pool.remove(instance, error);
+            startWorkers();
+            return;
+          }
+          if (multiInstance && !(await pool.checkInstance(instance))) {
+            failure ??= {
+              error: new Error(
+                '[ChunkedPDFConverter] No healthy docling-serve instance left',
+                { cause: error },
+              ),
+            };
+            return;
+          }
+          // Hand the retry to an idle instance before taking the next chunk
+          startWorkers();
+        }
+      }
+    };
+
+    const startWorkers = (): void => {
+      for (const instance of pool.getHealthyInstances()) {
+        if (busy.has(instance) || queue.length === 0) continue;
+        busy.add(instance);
+        const worker = runWorker(instance).finally(() => {
+          busy.delete(instance);
+          workers.delete(worker);
+        });
+        workers.add(worker);
+      }
+    };
+
+    startWorkers();
+    while (workers.size > 0) {
+      await Promise.all(workers);
+    }
+
+    this.checkAbort(abortSignal);
+    if (failure) {
+      throw failure.error;
+    }
+    return documents;
   }
 
   /**
-   * Recursive retry logic for chunk conversion.
+   * Convert a single chunk on one instance.
    */
-  private async convertChunkWithRetry(
+  private async convertChunk(
+    client: DoclingAPIClient,
     chunkLabel: string,
     attempt: number,
     startPage: number,
@@ -236,103 +351,82 @@ export class ChunkedPDFConverter {
     chunkDir: string,
     options: PDFConvertOptions,
   ): Promise<DoclingDocument> {
-    try {
-      if (attempt > 0) {
-        this.logger.info(
-          `[ChunkedPDFConverter] ${chunkLabel}: retrying (${attempt}/${this.config.maxRetries})...`,
-        );
-      } else {
-        this.logger.info(`[ChunkedPDFConverter] ${chunkLabel}: converting...`);
-      }
-
-      const startTime = Date.now();
-
-      // Build conversion options with page_range
-      const conversionOptions = buildConversionOptions({
-        ...options,
-        page_range: [startPage, endPage],
-      });
-
-      // Start conversion task
-      const task = await this.client.convertSourceAsync({
-        sources: [{ kind: 'http', url: httpUrl }],
-        options: conversionOptions,
-        target: { kind: 'zip' },
-      });
-
-      // Poll until completion
-      await trackTaskProgress(
-        task,
-        this.timeout,
-        this.logger,
-        '[ChunkedPDFConverter]',
-        {
-          errorPrefix: '[ChunkedPDFConverter] Chunk task ',
-        },
+    if (attempt > 0) {
+      this.logger.info(
+        `[ChunkedPDFConverter] ${chunkLabel}: retrying (${attempt}/${this.config.maxRetries})...`,
       );
+    } else {
+      this.logger.info(`[ChunkedPDFConverter] ${chunkLabel}: converting...`);
+    }
 
-      // Download ZIP result
-      const zipPath = join(chunkDir, 'result.zip');
-      await downloadTaskResult(
-        this.client,
-        task.taskId,
-        zipPath,
-        this.logger,
-        '[ChunkedPDFConverter]',
-      );
+    const startTime = Date.now();
 
-      // Extract ZIP and process images
-      const extractDir = join(chunkDir, 'extracted');
-      const chunkOutputDir = join(chunkDir, 'output');
-      await ImageExtractor.extractAndSaveDocumentsFromZip(
-        this.logger,
-        zipPath,
-        extractDir,
-        chunkOutputDir,
-      );
+    // Build conversion options with page_range
+    const conversionOptions = buildConversionOptions({
+      ...options,
+      page_range: [startPage, endPage],
+    });
+
+    // Start conversion task
+    const task = await client.convertSourceAsync({
+      sources: [{ kind: 'http', url: httpUrl }],
+      options: conversionOptions,
+      target: { kind: 'zip' },
+    });
 
-      // Parse result.json into a DoclingDocument object
-      const resultJsonPath = join(chunkOutputDir, 'result.json');
-      const doc = await runJqFileJson<DoclingDocument>('.', resultJsonPath);
+    // Poll until completion
+    await trackTaskProgress(
+      task,
+      this.timeout,
+      this.logger,
+      '[ChunkedPDFConverter]',
+      {
+        errorPrefix: '[ChunkedPDFConverter] Chunk task ',
+      },
+    );
 
-      // Cleanup chunk temp files (ZIP + extracted)
-      if (existsSync(zipPath)) rmSync(zipPath, { force: true });
-      if (existsSync(extractDir)) {
-        rmSync(extractDir, { recursive: true, force: true });
-      }
+    // Download ZIP result
+    const zipPath = join(chunkDir, 'result.zip');
+    await downloadTaskResult(
+      client,
+      task.taskId,
+      zipPath,
+      this.logger,
+      '[ChunkedPDFConverter]',
+    );
 
-      const elapsed = ((Date.now() - startTime) / 1000).toFixed(1);
-      if (attempt > 0) {
-        this.logger.info(
-          `[ChunkedPDFConverter] ${chunkLabel}: completed on retry ${attempt} (${elapsed}s)`,
-        );
-      } else {
-        this.logger.info(
-          `[ChunkedPDFConverter] ${chunkLabel}: completed (${elapsed}s)`,
-        );
-      }
+    // Extract ZIP and process images
+    const extractDir = join(chunkDir, 'extracted');
+    const chunkOutputDir = join(chunkDir, 'output');
+    await ImageExtractor.extractAndSaveDocumentsFromZip(
+      this.logger,
+      zipPath,
+      extractDir,
+      chunkOutputDir,
+    );
 
-      return doc;
-    } catch (error) {
-      if (attempt >= this.config.maxRetries) {
-        this.logger.error(
-          `[ChunkedPDFConverter] ${chunkLabel}: failed after ${this.config.maxRetries} retries`,
-        );
-        throw error;
-      }
-      this.logger.warn(
-        `[ChunkedPDFConverter] ${chunkLabel}: failed, retrying (${attempt + 1}/${this.config.maxRetries})...`,
+    // Parse result.json into a DoclingDocument object
+    const resultJsonPath = join(chunkOutputDir, 'result.json');
+    const doc = await runJqFileJson<DoclingDocument>('.', resultJsonPath);
+
+    // Cleanup chunk temp files (ZIP + extracted)
+    if (existsSync(zipPath)) rmSync(zipPath, { force: true });
+    if (existsSync(extractDir)) {
+      rmSync(extractDir, { recursive: true, force: true });
+    }
+
+    const elapsed = ((Date.now() - startTime) / 1000).toFixed(1);
+    if (attempt > 0) {
+      this.logger.info(
+        `[ChunkedPDFConverter] ${chunkLabel}: completed on retry ${attempt} (${elapsed}s)`,
       );
-      return this.convertChunkWithRetry(
-        chunkLabel,
-        attempt + 1,
-        startPage,
-        endPage,
-        httpUrl,
-        chunkDir,
-        options,
+    } else {
+      this.logger.info(
+        `[ChunkedPDFConverter] ${chunkLabel}: completed (${elapsed}s)`,
       );
     }
+
+    return doc;
   }
 
   /** Calculate page ranges for chunks */
@@ -102,8 +102,10 @@ describe('buildConversionOptions', () => {
       chunkedConversion: true,
       chunkSize: 20,
       chunkMaxRetries: 5,
+      chunkServers: [5002],
       documentValidationModel: {} as any,
       languageDetectionModel: {} as any,
+      ocrEngine: 'easyocr',
     } as any);
 
     expect(result).not.toHaveProperty('forceImagePdf');
@@ -114,8 +116,45 @@ describe('buildConversionOptions', () => {
     expect(result).not.toHaveProperty('chunkedConversion');
     expect(result).not.toHaveProperty('chunkSize');
     expect(result).not.toHaveProperty('chunkMaxRetries');
+    expect(result).not.toHaveProperty('chunkServers');
     expect(result).not.toHaveProperty('documentValidationModel');
     expect(result).not.toHaveProperty('languageDetectionModel');
+    expect(result).not.toHaveProperty('ocrEngine');
+  });
+
+  test('should configure tesseract engine with mapped languages', () => {
+    const result = buildConversionOptions({
+      correction: mockCorrection,
+      ocrEngine: 'tesseract',
+      ocr_lang: ['ko-KR', 'en-US'],
+      num_threads: 4,
+    });
+
+    expect(result.ocr_engine).toBe('tesseract');
+    expect(result.ocr_lang).toEqual(['kor', 'eng']);
+    expect(result.ocr_options).toEqual({
+      kind: 'tesseract',
+      lang: ['kor', 'eng'],
+    });
+    expect(result.accelerator_options).toEqual({
+      device: 'auto',
+      num_threads: 4,
+    });
+  });
+
+  test('should configure easyocr engine with default languages', () => {
+    const result = buildConversionOptions({
+      correction: mockCorrection,
+      ocrEngine: 'easyocr',
+    });
+
+    expect(result.ocr_engine).toBe('easyocr');
+    expect(result.ocr_lang).toEqual(['ko', 'en']);
+    expect(result.ocr_options).toEqual({
+      kind: 'easyocr',
+      lang: ['ko', 'en'],
+    });
+    expect(result.accelerator_options?.device).toBe('auto');
   });
 
   test('should pass through unknown options via spread', () => {
@@ -5,15 +5,20 @@ import type { PDFConvertOptions } from './pdf-converter';
 import { omit } from 'es-toolkit';
 
 import { DEFAULT_OCR_LANGUAGES } from '../detectors/pdf-language-detector';
+import { getOcrBackend } from './ocr-backend';
 
 /**
  * Build Docling ConversionOptions from PDFConvertOptions.
- * Strips pdf-parser-specific fields and configures OCR settings.
+ * Strips pdf-parser-specific fields and configures OCR settings
+ * for the selected OCR backend (default: ocrmac).
  */
 export function buildConversionOptions(
   options: PDFConvertOptions,
 ): ConversionOptions {
-  const ocrLanguages = options.ocr_lang ?? DEFAULT_OCR_LANGUAGES;
+  const backend = getOcrBackend(options.ocrEngine);
+  const ocrLanguages = backend.toEngineLanguages(
+    options.ocr_lang ?? DEFAULT_OCR_LANGUAGES,
+  );
 
   return {
     ...omit(options, [
@@ -27,21 +32,18 @@ export function buildConversionOptions(
       'chunkedConversion',
       'chunkSize',
       'chunkMaxRetries',
+      'chunkServers',
       'documentValidationModel',
       'languageDetectionModel',
+      'ocrEngine',
     ]),
     to_formats: ['json', 'html'],
     image_export_mode: 'embedded',
     // Docling currently reads this top-level field in addition to ocr_options.
     // Keep it populated even when language detection is skipped.
     ocr_lang: ocrLanguages,
-    ocr_engine: 'ocrmac',
-    ocr_options: {
-      kind: 'ocrmac',
-      lang: ocrLanguages,
-      recognition: 'accurate',
-      framework: 'livetext',
-    },
+    ocr_engine: backend.engine,
+    ocr_options: backend.buildOcrOptions(ocrLanguages),
     generate_picture_images: true,
     do_picture_classification: true,
     do_picture_description: true,
@@ -56,7 +58,7 @@ export function buildConversionOptions(
      */
     force_ocr: true,
     accelerator_options: {
-      device: 'mps',
+      device: backend.device,
       num_threads: options.num_threads,
     },
     ...(options.document_timeout !== undefined && {
@@ -0,0 +1,188 @@
+import type { LoggerMethods } from '@heripo/logger';
+import type { DoclingAPIClient } from 'docling-sdk';
+
+import { Docling } from 'docling-sdk';
+import { beforeEach, describe, expect, test, vi } from 'vitest';
+
+import { DoclingInstancePool } from './docling-instance-pool';
+
+vi.mock('docling-sdk', () => ({
+  Docling: vi.fn(function (config: { api: { baseUrl: string } }) {
+    return {
+      baseUrl: config.api.baseUrl,
+      health: vi.fn().mockResolvedValue(undefined),
+      destroy: vi.fn(),
+    };
+  }),
+}));
+
+function makeClient(baseUrl = 'http://localhost:5001') {
+  return {
+    getConfig: vi.fn().mockReturnValue({ baseUrl }),
+    health: vi.fn().mockResolvedValue(undefined),
+    destroy: vi.fn(),
+  } as unknown as DoclingAPIClient;
+}
+
+describe('DoclingInstancePool', () => {
+  let logger: LoggerMethods;
+  let client: DoclingAPIClient;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    logger = {
+      info: vi.fn(),
+      error: vi.fn(),
+      warn: vi.fn(),
+      debug: vi.fn(),
+    };
+    client = makeClient();
+  });
+
+  describe('fromServers', () => {
+    test('uses only the parser client when no servers are given', () => {
+      const pool = DoclingInstancePool.fromServers(logger, client, [], 1000);
+
+      expect(pool.size).toBe(1);
+      expect(pool.getHealthyInstances()).toEqual([
+        { label: 'http://localhost:5001', client },
+      ]);
+      expect(Docling).not.toHaveBeenCalled();
+    });
+
+    test('maps ports to localhost URLs and skips duplicates of the primary', () => {
+      const pool = DoclingInstancePool.fromServers(
+        logger,
+        client,
+        [5001, 5002, 'http://localhost:5002', 'http://127.0.0.1:5003'],
+        1000,
+      );
+
+      expect(pool.getHealthyInstances().map(({ label }) => label)).toEqual([
+        'http://localhost:5001',
+        'http://localhost:5002',
+        'http://127.0.0.1:5003',
+      ]);
+      expect(Docling).toHaveBeenCalledTimes(2);
+      expect(Docling).toHaveBeenCalledWith({
+        api: { baseUrl: 'http://localhost:5002', timeout: 1000 },
+      });
+      expect(Docling).toHaveBeenCalledWith({
+        api: { baseUrl: 'http://127.0.0.1:5003', timeout: 1000 },
+      });
+    });
+
+    test('rejects servers that cannot reach the local file server', () => {
+      expect(() =>
+        DoclingInstancePool.fromServers(
+          logger,
+          client,
+          [5002, 'http://gpu-box:5001'],
+          1000,
+        ),
+      ).toThrow(
+        '[DoclingInstancePool] http://gpu-box:5001 cannot reach the local file server; chunk servers must run on localhost',
+      );
+      expect(Docling).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('checkHealth', () => {
+    test('returns healthy instances and logs the count', async () => {
+      const pool = DoclingInstancePool.fromServers(
+        logger,
+        client,
+        [5002],
+        1000,
+      );
+      const [, extra] = pool.getHealthyInstances();
+      vi.mocked(extra.client.health).mockRejectedValueOnce(
+        new Error('connect ECONNREFUSED'),
+      );
+
+      const healthy = await pool.checkHealth();
+
+      expect(healthy.map(({ label }) => label)).toEqual([
+        'http://localhost:5001',
+      ]);
+      expect(logger.warn).toHaveBeenCalledWith(
+        '[DoclingInstancePool] http://localhost:5002 is unhealthy:',
+        'connect ECONNREFUSED',
+      );
+      expect(logger.info).toHaveBeenCalledWith(
+        '[DoclingInstancePool] 1/2 instances healthy',
+      );
+    });
+
+    test('throws when no instance is healthy', async () => {
+      vi.mocked(client.health).mockRejectedValueOnce('down');
+      const pool = DoclingInstancePool.fromServers(logger, client, [], 1000);
+
+      await expect(pool.checkHealth()).rejects.toThrow(
+        '[DoclingInstancePool] No healthy docling-serve instance available',
+      );
+      expect(logger.warn).toHaveBeenCalledWith(
+        '[DoclingInstancePool] http://localhost:5001 is unhealthy:',
+        'down',
+      );
+    });
+  });
+
+  describe('checkInstance', () => {
+    test('brings a recovered instance back into the pool', async () => {
+      const pool = DoclingInstancePool.fromServers(logger, client, [], 1000);
+      const [instance] = pool.getHealthyInstances();
+      vi.mocked(client.health).mockRejectedValueOnce(new Error('down'));
+
+      expect(await pool.checkInstance(instance)).toBe(false);
+      expect(pool.getHealthyInstances()).toEqual([]);
+
+      expect(await pool.checkInstance(instance)).toBe(true);
+      expect(pool.getHealthyInstances()).toEqual([instance]);
+    });
+  });
+
+  describe('remove', () => {
+    test('leaves an instance out of scheduling after a failed conversion', () => {
+      const pool = DoclingInstancePool.fromServers(
+        logger,
+        client,
+        [5002],
+        1000,
+      );
+      const [primary, extra] = pool.getHealthyInstances();
+
+      pool.remove(extra, new Error('Connection reset'));
+      pool.remove(primary, 'timeout');
+
+      expect(pool.getHealthyInstances()).toEqual([]);
+      expect(pool.size).toBe(2);
+      expect(logger.warn).toHaveBeenCalledWith(
+        '[DoclingInstancePool] http://localhost:5002 left the pool after a failed conversion:',
+        'Connection reset',
+      );
+      expect(logger.warn).toHaveBeenCalledWith(
+        '[DoclingInstancePool] http://localhost:5001 left the pool after a failed conversion:',
+        'timeout',
+      );
+    });
+  });
+
+  describe('dispose', () => {
+    test('destroys only the clients created for additional servers', () => {
+      const pool = DoclingInstancePool.fromServers(
+        logger,
+        client,
+        [5002],
+        1000,
+      );
+      const [, extra] = pool.getHealthyInstances();
+
+      pool.dispose();
+
+      expect(client.destroy).not.toHaveBeenCalled();
+      expect(extra.client.destroy).toHaveBeenCalledTimes(1);
+    });
+  });
+});
@@ -0,0 +1,144 @@
+import type { LoggerMethods } from '@heripo/logger';
+import type { DoclingAPIClient } from 'docling-sdk';
+
+import { Docling } from 'docling-sdk';
+
+/** Hosts that reach the local file server the PDF is served from */
+const LOOPBACK_HOSTS = new Set(['localhost', '127.0.0.1', '[::1]']);
+
+/** docling-serve instance that chunks can be scheduled on */
+export interface DoclingInstance {
+  /** Base URL of the instance, used in logs */
+  label: string;
+  client: DoclingAPIClient;
+}
+
+/**
+ * Pool of docling-serve instances for parallel chunk conversion.
+ *
+ * The first instance is the parser's own client; additional instances are
+ * given as local ports or localhost base URLs, since chunks are fetched from
+ * a file server bound to 127.0.0.1. Instances failing a health check or a
+ * conversion are left out of scheduling, and only the additional clients are
+ * destroyed on dispose since the parser owns the first one.
+ */
+export class DoclingInstancePool {
+  private readonly healthy: Set<DoclingInstance>;
+
+  constructor(
+    private readonly logger: LoggerMethods,
+    private readonly instances: DoclingInstance[],
+  ) {
+    this.healthy = new Set(instances);
+  }
+
+  /**
+   * Create a pool from the parser client and additional servers.
+   *
+   * @param servers - Ports on localhost or localhost docling-serve base URLs
+   * @param timeout - API timeout for the additional clients
+   * @throws Error when a base URL points to another host
+   */
+  static fromServers(
+    logger: LoggerMethods,
+    client: DoclingAPIClient,
+    servers: (number | string)[],
+    timeout: number,
+  ): DoclingInstancePool {
+    const primaryUrl = client.getConfig().baseUrl;
+    const extraUrls = [
+      ...new Set(
+        servers.map((server) =>
+          typeof server === 'number' ? `http://localhost:${server}` : server,
+        ),
+      ),
+    ].filter((url) => url !== primaryUrl);
+
+    const remoteUrl = extraUrls.find(
+      (url) => !LOOPBACK_HOSTS.has(new URL(url).hostname),
+    );
+    if (remoteUrl !== undefined) {
+      throw new Error(
+        `[DoclingInstancePool] ${remoteUrl} cannot reach the local file server; chunk servers must run on localhost`,
+      );
+    }
+
+    return new DoclingInstancePool(logger, [
+      { label: primaryUrl, client },
+      ...extraUrls.map((baseUrl) => ({
+        label: baseUrl,
+        client: new Docling({ api: { baseUrl, timeout } }),
+      })),
+    ]);
+  }
+
+  /** Number of instances in the pool, healthy or not */
+  get size(): number {
+    return this.instances.length;
+  }
+
+  /** Instances that passed their last health check, in pool order */
+  getHealthyInstances(): DoclingInstance[] {
+    return this.instances.filter((instance) => this.healthy.has(instance));
+  }
+
+  /**
+   * Health check every instance.
+   *
+   * @returns Healthy instances in pool order
+   * @throws Error when no instance is healthy
+   */
+  async checkHealth(): Promise<DoclingInstance[]> {
+    await Promise.all(
+      this.instances.map((instance) => this.checkInstance(instance)),
+    );
+
+    const healthy = this.getHealthyInstances();
+    if (healthy.length === 0) {
+      throw new Error(
+        '[DoclingInstancePool] No healthy docling-serve instance available',
+      );
+    }
+    this.logger.info(
+      `[DoclingInstancePool] ${healthy.length}/${this.instances.length} instances healthy`,
+    );
+    return healthy;
+  }
+
+  /**
+   * Health check a single instance and update its status.
+   *
+   * @returns Whether the instance is healthy
+   */
+  async checkInstance(instance: DoclingInstance): Promise<boolean> {
+    try {
+      await instance.client.health();
+      this.healthy.add(instance);
+      return true;
+    } catch (error) {
+      this.healthy.delete(instance);
+      this.logger.warn(
+        `[DoclingInstancePool] ${instance.label} is unhealthy:`,
+        error instanceof Error ? error.message : error,
+      );
+      return false;
+    }
+  }
+
+  /**
+   * Leave an instance out of scheduling after a failed conversion.
+   * A later successful health check brings it back.
+   */
+  remove(instance: DoclingInstance, error: unknown): void {
+    this.healthy.delete(instance);
+    this.logger.warn(
+      `[DoclingInstancePool] ${instance.label} left the pool after a failed conversion:`,
+      error instanceof Error ? error.message : error,
+    );
+  }
+
+  /** Destroy the clients created for additional servers */
+  dispose(): void {
+    this.instances.slice(1).forEach((instance) => instance.client.destroy());
+  }
+}
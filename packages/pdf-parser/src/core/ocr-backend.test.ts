@@ -0,0 +1,113 @@
+import { describe, expect, test, vi } from 'vitest';
+
+import * as SystemChecks from '../utils/system-checks';
+import { DEFAULT_OCR_ENGINE, getOcrBackend } from './ocr-backend';
+
+vi.mock('../utils/system-checks', () => ({
+  checkCommandExists: vi.fn(),
+  checkOperatingSystem: vi.fn(),
+  checkMacOSVersion: vi.fn(),
+}));
+
+describe('getOcrBackend', () => {
+  test('returns ocrmac backend by default', () => {
+    expect(DEFAULT_OCR_ENGINE).toBe('ocrmac');
+    expect(getOcrBackend().engine).toBe('ocrmac');
+  });
+
+  test('throws for unsupported engine', () => {
+    expect(() => getOcrBackend('paddle' as any)).toThrow(
+      'Unsupported OCR engine: paddle. Supported engines: ocrmac, tesseract, easyocr',
+    );
+  });
+});
+
+describe('ocrmac backend', () => {
+  const backend = getOcrBackend('ocrmac');
+
+  test('uses BCP 47 tags as-is and mps device', () => {
+    expect(backend.device).toBe('mps');
+    expect(backend.toEngineLanguages(['zh-Hant', 'ko-KR'])).toEqual([
+      'zh-Hant',
+      'ko-KR',
+    ]);
+    expect(backend.buildOcrOptions(['ko-KR'])).toEqual({
+      kind: 'ocrmac',
+      lang: ['ko-KR'],
+      recognition: 'accurate',
+      framework: 'livetext',
+    });
+  });
+
+  test('checks macOS platform and version regardless of server mode', () => {
+    backend.checkSystemRequirements(false);
+
+    expect(SystemChecks.checkOperatingSystem).toHaveBeenCalledTimes(1);
+    expect(SystemChecks.checkMacOSVersion).toHaveBeenCalledTimes(1);
+    expect(SystemChecks.checkCommandExists).not.toHaveBeenCalled();
+  });
+});
+
+describe('tesseract backend', () => {
+  const backend = getOcrBackend('tesseract');
+
+  test('maps BCP 47 tags to traineddata codes and de-duplicates', () => {
+    expect(backend.device).toBe('auto');
+    expect(
+      backend.toEngineLanguages(['zh-Hant', 'yue-Hant', 'ko-KR', 'en-US']),
+    ).toEqual(['chi_tra', 'kor', 'eng']);
+  });
+
+  test('falls back to eng when no tag maps', () => {
+    expect(backend.toEngineLanguages(['xx-XX'])).toEqual(['eng']);
+    expect(backend.toEngineLanguages([])).toEqual(['eng']);
+  });
+
+  test('builds tesseract ocr_options', () => {
+    expect(backend.buildOcrOptions(['kor', 'eng'])).toEqual({
+      kind: 'tesseract',
+      lang: ['kor', 'eng'],
+    });
+  });
+
+  test('checks tesseract binary only for local server', () => {
+    backend.checkSystemRequirements(false);
+    expect(SystemChecks.checkCommandExists).not.toHaveBeenCalled();
+
+    backend.checkSystemRequirements(true);
+    expect(SystemChecks.checkCommandExists).toHaveBeenCalledWith(
+      'tesseract',
+      expect.stringContaining('Tesseract is not installed'),
+    );
+    expect(SystemChecks.checkOperatingSystem).not.toHaveBeenCalled();
+    expect(SystemChecks.checkMacOSVersion).not.toHaveBeenCalled();
+  });
+});
+
+describe('easyocr backend', () => {
+  const backend = getOcrBackend('easyocr');
+
+  test('maps BCP 47 tags to EasyOCR codes', () => {
+    expect(backend.device).toBe('auto');
+    expect(backend.toEngineLanguages(['ko-KR', 'en-US'])).toEqual(['ko', 'en']);
+    expect(backend.toEngineLanguages(['zh-Hans', 'yue-Hans'])).toEqual([
+      'ch_sim',
+    ]);
+    expect(backend.toEngineLanguages(['xx-XX'])).toEqual(['en']);
+  });
+
+  test('builds easyocr ocr_options', () => {
+    expect(backend.buildOcrOptions(['ko', 'en'])).toEqual({
+      kind: 'easyocr',
+      lang: ['ko', 'en'],
+    });
+  });
+
+  test('has no host prerequisites', () => {
+    backend.checkSystemRequirements(true);
+
+    expect(SystemChecks.checkCommandExists).not.toHaveBeenCalled();
+    expect(SystemChecks.checkOperatingSystem).not.toHaveBeenCalled();
+    expect(SystemChecks.checkMacOSVersion).not.toHaveBeenCalled();
+  });
+});
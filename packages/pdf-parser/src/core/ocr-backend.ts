@@ -0,0 +1,205 @@
+import type { OcrEngine } from '@heripo/model';
+import type { ConversionOptions } from 'docling-sdk';
+
+import {
+  checkCommandExists,
+  checkMacOSVersion,
+  checkOperatingSystem,
+} from '../utils/system-checks';
+
+type DoclingOcrOptions = NonNullable<ConversionOptions['ocr_options']>;
+type DoclingAcceleratorDevice = NonNullable<
+  ConversionOptions['accelerator_options']
+>['device'];
+
+/**
+ * OCR backend descriptor.
+ * Encapsulates everything that differs between OCR engines: the Docling
+ * option shape, the accelerator device and the host prerequisites.
+ */
+export interface OcrBackend {
+  /** Engine identifier (also the Docling `ocr_engine` value) */
+  readonly engine: OcrEngine;
+
+  /** Accelerator device passed to Docling */
+  readonly device: DoclingAcceleratorDevice;
+
+  /**
+   * Convert BCP 47 tags (e.g., ['ko-KR', 'en-US']) to the language codes
+   * the engine expects. Mapped codes are de-duplicated in order.
+   */
+  toEngineLanguages(languages: string[]): string[];
+
+  /** Build Docling `ocr_options` from engine language codes (see toEngineLanguages) */
+  buildOcrOptions(engineLanguages: string[]): DoclingOcrOptions;
+
+  /**
+   * Validate host prerequisites for this engine.
+   * @param isLocalServer Whether docling-serve runs on this machine
+   * @throws Error if a prerequisite is missing
+   */
+  checkSystemRequirements(isLocalServer: boolean): void;
+}
+
+/** Default OCR engine (preserves the original macOS-only behavior) */
+export const DEFAULT_OCR_ENGINE: OcrEngine = 'ocrmac';
+
+/**
+ * BCP 47 tag → Tesseract traineddata code.
+ * Keys cover every tag in BCP47_LANGUAGE_TAGS.
+ */
+const TESSERACT_LANGUAGE_MAP: Record<string, string> = {
+  'ar-SA': 'ara',
+  'ars-SA': 'ara',
+  'cs-CZ': 'ces',
+  'da-DK': 'dan',
+  'de-DE': 'deu',
+  'en-US': 'eng',
+  'es-ES': 'spa',
+  'fr-FR': 'fra',
+  'id-ID': 'ind',
+  'it-IT': 'ita',
+  'ja-JP': 'jpn',
+  'ko-KR': 'kor',
+  'ms-MY': 'msa',
+  'nb-NO': 'nor',
+  'nl-NL': 'nld',
+  'nn-NO': 'nor',
+  'no-NO': 'nor',
+  'pl-PL': 'pol',
+  'pt-BR': 'por',
+  'ro-RO': 'ron',
+  'ru-RU': 'rus',
+  'sv-SE': 'swe',
+  'th-TH': 'tha',
+  'tr-TR': 'tur',
+  'uk-UA': 'ukr',
+  'vi-VT': 'vie',
+  'yue-Hans': 'chi_sim',
+  'yue-Hant': 'chi_tra',
+  'zh-Hans': 'chi_sim',
+  'zh-Hant': 'chi_tra',
+};
+
+/**
+ * BCP 47 tag → EasyOCR language code.
+ * Keys cover every tag in BCP47_LANGUAGE_TAGS.
+ */
+const EASYOCR_LANGUAGE_MAP: Record<string, string> = {
+  'ar-SA': 'ar',
+  'ars-SA': 'ar',
+  'cs-CZ': 'cs',
+  'da-DK': 'da',
+  'de-DE': 'de',
+  'en-US': 'en',
+  'es-ES': 'es',
+  'fr-FR': 'fr',
+  'id-ID': 'id',
+  'it-IT': 'it',
+  'ja-JP': 'ja',
+  'ko-KR': 'ko',
+  'ms-MY': 'ms',
+  'nb-NO': 'no',
+  'nl-NL': 'nl',
+  'nn-NO': 'no',
+  'no-NO': 'no',
+  'pl-PL': 'pl',
+  'pt-BR': 'pt',
+  'ro-RO': 'ro',
+  'ru-RU': 'ru',
+  'sv-SE': 'sv',
+  'th-TH': 'th',
+  'tr-TR': 'tr',
+  'uk-UA': 'uk',
+  'vi-VT': 'vi',
+  'yue-Hans': 'ch_sim',
+  'yue-Hant': 'ch_tra',
+  'zh-Hans': 'ch_sim',
+  'zh-Hant': 'ch_tra',
+};
+
+/**
+ * Map BCP 47 tags through a lookup table.
+ * Unknown tags are dropped; falls back to `fallback` when nothing maps.
+ */
+function mapLanguages(
+  languages: string[],
+  map: Record<string, string>,
+  fallback: string,
+): string[] {
+  const mapped = [...new Set(languages.map((tag) => map[tag]).filter(Boolean))];
+  return mapped.length > 0 ? mapped : [fallback];
+}
+
+const ocrmacBackend: OcrBackend = {
+  engine: 'ocrmac',
+  device: 'mps',
+  // ocrmac accepts BCP 47 tags directly
+  toEngineLanguages: (languages) => languages,
+  buildOcrOptions: (engineLanguages) => ({
+    kind: 'ocrmac',
+    lang: engineLanguages,
+    recognition: 'accurate',
+    framework: 'livetext',
+  }),
+  checkSystemRequirements: () => {
+    checkOperatingSystem();
+    checkMacOSVersion();
+  },
+};
+
+const tesseractBackend: OcrBackend = {
+  engine: 'tesseract',
+  device: 'auto',
+  toEngineLanguages: (languages) =>
+    mapLanguages(languages, TESSERACT_LANGUAGE_MAP, 'eng'),
+  buildOcrOptions: (engineLanguages) => ({
+    kind: 'tesseract',
+    lang: engineLanguages,
+  }),
+  checkSystemRequirements: (isLocalServer) => {
+    // With an external server, Tesseract only needs to exist on the server host
+    if (!isLocalServer) return;
+    checkCommandExists(
+      'tesseract',
+      'Tesseract is not installed but ocrEngine is "tesseract". ' +
+        'Please install Tesseract (e.g., apt-get install tesseract-ocr tesseract-ocr-kor, or brew install tesseract tesseract-lang)',
+    );
+  },
+};
+
+const easyocrBackend: OcrBackend = {
+  engine: 'easyocr',
+  device: 'auto',
+  toEngineLanguages: (languages) =>
+    mapLanguages(languages, EASYOCR_LANGUAGE_MAP, 'en'),
+  buildOcrOptions: (engineLanguages) => ({
+    kind: 'easyocr',
+    lang: engineLanguages,
+  }),
+  // EasyOCR ships with docling-serve; nothing to verify on the host
+  checkSystemRequirements: () => {},
+};
+
+const OCR_BACKENDS: Record<OcrEngine, OcrBackend> = {
+  ocrmac: ocrmacBackend,
+  tesseract: tesseractBackend,
+  easyocr: easyocrBackend,
+};
+
+/**
+ * Resolve the OCR backend for an engine.
+ * @param engine OCR engine (default: DEFAULT_OCR_ENGINE)
+ * @throws Error if the engine is not supported
+ */
+export function getOcrBackend(
+  engine: OcrEngine = DEFAULT_OCR_ENGINE,
+): OcrBackend {
+  const backend = OCR_BACKENDS[engine];
+  if (!backend) {
+    throw new Error(
+      `Unsupported OCR engine: ${engine}. Supported engines: ${Object.keys(OCR_BACKENDS).join(', ')}`,
+    );
+  }
+  return backend;
+}
@@ -212,6 +212,30 @@ describe('PDFConverter', () => {
         );
       });
 
+      test('passes chunkServers to the chunk scheduler', async () => {
+        await converter.convert(
+          'file:///test/input.pdf',
+          'report-1',
+          vi.fn(),
+          false,
+          withCorrection({
+            chunkedConversion: true,
+            chunkServers: [5002, 'http://127.0.0.1:5003'],
+          }),
+        );
+
+        expect(ChunkedPDFConverter).toHaveBeenCalledWith(
+          logger,
+          client,
+          {
+            chunkSize: 10,
+            maxRetries: 2,
+            servers: [5002, 'http://127.0.0.1:5003'],
+          },
+          expect.any(Number),
+        );
+      });
+
       test('does not use chunked conversion for non-file:// URLs', async () => {
         await converter.convert(
           'http://example.com/test.pdf',
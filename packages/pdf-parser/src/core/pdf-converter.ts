@@ -1,5 +1,6 @@
 import type { LoggerMethods } from '@heripo/logger';
 import type {
+  OcrEngine,
   ReviewAssistanceProgressEvent,
   TokenUsageReport,
 } from '@heripo/model';
@@ -54,6 +55,12 @@ export type PDFConvertOptions = Omit<
 > & {
   correction: PDFCorrectionOptions;
   num_threads?: number;
+  /**
+   * OCR engine for the Docling pipeline (default: 'ocrmac').
+   * 'ocrmac' requires macOS; 'tesseract' and 'easyocr' run on any platform.
+   * `ocr_lang` is always given as BCP 47 tags and mapped per engine.
+   */
+  ocrEngine?: OcrEngine;
   /**
    * Force pre-conversion to image-based PDF before processing.
    * Requires ImageMagick and Ghostscript.
@@ -73,6 +80,12 @@ export type PDFConvertOptions = Omit<
   chunkSize?: number;
   /** Max retry attempts per failed chunk (default: CHUNKED_CONVERSION.DEFAULT_MAX_RETRIES) */
   chunkMaxRetries?: number;
+  /**
+   * Additional docling-serve instances for chunked conversion, as local ports
+   * or localhost base URLs. Chunks are converted in parallel on these and the
+   * parser's own server; failed chunks are retried on a different instance.
+   */
+  chunkServers?: (number | string)[];
   /** Vision model for document language detection when the PDF text layer is insufficient */
   languageDetectionModel?: LanguageModel;
   /** languageDetectionModel 실패 시 fallback. */
@@ -152,6 +165,7 @@ export class PDFConverter {
           maxRetries:
             trackedOptions.chunkMaxRetries ??
             CHUNKED_CONVERSION.DEFAULT_MAX_RETRIES,
+          servers: trackedOptions.chunkServers,
         },
         this.timeout,
       );
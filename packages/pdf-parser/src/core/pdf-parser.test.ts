@@ -105,7 +105,6 @@ describe('PDFParser', () => {
     });
     await parser.init();
 
-    expect(SystemChecks.checkOperatingSystem).toHaveBeenCalled();
     expect(SystemChecks.checkCommandExists).toHaveBeenCalledWith(
       'jq',
       expect.any(String),
@@ -114,7 +113,9 @@ describe('PDFParser', () => {
       'pdftotext',
       expect.any(String),
     );
-    expect(SystemChecks.checkMacOSVersion).toHaveBeenCalled();
+    // OS checks depend on the OCR engine and run lazily at parse time
+    expect(SystemChecks.checkOperatingSystem).not.toHaveBeenCalled();
+    expect(SystemChecks.checkMacOSVersion).not.toHaveBeenCalled();
     expect(Docling).toHaveBeenCalledWith({
       api: { baseUrl: 'http://example.com', timeout: 123 },
     });
@@ -175,19 +176,6 @@ describe('PDFParser', () => {
     vi.useRealTimers();
   });
 
-  test('init propagates checkOperatingSystem error', async () => {
-    vi.mocked(SystemChecks.checkOperatingSystem).mockImplementationOnce(() => {
-      throw new Error(
-        'PDFParser is only supported on macOS. Current platform: linux',
-      );
-    });
-    const logger = makeLogger();
-    const parser = new PDFParser({ logger, baseUrl: 'http://example.com' });
-    await expect(parser.init()).rejects.toThrow(
-      'PDFParser is only supported on macOS. Current platform: linux',
-    );
-  });
-
   test('init propagates checkCommandExists error for jq', async () => {
     vi.mocked(SystemChecks.checkCommandExists).mockImplementationOnce(
       (_cmd, msg) => {
@@ -215,19 +203,6 @@ describe('PDFParser', () => {
     );
   });
 
-  test('init propagates checkMacOSVersion error', async () => {
-    vi.mocked(SystemChecks.checkMacOSVersion).mockImplementationOnce(() => {
-      throw new Error(
-        'macOS 10.15 or later is required. Current version: 10.14.6',
-      );
-    });
-    const logger = makeLogger();
-    const parser = new PDFParser({ logger, baseUrl: 'http://example.com' });
-    await expect(parser.init()).rejects.toThrow(
-      'macOS 10.15 or later is required. Current version: 10.14.6',
-    );
-  });
-
   test('init checks ImageMagick and Ghostscript when enableImagePdfFallback on local server', async () => {
     doclingClient.health.mockResolvedValueOnce();
     vi.mocked(envMocks.setupMock).mockResolvedValueOnce();
@@ -418,6 +393,149 @@ describe('PDFParser', () => {
     expect(result).toBeNull();
   });
 
+  test('parse runs macOS checks for the default ocrmac engine', async () => {
+    doclingClient.health.mockResolvedValueOnce();
+    convertMock.mockResolvedValueOnce('OK');
+
+    const logger = makeLogger();
+    const parser = new PDFParser({ logger, baseUrl: 'http://example.com' });
+    await parser.init();
+
+    await parser.parse(
+      'http://file.pdf',
+      'report-1',
+      vi.fn(),
+      false,
+      withCorrection(),
+    );
+
+    expect(SystemChecks.checkOperatingSystem).toHaveBeenCalled();
+    expect(SystemChecks.checkMacOSVersion).toHaveBeenCalled();
+  });
+
+  test('parse propagates checkOperatingSystem error for ocrmac engine', async () => {
+    doclingClient.health.mockResolvedValueOnce();
+
+    const logger = makeLogger();
+    const parser = new PDFParser({ logger, baseUrl: 'http://example.com' });
+    await parser.init();
+
+    vi.mocked(SystemChecks.checkOperatingSystem).mockImplementationOnce(() => {
+      throw new Error(
+        'The ocrmac OCR engine is only supported on macOS. Current platform: linux',
+      );
+    });
+
+    await expect(
+      parser.parse(
+        'http://file.pdf',
+        'report-1',
+        vi.fn(),
+        false,
+        withCorrection({ ocrEngine: 'ocrmac' }),
+      ),
+    ).rejects.toThrow('The ocrmac OCR engine is only supported on macOS');
+    expect(convertMock).not.toHaveBeenCalled();
+  });
+
+  test('parse propagates checkMacOSVersion error for ocrmac engine', async () => {
+    doclingClient.health.mockResolvedValueOnce();
+
+    const logger = makeLogger();
+    const parser = new PDFParser({ logger, baseUrl: 'http://example.com' });
+    await parser.init();
+
+    vi.mocked(SystemChecks.checkMacOSVersion).mockImplementationOnce(() => {
+      throw new Error(
+        'macOS 10.15 or later is required. Current version: 10.14.6',
+      );
+    });
+
+    await expect(
+      parser.parse(
+        'http://file.pdf',
+        'report-1',
+        vi.fn(),
+        false,
+        withCorrection(),
+      ),
+    ).rejects.toThrow(
+      'macOS 10.15 or later is required. Current version: 10.14.6',
+    );
+  });
+
+  test('parse skips macOS checks and checks tesseract binary for tesseract engine on local server', async () => {
+    doclingClient.health.mockResolvedValueOnce();
+    vi.mocked(envMocks.setupMock).mockResolvedValueOnce();
+    convertMock.mockResolvedValueOnce('OK');
+
+    const logger = makeLogger();
+    const parser = new PDFParser({ logger, port: 5001 });
+    await parser.init();
+
+    vi.mocked(SystemChecks.checkCommandExists).mockClear();
+
+    await parser.parse(
+      'http://file.pdf',
+      'report-1',
+      vi.fn(),
+      false,
+      withCorrection({ ocrEngine: 'tesseract' }),
+    );
+
+    expect(SystemChecks.checkOperatingSystem).not.toHaveBeenCalled();
+    expect(SystemChecks.checkMacOSVersion).not.toHaveBeenCalled();
+    expect(SystemChecks.checkCommandExists).toHaveBeenCalledWith(
+      'tesseract',
+      expect.stringContaining('Tesseract is not installed'),
+    );
+  });
+
+  test('parse skips tesseract binary check when using external server', async () => {
+    doclingClient.health.mockResolvedValueOnce();
+    convertMock.mockResolvedValueOnce('OK');
+
+    const logger = makeLogger();
+    const parser = new PDFParser({ logger, baseUrl: 'http://example.com' });
+    await parser.init();
+
+    vi.mocked(SystemChecks.checkCommandExists).mockClear();
+
+    await parser.parse(
+      'http://file.pdf',
+      'report-1',
+      vi.fn(),
+      false,
+      withCorrection({ ocrEngine: 'tesseract' }),
+    );
+
+    expect(SystemChecks.checkCommandExists).not.toHaveBeenCalled();
+  });
+
+  test('parse skips all OCR engine checks for easyocr engine', async () => {
+    doclingClient.health.mockResolvedValueOnce();
+    vi.mocked(envMocks.setupMock).mockResolvedValueOnce();
+    convertMock.mockResolvedValueOnce('OK');
+
+    const logger = makeLogger();
+    const parser = new PDFParser({ logger, port: 5001 });
+    await parser.init();
+
+    vi.mocked(SystemChecks.checkCommandExists).mockClear();
+
+    await parser.parse(
+      'http://file.pdf',
+      'report-1',
+      vi.fn(),
+      false,
+      withCorrection({ ocrEngine: 'easyocr' }),
+    );
+
+    expect(SystemChecks.checkOperatingSystem).not.toHaveBeenCalled();
+    expect(SystemChecks.checkMacOSVersion).not.toHaveBeenCalled();
+    expect(SystemChecks.checkCommandExists).not.toHaveBeenCalled();
+  });
+
   test('parse calls checkCommandExists for magick and gs when forceImagePdf is true on local server', async () => {
     doclingClient.health.mockResolvedValueOnce();
     vi.mocked(envMocks.setupMock).mockResolvedValueOnce();
@@ -7,11 +7,8 @@ import { join } from 'node:path';
 
 import { PDF_PARSER } from '../config/constants';
 import { DoclingEnvironment } from '../environment/docling-environment';
-import {
-  checkCommandExists,
-  checkMacOSVersion,
-  checkOperatingSystem,
-} from '../utils/system-checks';
+import { checkCommandExists } from '../utils/system-checks';
+import { getOcrBackend } from './ocr-backend';
 import {
   type ConversionCompleteCallback,
   type PDFConvertOptions,
@@ -38,7 +35,9 @@ type Options = {
  * Before using PDFParser, ensure your system meets these requirements:
  *
  * ### Operating System
- * - macOS 10.15 (Catalina) or later
+ * - macOS 10.15 (Catalina) or later when using the `ocrmac` OCR engine (default)
+ * - Any platform (e.g., Linux) when using the `tesseract` or `easyocr` OCR engine
+ *   (selected per conversion via `PDFConvertOptions.ocrEngine`)
  *
  * ### Required Software
  * - `python3` (version 3.9 - 3.12)
@@ -50,6 +49,8 @@ type Options = {
  * - `poppler` - PDF text extraction tools (pdftotext, pdfinfo)
  *   - Install: `brew install poppler`
  * - `lsof` - List open files (usually pre-installed on macOS)
+ * - `tesseract` - Only for the `tesseract` OCR engine with a local server
+ *   - Install: `brew install tesseract tesseract-lang` or `apt-get install tesseract-ocr tesseract-ocr-kor`
  *
  * ## Initialization Process
  * When `init()` is called, the following setup occurs automatically:
@@ -123,7 +124,6 @@ export class PDFParser {
   async init(): Promise<void> {
     this.logger.info('[PDFParser] Initializing...');
 
-    checkOperatingSystem();
     checkCommandExists(
       'jq',
       'jq is not installed. Please install jq using: brew install jq',
@@ -132,7 +132,6 @@ export class PDFParser {
       'pdftotext',
       'poppler is not installed. Please install poppler using: brew install poppler',
     );
-    checkMacOSVersion();
 
     // Check ImageMagick/Ghostscript only for local server mode with fallback enabled
     if (this.enableImagePdfFallback && !this.baseUrl) {
@@ -376,6 +375,9 @@ export class PDFParser {
       );
     }
 
+    // Check prerequisites of the selected OCR engine (lazy check at parse time)
+    getOcrBackend(options.ocrEngine).checkSystemRequirements(!this.baseUrl);
+
     // Check ImageMagick/Ghostscript for forceImagePdf (lazy check at parse time)
     if (options.forceImagePdf && !this.baseUrl) {
       checkCommandExists(
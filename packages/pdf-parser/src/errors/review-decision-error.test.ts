@@ -0,0 +1,13 @@
+import { describe, expect, test } from 'vitest';
+
+import { ReviewDecisionError } from './review-decision-error';
+
+describe('ReviewDecisionError', () => {
+  test('should have correct name and message', () => {
+    const error = new ReviewDecisionError('Unknown proposal p1');
+
+    expect(error.name).toBe('ReviewDecisionError');
+    expect(error.message).toBe('Unknown proposal p1');
+    expect(error).toBeInstanceOf(Error);
+  });
+});
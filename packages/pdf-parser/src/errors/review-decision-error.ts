@@ -0,0 +1,8 @@
+/**
+ * Error thrown when reviewer decisions cannot be applied as given: unknown
+ * or non-proposal decisions, decisions both accepted and rejected, or edits
+ * of decisions that are not accepted.
+ */
+export class ReviewDecisionError extends Error {
+  public readonly name = 'ReviewDecisionError';
+}
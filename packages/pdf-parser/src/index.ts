@@ -14,9 +14,22 @@ export type {
 } from './core/correction-options';
 export { ImagePdfFallbackError } from './errors/image-pdf-fallback-error';
 export { InvalidDocumentTypeError } from './errors/invalid-document-type-error';
+export { ReviewDecisionError } from './errors/review-decision-error';
+export { PdfOutlineReader } from './processors/pdf-outline-reader';
 export type { ReviewAssistanceTaskId } from './prompts/review-assistance-prompt';
+export { ReviewProposalApplier } from './processors/review-assistance/review-proposal-applier';
+export type {
+  ReviewProposalApplyOptions,
+  ReviewProposalApplyResult,
+  ReviewProposalAuditDecision,
+  ReviewProposalAuditEntry,
+  ReviewProposalAuditLog,
+  ReviewProposalAuditStatus,
+} from './processors/review-assistance/review-proposal-applier';
 export { VlmResponseValidator } from './validators/vlm-response-validator';
 export type {
+  OcrEngine,
+  PdfOutlineItem,
   ReviewAssistanceProgressEvent,
   ReviewAssistanceProgressStatus,
   ReviewAssistanceProgressSubstage,
@@ -29,3 +42,10 @@ export type {
   VlmPageQuality,
   VlmQualityIssueType,
 } from './types/vlm-page-result';
+export { LLMCassette, LLMCassetteMissError } from '@heripo/shared';
+export type {
+  LLMCassetteFile,
+  LLMCassetteInteraction,
+  LLMCassetteKey,
+  LLMCassetteMode,
+} from '@heripo/shared';
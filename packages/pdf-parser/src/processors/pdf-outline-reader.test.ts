@@ -0,0 +1,199 @@
+import { spawnAsync } from '@heripo/shared';
+import { type Mock, beforeEach, describe, expect, test, vi } from 'vitest';
+
+import { PdfOutlineReader } from './pdf-outline-reader';
+
+vi.mock('@heripo/shared', () => ({
+  spawnAsync: vi.fn(),
+}));
+
+const mockSpawnAsync = spawnAsync as Mock;
+
+const mockLogger = {
+  info: vi.fn(),
+  warn: vi.fn(),
+  error: vi.fn(),
+  debug: vi.fn(),
+};
+
+const PDFTOHTML_XML = `<?xml version="1.0" encoding="UTF-8"?>
+<!DOCTYPE pdf2xml SYSTEM "pdf2xml.dtd">
+<pdf2xml producer="poppler" version="24.02.0">
+<page number="1" position="absolute" top="0" left="0" height="1263" width="892">
+<text top="100" left="80" width="200" height="20" font="0">Outline &amp; body</text>
+</page>
+<outline>
+<item page="3">Ⅰ. 조사 개요</item>
+<outline>
+<item page="3">1. 조사 경위</item>
+<item page="5">2. 조사 방법 &amp; 범위</item>
+</outline>
+<item page="9">Ⅱ.  유적
+  환경</item>
+<item>표지</item>
+</outline>
+</pdf2xml>
+`;
+
+describe('PdfOutlineReader', () => {
+  let reader: PdfOutlineReader;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    reader = new PdfOutlineReader(mockLogger);
+  });
+
+  describe('tryRead (static)', () => {
+    test('returns undefined when pdfPath is missing (no extraction attempted)', async () => {
+      const result = await PdfOutlineReader.tryRead(mockLogger, undefined);
+
+      expect(result).toBeUndefined();
+      expect(mockSpawnAsync).not.toHaveBeenCalled();
+    });
+
+    test('returns the outline on success', async () => {
+      mockSpawnAsync.mockResolvedValue({
+        code: 0,
+        stdout: PDFTOHTML_XML,
+        stderr: '',
+      });
+
+      const result = await PdfOutlineReader.tryRead(
+        mockLogger,
+        '/tmp/test.pdf',
+      );
+
+      expect(result).toHaveLength(3);
+      expect(mockLogger.warn).not.toHaveBeenCalled();
+    });
+
+    test('returns undefined and logs a warning when pdftohtml fails', async () => {
+      mockSpawnAsync.mockResolvedValue({
+        code: 1,
+        stdout: '',
+        stderr: "Syntax Error: Couldn't find trailer dictionary",
+      });
+
+      const result = await PdfOutlineReader.tryRead(
+        mockLogger,
+        '/tmp/test.pdf',
+      );
+
+      expect(result).toBeUndefined();
+      expect(mockLogger.warn).toHaveBeenCalledWith(
+        '[PdfOutlineReader] Outline extraction failed, proceeding without outline',
+        expect.any(Error),
+      );
+    });
+  });
+
+  describe('read', () => {
+    test('runs pdftohtml in XML mode on the first page only', async () => {
+      mockSpawnAsync.mockResolvedValue({
+        code: 0,
+        stdout: PDFTOHTML_XML,
+        stderr: '',
+      });
+
+      await reader.read('/tmp/test.pdf');
+
+      expect(mockSpawnAsync).toHaveBeenCalledWith('pdftohtml', [
+        '-xml',
+        '-i',
+        '-q',
+        '-stdout',
+        '-f',
+        '1',
+        '-l',
+        '1',
+        '/tmp/test.pdf',
+      ]);
+      expect(mockLogger.info).toHaveBeenCalledWith(
+        '[PdfOutlineReader] Read 3 top-level outline items',
+      );
+    });
+
+    test('throws with stderr when pdftohtml fails', async () => {
+      mockSpawnAsync.mockResolvedValue({
+        code: 1,
+        stdout: '',
+        stderr: 'Permission denied',
+      });
+
+      await expect(reader.read('/tmp/test.pdf')).rejects.toThrow(
+        '[PdfOutlineReader] pdftohtml failed: Permission denied',
+      );
+    });
+
+    test('throws a generic message when stderr is empty', async () => {
+      mockSpawnAsync.mockResolvedValue({ code: 1, stdout: '', stderr: '' });
+
+      await expect(reader.read('/tmp/test.pdf')).rejects.toThrow(
+        '[PdfOutlineReader] pdftohtml failed: Unknown error',
+      );
+    });
+  });
+
+  describe('parseXml (static)', () => {
+    test('builds the nested outline with levels and target pages', () => {
+      expect(PdfOutlineReader.parseXml(PDFTOHTML_XML)).toEqual([
+        {
+          title: 'Ⅰ. 조사 개요',
+          level: 1,
+          pageNo: 3,
+          children: [
+            { title: '1. 조사 경위', level: 2, pageNo: 3, children: [] },
+            {
+              title: '2. 조사 방법 & 범위',
+              level: 2,
+              pageNo: 5,
+              children: [],
+            },
+          ],
+        },
+        { title: 'Ⅱ. 유적 환경', level: 1, pageNo: 9, children: [] },
+        { title: '표지', level: 1, pageNo: undefined, children: [] },
+      ]);
+    });
+
+    test('returns an empty list when the PDF has no outline', () => {
+      expect(
+        PdfOutlineReader.parseXml(
+          '<pdf2xml><page number="1"></page></pdf2xml>',
+        ),
+      ).toEqual([]);
+    });
+
+    test('decodes numeric entities and strips inline markup', () => {
+      const xml =
+        '<outline><item page="2"><b>A&#38;B</b> &#x2160; &lt;x&gt; &quot;q&quot; &apos;s&apos; &nbsp;</item></outline>';
+
+      expect(PdfOutlineReader.parseXml(xml)).toEqual([
+        {
+          title: 'A&B Ⅰ <x> "q" \'s\' &nbsp;',
+          level: 1,
+          pageNo: 2,
+          children: [],
+        },
+      ]);
+    });
+
+    test('keeps a nested outline without a preceding item at its depth', () => {
+      const xml =
+        '<outline><outline><item page="4">Orphan</item></outline></outline>';
+
+      expect(PdfOutlineReader.parseXml(xml)).toEqual([
+        { title: 'Orphan', level: 2, pageNo: 4, children: [] },
+      ]);
+    });
+
+    test('ignores anything after the outline closes', () => {
+      const xml =
+        '<outline><item page="1">A</item></outline><outline><item page="2">B</item></outline>';
+
+      expect(PdfOutlineReader.parseXml(xml)).toEqual([
+        { title: 'A', level: 1, pageNo: 1, children: [] },
+      ]);
+    });
+  });
+});
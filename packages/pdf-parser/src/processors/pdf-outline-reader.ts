@@ -0,0 +1,145 @@
+import type { LoggerMethods } from '@heripo/logger';
+import type { PdfOutlineItem } from '@heripo/model';
+
+import { spawnAsync } from '@heripo/shared';
+
+const XML_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+};
+
+/**
+ * `<outline>`, `</outline>` and `<item page="N">title</item>` tokens of
+ * pdftohtml's XML output
+ */
+const OUTLINE_TOKEN_PATTERN =
+  /<outline>|<\/outline>|<item(?:\s+page="(\d+)")?\s*>([\s\S]*?)<\/item>/g;
+
+/**
+ * Reads the PDF outline (bookmarks) using the pdftohtml command-line tool.
+ *
+ * `pdftohtml -xml` prints the document outline as nested `<outline>` elements
+ * after the page content. Only the first page is rendered because the outline
+ * always covers the whole document.
+ *
+ * ## System Requirements
+ * - Poppler utils (`brew install poppler`)
+ */
+export class PdfOutlineReader {
+  constructor(private readonly logger: LoggerMethods) {}
+
+  /**
+   * Safely read the outline: returns the items on success, `undefined` on
+   * failure. Failures are logged as a single warning and do not throw, so
+   * callers can continue with the other TOC sources.
+   *
+   * Returns `undefined` immediately when `pdfPath` is missing (e.g. a remote
+   * URL where local extraction is not possible).
+   */
+  static async tryRead(
+    logger: LoggerMethods,
+    pdfPath: string | undefined,
+  ): Promise<PdfOutlineItem[] | undefined> {
+    if (!pdfPath) return undefined;
+    try {
+      const reader = new PdfOutlineReader(logger);
+      return await reader.read(pdfPath);
+    } catch (error) {
+      logger.warn(
+        '[PdfOutlineReader] Outline extraction failed, proceeding without outline',
+        error,
+      );
+      return undefined;
+    }
+  }
+
+  /**
+   * Read the outline of a PDF.
+   *
+   * @param pdfPath - Absolute path to the source PDF file
+   * @returns Top-level outline items (empty when the PDF has no outline)
+   * @throws Error when pdftohtml fails
+   */
+  async read(pdfPath: string): Promise<PdfOutlineItem[]> {
+    const result = await spawnAsync('pdftohtml', [
+      '-xml',
+      '-i',
+      '-q',
+      '-stdout',
+      '-f',
+      '1',
+      '-l',
+      '1',
+      pdfPath,
+    ]);
+
+    if (result.code !== 0) {
+      throw new Error(
+        `[PdfOutlineReader] pdftohtml failed: ${result.stderr || 'Unknown error'}`,
+      );
+    }
+
+    const items = PdfOutlineReader.parseXml(result.stdout);
+    this.logger.info(
+      `[PdfOutlineReader] Read ${items.length} top-level outline items`,
+    );
+    return items;
+  }
+
+  /**
+   * Parse the outline from pdftohtml XML output.
+   *
+   * A nested `<outline>` holds the children of the item right before it.
+   */
+  static parseXml(xml: string): PdfOutlineItem[] {
+    const start = xml.indexOf('<outline>');
+    if (start < 0) return [];
+
+    const root: PdfOutlineItem[] = [];
+    // Sibling lists from the top level down to the current nesting depth
+    const lists: PdfOutlineItem[][] = [];
+
+    for (const match of xml.slice(start).matchAll(OUTLINE_TOKEN_PATTERN)) {
+      const [token, page, rawTitle] = match;
+
+      if (token === '<outline>') {
+        const current = lists.at(-1);
+        lists.push(current ? (current.at(-1)?.children ?? current) : root);
+      } else if (token === '</outline>') {
+        lists.pop();
+        if (lists.length === 0) break;
+      } else {
+        lists.at(-1)!.push({
+          title: PdfOutlineReader.decodeXmlText(rawTitle)
+            .replace(/\s+/g, ' ')
+            .trim(),
+          level: lists.length,
+          pageNo: page === undefined ? undefined : Number(page),
+          children: [],
+        });
+      }
+    }
+
+    return root;
+  }
+
+  /**
+   * Decode XML entities and strip inline markup (e.g. `<b>`) from item text
+   */
+  private static decodeXmlText(text: string): string {
+    return text
+      .replace(/<[^>]*>/g, '')
+      .replace(/&(#x[\da-f]+|#\d+|\w+);/gi, (entity, name: string) => {
+        if (name.startsWith('#x') || name.startsWith('#X')) {
+          return String.fromCodePoint(parseInt(name.slice(2), 16));
+        }
+        if (name.startsWith('#')) {
+          return String.fromCodePoint(parseInt(name.slice(1), 10));
+        }
+        return XML_ENTITIES[name] ?? entity;
+      });
+  }
+}
@@ -0,0 +1,366 @@
+import type {
+  DoclingDocument,
+  DoclingTextItem,
+  ReviewAssistanceDecision,
+  ReviewAssistanceReport,
+} from '@heripo/model';
+
+import type { ReviewProposalAuditLog } from './review-proposal-applier';
+
+import {
+  existsSync,
+  mkdtempSync,
+  readFileSync,
+  rmSync,
+  writeFileSync,
+} from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, test, vi } from 'vitest';
+
+import { ReviewDecisionError } from '../../errors/review-decision-error';
+import { ReviewProposalApplier } from './review-proposal-applier';
+
+vi.mock('@heripo/shared', () => ({
+  spawnAsync: vi.fn(),
+}));
+
+function makeText(selfRef: string, text: string): DoclingTextItem {
+  return {
+    self_ref: selfRef,
+    parent: { $ref: '#/body' },
+    children: [],
+    content_layer: 'body',
+    label: 'text',
+    prov: [
+      {
+        page_no: 1,
+        bbox: { l: 10, t: 10, r: 90, b: 40, coord_origin: 'TOPLEFT' },
+        charspan: [0, text.length],
+      },
+    ],
+    orig: text,
+    text,
+  };
+}
+
+function makeDoc(): DoclingDocument {
+  return {
+    schema_name: 'DoclingDocument',
+    version: '1.0',
+    name: 'sample',
+    origin: {
+      mimetype: 'application/pdf',
+      binary_hash: 1,
+      filename: 'sample.pdf',
+    },
+    furniture: {
+      self_ref: '#/furniture',
+      children: [],
+      content_layer: 'furniture',
+      name: '_root_',
+      label: 'unspecified',
+    },
+    body: {
+      self_ref: '#/body',
+      children: [{ $ref: '#/texts/0' }, { $ref: '#/texts/1' }],
+      content_layer: 'body',
+      name: '_root_',
+      label: 'unspecified',
+    },
+    groups: [],
+    texts: [makeText('#/texts/0', 'Old text'), makeText('#/texts/1', 'Other')],
+    pictures: [],
+    tables: [],
+    pages: {
+      '1': {
+        page_no: 1,
+        size: { width: 100, height: 100 },
+        image: {
+          mimetype: 'image/png',
+          dpi: 200,
+          size: { width: 100, height: 100 },
+          uri: 'pages/page_0.png',
+        },
+      },
+    },
+  };
+}
+
+function makeDecision(
+  id: string,
+  overrides: Partial<ReviewAssistanceDecision> = {},
+): ReviewAssistanceDecision {
+  return {
+    id,
+    pageNo: 1,
+    command: { op: 'replaceText', textRef: '#/texts/0', text: 'New text' },
+    confidence: 0.7,
+    disposition: 'proposal',
+    reasons: ['below_auto_apply_threshold'],
+    ...overrides,
+  };
+}
+
+function makeReport(decisions: ReviewAssistanceDecision[]) {
+  return {
+    reportId: 'report-1',
+    pages: [{ pageNo: 1, status: 'succeeded', decisions, issues: [] }],
+  } as unknown as ReviewAssistanceReport;
+}
+
+describe('ReviewProposalApplier', () => {
+  const logger = {
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  };
+  const now = () => new Date('2026-01-02T03:04:05.000Z');
+  let outputDir: string;
+
+  const readJson = <T>(file: string): T =>
+    JSON.parse(readFileSync(join(outputDir, file), 'utf-8')) as T;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    outputDir = mkdtempSync(join(tmpdir(), 'review-proposal-applier-'));
+    writeFileSync(join(outputDir, 'result.json'), JSON.stringify(makeDoc()));
+  });
+
+  afterEach(() => {
+    rmSync(outputDir, { recursive: true, force: true });
+  });
+
+  test('applies accepted proposals to result.json and writes a snapshot and audit log', async () => {
+    const report = makeReport([
+      makeDecision('p1'),
+      makeDecision('p2', {
+        command: { op: 'replaceText', textRef: '#/texts/1', text: 'Skip' },
+      }),
+    ]);
+
+    const result = await new ReviewProposalApplier(logger, now).apply(
+      outputDir,
+      report,
+      {
+        acceptedDecisionIds: ['p1'],
+        rejectedDecisionIds: ['p2'],
+        reviewer: 'kim',
+        note: 'checked against scan',
+      },
+    );
+
+    expect(result.doc.texts[0].text).toBe('New text');
+    expect(result.doc.texts[1].text).toBe('Other');
+    expect(readJson<DoclingDocument>('result.json').texts[0].text).toBe(
+      'New text',
+    );
+    expect(
+      readJson<DoclingDocument>('result_before_proposals_1.json').texts[0].text,
+    ).toBe('Old text');
+    expect(
+      readJson<ReviewProposalAuditLog>('review_proposal_audit.json'),
+    ).toEqual({
+      schemaVersion: 1,
+      reportId: 'report-1',
+      entries: [
+        {
+          sequence: 1,
+          reviewer: 'kim',
+          note: 'checked against scan',
+          decidedAt: '2026-01-02T03:04:05.000Z',
+          snapshot: 'result_before_proposals_1.json',
+          decisions: [
+            {
+              decisionId: 'p1',
+              pageNo: 1,
+              op: 'replaceText',
+              status: 'applied',
+            },
+            {
+              decisionId: 'p2',
+              pageNo: 1,
+              op: 'replaceText',
+              status: 'rejected',
+            },
+          ],
+        },
+      ],
+    });
+    expect(logger.info).toHaveBeenCalledWith(
+      '[ReviewProposalApplier] kim applied 1/1 proposals, rejected 1 (snapshot: result_before_proposals_1.json)',
+    );
+  });
+
+  test('replays reviewer-edited commands and records them in the audit log', async () => {
+    const report = makeReport([makeDecision('p1'), makeDecision('p2')]);
+    const editedCommand = {
+      op: 'replaceText' as const,
+      textRef: '#/texts/0',
+      text: 'Edited text',
+    };
+    const applier = new ReviewProposalApplier(logger, now);
+
+    const result = await applier.apply(outputDir, report, {
+      acceptedDecisionIds: ['p1'],
+      editedCommands: { p1: editedCommand },
+      reviewer: 'kim',
+    });
+
+    expect(result.doc.texts[0].text).toBe('Edited text');
+    expect(result.entry.decisions).toEqual([
+      {
+        decisionId: 'p1',
+        pageNo: 1,
+        op: 'replaceText',
+        status: 'applied',
+        editedCommand,
+      },
+    ]);
+    await expect(
+      applier.apply(outputDir, report, {
+        acceptedDecisionIds: ['p1'],
+        editedCommands: { p2: editedCommand },
+        reviewer: 'kim',
+      }),
+    ).rejects.toThrow('Edited decisions must be accepted: p2');
+    await expect(
+      applier.apply(outputDir, report, {
+        acceptedDecisionIds: ['p2'],
+        editedCommands: { p2: { op: 'removeText', textRef: '#/texts/0' } },
+        reviewer: 'kim',
+      }),
+    ).rejects.toThrow('Edited command for p2 must keep op replaceText');
+  });
+
+  test('records proposals the patcher cannot apply as skipped', async () => {
+    const report = makeReport([
+      makeDecision('p1', {
+        command: { op: 'replaceText', textRef: '#/texts/404', text: 'x' },
+      }),
+    ]);
+
+    const result = await new ReviewProposalApplier(logger, now).apply(
+      outputDir,
+      report,
+      { acceptedDecisionIds: ['p1'], reviewer: 'kim' },
+    );
+
+    expect(result.entry.decisions).toEqual([
+      {
+        decisionId: 'p1',
+        pageNo: 1,
+        op: 'replaceText',
+        status: 'skipped',
+        reason: 'patch_skipped: text_ref_not_found',
+      },
+    ]);
+    expect(result.doc.texts[0].text).toBe('Old text');
+  });
+
+  test('stamps audit entries with the current time by default', async () => {
+    const report = makeReport([makeDecision('p1')]);
+
+    const result = await new ReviewProposalApplier(logger).apply(
+      outputDir,
+      report,
+      { acceptedDecisionIds: [], rejectedDecisionIds: ['p1'], reviewer: 'kim' },
+    );
+
+    expect(Date.parse(result.entry.decidedAt)).not.toBeNaN();
+  });
+
+  test('does not replay proposals applied by an earlier audit entry', async () => {
+    const report = makeReport([
+      makeDecision('p1', {
+        command: {
+          op: 'splitText',
+          textRef: '#/texts/0',
+          parts: [{ text: 'Old' }, { text: 'text' }],
+        },
+      }),
+    ]);
+    const applier = new ReviewProposalApplier(logger, now);
+
+    await applier.apply(outputDir, report, {
+      acceptedDecisionIds: ['p1'],
+      reviewer: 'kim',
+    });
+    const textCount = readJson<DoclingDocument>('result.json').texts.length;
+    const second = await applier.apply(outputDir, report, {
+      acceptedDecisionIds: ['p1'],
+      reviewer: 'lee',
+    });
+
+    expect(second.doc.texts).toHaveLength(textCount);
+    expect(second.entry).toMatchObject({
+      sequence: 2,
+      reviewer: 'lee',
+      snapshot: 'result_before_proposals_2.json',
+      decisions: [
+        { decisionId: 'p1', status: 'skipped', reason: 'already_applied' },
+      ],
+    });
+    expect(existsSync(join(outputDir, 'result_before_proposals_2.json'))).toBe(
+      true,
+    );
+    expect(
+      readJson<ReviewProposalAuditLog>('review_proposal_audit.json').entries,
+    ).toHaveLength(2);
+  });
+
+  test('rejects decision IDs that are not proposals in the report', async () => {
+    const report = makeReport([
+      makeDecision('p1'),
+      makeDecision('a1', { disposition: 'auto_applied' }),
+      makeDecision('n1', { command: undefined, invalidOp: 'replaceText' }),
+    ]);
+    const applier = new ReviewProposalApplier(logger, now);
+
+    await expect(
+      applier.apply(outputDir, report, {
+        acceptedDecisionIds: ['a1', 'missing'],
+        reviewer: 'kim',
+      }),
+    ).rejects.toThrow('Not applicable proposal decisions: a1, missing');
+    await expect(
+      applier.apply(outputDir, report, {
+        acceptedDecisionIds: ['p1'],
+        rejectedDecisionIds: ['n1'],
+        reviewer: 'kim',
+      }),
+    ).rejects.toThrow('Not applicable proposal decisions: n1');
+    await expect(
+      applier.apply(outputDir, report, {
+        acceptedDecisionIds: ['p1'],
+        rejectedDecisionIds: ['p1'],
+        reviewer: 'kim',
+      }),
+    ).rejects.toThrow('Decisions cannot be both accepted and rejected: p1');
+    await expect(
+      applier.apply(outputDir, report, {
+        acceptedDecisionIds: ['missing'],
+        reviewer: 'kim',
+      }),
+    ).rejects.toBeInstanceOf(ReviewDecisionError);
+    expect(existsSync(join(outputDir, 'review_proposal_audit.json'))).toBe(
+      false,
+    );
+  });
+
+  test('refuses an audit log written for another report', async () => {
+    writeFileSync(
+      join(outputDir, 'review_proposal_audit.json'),
+      JSON.stringify({ schemaVersion: 1, reportId: 'other', entries: [] }),
+    );
+
+    await expect(
+      new ReviewProposalApplier(logger, now).apply(
+        outputDir,
+        makeReport([makeDecision('p1')]),
+        { acceptedDecisionIds: ['p1'], reviewer: 'kim' },
+      ),
+    ).rejects.toThrow('Audit log belongs to report other, not report-1');
+  });
+});
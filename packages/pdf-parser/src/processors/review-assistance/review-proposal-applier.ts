@@ -0,0 +1,305 @@
+import type { LoggerMethods } from '@heripo/logger';
+import type {
+  DoclingDocument,
+  ReviewAssistanceCommand,
+  ReviewAssistanceDecision,
+  ReviewAssistancePageResult,
+  ReviewAssistanceReport,
+} from '@heripo/model';
+
+import { copyFileSync, existsSync, readFileSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+
+import { ReviewDecisionError } from '../../errors/review-decision-error';
+import { PageReviewContextBuilder } from './page-review-context-builder';
+import { ReviewAssistancePatcher } from './review-assistance-patcher';
+
+export interface ReviewProposalApplyOptions {
+  /** Proposal decision IDs to replay onto `result.json`. */
+  acceptedDecisionIds: string[];
+  /** Proposal decision IDs the reviewer declined; recorded in the audit log only. */
+  rejectedDecisionIds?: string[];
+  /**
+   * Reviewer-edited commands keyed by accepted decision ID. Replayed instead
+   * of the proposed command; the op must stay the same.
+   */
+  editedCommands?: Record<string, ReviewAssistanceCommand>;
+  /** Who accepted/rejected the proposals (user name, email or service id). */
+  reviewer: string;
+  note?: string;
+}
+
+export type ReviewProposalAuditStatus = 'applied' | 'skipped' | 'rejected';
+
+export interface ReviewProposalAuditDecision {
+  decisionId: string;
+  pageNo: number;
+  op?: string;
+  status: ReviewProposalAuditStatus;
+  reason?: string;
+  /** Command actually replayed when the reviewer edited the proposal. */
+  editedCommand?: ReviewAssistanceCommand;
+}
+
+export interface ReviewProposalAuditEntry {
+  sequence: number;
+  reviewer: string;
+  note?: string;
+  decidedAt: string;
+  /** Copy of `result.json` taken right before this entry was applied. */
+  snapshot: string;
+  decisions: ReviewProposalAuditDecision[];
+}
+
+export interface ReviewProposalAuditLog {
+  schemaVersion: 1;
+  reportId: string;
+  entries: ReviewProposalAuditEntry[];
+}
+
+export interface ReviewProposalApplyResult {
+  doc: DoclingDocument;
+  entry: ReviewProposalAuditEntry;
+}
+
+const AUDIT_LOG_FILE = 'review_proposal_audit.json';
+
+/**
+ * Replays reviewer-accepted `proposal` decisions from a review assistance
+ * report onto `result.json`.
+ *
+ * Each call snapshots the current `result.json` before patching and appends
+ * an entry to `review_proposal_audit.json`, so every accepted or rejected
+ * proposal can be traced back to a reviewer and rolled back.
+ */
+export class ReviewProposalApplier {
+  constructor(
+    private readonly logger: LoggerMethods,
+    private readonly now: () => Date = () => new Date(),
+  ) {}
+
+  async apply(
+    outputDir: string,
+    report: ReviewAssistanceReport,
+    options: ReviewProposalApplyOptions,
+  ): Promise<ReviewProposalApplyResult> {
+    const rejectedIds = options.rejectedDecisionIds ?? [];
+    const conflicting = options.acceptedDecisionIds.filter((id) =>
+      rejectedIds.includes(id),
+    );
+    if (conflicting.length > 0) {
+      throw new ReviewDecisionError(
+        `Decisions cannot be both accepted and rejected: ${conflicting.join(', ')}`,
+      );
+    }
+
+    const proposals = this.collectProposals(report);
+    const accepted = this.applyEdits(
+      this.resolveDecisions(proposals, options.acceptedDecisionIds),
+      options.editedCommands ?? {},
+    );
+    const rejected = this.resolveDecisions(proposals, rejectedIds);
+
+    const auditLog = this.readAuditLog(outputDir, report.reportId);
+    const alreadyApplied = new Set(
+      auditLog.entries.flatMap((entry) =>
+        entry.decisions
+          .filter((decision) => decision.status === 'applied')
+          .map((decision) => decision.decisionId),
+      ),
+    );
+
+    const resultPath = join(outputDir, 'result.json');
+    const sequence = auditLog.entries.length + 1;
+    const snapshot = `result_before_proposals_${sequence}.json`;
+    copyFileSync(resultPath, join(outputDir, snapshot));
+    const doc: DoclingDocument = JSON.parse(readFileSync(resultPath, 'utf-8'));
+
+    const pending = accepted.filter(
+      (decision) => !alreadyApplied.has(decision.id),
+    );
+    const patchedDecisions = await this.patch(doc, pending, outputDir);
+    writeFileSync(resultPath, JSON.stringify(doc, null, 2));
+
+    const entry: ReviewProposalAuditEntry = {
+      sequence,
+      reviewer: options.reviewer,
+      note: options.note,
+      decidedAt: this.now().toISOString(),
+      snapshot,
+      decisions: [
+        ...accepted.map((decision) =>
+          this.toAuditDecision(
+            decision,
+            alreadyApplied.has(decision.id),
+            patchedDecisions.get(decision.id),
+            options.editedCommands?.[decision.id],
+          ),
+        ),
+        ...rejected.map((decision) => ({
+          decisionId: decision.id,
+          pageNo: decision.pageNo,
+          op: decision.command?.op,
+          status: 'rejected' as const,
+        })),
+      ],
+    };
+    auditLog.entries.push(entry);
+    writeFileSync(
+      join(outputDir, AUDIT_LOG_FILE),
+      JSON.stringify(auditLog, null, 2),
+    );
+
+    const appliedCount = entry.decisions.filter(
+      (decision) => decision.status === 'applied',
+    ).length;
+    this.logger.info(
+      `[ReviewProposalApplier] ${options.reviewer} applied ${appliedCount}/${accepted.length} proposals, rejected ${rejected.length} (snapshot: ${snapshot})`,
+    );
+
+    return { doc, entry };
+  }
+
+  /**
+   * Patch the accepted proposals as if they had been auto-applied.
+   *
+   * Page contexts are rebuilt from the current document so picture commands
+   * can still crop from the rendered page images in `outputDir`.
+   */
+  private async patch(
+    doc: DoclingDocument,
+    decisions: ReviewAssistanceDecision[],
+    outputDir: string,
+  ): Promise<Map<string, ReviewAssistanceDecision>> {
+    if (decisions.length === 0) {
+      return new Map();
+    }
+
+    const pagesByNo = new Map<number, ReviewAssistancePageResult>();
+    for (const decision of decisions) {
+      const page = pagesByNo.get(decision.pageNo) ?? {
+        pageNo: decision.pageNo,
+        status: 'succeeded',
+        decisions: [],
+        issues: [],
+      };
+      page.decisions.push({ ...decision, disposition: 'auto_applied' });
+      pagesByNo.set(decision.pageNo, page);
+    }
+
+    const contexts = new PageReviewContextBuilder().build(doc, outputDir);
+    const patched = await new ReviewAssistancePatcher(this.logger).apply(
+      doc,
+      [...pagesByNo.values()],
+      { outputDir, contexts },
+    );
+
+    return new Map(
+      patched.pages.flatMap((page) =>
+        page.decisions.map((decision) => [decision.id, decision] as const),
+      ),
+    );
+  }
+
+  private collectProposals(
+    report: ReviewAssistanceReport,
+  ): Map<string, ReviewAssistanceDecision> {
+    return new Map(
+      report.pages.flatMap((page) =>
+        page.decisions
+          .filter(
+            (decision) =>
+              decision.disposition === 'proposal' &&
+              decision.command !== undefined,
+          )
+          .map((decision) => [decision.id, decision] as const),
+      ),
+    );
+  }
+
+  private resolveDecisions(
+    proposals: Map<string, ReviewAssistanceDecision>,
+    ids: string[],
+  ): ReviewAssistanceDecision[] {
+    const unknown = ids.filter((id) => !proposals.has(id));
+    if (unknown.length > 0) {
+      throw new ReviewDecisionError(
+        `Not applicable proposal decisions: ${unknown.join(', ')}`,
+      );
+    }
+    return [...new Set(ids)].map((id) => proposals.get(id)!);
+  }
+
+  private applyEdits(
+    accepted: ReviewAssistanceDecision[],
+    editedCommands: Record<string, ReviewAssistanceCommand>,
+  ): ReviewAssistanceDecision[] {
+    const acceptedIds = new Set(accepted.map((decision) => decision.id));
+    const notAccepted = Object.keys(editedCommands).filter(
+      (id) => !acceptedIds.has(id),
+    );
+    if (notAccepted.length > 0) {
+      throw new ReviewDecisionError(
+        `Edited decisions must be accepted: ${notAccepted.join(', ')}`,
+      );
+    }
+
+    return accepted.map((decision) => {
+      const edited = editedCommands[decision.id];
+      if (!edited) return decision;
+      if (edited.op !== decision.command?.op) {
+        throw new ReviewDecisionError(
+          `Edited command for ${decision.id} must keep op ${decision.command?.op}`,
+        );
+      }
+      return { ...decision, command: edited };
+    });
+  }
+
+  private toAuditDecision(
+    decision: ReviewAssistanceDecision,
+    alreadyApplied: boolean,
+    patched: ReviewAssistanceDecision | undefined,
+    editedCommand: ReviewAssistanceCommand | undefined,
+  ): ReviewProposalAuditDecision {
+    const base = {
+      decisionId: decision.id,
+      pageNo: decision.pageNo,
+      op: decision.command?.op,
+      ...(editedCommand ? { editedCommand } : {}),
+    };
+    if (alreadyApplied) {
+      return { ...base, status: 'skipped', reason: 'already_applied' };
+    }
+    if (!patched || patched.disposition === 'skipped') {
+      return {
+        ...base,
+        status: 'skipped',
+        reason: patched?.reasons.find((reason) =>
+          reason.startsWith('patch_skipped: '),
+        ),
+      };
+    }
+    return { ...base, status: 'applied' };
+  }
+
+  private readAuditLog(
+    outputDir: string,
+    reportId: string,
+  ): ReviewProposalAuditLog {
+    const path = join(outputDir, AUDIT_LOG_FILE);
+    if (!existsSync(path)) {
+      return { schemaVersion: 1, reportId, entries: [] };
+    }
+
+    const parsed = JSON.parse(
+      readFileSync(path, 'utf-8'),
+    ) as ReviewProposalAuditLog;
+    if (parsed.reportId !== reportId) {
+      throw new Error(
+        `Audit log belongs to report ${parsed.reportId}, not ${reportId}`,
+      );
+    }
+    return parsed;
+  }
+}
@@ -42,7 +42,8 @@ describe('checkOperatingSystem', () => {
   test('throws on non-macOS platforms', () => {
     vi.mocked(platform).mockReturnValue('linux');
     expect(() => checkOperatingSystem()).toThrow(
-      'PDFParser is only supported on macOS. Current platform: linux',
+      'The ocrmac OCR engine is only supported on macOS. ' +
+        "Use ocrEngine 'tesseract' or 'easyocr' on other platforms. Current platform: linux",
     );
   });
 });
@@ -17,12 +17,14 @@ export function checkCommandExists(
 }
 
 /**
- * Check that the operating system is macOS.
+ * Check that the operating system is macOS (required by the ocrmac OCR engine).
  */
 export function checkOperatingSystem(): void {
   if (platform() !== 'darwin') {
     throw new Error(
-      'PDFParser is only supported on macOS. Current platform: ' + platform(),
+      'The ocrmac OCR engine is only supported on macOS. ' +
+        "Use ocrEngine 'tesseract' or 'easyocr' on other platforms. Current platform: " +
+        platform(),
     );
   }
 }
@@ -12,8 +12,18 @@ export {
   type LLMCallResult,
   type LLMVisionCallConfig,
 } from './utils/llm-caller';
+export {
+  LLMCassette,
+  LLMCassetteMissError,
+  type LLMCassetteFile,
+  type LLMCassetteInteraction,
+  type LLMCassetteKey,
+  type LLMCassetteMode,
+  type LLMCassettePrompt,
+} from './utils/llm-cassette';
 export {
   LLMTokenUsageAggregator,
   type TokenUsage,
 } from './utils/llm-token-usage-aggregator';
+export { createModel, UnknownModelProviderError } from './utils/model-factory';
 export { detectProvider, type ProviderType } from './utils/provider-detector';
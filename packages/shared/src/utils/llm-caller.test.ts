@@ -4,6 +4,7 @@ import { NoObjectGeneratedError, Output, generateText } from 'ai';
 import { beforeEach, describe, expect, test, vi } from 'vitest';
 
 import { LLMCaller } from './llm-caller';
+import { LLMCassette, LLMCassetteMissError } from './llm-cassette';
 import { detectProvider } from './provider-detector';
 
 vi.mock('ai', () => ({
@@ -1186,4 +1187,94 @@ describe('LLMCaller', () => {
       expect(generateText).toHaveBeenCalledTimes(1);
     });
   });
+
+  describe('cassette', () => {
+    const imageData = new Uint8Array([1, 2, 3]);
+
+    const callVision = (primaryModel: LanguageModel) =>
+      LLMCaller.callVision({
+        schema: mockSchema,
+        messages: [
+          {
+            role: 'user',
+            content: [
+              { type: 'text', text: 'Read the page' },
+              { type: 'file', data: imageData, mediaType: 'image/png' },
+            ],
+          },
+        ],
+        primaryModel,
+        fallbackModel: mockFallbackModel,
+        maxRetries: 3,
+        component: 'PageRangeParser',
+        phase: 'sampling',
+      });
+
+    test('should record results including fallback usage', async () => {
+      const cassette = new LLMCassette('record');
+      vi.mocked(generateText)
+        .mockRejectedValueOnce(new Error('Primary model failed'))
+        .mockResolvedValueOnce(
+          createMockGenerateTextResult(
+            { pageNo: 3 },
+            { inputTokens: 10, outputTokens: 5, totalTokens: 15 },
+          ),
+        );
+
+      const result = await callVision(cassette.wrap(mockPrimaryModel));
+
+      expect(result.usedFallback).toBe(true);
+      expect(cassette.getInteractions()).toEqual([
+        {
+          key: LLMCassette.createKey('PageRangeParser', 'sampling', {
+            messages: [
+              {
+                role: 'user',
+                content: [
+                  { type: 'text', text: 'Read the page' },
+                  { type: 'file', data: imageData, mediaType: 'image/png' },
+                ],
+              },
+            ],
+          }),
+          output: { pageNo: 3 },
+          usage: result.usage,
+          usedFallback: true,
+        },
+      ]);
+    });
+
+    test('should replay recorded results without calling the model', async () => {
+      const recorder = new LLMCassette('record');
+      vi.mocked(generateText).mockResolvedValueOnce(
+        createMockGenerateTextResult({ pageNo: 3 }),
+      );
+      const recorded = await callVision(recorder.wrap(mockPrimaryModel));
+      vi.mocked(generateText).mockClear();
+
+      const player = new LLMCassette('replay', recorder.getInteractions());
+      const replayed = await callVision(player.wrap(mockPrimaryModel));
+
+      expect(replayed).toEqual(recorded);
+      expect(generateText).not.toHaveBeenCalled();
+      expect(player.getUnusedInteractions()).toEqual([]);
+    });
+
+    test('should fail on prompts that were not recorded', async () => {
+      const cassette = new LLMCassette('replay');
+
+      await expect(
+        LLMCaller.call({
+          schema: mockSchema,
+          systemPrompt: 'sys',
+          userPrompt: 'usr',
+          primaryModel: cassette.wrap(mockPrimaryModel),
+          maxRetries: 3,
+          component: 'TocExtractor',
+          phase: 'extraction',
+        }),
+      ).rejects.toThrow(LLMCassetteMissError);
+      expect(generateText).not.toHaveBeenCalled();
+    });
+  });
 });
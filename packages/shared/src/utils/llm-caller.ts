@@ -1,5 +1,7 @@
 import type { z } from 'zod';
 
+import type { LLMCassettePrompt } from './llm-cassette';
+
 import {
   type LanguageModel,
   NoObjectGeneratedError,
@@ -9,6 +11,7 @@ import {
   tool,
 } from 'ai';
 
+import { LLMCassette, getLLMCassette } from './llm-cassette';
 import { detectProvider } from './provider-detector';
 
 /**
@@ -375,9 +378,36 @@ export class LLMCaller {
    * Execute LLM call with fallback support
    *
    * Common execution logic for both text and vision calls.
-   * Logs additional details when NoObjectGeneratedError occurs.
+   * Calls on a primary model wrapped by an LLMCassette are recorded or
+   * replayed as a whole, including any fallback attempt.
    */
   private static async executeWithFallback<TOutput>(
+    config: ExecutionConfig,
+    prompt: LLMCassettePrompt,
+    generateFn: (model: LanguageModel) => Promise<{
+      output: TOutput;
+      usage?: {
+        inputTokens?: number;
+        outputTokens?: number;
+        totalTokens?: number;
+      };
+    }>,
+  ): Promise<LLMCallResult<TOutput>> {
+    const cassette = getLLMCassette(config.primaryModel);
+    if (cassette) {
+      const key = LLMCassette.createKey(config.component, config.phase, prompt);
+      return cassette.run(key, () =>
+        this.executeWithModels(config, generateFn),
+      );
+    }
+
+    return this.executeWithModels(config, generateFn);
+  }
+
+  /**
+   * Try the primary model, then the fallback model if one is configured
+   */
+  private static async executeWithModels<TOutput>(
     config: ExecutionConfig,
     generateFn: (model: LanguageModel) => Promise<{
       output: TOutput;
@@ -440,7 +470,7 @@ export class LLMCaller {
   static async call<TOutput = unknown>(
     config: LLMCallConfig<z.ZodType<TOutput>>,
   ): Promise<LLMCallResult<TOutput>> {
-    return this.executeWithFallback(config, (model) =>
+    return this.executeWithFallback(config, config, (model) =>
       this.generateStructuredOutput(model, config.schema, {
         instructions: config.systemPrompt,
         prompt: config.userPrompt,
@@ -465,7 +495,7 @@ export class LLMCaller {
   static async callVision<TOutput = unknown>(
     config: LLMVisionCallConfig<z.ZodType<TOutput>>,
   ): Promise<LLMCallResult<TOutput>> {
-    return this.executeWithFallback(config, (model) =>
+    return this.executeWithFallback(config, config, (model) =>
       this.generateStructuredOutput(model, config.schema, {
         messages: config.messages,
         temperature: config.temperature,
@@ -0,0 +1,231 @@
+import type { LanguageModel } from 'ai';
+
+import type { LLMCassetteInteraction } from './llm-cassette';
+
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { describe, expect, test, vi } from 'vitest';
+
+import {
+  LLMCassette,
+  LLMCassetteMissError,
+  getLLMCassette,
+} from './llm-cassette';
+
+describe('LLMCassette', () => {
+  const usage = {
+    component: 'TocExtractor',
+    phase: 'extraction',
+    model: 'primary' as const,
+    modelName: 'gpt-5',
+    inputTokens: 10,
+    outputTokens: 5,
+    totalTokens: 15,
+  };
+
+  const textKey = LLMCassette.createKey('TocExtractor', 'extraction', {
+    systemPrompt: 'sys',
+    userPrompt: 'usr',
+  });
+
+  const createInteraction = (output: unknown): LLMCassetteInteraction => ({
+    key: textKey,
+    output,
+    usage,
+    usedFallback: false,
+  });
+
+  describe('createKey', () => {
+    test('hashes text prompts without an image hash', () => {
+      expect(textKey).toEqual({
+        component: 'TocExtractor',
+        phase: 'extraction',
+        promptHash: expect.stringMatching(/^[0-9a-f]{64}$/),
+        imageHash: null,
+      });
+      expect(
+        LLMCassette.createKey('TocExtractor', 'extraction', {
+          systemPrompt: 'sys',
+          userPrompt: 'usr2',
+        }).promptHash,
+      ).not.toBe(textKey.promptHash);
+    });
+
+    test('hashes binary message content separately from the prompt', () => {
+      const createMessages = (data: Uint8Array | ArrayBuffer | Buffer) => ({
+        messages: [
+          {
+            role: 'user',
+            content: [
+              { type: 'text', text: 'Read the page' },
+              { type: 'file', data, mediaType: 'image/png' },
+            ],
+          },
+        ],
+      });
+
+      const original = LLMCassette.createKey(
+        'VlmPageProcessor',
+        'page',
+        createMessages(new Uint8Array([1, 2, 3])),
+      );
+      const changedImage = LLMCassette.createKey(
+        'VlmPageProcessor',
+        'page',
+        createMessages(new Uint8Array([1, 2, 4])),
+      );
+
+      expect(original.imageHash).toMatch(/^[0-9a-f]{64}$/);
+      expect(changedImage.promptHash).toBe(original.promptHash);
+      expect(changedImage.imageHash).not.toBe(original.imageHash);
+      expect(
+        LLMCassette.createKey(
+          'VlmPageProcessor',
+          'page',
+          createMessages(Buffer.from([1, 2, 3])),
+        ),
+      ).toEqual(original);
+      expect(
+        LLMCassette.createKey(
+          'VlmPageProcessor',
+          'page',
+          createMessages(new Uint8Array([1, 2, 3]).buffer),
+        ),
+      ).toEqual(original);
+    });
+
+    test('returns no image hash for text-only messages', () => {
+      const key = LLMCassette.createKey('ReviewAssistance', 'page', {
+        messages: [{ role: 'user', content: 'Review the page' }],
+      });
+
+      expect(key.imageHash).toBeNull();
+    });
+  });
+
+  describe('wrap', () => {
+    test('marks the model while delegating to the original', () => {
+      const cassette = new LLMCassette('record');
+      const model = {
+        modelId: 'gpt-5',
+        provider: 'openai.chat',
+        describe() {
+          return this.modelId;
+        },
+      };
+
+      const wrapped = cassette.wrap(model as unknown as LanguageModel);
+
+      expect(getLLMCassette(wrapped)).toBe(cassette);
+      expect((wrapped as unknown as typeof model).modelId).toBe('gpt-5');
+      expect((wrapped as unknown as typeof model).describe()).toBe('gpt-5');
+      expect(getLLMCassette(model as unknown as LanguageModel)).toBeUndefined();
+    });
+
+    test('rejects model ID strings', () => {
+      expect(() => new LLMCassette('record').wrap('openai/gpt-5')).toThrow(
+        'LLMCassette can only wrap model instances, got model ID "openai/gpt-5"',
+      );
+      expect(getLLMCassette('openai/gpt-5')).toBeUndefined();
+    });
+  });
+
+  describe('run', () => {
+    test('records results in record mode', async () => {
+      const cassette = new LLMCassette('record');
+      const execute = vi.fn().mockResolvedValue({
+        output: { ok: true },
+        usage,
+        usedFallback: false,
+      });
+
+      const result = await cassette.run(textKey, execute);
+
+      expect(result.output).toEqual({ ok: true });
+      expect(execute).toHaveBeenCalledTimes(1);
+      expect(cassette.getInteractions()).toEqual([
+        createInteraction({ ok: true }),
+      ]);
+    });
+
+    test('replays identical calls in recording order', async () => {
+      const cassette = new LLMCassette('replay', [
+        createInteraction('first'),
+        createInteraction('second'),
+      ]);
+      const execute = vi.fn();
+
+      const first = await cassette.run(textKey, execute);
+      const second = await cassette.run(textKey, execute);
+
+      expect(first.output).toBe('first');
+      expect(second.output).toBe('second');
+      expect(execute).not.toHaveBeenCalled();
+      await expect(cassette.run(textKey, execute)).rejects.toThrow(
+        LLMCassetteMissError,
+      );
+    });
+
+    test('reports prompt drift with the missing key', async () => {
+      const cassette = new LLMCassette('replay', [createInteraction('first')]);
+      const driftedKey = { ...textKey, promptHash: 'f'.repeat(64) };
+
+      const error = await cassette
+        .run(driftedKey, vi.fn())
+        .catch((caught: unknown) => caught);
+
+      expect(error).toBeInstanceOf(LLMCassetteMissError);
+      expect(error).toMatchObject({
+        name: 'LLMCassetteMissError',
+        key: driftedKey,
+        message:
+          'No recorded LLM call for TocExtractor/extraction (prompt ffffffffffff); the prompt or input may have changed since recording',
+      });
+      expect(cassette.getUnusedInteractions()).toEqual([
+        createInteraction('first'),
+      ]);
+    });
+
+    test('only matches interactions with the same key', async () => {
+      const cassette = new LLMCassette('replay', [
+        { ...createInteraction('first'), key: { ...textKey, phase: 'retry' } },
+        {
+          ...createInteraction('second'),
+          key: { ...textKey, component: 'TocContentValidator' },
+        },
+        {
+          ...createInteraction('third'),
+          key: { ...textKey, imageHash: 'a'.repeat(64) },
+        },
+      ]);
+
+      await expect(cassette.run(textKey, vi.fn())).rejects.toThrow(
+        LLMCassetteMissError,
+      );
+    });
+  });
+
+  describe('save and load', () => {
+    test('round-trips interactions through a cassette file', async () => {
+      const dir = mkdtempSync(join(tmpdir(), 'llm-cassette-'));
+      const filePath = join(dir, 'report.cassette.json');
+
+      try {
+        new LLMCassette('record', [createInteraction({ ok: true })]).save(
+          filePath,
+        );
+        const loaded = LLMCassette.load(filePath);
+
+        expect(loaded.mode).toBe('replay');
+        expect(loaded.toJSON()).toEqual({
+          version: 1,
+          interactions: [createInteraction({ ok: true })],
+        });
+        expect(LLMCassette.load(filePath, 'record').mode).toBe('record');
+      } finally {
+        rmSync(dir, { recursive: true, force: true });
+      }
+    });
+  });
+});
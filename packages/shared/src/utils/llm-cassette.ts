@@ -0,0 +1,270 @@
+import type { LanguageModel } from 'ai';
+
+import type { ExtendedTokenUsage, LLMCallResult } from './llm-caller';
+
+import { createHash } from 'node:crypto';
+import { readFileSync, writeFileSync } from 'node:fs';
+
+/**
+ * Cassette mode
+ *
+ * - record: Call the provider and store every result
+ * - replay: Return stored results without calling the provider
+ */
+export type LLMCassetteMode = 'record' | 'replay';
+
+/**
+ * Identity of a single LLM call
+ */
+export interface LLMCassetteKey {
+  component: string;
+  phase: string;
+
+  /**
+   * SHA-256 of the prompts or messages, with binary content replaced by its size
+   */
+  promptHash: string;
+
+  /**
+   * SHA-256 of all binary message content in order (null for text-only calls)
+   */
+  imageHash: string | null;
+}
+
+/**
+ * Recorded LLM call
+ */
+export interface LLMCassetteInteraction {
+  key: LLMCassetteKey;
+  output: unknown;
+  usage: ExtendedTokenUsage;
+  usedFallback: boolean;
+}
+
+/**
+ * Cassette file contents
+ */
+export interface LLMCassetteFile {
+  version: 1;
+  interactions: LLMCassetteInteraction[];
+}
+
+/**
+ * Prompt portion of an LLM call used to derive its cassette key
+ */
+export type LLMCassettePrompt =
+  | { systemPrompt: string; userPrompt: string }
+  | { messages: Array<{ role: string; content: unknown }> };
+
+/**
+ * LLMCassetteMissError
+ *
+ * Error thrown in replay mode when a call has no recorded interaction,
+ * which usually means a prompt or input image changed since recording.
+ */
+export class LLMCassetteMissError extends Error {
+  constructor(
+    message: string,
+    public readonly key: LLMCassetteKey,
+  ) {
+    super(message);
+    this.name = 'LLMCassetteMissError';
+  }
+}
+
+// Registered symbol so cassettes work across packages that each bundle this module
+const CASSETTE = Symbol.for('heripo.llmCassette');
+
+/**
+ * Return the cassette a model was wrapped with, if any
+ */
+export function getLLMCassette(model: LanguageModel): LLMCassette | undefined {
+  if (typeof model !== 'object') return undefined;
+  return (model as { [CASSETTE]?: LLMCassette })[CASSETTE];
+}
+
+function isBinary(value: unknown): value is Uint8Array | ArrayBuffer {
+  return value instanceof Uint8Array || value instanceof ArrayBuffer;
+}
+
+/**
+ * LLMCassette - Record/replay layer for LLMCaller
+ *
+ * Models wrapped with `wrap()` are routed through the cassette by LLMCaller.
+ * In record mode each call goes to the provider and its parsed output and
+ * usage are stored; in replay mode the stored result is returned without any
+ * network access. Calls are matched by component, phase, prompt hash and
+ * image hash, so identical calls replay in recording order and a changed
+ * prompt fails with LLMCassetteMissError instead of silently calling out.
+ *
+ * @example
+ * ```typescript
+ * const cassette = LLMCassette.load('fixtures/report-001.cassette.json');
+ * const model = cassette.wrap(openai('gpt-5'));
+ *
+ * // ... run PDFParser / DocumentProcessor with `model` ...
+ *
+ * cassette.getUnusedInteractions(); // recorded calls that were never made
+ * ```
+ */
+export class LLMCassette {
+  private readonly interactions: LLMCassetteInteraction[];
+  private readonly replayed = new Set<LLMCassetteInteraction>();
+
+  constructor(
+    readonly mode: LLMCassetteMode,
+    interactions: LLMCassetteInteraction[] = [],
+  ) {
+    this.interactions = [...interactions];
+  }
+
+  /**
+   * Load a cassette file (replay mode by default)
+   */
+  static load(filePath: string, mode: LLMCassetteMode = 'replay'): LLMCassette {
+    const file = JSON.parse(readFileSync(filePath, 'utf-8')) as LLMCassetteFile;
+    return new LLMCassette(mode, file.interactions);
+  }
+
+  /**
+   * Build the cassette key for a call
+   */
+  static createKey(
+    component: string,
+    phase: string,
+    prompt: LLMCassettePrompt,
+  ): LLMCassetteKey {
+    if (!('messages' in prompt)) {
+      return {
+        component,
+        phase,
+        promptHash: createHash('sha256')
+          .update(JSON.stringify([prompt.systemPrompt, prompt.userPrompt]))
+          .digest('hex'),
+        imageHash: null,
+      };
+    }
+
+    const imageHash = createHash('sha256');
+    let hasBinary = false;
+    const serialized = JSON.stringify(
+      prompt.messages,
+      function (this: Record<string, unknown>, key, value: unknown) {
+        // Read the raw value since Buffer#toJSON runs before the replacer
+        const raw = this[key];
+        if (!isBinary(raw)) return value;
+        hasBinary = true;
+        imageHash.update(
+          raw instanceof ArrayBuffer ? new Uint8Array(raw) : raw,
+        );
+        return `<binary:${raw.byteLength}>`;
+      },
+    );
+
+    return {
+      component,
+      phase,
+      promptHash: createHash('sha256').update(serialized).digest('hex'),
+      imageHash: hasBinary ? imageHash.digest('hex') : null,
+    };
+  }
+
+  /**
+   * Wrap a model so LLMCaller routes its calls through this cassette
+   *
+   * The returned model behaves like the original for every other consumer.
+   *
+   * @throws TypeError when given a model ID string instead of a model instance
+   */
+  wrap(model: LanguageModel): LanguageModel {
+    if (typeof model === 'string') {
+      throw new TypeError(
+        `LLMCassette can only wrap model instances, got model ID "${model}"`,
+      );
+    }
+
+    return new Proxy(model, {
+      get: (target, property) => {
+        if (property === CASSETTE) return this;
+        const value = Reflect.get(target, property, target);
+        return typeof value === 'function' ? value.bind(target) : value;
+      },
+    });
+  }
+
+  /**
+   * Replay the call for `key`, or run and record it in record mode
+   */
+  async run<TOutput>(
+    key: LLMCassetteKey,
+    execute: () => Promise<LLMCallResult<TOutput>>,
+  ): Promise<LLMCallResult<TOutput>> {
+    if (this.mode === 'record') {
+      const result = await execute();
+      this.interactions.push({
+        key,
+        output: result.output,
+        usage: result.usage,
+        usedFallback: result.usedFallback,
+      });
+      return result;
+    }
+
+    const interaction = this.interactions.find(
+      (candidate) =>
+        !this.replayed.has(candidate) &&
+        candidate.key.component === key.component &&
+        candidate.key.phase === key.phase &&
+        candidate.key.promptHash === key.promptHash &&
+        candidate.key.imageHash === key.imageHash,
+    );
+    if (!interaction) {
+      throw new LLMCassetteMissError(
+        `No recorded LLM call for ${key.component}/${key.phase} ` +
+          `(prompt ${key.promptHash.slice(0, 12)}); ` +
+          'the prompt or input may have changed since recording',
+        key,
+      );
+    }
+
+    this.replayed.add(interaction);
+    return {
+      output: interaction.output as TOutput,
+      usage: interaction.usage,
+      usedFallback: interaction.usedFallback,
+    };
+  }
+
+  /**
+   * All recorded interactions in recording order
+   */
+  getInteractions(): LLMCassetteInteraction[] {
+    return [...this.interactions];
+  }
+
+  /**
+   * Recorded interactions that have not been replayed (replay mode)
+   *
+   * A non-empty result after a full run means the pipeline made fewer or
+   * different calls than when the cassette was recorded.
+   */
+  getUnusedInteractions(): LLMCassetteInteraction[] {
+    return this.interactions.filter(
+      (interaction) => !this.replayed.has(interaction),
+    );
+  }
+
+  /**
+   * Serialize the cassette
+   */
+  toJSON(): LLMCassetteFile {
+    return { version: 1, interactions: this.getInteractions() };
+  }
+
+  /**
+   * Write the cassette to a file
+   */
+  save(filePath: string): void {
+    writeFileSync(filePath, `${JSON.stringify(this.toJSON(), null, 2)}\n`);
+  }
+}
@@ -0,0 +1,113 @@
+import { afterEach, beforeEach, describe, expect, test, vi } from 'vitest';
+
+import { UnknownModelProviderError, createModel } from './model-factory';
+
+const providers = vi.hoisted(() => {
+  const createProvider = (name: string) =>
+    vi.fn((settings: unknown) =>
+      vi.fn((modelName: string, options?: unknown) => ({
+        name,
+        settings,
+        modelName,
+        options,
+      })),
+    );
+  return {
+    anthropic: createProvider('anthropic'),
+    google: createProvider('google'),
+    openai: createProvider('openai'),
+    openaiCompatible: createProvider('openai-compatible'),
+    together: createProvider('together'),
+    ollama: createProvider('ollama'),
+  };
+});
+
+vi.mock('@ai-sdk/anthropic', () => ({ createAnthropic: providers.anthropic }));
+vi.mock('@ai-sdk/google', () => ({
+  createGoogleGenerativeAI: providers.google,
+}));
+vi.mock('@ai-sdk/openai', () => ({ createOpenAI: providers.openai }));
+vi.mock('@ai-sdk/openai-compatible', () => ({
+  createOpenAICompatible: providers.openaiCompatible,
+}));
+vi.mock('@ai-sdk/togetherai', () => ({ createTogetherAI: providers.together }));
+vi.mock('ai-sdk-ollama', () => ({ createOllama: providers.ollama }));
+
+describe('createModel', () => {
+  beforeEach(() => {
+    vi.stubEnv('OPENAI_API_KEY', 'openai-key');
+    vi.stubEnv('ANTHROPIC_API_KEY', 'anthropic-key');
+    vi.stubEnv('GOOGLE_GENERATIVE_AI_API_KEY', 'google-key');
+    vi.stubEnv('TOGETHER_AI_API_KEY', 'together-key');
+    vi.stubEnv('OLLAMA_BASE_URL', '');
+    vi.stubEnv('LMSTUDIO_BASE_URL', '');
+    vi.stubEnv('LMSTUDIO_API_KEY', '');
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  test('creates cloud provider models with API keys from the environment', () => {
+    expect(createModel('openai/gpt-5.2')).toEqual({
+      name: 'openai',
+      settings: { apiKey: 'openai-key' },
+      modelName: 'gpt-5.2',
+    });
+    expect(createModel('anthropic/claude-opus-4.6')).toMatchObject({
+      name: 'anthropic',
+      settings: { apiKey: 'anthropic-key' },
+    });
+    expect(createModel('google/gemini-3-flash-preview')).toMatchObject({
+      name: 'google',
+      settings: { apiKey: 'google-key' },
+    });
+    expect(
+      createModel('together/Qwen/Qwen3-235B-A22B-Instruct-2507-tput'),
+    ).toMatchObject({
+      name: 'together',
+      settings: { apiKey: 'together-key' },
+      modelName: 'Qwen/Qwen3-235B-A22B-Instruct-2507-tput',
+    });
+  });
+
+  test('creates local models with default server URLs', () => {
+    expect(createModel('ollama/qwen3.5:9b-mlx')).toEqual({
+      name: 'ollama',
+      settings: { baseURL: 'http://127.0.0.1:11434' },
+      modelName: 'qwen3.5:9b-mlx',
+      options: { think: false },
+    });
+    expect(createModel('lmstudio/gemma-4-e4b-it-mlx')).toMatchObject({
+      name: 'openai-compatible',
+      settings: {
+        name: 'lmstudio',
+        baseURL: 'http://localhost:1234/v1',
+        apiKey: 'lmstudio',
+        supportsStructuredOutputs: true,
+      },
+    });
+  });
+
+  test('uses local server URLs from the environment', () => {
+    vi.stubEnv('OLLAMA_BASE_URL', 'http://gpu-box:11434');
+    vi.stubEnv('LMSTUDIO_BASE_URL', 'http://gpu-box:1234/v1');
+    vi.stubEnv('LMSTUDIO_API_KEY', 'lm-key');
+
+    expect(createModel('ollama/qwen3.5:9b-mlx')).toMatchObject({
+      settings: { baseURL: 'http://gpu-box:11434' },
+    });
+    expect(createModel('lmstudio/gemma-4-e4b-it-mlx')).toMatchObject({
+      settings: { baseURL: 'http://gpu-box:1234/v1', apiKey: 'lm-key' },
+    });
+  });
+
+  test('rejects unknown providers', () => {
+    expect(() => createModel('mistral/large')).toThrow(
+      UnknownModelProviderError,
+    );
+    expect(() => createModel('mistral/large')).toThrow(
+      'Unknown model provider "mistral" in "mistral/large"',
+    );
+  });
+});
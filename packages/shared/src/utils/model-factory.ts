@@ -0,0 +1,74 @@
+import type { LanguageModel } from 'ai';
+
+import { createAnthropic } from '@ai-sdk/anthropic';
+import { createGoogleGenerativeAI } from '@ai-sdk/google';
+import { createOpenAI } from '@ai-sdk/openai';
+import { createOpenAICompatible } from '@ai-sdk/openai-compatible';
+import { createTogetherAI } from '@ai-sdk/togetherai';
+import { createOllama } from 'ai-sdk-ollama';
+
+const DEFAULT_OLLAMA_BASE_URL = 'http://127.0.0.1:11434';
+const DEFAULT_LMSTUDIO_BASE_URL = 'http://localhost:1234/v1';
+
+/**
+ * Error thrown by createModel for model IDs with an unknown provider
+ */
+export class UnknownModelProviderError extends Error {
+  constructor(
+    public readonly provider: string,
+    public readonly modelId: string,
+  ) {
+    super(`Unknown model provider "${provider}" in "${modelId}"`);
+    this.name = 'UnknownModelProviderError';
+  }
+}
+
+/**
+ * Converts a "provider/model-name" model ID to a LanguageModel instance
+ *
+ * API keys and local server URLs are read from the environment:
+ *   - "openai/gpt-5.2" (OPENAI_API_KEY)
+ *   - "anthropic/claude-opus-4.6" (ANTHROPIC_API_KEY)
+ *   - "google/gemini-3-flash-preview" (GOOGLE_GENERATIVE_AI_API_KEY)
+ *   - "together/Qwen/Qwen3-235B-A22B-Instruct-2507-tput" (TOGETHER_AI_API_KEY)
+ *   - "ollama/qwen3.5:9b-mlx" (OLLAMA_BASE_URL)
+ *   - "lmstudio/gemma-4-e4b-it-mlx" (LMSTUDIO_BASE_URL, LMSTUDIO_API_KEY)
+ *
+ * @throws UnknownModelProviderError for unknown providers
+ */
+export function createModel(modelId: string): LanguageModel {
+  const [provider, ...rest] = modelId.split('/');
+  const modelName = rest.join('/');
+
+  switch (provider) {
+    case 'openai':
+      return createOpenAI({ apiKey: process.env.OPENAI_API_KEY })(modelName);
+    case 'anthropic':
+      return createAnthropic({ apiKey: process.env.ANTHROPIC_API_KEY })(
+        modelName,
+      );
+    case 'google':
+      return createGoogleGenerativeAI({
+        apiKey: process.env.GOOGLE_GENERATIVE_AI_API_KEY,
+      })(modelName);
+    case 'together':
+      return createTogetherAI({ apiKey: process.env.TOGETHER_AI_API_KEY })(
+        modelName,
+      );
+    case 'ollama':
+      // Thinking disabled by default; LLMCaller structures Ollama output via tool calls
+      return createOllama({
+        baseURL: process.env.OLLAMA_BASE_URL || DEFAULT_OLLAMA_BASE_URL,
+      })(modelName, { think: false });
+    case 'lmstudio':
+      // OpenAI-compatible json_schema mode enables LLMCaller's Output.object path
+      return createOpenAICompatible({
+        name: 'lmstudio',
+        baseURL: process.env.LMSTUDIO_BASE_URL || DEFAULT_LMSTUDIO_BASE_URL,
+        apiKey: process.env.LMSTUDIO_API_KEY || 'lmstudio',
+        supportsStructuredOutputs: true,
+      })(modelName);
+    default:
+      throw new UnknownModelProviderError(provider, modelId);
+  }
+}
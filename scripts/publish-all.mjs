@@ -40,6 +40,8 @@ const packages = [
   { name: '@heripo/model', dir: 'packages/model' },
   { name: '@heripo/pdf-parser', dir: 'packages/pdf-parser' },
   { name: '@heripo/document-processor', dir: 'packages/document-processor' },
+  { name: '@heripo/ledger-extractor', dir: 'packages/ledger-extractor' },
+  { name: '@heripo/cli', dir: 'packages/cli' },
 ];
 
 const run = (cmd, cmdArgs, options = {}) => {